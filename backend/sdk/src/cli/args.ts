@@ -0,0 +1,142 @@
+/**
+ * wage-cli - argument parsing
+ */
+
+import { APT, AmountError, TokenAmount } from "../protocol/index.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ParsedArgs {
+  /** Subcommand words and positional values, e.g. `["stream", "pause", "12"]` */
+  positionals: string[];
+  /** `--name value` and `--flag` options (flags without a value are "true") */
+  options: Map<string, string>;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+// Options that never take a value
+const BOOLEAN_OPTIONS = new Set(["help", "simulate"]);
+
+// ============================================
+// PARSING
+// ============================================
+
+export const parseArgs = (argv: string[]): ParsedArgs => {
+  const positionals: string[] = [];
+  const options = new Map<string, string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inline] = arg.slice(2).split(/=(.*)/s);
+    if (inline !== undefined) {
+      options.set(name, inline);
+    } else if (BOOLEAN_OPTIONS.has(name) || i + 1 >= argv.length || argv[i + 1].startsWith("--")) {
+      options.set(name, "true");
+    } else {
+      options.set(name, argv[++i]);
+    }
+  }
+
+  return { positionals, options };
+};
+
+// ============================================
+// OPTION READERS
+// ============================================
+
+export const optionalString = (args: ParsedArgs, name: string): string | undefined => args.options.get(name);
+
+export const requireString = (args: ParsedArgs, name: string): string => {
+  const value = args.options.get(name);
+  if (value === undefined || value === "true") throw new UsageError(`Missing required option --${name}`);
+  return value;
+};
+
+export const hasFlag = (args: ParsedArgs, name: string): boolean => args.options.get(name) === "true";
+
+/**
+ * Integer amount in a token's base units (no decimal scaling)
+ */
+export const requireUnits = (args: ParsedArgs, name: string): bigint => {
+  const value = requireString(args, name);
+  if (!/^\d+$/.test(value)) throw new UsageError(`--${name} must be an integer amount in base units, got "${value}"`);
+  return BigInt(value);
+};
+
+export const requireInteger = (args: ParsedArgs, name: string): number => {
+  const value = requireString(args, name);
+  if (!/^\d+$/.test(value)) throw new UsageError(`--${name} must be a non-negative integer, got "${value}"`);
+  return Number(value);
+};
+
+/**
+ * Positional argument at `index` (after the subcommand words)
+ */
+export const requirePositional = (args: ParsedArgs, index: number, label: string): string => {
+  const value = args.positionals[index];
+  if (value === undefined) throw new UsageError(`Missing <${label}>`);
+  return value;
+};
+
+export const requireAddress = (value: string, label: string): string => {
+  if (!/^0x[0-9a-fA-F]{1,64}$/.test(value)) throw new UsageError(`${label} must be a 0x-prefixed account address`);
+  return value;
+};
+
+export const requireId = (value: string, label: string): bigint => {
+  if (!/^\d+$/.test(value)) throw new UsageError(`<${label}> must be a non-negative integer, got "${value}"`);
+  return BigInt(value);
+};
+
+// ============================================
+// UNITS
+// ============================================
+
+/**
+ * Parse an APT amount ("12.5") to octas without floating point rounding
+ */
+export const parseApt = (value: string, label: string): bigint => {
+  if (!/^\d+(\.\d+)?$/.test(value)) throw new UsageError(`${label} must be an APT amount like 12.5, got "${value}"`);
+  try {
+    return TokenAmount.parse(value, APT).raw;
+  } catch (error) {
+    if (error instanceof AmountError) throw new UsageError(`${label} has more than ${APT.decimals} decimals`);
+    throw error;
+  }
+};
+
+export const formatApt = (octas: bigint): string => TokenAmount.of(octas, APT).toDecimalString();
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+/**
+ * Parse a duration such as `3600`, `12h` or `30d` to seconds
+ */
+export const parseDuration = (value: string, label: string): number => {
+  const match = /^(\d+)([smhdw]?)$/.exec(value);
+  if (!match) throw new UsageError(`${label} must be seconds or a duration like 12h or 30d, got "${value}"`);
+  return Number(match[1]) * DURATION_UNITS[match[2] || "s"];
+};
+
+/**
+ * Parse a Unix timestamp in seconds or an ISO-8601 date
+ */
+export const parseTimestamp = (value: string, label: string): number => {
+  if (/^\d+$/.test(value)) return Number(value);
+  const millis = Date.parse(value);
+  if (Number.isNaN(millis)) throw new UsageError(`${label} must be a Unix timestamp or ISO date, got "${value}"`);
+  return Math.floor(millis / 1000);
+};
@@ -0,0 +1,50 @@
+/**
+ * wage-cli - compliance commands
+ */
+
+import { formatApt, hasFlag, parseApt, requireAddress, requireString } from "../args.js";
+import { CommandSpec, accountOrOption } from "../context.js";
+
+export const COMPLIANCE_COMMANDS: Record<string, CommandSpec> = {
+  deductions: {
+    usage: "--employee <address> --gross <apt> [--employer <address>] [--explain]",
+    description: "Calculate EPF, ESI, TDS and professional tax for a gross wage",
+    run: async (ctx) => {
+      const employee = requireAddress(requireString(ctx.args, "employee"), "--employee");
+      const employer = requireAddress(accountOrOption(ctx, "employer"), "--employer");
+      const gross = parseApt(requireString(ctx.args, "gross"), "--gross");
+
+      if (hasFlag(ctx.args, "explain")) {
+        const [check] = await ctx.sdk.checkDeductions(employer, employee, [gross]);
+        if (check.mismatches.length > 0) {
+          console.error(`Offline deductions differ from calculate_deductions on ${check.mismatches.join(", ")}`);
+        }
+        return {
+          kind: "rows",
+          rows: check.offline.lines.map((line) => ({
+            deduction: line.kind,
+            amountApt: formatApt(line.amount),
+            onChainApt: formatApt(check.onChain[line.kind]),
+            explanation: line.explanation,
+          })),
+        };
+      }
+
+      const deductions = await ctx.sdk.calculateDeductions(employer, employee, gross);
+
+      return {
+        kind: "record",
+        value: {
+          employer,
+          employee,
+          grossApt: formatApt(gross),
+          epfApt: formatApt(deductions.epf),
+          esiApt: formatApt(deductions.esi),
+          tdsApt: formatApt(deductions.tds),
+          professionalTaxApt: formatApt(deductions.professionalTax),
+          netPayableApt: formatApt(deductions.netPayable),
+        },
+      };
+    },
+  },
+};
@@ -0,0 +1,45 @@
+/**
+ * wage-cli - dispute commands
+ */
+
+import { disputes } from "../../protocol/index.js";
+import { formatApt, requireId, requirePositional } from "../args.js";
+import { CommandSpec } from "../context.js";
+import { Row, enumLabel } from "../output.js";
+
+// Statuses after which get_resolution has a ruling to return
+const RULED_STATUSES: number[] = [disputes.DISPUTE_STATUS.RESOLVED, disputes.DISPUTE_STATUS.FINAL];
+
+export const DISPUTE_COMMANDS: Record<string, CommandSpec> = {
+  show: {
+    usage: "<dispute-id>",
+    description: "Show a dispute and its resolution, if ruled",
+    run: async (ctx) => {
+      const id = requireId(requirePositional(ctx.args, 2, "dispute-id"), "dispute-id");
+      const dispute = await ctx.sdk.getDispute(id);
+
+      const value: Row = {
+        disputeId: dispute.disputeId,
+        employer: dispute.employer,
+        employee: dispute.employee,
+        category: enumLabel(disputes.DISPUTE_CATEGORY, dispute.category),
+        status: enumLabel(disputes.DISPUTE_STATUS, dispute.status),
+        disputedApt: formatApt(dispute.disputedAmount),
+        escrowApt: formatApt(dispute.escrowAmount),
+        arbitrator: dispute.arbitrator,
+      };
+
+      if (RULED_STATUSES.includes(dispute.status)) {
+        const resolution = await ctx.sdk.getResolution(id);
+        Object.assign(value, {
+          outcome: enumLabel(disputes.RESOLUTION_OUTCOME, resolution.outcome),
+          awardedToEmployeeApt: formatApt(resolution.awardedToEmployee),
+          returnedToEmployerApt: formatApt(resolution.returnedToEmployer),
+          resolvedAt: new Date(resolution.resolvedAt * 1000).toISOString(),
+        });
+      }
+
+      return { kind: "record", value };
+    },
+  },
+};
@@ -0,0 +1,145 @@
+/**
+ * wage-cli - offline (cold-wallet) signing
+ *
+ * ```bash
+ * # online, no key needed
+ * wage-cli treasury deposit --amount 5000 --offline deposit.json --sender 0xTREASURY
+ * # offline machine holding the key
+ * wage-cli offline sign deposit.json --key treasury
+ * # online again
+ * wage-cli offline submit deposit.signed.json
+ * ```
+ *
+ * Without removable media, `offline qr` prints a file as QR codes and
+ * `offline scan` reads codes typed in by a keyboard-mode scanner, one per line.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { createInterface } from "node:readline";
+import {
+  OfflineQrPart,
+  OfflineTransaction,
+  assembleOfflineQrParts,
+  offlineTransactionQrCodes,
+  parseOfflineQrPart,
+  parseOfflineTransaction,
+  serializeOfflineTransaction,
+  signOfflineTransaction,
+  submitOfflineTransaction,
+} from "../../offline.js";
+import { QrCode } from "../../qr.js";
+import { UsageError, optionalString, requirePositional } from "../args.js";
+import { CliContext, CommandSpec, recordWrite, summarizeOffline } from "../context.js";
+
+const readOffline = (ctx: CliContext): { path: string; offline: OfflineTransaction } => {
+  const path = requirePositional(ctx.args, 2, "file");
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  return { path, offline: parseOfflineTransaction(text) };
+};
+
+const QUIET_ZONE = 2;
+
+/**
+ * Draw a QR code with half-block characters, two module rows per line. Light
+ * modules are drawn as blocks, for terminals with light text on a dark background.
+ */
+const renderQr = (qr: QrCode): string => {
+  const light = (x: number, y: number) => !qr.modules[y]?.[x];
+  const lines: string[] = [];
+  for (let y = -QUIET_ZONE; y < qr.size + QUIET_ZONE; y += 2) {
+    let line = "";
+    for (let x = -QUIET_ZONE; x < qr.size + QUIET_ZONE; x++) {
+      const [top, bottom] = [light(x, y), light(x, y + 1)];
+      line += top && bottom ? "█" : top ? "▀" : bottom ? "▄" : " ";
+    }
+    lines.push(line);
+  }
+  return lines.join("\n");
+};
+
+/**
+ * Read scanned QR parts from stdin, one per line, until every part is in
+ */
+const scanQrParts = async (): Promise<OfflineQrPart[]> => {
+  const parts = new Map<number, OfflineQrPart>();
+  const lines = createInterface({ input: process.stdin, terminal: false });
+
+  for await (const line of lines) {
+    if (line.trim() === "") continue;
+    const part = parseOfflineQrPart(line);
+    const [first] = parts.values();
+    if (first && first.checksum !== part.checksum) {
+      console.error(`Skipped a code from another transaction (part ${part.index} of ${part.total})`);
+      continue;
+    }
+    parts.set(part.index, part);
+    console.error(`Scanned part ${part.index} of ${part.total} (${parts.size} of ${part.total} in)`);
+    if (parts.size === part.total) break;
+  }
+  lines.close();
+  return [...parts.values()];
+};
+
+export const OFFLINE_COMMANDS: Record<string, CommandSpec> = {
+  show: {
+    usage: "<file>",
+    description: "Show what an offline transaction file does and whether it is signed",
+    run: async (ctx) => {
+      const { path, offline } = readOffline(ctx);
+      return { kind: "record", value: summarizeOffline(offline, path) };
+    },
+  },
+
+  sign: {
+    usage: "<file> [--out <file>]",
+    description: "Sign an exported transaction with the keystore key (needs no network)",
+    run: async (ctx) => {
+      const { path, offline } = readOffline(ctx);
+      const out = optionalString(ctx.args, "out") ?? path.replace(/(\.json)?$/, ".signed.json");
+
+      const signed = signOfflineTransaction(offline, ctx.signer().account);
+      writeFileSync(out, serializeOfflineTransaction(signed));
+      return { kind: "record", value: summarizeOffline(signed, out) };
+    },
+  },
+
+  qr: {
+    usage: "<file>",
+    description: "Print an offline transaction file as QR codes, to scan on the other machine",
+    run: async (ctx) => {
+      const { path, offline } = readOffline(ctx);
+      const codes = offlineTransactionQrCodes(offline);
+      // Codes go to stderr so --output json stays parseable
+      codes.forEach((code, i) => console.error(`Part ${i + 1} of ${codes.length}\n${renderQr(code)}\n`));
+      return { kind: "record", value: { ...summarizeOffline(offline, path), qrCodes: codes.length } };
+    },
+  },
+
+  scan: {
+    usage: "[--out <file>]",
+    description: "Read scanned QR codes from stdin, one per line, and save the offline transaction file",
+    run: async (ctx) => {
+      const offline = assembleOfflineQrParts(await scanQrParts());
+      const out =
+        optionalString(ctx.args, "out") ??
+        `offline-${offline.sequenceNumber}${offline.senderAuthenticator === undefined ? "" : ".signed"}.json`;
+
+      writeFileSync(out, serializeOfflineTransaction(offline));
+      return { kind: "record", value: summarizeOffline(offline, out) };
+    },
+  },
+
+  submit: {
+    usage: "<file>",
+    description: "Submit a signed offline transaction",
+    run: async (ctx) => {
+      const { offline } = readOffline(ctx);
+      return recordWrite(ctx, offline.sender, await submitOfflineTransaction(ctx.sdk.getAptosClient(), offline));
+    },
+  },
+};
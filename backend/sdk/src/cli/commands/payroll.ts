@@ -0,0 +1,256 @@
+/**
+ * wage-cli - recurring payroll schedules
+ *
+ * ```bash
+ * wage-cli payroll schedule add --employee 0x... --amount 800 --per day --cadence weekly --start 2026-11-02 \
+ *   --holidays 2026-11-08,2026-11-14 --utc-offset 330 --key payroll
+ * wage-cli payroll run --dry-run --key payroll
+ * wage-cli payroll run --key payroll      # e.g. daily from cron
+ * wage-cli payroll runs
+ * ```
+ *
+ * Schedules and run history live in `--payroll-store` / WAGE_PAYROLL_STORE
+ * (default ~/.wage-cli/payroll.json).
+ */
+
+import { CommittedTransactionResponse } from "@aptos-labs/ts-sdk";
+import {
+  PayrollBasis,
+  PayrollCadence,
+  PayrollPeriod,
+  PayrollRunner,
+  PayrollSchedule,
+  PayrollScheduleError,
+  upcomingPeriods,
+} from "../../payroll.js";
+import { Signer } from "../../signers.js";
+import {
+  UsageError,
+  formatApt,
+  hasFlag,
+  optionalString,
+  parseApt,
+  requireAddress,
+  requireInteger,
+  requirePositional,
+  requireString,
+} from "../args.js";
+import { CliContext, CommandSpec, accountOrOption, recordWrite } from "../context.js";
+import { Row } from "../output.js";
+import { DEFAULT_PAYROLL_STORE_PATH, FilePayrollStore } from "../payrollStore.js";
+
+const CADENCES: PayrollCadence[] = ["weekly", "monthly", "shift"];
+const BASES: PayrollBasis[] = ["period", "day", "hour"];
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const createRunner = (ctx: CliContext): PayrollRunner =>
+  new PayrollRunner({
+    sdk: ctx.sdk,
+    store: new FilePayrollStore(
+      optionalString(ctx.args, "payroll-store") ?? process.env.WAGE_PAYROLL_STORE ?? DEFAULT_PAYROLL_STORE_PATH
+    ),
+  });
+
+const scheduleId = (ctx: CliContext): string => requirePositional(ctx.args, 3, "schedule-id");
+
+const oneOf = <T extends string>(value: string, allowed: T[], label: string): T => {
+  if (!(allowed as string[]).includes(value)) throw new UsageError(`${label} must be one of ${allowed.join(", ")}`);
+  return value as T;
+};
+
+const optionalList = (ctx: CliContext, name: string): string[] | undefined =>
+  optionalString(ctx.args, name)
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+/**
+ * Weekdays as numbers (0 = Sunday) or names, e.g. `1,2,3,4,5` or `mon,tue,wed,thu,fri`
+ */
+const parseWorkDays = (ctx: CliContext): number[] | undefined =>
+  optionalList(ctx, "work-days")?.map((entry) => {
+    const day = /^\d$/.test(entry) ? Number(entry) : WEEKDAYS.indexOf(entry.toLowerCase().slice(0, 3));
+    if (day < 0 || day > 6) throw new UsageError(`--work-days has an unknown weekday "${entry}"`);
+    return day;
+  });
+
+const formatPeriod = (period: PayrollPeriod): Row => ({
+  period: period.index,
+  start: new Date(period.startsAt * 1000).toISOString(),
+  end: new Date(period.endsAt * 1000).toISOString(),
+  workingDays: period.workingDays,
+  amountApt: formatApt(period.amount),
+});
+
+const scheduleRow = (schedule: PayrollSchedule): Row => ({
+  id: schedule.id,
+  employee: schedule.employee,
+  cadence: schedule.cadence,
+  amountApt: `${formatApt(schedule.amount)} per ${schedule.basis}`,
+  start: schedule.startDate,
+  end: schedule.endDate ?? (schedule.maxPeriods ? `${schedule.maxPeriods} periods` : undefined),
+  nextPeriod: schedule.nextPeriod,
+  paused: schedule.paused,
+});
+
+/**
+ * The keystore signer, appending each created stream to the audit log
+ */
+const auditedSigner = (ctx: CliContext): Signer<CommittedTransactionResponse> => {
+  const signer = ctx.signer();
+  return {
+    getAddress: () => signer.getAddress(),
+    submit: async (aptos, payload) => {
+      const response = await signer.submit(aptos, payload);
+      recordWrite(ctx, signer.getAddress(), response);
+      return response;
+    },
+  };
+};
+
+export const PAYROLL_COMMANDS: Record<string, CommandSpec> = {
+  "schedule add": {
+    usage:
+      "--employee <address> --amount <apt> --cadence <weekly|monthly|shift> --start <YYYY-MM-DD> " +
+      "[--per <period|day|hour>] [--end <YYYY-MM-DD>] [--periods <n>] [--holidays <date,...>] " +
+      "[--work-days <mon,tue,...>] [--shift-start <HH:MM>] [--shift-hours <n>] [--utc-offset <minutes>] " +
+      "[--description <text>]",
+    description: "Schedule a stream for every period, paying --amount per period (or per working day or hour)",
+    run: async (ctx) => {
+      const shiftStart = optionalString(ctx.args, "shift-start");
+      const shiftHours = optionalString(ctx.args, "shift-hours");
+      const periods = optionalString(ctx.args, "periods");
+      const utcOffset = optionalString(ctx.args, "utc-offset");
+
+      try {
+        const schedule = await createRunner(ctx).createSchedule({
+          employer: requireAddress(accountOrOption(ctx, "employer"), "--employer"),
+          employee: requireAddress(requireString(ctx.args, "employee"), "--employee"),
+          cadence: oneOf(requireString(ctx.args, "cadence"), CADENCES, "--cadence"),
+          amount: parseApt(requireString(ctx.args, "amount"), "--amount"),
+          basis: oneOf(optionalString(ctx.args, "per") ?? "period", BASES, "--per"),
+          startDate: requireString(ctx.args, "start"),
+          endDate: optionalString(ctx.args, "end"),
+          ...(periods && { maxPeriods: requireInteger(ctx.args, "periods") }),
+          workDays: parseWorkDays(ctx),
+          holidays: optionalList(ctx, "holidays"),
+          ...((shiftStart || shiftHours) && {
+            shift: { start: shiftStart ?? "09:00", hours: shiftHours ? Number(shiftHours) : 8 },
+          }),
+          ...(utcOffset && { utcOffsetMinutes: requireInteger(ctx.args, "utc-offset") }),
+          jobDescription: optionalString(ctx.args, "description"),
+        });
+        return { kind: "record", value: scheduleRow(schedule) };
+      } catch (error) {
+        if (error instanceof PayrollScheduleError) throw new UsageError(error.message);
+        throw error;
+      }
+    },
+  },
+
+  "schedule list": {
+    usage: "[--employer <address>]",
+    description: "List payroll schedules",
+    run: async (ctx) => {
+      const employer = optionalString(ctx.args, "employer");
+      const schedules = await createRunner(ctx).listSchedules(employer && requireAddress(employer, "--employer"));
+      return { kind: "rows", rows: schedules.map(scheduleRow) };
+    },
+  },
+
+  "schedule show": {
+    usage: "<schedule-id> [--count <n>]",
+    description: "Show the next --count (default 5) periods a schedule will create",
+    run: async (ctx) => {
+      const schedule = await createRunner(ctx).getSchedule(scheduleId(ctx));
+      const count = optionalString(ctx.args, "count") ? requireInteger(ctx.args, "count") : 5;
+      return { kind: "rows", rows: upcomingPeriods(schedule, count).map(formatPeriod) };
+    },
+  },
+
+  "schedule pause": {
+    usage: "<schedule-id>",
+    description: "Stop creating streams for a schedule",
+    run: async (ctx) => ({
+      kind: "record",
+      value: scheduleRow(await createRunner(ctx).setPaused(scheduleId(ctx), true)),
+    }),
+  },
+
+  "schedule resume": {
+    usage: "<schedule-id>",
+    description: "Resume a paused schedule, including periods that started while it was paused",
+    run: async (ctx) => ({
+      kind: "record",
+      value: scheduleRow(await createRunner(ctx).setPaused(scheduleId(ctx), false)),
+    }),
+  },
+
+  "schedule remove": {
+    usage: "<schedule-id>",
+    description: "Delete a schedule (streams already created are unaffected)",
+    run: async (ctx) => {
+      const id = scheduleId(ctx);
+      if (!(await createRunner(ctx).removeSchedule(id))) throw new UsageError(`Unknown schedule ${id}`);
+      return { kind: "record", value: { removed: id } };
+    },
+  },
+
+  run: {
+    usage: "[--dry-run]",
+    description: "Check the treasury covers every started period, then create their streams",
+    run: async (ctx) => {
+      const dryRun = hasFlag(ctx.args, "dry-run");
+      const employer = requireAddress(accountOrOption(ctx, "employer"), "--employer");
+      const run = await createRunner(ctx).run(employer, dryRun ? undefined : auditedSigner(ctx), { dryRun });
+
+      const { availableBalance, required, sufficient, error } = run.treasury;
+      console.error(
+        `Treasury available ${availableBalance === null ? "unknown" : formatApt(availableBalance)} APT, ` +
+          `run needs ${formatApt(required)} APT${sufficient ? "" : ` - insufficient${error ? ` (${error})` : ""}`}`
+      );
+
+      return {
+        kind: "rows",
+        rows: run.periods.map((result) => ({
+          schedule: result.scheduleId,
+          employee: result.employee,
+          ...formatPeriod(result),
+          status: result.status,
+          streamId: result.streamId,
+          hash: result.hash,
+          error: result.error,
+        })),
+      };
+    },
+  },
+
+  runs: {
+    usage: "[--employer <address>] [--limit <n>]",
+    description: "Show past payroll runs, newest first (default 20)",
+    run: async (ctx) => {
+      const employer = optionalString(ctx.args, "employer");
+      const limit = optionalString(ctx.args, "limit") ? requireInteger(ctx.args, "limit") : 20;
+      const runs = await createRunner(ctx).listRuns(employer && requireAddress(employer, "--employer"));
+
+      return {
+        kind: "rows",
+        rows: runs.slice(0, limit).map((run) => {
+          const count = (status: string) => run.periods.filter((result) => result.status === status).length;
+          return {
+            id: run.id,
+            employer: run.employer,
+            runAt: new Date(run.runAt * 1000).toISOString(),
+            availableApt: run.treasury.availableBalance === null ? null : formatApt(run.treasury.availableBalance),
+            requiredApt: formatApt(run.treasury.required),
+            sufficient: run.treasury.sufficient,
+            created: count("created"),
+            skipped: count("skipped"),
+            failed: count("failed"),
+            blocked: count("insufficient_treasury"),
+          };
+        }),
+      };
+    },
+  },
+};
@@ -0,0 +1,71 @@
+/**
+ * wage-cli - rewards commands
+ */
+
+import { photonRewards } from "../../protocol/index.js";
+import {
+  UsageError,
+  optionalString,
+  parseTimestamp,
+  requireAddress,
+  requireInteger,
+  requireString,
+  requireUnits,
+} from "../args.js";
+import { CommandSpec, runWrite } from "../context.js";
+
+const enumOption = (values: Record<string, number>, value: string, label: string): number => {
+  const code = values[value.toUpperCase().replace(/-/g, "_")];
+  if (code === undefined) {
+    const names = Object.keys(values).map((name) => name.toLowerCase().replace(/_/g, "-"));
+    throw new UsageError(`${label} must be one of ${names.join(", ")}`);
+  }
+  return code;
+};
+
+export const REWARDS_COMMANDS: Record<string, CommandSpec> = {
+  "campaign create": {
+    usage: [
+      "--name <text> --description <text> --reward-type <fixed|percentage|tiered|milestone>",
+      "--trigger-type <attendance|performance|referral|milestone|streak|custom>",
+      "--start <unix|iso-date> --end <unix|iso-date> --budget <units> --cap <units>",
+      "--token-metadata <address> [--min-score <n>] [--external-id <id>]",
+    ].join(" "),
+    description: "Create a reward campaign funded from the employer's tokens",
+    run: (ctx) => {
+      const name = requireString(ctx.args, "name");
+      const description = requireString(ctx.args, "description");
+      const rewardType = enumOption(photonRewards.REWARD_TYPE, requireString(ctx.args, "reward-type"), "--reward-type");
+      const triggerType = enumOption(
+        photonRewards.TRIGGER_TYPE,
+        requireString(ctx.args, "trigger-type"),
+        "--trigger-type"
+      );
+      const start = parseTimestamp(requireString(ctx.args, "start"), "--start");
+      const end = parseTimestamp(requireString(ctx.args, "end"), "--end");
+      if (end <= start) throw new UsageError("--end must be after --start");
+      const budget = requireUnits(ctx.args, "budget");
+      const cap = requireUnits(ctx.args, "cap");
+      const minScore = optionalString(ctx.args, "min-score") === undefined ? 0 : requireInteger(ctx.args, "min-score");
+      const tokenMetadata = requireAddress(requireString(ctx.args, "token-metadata"), "--token-metadata");
+      const externalId = optionalString(ctx.args, "external-id") ?? "";
+
+      return runWrite(ctx, (signer) =>
+        ctx.sdk.createCampaign(
+          name,
+          description,
+          rewardType,
+          triggerType,
+          start,
+          end,
+          budget,
+          cap,
+          minScore,
+          tokenMetadata,
+          externalId,
+          signer
+        )
+      );
+    },
+  },
+};
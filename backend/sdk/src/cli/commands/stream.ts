@@ -0,0 +1,110 @@
+/**
+ * wage-cli - stream commands
+ */
+
+import { EventCursor, wageStreaming, normalizeAddress } from "../../protocol/index.js";
+import {
+  formatApt,
+  optionalString,
+  parseApt,
+  parseDuration,
+  requireAddress,
+  requireId,
+  requirePositional,
+  requireString,
+} from "../args.js";
+import { CliContext, CommandSpec, accountOrOption, runWrite } from "../context.js";
+import { Row, enumLabel } from "../output.js";
+
+// Streams listed per indexer page
+const LIST_PAGE_SIZE = 100;
+
+const streamId = (ctx: CliContext): bigint => requireId(requirePositional(ctx.args, 2, "stream-id"), "stream-id");
+
+const streamRow = (stream: wageStreaming.StreamInfo, withdrawable: bigint): Row => ({
+  streamId: stream.streamId,
+  employer: stream.employer,
+  employee: stream.employee,
+  status: enumLabel(wageStreaming.STREAM_STATUS_CODES, stream.status),
+  depositedApt: formatApt(stream.totalDeposited),
+  withdrawnApt: formatApt(stream.totalWithdrawn),
+  withdrawableApt: formatApt(withdrawable),
+  start: new Date(stream.startTime * 1000).toISOString(),
+  end: new Date(stream.endTime * 1000).toISOString(),
+});
+
+export const STREAM_COMMANDS: Record<string, CommandSpec> = {
+  create: {
+    usage: "--employee <address> --amount <apt> --duration <30d|12h|seconds> [--description <text>]",
+    description: "Stream --amount to an employee over --duration",
+    run: (ctx) => {
+      const employee = requireAddress(requireString(ctx.args, "employee"), "--employee");
+      const amount = parseApt(requireString(ctx.args, "amount"), "--amount");
+      const duration = parseDuration(requireString(ctx.args, "duration"), "--duration");
+      const description = optionalString(ctx.args, "description") ?? "";
+      return runWrite(ctx, (signer) => ctx.sdk.createWageStream(employee, amount, duration, description, signer));
+    },
+  },
+
+  pause: {
+    usage: "<stream-id>",
+    description: "Pause an active stream",
+    run: (ctx) => {
+      const id = streamId(ctx);
+      return runWrite(ctx, (signer) => ctx.sdk.pauseStream(id, signer));
+    },
+  },
+
+  resume: {
+    usage: "<stream-id>",
+    description: "Resume a paused stream",
+    run: (ctx) => {
+      const id = streamId(ctx);
+      return runWrite(ctx, (signer) => ctx.sdk.resumeStream(id, signer));
+    },
+  },
+
+  terminate: {
+    usage: "<stream-id>",
+    description: "Terminate a stream early",
+    run: (ctx) => {
+      const id = streamId(ctx);
+      return runWrite(ctx, (signer) => ctx.sdk.terminateStream(id, signer));
+    },
+  },
+
+  list: {
+    usage: "[--employer <address> | --employee <address>]",
+    description: "List streams created by an employer (defaults to the keystore account) or paid to an employee",
+    run: async (ctx) => {
+      const employee = optionalString(ctx.args, "employee");
+      const filter = employee
+        ? { employee: normalizeAddress(requireAddress(employee, "--employee")) }
+        : { employer: normalizeAddress(requireAddress(accountOrOption(ctx, "employer"), "--employer")) };
+
+      const ids: number[] = [];
+      let after: EventCursor | undefined;
+      for (;;) {
+        const page = await ctx.sdk.getEvents(wageStreaming.EVENTS.streamCreated, {
+          data: filter,
+          after,
+          limit: LIST_PAGE_SIZE,
+        });
+        ids.push(...page.events.map((event) => event.data.streamId));
+        if (!page.hasMore || !page.cursor) break;
+        after = page.cursor;
+      }
+
+      const rows = await Promise.all(
+        ids.map(async (id) => {
+          const [stream, withdrawable] = await Promise.all([
+            ctx.sdk.getStreamInfo(id),
+            ctx.sdk.getWithdrawableBalance(id),
+          ]);
+          return streamRow(stream, withdrawable);
+        })
+      );
+      return { kind: "rows", rows };
+    },
+  },
+};
@@ -0,0 +1,76 @@
+/**
+ * wage-cli - treasury commands
+ */
+
+import { employerTreasury } from "../../protocol/index.js";
+import { formatApt, parseApt, requireString } from "../args.js";
+import { CommandSpec, accountOrOption, runWrite } from "../context.js";
+import { enumLabel } from "../output.js";
+
+export const TREASURY_COMMANDS: Record<string, CommandSpec> = {
+  init: {
+    usage: "--deposit <apt>",
+    description: "Create the employer treasury with an initial deposit",
+    run: (ctx) => {
+      const deposit = parseApt(requireString(ctx.args, "deposit"), "--deposit");
+      return runWrite(ctx, (signer) => ctx.sdk.initializeTreasury(deposit, signer));
+    },
+  },
+
+  deposit: {
+    usage: "--amount <apt>",
+    description: "Deposit funds into the treasury",
+    run: (ctx) => {
+      const amount = parseApt(requireString(ctx.args, "amount"), "--amount");
+      return runWrite(ctx, (signer) => ctx.sdk.depositToTreasury(amount, signer));
+    },
+  },
+
+  withdraw: {
+    usage: "--amount <apt>",
+    description: "Withdraw unallocated funds from the treasury",
+    run: (ctx) => {
+      const amount = parseApt(requireString(ctx.args, "amount"), "--amount");
+      return runWrite(ctx, (signer) => ctx.sdk.withdrawFromTreasury(amount, signer));
+    },
+  },
+
+  "emergency-withdraw": {
+    usage: "",
+    description: "Withdraw all available treasury funds",
+    run: (ctx) => runWrite(ctx, (signer) => ctx.sdk.emergencyWithdraw(signer)),
+  },
+
+  status: {
+    usage: "[--employer <address>]",
+    description: "Show balances, health and analytics (defaults to the keystore account)",
+    run: async (ctx) => {
+      const employer = accountOrOption(ctx, "employer");
+      const [balance, status, health, analytics] = await Promise.all([
+        ctx.sdk.getTreasuryBalance(employer),
+        ctx.sdk.getTreasuryStatus(employer),
+        ctx.sdk.getTreasuryHealth(employer),
+        ctx.sdk.getTreasuryAnalytics(employer),
+      ]);
+
+      return {
+        kind: "record",
+        value: {
+          employer,
+          status: enumLabel(employerTreasury.TREASURY_STATUS, status.status),
+          frozen: status.isFrozen,
+          activeStreams: status.activeStreamCount,
+          healthBps: health,
+          totalApt: formatApt(balance.totalBalance),
+          allocatedApt: formatApt(balance.allocatedBalance),
+          availableApt: formatApt(balance.availableBalance),
+          reserveApt: formatApt(balance.reserveBalance),
+          totalDepositsApt: formatApt(analytics.totalDeposits),
+          totalWithdrawalsApt: formatApt(analytics.totalWithdrawals),
+          totalDisbursementsApt: formatApt(analytics.totalDisbursements),
+          peakBalanceApt: formatApt(analytics.peakBalance),
+        },
+      };
+    },
+  },
+};
@@ -0,0 +1,164 @@
+/**
+ * wage-cli - webhook endpoints and the dispatcher service
+ *
+ * ```bash
+ * wage-cli webhook add --url https://hrms.example/hooks --events stream.created,wages.withdrawn --key payroll
+ * wage-cli webhook serve
+ * wage-cli webhook dead-letters
+ * wage-cli webhook replay --all
+ * ```
+ *
+ * State lives in `--webhook-store` / WAGE_WEBHOOK_STORE (default ~/.wage-cli/webhooks.json),
+ * which the other commands may change while `serve` runs.
+ */
+
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { EventCursor, decodeEventCursor, encodeEventCursor } from "../../protocol/index.js";
+import {
+  FileWebhookStore,
+  WEBHOOK_EVENT_TYPES,
+  WebhookDelivery,
+  WebhookDispatcher,
+  WebhookEventType,
+} from "../../webhooks/index.js";
+import { UsageError, hasFlag, optionalString, requireAddress, requirePositional, requireString } from "../args.js";
+import { CliContext, CommandSpec, accountOrOption } from "../context.js";
+import { Row } from "../output.js";
+
+const DEFAULT_WEBHOOK_STORE_PATH = join(homedir(), ".wage-cli", "webhooks.json");
+
+const storePath = (ctx: CliContext): string =>
+  optionalString(ctx.args, "webhook-store") ?? process.env.WAGE_WEBHOOK_STORE ?? DEFAULT_WEBHOOK_STORE_PATH;
+
+const parseCursor = (value: string): EventCursor => {
+  try {
+    return decodeEventCursor(value);
+  } catch {
+    throw new UsageError(`--from must be <transaction-version>:<event-index>, got "${value}"`);
+  }
+};
+
+const createDispatcher = (ctx: CliContext, store = new FileWebhookStore(storePath(ctx))): WebhookDispatcher => {
+  const from = optionalString(ctx.args, "from");
+
+  return new WebhookDispatcher({
+    sdk: ctx.sdk,
+    store,
+    ...(from && { startFrom: parseCursor(from) }),
+    onAttempt: (delivery, delivered) =>
+      console.error(
+        `${delivered ? "delivered" : delivery.status === "dead" ? "dead" : "retrying"} ` +
+          `${delivery.payload.type} ${delivery.payload.id} -> ${delivery.endpointId}` +
+          (delivered ? "" : ` (attempt ${delivery.attempts}: ${delivery.lastError})`)
+      ),
+    onError: (error) => console.error(`error reading events: ${error instanceof Error ? error.message : error}`),
+  });
+};
+
+const parseEvents = (value: string | undefined): WebhookEventType[] | undefined => {
+  if (value === undefined) return undefined;
+  const events = value.split(",").map((event) => event.trim());
+  const unknown = events.filter((event) => !(WEBHOOK_EVENT_TYPES as readonly string[]).includes(event));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown --events ${unknown.join(", ")} (use ${WEBHOOK_EVENT_TYPES.join(", ")})`);
+  }
+  return events as WebhookEventType[];
+};
+
+const summarizeDelivery = (delivery: WebhookDelivery): Row => ({
+  id: delivery.id,
+  endpoint: delivery.endpointId,
+  event: delivery.payload.type,
+  eventId: delivery.payload.id,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  lastAttempt: delivery.lastAttemptAt ? new Date(delivery.lastAttemptAt).toISOString() : undefined,
+  lastError: delivery.lastError,
+});
+
+export const WEBHOOK_COMMANDS: Record<string, CommandSpec> = {
+  add: {
+    usage: "--url <url> [--employer <address>] [--events <type,...>] [--secret <secret>]",
+    description: "Register an endpoint for an employer's events (default all) and print its signing secret",
+    run: async (ctx) => {
+      const employer = requireAddress(accountOrOption(ctx, "employer"), "--employer");
+      const endpoint = await createDispatcher(ctx).registerEndpoint({
+        employer,
+        url: requireString(ctx.args, "url"),
+        events: parseEvents(optionalString(ctx.args, "events")),
+        secret: optionalString(ctx.args, "secret"),
+      });
+      return { kind: "record", value: { ...endpoint, events: endpoint.events ?? "all" } };
+    },
+  },
+
+  list: {
+    usage: "[--employer <address>]",
+    description: "List registered endpoints",
+    run: async (ctx) => {
+      const employer = optionalString(ctx.args, "employer");
+      const endpoints = await createDispatcher(ctx).listEndpoints(employer && requireAddress(employer, "--employer"));
+      return {
+        kind: "rows",
+        rows: endpoints.map(({ secret: _secret, ...endpoint }) => ({ ...endpoint, events: endpoint.events ?? "all" })),
+      };
+    },
+  },
+
+  remove: {
+    usage: "<endpoint-id>",
+    description: "Remove an endpoint",
+    run: async (ctx) => {
+      const id = requirePositional(ctx.args, 2, "endpoint-id");
+      if (!(await createDispatcher(ctx).removeEndpoint(id))) throw new UsageError(`Unknown endpoint ${id}`);
+      return { kind: "record", value: { removed: id } };
+    },
+  },
+
+  "dead-letters": {
+    usage: "[--employer <address>]",
+    description: "List deliveries that ran out of retries",
+    run: async (ctx) => {
+      const employer = optionalString(ctx.args, "employer");
+      const deliveries = await createDispatcher(ctx).listDeadLetters({
+        ...(employer && { employer: requireAddress(employer, "--employer") }),
+      });
+      return { kind: "rows", rows: deliveries.map(summarizeDelivery) };
+    },
+  },
+
+  replay: {
+    usage: "<delivery-id>... | --all [--employer <address>]",
+    description: "Queue dead letters for delivery again (sent by a running `webhook serve`)",
+    run: async (ctx) => {
+      const ids = ctx.args.positionals.slice(2);
+      const employer = optionalString(ctx.args, "employer");
+      if (ids.length === 0 && !hasFlag(ctx.args, "all")) {
+        throw new UsageError("Pass delivery ids to replay, or --all");
+      }
+
+      const queued = await createDispatcher(ctx).replay(
+        ids.length > 0 ? ids : { ...(employer && { employer: requireAddress(employer, "--employer") }) }
+      );
+      return { kind: "rows", rows: queued.map(summarizeDelivery) };
+    },
+  },
+
+  serve: {
+    usage: "[--from <version:index>]",
+    description: "Run the dispatcher until interrupted, from the stored cursor (or --from, or the latest event)",
+    run: async (ctx) => {
+      const controller = new AbortController();
+      const stop = () => controller.abort();
+      process.once("SIGINT", stop);
+      process.once("SIGTERM", stop);
+
+      const store = new FileWebhookStore(storePath(ctx));
+      console.error(`Dispatching webhooks on ${ctx.network} (store ${storePath(ctx)}), Ctrl-C to stop`);
+      await createDispatcher(ctx, store).run(controller.signal);
+      const cursor = await store.getCursor();
+      return { kind: "record", value: { stopped: true, cursor: cursor && encodeEventCursor(cursor) } };
+    },
+  },
+};
@@ -0,0 +1,197 @@
+/**
+ * wage-cli - shared command context
+ */
+
+import { writeFileSync } from "node:fs";
+import { Network, CommittedTransactionResponse } from "@aptos-labs/ts-sdk";
+import { WageProtocolSDK } from "../index.js";
+import { Signer, AccountSigner, OfflineSigner } from "../signers.js";
+import { OfflineTransaction, serializeOfflineTransaction } from "../offline.js";
+import {
+  NETWORK_PROFILES,
+  NETWORK_PROFILE_NAMES,
+  SimulationResult,
+  describeMoveAbort,
+  isNetworkProfileName,
+} from "../protocol/index.js";
+import { ParsedArgs, UsageError, formatApt, hasFlag, optionalString, parseDuration, requireAddress } from "./args.js";
+import { DEFAULT_KEYSTORE_PATH, loadSigner } from "./keystore.js";
+import { CommandOutput, OutputFormat, Row, appendAuditLog } from "./output.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CliContext {
+  args: ParsedArgs;
+  sdk: WageProtocolSDK;
+  network: Network;
+  format: OutputFormat;
+  /** Keystore signer, loaded on first use so read commands work without a keystore */
+  signer(): AccountSigner;
+}
+
+export interface CommandSpec {
+  /** Arguments and options after the command words, e.g. `<stream-id>` */
+  usage: string;
+  description: string;
+  run(ctx: CliContext): Promise<CommandOutput>;
+}
+
+/**
+ * A write method of the SDK, called with the signer to use
+ */
+export type WriteCall = <R>(signer?: Signer<R>) => Promise<R>;
+
+// ============================================
+// CONTEXT
+// ============================================
+
+/**
+ * Build the SDK from options, falling back to WAGE_* environment variables
+ */
+export const createContext = (args: ParsedArgs): CliContext => {
+  const env = process.env;
+  const networkName = optionalString(args, "network") ?? env.WAGE_NETWORK ?? "testnet";
+  if (!isNetworkProfileName(networkName)) {
+    throw new UsageError(`Unknown network "${networkName}" (use ${NETWORK_PROFILE_NAMES.join(", ")})`);
+  }
+  const network = networkName as Network;
+  const profile = NETWORK_PROFILES[networkName];
+  const moduleAddress =
+    optionalString(args, "module-address") ?? env.WAGE_MODULE_ADDRESS ?? profile.deployment?.moduleAddress;
+  if (!moduleAddress) {
+    throw new UsageError(`The protocol has no known deployment on ${profile.label}; pass --module-address`);
+  }
+
+  const format = optionalString(args, "output") ?? env.WAGE_OUTPUT ?? "table";
+  if (format !== "json" && format !== "table") throw new UsageError(`--output must be json or table`);
+
+  const keystorePath = optionalString(args, "keystore") ?? env.WAGE_KEYSTORE ?? DEFAULT_KEYSTORE_PATH;
+  const keyName = optionalString(args, "key") ?? env.WAGE_KEY ?? "default";
+  let signer: AccountSigner | undefined;
+
+  const sdk = new WageProtocolSDK({
+    network,
+    moduleAddress,
+    registryAddress:
+      optionalString(args, "registry-address") ??
+      env.WAGE_REGISTRY_ADDRESS ??
+      (moduleAddress === profile.deployment?.moduleAddress ? profile.deployment.registryAddress : undefined),
+    nodeUrl: optionalString(args, "node-url") ?? env.WAGE_NODE_URL ?? profile.nodeUrl,
+  });
+
+  return {
+    args,
+    sdk,
+    network,
+    format,
+    signer: () => {
+      signer ??= loadSigner(keystorePath, keyName);
+      return signer;
+    },
+  };
+};
+
+/**
+ * Address of the keystore key, or `--<option>` when given
+ */
+export const accountOrOption = (ctx: CliContext, option: string): string =>
+  optionalString(ctx.args, option) ?? ctx.signer().getAddress();
+
+// ============================================
+// WRITES
+// ============================================
+
+const summarizeTransaction = (response: CommittedTransactionResponse): Row => ({
+  hash: response.hash,
+  version: response.version,
+  success: "success" in response ? response.success : undefined,
+  vmStatus: "vm_status" in response ? response.vm_status : undefined,
+  gasUsed: response.gas_used,
+  sender: "sender" in response ? response.sender : undefined,
+});
+
+const summarizeSimulation = (result: SimulationResult): Row => ({
+  simulated: true,
+  success: result.success,
+  vmStatus: result.vmStatus,
+  ...(result.abort && { error: describeMoveAbort(result.abort) }),
+  gasUsed: result.gasUsed,
+  gasUnitPrice: result.gasUnitPrice,
+  estimatedFee: result.estimatedFee,
+  treasuryChanges: result.balanceChanges.treasuries,
+  streamChanges: result.balanceChanges.streams,
+});
+
+/**
+ * Summary of an offline transaction file
+ */
+export const summarizeOffline = (offline: OfflineTransaction, path: string): Row => ({
+  file: path,
+  signed: offline.senderAuthenticator !== undefined,
+  description: offline.description,
+  sender: offline.sender,
+  function: offline.function,
+  arguments: offline.functionArguments,
+  sequenceNumber: offline.sequenceNumber,
+  chainId: offline.chainId,
+  expiresAt: new Date(offline.expiresAt * 1000).toISOString(),
+  maxFeeApt: formatApt(BigInt(offline.maxGasAmount) * BigInt(offline.gasUnitPrice)),
+});
+
+/**
+ * Summarize a committed write, appending it to `--audit-log` / WAGE_AUDIT_LOG when set
+ */
+export const recordWrite = (ctx: CliContext, sender: string, response: CommittedTransactionResponse): CommandOutput => {
+  const result = summarizeTransaction(response);
+  const auditLog = optionalString(ctx.args, "audit-log") ?? process.env.WAGE_AUDIT_LOG;
+  if (auditLog) {
+    appendAuditLog(auditLog, {
+      timestamp: new Date().toISOString(),
+      command: ctx.args.positionals.join(" "),
+      options: Object.fromEntries(ctx.args.options),
+      network: ctx.network,
+      sender,
+      result,
+    });
+  }
+
+  return { kind: "record", value: result };
+};
+
+/**
+ * Build the write as an unsigned offline transaction and save it for a cold key to sign.
+ * The sender is `--sender`, or the keystore account when there is one.
+ */
+const exportOffline = async (ctx: CliContext, call: WriteCall, path: string): Promise<CommandOutput> => {
+  const sender = requireAddress(optionalString(ctx.args, "sender") ?? ctx.signer().getAddress(), "--sender");
+  const expiresIn = optionalString(ctx.args, "expires-in");
+  const signer = new OfflineSigner(sender, {
+    description: ctx.args.positionals.join(" "),
+    ...(expiresIn && { expiresInSeconds: parseDuration(expiresIn, "--expires-in") }),
+  });
+
+  const offline = await call(signer);
+  writeFileSync(path, serializeOfflineTransaction(offline));
+  return { kind: "record", value: summarizeOffline(offline, path) };
+};
+
+/**
+ * Submit (or with `--simulate`, dry-run) a write with the keystore key.
+ * With `--offline <file>` the unsigned transaction is saved for offline signing instead.
+ * Submitted writes are appended to `--audit-log` / WAGE_AUDIT_LOG when set.
+ */
+export const runWrite = async (ctx: CliContext, call: WriteCall): Promise<CommandOutput> => {
+  const offlinePath = optionalString(ctx.args, "offline");
+  if (offlinePath) return exportOffline(ctx, call, offlinePath);
+
+  const signer = ctx.signer();
+
+  if (hasFlag(ctx.args, "simulate")) {
+    const simulator = ctx.sdk.simulator(signer.getAddress());
+    return { kind: "record", value: summarizeSimulation(await call(simulator)) };
+  }
+
+  return recordWrite(ctx, signer.getAddress(), await call(signer));
+};
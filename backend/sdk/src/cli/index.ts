@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+/**
+ * wage-cli - employer payroll operations on top of WageProtocolSDK
+ *
+ * ```bash
+ * wage-cli treasury status --output json
+ * wage-cli stream create --employee 0x... --amount 2500 --duration 30d --key payroll
+ * wage-cli stream pause 12 --simulate
+ * ```
+ *
+ * Global options (or WAGE_* environment variables):
+ *   --network <mainnet|testnet|devnet|local>   WAGE_NETWORK (default testnet)
+ *   --module-address <address>                 WAGE_MODULE_ADDRESS (default the network's deployment)
+ *   --registry-address <address>               WAGE_REGISTRY_ADDRESS
+ *   --node-url <url>                           WAGE_NODE_URL (default the network's public node)
+ *   --keystore <path>                          WAGE_KEYSTORE (default ~/.wage-cli/keystore.json)
+ *   --key <name>                               WAGE_KEY (default "default")
+ *   --output <table|json>                      WAGE_OUTPUT (default table)
+ *   --audit-log <path>                         WAGE_AUDIT_LOG, appends one JSON line per submitted write
+ *   --simulate                                 dry-run writes and print the simulation instead
+ *   --offline <path>                           save writes unsigned for a cold key (see `offline`),
+ *     [--sender <address>] [--expires-in <duration>]   sent from --sender, valid for --expires-in (1h)
+ *   --webhook-store <path>                     WAGE_WEBHOOK_STORE (default ~/.wage-cli/webhooks.json)
+ *   --payroll-store <path>                     WAGE_PAYROLL_STORE (default ~/.wage-cli/payroll.json)
+ */
+
+import { toProtocolError } from "../protocol/index.js";
+import { ParsedArgs, UsageError, hasFlag, parseArgs } from "./args.js";
+import { CommandSpec, createContext } from "./context.js";
+import { formatOutput } from "./output.js";
+import { COMPLIANCE_COMMANDS } from "./commands/compliance.js";
+import { DISPUTE_COMMANDS } from "./commands/dispute.js";
+import { OFFLINE_COMMANDS } from "./commands/offline.js";
+import { PAYROLL_COMMANDS } from "./commands/payroll.js";
+import { REWARDS_COMMANDS } from "./commands/rewards.js";
+import { STREAM_COMMANDS } from "./commands/stream.js";
+import { TREASURY_COMMANDS } from "./commands/treasury.js";
+import { WEBHOOK_COMMANDS } from "./commands/webhook.js";
+
+const COMMAND_GROUPS: Record<string, Record<string, CommandSpec>> = {
+  treasury: TREASURY_COMMANDS,
+  stream: STREAM_COMMANDS,
+  compliance: COMPLIANCE_COMMANDS,
+  dispute: DISPUTE_COMMANDS,
+  rewards: REWARDS_COMMANDS,
+  offline: OFFLINE_COMMANDS,
+  payroll: PAYROLL_COMMANDS,
+  webhook: WEBHOOK_COMMANDS,
+};
+
+const usage = (): string =>
+  [
+    "Usage: wage-cli <command> [options]",
+    "",
+    ...Object.entries(COMMAND_GROUPS).flatMap(([group, commands]) =>
+      Object.entries(commands).map(
+        ([name, spec]) => `  ${group} ${name} ${spec.usage}\n      ${spec.description}`
+      )
+    ),
+    "",
+    "Global options: --network --module-address --registry-address --node-url --keystore --key",
+    "                --output <table|json> --audit-log <path> --simulate",
+    "                --offline <path> [--sender <address>] [--expires-in <duration>]",
+    "                --webhook-store <path> --payroll-store <path>",
+  ].join("\n");
+
+/**
+ * Resolve the command words; two-word commands such as `rewards campaign create` win
+ */
+const findCommand = (args: ParsedArgs): CommandSpec | undefined => {
+  const [group, first, second] = args.positionals;
+  const commands = COMMAND_GROUPS[group];
+  if (!commands) return undefined;
+  return (second !== undefined ? commands[`${first} ${second}`] : undefined) ?? commands[first];
+};
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  const command = findCommand(args);
+  if (!command || hasFlag(args, "help")) {
+    console.log(usage());
+    process.exit(command || args.positionals.length === 0 ? 0 : 2);
+  }
+
+  const ctx = createContext(args);
+  console.log(formatOutput(await command.run(ctx), ctx.format));
+};
+
+main().catch((error) => {
+  if (error instanceof UsageError) {
+    console.error(`error: ${error.message}\nRun wage-cli --help for usage.`);
+    process.exit(2);
+  }
+
+  const protocolError = toProtocolError(error);
+  console.error(`error: ${protocolError.name}: ${protocolError.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+/**
+ * wage-cli - keystore
+ *
+ * A keystore is a JSON file of named Ed25519 keys:
+ *
+ * ```json
+ * {
+ *   "keys": {
+ *     "payroll": { "privateKey": "0x...", "address": "0x..." }
+ *   }
+ * }
+ * ```
+ *
+ * `address` is optional; when present the key must derive to it, which
+ * catches a key pasted under the wrong name.
+ */
+
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { AccountSigner } from "../signers.js";
+import { UsageError } from "./args.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface KeystoreEntry {
+  privateKey: string;
+  address?: string;
+}
+
+export interface Keystore {
+  keys: Record<string, KeystoreEntry>;
+}
+
+export const DEFAULT_KEYSTORE_PATH = join(homedir(), ".wage-cli", "keystore.json");
+
+// ============================================
+// LOADING
+// ============================================
+
+export const readKeystore = (path: string): Keystore => {
+  if (!existsSync(path)) throw new UsageError(`Keystore not found: ${path}`);
+
+  let keystore: Keystore;
+  try {
+    keystore = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new UsageError(`Keystore ${path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!keystore || typeof keystore.keys !== "object") throw new UsageError(`Keystore ${path} has no "keys" object`);
+
+  // Private keys should only be readable by their owner
+  if (process.platform !== "win32" && (statSync(path).mode & 0o077) !== 0) {
+    console.error(`warning: keystore ${path} is readable by other users; run chmod 600 ${path}`);
+  }
+
+  return keystore;
+};
+
+/**
+ * Signer for a named keystore entry
+ */
+export const loadSigner = (path: string, name: string): AccountSigner => {
+  const keystore = readKeystore(path);
+  const entry = keystore.keys[name];
+  if (!entry?.privateKey) {
+    const available = Object.keys(keystore.keys).join(", ") || "none";
+    throw new UsageError(`Key "${name}" not found in ${path} (available: ${available})`);
+  }
+
+  const signer = AccountSigner.fromPrivateKey(entry.privateKey);
+  if (entry.address && !sameAddress(entry.address, signer.getAddress())) {
+    throw new UsageError(`Key "${name}" derives to ${signer.getAddress()}, not ${entry.address}`);
+  }
+  return signer;
+};
+
+const sameAddress = (a: string, b: string): boolean =>
+  BigInt(a.startsWith("0x") ? a : `0x${a}`) === BigInt(b.startsWith("0x") ? b : `0x${b}`);
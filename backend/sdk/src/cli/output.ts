@@ -0,0 +1,88 @@
+/**
+ * wage-cli - JSON and table output
+ */
+
+import { appendFileSync } from "node:fs";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type OutputFormat = "json" | "table";
+
+export type Row = Record<string, unknown>;
+
+/**
+ * What a command prints: a single record, or a list of rows
+ */
+export type CommandOutput = { kind: "record"; value: Row } | { kind: "rows"; rows: Row[] };
+
+// ============================================
+// FORMATTING
+// ============================================
+
+const toJsonValue = (_key: string, value: unknown): unknown => (typeof value === "bigint" ? value.toString() : value);
+
+const cell = (value: unknown): string => {
+  if (value === null || value === undefined) return "-";
+  if (typeof value === "object") return JSON.stringify(value, toJsonValue);
+  return String(value);
+};
+
+const renderTable = (headers: string[], rows: string[][]): string => {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) => cells.map((value, i) => value.padEnd(widths[i])).join("  ").trimEnd();
+
+  return [line(headers), line(widths.map((width) => "-".repeat(width))), ...rows.map(line)].join("\n");
+};
+
+export const formatOutput = (output: CommandOutput, format: OutputFormat): string => {
+  if (format === "json") {
+    const value = output.kind === "record" ? output.value : output.rows;
+    return JSON.stringify(value, toJsonValue, 2);
+  }
+
+  if (output.kind === "record") {
+    return renderTable(
+      ["FIELD", "VALUE"],
+      Object.entries(output.value).map(([key, value]) => [key, cell(value)])
+    );
+  }
+
+  if (output.rows.length === 0) return "(no results)";
+  const headers = [...new Set(output.rows.flatMap((row) => Object.keys(row)))];
+  return renderTable(
+    headers.map((header) => header.toUpperCase()),
+    output.rows.map((row) => headers.map((header) => cell(row[header])))
+  );
+};
+
+// ============================================
+// AUDIT LOG
+// ============================================
+
+export interface AuditEntry {
+  timestamp: string;
+  command: string;
+  options: Record<string, string>;
+  network: string;
+  sender?: string;
+  result: Row;
+}
+
+/**
+ * Append one JSON line per write command, for payroll audit trails
+ */
+export const appendAuditLog = (path: string, entry: AuditEntry): void => {
+  appendFileSync(path, `${JSON.stringify(entry, toJsonValue)}\n`);
+};
+
+// ============================================
+// VALUES
+// ============================================
+
+/**
+ * Name of a status code in a protocol constant map, e.g. `TREASURY_STATUS`
+ */
+export const enumLabel = (values: Record<string, number>, value: number): string =>
+  Object.entries(values).find(([, code]) => code === value)?.[0] ?? `UNKNOWN(${value})`;
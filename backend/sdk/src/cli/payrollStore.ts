@@ -0,0 +1,82 @@
+/**
+ * wage-cli - payroll schedules and runs in a JSON file
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { PayrollRun, PayrollSchedule, PayrollStore } from "../payroll.js";
+import { normalizeAddress } from "../protocol/index.js";
+
+interface PayrollFile {
+  schedules: PayrollSchedule[];
+  runs: PayrollRun[];
+}
+
+export const DEFAULT_PAYROLL_STORE_PATH = join(homedir(), ".wage-cli", "payroll.json");
+
+// Runs kept per file, newest first
+const MAX_RUNS = 500;
+
+// Amounts are bigints; they are written as "<digits>n" strings
+const BIGINT_PATTERN = /^-?\d+n$/;
+
+const replacer = (_key: string, value: unknown): unknown => (typeof value === "bigint" ? `${value}n` : value);
+
+const reviver = (_key: string, value: unknown): unknown =>
+  typeof value === "string" && BIGINT_PATTERN.test(value) ? BigInt(value.slice(0, -1)) : value;
+
+const matchesEmployer = (address: string, employer?: string): boolean =>
+  employer === undefined || normalizeAddress(address) === normalizeAddress(employer);
+
+/**
+ * Re-reads the file on every call, so concurrent `wage-cli` runs see each other's changes
+ */
+export class FilePayrollStore implements PayrollStore {
+  constructor(private readonly path: string) {}
+
+  private load(): PayrollFile {
+    if (!existsSync(this.path)) return { schedules: [], runs: [] };
+    return { schedules: [], runs: [], ...JSON.parse(readFileSync(this.path, "utf8"), reviver) };
+  }
+
+  private update(change: (data: PayrollFile) => void): void {
+    const data = this.load();
+    change(data);
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, `${JSON.stringify(data, replacer, 2)}\n`);
+  }
+
+  async saveSchedule(schedule: PayrollSchedule): Promise<void> {
+    this.update((data) => {
+      data.schedules = [...data.schedules.filter((entry) => entry.id !== schedule.id), schedule];
+    });
+  }
+
+  async getSchedule(id: string): Promise<PayrollSchedule | null> {
+    return this.load().schedules.find((entry) => entry.id === id) ?? null;
+  }
+
+  async listSchedules(employer?: string): Promise<PayrollSchedule[]> {
+    return this.load().schedules.filter((entry) => matchesEmployer(entry.employer, employer));
+  }
+
+  async removeSchedule(id: string): Promise<boolean> {
+    let removed = false;
+    this.update((data) => {
+      removed = data.schedules.some((entry) => entry.id === id);
+      data.schedules = data.schedules.filter((entry) => entry.id !== id);
+    });
+    return removed;
+  }
+
+  async saveRun(run: PayrollRun): Promise<void> {
+    this.update((data) => {
+      data.runs = [run, ...data.runs].slice(0, MAX_RUNS);
+    });
+  }
+
+  async listRuns(employer?: string): Promise<PayrollRun[]> {
+    return this.load().runs.filter((entry) => matchesEmployer(entry.employer, employer));
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Codegen - Move module ABIs
+ *
+ * ABI shapes follow the fullnode `GET /accounts/{address}/modules` response.
+ * Modules can also be read straight from `.move` sources, which additionally
+ * recovers parameter names and doc comments that the on-chain ABI drops.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MoveFunctionAbi {
+  name: string;
+  visibility: "public" | "private" | "friend";
+  is_entry: boolean;
+  is_view: boolean;
+  generic_type_params: { constraints: string[] }[];
+  /** Parameter types, fully qualified (`&signer`, `u64`, `0x1::string::String`, ...) */
+  params: string[];
+  return: string[];
+  /** Parameter names, when read from sources */
+  param_names?: string[];
+  /** `///` doc comment, when read from sources */
+  doc?: string;
+}
+
+export interface MoveModuleAbi {
+  address: string;
+  name: string;
+  exposed_functions: MoveFunctionAbi[];
+}
+
+// ============================================
+// ABI JSON
+// ============================================
+
+/**
+ * Accept a module ABI, a `{ bytecode, abi }` module response, or an array of either
+ */
+export const readAbiJson = (json: unknown): MoveModuleAbi[] => {
+  const entries = Array.isArray(json) ? json : [json];
+
+  return entries.map((entry) => {
+    const abi = (entry as { abi?: MoveModuleAbi }).abi ?? (entry as MoveModuleAbi);
+    if (!abi || typeof abi.name !== "string" || !Array.isArray(abi.exposed_functions)) {
+      throw new Error("Not a Move module ABI");
+    }
+    return abi;
+  });
+};
+
+// ============================================
+// MOVE SOURCES
+// ============================================
+
+const STDLIB_ADDRESSES: Record<string, string> = {
+  std: "0x1",
+  aptos_std: "0x1",
+  aptos_framework: "0x1",
+};
+
+const BUILTIN_TYPES = new Set([
+  "bool",
+  "u8",
+  "u16",
+  "u32",
+  "u64",
+  "u128",
+  "u256",
+  "address",
+  "signer",
+  "vector",
+]);
+
+// Drops block and line comments but keeps `///` doc comments
+export const stripComments = (source: string): string =>
+  source.replace(/\/\*[\s\S]*?\*\//g, "").replace(/(?<!\/)\/\/(?!\/).*$/gm, "");
+
+/**
+ * Split on commas that are not nested in `<>` or `()`
+ */
+const splitTopLevel = (value: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of value) {
+    if (char === "<" || char === "(") depth++;
+    if (char === ">" || char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+/**
+ * Find the `)` closing the `(` at `start`
+ */
+const matchParen = (source: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "(") depth++;
+    if (source[i] === ")" && --depth === 0) return i;
+  }
+  throw new Error("Unbalanced parentheses in function signature");
+};
+
+/**
+ * Map `use` declarations to fully qualified paths
+ */
+const readImports = (source: string, resolveAddress: (name: string) => string): Map<string, string> => {
+  const aliases = new Map<string, string>();
+
+  for (const match of source.matchAll(/^\s*use\s+(\w+)::(\w+)(?:::(\{[^}]*\}|\w+))?\s*;/gm)) {
+    const [, address, module, members] = match;
+    const modulePath = `${resolveAddress(address)}::${module}`;
+
+    if (!members) {
+      aliases.set(module, modulePath);
+      continue;
+    }
+    for (const member of members.replace(/[{}]/g, "").split(",").map((m) => m.trim()).filter(Boolean)) {
+      const [name, alias] = member.split(/\s+as\s+/);
+      if (name === "Self") aliases.set(alias ?? module, modulePath);
+      else aliases.set(alias ?? name, `${modulePath}::${name}`);
+    }
+  }
+
+  return aliases;
+};
+
+/**
+ * Parse every function exposed by the `module` blocks in a Move source file.
+ *
+ * `namedAddresses` resolves named addresses such as `wage_streaming_addr`;
+ * the standard library names resolve to `0x1`.
+ */
+export const parseMoveSource = (source: string, namedAddresses: Record<string, string> = {}): MoveModuleAbi[] => {
+  const resolveAddress = (name: string): string =>
+    name.startsWith("0x") ? name : (namedAddresses[name] ?? STDLIB_ADDRESSES[name] ?? name);
+
+  const code = stripComments(source);
+  const modules: MoveModuleAbi[] = [];
+  const modulePattern = /(#\[test_only\]\s*)?module\s+(\w+)::(\w+)\s*\{/g;
+
+  for (const moduleMatch of code.matchAll(modulePattern)) {
+    if (moduleMatch[1]) continue;
+    const [, , addressName, name] = moduleMatch;
+    const address = resolveAddress(addressName);
+    const start = moduleMatch.index! + moduleMatch[0].length;
+    const next = code.slice(start).search(/\bmodule\s+\w+::\w+\s*\{/);
+    const body = next === -1 ? code.slice(start) : code.slice(start, start + next);
+    const module: MoveModuleAbi = { address, name, exposed_functions: [] };
+    const imports = readImports(body, resolveAddress);
+    const localStructs = new Set([...body.matchAll(/struct\s+(\w+)/g)].map((m) => m[1]));
+    const genericNames = new Set<string>();
+
+    const qualify = (type: string): string => {
+      const trimmed = type.trim();
+      const reference = /^&(mut\s+)?/.exec(trimmed);
+      if (reference) return `&${reference[1] ? "mut " : ""}${qualify(trimmed.slice(reference[0].length))}`;
+
+      const generic = /^([\w:]+)\s*<(.*)>$/.exec(trimmed);
+      const head = generic ? generic[1] : trimmed;
+      const args = generic ? `<${splitTopLevel(generic[2]).map(qualify).join(", ")}>` : "";
+
+      if (BUILTIN_TYPES.has(head) || genericNames.has(head)) return `${head}${args}`;
+
+      const segments = head.split("::");
+      let path: string;
+      if (segments.length === 1) {
+        path = imports.get(head) ?? (localStructs.has(head) ? `${address}::${name}::${head}` : head);
+      } else if (segments.length === 2) {
+        path = `${imports.get(segments[0]) ?? segments[0]}::${segments[1]}`;
+      } else {
+        path = `${resolveAddress(segments[0])}::${segments[1]}::${segments[2]}`;
+      }
+      return `${path}${args}`;
+    };
+
+    // attributes and doc comments, visibility, `entry`, name, generics
+    const functionPattern = new RegExp(
+      [
+        /((?:#\[[^\]]*\]\s*|\/\/\/[^\n]*\n\s*)*)/.source,
+        /(public(?:\((?:friend|package)\))?\s+)?/.source,
+        /(entry\s+)?fun\s+(\w+)\s*(<[^>(]*>)?\s*\(/.source,
+      ].join(""),
+      "g"
+    );
+
+    for (const fn of body.matchAll(functionPattern)) {
+      const [, prefix, visibility, entry, fnName, generics] = fn;
+      const attributes = prefix.match(/#\[[^\]]*\]/g) ?? [];
+      if (attributes.some((a) => a.includes("test_only") || a === "#[test]")) continue;
+
+      const isView = attributes.some((a) => a === "#[view]");
+      const vis = !visibility ? "private" : visibility.trim() === "public" ? "public" : "friend";
+      if (!(entry || (isView && vis === "public"))) continue;
+
+      genericNames.clear();
+      const genericParams = generics ? splitTopLevel(generics.slice(1, -1)) : [];
+      for (const param of genericParams) genericNames.add(param.split(":")[0].trim());
+
+      const open = fn.index! + fn[0].length - 1;
+      const close = matchParen(body, open);
+      const params = splitTopLevel(body.slice(open + 1, close)).map((param) => {
+        const [paramName, ...type] = param.split(":");
+        return { name: paramName.trim(), type: qualify(type.join(":")) };
+      });
+
+      const afterParams = /^\s*(?::\s*([^{]*?))?\s*(?:acquires[^{]*)?\{/.exec(body.slice(close + 1));
+      const returnType = afterParams?.[1]?.trim() ?? "";
+      const returns = !returnType
+        ? []
+        : returnType.startsWith("(")
+          ? splitTopLevel(returnType.slice(1, -1)).map(qualify)
+          : [qualify(returnType)];
+
+      const doc = (prefix.match(/\/\/\/[^\n]*/g) ?? []).map((line) => line.replace(/^\/\/\/\s?/, "")).join("\n");
+
+      module.exposed_functions.push({
+        name: fnName,
+        visibility: vis,
+        is_entry: Boolean(entry),
+        is_view: isView,
+        generic_type_params: genericParams.map((param) => ({
+          constraints: (param.split(":")[1] ?? "").split("+").map((c) => c.trim()).filter(Boolean),
+        })),
+        params: params.map((param) => param.type),
+        return: returns,
+        param_names: params.map((param) => param.name),
+        ...(doc && { doc }),
+      });
+    }
+
+    modules.push(module);
+  }
+
+  return modules;
+};
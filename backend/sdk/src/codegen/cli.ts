@@ -0,0 +1,163 @@
+/**
+ * Codegen - `npm run generate:bindings`
+ *
+ * Reads module ABIs and writes typed bindings to `src/protocol/generated`.
+ * With `--sources`, also writes the abort catalogue from `error_codes.move`.
+ *
+ * ```bash
+ * # From the Move sources (keeps parameter names and doc comments)
+ * node dist/codegen/cli.js --sources ../sources
+ *
+ * # From ABI JSON (e.g. saved `GET /accounts/{address}/modules` output)
+ * node dist/codegen/cli.js --abi modules.json
+ *
+ * # From a deployed package
+ * node dist/codegen/cli.js --node https://fullnode.testnet.aptoslabs.com/v1 --address 0x...
+ * ```
+ */
+
+import { mkdirSync, readFileSync, readdirSync, writeFileSync, existsSync } from "node:fs";
+import { join, relative } from "node:path";
+import { DEFAULT_MODULE_NAMES, ProtocolModuleName } from "../protocol/core.js";
+import { MoveModuleAbi, parseMoveSource, readAbiJson } from "./abi.js";
+import { emitIndex, emitModuleBindings } from "./emit.js";
+import { emitErrorCatalogue, parseAbortReasons, parseErrorCatalogue } from "./errors.js";
+
+interface CliOptions {
+  sources?: string;
+  abi: string[];
+  node?: string;
+  address?: string;
+  out: string;
+}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = { abi: [], out: "src/protocol/generated" };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case "--sources":
+        options.sources = value;
+        break;
+      case "--abi":
+        options.abi.push(value);
+        break;
+      case "--node":
+        options.node = value;
+        break;
+      case "--address":
+        options.address = value;
+        break;
+      case "--out":
+        options.out = value;
+        break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+    i++;
+  }
+
+  if (!options.sources && options.abi.length === 0 && !options.node) {
+    throw new Error("Pass --sources <dir>, --abi <file> or --node <url> --address <addr>");
+  }
+  return options;
+};
+
+/**
+ * Read the `[addresses]` table of the package's Move.toml
+ */
+const readNamedAddresses = (moveToml: string): Record<string, string> => {
+  if (!existsSync(moveToml)) return {};
+
+  const addresses: Record<string, string> = {};
+  let inAddresses = false;
+  for (const line of readFileSync(moveToml, "utf8").split("\n")) {
+    const header = /^\s*\[(.+)\]\s*$/.exec(line);
+    if (header) {
+      inAddresses = header[1] === "addresses";
+      continue;
+    }
+    const entry = inAddresses && /^\s*(\w+)\s*=\s*"([^"]+)"/.exec(line);
+    if (entry) addresses[entry[1]] = entry[2];
+  }
+  return addresses;
+};
+
+const loadModules = async (options: CliOptions): Promise<{ modules: MoveModuleAbi[]; source: string }> => {
+  if (options.sources) {
+    const namedAddresses = readNamedAddresses(join(options.sources, "..", "Move.toml"));
+    const directory = options.sources;
+    const files = readdirSync(directory).filter((file) => file.endsWith(".move")).sort();
+    return {
+      modules: files.flatMap((file) => parseMoveSource(readFileSync(join(directory, file), "utf8"), namedAddresses)),
+      source: "the Move sources",
+    };
+  }
+
+  if (options.node) {
+    if (!options.address) throw new Error("--node requires --address");
+    const response = await fetch(`${options.node.replace(/\/$/, "")}/accounts/${options.address}/modules`);
+    if (!response.ok) throw new Error(`Failed to fetch modules: ${response.status} ${response.statusText}`);
+    return { modules: readAbiJson(await response.json()), source: "the on-chain module ABIs" };
+  }
+
+  return {
+    modules: options.abi.flatMap((file) => readAbiJson(JSON.parse(readFileSync(file, "utf8")))),
+    source: "the module ABI JSON",
+  };
+};
+
+const MODULE_KEYS = new Map(
+  (Object.entries(DEFAULT_MODULE_NAMES) as [ProtocolModuleName, string][]).map(([key, name]) => [name, key])
+);
+
+/**
+ * Write `errorCodes.ts` from `error_codes.move` and the aborts of every module
+ */
+const writeErrorCatalogue = (directory: string, out: string) => {
+  const files = readdirSync(directory).filter((file) => file.endsWith(".move"));
+  const catalogueFile = files.find((file) => file === "error_codes.move");
+  if (!catalogueFile) return;
+
+  const moduleReasons = new Map<string, string[]>();
+  for (const file of files) {
+    const source = readFileSync(join(directory, file), "utf8");
+    const moduleName = /\bmodule\s+\w+::(\w+)/.exec(source)?.[1];
+    if (moduleName && moduleName !== "error_codes") moduleReasons.set(moduleName, parseAbortReasons(source));
+  }
+
+  const catalogue = parseErrorCatalogue(readFileSync(join(directory, catalogueFile), "utf8"));
+  const file = join(out, "errorCodes.ts");
+  writeFileSync(file, emitErrorCatalogue(catalogue, moduleReasons));
+  console.log(`wrote ${relative(process.cwd(), file)}`);
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const { modules, source } = await loadModules(options);
+  const written: { moduleKey: string; fileName: string }[] = [];
+
+  mkdirSync(options.out, { recursive: true });
+
+  for (const abi of modules) {
+    const moduleKey = MODULE_KEYS.get(abi.name);
+    if (!moduleKey || !abi.exposed_functions.some((fn) => fn.is_entry || fn.is_view)) continue;
+
+    const file = join(options.out, `${moduleKey}.ts`);
+    writeFileSync(file, emitModuleBindings(abi, { moduleKey, source }));
+    written.push({ moduleKey, fileName: moduleKey });
+    console.log(`wrote ${relative(process.cwd(), file)}`);
+  }
+
+  const index = join(options.out, "index.ts");
+  writeFileSync(index, emitIndex(written));
+  console.log(`wrote ${relative(process.cwd(), index)}`);
+
+  if (options.sources) writeErrorCatalogue(options.sources, options.out);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,337 @@
+/**
+ * Codegen - TypeScript binding emitter
+ *
+ * Turns a module ABI into typed entry payload builders and view requests
+ * that plug into the protocol client (`../core.js`).
+ */
+
+import { MoveFunctionAbi, MoveModuleAbi } from "./abi.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface TypeMapping {
+  /** TypeScript type accepted for an argument */
+  input: string;
+  /** Expression serializing an argument */
+  encode: (expr: string) => string;
+  /** TypeScript type of a decoded return value */
+  output: string;
+  /** Expression decoding a return value */
+  decode: (expr: string) => string;
+  /** core.js helpers the expressions use */
+  helpers: string[];
+}
+
+export interface EmitOptions {
+  /** Key of the module in `ProtocolModules`, e.g. `wageStreaming` */
+  moduleKey: string;
+  /** Where the ABI came from, recorded in the file header */
+  source: string;
+}
+
+// ============================================
+// NAMING
+// ============================================
+
+export const camelCase = (name: string): string =>
+  name.replace(/_+([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+const RESERVED = new Set(["modules", "typeArguments", "function", "default", "new", "delete", "in", "var", "let"]);
+
+const paramNames = (fn: MoveFunctionAbi, count: number, offset: number): string[] =>
+  Array.from({ length: count }, (_, i) => {
+    const name = fn.param_names?.[offset + i];
+    const candidate = name ? camelCase(name.replace(/^_+/, "")) : `arg${i}`;
+    return RESERVED.has(candidate) ? `${candidate}Arg` : candidate;
+  });
+
+// ============================================
+// TYPE MAPPING
+// ============================================
+
+const identity = (expr: string) => expr;
+
+const unwrap = (type: string, prefix: string): string | null =>
+  type.startsWith(`${prefix}<`) && type.endsWith(">") ? type.slice(prefix.length + 1, -1).trim() : null;
+
+const scalar = (tsType: string, decoder: string): TypeMapping => ({
+  input: tsType,
+  encode: identity,
+  output: tsType,
+  decode: (e) => `${decoder}(${e})`,
+  helpers: [decoder],
+});
+
+const isSigner = (type: string): boolean => /^&?(mut\s+)?signer$/.test(type.trim());
+
+export const mapType = (type: string): TypeMapping => {
+  switch (type) {
+    case "bool":
+      return scalar("boolean", "toBool");
+    case "u8":
+    case "u16":
+    case "u32":
+      return scalar("number", "toNumber");
+    case "u64":
+    case "u128":
+    case "u256":
+      return {
+        input: "U64Input",
+        encode: (e) => `u64(${e})`,
+        output: "bigint",
+        decode: (e) => `toBigInt(${e})`,
+        helpers: ["U64Input", "u64", "toBigInt"],
+      };
+    case "address":
+      return scalar("string", "toAddress");
+    case "0x1::string::String":
+      return { input: "string", encode: identity, output: "string", decode: (e) => `String(${e})`, helpers: [] };
+    case "vector<u8>":
+      // Views return byte vectors as 0x-prefixed hex strings
+      return {
+        input: "Uint8Array | number[]",
+        encode: (e) => `bytes(${e})`,
+        output: "string",
+        decode: (e) => `String(${e})`,
+        helpers: ["bytes"],
+      };
+  }
+
+  const element = unwrap(type, "vector");
+  if (element !== null) {
+    const inner = mapType(element);
+    const encodeElement = inner.encode("v");
+    return {
+      input: `${inner.input.includes("|") ? `(${inner.input})` : inner.input}[]`,
+      encode: (e) => (encodeElement === "v" ? e : `${e}.map((v) => ${encodeElement})`),
+      output: `${inner.output}[]`,
+      decode: (e) => `(${e} as unknown[]).map((v) => ${inner.decode("v")})`,
+      helpers: inner.helpers,
+    };
+  }
+
+  const optional = unwrap(type, "0x1::option::Option");
+  if (optional !== null) {
+    const inner = mapType(optional);
+    const passThrough = inner.encode("v") === "v";
+    return {
+      input: `${inner.input} | null`,
+      encode: (e) => (passThrough ? e : `${e} === null ? null : ${inner.encode(e)}`),
+      output: `${inner.output} | null`,
+      decode: (e) => `toOption(${e}, (v) => ${inner.decode("v")})`,
+      helpers: [...inner.helpers, "toOption"],
+    };
+  }
+
+  if (unwrap(type, "0x1::object::Object") !== null) {
+    return {
+      input: "string",
+      encode: identity,
+      output: "string",
+      decode: (e) => `toObjectAddress(${e})`,
+      helpers: ["toObjectAddress"],
+    };
+  }
+
+  // Structs and generic values are passed through untyped
+  return {
+    input: "MoveArgument",
+    encode: identity,
+    output: "unknown",
+    decode: identity,
+    helpers: ["MoveArgument"],
+  };
+};
+
+// ============================================
+// EMITTERS
+// ============================================
+
+const MAX_LINE = 120;
+
+// Framework types read better unqualified in doc comments (`String`, `Object<Metadata>`)
+const displayType = (type: string): string => type.replace(/\b0x1::\w+::/g, "");
+
+const docComment = (fn: MoveFunctionAbi): string => {
+  const types = fn.return.map(displayType);
+  const returns = types.length > 1 ? `(${types.join(", ")})` : types[0];
+  const signature = `\`${fn.name}(${fn.params.map(displayType).join(", ")})${returns ? `: ${returns}` : ""}\``;
+  const lines = [...(fn.doc ? [...fn.doc.split("\n"), ""] : []), signature];
+  return ["/**", ...lines.map((line) => ` *${line ? ` ${line}` : ""}`), " */"].join("\n");
+};
+
+const fits = (line: string): boolean => line.length <= MAX_LINE;
+
+/**
+ * One item per line; `trailing` adds the comma after the last item too
+ */
+const listLines = (items: string[], indent: string, trailing: boolean): string =>
+  items.map((item, i) => `${indent}${item}${trailing || i < items.length - 1 ? "," : ""}`).join("\n");
+
+/**
+ * `export const name = (params): returnType =>`, wrapping the params when too long
+ */
+const emitSignature = (exportName: string, params: string[], returnType: string): string => {
+  const single = `export const ${exportName} = (${params.join(", ")}): ${returnType} =>`;
+  if (fits(single)) return single;
+  return `export const ${exportName} = (\n${listLines(params, "  ", false)}\n): ${returnType} =>`;
+};
+
+/**
+ * An argument array on one line, or one argument per line at `indent`
+ */
+const emitArgs = (args: string[], indent: string, prefix: string, suffix: string): string => {
+  const single = `[${args.join(", ")}]`;
+  if (args.length === 0 || fits(`${prefix}${single}${suffix}`)) return single;
+  return `[\n${listLines(args, `${indent}  `, true)}\n${indent}]`;
+};
+
+interface EmittedFunction {
+  code: string;
+  helpers: string[];
+}
+
+const emitFunction = (fn: MoveFunctionAbi, moduleKey: string): EmittedFunction => {
+  const offset = fn.params.findIndex((type) => !isSigner(type));
+  const valueParams = offset === -1 ? [] : fn.params.slice(offset);
+  if (valueParams.some(isSigner)) throw new Error(`${fn.name}: signer parameters must come first`);
+
+  const names = paramNames(fn, valueParams.length, offset === -1 ? fn.params.length : offset);
+  const mappings = valueParams.map((type) => mapType(type));
+  const helpers = mappings.flatMap((mapping) => mapping.helpers);
+  const hasGenerics = fn.generic_type_params.length > 0;
+
+  const params = [
+    "modules: ProtocolModules",
+    ...(hasGenerics ? [`typeArguments: [${fn.generic_type_params.map(() => "string").join(", ")}]`] : []),
+    ...names.map((name, i) => `${name}: ${mappings[i].input}`),
+  ];
+  const args = names.map((name, i) => mappings[i].encode(name));
+  const exportName = camelCase(fn.name);
+  const target = `modules.${moduleKey}, "${fn.name}"`;
+
+  if (fn.is_entry) {
+    const call = hasGenerics ? "  ({ ...entryPayload(" : "  entryPayload(";
+    const close = hasGenerics ? "), typeArguments });" : ");";
+    return {
+      code: [
+        docComment(fn),
+        emitSignature(exportName, params, "EntryFunctionPayload"),
+        `${call}${target}, ${emitArgs(args, "  ", `${call}${target}, `, close)}${close}`,
+      ].join("\n"),
+      helpers: [...helpers, "EntryFunctionPayload", "entryPayload"],
+    };
+  }
+
+  if (hasGenerics) throw new Error(`${fn.name}: generic view functions are not supported`);
+
+  const returns = fn.return.map((type) => mapType(type));
+  const output = returns.length === 1 ? returns[0].output : `[${returns.map((r) => r.output).join(", ")}]`;
+  const decoders = returns.map((r, i) => r.decode(`result[${i}]`));
+  const decoded = returns.length === 1 ? decoders[0] : `[${decoders.join(", ")}]`;
+  const decodeBlock = (indent: string, prefix = "") =>
+    returns.length === 1 || fits(`${indent}${prefix}${decoded}`)
+      ? decoded
+      : `[\n${listLines(decoders, `${indent}  `, true)}\n${indent}]`;
+
+  const head = `  viewRequest(${target}, `;
+  const inline = `${head}${emitArgs(args, "  ", head, "")}, (result) => ${decoded});`;
+  let body: string;
+  if (!inline.includes("\n") && fits(inline)) {
+    body = inline;
+  } else if (fits(`${head}[${args.join(", ")}], (result) =>`)) {
+    body = `${head}[${args.join(", ")}], (result) =>\n    ${decodeBlock("    ")}\n  );`;
+  } else {
+    body = [
+      "  viewRequest(",
+      `    modules.${moduleKey},`,
+      `    "${fn.name}",`,
+      `    ${emitArgs(args, "    ", "    ", ",")},`,
+      `    (result) => ${decodeBlock("    ", "(result) => ")}`,
+      "  );",
+    ].join("\n");
+  }
+
+  return {
+    code: [docComment(fn), emitSignature(exportName, params, `ViewRequest<${output}>`), body].join("\n"),
+    helpers: [...returns.flatMap((r) => r.helpers), ...helpers, "ViewRequest", "viewRequest"],
+  };
+};
+
+const CORE_ORDER = [
+  "ProtocolModules",
+  "EntryFunctionPayload",
+  "ViewRequest",
+  "MoveArgument",
+  "U64Input",
+  "entryPayload",
+  "viewRequest",
+  "u64",
+  "bytes",
+  "toBigInt",
+  "toNumber",
+  "toBool",
+  "toAddress",
+  "toOption",
+  "toObjectAddress",
+];
+
+const BANNER = "// ============================================";
+
+const section = (title: string): string => [BANNER, `// ${title}`, BANNER].join("\n");
+
+/**
+ * Emit the bindings file for one module
+ */
+export const emitModuleBindings = (abi: MoveModuleAbi, options: EmitOptions): string => {
+  const exposed = abi.exposed_functions.filter((fn) => fn.is_entry || fn.is_view);
+  const names = new Set<string>();
+  for (const fn of exposed) {
+    const name = camelCase(fn.name);
+    if (names.has(name)) throw new Error(`${abi.name}: duplicate binding name ${name}`);
+    names.add(name);
+  }
+
+  const byName = (a: MoveFunctionAbi, b: MoveFunctionAbi) => a.name.localeCompare(b.name);
+  const views = exposed.filter((fn) => fn.is_view).sort(byName).map((fn) => emitFunction(fn, options.moduleKey));
+  const entries = exposed
+    .filter((fn) => fn.is_entry && !fn.is_view)
+    .sort(byName)
+    .map((fn) => emitFunction(fn, options.moduleKey));
+
+  const used = new Set(["ProtocolModules", ...[...views, ...entries].flatMap((fn) => fn.helpers)]);
+  const imports = CORE_ORDER.filter((name) => used.has(name));
+
+  return [
+    "/**",
+    ` * Generated Move bindings - ${abi.name}`,
+    " *",
+    ` * Generated by \`npm run generate:bindings\` from ${options.source}.`,
+    " * Do not edit by hand; regenerate after changing the Move module.",
+    " */",
+    "",
+    `import {\n${imports.map((name) => `  ${name},`).join("\n")}\n} from "../core.js";`,
+    "",
+    `export const MODULE_NAME = "${abi.name}";`,
+    "",
+    ...(views.length ? [section("VIEW FUNCTIONS"), "", views.map((fn) => fn.code).join("\n\n"), ""] : []),
+    ...(entries.length ? [section("ENTRY FUNCTIONS"), "", entries.map((fn) => fn.code).join("\n\n"), ""] : []),
+  ].join("\n");
+};
+
+/**
+ * Emit the `generated/index.ts` barrel
+ */
+export const emitIndex = (modules: { moduleKey: string; fileName: string }[]): string =>
+  [
+    "/**",
+    " * Generated Move bindings",
+    " *",
+    " * Generated by `npm run generate:bindings`. Do not edit by hand.",
+    " */",
+    "",
+    ...modules.map(({ moduleKey, fileName }) => `export * as ${moduleKey} from "./${fileName}.js";`),
+    "",
+  ].join("\n");
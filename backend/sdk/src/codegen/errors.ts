@@ -0,0 +1,132 @@
+/**
+ * Codegen - Move abort catalogue
+ *
+ * Reads the `E_*` constants and their accessor functions from
+ * `error_codes.move`, plus the accessors each module aborts with, and emits
+ * the catalogue used by `../protocol/errors.ts`.
+ */
+
+import { stripComments } from "./abi.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ErrorConstant {
+  name: string;
+  code: number;
+  /** `///` doc comment of the constant */
+  description: string;
+}
+
+export interface ErrorCatalogue {
+  constants: ErrorConstant[];
+  /** Accessor function name (`error_codes::<reason>()`) to abort code */
+  reasons: Map<string, number>;
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Parse the constants and accessor functions of `error_codes.move`
+ */
+export const parseErrorCatalogue = (source: string): ErrorCatalogue => {
+  const code = stripComments(source);
+  const constants: ErrorConstant[] = [];
+
+  for (const match of code.matchAll(/((?:\/\/\/[^\n]*\n\s*)*)const\s+(E_\w+)\s*:\s*u64\s*=\s*(\d+)\s*;/g)) {
+    const [, doc, name, value] = match;
+    const description = (doc.match(/\/\/\/[^\n]*/g) ?? []).map((line) => line.replace(/^\/\/\/\s?/, "")).join(" ");
+    constants.push({ name, code: Number(value), description: description.trim() });
+  }
+
+  const byName = new Map(constants.map((constant) => [constant.name, constant.code]));
+  const reasons = new Map<string, number>();
+  for (const match of code.matchAll(/public\s+fun\s+(\w+)\s*\(\s*\)\s*:\s*u64\s*\{\s*(E_\w+)\s*\}/g)) {
+    const value = byName.get(match[2]);
+    if (value === undefined) throw new Error(`error_codes::${match[1]} returns unknown constant ${match[2]}`);
+    reasons.set(match[1], value);
+  }
+
+  return { constants: constants.sort((a, b) => a.code - b.code), reasons };
+};
+
+/**
+ * Accessors a module aborts with (`error_codes::<reason>()` call sites)
+ */
+export const parseAbortReasons = (source: string): string[] => {
+  const reasons = new Set<string>();
+  for (const match of stripComments(source).matchAll(/\berror_codes::(\w+)\s*\(\s*\)/g)) reasons.add(match[1]);
+  return [...reasons].sort();
+};
+
+// ============================================
+// EMITTER
+// ============================================
+
+/**
+ * Emit `generated/errorCodes.ts`
+ *
+ * `moduleReasons` maps each module name to the accessors it aborts with.
+ */
+export const emitErrorCatalogue = (catalogue: ErrorCatalogue, moduleReasons: Map<string, string[]>): string => {
+  const constantLines = catalogue.constants.map(({ name, code }) => `  ${name}: ${code},`);
+  const catalogueLines = catalogue.constants.map(({ name, code, description }) => {
+    const line = `  ${code}: { name: "${name}", description: ${JSON.stringify(description)} },`;
+    if (line.length <= 120) return line;
+    return `  ${code}: {\n    name: "${name}",\n    description: ${JSON.stringify(description)},\n  },`;
+  });
+
+  const moduleLines: string[] = [];
+  for (const [moduleName, reasons] of [...moduleReasons].sort(([a], [b]) => a.localeCompare(b))) {
+    const byCode = new Map<number, string[]>();
+    for (const reason of reasons) {
+      const code = catalogue.reasons.get(reason);
+      if (code === undefined) throw new Error(`${moduleName} aborts with unknown error_codes::${reason}`);
+      byCode.set(code, [...(byCode.get(code) ?? []), reason]);
+    }
+    if (byCode.size === 0) continue;
+
+    moduleLines.push(`  ${moduleName}: {`);
+    for (const [code, names] of [...byCode].sort(([a], [b]) => a - b)) {
+      const quoted = names.map((name) => `"${name}"`);
+      const line = `    ${code}: [${quoted.join(", ")}],`;
+      const wrapped = `    ${code}: [\n${quoted.map((name) => `      ${name},`).join("\n")}\n    ],`;
+      moduleLines.push(line.length <= 120 ? line : wrapped);
+    }
+    moduleLines.push("  },");
+  }
+
+  return [
+    "/**",
+    " * Generated Move abort catalogue - error_codes",
+    " *",
+    " * Generated by `npm run generate:bindings` from the Move sources.",
+    " * Do not edit by hand; regenerate after changing error_codes.move.",
+    " */",
+    "",
+    'import type { ErrorCodeInfo } from "../errors.js";',
+    "",
+    "/**",
+    " * Abort code of every `E_*` constant",
+    " */",
+    "export const ERROR_CODES = {",
+    ...constantLines,
+    "} as const;",
+    "",
+    "export const ERROR_CATALOGUE: Record<number, ErrorCodeInfo> = {",
+    ...catalogueLines,
+    "};",
+    "",
+    "/**",
+    " * Accessors (`error_codes::<reason>()`) each module aborts with, by abort code.",
+    " * Several accessors share a code, so this narrows down what an abort means.",
+    " */",
+    "export const MODULE_ABORT_REASONS: Record<string, Record<number, string[]>> = {",
+    ...moduleLines,
+    "};",
+    "",
+  ].join("\n");
+};
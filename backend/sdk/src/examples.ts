@@ -4,8 +4,18 @@
  * This file demonstrates how to use the TypeScript SDK for common operations.
  */
 
-import { WageProtocolSDK, StreamStatus, DisputeType } from './index';
-import { Network } from '@aptos-labs/ts-sdk';
+import {
+  WageProtocolSDK,
+  StreamStatus,
+  DisputeType,
+  AccountSigner,
+  BuildOnlySigner,
+  MultisigAccountSigner,
+  TokenAmount,
+  APT,
+  amountForDuration,
+} from './index.js';
+import { Account, Network } from '@aptos-labs/ts-sdk';
 
 // ============================================
 // CONFIGURATION
@@ -30,44 +40,36 @@ async function employerExamples() {
   // 1. Initialize Treasury
   console.log('1. Initializing treasury...');
   const treasuryTx = await sdk.initializeTreasury(
-    2000, // 20% reserve requirement
-    '0x1::aptos_coin::AptosCoin' // Token metadata
+    TokenAmount.parse('10', APT).raw // Initial deposit: 10 APT, in octas
   );
   console.log(`Treasury initialized: ${treasuryTx.hash}\n`);
 
   // 2. Deposit funds to treasury
   console.log('2. Depositing funds...');
-  const depositAmount = BigInt(100000000000); // 1000 tokens (6 decimals)
-  const depositTx = await sdk.depositToTreasury(
-    depositAmount,
-    '0x1::aptos_coin::AptosCoin'
-  );
-  console.log(`Deposited ${depositAmount}: ${depositTx.hash}\n`);
+  const depositAmount = TokenAmount.parse('1000', APT);
+  const depositTx = await sdk.depositToTreasury(depositAmount.raw);
+  console.log(`Deposited ${depositAmount.format({ withSymbol: true })}: ${depositTx.hash}\n`);
 
   // 3. Create wage stream for employee
   console.log('3. Creating wage stream...');
   const employeeAddress = '0xEMPLOYEE_ADDRESS';
-  const wageRatePerSecond = BigInt(1000); // 1000 micro-tokens per second
-  const startTime = Math.floor(Date.now() / 1000);
-  const endTime = startTime + (30 * 24 * 60 * 60); // 30 days
-  
+  const durationSeconds = 30 * 24 * 60 * 60; // 30 days
+
   const streamTx = await sdk.createWageStream(
     employeeAddress,
-    wageRatePerSecond,
-    startTime,
-    endTime,
-    '0x1::aptos_coin::AptosCoin',
-    BigInt(2592000000) // Deposit for 30 days of wages
+    BigInt(2592000000), // Total wages streamed over 30 days
+    durationSeconds,
+    'Warehouse associate'
   );
   console.log(`Stream created: ${streamTx.hash}\n`);
 
   // 4. Check treasury status
   console.log('4. Checking treasury status...');
-  const treasuryInfo = await sdk.getTreasuryInfo(sdk.getAccountAddress()!);
-  console.log('Treasury Info:', {
-    totalDeposited: treasuryInfo.totalDeposited.toString(),
-    availableBalance: treasuryInfo.availableBalance.toString(),
-    reserveRequirement: treasuryInfo.reserveRequirement.toString(),
+  const treasuryBalance = await sdk.getTreasuryBalance(sdk.getAccountAddress()!);
+  console.log('Treasury Balance:', {
+    totalBalance: treasuryBalance.totalBalance.toString(),
+    availableBalance: treasuryBalance.availableBalance.toString(),
+    reserveBalance: treasuryBalance.reserveBalance.toString(),
   });
 }
 
@@ -78,24 +80,24 @@ async function employerExamples() {
 async function employeeExamples() {
   console.log('\n=== Employee Operations ===\n');
 
-  const streamAddress = '0xSTREAM_ADDRESS';
+  const streamId = 1;
 
-  // 1. Check accrued wages
-  console.log('1. Checking accrued wages...');
-  const accruedWages = await sdk.getAccruedWages(streamAddress);
-  console.log(`Accrued wages: ${accruedWages.toString()}\n`);
+  // 1. Check withdrawable wages
+  console.log('1. Checking withdrawable wages...');
+  const withdrawable = await sdk.getWithdrawableBalance(streamId);
+  console.log(`Withdrawable wages: ${withdrawable.toString()}\n`);
 
   // 2. Withdraw wages
   console.log('2. Withdrawing wages...');
-  const withdrawTx = await sdk.withdrawWages(streamAddress);
+  const withdrawTx = await sdk.withdrawWages(streamId);
   console.log(`Withdrawal complete: ${withdrawTx.hash}\n`);
 
   // 3. Get stream info
   console.log('3. Getting stream info...');
-  const streamInfo = await sdk.getStreamInfo(streamAddress);
+  const streamInfo = await sdk.getStreamInfo(streamId);
   console.log('Stream Info:', {
     employer: streamInfo.employer,
-    wageRate: streamInfo.wageRatePerSecond.toString(),
+    wageRate: streamInfo.ratePerSecond.toString(),
     totalWithdrawn: streamInfo.totalWithdrawn.toString(),
     status: StreamStatus[streamInfo.status],
   });
@@ -116,7 +118,7 @@ async function employeeExamples() {
   console.log('Streak Info:', {
     currentStreak: streakInfo.currentStreak,
     longestStreak: streakInfo.longestStreak,
-    rewards: streakInfo.streakRewards.toString(),
+    rewards: streakInfo.streakRewardsEarned.toString(),
   });
 }
 
@@ -127,40 +129,41 @@ async function employeeExamples() {
 async function complianceExamples() {
   console.log('\n=== Compliance Operations ===\n');
 
-  const registryAddress = MODULE_ADDRESS;
   const employeeAddress = sdk.getAccountAddress()!;
-
-  // 1. Initialize employee compliance record
-  console.log('1. Initializing compliance record...');
-  const complianceTx = await sdk.initializeEmployeeCompliance(
-    '0xEMPLOYER_ADDRESS',
-    'MHPUN1234567000123', // UAN
-    '1234567890123',       // ESI Number
-    'ABCDE1234F'           // PAN
+  const monthlyGross = BigInt(2500000000000); // ₹25,000 (8 decimals)
+
+  // 1. Register employee compliance profile (identifiers are hashed off-chain)
+  console.log('1. Registering compliance profile...');
+  const encoder = new TextEncoder();
+  const complianceTx = await sdk.registerEmployee(
+    encoder.encode('hash(ABCDE1234F)'),         // PAN hash
+    encoder.encode('hash(123412341234)'),       // Aadhaar hash
+    encoder.encode('hash(MHPUN1234567000123)'), // UAN hash
+    encoder.encode('hash(bank-account)'),       // Bank account hash
+    1,                                          // New tax regime
+    monthlyGross * BigInt(12),                  // Declared annual income
+    true                                        // EPF member
   );
-  console.log(`Compliance initialized: ${complianceTx.hash}\n`);
+  console.log(`Compliance registered: ${complianceTx.hash}\n`);
 
   // 2. Calculate deductions
   console.log('2. Calculating statutory deductions...');
-  const monthlyGross = BigInt(25000000000); // ₹25,000
-  const annualIncome = monthlyGross * BigInt(12);
-  
   const deductions = await sdk.calculateDeductions(
-    monthlyGross,
-    annualIncome,
-    registryAddress
+    '0xEMPLOYER_ADDRESS',
+    employeeAddress,
+    monthlyGross
   );
   console.log('Deductions:', {
     EPF: deductions.epf.toString(),
     ESI: deductions.esi.toString(),
     TDS: deductions.tds.toString(),
-    Total: deductions.total.toString(),
-    NetPay: (monthlyGross - deductions.total).toString(),
+    PT: deductions.professionalTax.toString(),
+    NetPay: deductions.netPayable.toString(),
   });
 
   // 3. Check compliance status
   console.log('\n3. Checking compliance status...');
-  const status = await sdk.getComplianceStatus(employeeAddress);
+  const status = await sdk.getEmployeeStatus(employeeAddress);
   console.log('Compliance Status:', status);
 }
 
@@ -171,43 +174,38 @@ async function complianceExamples() {
 async function disputeExamples() {
   console.log('\n=== Dispute Operations ===\n');
 
-  const streamAddress = '0xSTREAM_ADDRESS';
-  const registryAddress = MODULE_ADDRESS;
-
-  // 1. Create a dispute
-  console.log('1. Creating dispute...');
-  const disputeTx = await sdk.createDispute(
-    streamAddress,
-    DisputeType.WageDispute,
-    'Wages not paid for overtime hours worked on 2024-01-15',
-    BigInt(5000000000), // Requesting ₹5,000
-    registryAddress
+  const streamId = 1;
+  const employerAddress = '0xEMPLOYER_ADDRESS';
+  const employeeAddress = sdk.getAccountAddress()!;
+
+  // 1. Open a dispute
+  console.log('1. Opening dispute...');
+  const disputeTx = await sdk.openDispute(
+    streamId,
+    employerAddress, // Respondent
+    employerAddress,
+    employeeAddress,
+    DisputeType.Overtime,
+    BigInt(500000000000), // Disputing ₹5,000
+    'Unpaid overtime',
+    'Wages not paid for overtime hours worked on 2024-01-15'
   );
-  console.log(`Dispute created: ${disputeTx.hash}\n`);
+  console.log(`Dispute opened: ${disputeTx.hash}\n`);
 
   // 2. Submit evidence
   console.log('2. Submitting evidence...');
-  const disputeAddress = '0xDISPUTE_ADDRESS';
+  const disputeId = 1;
   const evidenceTx = await sdk.submitEvidence(
-    disputeAddress,
-    1, // Document type
-    'Timesheet showing 10 hours of overtime',
-    '0x1234...abcd' // IPFS hash of document
+    disputeId,
+    0, // Document
+    'ipfs://bafy...timesheet', // Content hash of document
+    'Timesheet showing 10 hours of overtime'
   );
   console.log(`Evidence submitted: ${evidenceTx.hash}\n`);
 
-  // 3. Deposit to escrow
-  console.log('3. Depositing to escrow...');
-  const escrowTx = await sdk.depositToEscrow(
-    disputeAddress,
-    BigInt(1000000000), // ₹1,000 filing fee
-    '0x1::aptos_coin::AptosCoin'
-  );
-  console.log(`Escrow deposited: ${escrowTx.hash}\n`);
-
-  // 4. Get dispute info
-  console.log('4. Getting dispute info...');
-  const disputeInfo = await sdk.getDisputeInfo(disputeAddress);
+  // 3. Get dispute info
+  console.log('3. Getting dispute info...');
+  const disputeInfo = await sdk.getDispute(disputeId);
   console.log('Dispute Info:', disputeInfo);
 }
 
@@ -218,20 +216,18 @@ async function disputeExamples() {
 async function systemExamples() {
   console.log('\n=== System Operations ===\n');
 
-  const registryAddress = MODULE_ADDRESS;
-
   // 1. Check if system is paused
   console.log('1. Checking system status...');
-  const isPaused = await sdk.isSystemPaused(registryAddress);
+  const isPaused = await sdk.isSystemPaused();
   console.log(`System paused: ${isPaused}`);
 
-  // 2. Get pause level
-  const pauseLevel = await sdk.getPauseLevel(registryAddress);
-  console.log(`Pause level: ${pauseLevel}\n`);
+  // 2. Get system state
+  const systemState = await sdk.getSystemState();
+  console.log(`System state: ${systemState.currentState}\n`);
 
   // 3. Check admin status
   console.log('2. Checking admin status...');
-  const isAdmin = await sdk.isAdmin(sdk.getAccountAddress()!, registryAddress);
+  const isAdmin = await sdk.hasRole(sdk.getAccountAddress()!, 1); // ROLE_ADMIN
   console.log(`Is admin: ${isAdmin}`);
 }
 
@@ -242,12 +238,11 @@ async function systemExamples() {
 async function rewardsExamples() {
   console.log('\n=== Rewards Operations ===\n');
 
-  const registryAddress = MODULE_ADDRESS;
   const campaignAddress = '0xCAMPAIGN_ADDRESS';
 
   // 1. Register for campaign
   console.log('1. Registering for campaign...');
-  const registerTx = await sdk.registerForCampaign(campaignAddress, registryAddress);
+  const registerTx = await sdk.registerForCampaign(campaignAddress);
   console.log(`Registered: ${registerTx.hash}\n`);
 
   // 2. Get campaign info
@@ -262,7 +257,7 @@ async function rewardsExamples() {
 
   // 3. Claim rewards
   console.log('\n3. Claiming rewards...');
-  const claimTx = await sdk.claimRewards(campaignAddress, registryAddress);
+  const claimTx = await sdk.claimRewards(campaignAddress);
   console.log(`Rewards claimed: ${claimTx.hash}\n`);
 
   // 4. Get rewards summary
@@ -278,34 +273,46 @@ async function rewardsExamples() {
 }
 
 // ============================================
-// UTILITY FUNCTIONS
+// SIGNER EXAMPLES
 // ============================================
 
-/**
- * Format token amount for display (assuming 6 decimals)
- */
-function formatAmount(amount: bigint, decimals: number = 6): string {
-  const divisor = BigInt(10 ** decimals);
-  const integerPart = amount / divisor;
-  const fractionalPart = amount % divisor;
-  return `${integerPart}.${fractionalPart.toString().padStart(decimals, '0')}`;
-}
+async function signerExamples() {
+  console.log('=== Signer Options ===\n');
 
-/**
- * Parse token amount from string
- */
-function parseAmount(amount: string, decimals: number = 6): bigint {
-  const [integer, fraction = ''] = amount.split('.');
-  const paddedFraction = fraction.padEnd(decimals, '0').slice(0, decimals);
-  return BigInt(integer + paddedFraction);
+  // 1. Sign a single call with a different local key
+  const payrollSigner = AccountSigner.fromPrivateKey(process.env.PAYROLL_PRIVATE_KEY!);
+  const depositTx = await sdk.depositToTreasury(BigInt(10_000_000_000), payrollSigner);
+  console.log('Deposited with payroll key:', depositTx.hash);
+
+  // 2. Build an unsigned transaction for an external signer
+  const unsigned = await sdk.withdrawFromTreasury(
+    BigInt(5_000_000_000),
+    new BuildOnlySigner(sdk.getAccountAddress()!)
+  );
+  console.log('Unsigned transaction bytes:', unsigned.bytes.length);
+
+  // 3. Propose a stream from an on-chain multisig account
+  const owner = Account.generate();
+  const proposal = await sdk.createWageStream(
+    '0xEMPLOYEE_ADDRESS',
+    BigInt(100_000_000_000),
+    30 * 24 * 60 * 60,
+    'Contract Engineer',
+    new MultisigAccountSigner(owner, '0xMULTISIG_ADDRESS')
+  );
+  console.log('Multisig proposal:', proposal.hash);
 }
 
+// ============================================
+// UTILITY FUNCTIONS
+// ============================================
+
 /**
  * Calculate monthly wage from per-second rate
  */
 function calculateMonthlyWage(ratePerSecond: bigint): bigint {
-  const secondsPerMonth = BigInt(30 * 24 * 60 * 60);
-  return ratePerSecond * secondsPerMonth;
+  // ratePerSecond is scaled by STREAM_PRECISION
+  return amountForDuration(ratePerSecond, 30 * 24 * 60 * 60);
 }
 
 // ============================================
@@ -325,6 +332,7 @@ async function main() {
     // await disputeExamples();
     // await systemExamples();
     // await rewardsExamples();
+    // await signerExamples();
 
     console.log('\n✅ All examples completed successfully!');
   } catch (error) {
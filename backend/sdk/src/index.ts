@@ -1,110 +1,134 @@
 /**
  * Daily Wage Allocation Protocol - TypeScript SDK
- * 
+ *
  * Complete SDK for interacting with wage streaming, treasury, compliance,
  * disputes, emergency controls, and photon rewards on Aptos blockchain.
+ *
+ * Payloads and view parsers come from the shared protocol client
+ * (`@wage-protocol/sdk/protocol`), which the frontend uses as well.
  */
 
+import { Aptos, AptosConfig, Network, CommittedTransactionResponse } from "@aptos-labs/ts-sdk";
 import {
-  Aptos,
-  AptosConfig,
-  Network,
-  Account,
-  AccountAddress,
-  Ed25519PrivateKey,
-  InputGenerateTransactionPayloadData,
-  CommittedTransactionResponse,
-  UserTransactionResponse,
-} from "@aptos-labs/ts-sdk";
+  ProtocolModules,
+  ProtocolModuleName,
+  EntryFunctionPayload,
+  ViewRequest,
+  U64Input,
+  EventDefinition,
+  EventQuery,
+  EventPage,
+  ProtocolEventOf,
+  TailOptions,
+  getProtocolModules,
+  executeView,
+  toProtocolError,
+  ResourceNotFoundError,
+  DeductionBreakdown,
+  DeductionContext,
+  computeDeductions,
+  deductionMismatches,
+  fetchEvents,
+  fetchTransactionTimestamps,
+  tailEvents,
+  StreamIndex,
+  StreamIndexOptions,
+  StreamRole,
+  fetchIndexedStreams,
+  fetchStreamPauseInfo,
+  wageStreaming,
+  employerTreasury,
+  compliance,
+  disputes,
+  emergency,
+  photonRewards,
+} from "./protocol/index.js";
+import { Signer, AccountSigner, SimulationSigner } from "./signers.js";
+import type { ProtocolSimulator } from "./simulator/index.js";
+
+export * from "./protocol/index.js";
+export * from "./signers.js";
+export * from "./sponsor.js";
+export * from "./offline.js";
+export * from "./qr.js";
+export * from "./payroll.js";
+export type { StreamInfo, StreamState, RegistryStats } from "./protocol/wageStreaming.js";
+export type {
+  TreasuryBalance,
+  TreasuryStatus,
+  TreasuryAnalytics,
+  TreasuryAllocation,
+  TreasuryRegistryStats,
+} from "./protocol/employerTreasury.js";
+export type {
+  DeductionInfo,
+  EmployeeComplianceStatus,
+  EmployeeComplianceProfile,
+  EmployerComplianceStatus,
+  EmployerComplianceProfile,
+  EmployerComplianceSummary,
+  StatutoryRates,
+  StatutoryRateSettings,
+  StreamComplianceInfo,
+  CertificateVerification,
+} from "./protocol/compliance.js";
+export type { DisputeInfo, ResolutionInfo, DisputeStats } from "./protocol/disputes.js";
+export type { SystemState } from "./protocol/emergency.js";
+export type {
+  CampaignInfo,
+  EmployeeRewardsSummary,
+  ParticipationInfo,
+  StreakInfo,
+  PhotonRegistryStats,
+} from "./protocol/photonRewards.js";
 
 // ============================================
 // TYPES & INTERFACES
 // ============================================
 
-export interface WageProtocolConfig {
+export interface WageProtocolConfig<TResult = CommittedTransactionResponse> {
   network: Network;
   moduleAddress: string;
+  /** Address holding the module registries (defaults to moduleAddress) */
+  registryAddress?: string;
+  /** Overrides for deployments that renamed a module */
+  moduleNames?: Partial<Record<ProtocolModuleName, string>>;
   privateKey?: string;
-}
-
-export interface WageStream {
-  streamId: string;
-  employer: string;
-  employee: string;
-  wageRatePerSecond: bigint;
-  startTime: number;
-  endTime: number;
-  lastWithdrawalTime: number;
-  totalWithdrawn: bigint;
-  totalDeposited: bigint;
-  status: StreamStatus;
-  tokenMetadata: string;
+  /** Default signer for write methods (takes precedence over privateKey) */
+  signer?: Signer<TResult>;
+  /** Custom fullnode endpoint (defaults to the network's public node) */
+  nodeUrl?: string;
+  /** Run against an in-memory ProtocolSimulator instead of a node (`@wage-protocol/sdk/simulator`) */
+  simulator?: ProtocolSimulator;
 }
 
 export enum StreamStatus {
-  Active = 0,
-  Paused = 1,
-  Completed = 2,
-  Cancelled = 3,
-}
-
-export interface Treasury {
-  employer: string;
-  totalDeposited: bigint;
-  totalAllocated: bigint;
-  totalWithdrawn: bigint;
-  availableBalance: bigint;
-  reserveRequirement: bigint;
-  isActive: boolean;
-}
-
-export interface ComplianceRecord {
-  employee: string;
-  uan: string;
-  panNumber: string;
-  esiNumber: string;
-  totalPayments: number;
-  totalGrossWages: bigint;
-  totalDeductions: bigint;
-}
-
-export interface Dispute {
-  disputeId: string;
-  streamId: string;
-  initiator: string;
-  respondent: string;
-  disputeType: DisputeType;
-  status: DisputeStatus;
-  escrowAmount: bigint;
-  createdAt: number;
-  resolvedAt?: number;
+  Active = 1,
+  Paused = 2,
+  Completed = 3,
+  Terminated = 4,
+  Disputed = 5,
 }
 
 export enum DisputeType {
-  WageDispute = 0,
-  UnauthorizedDeduction = 1,
-  TerminationDispute = 2,
-  ComplianceViolation = 3,
-  Other = 4,
+  WageAmount = 0,
+  PaymentTiming = 1,
+  Deductions = 2,
+  Overtime = 3,
+  Bonus = 4,
+  Termination = 5,
+  Other = 6,
 }
 
 export enum DisputeStatus {
-  Open = 0,
-  UnderReview = 1,
-  Arbitration = 2,
-  Resolved = 3,
-  Appealed = 4,
-  Closed = 5,
-}
-
-export interface Campaign {
-  campaignId: string;
-  employer: string;
-  name: string;
-  status: CampaignStatus;
-  totalBudget: bigint;
-  distributedAmount: bigint;
-  totalParticipants: number;
+  Opened = 0,
+  EvidenceSubmission = 1,
+  Mediation = 2,
+  Arbitration = 3,
+  Resolved = 4,
+  Appealed = 5,
+  Final = 6,
+  Cancelled = 7,
 }
 
 export enum CampaignStatus {
@@ -115,34 +139,35 @@ export enum CampaignStatus {
   Cancelled = 4,
 }
 
-export interface EmployeeRewards {
-  employee: string;
-  totalPatEarned: bigint;
-  totalPatClaimed: bigint;
-  pendingPat: bigint;
-  currentStreak: number;
-  longestStreak: number;
-  campaignsParticipated: number;
-  engagementScore: number;
-}
-
 // ============================================
 // MAIN SDK CLASS
 // ============================================
 
-export class WageProtocolSDK {
+/**
+ * Every write method takes an optional trailing `signer` that overrides the
+ * instance default (`config.signer`, or an AccountSigner for `config.privateKey`).
+ * Its result type follows the signer, e.g. an UnsignedTransaction for BuildOnlySigner.
+ * Pass `sdk.simulator()` to dry-run any write method instead of submitting it.
+ */
+export class WageProtocolSDK<TResult = CommittedTransactionResponse> {
   private aptos: Aptos;
-  private moduleAddress: string;
-  private account?: Account;
-
-  constructor(config: WageProtocolConfig) {
-    const aptosConfig = new AptosConfig({ network: config.network });
-    this.aptos = new Aptos(aptosConfig);
-    this.moduleAddress = config.moduleAddress;
-
-    if (config.privateKey) {
-      const privateKey = new Ed25519PrivateKey(config.privateKey);
-      this.account = Account.fromPrivateKey({ privateKey });
+  private registryAddress: string;
+  private modules: ProtocolModules;
+  private signer?: Signer<unknown>;
+
+  constructor(config: WageProtocolConfig<TResult>) {
+    const aptosConfig = new AptosConfig({
+      network: config.network,
+      ...(config.nodeUrl && { fullnode: config.nodeUrl }),
+    });
+    this.aptos = config.simulator ? config.simulator.asAptos() : new Aptos(aptosConfig);
+    this.registryAddress = config.registryAddress ?? config.moduleAddress;
+    this.modules = getProtocolModules(config.moduleAddress, config.moduleNames);
+
+    if (config.signer) {
+      this.signer = config.signer;
+    } else if (config.privateKey) {
+      this.signer = AccountSigner.fromPrivateKey(config.privateKey);
     }
   }
 
@@ -153,113 +178,182 @@ export class WageProtocolSDK {
   /**
    * Create a new wage stream for an employee
    */
-  async createWageStream(
+  async createWageStream<R = TResult>(
     employeeAddress: string,
-    wageRatePerSecond: bigint,
-    startTime: number,
-    endTime: number,
-    tokenMetadata: string,
-    depositAmount: bigint
-  ): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::wage_streaming::create_stream`,
-      functionArguments: [
+    totalAmount: U64Input,
+    durationSeconds: U64Input,
+    jobDescription: string = "",
+    signer?: Signer<R>
+  ): Promise<R> {
+    return this.submitTransaction(
+      wageStreaming.createStreamPayload(
+        this.modules,
+        this.registryAddress,
         employeeAddress,
-        wageRatePerSecond.toString(),
-        startTime,
-        endTime,
-        tokenMetadata,
-        depositAmount.toString(),
-      ],
-    };
+        totalAmount,
+        durationSeconds,
+        jobDescription
+      ),
+      signer
+    );
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Create a wage stream paid in a fungible asset such as a stablecoin.
+   * `asset` is the asset's metadata address; amounts are in its smallest unit.
+   */
+  async createWageStreamWithAsset<R = TResult>(
+    employeeAddress: string,
+    asset: string,
+    totalAmount: U64Input,
+    durationSeconds: U64Input,
+    jobDescription: string = "",
+    signer?: Signer<R>
+  ): Promise<R> {
+    return this.submitTransaction(
+      wageStreaming.createStreamWithAssetPayload(
+        this.modules,
+        this.registryAddress,
+        employeeAddress,
+        asset,
+        totalAmount,
+        durationSeconds,
+        jobDescription
+      ),
+      signer
+    );
   }
 
   /**
    * Withdraw accrued wages from a stream
    */
-  async withdrawWages(streamAddress: string): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::wage_streaming::withdraw_wages`,
-      functionArguments: [streamAddress],
-    };
+  async withdrawWages<R = TResult>(streamId: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      wageStreaming.withdrawWagesPayload(this.modules, this.registryAddress, streamId),
+      signer
+    );
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Withdraw from every active stream of the connected employee
+   */
+  async withdrawAll<R = TResult>(signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(wageStreaming.withdrawAllPayload(this.modules, this.registryAddress), signer);
   }
 
   /**
    * Pause an active wage stream
    */
-  async pauseStream(streamAddress: string): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::wage_streaming::pause_stream`,
-      functionArguments: [streamAddress],
-    };
-
-    return this.submitTransaction(payload);
+  async pauseStream<R = TResult>(streamId: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      wageStreaming.pauseStreamPayload(this.modules, this.registryAddress, streamId),
+      signer
+    );
   }
 
   /**
    * Resume a paused wage stream
    */
-  async resumeStream(streamAddress: string): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
+  async resumeStream<R = TResult>(streamId: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      wageStreaming.resumeStreamPayload(this.modules, this.registryAddress, streamId),
+      signer
+    );
+  }
 
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::wage_streaming::resume_stream`,
-      functionArguments: [streamAddress],
-    };
+  /**
+   * Terminate a wage stream
+   */
+  async terminateStream<R = TResult>(streamId: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      wageStreaming.terminateStreamPayload(this.modules, this.registryAddress, streamId),
+      signer
+    );
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Get stream information
+   */
+  async getStreamInfo(streamId: U64Input): Promise<wageStreaming.StreamInfo> {
+    return this.view(wageStreaming.getStreamInfoView(this.modules, this.registryAddress, streamId));
   }
 
   /**
-   * Terminate a wage stream
+   * Get a stream with the pause bookkeeping accrual needs (see `withdrawableAmount`),
+   * folded from its indexed status changes
    */
-  async terminateStream(streamAddress: string): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
+  async getStreamState(streamId: U64Input): Promise<wageStreaming.StreamState> {
+    try {
+      const [info, pauses] = await Promise.all([
+        executeView(this.aptos, wageStreaming.getStreamInfoView(this.modules, this.registryAddress, streamId)),
+        fetchStreamPauseInfo(this.aptos, this.modules, streamId.toString()),
+      ]);
+      return { ...info, ...pauses };
+    } catch (error) {
+      throw toProtocolError(error);
+    }
+  }
 
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::wage_streaming::terminate_stream`,
-      functionArguments: [streamAddress],
-    };
+  /**
+   * Get every stream in the registry's `StreamStore`. This reads the whole store;
+   * to list one account's streams, use `createStreamIndex`.
+   */
+  async getStreamStates(): Promise<wageStreaming.StreamState[]> {
+    try {
+      const store = await this.aptos.getAccountResource<{ streams: wageStreaming.StreamResource[] }>({
+        accountAddress: this.registryAddress,
+        resourceType: `${this.modules.wageStreaming}::StreamStore`,
+      });
+      return store.streams.map(wageStreaming.parseStreamResource);
+    } catch (error) {
+      throw toProtocolError(error);
+    }
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Index of an employee's or employer's streams, synced from indexed events
+   */
+  createStreamIndex(role: StreamRole, address: string, options?: StreamIndexOptions): StreamIndex {
+    return new StreamIndex(this.aptos, this.modules, role, address, options);
   }
 
   /**
-   * Get stream information
+   * Get the current state of indexed streams (a page of `index.page()`)
    */
-  async getStreamInfo(streamAddress: string): Promise<WageStream> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::wage_streaming::get_stream_info`,
-        functionArguments: [streamAddress],
-      },
-    });
+  async getIndexedStreams(index: StreamIndex, streamIds: string[]): Promise<wageStreaming.StreamState[]> {
+    try {
+      return await fetchIndexedStreams(this.aptos, this.modules, this.registryAddress, index, streamIds);
+    } catch (error) {
+      throw toProtocolError(error);
+    }
+  }
 
-    return this.parseStreamInfo(result);
+  /**
+   * Get the amount currently withdrawable from a stream
+   */
+  async getWithdrawableBalance(streamId: U64Input): Promise<bigint> {
+    return this.view(wageStreaming.getWithdrawableBalanceView(this.modules, this.registryAddress, streamId));
   }
 
   /**
-   * Calculate current accrued wages
+   * Get the metadata address of the fungible asset a stream pays in, or null for APT
    */
-  async getAccruedWages(streamAddress: string): Promise<bigint> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::wage_streaming::get_accrued_wages`,
-        functionArguments: [streamAddress],
-      },
-    });
+  async getStreamAsset(streamId: U64Input): Promise<string | null> {
+    return this.view(wageStreaming.getStreamAssetView(this.modules, this.registryAddress, streamId));
+  }
+
+  /**
+   * Get stream registry statistics
+   */
+  async getRegistryStats(): Promise<wageStreaming.RegistryStats> {
+    return this.view(wageStreaming.getRegistryStatsView(this.modules, this.registryAddress));
+  }
 
-    return BigInt(result[0] as string);
+  /**
+   * Check whether an employee has any active stream
+   */
+  async hasActiveStreams(employeeAddress: string): Promise<boolean> {
+    return this.view(wageStreaming.hasActiveStreamsView(this.modules, employeeAddress));
   }
 
   // ============================================
@@ -267,65 +361,139 @@ export class WageProtocolSDK {
   // ============================================
 
   /**
-   * Initialize employer treasury
+   * Initialize employer treasury with an initial deposit
    */
-  async initializeTreasury(
-    reservePercentage: number,
-    tokenMetadata: string
-  ): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
+  async initializeTreasury<R = TResult>(initialDeposit: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      employerTreasury.initializeTreasuryPayload(this.modules, this.registryAddress, initialDeposit),
+      signer
+    );
+  }
 
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::employer_treasury::initialize_treasury`,
-      functionArguments: [reservePercentage, tokenMetadata],
-    };
+  /**
+   * Deposit funds to treasury
+   */
+  async depositToTreasury<R = TResult>(amount: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      employerTreasury.depositFundsPayload(this.modules, this.registryAddress, amount),
+      signer
+    );
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Withdraw available funds from treasury
+   */
+  async withdrawFromTreasury<R = TResult>(amount: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      employerTreasury.withdrawFundsPayload(this.modules, this.registryAddress, amount),
+      signer
+    );
   }
 
   /**
-   * Deposit funds to treasury
+   * Deposit a fungible asset such as a stablecoin to the asset treasury
    */
-  async depositToTreasury(
-    amount: bigint,
-    tokenMetadata: string
-  ): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
+  async depositAssetToTreasury<R = TResult>(asset: string, amount: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      employerTreasury.depositAssetPayload(this.modules, this.registryAddress, asset, amount),
+      signer
+    );
+  }
 
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::employer_treasury::deposit_funds`,
-      functionArguments: [amount.toString(), tokenMetadata],
-    };
+  /**
+   * Withdraw the available balance of a fungible asset from the asset treasury
+   */
+  async withdrawAssetFromTreasury<R = TResult>(asset: string, amount: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      employerTreasury.withdrawAssetPayload(this.modules, this.registryAddress, asset, amount),
+      signer
+    );
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Allocate treasury funds to a stream
+   */
+  async allocateToStream<R = TResult>(streamId: U64Input, amount: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      employerTreasury.allocateToStreamPayload(this.modules, this.registryAddress, streamId, amount),
+      signer
+    );
   }
 
   /**
-   * Withdraw surplus funds from treasury
+   * Return an unused stream allocation to the treasury
    */
-  async withdrawFromTreasury(amount: bigint): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
+  async deallocateFromStream<R = TResult>(streamId: U64Input, unusedAmount: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      employerTreasury.deallocateFromStreamPayload(this.modules, this.registryAddress, streamId, unusedAmount),
+      signer
+    );
+  }
 
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::employer_treasury::withdraw_surplus`,
-      functionArguments: [amount.toString()],
-    };
+  /**
+   * Withdraw the entire available treasury balance
+   */
+  async emergencyWithdraw<R = TResult>(signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      employerTreasury.emergencyWithdrawPayload(this.modules, this.registryAddress),
+      signer
+    );
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Set the treasury auto top-up threshold
+   */
+  async setAutoTopupThreshold<R = TResult>(threshold: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(employerTreasury.setAutoTopupThresholdPayload(this.modules, threshold), signer);
   }
 
   /**
-   * Get treasury balance and info
+   * Check whether an employer has a treasury
    */
-  async getTreasuryInfo(employerAddress: string): Promise<Treasury> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::employer_treasury::get_treasury_info`,
-        functionArguments: [employerAddress],
-      },
-    });
+  async treasuryExists(employerAddress: string): Promise<boolean> {
+    return this.view(employerTreasury.treasuryExistsView(this.modules, employerAddress));
+  }
 
-    return this.parseTreasuryInfo(result, employerAddress);
+  /**
+   * Get treasury balances
+   */
+  async getTreasuryBalance(employerAddress: string): Promise<employerTreasury.TreasuryBalance> {
+    return this.view(employerTreasury.getTreasuryBalanceView(this.modules, employerAddress));
+  }
+
+  /**
+   * Get the balances of one fungible asset in the asset treasury
+   */
+  async getTreasuryAssetBalance(employerAddress: string, asset: string): Promise<employerTreasury.TreasuryBalance> {
+    return this.view(employerTreasury.getAssetBalanceView(this.modules, employerAddress, asset));
+  }
+
+  /**
+   * Get the fungible assets an employer has deposited to the asset treasury
+   */
+  async getTreasuryAssets(employerAddress: string): Promise<string[]> {
+    return this.view(employerTreasury.getTreasuryAssetsView(this.modules, employerAddress));
+  }
+
+  /**
+   * Get treasury status
+   */
+  async getTreasuryStatus(employerAddress: string): Promise<employerTreasury.TreasuryStatus> {
+    return this.view(employerTreasury.getTreasuryStatusView(this.modules, employerAddress));
+  }
+
+  /**
+   * Get treasury health ratio in basis points
+   */
+  async getTreasuryHealth(employerAddress: string): Promise<bigint> {
+    return this.view(employerTreasury.getTreasuryHealthView(this.modules, employerAddress));
+  }
+
+  /**
+   * Get treasury lifetime analytics
+   */
+  async getTreasuryAnalytics(employerAddress: string): Promise<employerTreasury.TreasuryAnalytics> {
+    return this.view(employerTreasury.getTreasuryAnalyticsView(this.modules, employerAddress));
   }
 
   // ============================================
@@ -333,69 +501,198 @@ export class WageProtocolSDK {
   // ============================================
 
   /**
-   * Initialize employee compliance record
+   * Register the connected account as an employer
    */
-  async initializeEmployeeCompliance(
-    employerAddress: string,
-    uan: string,
-    esiNumber: string,
-    panNumber: string
-  ): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::compliance::initialize_employee_compliance`,
-      functionArguments: [employerAddress, uan, esiNumber, panNumber],
-    };
+  async registerEmployer<R = TResult>(
+    panHash: Uint8Array,
+    gstinHash: Uint8Array,
+    epfCodeHash: Uint8Array,
+    esiCodeHash: Uint8Array,
+    stateCode: number,
+    epfRegistered: boolean,
+    esiRegistered: boolean,
+    signer?: Signer<R>
+  ): Promise<R> {
+    return this.submitTransaction(
+      compliance.registerEmployerPayload(
+        this.modules,
+        this.registryAddress,
+        panHash,
+        gstinHash,
+        epfCodeHash,
+        esiCodeHash,
+        stateCode,
+        epfRegistered,
+        esiRegistered
+      ),
+      signer
+    );
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Register the connected account as an employee
+   */
+  async registerEmployee<R = TResult>(
+    panHash: Uint8Array,
+    aadhaarHash: Uint8Array,
+    uanHash: Uint8Array,
+    bankAccountHash: Uint8Array,
+    taxRegime: number,
+    declaredAnnualIncome: U64Input,
+    epfMember: boolean,
+    signer?: Signer<R>
+  ): Promise<R> {
+    return this.submitTransaction(
+      compliance.registerEmployeePayload(
+        this.modules,
+        this.registryAddress,
+        panHash,
+        aadhaarHash,
+        uanHash,
+        bankAccountHash,
+        taxRegime,
+        declaredAnnualIncome,
+        epfMember
+      ),
+      signer
+    );
   }
 
   /**
-   * Calculate statutory deductions (EPF, ESI, TDS)
+   * Calculate statutory deductions (EPF, ESI, TDS, PT) for a gross wage
    */
   async calculateDeductions(
-    monthlyGross: bigint,
-    annualIncome: bigint,
-    registryAddress: string
-  ): Promise<{ epf: bigint; esi: bigint; tds: bigint; total: bigint }> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::compliance::calculate_total_deductions`,
-        functionArguments: [
-          monthlyGross.toString(),
-          annualIncome.toString(),
-          registryAddress,
-        ],
-      },
-    });
-
-    return {
-      epf: BigInt(result[0] as string),
-      esi: BigInt(result[1] as string),
-      tds: BigInt(result[2] as string),
-      total: BigInt(result[3] as string),
-    };
+    employerAddress: string,
+    employeeAddress: string,
+    grossWage: U64Input
+  ): Promise<compliance.DeductionInfo> {
+    return this.view(
+      compliance.calculateDeductionsView(
+        this.modules,
+        this.registryAddress,
+        employerAddress,
+        employeeAddress,
+        grossWage
+      )
+    );
   }
 
   /**
    * Get employee compliance status
    */
-  async getComplianceStatus(
-    employeeAddress: string
-  ): Promise<{ hasUan: boolean; hasEsi: boolean; hasPan: boolean }> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::compliance::get_employee_compliance_status`,
-        functionArguments: [employeeAddress],
-      },
-    });
+  async getEmployeeStatus(employeeAddress: string): Promise<compliance.EmployeeComplianceStatus> {
+    return this.view(compliance.getEmployeeStatusView(this.modules, employeeAddress));
+  }
+
+  /**
+   * Get employer compliance status
+   */
+  async getEmployerStatus(employerAddress: string): Promise<compliance.EmployerComplianceStatus> {
+    return this.view(compliance.getEmployerStatusView(this.modules, employerAddress));
+  }
 
-    return {
-      hasUan: result[0] as boolean,
-      hasEsi: result[1] as boolean,
-      hasPan: result[2] as boolean,
+  /**
+   * Get an employee's compliance profile, tax regime included
+   */
+  async getEmployeeCompliance(employeeAddress: string): Promise<compliance.EmployeeComplianceProfile> {
+    try {
+      const resource = await this.aptos.getAccountResource<compliance.EmployeeComplianceResource>({
+        accountAddress: employeeAddress,
+        resourceType: `${this.modules.compliance}::EmployeeCompliance`,
+      });
+      return compliance.parseEmployeeComplianceResource(resource);
+    } catch (error) {
+      throw toProtocolError(error);
+    }
+  }
+
+  /**
+   * Get recorded deductions for a stream
+   */
+  async getStreamCompliance(streamId: U64Input): Promise<compliance.StreamComplianceInfo> {
+    return this.view(compliance.getStreamComplianceView(this.modules, this.registryAddress, streamId));
+  }
+
+  /**
+   * Get current statutory rates
+   */
+  async getStatutoryRates(): Promise<compliance.StatutoryRates> {
+    return this.view(compliance.getStatutoryRatesView(this.modules, this.registryAddress));
+  }
+
+  /**
+   * Get current statutory rates with the EPF and ESI wage ceilings
+   */
+  async getStatutoryRateSettings(): Promise<compliance.StatutoryRateSettings> {
+    try {
+      const resource = await this.aptos.getAccountResource<compliance.StatutoryRatesResource>({
+        accountAddress: this.registryAddress,
+        resourceType: `${this.modules.compliance}::StatutoryRates`,
+      });
+      return compliance.parseStatutoryRatesResource(resource);
+    } catch (error) {
+      throw toProtocolError(error);
+    }
+  }
+
+  /**
+   * Get an employer's compliance profile, professional tax state included
+   */
+  async getEmployerCompliance(employerAddress: string): Promise<compliance.EmployerComplianceProfile> {
+    try {
+      const resource = await this.aptos.getAccountResource<compliance.EmployerComplianceResource>({
+        accountAddress: employerAddress,
+        resourceType: `${this.modules.compliance}::EmployerCompliance`,
+      });
+      return compliance.parseEmployerComplianceResource(resource);
+    } catch (error) {
+      throw toProtocolError(error);
+    }
+  }
+
+  /**
+   * Get the registry state `calculate_deductions` reads for an employer and employee,
+   * to compute deductions offline with `computeDeductions`
+   */
+  async getDeductionContext(employerAddress: string, employeeAddress: string): Promise<DeductionContext> {
+    const unregistered = (error: unknown) => {
+      if (error instanceof ResourceNotFoundError) return null;
+      throw error;
     };
+    const [rates, employer, employee] = await Promise.all([
+      this.getStatutoryRateSettings(),
+      this.getEmployerCompliance(employerAddress).catch(unregistered),
+      this.getEmployeeCompliance(employeeAddress).catch(unregistered),
+    ]);
+    return { rates, employer, employee };
+  }
+
+  /**
+   * Cross-check offline deductions against the `calculate_deductions` view for
+   * each gross wage. `mismatches` lists the fields that differ.
+   */
+  async checkDeductions(
+    employerAddress: string,
+    employeeAddress: string,
+    grossWages: U64Input[]
+  ): Promise<
+    { offline: DeductionBreakdown; onChain: compliance.DeductionInfo; mismatches: (keyof compliance.DeductionInfo)[] }[]
+  > {
+    const context = await this.getDeductionContext(employerAddress, employeeAddress);
+    return Promise.all(
+      grossWages.map(async (grossWage) => {
+        const offline = computeDeductions(context, BigInt(grossWage));
+        const onChain = await this.calculateDeductions(employerAddress, employeeAddress, grossWage);
+        return { offline, onChain, mismatches: deductionMismatches(offline, onChain) };
+      })
+    );
+  }
+
+  /**
+   * Get employer EPF/ESI/TDS totals
+   */
+  async getEmployerComplianceSummary(employerAddress: string): Promise<compliance.EmployerComplianceSummary> {
+    return this.view(compliance.getEmployerComplianceSummaryView(this.modules, employerAddress));
   }
 
   // ============================================
@@ -403,80 +700,120 @@ export class WageProtocolSDK {
   // ============================================
 
   /**
-   * Create a new dispute
+   * Open a dispute against a stream
    */
-  async createDispute(
-    streamAddress: string,
-    disputeType: DisputeType,
+  async openDispute<R = TResult>(
+    streamId: U64Input,
+    respondent: string,
+    employer: string,
+    employee: string,
+    category: DisputeType,
+    disputedAmount: U64Input,
+    title: string,
     description: string,
-    requestedAmount: bigint,
-    registryAddress: string
-  ): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::disputes::create_dispute`,
-      functionArguments: [
-        streamAddress,
-        disputeType,
-        description,
-        requestedAmount.toString(),
-        registryAddress,
-      ],
-    };
-
-    return this.submitTransaction(payload);
+    signer?: Signer<R>
+  ): Promise<R> {
+    return this.submitTransaction(
+      disputes.openDisputePayload(
+        this.modules,
+        this.registryAddress,
+        streamId,
+        respondent,
+        employer,
+        employee,
+        category,
+        disputedAmount,
+        title,
+        description
+      ),
+      signer
+    );
   }
 
   /**
    * Submit evidence for a dispute
    */
-  async submitEvidence(
-    disputeAddress: string,
+  async submitEvidence<R = TResult>(
+    disputeId: U64Input,
     evidenceType: number,
+    contentHash: string,
     description: string,
-    dataHash: string
-  ): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::disputes::submit_evidence`,
-      functionArguments: [disputeAddress, evidenceType, description, dataHash],
-    };
+    signer?: Signer<R>
+  ): Promise<R> {
+    return this.submitTransaction(
+      disputes.submitEvidencePayload(
+        this.modules,
+        this.registryAddress,
+        disputeId,
+        evidenceType,
+        contentHash,
+        description
+      ),
+      signer
+    );
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Lock the disputed amount in escrow
+   */
+  async lockEscrow<R = TResult>(
+    disputeId: U64Input,
+    tokenMetadata: string,
+    amount: U64Input,
+    signer?: Signer<R>
+  ): Promise<R> {
+    return this.submitTransaction(
+      disputes.lockEscrowPayload(this.modules, this.registryAddress, disputeId, tokenMetadata, amount),
+      signer
+    );
   }
 
   /**
-   * Deposit to escrow for dispute
+   * Escalate a dispute to arbitration
    */
-  async depositToEscrow(
-    disputeAddress: string,
-    amount: bigint,
-    tokenMetadata: string
-  ): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
+  async requestArbitration<R = TResult>(disputeId: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      disputes.requestArbitrationPayload(this.modules, this.registryAddress, disputeId),
+      signer
+    );
+  }
 
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::disputes::deposit_to_escrow`,
-      functionArguments: [disputeAddress, amount.toString(), tokenMetadata],
-    };
+  /**
+   * Appeal a dispute resolution
+   */
+  async fileAppeal<R = TResult>(disputeId: U64Input, reason: string, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      disputes.fileAppealPayload(this.modules, this.registryAddress, disputeId, reason),
+      signer
+    );
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Cancel a dispute
+   */
+  async cancelDispute<R = TResult>(disputeId: U64Input, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(disputes.cancelDisputePayload(this.modules, this.registryAddress, disputeId), signer);
   }
 
   /**
    * Get dispute information
    */
-  async getDisputeInfo(disputeAddress: string): Promise<Dispute> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::disputes::get_dispute_info`,
-        functionArguments: [disputeAddress],
-      },
-    });
+  async getDispute(disputeId: U64Input): Promise<disputes.DisputeInfo> {
+    return this.view(disputes.getDisputeView(this.modules, this.registryAddress, disputeId));
+  }
+
+  /**
+   * Get dispute resolution
+   */
+  async getResolution(disputeId: U64Input): Promise<disputes.ResolutionInfo> {
+    return this.view(disputes.getResolutionView(this.modules, this.registryAddress, disputeId));
+  }
 
-    return this.parseDisputeInfo(result);
+  /**
+   * Get dispute registry statistics
+   */
+  async getDisputeStats(): Promise<disputes.DisputeStats> {
+    return this.view(disputes.getDisputeStatsView(this.modules, this.registryAddress));
   }
 
   // ============================================
@@ -486,43 +823,36 @@ export class WageProtocolSDK {
   /**
    * Check if system is paused
    */
-  async isSystemPaused(registryAddress: string): Promise<boolean> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::emergency::is_system_paused`,
-        functionArguments: [registryAddress],
-      },
-    });
-
-    return result[0] as boolean;
+  async isSystemPaused(): Promise<boolean> {
+    return this.view(emergency.isSystemPausedView(this.modules, this.registryAddress));
   }
 
   /**
-   * Get current pause level
+   * Get current system state
    */
-  async getPauseLevel(registryAddress: string): Promise<number> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::emergency::get_pause_level`,
-        functionArguments: [registryAddress],
-      },
-    });
+  async getSystemState(): Promise<emergency.SystemState> {
+    return this.view(emergency.getSystemStateView(this.modules, this.registryAddress));
+  }
 
-    return result[0] as number;
+  /**
+   * Check if a protocol module is paused
+   */
+  async isModulePaused(moduleIndex: number): Promise<boolean> {
+    return this.view(emergency.isModulePausedView(this.modules, this.registryAddress, moduleIndex));
   }
 
   /**
-   * Check if address is admin
+   * Check if an address holds a role
    */
-  async isAdmin(adminAddress: string, registryAddress: string): Promise<boolean> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::emergency::is_admin`,
-        functionArguments: [adminAddress, registryAddress],
-      },
-    });
+  async hasRole(holder: string, role: number): Promise<boolean> {
+    return this.view(emergency.hasRoleView(this.modules, this.registryAddress, holder, role));
+  }
 
-    return result[0] as boolean;
+  /**
+   * Get the number of admins
+   */
+  async getAdminCount(): Promise<bigint> {
+    return this.view(emergency.getAdminCountView(this.modules, this.registryAddress));
   }
 
   // ============================================
@@ -530,211 +860,201 @@ export class WageProtocolSDK {
   // ============================================
 
   /**
-   * Initialize employee rewards tracking
+   * Create a reward campaign funded by the employer
    */
-  async initializeEmployeeRewards(): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::photon_rewards::initialize_employee_rewards`,
-      functionArguments: [],
-    };
+  async createCampaign<R = TResult>(
+    name: string,
+    description: string,
+    rewardType: number,
+    triggerType: number,
+    startTime: U64Input,
+    endTime: U64Input,
+    totalBudget: U64Input,
+    perParticipantCap: U64Input,
+    minEligibilityScore: U64Input,
+    rewardTokenMetadata: string,
+    photonExternalId: string = "",
+    signer?: Signer<R>
+  ): Promise<R> {
+    return this.submitTransaction(
+      photonRewards.createCampaignPayload(
+        this.modules,
+        this.registryAddress,
+        name,
+        description,
+        rewardType,
+        triggerType,
+        startTime,
+        endTime,
+        totalBudget,
+        perParticipantCap,
+        minEligibilityScore,
+        rewardTokenMetadata,
+        photonExternalId
+      ),
+      signer
+    );
+  }
 
-    return this.submitTransaction(payload);
+  /**
+   * Initialize employee rewards tracking
+   */
+  async initializeEmployeeRewards<R = TResult>(signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(photonRewards.initializeEmployeeRewardsPayload(this.modules), signer);
   }
 
   /**
    * Record daily check-in for streak
    */
-  async recordDailyCheckin(): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::photon_rewards::record_daily_checkin`,
-      functionArguments: [],
-    };
-
-    return this.submitTransaction(payload);
+  async recordDailyCheckin<R = TResult>(signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(photonRewards.recordDailyCheckinPayload(this.modules), signer);
   }
 
   /**
    * Register for a campaign
    */
-  async registerForCampaign(
-    campaignAddress: string,
-    registryAddress: string
-  ): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::photon_rewards::register_for_campaign`,
-      functionArguments: [campaignAddress, registryAddress],
-    };
-
-    return this.submitTransaction(payload);
+  async registerForCampaign<R = TResult>(campaignAddress: string, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      photonRewards.registerForCampaignPayload(this.modules, campaignAddress, this.registryAddress),
+      signer
+    );
   }
 
   /**
    * Claim earned rewards
    */
-  async claimRewards(
-    campaignAddress: string,
-    registryAddress: string
-  ): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const payload: InputGenerateTransactionPayloadData = {
-      function: `${this.moduleAddress}::photon_rewards::claim_rewards`,
-      functionArguments: [campaignAddress, registryAddress],
-    };
-
-    return this.submitTransaction(payload);
+  async claimRewards<R = TResult>(campaignAddress: string, signer?: Signer<R>): Promise<R> {
+    return this.submitTransaction(
+      photonRewards.claimRewardsPayload(this.modules, campaignAddress, this.registryAddress),
+      signer
+    );
   }
 
   /**
    * Get employee rewards summary
    */
-  async getEmployeeRewardsSummary(employeeAddress: string): Promise<EmployeeRewards> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::photon_rewards::get_employee_rewards_summary`,
-        functionArguments: [employeeAddress],
-      },
-    });
-
-    return {
-      employee: employeeAddress,
-      totalPatEarned: BigInt(result[0] as string),
-      totalPatClaimed: BigInt(result[1] as string),
-      pendingPat: BigInt(result[2] as string),
-      currentStreak: Number(result[3]),
-      longestStreak: 0, // Not returned by view function
-      campaignsParticipated: Number(result[4]),
-      engagementScore: Number(result[5]),
-    };
+  async getEmployeeRewardsSummary(employeeAddress: string): Promise<photonRewards.EmployeeRewardsSummary> {
+    return this.view(photonRewards.getEmployeeRewardsSummaryView(this.modules, employeeAddress));
   }
 
   /**
    * Get streak information
    */
-  async getStreakInfo(
-    employeeAddress: string
-  ): Promise<{ currentStreak: number; longestStreak: number; streakRewards: bigint }> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::photon_rewards::get_streak_info`,
-        functionArguments: [employeeAddress],
-      },
-    });
-
-    return {
-      currentStreak: Number(result[0]),
-      longestStreak: Number(result[1]),
-      streakRewards: BigInt(result[2] as string),
-    };
+  async getStreakInfo(employeeAddress: string): Promise<photonRewards.StreakInfo> {
+    return this.view(photonRewards.getStreakInfoView(this.modules, employeeAddress));
   }
 
   /**
    * Get campaign info
    */
-  async getCampaignInfo(campaignAddress: string): Promise<Campaign> {
-    const result = await this.aptos.view({
-      payload: {
-        function: `${this.moduleAddress}::photon_rewards::get_campaign_info`,
-        functionArguments: [campaignAddress],
-      },
-    });
+  async getCampaignInfo(campaignAddress: string): Promise<photonRewards.CampaignInfo> {
+    return this.view(photonRewards.getCampaignInfoView(this.modules, campaignAddress));
+  }
 
-    return {
-      campaignId: result[0] as string,
-      employer: result[1] as string,
-      name: result[2] as string,
-      status: Number(result[3]) as CampaignStatus,
-      totalBudget: BigInt(result[4] as string),
-      distributedAmount: BigInt(result[5] as string),
-      totalParticipants: Number(result[6]),
-    };
+  /**
+   * Get the participant's campaign progress
+   */
+  async getParticipationInfo(participantAddress: string): Promise<photonRewards.ParticipationInfo> {
+    return this.view(photonRewards.getParticipationInfoView(this.modules, participantAddress));
   }
 
   // ============================================
-  // HELPER FUNCTIONS
+  // EVENT FUNCTIONS
   // ============================================
 
-  private async submitTransaction(
-    payload: InputGenerateTransactionPayloadData
-  ): Promise<CommittedTransactionResponse> {
-    if (!this.account) throw new Error("Account not initialized");
-
-    const transaction = await this.aptos.transaction.build.simple({
-      sender: this.account.accountAddress,
-      data: payload,
-    });
-
-    const pendingTxn = await this.aptos.signAndSubmitTransaction({
-      signer: this.account,
-      transaction,
-    });
+  /**
+   * Fetch one page of protocol events from the indexer
+   */
+  async getEvents<D extends EventDefinition<unknown>>(
+    definitions: D | D[],
+    query?: EventQuery
+  ): Promise<EventPage<ProtocolEventOf<D>>> {
+    return fetchEvents(this.aptos, this.modules, definitions, query);
+  }
 
-    return this.aptos.waitForTransaction({
-      transactionHash: pendingTxn.hash,
-    });
+  /**
+   * Block timestamps (in seconds) of the transactions events came from, keyed by version
+   */
+  async getTransactionTimestamps(versions: (bigint | string)[]): Promise<Map<string, number>> {
+    return fetchTransactionTimestamps(this.aptos, versions);
   }
 
-  private parseStreamInfo(result: any[]): WageStream {
-    return {
-      streamId: result[0] as string,
-      employer: result[1] as string,
-      employee: result[2] as string,
-      wageRatePerSecond: BigInt(result[3] as string),
-      startTime: Number(result[4]),
-      endTime: Number(result[5]),
-      lastWithdrawalTime: Number(result[6]),
-      totalWithdrawn: BigInt(result[7] as string),
-      totalDeposited: BigInt(result[8] as string),
-      status: Number(result[9]) as StreamStatus,
-      tokenMetadata: result[10] as string,
-    };
+  /**
+   * Iterate protocol events from a cursor and keep polling for new ones
+   */
+  tailEvents<D extends EventDefinition<unknown>>(
+    definitions: D | D[],
+    options?: TailOptions
+  ): AsyncGenerator<ProtocolEventOf<D>> {
+    return tailEvents(this.aptos, this.modules, definitions, options);
   }
 
-  private parseTreasuryInfo(result: any[], employer: string): Treasury {
-    return {
-      employer,
-      totalDeposited: BigInt(result[0] as string),
-      totalAllocated: BigInt(result[1] as string),
-      totalWithdrawn: BigInt(result[2] as string),
-      availableBalance: BigInt(result[3] as string),
-      reserveRequirement: BigInt(result[4] as string),
-      isActive: result[5] as boolean,
-    };
+  // ============================================
+  // HELPER FUNCTIONS
+  // ============================================
+
+  private async submitTransaction<R>(payload: EntryFunctionPayload, signer?: Signer<R>): Promise<R> {
+    const activeSigner = (signer ?? this.signer) as Signer<R> | undefined;
+    if (!activeSigner) throw new Error("Account not initialized");
+
+    try {
+      return await activeSigner.submit(this.aptos, payload);
+    } catch (error) {
+      throw toProtocolError(error);
+    }
   }
 
-  private parseDisputeInfo(result: any[]): Dispute {
-    return {
-      disputeId: result[0] as string,
-      streamId: result[1] as string,
-      initiator: result[2] as string,
-      respondent: result[3] as string,
-      disputeType: Number(result[4]) as DisputeType,
-      status: Number(result[5]) as DisputeStatus,
-      escrowAmount: BigInt(result[6] as string),
-      createdAt: Number(result[7]),
-      resolvedAt: result[8] ? Number(result[8]) : undefined,
-    };
+  private async view<T>(request: ViewRequest<T>): Promise<T> {
+    try {
+      return await executeView(this.aptos, request);
+    } catch (error) {
+      throw toProtocolError(error);
+    }
   }
 
   /**
    * Get the connected account address
    */
   getAccountAddress(): string | undefined {
-    return this.account?.accountAddress.toString();
+    return this.signer?.getAddress();
   }
 
   /**
    * Set account from private key
    */
   setAccount(privateKey: string): void {
-    const pk = new Ed25519PrivateKey(privateKey);
-    this.account = Account.fromPrivateKey({ privateKey: pk });
+    this.signer = AccountSigner.fromPrivateKey(privateKey);
+  }
+
+  /**
+   * Get a signer that simulates write methods for `sender` (defaults to the connected account)
+   */
+  simulator(sender?: string): SimulationSigner {
+    const address = sender ?? this.getAccountAddress();
+    if (!address) throw new Error("Account not initialized");
+
+    return new SimulationSigner(address, this.modules);
+  }
+
+  /**
+   * Set the default signer used by write methods
+   */
+  setSigner(signer: Signer<TResult>): void {
+    this.signer = signer;
+  }
+
+  /**
+   * Get the module ids this SDK instance targets
+   */
+  getModules(): ProtocolModules {
+    return this.modules;
+  }
+
+  /**
+   * Get the registry address used for registry-scoped calls
+   */
+  getRegistryAddress(): string {
+    return this.registryAddress;
   }
 
   /**
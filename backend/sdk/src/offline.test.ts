@@ -0,0 +1,96 @@
+import {
+  Account,
+  ChainId,
+  EntryFunction,
+  RawTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  U64,
+} from "@aptos-labs/ts-sdk";
+import {
+  OFFLINE_QR_PREFIX,
+  OfflineTransaction,
+  OfflineTransactionError,
+  assembleOfflineQrParts,
+  createOfflineTransaction,
+  offlineTransactionQrCodes,
+  offlineTransactionQrParts,
+  parseOfflineQrPart,
+  signOfflineTransaction,
+} from "./offline.js";
+import { normalizeAddress } from "./protocol/index.js";
+
+const TREASURY = Account.generate();
+const MODULE = normalizeAddress("0xcafe");
+
+/**
+ * An unsigned treasury deposit, built without a network
+ */
+const unsignedDeposit = (description: string, amount = 5_000): OfflineTransaction => {
+  const transaction = new SimpleTransaction(
+    new RawTransaction(
+      TREASURY.accountAddress,
+      BigInt(7),
+      new TransactionPayloadEntryFunction(
+        EntryFunction.build(`${MODULE}::employer_treasury`, "deposit", [], [new U64(amount)])
+      ),
+      BigInt(2_000),
+      BigInt(100),
+      BigInt(1_900_000_000),
+      new ChainId(2)
+    )
+  );
+  return createOfflineTransaction(
+    transaction,
+    { function: `${MODULE}::employer_treasury::deposit`, functionArguments: [amount] },
+    description
+  );
+};
+
+describe("offline transaction QR codes", () => {
+  it("round-trips a signed transaction through parts scanned in any order, with repeats", () => {
+    const signed = signOfflineTransaction(unsignedDeposit("Deposit 5,000 APT to the treasury"), TREASURY);
+    const parts = offlineTransactionQrParts(signed, 200);
+    expect(parts.length).toBeGreaterThan(2);
+    parts.forEach((part, i) => expect(part.startsWith(`${OFFLINE_QR_PREFIX}:${i + 1}/${parts.length}:`)).toBe(true));
+
+    const scanned = [...parts.slice(1), parts[0], parts[1]].reverse().map((part) => `${part}\r\n`);
+    expect(assembleOfflineQrParts(scanned)).toEqual(signed);
+  });
+
+  it("fits the default parts in QR codes", () => {
+    const codes = offlineTransactionQrCodes(signOfflineTransaction(unsignedDeposit("Payroll top-up"), TREASURY));
+    expect(codes.length).toBeGreaterThan(0);
+    codes.forEach((code) => expect(code.version).toBeLessThanOrEqual(20));
+  });
+
+  it("keeps spaces and characters outside the BMP intact across part boundaries", () => {
+    const offline = unsignedDeposit(`Top-up ${"💸 ".repeat(40)} for March `);
+    const parts = offlineTransactionQrParts(offline, 7);
+    expect(parts.some((part) => parseOfflineQrPart(part).data.startsWith(" "))).toBe(true);
+    expect(assembleOfflineQrParts(parts)).toEqual(offline);
+  });
+
+  it("reports the parts still to scan", () => {
+    const parts = offlineTransactionQrParts(unsignedDeposit("Payroll top-up"), 100);
+    expect(() => assembleOfflineQrParts(parts.filter((_, i) => i !== 1 && i !== 3))).toThrow(
+      `Missing QR code 2, 4 of ${parts.length}`
+    );
+    expect(() => assembleOfflineQrParts([])).toThrow(OfflineTransactionError);
+  });
+
+  it("rejects parts of different transactions and edited parts", () => {
+    const first = offlineTransactionQrParts(unsignedDeposit("Payroll top-up", 5_000), 100);
+    const second = offlineTransactionQrParts(unsignedDeposit("Payroll top-up", 6_000), 100);
+    expect(first.length).toBe(second.length);
+    expect(() => assembleOfflineQrParts([first[0], ...second.slice(1)])).toThrow("different offline transactions");
+
+    const edited = first.map((part) => part.replace("Payroll", "Pay-roll"));
+    expect(() => assembleOfflineQrParts(edited)).toThrow("do not match their checksum");
+  });
+
+  it("rejects text that is not an offline transaction part", () => {
+    expect(() => parseOfflineQrPart("https://example.com")).toThrow(OfflineTransactionError);
+    expect(() => parseOfflineQrPart(`${OFFLINE_QR_PREFIX}:3/2:0123abcd:{}`)).toThrow(OfflineTransactionError);
+  });
+});
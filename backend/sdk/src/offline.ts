@@ -0,0 +1,358 @@
+/**
+ * Offline (cold-wallet) signing
+ *
+ * A treasury key that never touches a networked machine signs in three steps:
+ *
+ * 1. The online machine builds the unsigned transaction, pinning the sequence
+ *    number and a long enough expiry (`OfflineSigner`), and exports it as a
+ *    JSON file or a series of QR codes.
+ * 2. The offline machine reviews and signs it (`signOfflineTransaction`, or
+ *    `wage-cli offline sign`).
+ * 3. The online machine submits the signed file (`submitOfflineTransaction`).
+ *
+ * The file carries the BCS transaction plus a readable summary; the summary is
+ * checked against the BCS whenever a file is parsed, so an edited summary is
+ * rejected rather than shown to the signer. For air-gapped machines without
+ * removable media, `offlineTransactionQrParts` splits the same file into QR
+ * sized parts and `assembleOfflineQrParts` joins scanned parts back into it.
+ *
+ * @example
+ * ```typescript
+ * const unsigned = await sdk.depositToTreasury(amount, new OfflineSigner(TREASURY, { description: "Payroll top-up" }));
+ * writeFileSync("deposit.json", serializeOfflineTransaction(unsigned));
+ *
+ * // on the offline machine
+ * const signed = signOfflineTransaction(parseOfflineTransaction(readFileSync("deposit.json", "utf8")), account);
+ *
+ * // back online
+ * await submitOfflineTransaction(sdk.getAptosClient(), parseOfflineTransaction(signedJson));
+ *
+ * // or as QR codes, one per part
+ * const codes = offlineTransactionQrParts(unsigned).map((part) => encodeQr(part));
+ * const scanned = assembleOfflineQrParts(scannedTexts);
+ * ```
+ */
+
+import {
+  Aptos,
+  Account,
+  AccountAuthenticator,
+  CommittedTransactionResponse,
+  Deserializer,
+  Hex,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+} from "@aptos-labs/ts-sdk";
+import { EntryFunctionPayload, MoveArgument, ProtocolError, normalizeAddress } from "./protocol/index.js";
+import { QrCode, encodeQr } from "./qr.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export const OFFLINE_TRANSACTION_FORMAT = "wage-protocol/offline-transaction";
+
+/**
+ * An exported transaction, unsigned until `senderAuthenticator` is set
+ */
+export interface OfflineTransaction {
+  format: typeof OFFLINE_TRANSACTION_FORMAT;
+  version: 1;
+  /** What the transaction does, for the person signing it */
+  description?: string;
+  chainId: number;
+  sender: string;
+  sequenceNumber: string;
+  /** Unix seconds after which the chain rejects the transaction */
+  expiresAt: number;
+  maxGasAmount: string;
+  gasUnitPrice: string;
+  function: string;
+  /** Arguments as built, for review; the BCS transaction is authoritative */
+  functionArguments: string[];
+  /** Hex BCS of the `SimpleTransaction` */
+  transaction: string;
+  /** Hex BCS of the sender's `AccountAuthenticator`, once signed */
+  senderAuthenticator?: string;
+  /** ISO time the transaction was signed */
+  signedAt?: string;
+}
+
+/**
+ * One scanned part of an offline transaction carried as QR codes
+ */
+export interface OfflineQrPart {
+  /** 1-based position of the part */
+  index: number;
+  total: number;
+  /** CRC-32 of the whole serialized transaction, as 8 hex digits */
+  checksum: string;
+  data: string;
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * An offline transaction file that is malformed, tampered with, expired or unsigned
+ */
+export class OfflineTransactionError extends ProtocolError {}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Describe a built transaction as an unsigned offline transaction
+ */
+export const createOfflineTransaction = (
+  transaction: SimpleTransaction,
+  payload: EntryFunctionPayload,
+  description?: string
+): OfflineTransaction => {
+  const raw = transaction.rawTransaction;
+
+  return {
+    format: OFFLINE_TRANSACTION_FORMAT,
+    version: 1,
+    ...(description && { description }),
+    chainId: raw.chain_id.chainId,
+    sender: raw.sender.toString(),
+    sequenceNumber: raw.sequence_number.toString(),
+    expiresAt: Number(raw.expiration_timestamp_secs),
+    maxGasAmount: raw.max_gas_amount.toString(),
+    gasUnitPrice: raw.gas_unit_price.toString(),
+    function: entryFunctionId(transaction),
+    functionArguments: payload.functionArguments.map(formatArgument),
+    transaction: Hex.fromHexInput(transaction.bcsToBytes()).toString(),
+  };
+};
+
+/**
+ * Pretty-printed JSON, ready to write to a file
+ */
+export const serializeOfflineTransaction = (offline: OfflineTransaction): string =>
+  `${JSON.stringify(offline, null, 2)}\n`;
+
+/**
+ * Parse an offline transaction file, checking its summary against the BCS transaction
+ */
+export const parseOfflineTransaction = (text: string): OfflineTransaction => {
+  let offline: OfflineTransaction;
+  try {
+    offline = JSON.parse(text);
+  } catch (error) {
+    throw new OfflineTransactionError("Offline transaction file is not valid JSON", { cause: error });
+  }
+  if (offline?.format !== OFFLINE_TRANSACTION_FORMAT || offline.version !== 1) {
+    throw new OfflineTransactionError("Not a Wage Protocol offline transaction file");
+  }
+
+  const transaction = decodeOfflineTransaction(offline);
+  const raw = transaction.rawTransaction;
+  const mismatched = [
+    ["chainId", raw.chain_id.chainId, offline.chainId],
+    ["sender", normalizeAddress(raw.sender.toString()), normalizeAddress(String(offline.sender))],
+    ["sequenceNumber", raw.sequence_number.toString(), offline.sequenceNumber],
+    ["expiresAt", Number(raw.expiration_timestamp_secs), offline.expiresAt],
+    ["maxGasAmount", raw.max_gas_amount.toString(), offline.maxGasAmount],
+    ["gasUnitPrice", raw.gas_unit_price.toString(), offline.gasUnitPrice],
+    ["function", entryFunctionId(transaction), offline.function],
+  ].filter(([, actual, stated]) => actual !== stated);
+  if (mismatched.length > 0) {
+    const fields = mismatched.map(([field]) => field).join(", ");
+    throw new OfflineTransactionError(`Offline transaction summary does not match its transaction (${fields})`);
+  }
+
+  if (offline.senderAuthenticator !== undefined) decodeAuthenticator(offline);
+  return offline;
+};
+
+/**
+ * Decode the BCS transaction of an offline transaction
+ */
+export const decodeOfflineTransaction = (offline: OfflineTransaction): SimpleTransaction => {
+  try {
+    return SimpleTransaction.deserialize(new Deserializer(Hex.fromHexInput(offline.transaction).toUint8Array()));
+  } catch (error) {
+    throw new OfflineTransactionError("Offline transaction bytes could not be decoded", { cause: error });
+  }
+};
+
+// ============================================
+// QR CODES
+// ============================================
+
+export const OFFLINE_QR_PREFIX = "wap-offline";
+
+const QR_PART_PATTERN = new RegExp(`^${OFFLINE_QR_PREFIX}:(\\d+)/(\\d+):([0-9a-f]{8}):(.*)$`);
+
+/**
+ * Characters of the transaction per QR part; keeps each code small enough to scan from a screen
+ */
+export const OFFLINE_QR_PART_LENGTH = 500;
+
+/**
+ * Split an offline transaction into QR code texts, each
+ * `wap-offline:<index>/<total>:<crc32>:<slice of the compact JSON>`
+ */
+export const offlineTransactionQrParts = (
+  offline: OfflineTransaction,
+  partLength: number = OFFLINE_QR_PART_LENGTH
+): string[] => {
+  const json = JSON.stringify(offline);
+  const checksum = crc32(json);
+  // Split by code point, so no part ends halfway through a character of the description
+  const characters = Array.from(json);
+  const total = Math.ceil(characters.length / partLength);
+
+  return Array.from({ length: total }, (_, i) => {
+    const data = characters.slice(i * partLength, (i + 1) * partLength).join("");
+    return `${OFFLINE_QR_PREFIX}:${i + 1}/${total}:${checksum}:${data}`;
+  });
+};
+
+/**
+ * Encode an offline transaction as QR codes, one per part (see `offlineTransactionQrParts`)
+ */
+export const offlineTransactionQrCodes = (
+  offline: OfflineTransaction,
+  partLength: number = OFFLINE_QR_PART_LENGTH
+): QrCode[] => offlineTransactionQrParts(offline, partLength).map((part) => encodeQr(part));
+
+/**
+ * Parse the text of one scanned QR part
+ */
+export const parseOfflineQrPart = (text: string): OfflineQrPart => {
+  // Scanners that type into a terminal end each code with a newline; the data itself may start or end with a space
+  const match = QR_PART_PATTERN.exec(text.replace(/[\r\n]+$/, ""));
+  const [index, total] = match ? [Number(match[1]), Number(match[2])] : [0, 0];
+  if (!match || index < 1 || index > total) {
+    throw new OfflineTransactionError("Not a Wage Protocol offline transaction QR code");
+  }
+  return { index, total, checksum: match[3], data: match[4] };
+};
+
+/**
+ * Join scanned QR parts, in any order and with repeats, back into the offline transaction
+ */
+export const assembleOfflineQrParts = (parts: (string | OfflineQrPart)[]): OfflineTransaction => {
+  const parsed = parts.map((part) => (typeof part === "string" ? parseOfflineQrPart(part) : part));
+  if (parsed.length === 0) throw new OfflineTransactionError("No QR codes scanned");
+
+  const [{ total, checksum }] = parsed;
+  if (parsed.some((part) => part.total !== total || part.checksum !== checksum)) {
+    throw new OfflineTransactionError("QR codes belong to different offline transactions");
+  }
+  const byIndex = new Map(parsed.map((part) => [part.index, part.data]));
+  const missing = Array.from({ length: total }, (_, i) => i + 1).filter((index) => !byIndex.has(index));
+  if (missing.length > 0) {
+    throw new OfflineTransactionError(`Missing QR code ${missing.join(", ")} of ${total}`);
+  }
+
+  const json = Array.from({ length: total }, (_, i) => byIndex.get(i + 1)).join("");
+  if (crc32(json) !== checksum) {
+    throw new OfflineTransactionError("Scanned QR codes do not match their checksum; scan them again");
+  }
+  return parseOfflineTransaction(json);
+};
+
+// ============================================
+// SIGNING
+// ============================================
+
+/**
+ * Sign an offline transaction with the sender's account (run on the offline machine)
+ */
+export const signOfflineTransaction = (offline: OfflineTransaction, account: Account): OfflineTransaction => {
+  if (normalizeAddress(offline.sender) !== normalizeAddress(account.accountAddress.toString())) {
+    throw new OfflineTransactionError(
+      `Transaction is sent from ${offline.sender}, but the key is for ${account.accountAddress.toString()}`
+    );
+  }
+
+  const authenticator = account.signTransactionWithAuthenticator(decodeOfflineTransaction(offline));
+  return attachOfflineSignature(offline, authenticator.bcsToBytes());
+};
+
+/**
+ * Attach a BCS `AccountAuthenticator` produced by another signer (e.g. a hardware wallet)
+ */
+export const attachOfflineSignature = (offline: OfflineTransaction, authenticator: Uint8Array): OfflineTransaction => ({
+  ...offline,
+  senderAuthenticator: Hex.fromHexInput(authenticator).toString(),
+  signedAt: new Date().toISOString(),
+});
+
+// ============================================
+// SUBMISSION
+// ============================================
+
+/**
+ * Submit a signed offline transaction and wait for it to commit
+ */
+export const submitOfflineTransaction = async (
+  aptos: Aptos,
+  offline: OfflineTransaction
+): Promise<CommittedTransactionResponse> => {
+  if (offline.senderAuthenticator === undefined) {
+    throw new OfflineTransactionError("Offline transaction has not been signed");
+  }
+  if (offline.expiresAt <= Math.floor(Date.now() / 1000)) {
+    throw new OfflineTransactionError(
+      `Offline transaction expired at ${new Date(offline.expiresAt * 1000).toISOString()}; export it again`
+    );
+  }
+
+  const pendingTxn = await aptos.transaction.submit.simple({
+    transaction: decodeOfflineTransaction(offline),
+    senderAuthenticator: decodeAuthenticator(offline),
+  });
+
+  return aptos.waitForTransaction({ transactionHash: pendingTxn.hash });
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+const decodeAuthenticator = (offline: OfflineTransaction): AccountAuthenticator => {
+  try {
+    return AccountAuthenticator.deserialize(
+      new Deserializer(Hex.fromHexInput(offline.senderAuthenticator ?? "").toUint8Array())
+    );
+  } catch (error) {
+    throw new OfflineTransactionError("Offline transaction signature could not be decoded", { cause: error });
+  }
+};
+
+const entryFunctionId = (transaction: SimpleTransaction): string => {
+  const payload = transaction.rawTransaction.payload;
+  if (!(payload instanceof TransactionPayloadEntryFunction)) {
+    throw new OfflineTransactionError("Only entry function transactions can be signed offline");
+  }
+
+  const { module_name, function_name } = payload.entryFunction;
+  return `${module_name.address.toString()}::${module_name.name.identifier}::${function_name.identifier}`;
+};
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (text: string): string => {
+  let crc = 0xffffffff;
+  for (const byte of new TextEncoder().encode(text)) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, "0");
+};
+
+const formatArgument = (value: MoveArgument): string => {
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    return Hex.fromHexInput(new Uint8Array(value)).toString();
+  }
+  if (Array.isArray(value)) return `[${value.map(formatArgument).join(", ")}]`;
+  return String(value);
+};
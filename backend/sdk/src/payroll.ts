@@ -0,0 +1,560 @@
+/**
+ * Recurring payroll schedules
+ *
+ * A stream pays one fixed window, so recurring pay is a schedule that creates
+ * a new stream for each period. `PayrollRunner.run` creates every period that
+ * has started since the last run, after checking the employer's treasury can
+ * cover them, and records the outcome of each period.
+ *
+ * Periods are calendar weeks or months from the start date, or one per
+ * working day for shifts. Pay is a fixed amount per period, or a daily or
+ * hourly rate multiplied by the working days (or hours) in the period;
+ * holidays and non-working weekdays are unpaid with a rate and paid with a
+ * fixed amount, and are never given a shift.
+ *
+ * @example
+ * ```typescript
+ * const runner = new PayrollRunner({ sdk });
+ * await runner.createSchedule({
+ *   employer: EMPLOYER,
+ *   employee: EMPLOYEE,
+ *   cadence: "monthly",
+ *   amount: BigInt(2500e8),
+ *   startDate: "2026-11-01",
+ *   holidays: ["2026-11-08"],
+ * });
+ *
+ * // e.g. from a daily cron job
+ * const run = await runner.run(EMPLOYER, employerSigner);
+ * ```
+ */
+
+import { CommittedTransactionResponse } from "@aptos-labs/ts-sdk";
+import type { WageProtocolSDK } from "./index.js";
+import { ProtocolError, normalizeAddress, toProtocolError, wageStreaming } from "./protocol/index.js";
+import { Signer } from "./signers.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PayrollCadence = "weekly" | "monthly" | "shift";
+
+/**
+ * What `amount` is paid for: each period (each shift), each working day, or each working hour
+ */
+export type PayrollBasis = "period" | "day" | "hour";
+
+export interface PayrollScheduleInput {
+  employer: string;
+  employee: string;
+  cadence: PayrollCadence;
+  /** Octas per `basis` */
+  amount: bigint;
+  /** Defaults to "period" */
+  basis?: PayrollBasis;
+  /** First day of the first period, `YYYY-MM-DD` */
+  startDate: string;
+  /** Last day paid, `YYYY-MM-DD`; a period running past it is cut short */
+  endDate?: string;
+  /** Stop after this many periods */
+  maxPeriods?: number;
+  /** Working weekdays, 0 = Sunday (defaults to Monday-Saturday) */
+  workDays?: number[];
+  /** Unworked days, `YYYY-MM-DD` */
+  holidays?: string[];
+  /** Shift start (`HH:MM`) and length; hours also sets the working day for hourly pay (default 09:00, 8h) */
+  shift?: { start: string; hours: number };
+  /** Offset of the employer's local time from UTC, e.g. 330 for IST (default 0) */
+  utcOffsetMinutes?: number;
+  /** Stored on each stream, followed by the period dates */
+  jobDescription?: string;
+}
+
+export interface PayrollSchedule extends Omit<PayrollScheduleInput, "basis"> {
+  id: string;
+  basis: PayrollBasis;
+  /** Paused schedules are skipped by the runner */
+  paused: boolean;
+  /** Index of the next period to create */
+  nextPeriod: number;
+  /** ISO time the schedule was created */
+  createdAt: string;
+}
+
+/**
+ * One period of a schedule, as it would be streamed
+ */
+export interface PayrollPeriod {
+  index: number;
+  /** Unix seconds */
+  startsAt: number;
+  endsAt: number;
+  /** Working days in the period (1 for a shift) */
+  workingDays: number;
+  /** Octas to stream, 0 when there is nothing to pay */
+  amount: bigint;
+}
+
+export type PayrollPeriodStatus =
+  /** Stream created */
+  | "created"
+  /** Nothing to pay (no working days); the schedule moved past it */
+  | "skipped"
+  /** Due, and would be created (dry runs) */
+  | "due"
+  /** Not created because the treasury cannot cover the run */
+  | "insufficient_treasury"
+  /** Stream creation failed; retried on the next run */
+  | "failed";
+
+export interface PayrollPeriodResult extends PayrollPeriod {
+  scheduleId: string;
+  employee: string;
+  status: PayrollPeriodStatus;
+  hash?: string;
+  streamId?: number;
+  error?: string;
+}
+
+/**
+ * Outcome of one runner pass for one employer
+ */
+export interface PayrollRun {
+  id: string;
+  employer: string;
+  /** Unix seconds the run was evaluated at */
+  runAt: number;
+  dryRun: boolean;
+  treasury: {
+    /** Available treasury balance, null when it could not be read */
+    availableBalance: bigint | null;
+    /** Total of the due periods */
+    required: bigint;
+    sufficient: boolean;
+    error?: string;
+  };
+  periods: PayrollPeriodResult[];
+}
+
+/**
+ * Storage for schedules and run history
+ */
+export interface PayrollStore {
+  saveSchedule(schedule: PayrollSchedule): Promise<void>;
+  getSchedule(id: string): Promise<PayrollSchedule | null>;
+  /** All schedules, or those of one employer */
+  listSchedules(employer?: string): Promise<PayrollSchedule[]>;
+  removeSchedule(id: string): Promise<boolean>;
+  saveRun(run: PayrollRun): Promise<void>;
+  /** Runs, newest first */
+  listRuns(employer?: string): Promise<PayrollRun[]>;
+}
+
+export interface PayrollRunnerConfig {
+  sdk: WageProtocolSDK;
+  /** Where schedules and runs are kept (defaults to memory) */
+  store?: PayrollStore;
+  /** Current time in Unix seconds (defaults to the system clock; pass the simulator clock to test) */
+  now?: () => number;
+  /** Most periods one schedule may create in a run, when catching up (default 31) */
+  maxPeriodsPerRun?: number;
+}
+
+const SECONDS_PER_DAY = 86400;
+const DEFAULT_WORK_DAYS = [1, 2, 3, 4, 5, 6];
+const DEFAULT_SHIFT = { start: "09:00", hours: 8 };
+const DEFAULT_MAX_PERIODS_PER_RUN = 31;
+// Matches MIN_STREAM_DURATION in wage_streaming.move
+const MIN_STREAM_DURATION = 3600;
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * An invalid payroll schedule
+ */
+export class PayrollScheduleError extends ProtocolError {}
+
+// ============================================
+// STORE
+// ============================================
+
+/**
+ * Keeps schedules and runs in memory (lost when the process restarts)
+ */
+export class MemoryPayrollStore implements PayrollStore {
+  private schedules = new Map<string, PayrollSchedule>();
+  private runs: PayrollRun[] = [];
+
+  async saveSchedule(schedule: PayrollSchedule): Promise<void> {
+    this.schedules.set(schedule.id, schedule);
+  }
+
+  async getSchedule(id: string): Promise<PayrollSchedule | null> {
+    return this.schedules.get(id) ?? null;
+  }
+
+  async listSchedules(employer?: string): Promise<PayrollSchedule[]> {
+    return [...this.schedules.values()].filter((schedule) => matchesEmployer(schedule.employer, employer));
+  }
+
+  async removeSchedule(id: string): Promise<boolean> {
+    return this.schedules.delete(id);
+  }
+
+  async saveRun(run: PayrollRun): Promise<void> {
+    this.runs.unshift(run);
+  }
+
+  async listRuns(employer?: string): Promise<PayrollRun[]> {
+    return this.runs.filter((run) => matchesEmployer(run.employer, employer));
+  }
+}
+
+// ============================================
+// PERIODS
+// ============================================
+
+/**
+ * The period at `index`, or null once the schedule has ended
+ */
+export const schedulePeriod = (schedule: PayrollSchedule, index: number): PayrollPeriod | null => {
+  if (schedule.maxPeriods !== undefined && index >= schedule.maxPeriods) return null;
+
+  const startDay = parseDay(schedule.startDate);
+  const lastDay = schedule.endDate !== undefined ? parseDay(schedule.endDate) : Infinity;
+  const offset = (schedule.utcOffsetMinutes ?? 0) * 60;
+  const isWorkingDay = workingDayTest(schedule);
+  const shift = schedule.shift ?? DEFAULT_SHIFT;
+
+  if (schedule.cadence === "shift") {
+    const day = nthWorkingDay(startDay, index, isWorkingDay);
+    if (day > lastDay) return null;
+
+    const startsAt = day * SECONDS_PER_DAY - offset + parseTimeOfDay(shift.start);
+    return {
+      index,
+      startsAt,
+      endsAt: startsAt + Math.round(shift.hours * 3600),
+      workingDays: 1,
+      amount: periodAmount(schedule, 1, 1, 1),
+    };
+  }
+
+  const from = schedule.cadence === "weekly" ? startDay + 7 * index : addMonths(startDay, index);
+  const fullTo = schedule.cadence === "weekly" ? from + 7 : addMonths(startDay, index + 1);
+  if (from > lastDay) return null;
+  const to = Math.min(fullTo, lastDay + 1);
+
+  let workingDays = 0;
+  for (let day = from; day < to; day++) if (isWorkingDay(day)) workingDays++;
+
+  return {
+    index,
+    startsAt: from * SECONDS_PER_DAY - offset,
+    endsAt: to * SECONDS_PER_DAY - offset,
+    workingDays,
+    amount: periodAmount(schedule, workingDays, to - from, fullTo - from),
+  };
+};
+
+/**
+ * The next `count` periods the runner would create
+ */
+export const upcomingPeriods = (schedule: PayrollSchedule, count: number): PayrollPeriod[] => {
+  const periods: PayrollPeriod[] = [];
+  for (let index = schedule.nextPeriod; periods.length < count; index++) {
+    const period = schedulePeriod(schedule, index);
+    if (!period) break;
+    periods.push(period);
+  }
+  return periods;
+};
+
+// ============================================
+// RUNNER
+// ============================================
+
+/**
+ * Creates the streams of payroll schedules as their periods start
+ */
+export class PayrollRunner {
+  private sdk: WageProtocolSDK;
+  private store: PayrollStore;
+  private now: () => number;
+  private maxPeriodsPerRun: number;
+
+  constructor(config: PayrollRunnerConfig) {
+    this.sdk = config.sdk;
+    this.store = config.store ?? new MemoryPayrollStore();
+    this.now = config.now ?? (() => Math.floor(Date.now() / 1000));
+    this.maxPeriodsPerRun = config.maxPeriodsPerRun ?? DEFAULT_MAX_PERIODS_PER_RUN;
+  }
+
+  // ============================================
+  // SCHEDULES
+  // ============================================
+
+  async createSchedule(input: PayrollScheduleInput): Promise<PayrollSchedule> {
+    const schedule: PayrollSchedule = {
+      ...input,
+      id: `pay_${Math.random().toString(36).slice(2, 10)}`,
+      employer: normalizeAddress(input.employer),
+      employee: normalizeAddress(input.employee),
+      basis: input.basis ?? "period",
+      paused: false,
+      nextPeriod: 0,
+      createdAt: new Date().toISOString(),
+    };
+    validateSchedule(schedule);
+
+    await this.store.saveSchedule(schedule);
+    return schedule;
+  }
+
+  async getSchedule(id: string): Promise<PayrollSchedule> {
+    const schedule = await this.store.getSchedule(id);
+    if (!schedule) throw new PayrollScheduleError(`Unknown payroll schedule: ${id}`, { isExpected: true });
+    return schedule;
+  }
+
+  async listSchedules(employer?: string): Promise<PayrollSchedule[]> {
+    return this.store.listSchedules(employer);
+  }
+
+  async setPaused(id: string, paused: boolean): Promise<PayrollSchedule> {
+    const schedule = { ...(await this.getSchedule(id)), paused };
+    await this.store.saveSchedule(schedule);
+    return schedule;
+  }
+
+  async removeSchedule(id: string): Promise<boolean> {
+    return this.store.removeSchedule(id);
+  }
+
+  async listRuns(employer?: string): Promise<PayrollRun[]> {
+    return this.store.listRuns(employer);
+  }
+
+  // ============================================
+  // RUNS
+  // ============================================
+
+  /**
+   * Create the streams of every period that has started, for one employer
+   *
+   * The due periods are totalled and checked against the available treasury
+   * balance first; if it falls short, nothing is created. A period whose
+   * stream cannot be created stops its schedule for this run and is retried
+   * next time. Streams for periods that started before the run end with the
+   * period (at least an hour from now) and carry the full amount.
+   */
+  async run(
+    employer: string,
+    signer?: Signer<CommittedTransactionResponse>,
+    options: { dryRun?: boolean } = {}
+  ): Promise<PayrollRun> {
+    const runAt = this.now();
+    const dryRun = options.dryRun ?? false;
+    const schedules = (await this.store.listSchedules(employer)).filter((schedule) => !schedule.paused);
+    const due = schedules.map((schedule) => ({ schedule, periods: this.duePeriods(schedule, runAt) }));
+    const required = due.reduce(
+      (total, { periods }) => periods.reduce((sum, period) => sum + period.amount, total),
+      BigInt(0)
+    );
+
+    const treasury = await this.checkTreasury(employer, required);
+    const run: PayrollRun = {
+      id: `run_${runAt}_${Math.random().toString(36).slice(2, 8)}`,
+      employer: normalizeAddress(employer),
+      runAt,
+      dryRun,
+      treasury,
+      periods: [],
+    };
+
+    for (const { schedule, periods } of due) {
+      for (const period of periods) {
+        const result: PayrollPeriodResult = {
+          ...period,
+          scheduleId: schedule.id,
+          employee: schedule.employee,
+          status: "due",
+        };
+        run.periods.push(result);
+
+        if (period.amount === BigInt(0)) result.status = "skipped";
+        else if (!treasury.sufficient) result.status = "insufficient_treasury";
+        else if (!dryRun) await this.createStream(schedule, period, runAt, result, signer);
+
+        if (result.status === "failed") break;
+        if (!dryRun && treasury.sufficient) {
+          schedule.nextPeriod = period.index + 1;
+          await this.store.saveSchedule(schedule);
+        }
+      }
+    }
+
+    if (!dryRun) await this.store.saveRun(run);
+    return run;
+  }
+
+  private duePeriods(schedule: PayrollSchedule, runAt: number): PayrollPeriod[] {
+    const periods: PayrollPeriod[] = [];
+    for (let index = schedule.nextPeriod; periods.length < this.maxPeriodsPerRun; index++) {
+      const period = schedulePeriod(schedule, index);
+      if (!period || period.startsAt > runAt) break;
+      periods.push(period);
+    }
+    return periods;
+  }
+
+  private async checkTreasury(employer: string, required: bigint): Promise<PayrollRun["treasury"]> {
+    try {
+      const { availableBalance } = await this.sdk.getTreasuryBalance(employer);
+      return { availableBalance, required, sufficient: availableBalance >= required };
+    } catch (error) {
+      return { availableBalance: null, required, sufficient: false, error: toProtocolError(error).message };
+    }
+  }
+
+  private async createStream(
+    schedule: PayrollSchedule,
+    period: PayrollPeriod,
+    runAt: number,
+    result: PayrollPeriodResult,
+    signer?: Signer<CommittedTransactionResponse>
+  ): Promise<void> {
+    const duration = Math.max(period.endsAt - Math.max(runAt, period.startsAt), MIN_STREAM_DURATION);
+    const offset = (schedule.utcOffsetMinutes ?? 0) * 60;
+    const dates = `${formatDay(period.startsAt + offset)} to ${formatDay(period.endsAt + offset - 1)}`;
+    const description = schedule.jobDescription ? `${schedule.jobDescription} (${dates})` : `Payroll ${dates}`;
+
+    try {
+      const response = await this.sdk.createWageStream(schedule.employee, period.amount, duration, description, signer);
+      result.hash = response.hash;
+      if ("success" in response && !response.success) {
+        result.status = "failed";
+        result.error = response.vm_status;
+        return;
+      }
+      result.status = "created";
+      result.streamId = createdStreamId(response, this.sdk.getModules().wageStreaming);
+    } catch (error) {
+      result.status = "failed";
+      result.error = toProtocolError(error).message;
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const matchesEmployer = (address: string, employer?: string): boolean =>
+  employer === undefined || normalizeAddress(address) === normalizeAddress(employer);
+
+const validateSchedule = (schedule: PayrollSchedule): void => {
+  const fail = (message: string) => {
+    throw new PayrollScheduleError(message);
+  };
+
+  if (!["weekly", "monthly", "shift"].includes(schedule.cadence)) fail(`Unknown cadence: ${schedule.cadence}`);
+  if (!["period", "day", "hour"].includes(schedule.basis)) fail(`Unknown pay basis: ${schedule.basis}`);
+  if (schedule.amount <= BigInt(0)) fail("Amount must be positive");
+  if (schedule.employee === schedule.employer) fail("Employer cannot pay themselves");
+  [schedule.startDate, schedule.endDate, ...(schedule.holidays ?? [])].forEach((date) => date && parseDay(date));
+  if (schedule.endDate && parseDay(schedule.endDate) < parseDay(schedule.startDate)) {
+    fail("End date is before the start date");
+  }
+  if (schedule.maxPeriods !== undefined && !(Number.isInteger(schedule.maxPeriods) && schedule.maxPeriods > 0)) {
+    fail("maxPeriods must be a positive whole number");
+  }
+  const workDays = schedule.workDays ?? DEFAULT_WORK_DAYS;
+  if (workDays.length === 0 || workDays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    fail("Work days must be weekday numbers 0-6");
+  }
+  if (schedule.shift) {
+    parseTimeOfDay(schedule.shift.start);
+    if (!(schedule.shift.hours * 3600 >= MIN_STREAM_DURATION && schedule.shift.hours <= 24)) {
+      fail("Shift length must be between 1 and 24 hours");
+    }
+  }
+};
+
+const periodAmount = (schedule: PayrollSchedule, workingDays: number, days: number, fullDays: number): bigint => {
+  switch (schedule.basis) {
+    case "period":
+      // A period cut short by the end date is prorated by calendar days
+      return (schedule.amount * BigInt(days)) / BigInt(fullDays);
+    case "day":
+      return schedule.amount * BigInt(workingDays);
+    case "hour": {
+      const minutes = Math.round((schedule.shift ?? DEFAULT_SHIFT).hours * 60);
+      return (schedule.amount * BigInt(workingDays * minutes)) / BigInt(60);
+    }
+  }
+};
+
+const workingDayTest = (schedule: PayrollSchedule): ((day: number) => boolean) => {
+  const workDays = new Set(schedule.workDays ?? DEFAULT_WORK_DAYS);
+  const holidays = new Set((schedule.holidays ?? []).map(parseDay));
+  // Day 0 (1970-01-01) was a Thursday
+  return (day) => workDays.has((day + 4) % 7) && !holidays.has(day);
+};
+
+const nthWorkingDay = (from: number, n: number, isWorkingDay: (day: number) => boolean): number => {
+  let day = from;
+  for (let seen = isWorkingDay(day) ? 0 : -1; seen < n;) {
+    day++;
+    if (isWorkingDay(day)) seen++;
+  }
+  return day;
+};
+
+/**
+ * `YYYY-MM-DD` as a day number (days since 1970-01-01)
+ */
+const parseDay = (date: string): number => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const time = match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : NaN;
+  if (!match || new Date(time).toISOString().slice(0, 10) !== date) {
+    throw new PayrollScheduleError(`Invalid date "${date}" (use YYYY-MM-DD)`);
+  }
+  return time / (SECONDS_PER_DAY * 1000);
+};
+
+const formatDay = (seconds: number): string => new Date(seconds * 1000).toISOString().slice(0, 10);
+
+const addMonths = (day: number, months: number): number => {
+  const date = new Date(day * SECONDS_PER_DAY * 1000);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  // Clamp e.g. the 31st to the last day of shorter months
+  const lastOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Date.UTC(year, month, Math.min(date.getUTCDate(), lastOfMonth)) / (SECONDS_PER_DAY * 1000);
+};
+
+const parseTimeOfDay = (time: string): number => {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new PayrollScheduleError(`Invalid time "${time}" (use HH:MM)`);
+  }
+  return Number(match[1]) * 3600 + Number(match[2]) * 60;
+};
+
+const createdStreamId = (response: CommittedTransactionResponse, wageStreamingModule: string): number | undefined => {
+  if (!("events" in response)) return undefined;
+  const [moduleAddress, moduleName] = wageStreamingModule.split("::");
+  const event = response.events.find((entry) => {
+    const [address, module, name] = entry.type.split("::");
+    return (
+      name === wageStreaming.EVENTS.streamCreated.name &&
+      module === moduleName &&
+      normalizeAddress(address) === normalizeAddress(moduleAddress)
+    );
+  });
+  return event && wageStreaming.EVENTS.streamCreated.parse(event.data).streamId;
+};
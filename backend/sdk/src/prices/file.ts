@@ -0,0 +1,65 @@
+/**
+ * Prices - JSON file provider
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import {
+  FiatCurrency,
+  PriceProvider,
+  PriceQuote,
+  PriceTable,
+  PriceUnavailableError,
+  TokenMetadata,
+  isQuoteStale,
+  quoteFromTable,
+} from "../protocol/index.js";
+
+/**
+ * Contents of a price file. `asOf` (ISO time) defaults to the file's modification time.
+ */
+export interface PriceFile {
+  asOf?: string;
+  prices: PriceTable;
+}
+
+export interface FilePriceProviderOptions {
+  /** Flag quotes stale once the file's rates are older than this */
+  maxAgeMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Rates read from a JSON file on every quote, so tests and scripts can change
+ * them between calls:
+ *
+ * ```json
+ * { "asOf": "2026-10-19T09:00:00Z", "prices": { "APT": { "INR": 840, "USD": 10.1 } } }
+ * ```
+ */
+export class FilePriceProvider implements PriceProvider {
+  constructor(
+    private readonly path: string,
+    private readonly options: FilePriceProviderOptions = {}
+  ) {}
+
+  async getQuote(token: TokenMetadata, currency: FiatCurrency): Promise<PriceQuote> {
+    let file: PriceFile;
+    let modifiedAt: number;
+    try {
+      file = JSON.parse(await readFile(this.path, "utf8"));
+      modifiedAt = (await stat(this.path)).mtimeMs;
+    } catch (error) {
+      throw new PriceUnavailableError(
+        `Cannot read prices from ${this.path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const asOf = file.asOf ? Date.parse(file.asOf) : modifiedAt;
+    if (Number.isNaN(asOf)) throw new PriceUnavailableError(`${this.path} has an invalid asOf "${file.asOf}"`);
+
+    const quote = quoteFromTable(file.prices ?? {}, token, currency, asOf, this.path);
+    const { maxAgeMs } = this.options;
+    const now = (this.options.now ?? Date.now)();
+    return { ...quote, stale: maxAgeMs !== undefined && isQuoteStale(quote, maxAgeMs, now) };
+  }
+}
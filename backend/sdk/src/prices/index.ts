@@ -0,0 +1,20 @@
+/**
+ * Wage Protocol - Fiat Prices
+ *
+ * The price providers of `@wage-protocol/sdk/protocol` plus `FilePriceProvider`,
+ * which reads rates from a JSON file for tests and offline scripts.
+ *
+ * Node only (uses `node:fs`).
+ *
+ * @example
+ * ```typescript
+ * import { APT } from "@wage-protocol/sdk/protocol";
+ * import { FilePriceProvider } from "@wage-protocol/sdk/prices";
+ *
+ * const prices = new FilePriceProvider("./prices.json", { maxAgeMs: 24 * 3600_000 });
+ * const { price, stale } = await prices.getQuote(APT, "INR");
+ * ```
+ */
+
+export * from "../protocol/prices.js";
+export * from "./file.js";
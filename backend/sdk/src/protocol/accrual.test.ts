@@ -0,0 +1,241 @@
+import { Network } from "@aptos-labs/ts-sdk";
+import { WageProtocolSDK } from "../index.js";
+import { ProtocolSimulator } from "../simulator/index.js";
+import {
+  AccruingStream,
+  accruedAmount,
+  accruedAmountBy,
+  accruedBetween,
+  amountForDuration,
+  streamProgress,
+  streamRate,
+  unaccruedAmount,
+  withdrawableAmount,
+} from "./accrual.js";
+import { normalizeAddress } from "./events.js";
+import { STREAM_STATUS_CODES } from "./wageStreaming.js";
+
+const START = 1_760_000_000;
+const WEEK = 7 * 86_400;
+// Doesn't divide evenly by the duration, so every accrual rounds
+const TOTAL = BigInt(1_000_000_007);
+// (TOTAL * STREAM_PRECISION) / WEEK, rounded down as create_stream does
+const RATE = BigInt(165_343_916_501);
+
+const stream = (overrides: Partial<AccruingStream> = {}): AccruingStream => ({
+  ratePerSecond: RATE,
+  totalDeposited: TOTAL,
+  totalWithdrawn: BigInt(0),
+  startTime: START,
+  endTime: START + WEEK,
+  status: STREAM_STATUS_CODES.ACTIVE,
+  pauseTime: 0,
+  totalPauseDuration: 0,
+  ...overrides,
+});
+
+describe("stream accrual", () => {
+  it("scales the rate by STREAM_PRECISION and rounds accrual down", () => {
+    expect(streamRate(TOTAL, WEEK)).toBe(RATE);
+    // (elapsed * rate_per_second) / PRECISION in calculate_withdrawable_internal
+    expect(accruedAmount(stream(), START + 1)).toBe(BigInt(1_653));
+    expect(accruedAmount(stream(), START + 2)).toBe(BigInt(3_306));
+    expect(accruedAmount(stream(), START + 3)).toBe(BigInt(4_960));
+    expect(accruedAmount(stream(), START + 1_000)).toBe(BigInt(1_653_439));
+    expect(amountForDuration(RATE, WEEK - 1)).toBe(BigInt(999_998_353));
+  });
+
+  it("accrues nothing before the start", () => {
+    expect(accruedAmount(stream(), START)).toBe(BigInt(0));
+    expect(withdrawableAmount(stream(), START - 60)).toBe(BigInt(0));
+    expect(streamProgress(stream(), START - 60)).toBe(0);
+  });
+
+  it("stops accruing at the end time", () => {
+    const atEnd = accruedAmount(stream(), START + WEEK);
+    // Rounding leaves one octa of the deposit unearned
+    expect(atEnd).toBe(BigInt(1_000_000_006));
+    expect(accruedAmount(stream(), START + WEEK + 30 * 86_400)).toBe(atEnd);
+    expect(unaccruedAmount(stream(), START + WEEK + 86_400)).toBe(BigInt(1));
+    expect(streamProgress(stream(), START + WEEK + 86_400)).toBe(99.99);
+  });
+
+  it("caps accrual at the amount deposited", () => {
+    const underfunded = stream({ totalDeposited: BigInt(500_000_000) });
+    expect(accruedAmount(underfunded, START + WEEK)).toBe(BigInt(500_000_000));
+    expect(withdrawableAmount(underfunded, START + WEEK)).toBe(BigInt(500_000_000));
+    expect(streamProgress(underfunded, START + WEEK)).toBe(100);
+  });
+
+  it("subtracts what was already withdrawn", () => {
+    const withdrawn = stream({ totalWithdrawn: BigInt(1_653) });
+    expect(withdrawableAmount(withdrawn, START + 3)).toBe(BigInt(3_307));
+    expect(withdrawableAmount(withdrawn, START)).toBe(BigInt(0));
+  });
+
+  it("freezes accrual at the pause time while paused", () => {
+    const paused = stream({ status: STREAM_STATUS_CODES.PAUSED, pauseTime: START + 1_000 });
+    expect(accruedAmount(paused, START + 1_000)).toBe(BigInt(1_653_439));
+    expect(accruedAmount(paused, START + 5_000)).toBe(BigInt(1_653_439));
+    // Even past the end time, a paused stream has only earned up to the pause
+    expect(withdrawableAmount(paused, START + WEEK * 2)).toBe(BigInt(1_653_439));
+  });
+
+  it("leaves resumed pauses out of the elapsed time", () => {
+    // Paused for 400 seconds; resume_stream pushes the end time back by as much
+    const resumed = stream({ totalPauseDuration: 400, endTime: START + WEEK + 400 });
+    expect(accruedAmount(resumed, START + 1_400)).toBe(BigInt(1_653_439));
+    expect(accruedAmount(resumed, START + WEEK)).toBe(BigInt(999_338_631));
+    expect(accruedAmount(resumed, START + WEEK + 400)).toBe(BigInt(1_000_000_006));
+    expect(accruedAmount(resumed, START + WEEK + 86_400)).toBe(BigInt(1_000_000_006));
+  });
+
+  it("owes nothing on terminated or completed streams", () => {
+    // terminate_stream pays out what was owed and moves the end time to the termination
+    const terminated = stream({
+      status: STREAM_STATUS_CODES.TERMINATED,
+      totalWithdrawn: BigInt(1_653_439),
+      endTime: START + 1_000,
+    });
+    expect(withdrawableAmount(terminated, START + 2_000)).toBe(BigInt(0));
+    expect(accruedAmount(terminated, START + 2_000)).toBe(BigInt(1_653_439));
+    expect(unaccruedAmount(terminated, START + 2_000)).toBe(BigInt(0));
+    expect(accruedAmountBy(terminated, START + 3)).toBe(BigInt(4_960));
+    expect(accruedBetween(terminated, START + 500, START + WEEK)).toBe(BigInt(826_720));
+
+    const completed = stream({ status: STREAM_STATUS_CODES.COMPLETED, totalWithdrawn: BigInt(1_000_000_006) });
+    expect(withdrawableAmount(completed, START + WEEK * 2)).toBe(BigInt(0));
+    expect(accruedAmount(completed, START + WEEK * 2)).toBe(BigInt(1_000_000_006));
+  });
+
+  it("counts wages earned before a later pause", () => {
+    const paused = stream({ status: STREAM_STATUS_CODES.PAUSED, pauseTime: START + 1_000 });
+    expect(accruedAmountBy(paused, START + 3)).toBe(BigInt(4_960));
+    expect(accruedBetween(paused, START, START + 5_000)).toBe(BigInt(1_653_439));
+    expect(accruedBetween(paused, START + 1_000, START + 5_000)).toBe(BigInt(0));
+  });
+});
+
+describe("stream accrual against the Move unit tests", () => {
+  // get_withdrawable_balance as asserted in backend/tests/wage_streaming_tests.move,
+  // where the test clock and so the stream start at 0
+  const created = stream({ startTime: 0, endTime: WEEK });
+
+  it("matches test_withdrawable_balance_rounding_pause_and_end", () => {
+    expect(withdrawableAmount(created, 0)).toBe(BigInt(0));
+    expect(withdrawableAmount(created, 1)).toBe(BigInt(1_653));
+    expect(withdrawableAmount(created, 3)).toBe(BigInt(4_960));
+    expect(withdrawableAmount(created, 1_000)).toBe(BigInt(1_653_439));
+
+    const paused = { ...created, status: STREAM_STATUS_CODES.PAUSED, pauseTime: 1_000 };
+    expect(withdrawableAmount(paused, 6_000)).toBe(BigInt(1_653_439));
+
+    const resumed = { ...created, totalPauseDuration: 5_000, endTime: WEEK + 5_000 };
+    expect(withdrawableAmount(resumed, 6_077)).toBe(BigInt(1_780_753));
+
+    const withdrawn = { ...resumed, totalWithdrawn: BigInt(1_780_753) };
+    expect(withdrawableAmount(withdrawn, 6_077)).toBe(BigInt(0));
+    expect(withdrawableAmount(withdrawn, 696_200)).toBe(BigInt(998_219_253));
+  });
+
+  it("matches test_withdrawable_balance_capped_at_deposit", () => {
+    // A 25 bps fee leaves 997_500_007 deposited at the full amount's rate
+    const afterFee = { ...created, totalDeposited: BigInt(997_500_007) };
+    expect(withdrawableAmount(afterFee, 603_288)).toBe(BigInt(997_500_006));
+    expect(withdrawableAmount(afterFee, 603_289)).toBe(BigInt(997_500_007));
+    expect(withdrawableAmount(afterFee, 1_603_289)).toBe(BigInt(997_500_007));
+  });
+});
+
+describe("stream accrual properties", () => {
+  // Deterministic so a failure can be replayed
+  const random = (seed: number) => () => {
+    seed = (Math.imul(seed, 1_103_515_245) + 12_345) >>> 0;
+    return seed / 2 ** 32;
+  };
+  const between = (next: () => number, min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+
+  it("never decreases over time and never passes the deposit", () => {
+    const next = random(2_024);
+    for (let i = 0; i < 200; i++) {
+      const duration = between(next, 3_600, 63_072_000);
+      const total = BigInt(between(next, 1, 2 ** 40));
+      // Up to the 5% maximum fee comes out of the deposit
+      const deposited = total - (total * BigInt(between(next, 0, 500))) / BigInt(10_000);
+      const startTime = between(next, 0, 2_000_000_000);
+      const pauses = between(next, 0, duration);
+      const pausedAt = next() < 0.3 ? startTime + between(next, 0, duration * 2) : 0;
+      const sample = stream({
+        ratePerSecond: streamRate(total, duration),
+        totalDeposited: deposited,
+        startTime,
+        endTime: startTime + duration + pauses,
+        totalPauseDuration: pauses,
+        status: pausedAt ? STREAM_STATUS_CODES.PAUSED : STREAM_STATUS_CODES.ACTIVE,
+        pauseTime: pausedAt,
+      });
+
+      const times = Array.from({ length: 20 }, () => startTime + between(next, -3_600, (duration + pauses) * 2));
+      let previous = BigInt(0);
+      for (const time of times.sort((a, b) => a - b)) {
+        const accrued = accruedAmount(sample, time);
+        expect(accrued).toBeGreaterThanOrEqual(previous);
+        expect(accrued).toBeLessThanOrEqual(deposited);
+        expect(withdrawableAmount(sample, time)).toBe(accrued);
+        previous = accrued;
+      }
+    }
+  });
+});
+
+describe("stream accrual against the contract", () => {
+  const EMPLOYER = normalizeAddress("0xe1");
+  const EMPLOYEE = normalizeAddress("0xe2");
+
+  it("matches get_withdrawable_balance through withdrawals, a pause, the end and termination", async () => {
+    const simulator = new ProtocolSimulator({ moduleAddress: "0xcafe" });
+    simulator.fund(EMPLOYER, 100 * 1e8);
+    simulator.fund(EMPLOYEE, 1e8);
+    const sdk = new WageProtocolSDK({ network: Network.LOCAL, moduleAddress: "0xcafe", simulator });
+    const employer = simulator.signer(EMPLOYER);
+    const employee = simulator.signer(EMPLOYEE);
+
+    await sdk.createWageStream(EMPLOYEE, TOTAL, WEEK, "", employer);
+    await sdk.createWageStream(EMPLOYEE, TOTAL, WEEK, "", employer);
+    const [first, second] = (await sdk.getStreamStates()).map((state) => state.streamId);
+
+    const checked: bigint[] = [];
+    const expectMatches = async (streamId: string) => {
+      const state = (await sdk.getStreamStates()).find((candidate) => candidate.streamId === streamId)!;
+      const onChain = await sdk.getWithdrawableBalance(streamId);
+      expect(withdrawableAmount(state, simulator.clock.now())).toBe(onChain);
+      checked.push(onChain);
+    };
+
+    for (const seconds of [1, 2, 997]) {
+      simulator.clock.advance(seconds);
+      await expectMatches(first);
+    }
+    await sdk.withdrawWages(first, employee);
+    await expectMatches(first);
+
+    await sdk.pauseStream(first, employer);
+    simulator.clock.advance(5_000);
+    await expectMatches(first);
+    await sdk.resumeStream(first, employer);
+    simulator.clock.advance(77);
+    await expectMatches(first);
+
+    simulator.clock.advance(WEEK);
+    await expectMatches(first);
+    await expectMatches(second);
+
+    await sdk.terminateStream(second, employer);
+    simulator.clock.advance(60);
+    await expectMatches(second);
+
+    // The checks covered both owed and settled balances
+    expect(checked.some((amount) => amount > BigInt(0))).toBe(true);
+    expect(checked.at(-1)).toBe(BigInt(0));
+  });
+});
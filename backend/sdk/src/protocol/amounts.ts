@@ -0,0 +1,282 @@
+/**
+ * Protocol Client - Token Amounts
+ *
+ * `TokenAmount` is an exact amount of a coin or fungible asset: the on-chain
+ * integer (octas for APT) plus the token's metadata, so arithmetic stays in
+ * bigint and decimals are only applied when parsing input or formatting output.
+ *
+ * @example
+ * ```typescript
+ * const wage = TokenAmount.parse("1,250.5", APT, { locale: "en-US" }); // 125050000000 octas
+ * const daily = wage.mulDiv(BigInt(1), BigInt(30));
+ * daily.format({ locale: "en-IN", maximumFractionDigits: 4 }); // "41.6833"
+ * TokenAmount.parse("1.250,5", APT, { locale: "de-DE" }).equals(wage); // true
+ * ```
+ */
+
+import { ProtocolError } from "./errors.js";
+
+// ============================================
+// TOKENS
+// ============================================
+
+/**
+ * Metadata of a coin or fungible asset
+ */
+export interface TokenMetadata {
+  symbol: string;
+  name: string;
+  decimals: number;
+  /** Coin type (`0x1::aptos_coin::AptosCoin`) or fungible asset metadata address */
+  assetType: string;
+}
+
+export const APT: TokenMetadata = {
+  symbol: "APT",
+  name: "Aptos Coin",
+  decimals: 8,
+  assetType: "0x1::aptos_coin::AptosCoin",
+};
+
+/**
+ * Whether a token is a coin (`0x1::aptos_coin::AptosCoin`) rather than a fungible asset,
+ * i.e. whether it goes through the APT entry points instead of the `*_asset` ones
+ */
+export const isCoinType = (token: TokenMetadata): boolean => token.assetType.includes("::");
+
+const normalizeAssetType = (assetType: string): string => {
+  if (assetType.includes("::")) return assetType;
+  const hex = assetType.toLowerCase().replace(/^0x/, "");
+  return `0x${hex.replace(/^0+(?=.)/, "")}`;
+};
+
+/**
+ * Compare asset types, treating `0xa` and its long form `0x000...0a` as equal
+ */
+export const isSameAssetType = (a: string, b: string): boolean => normalizeAssetType(a) === normalizeAssetType(b);
+
+/**
+ * The token with the given asset type, if listed
+ */
+export const findToken = (tokens: readonly TokenMetadata[], assetType: string): TokenMetadata | undefined =>
+  tokens.find((token) => isSameAssetType(token.assetType, assetType));
+
+/**
+ * Input that is not an amount of the token, or arithmetic across two tokens
+ */
+export class AmountError extends ProtocolError {}
+
+// ============================================
+// LOCALE SEPARATORS
+// ============================================
+
+interface Separators {
+  group: string;
+  decimal: string;
+}
+
+const ZERO = BigInt(0);
+
+const separatorCache = new Map<string, Separators>();
+
+const getSeparators = (locale: string | undefined): Separators => {
+  const key = locale ?? "";
+  let separators = separatorCache.get(key);
+  if (!separators) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+    separators = {
+      group: parts.find((part) => part.type === "group")?.value ?? ",",
+      decimal: parts.find((part) => part.type === "decimal")?.value ?? ".",
+    };
+    separatorCache.set(key, separators);
+  }
+  return separators;
+};
+
+// ============================================
+// AMOUNT
+// ============================================
+
+export interface ParseAmountOptions {
+  /** Locale of the input's group and decimal separators (default: plain `1234.5` input) */
+  locale?: string;
+}
+
+export interface FormatAmountOptions {
+  /** Locale for separators and digit grouping (default "en-US") */
+  locale?: string;
+  /** Pad the fraction to at least this many digits, with zeros past the token's decimals (default 0) */
+  minimumFractionDigits?: number;
+  /** Round half up to at most this many digits (default: the token's decimals) */
+  maximumFractionDigits?: number;
+  /** Group the whole part, e.g. 1,234,567 (default true) */
+  useGrouping?: boolean;
+  /** Append the token symbol (default false) */
+  withSymbol?: boolean;
+}
+
+export class TokenAmount {
+  private constructor(
+    /** Amount in the token's smallest unit */
+    readonly raw: bigint,
+    readonly token: TokenMetadata
+  ) {}
+
+  /**
+   * An amount from its on-chain integer value
+   */
+  static of(raw: bigint | number | string, token: TokenMetadata = APT): TokenAmount {
+    if (typeof raw === "number" && !Number.isSafeInteger(raw)) {
+      throw new AmountError(`${raw} is not an exact integer amount of ${token.symbol}`);
+    }
+    return new TokenAmount(BigInt(raw), token);
+  }
+
+  static zero(token: TokenMetadata = APT): TokenAmount {
+    return new TokenAmount(ZERO, token);
+  }
+
+  /**
+   * Parse a decimal amount such as "1250.5", or with `locale`, "1,250.5" / "1.250,5".
+   * Rejects negative amounts and input with more fraction digits than the token has.
+   */
+  static parse(value: string, token: TokenMetadata = APT, options: ParseAmountOptions = {}): TokenAmount {
+    let normalized = value.trim();
+    if (options.locale !== undefined) {
+      // Some locales group with (no-break) spaces
+      const { group, decimal } = getSeparators(options.locale);
+      normalized = normalized
+        .replace(/\s/g, "")
+        .split(group.trim() || " ")
+        .join("");
+      if (decimal !== ".") normalized = normalized.replace(decimal, ".");
+    }
+
+    const match = /^(\d*)(?:\.(\d*))?$/.exec(normalized);
+    if (!match || (match[1] === "" && !match[2])) {
+      throw new AmountError(`"${value}" is not an amount of ${token.symbol}`);
+    }
+
+    const [, whole, fraction = ""] = match;
+    if (fraction.length > token.decimals) {
+      throw new AmountError(`"${value}" has more than ${token.decimals} decimals, the precision of ${token.symbol}`);
+    }
+    const raw =
+      BigInt(whole || "0") * BigInt(10) ** BigInt(token.decimals) + BigInt(fraction.padEnd(token.decimals, "0"));
+    return new TokenAmount(raw, token);
+  }
+
+  /**
+   * Convert a floating-point amount, rounded to the token's decimals. Only for
+   * values that already are numbers (charts, legacy APIs); parse user input instead.
+   */
+  static fromNumber(value: number, token: TokenMetadata = APT): TokenAmount {
+    if (!Number.isFinite(value)) throw new AmountError(`${value} is not an amount of ${token.symbol}`);
+    const magnitude = TokenAmount.parse(Math.abs(value).toFixed(token.decimals), token);
+    return value < 0 ? new TokenAmount(-magnitude.raw, token) : magnitude;
+  }
+
+  /**
+   * Sum of amounts of one token
+   */
+  static sum(amounts: TokenAmount[], token: TokenMetadata = amounts[0]?.token ?? APT): TokenAmount {
+    return amounts.reduce((total, amount) => total.plus(amount), TokenAmount.zero(token));
+  }
+
+  private assertSameToken(other: TokenAmount): void {
+    if (!isSameAssetType(other.token.assetType, this.token.assetType)) {
+      throw new AmountError(`Cannot combine ${this.token.symbol} with ${other.token.symbol}`);
+    }
+  }
+
+  plus(other: TokenAmount): TokenAmount {
+    this.assertSameToken(other);
+    return new TokenAmount(this.raw + other.raw, this.token);
+  }
+
+  minus(other: TokenAmount): TokenAmount {
+    this.assertSameToken(other);
+    return new TokenAmount(this.raw - other.raw, this.token);
+  }
+
+  /**
+   * `amount * numerator / denominator`, rounded down like Move's integer division
+   */
+  mulDiv(numerator: bigint | number, denominator: bigint | number = BigInt(1)): TokenAmount {
+    if (BigInt(denominator) === ZERO) throw new AmountError("Division by zero");
+    return new TokenAmount((this.raw * BigInt(numerator)) / BigInt(denominator), this.token);
+  }
+
+  compare(other: TokenAmount): -1 | 0 | 1 {
+    this.assertSameToken(other);
+    return this.raw < other.raw ? -1 : this.raw > other.raw ? 1 : 0;
+  }
+
+  equals(other: TokenAmount): boolean {
+    return isSameAssetType(other.token.assetType, this.token.assetType) && other.raw === this.raw;
+  }
+
+  isZero(): boolean {
+    return this.raw === ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.raw < ZERO;
+  }
+
+  /**
+   * Exact decimal value without trailing zeros, e.g. "1250.5"
+   */
+  toDecimalString(): string {
+    const scale = BigInt(10) ** BigInt(this.token.decimals);
+    const magnitude = this.raw < ZERO ? -this.raw : this.raw;
+    const fraction = (magnitude % scale).toString().padStart(this.token.decimals, "0").replace(/0+$/, "");
+    return `${this.raw < ZERO ? "-" : ""}${magnitude / scale}${fraction ? `.${fraction}` : ""}`;
+  }
+
+  /**
+   * Nearest floating-point value, for charts and percentages
+   */
+  toNumber(): number {
+    return Number(this.toDecimalString());
+  }
+
+  /**
+   * Locale-formatted amount, e.g. "1,250.50" or with `withSymbol`, "1,250.50 APT"
+   */
+  format(options: FormatAmountOptions = {}): string {
+    const { locale = "en-US", minimumFractionDigits = 0, useGrouping = true, withSymbol = false } = options;
+    const decimals = this.token.decimals;
+    const maximumFractionDigits = Math.min(
+      Math.max(minimumFractionDigits, options.maximumFractionDigits ?? decimals),
+      decimals
+    );
+
+    // Round half up (away from zero) to maximumFractionDigits
+    const magnitude = this.raw < ZERO ? -this.raw : this.raw;
+    const step = BigInt(10) ** BigInt(decimals - maximumFractionDigits);
+    const rounded = ((magnitude + step / BigInt(2)) / step) * step;
+
+    const scale = BigInt(10) ** BigInt(decimals);
+    const whole = rounded / scale;
+    const fraction = (rounded % scale)
+      .toString()
+      .padStart(decimals, "0")
+      .slice(0, maximumFractionDigits)
+      .replace(/0+$/, "")
+      .padEnd(minimumFractionDigits, "0");
+
+    const wholeText = new Intl.NumberFormat(locale, { useGrouping }).format(whole);
+    const sign = this.raw < ZERO && rounded !== ZERO ? "-" : "";
+    const text = `${sign}${wholeText}${fraction ? `${getSeparators(locale).decimal}${fraction}` : ""}`;
+    return withSymbol ? `${text} ${this.token.symbol}` : text;
+  }
+
+  toString(): string {
+    return `${this.toDecimalString()} ${this.token.symbol}`;
+  }
+
+  toJSON(): { raw: string; decimals: number; symbol: string } {
+    return { raw: this.raw.toString(), decimals: this.token.decimals, symbol: this.token.symbol };
+  }
+}
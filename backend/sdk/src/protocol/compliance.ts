@@ -0,0 +1,770 @@
+/**
+ * Protocol Client - compliance bindings
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  ViewResult,
+  U64Input,
+  mapView,
+  toBigInt,
+  toNumber,
+  toBool,
+  toAddress,
+} from "./core.js";
+import { eventDefinition } from "./events.js";
+import * as abi from "./generated/compliance.js";
+
+// ============================================
+// TYPES & CONSTANTS
+// ============================================
+
+/**
+ * Employee-side deductions returned by `calculate_deductions`
+ */
+export interface DeductionInfo {
+  epf: bigint;
+  esi: bigint;
+  tds: bigint;
+  professionalTax: bigint;
+  netPayable: bigint;
+}
+
+export interface EmployeeComplianceStatus {
+  status: number;
+  epfMember: boolean;
+  esiEligible: boolean;
+  kycVerified: boolean;
+}
+
+export interface EmployerComplianceStatus {
+  status: number;
+  epfRegistered: boolean;
+  esiRegistered: boolean;
+  employeeCount: bigint;
+}
+
+export interface EmployerComplianceSummary {
+  totalEpf: bigint;
+  totalEsi: bigint;
+  totalTds: bigint;
+}
+
+export interface StatutoryRates {
+  epfEmployeeRate: bigint;
+  epfEmployerRate: bigint;
+  esiEmployeeRate: bigint;
+  esiEmployerRate: bigint;
+}
+
+export interface StreamComplianceInfo {
+  epfDeducted: bigint;
+  esiDeducted: bigint;
+  tdsDeducted: bigint;
+  ptDeducted: bigint;
+  netPayable: bigint;
+  isCompliant: boolean;
+}
+
+/**
+ * `EmployeeCompliance` resource as returned by `getAccountResource`
+ */
+export interface EmployeeComplianceResource {
+  employee: string;
+  pan_hash: string;
+  aadhaar_hash: string;
+  uan_hash: string;
+  bank_account_hash: string;
+  tax_regime: number;
+  declared_annual_income: string;
+  epf_member: boolean;
+  esi_eligible: boolean;
+  registered_at: string;
+  kyc_verified: boolean;
+  status: number;
+}
+
+/**
+ * An employee's compliance profile. Read from the `EmployeeCompliance` resource,
+ * since `get_employee_status` leaves out the tax regime and declared income.
+ */
+export interface EmployeeComplianceProfile {
+  employee: string;
+  /** `TAX_REGIME.OLD` or `TAX_REGIME.NEW` */
+  taxRegime: number;
+  declaredAnnualIncome: bigint;
+  epfMember: boolean;
+  esiEligible: boolean;
+  kycVerified: boolean;
+  status: number;
+  registeredAt: number;
+}
+
+/**
+ * `StatutoryRates` resource as returned by `getAccountResource`
+ */
+export interface StatutoryRatesResource {
+  epf_employee_rate: string;
+  epf_employer_rate: string;
+  esi_employee_rate: string;
+  esi_employer_rate: string;
+  esi_ceiling: string;
+  epf_ceiling: string;
+  last_updated: string;
+  updated_by: string;
+}
+
+/**
+ * The registry's rates with the wage ceilings `calculate_deductions` applies,
+ * which `get_statutory_rates` leaves out
+ */
+export interface StatutoryRateSettings extends StatutoryRates {
+  /** Monthly wage above which ESI isn't deducted */
+  esiCeiling: bigint;
+  /** Monthly wage EPF is capped at */
+  epfCeiling: bigint;
+  lastUpdated: number;
+}
+
+/**
+ * `EmployerCompliance` resource as returned by `getAccountResource`
+ */
+export interface EmployerComplianceResource {
+  employer: string;
+  pan_hash: string;
+  gstin_hash: string;
+  epf_code_hash: string;
+  esi_code_hash: string;
+  state_code: number;
+  epf_registered: boolean;
+  esi_registered: boolean;
+  registered_at: string;
+  last_compliance_check: string;
+  status: number;
+  employee_count: string;
+  total_deductions: string;
+}
+
+/**
+ * An employer's compliance profile. Read from the `EmployerCompliance` resource,
+ * since `get_employer_status` leaves out the state professional tax follows.
+ */
+export interface EmployerComplianceProfile {
+  employer: string;
+  /** `STATE_CODES` entry */
+  stateCode: number;
+  epfRegistered: boolean;
+  esiRegistered: boolean;
+  status: number;
+  employeeCount: bigint;
+  registeredAt: number;
+}
+
+export interface CertificateVerification {
+  isValid: boolean;
+  issuedAt: number;
+  validUntil: number;
+}
+
+export const COMPLIANCE_STATUS = {
+  PENDING: 1,
+  VERIFIED: 2,
+  FLAGGED: 3,
+  EXEMPT: 4,
+} as const;
+
+export const TAX_REGIME = {
+  OLD: 0,
+  NEW: 1,
+} as const;
+
+/**
+ * State codes employers register with (`state_code`), which set their professional tax
+ */
+export const STATE_CODES = {
+  MAHARASHTRA: 1,
+  KARNATAKA: 2,
+  WEST_BENGAL: 3,
+  ANDHRA_PRADESH: 4,
+  TELANGANA: 5,
+  TAMIL_NADU: 6,
+  GUJARAT: 7,
+  OTHER: 8,
+} as const;
+
+export const CERTIFICATE_TYPE = {
+  EPF: 1,
+  ESI: 2,
+  TDS: 3,
+  COMBINED: 4,
+} as const;
+
+// ============================================
+// VIEW PARSERS
+// ============================================
+
+export const parseDeductionInfo = (result: ViewResult<typeof abi.calculateDeductions>): DeductionInfo => {
+  const [epf, esi, tds, professionalTax, netPayable] = result;
+
+  return {
+    epf,
+    esi,
+    tds,
+    professionalTax,
+    netPayable,
+  };
+};
+
+export const parseEmployeeStatus = (result: ViewResult<typeof abi.getEmployeeStatus>): EmployeeComplianceStatus => {
+  const [status, epfMember, esiEligible, kycVerified] = result;
+
+  return {
+    status,
+    epfMember,
+    esiEligible,
+    kycVerified,
+  };
+};
+
+export const parseEmployerStatus = (result: ViewResult<typeof abi.getEmployerStatus>): EmployerComplianceStatus => {
+  const [status, epfRegistered, esiRegistered, employeeCount] = result;
+
+  return {
+    status,
+    epfRegistered,
+    esiRegistered,
+    employeeCount,
+  };
+};
+
+export const parseEmployerComplianceSummary = (
+  result: ViewResult<typeof abi.getEmployerComplianceSummary>
+): EmployerComplianceSummary => {
+  const [totalEpf, totalEsi, totalTds] = result;
+
+  return {
+    totalEpf,
+    totalEsi,
+    totalTds,
+  };
+};
+
+export const parseStatutoryRates = (result: ViewResult<typeof abi.getStatutoryRates>): StatutoryRates => {
+  const [epfEmployeeRate, epfEmployerRate, esiEmployeeRate, esiEmployerRate] = result;
+
+  return {
+    epfEmployeeRate,
+    epfEmployerRate,
+    esiEmployeeRate,
+    esiEmployerRate,
+  };
+};
+
+export const parseStreamCompliance = (result: ViewResult<typeof abi.getStreamCompliance>): StreamComplianceInfo => {
+  const [epfDeducted, esiDeducted, tdsDeducted, ptDeducted, netPayable, isCompliant] = result;
+
+  return {
+    epfDeducted,
+    esiDeducted,
+    tdsDeducted,
+    ptDeducted,
+    netPayable,
+    isCompliant,
+  };
+};
+
+export const parseEmployeeComplianceResource = (resource: EmployeeComplianceResource): EmployeeComplianceProfile => ({
+  employee: toAddress(resource.employee),
+  taxRegime: toNumber(resource.tax_regime),
+  declaredAnnualIncome: toBigInt(resource.declared_annual_income),
+  epfMember: toBool(resource.epf_member),
+  esiEligible: toBool(resource.esi_eligible),
+  kycVerified: toBool(resource.kyc_verified),
+  status: toNumber(resource.status),
+  registeredAt: toNumber(resource.registered_at),
+});
+
+export const parseStatutoryRatesResource = (resource: StatutoryRatesResource): StatutoryRateSettings => ({
+  epfEmployeeRate: toBigInt(resource.epf_employee_rate),
+  epfEmployerRate: toBigInt(resource.epf_employer_rate),
+  esiEmployeeRate: toBigInt(resource.esi_employee_rate),
+  esiEmployerRate: toBigInt(resource.esi_employer_rate),
+  esiCeiling: toBigInt(resource.esi_ceiling),
+  epfCeiling: toBigInt(resource.epf_ceiling),
+  lastUpdated: toNumber(resource.last_updated),
+});
+
+export const parseEmployerComplianceResource = (resource: EmployerComplianceResource): EmployerComplianceProfile => ({
+  employer: toAddress(resource.employer),
+  stateCode: toNumber(resource.state_code),
+  epfRegistered: toBool(resource.epf_registered),
+  esiRegistered: toBool(resource.esi_registered),
+  status: toNumber(resource.status),
+  employeeCount: toBigInt(resource.employee_count),
+  registeredAt: toNumber(resource.registered_at),
+});
+
+/**
+ * Wages a stream's compliance record was computed on (its `total_wages`): the
+ * deductions plus net pay. 0 when the stream has no record, since
+ * `get_stream_compliance` then returns zeros.
+ */
+export const streamComplianceWages = (info: StreamComplianceInfo): bigint =>
+  info.epfDeducted + info.esiDeducted + info.tdsDeducted + info.ptDeducted + info.netPayable;
+
+export const parseCertificateVerification = (
+  result: ViewResult<typeof abi.verifyCertificate>
+): CertificateVerification => {
+  const [isValid, issuedAt, validUntil] = result;
+
+  return {
+    isValid,
+    issuedAt: Number(issuedAt),
+    validUntil: Number(validUntil),
+  };
+};
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+/**
+ * Employee deductions for a gross wage under the employer's state and the employee's profile
+ */
+export const calculateDeductionsView = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employerAddr: string,
+  employeeAddr: string,
+  grossWage: U64Input
+): ViewRequest<DeductionInfo> =>
+  mapView(abi.calculateDeductions(modules, registryAddr, employerAddr, employeeAddr, grossWage), parseDeductionInfo);
+
+export const getEmployeeStatusView = (
+  modules: ProtocolModules,
+  employeeAddr: string
+): ViewRequest<EmployeeComplianceStatus> =>
+  mapView(abi.getEmployeeStatus(modules, employeeAddr), parseEmployeeStatus);
+
+export const getEmployerStatusView = (
+  modules: ProtocolModules,
+  employerAddr: string
+): ViewRequest<EmployerComplianceStatus> =>
+  mapView(abi.getEmployerStatus(modules, employerAddr), parseEmployerStatus);
+
+export const getEmployerComplianceSummaryView = (
+  modules: ProtocolModules,
+  employerAddr: string
+): ViewRequest<EmployerComplianceSummary> =>
+  mapView(abi.getEmployerComplianceSummary(modules, employerAddr), parseEmployerComplianceSummary);
+
+export const getStatutoryRatesView = (
+  modules: ProtocolModules,
+  registryAddr: string
+): ViewRequest<StatutoryRates> =>
+  mapView(abi.getStatutoryRates(modules, registryAddr), parseStatutoryRates);
+
+export const getStreamComplianceView = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): ViewRequest<StreamComplianceInfo> =>
+  mapView(abi.getStreamCompliance(modules, registryAddr, streamId), parseStreamCompliance);
+
+export const verifyCertificateView = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  certificateId: U64Input
+): ViewRequest<CertificateVerification> =>
+  mapView(abi.verifyCertificate(modules, registryAddr, certificateId), parseCertificateVerification);
+
+export const isEmployeeRegisteredView = (modules: ProtocolModules, employeeAddr: string): ViewRequest<boolean> =>
+  abi.isEmployeeRegistered(modules, employeeAddr);
+
+export const isEmployerRegisteredView = (modules: ProtocolModules, employerAddr: string): ViewRequest<boolean> =>
+  abi.isEmployerRegistered(modules, employerAddr);
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Initialize the compliance registry (protocol admin)
+ */
+export const initializePayload = (modules: ProtocolModules): EntryFunctionPayload =>
+  abi.initialize(modules);
+
+/**
+ * Register the signer as an employer
+ */
+export const registerEmployerPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  panHash: Uint8Array,
+  gstinHash: Uint8Array,
+  epfCodeHash: Uint8Array,
+  esiCodeHash: Uint8Array,
+  stateCode: number,
+  epfRegistered: boolean,
+  esiRegistered: boolean
+): EntryFunctionPayload =>
+  abi.registerEmployer(
+    modules,
+    registryAddr,
+    panHash,
+    gstinHash,
+    epfCodeHash,
+    esiCodeHash,
+    stateCode,
+    epfRegistered,
+    esiRegistered
+  );
+
+/**
+ * Register the signer as an employee (ESI eligibility is derived on-chain from income)
+ */
+export const registerEmployeePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  panHash: Uint8Array,
+  aadhaarHash: Uint8Array,
+  uanHash: Uint8Array,
+  bankAccountHash: Uint8Array,
+  taxRegime: number,
+  declaredAnnualIncome: U64Input,
+  epfMember: boolean
+): EntryFunctionPayload =>
+  abi.registerEmployee(
+    modules,
+    registryAddr,
+    panHash,
+    aadhaarHash,
+    uanHash,
+    bankAccountHash,
+    taxRegime,
+    declaredAnnualIncome,
+    epfMember
+  );
+
+/**
+ * Compute and record deductions for a stream
+ */
+export const verifyStreamCompliancePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input,
+  employerAddr: string,
+  employeeAddr: string,
+  totalWages: U64Input
+): EntryFunctionPayload =>
+  abi.verifyStreamCompliance(modules, registryAddr, streamId, employerAddr, employeeAddr, totalWages);
+
+/**
+ * Submit a monthly statutory report (employer, month as YYYYMM)
+ */
+export const submitMonthlyReportPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  month: U64Input,
+  totalWages: U64Input,
+  epfEmployee: U64Input,
+  epfEmployer: U64Input,
+  esiEmployee: U64Input,
+  esiEmployer: U64Input,
+  tdsDeducted: U64Input,
+  professionalTax: U64Input,
+  employeeCount: U64Input
+): EntryFunctionPayload =>
+  abi.submitMonthlyReport(
+    modules,
+    registryAddr,
+    month,
+    totalWages,
+    epfEmployee,
+    epfEmployer,
+    esiEmployee,
+    esiEmployer,
+    tdsDeducted,
+    professionalTax,
+    employeeCount
+  );
+
+/**
+ * Issue a compliance certificate to an employer (protocol admin)
+ */
+export const issueCertificatePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employerAddr: string,
+  period: U64Input,
+  certType: number,
+  certificateHash: Uint8Array,
+  validityDays: U64Input
+): EntryFunctionPayload =>
+  abi.issueCertificate(modules, registryAddr, employerAddr, period, certType, certificateHash, validityDays);
+
+/**
+ * Revoke a compliance certificate (protocol admin)
+ */
+export const revokeCertificatePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  certificateId: U64Input
+): EntryFunctionPayload =>
+  abi.revokeCertificate(modules, registryAddr, certificateId);
+
+/**
+ * Update statutory rates and ceilings (protocol admin)
+ */
+export const updateStatutoryRatesPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  epfEmployeeRate: U64Input,
+  epfEmployerRate: U64Input,
+  esiEmployeeRate: U64Input,
+  esiEmployerRate: U64Input,
+  esiCeiling: U64Input,
+  epfCeiling: U64Input
+): EntryFunctionPayload =>
+  abi.updateStatutoryRates(
+    modules,
+    registryAddr,
+    epfEmployeeRate,
+    epfEmployerRate,
+    esiEmployeeRate,
+    esiEmployerRate,
+    esiCeiling,
+    epfCeiling
+  );
+
+/**
+ * Mark an employer's KYC as verified (protocol admin)
+ */
+export const verifyEmployerKycPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employerAddr: string
+): EntryFunctionPayload =>
+  abi.verifyEmployerKyc(modules, registryAddr, employerAddr);
+
+/**
+ * Mark an employee's KYC as verified (protocol admin)
+ */
+export const verifyEmployeeKycPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employeeAddr: string
+): EntryFunctionPayload =>
+  abi.verifyEmployeeKyc(modules, registryAddr, employeeAddr);
+
+/**
+ * Flag an employer for a compliance issue (protocol admin)
+ */
+export const flagComplianceIssuePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employerAddr: string
+): EntryFunctionPayload =>
+  abi.flagComplianceIssue(modules, registryAddr, employerAddr);
+
+// ============================================
+// EVENTS
+// ============================================
+
+export interface ComplianceVerificationEvent {
+  employer: string;
+  employee: string;
+  streamId: number;
+  isCompliant: boolean;
+  timestamp: number;
+}
+
+export interface DeductionEvent {
+  streamId: number;
+  epfAmount: bigint;
+  esiAmount: bigint;
+  tdsAmount: bigint;
+  ptAmount: bigint;
+  netAmount: bigint;
+  timestamp: number;
+}
+
+export interface CertificateEvent {
+  certificateId: bigint;
+  employer: string;
+  period: number;
+  certType: number;
+  timestamp: number;
+}
+
+/**
+ * Events emitted on the `ComplianceRegistry` event handles
+ */
+export const EVENTS = {
+  verification: eventDefinition("compliance", "ComplianceVerificationEvent", (data): ComplianceVerificationEvent => ({
+    employer: toAddress(data.employer),
+    employee: toAddress(data.employee),
+    streamId: toNumber(data.stream_id),
+    isCompliant: toBool(data.is_compliant),
+    timestamp: toNumber(data.timestamp),
+  })),
+  deduction: eventDefinition("compliance", "DeductionEvent", (data): DeductionEvent => ({
+    streamId: toNumber(data.stream_id),
+    epfAmount: toBigInt(data.epf_amount),
+    esiAmount: toBigInt(data.esi_amount),
+    tdsAmount: toBigInt(data.tds_amount),
+    ptAmount: toBigInt(data.pt_amount),
+    netAmount: toBigInt(data.net_amount),
+    timestamp: toNumber(data.timestamp),
+  })),
+  certificate: eventDefinition("compliance", "CertificateEvent", (data): CertificateEvent => ({
+    certificateId: toBigInt(data.certificate_id),
+    employer: toAddress(data.employer),
+    period: toNumber(data.period),
+    certType: toNumber(data.cert_type),
+    timestamp: toNumber(data.timestamp),
+  })),
+};
+
+// ============================================
+// STATUTORY RETURNS
+// ============================================
+
+/** On-chain wages carry 8 decimals of a rupee (the EPF ceiling is `15000_00000000`) */
+export const RUPEE_UNITS = BigInt(100_000_000);
+
+/** EPS and EDLI wages are capped at ₹15,000 a month */
+export const EPS_WAGE_CEILING = BigInt(15_000) * RUPEE_UNITS;
+
+/** Employees' Pension Scheme share of the employer's EPF contribution, in bps */
+export const EPS_RATE_BPS = BigInt(833);
+
+/**
+ * One member's line of an EPFO ECR file, in whole rupees
+ */
+export interface EcrMember {
+  uan: string;
+  name: string;
+  grossWages: number;
+  epfWages: number;
+  epsWages: number;
+  edliWages: number;
+  /** Employee share */
+  epfContribution: number;
+  /** Employer share to the pension scheme */
+  epsContribution: number;
+  /** Rest of the employer share, to the provident fund */
+  epfEpsDifference: number;
+  /** Days in the wage month without wages */
+  ncpDays: number;
+  refundOfAdvances: number;
+}
+
+/**
+ * One insured person's row of an ESIC monthly contribution upload
+ */
+export interface EsicContribution {
+  ipNumber: string;
+  name: string;
+  daysPaid: number;
+  /** Whole rupees */
+  wages: number;
+  /** 0 normally; 2 = left service (with `lastWorkingDay`), 1 = on leave without pay, ... */
+  reasonCode: number;
+  /** DD/MM/YYYY, for members who left in the month */
+  lastWorkingDay: string;
+}
+
+/**
+ * On-chain amount in whole rupees, rounded half up
+ */
+export const toRupees = (amount: bigint): number => Number((amount + RUPEE_UNITS / BigInt(2)) / RUPEE_UNITS);
+
+/** A UAN is 12 digits */
+export const isValidUan = (uan: string): boolean => /^\d{12}$/.test(uan);
+
+/** A PAN is five letters, four digits and a letter, e.g. "ABCDE1234F" */
+export const isValidPan = (pan: string): boolean => /^[A-Z]{5}\d{4}[A-Z]$/.test(pan);
+
+/** An ESIC insurance (IP) number is 10 digits */
+export const isValidIpNumber = (ipNumber: string): boolean => /^\d{10}$/.test(ipNumber);
+
+/**
+ * A member's ECR line for a month, from their gross wages and the EPF that
+ * `calculate_deductions` took from them. EPF wages are recovered from that
+ * contribution (it is `epf_wages * epf_employee_rate / 10000`, capped by the
+ * registry's ceiling), and the employer's share is split into EPS and EPF.
+ */
+export const ecrMember = (
+  member: { uan: string; name: string; ncpDays: number },
+  grossWages: bigint,
+  epfEmployee: bigint,
+  rates: StatutoryRates
+): EcrMember => {
+  const epfWages =
+    rates.epfEmployeeRate > BigInt(0) ? (epfEmployee * BigInt(10_000)) / rates.epfEmployeeRate : BigInt(0);
+  const epsWages = epfWages < EPS_WAGE_CEILING ? epfWages : EPS_WAGE_CEILING;
+  const employerShare = toRupees((epfWages * rates.epfEmployerRate) / BigInt(10_000));
+  const epsContribution = toRupees((epsWages * EPS_RATE_BPS) / BigInt(10_000));
+  return {
+    uan: member.uan,
+    name: member.name,
+    grossWages: toRupees(grossWages),
+    epfWages: toRupees(epfWages),
+    epsWages: toRupees(epsWages),
+    edliWages: toRupees(epsWages),
+    epfContribution: toRupees(epfEmployee),
+    epsContribution,
+    epfEpsDifference: Math.max(0, employerShare - epsContribution),
+    ncpDays: member.ncpDays,
+    refundOfAdvances: 0,
+  };
+};
+
+/**
+ * ECR 2.0 text file: a line per member, fields separated by `#~#`
+ */
+export const formatEcrFile = (members: EcrMember[]): string =>
+  members
+    .map((member) =>
+      [
+        member.uan,
+        member.name.toUpperCase(),
+        member.grossWages,
+        member.epfWages,
+        member.epsWages,
+        member.edliWages,
+        member.epfContribution,
+        member.epsContribution,
+        member.epfEpsDifference,
+        member.ncpDays,
+        member.refundOfAdvances,
+      ].join("#~#")
+    )
+    .join("\n");
+
+/**
+ * Column headers of the ESIC monthly contribution upload template
+ */
+export const ESIC_UPLOAD_COLUMNS = [
+  "IP Number (10 Digits)",
+  "IP Name ( Only alphabets and space )",
+  "No of Days for which wages paid/payable during the month",
+  "Total Monthly Wages",
+  "Reason Code for Zero workings days(numeric only; provide 0 for all other reasons)",
+  "Last Working Day( Format DD/MM/YYYY  or DD-MM-YYYY)",
+] as const;
+
+/**
+ * An ESIC upload row, in the order of `ESIC_UPLOAD_COLUMNS`
+ */
+export const esicUploadRow = (contribution: EsicContribution): string[] => [
+  contribution.ipNumber,
+  contribution.name.replace(/[^A-Za-z ]/g, "").trim(),
+  String(contribution.daysPaid),
+  String(contribution.wages),
+  String(contribution.reasonCode),
+  contribution.lastWorkingDay,
+];
@@ -0,0 +1,188 @@
+/**
+ * Protocol Client - Core Types
+ *
+ * Structural payload and view types shared by every module binding. Nothing in
+ * this directory imports `@aptos-labs/ts-sdk`, so the same builders can be
+ * handed to whichever Aptos client the caller already has (SDK, wallet adapter,
+ * Node scripts).
+ */
+
+// ============================================
+// MOVE IDENTIFIERS
+// ============================================
+
+export type ModuleId = `${string}::${string}`;
+export type MoveFunctionId = `${string}::${string}::${string}`;
+
+/**
+ * Fully qualified module ids for the six protocol modules
+ */
+export interface ProtocolModules {
+  wageStreaming: ModuleId;
+  employerTreasury: ModuleId;
+  compliance: ModuleId;
+  disputes: ModuleId;
+  emergency: ModuleId;
+  photonRewards: ModuleId;
+}
+
+export type ProtocolModuleName = keyof ProtocolModules;
+
+export const DEFAULT_MODULE_NAMES: Record<ProtocolModuleName, string> = {
+  wageStreaming: "wage_streaming",
+  employerTreasury: "employer_treasury",
+  compliance: "compliance",
+  disputes: "disputes",
+  emergency: "emergency",
+  photonRewards: "photon_rewards",
+};
+
+/**
+ * Resolve module ids for a deployment, optionally overriding module names
+ */
+export const getProtocolModules = (
+  moduleAddress: string,
+  names: Partial<Record<ProtocolModuleName, string>> = {}
+): ProtocolModules => {
+  const resolve = (key: ProtocolModuleName): ModuleId =>
+    `${moduleAddress}::${names[key] || DEFAULT_MODULE_NAMES[key]}`;
+
+  return {
+    wageStreaming: resolve("wageStreaming"),
+    employerTreasury: resolve("employerTreasury"),
+    compliance: resolve("compliance"),
+    disputes: resolve("disputes"),
+    emergency: resolve("emergency"),
+    photonRewards: resolve("photonRewards"),
+  };
+};
+
+// ============================================
+// PAYLOADS
+// ============================================
+
+/**
+ * Argument accepted by entry and view functions (mirrors the ts-sdk simple argument types)
+ */
+export type MoveArgument =
+  | boolean
+  | number
+  | bigint
+  | string
+  | null
+  | undefined
+  | Uint8Array
+  | ArrayBuffer
+  | MoveArgument[];
+
+/**
+ * Numeric input for u64 arguments
+ */
+export type U64Input = number | bigint | string;
+
+export interface EntryFunctionPayload {
+  function: MoveFunctionId;
+  typeArguments?: string[];
+  functionArguments: MoveArgument[];
+}
+
+export interface ViewFunctionPayload {
+  function: MoveFunctionId;
+  typeArguments?: string[];
+  functionArguments: MoveArgument[];
+}
+
+/**
+ * A view call paired with the parser for its return tuple
+ */
+export interface ViewRequest<T> {
+  payload: ViewFunctionPayload;
+  parse: (result: unknown[]) => T;
+}
+
+/**
+ * Minimal client needed to execute view requests
+ */
+export interface ViewClient {
+  view(args: { payload: ViewFunctionPayload }): Promise<unknown[]>;
+}
+
+export const entryPayload = (
+  moduleId: ModuleId,
+  functionName: string,
+  functionArguments: MoveArgument[]
+): EntryFunctionPayload => ({
+  function: `${moduleId}::${functionName}`,
+  functionArguments,
+});
+
+export const viewRequest = <T>(
+  moduleId: ModuleId,
+  functionName: string,
+  functionArguments: MoveArgument[],
+  parse: (result: unknown[]) => T
+): ViewRequest<T> => ({
+  payload: {
+    function: `${moduleId}::${functionName}`,
+    functionArguments,
+  },
+  parse,
+});
+
+/**
+ * Execute a view request and parse its result
+ */
+export const executeView = async <T>(client: ViewClient, request: ViewRequest<T>): Promise<T> => {
+  const result = await client.view({ payload: request.payload });
+  return request.parse(result);
+};
+
+/**
+ * Re-parse the result of a view request, e.g. to turn a raw tuple into a named record
+ */
+export const mapView = <T, U>(request: ViewRequest<T>, map: (value: T) => U): ViewRequest<U> => ({
+  payload: request.payload,
+  parse: (result) => map(request.parse(result)),
+});
+
+/**
+ * Decoded result of a view request builder, e.g. `ViewResult<typeof getStreamInfo>`
+ */
+export type ViewResult<F extends (...args: never[]) => ViewRequest<unknown>> =
+  ReturnType<F> extends ViewRequest<infer T> ? T : never;
+
+// ============================================
+// VALUE HELPERS
+// ============================================
+
+/**
+ * Serialize a u64 argument (u64 values travel as decimal strings)
+ */
+export const u64 = (value: U64Input): string => BigInt(value).toString();
+
+/**
+ * Serialize a vector<u8> argument
+ */
+export const bytes = (value: Uint8Array | number[]): number[] => Array.from(value);
+
+export const toBigInt = (value: unknown): bigint => BigInt(value as string | number | bigint);
+
+export const toNumber = (value: unknown): number => Number(value);
+
+export const toBool = (value: unknown): boolean => value === true || value === "true";
+
+export const toAddress = (value: unknown): string => String(value);
+
+/**
+ * Decode an `Option<T>` view value (`{ vec: [] }` or `{ vec: [value] }`)
+ */
+export const toOption = <T>(value: unknown, decode: (inner: unknown) => T): T | null => {
+  const vec = (value as { vec?: unknown[] } | null)?.vec;
+  return vec && vec.length > 0 ? decode(vec[0]) : null;
+};
+
+/**
+ * Decode an `Object<T>` view value (`{ inner: address }`) to its address
+ */
+export const toObjectAddress = (value: unknown): string =>
+  typeof value === "object" && value !== null ? String((value as { inner: unknown }).inner) : String(value);
@@ -0,0 +1,138 @@
+import { Network } from "@aptos-labs/ts-sdk";
+import { WageProtocolSDK } from "../index.js";
+import { ProtocolSimulator } from "../simulator/index.js";
+import { RUPEE_UNITS, STATE_CODES, TAX_REGIME } from "./compliance.js";
+import { DEFAULT_STATUTORY_RATES, DeductionContext, computeDeductions } from "./deductions.js";
+import { normalizeAddress } from "./events.js";
+
+const rupees = (amount: number): bigint => BigInt(amount) * RUPEE_UNITS;
+
+const context = (
+  stateCode: number | null,
+  declaredAnnualIncome: number | null,
+  overrides: { epfMember?: boolean; esiEligible?: boolean } = {}
+): DeductionContext => ({
+  rates: DEFAULT_STATUTORY_RATES,
+  employer: stateCode === null ? null : { epfRegistered: true, esiRegistered: true, stateCode },
+  employee:
+    declaredAnnualIncome === null
+      ? null
+      : {
+          epfMember: true,
+          esiEligible: true,
+          declaredAnnualIncome: rupees(declaredAnnualIncome),
+          taxRegime: TAX_REGIME.NEW,
+          ...overrides,
+        },
+});
+
+// Expected values follow compliance::calculate_deductions: EPF 12% of wages up to
+// ₹15,000, ESI 0.75% of wages up to ₹21,000, TDS 5% / 20% / 30% by declared
+// income over ₹2.5L / ₹5L / ₹10L, and its flat professional tax per state
+describe("computeDeductions", () => {
+  it("deducts EPF on wages up to the ceiling, ESI, TDS and Maharashtra professional tax", () => {
+    const deductions = computeDeductions(context(STATE_CODES.MAHARASHTRA, 600_000), rupees(20_000));
+    expect(deductions).toMatchObject({
+      epf: rupees(1_800),
+      esi: rupees(150),
+      tds: rupees(4_000),
+      professionalTax: rupees(200),
+      netPayable: rupees(13_850),
+    });
+    expect(deductions.lines.map((line) => line.kind)).toEqual(["epf", "esi", "tds", "professionalTax"]);
+  });
+
+  it("applies the Karnataka threshold and the lowest TDS slab", () => {
+    expect(computeDeductions(context(STATE_CODES.KARNATAKA, 300_000), rupees(15_000))).toMatchObject({
+      epf: rupees(1_800),
+      esi: BigInt(11_250_000_000),
+      tds: rupees(750),
+      professionalTax: BigInt(0),
+      netPayable: BigInt(1_233_750_000_000),
+    });
+  });
+
+  it("stops ESI above its ceiling and uses the default professional tax elsewhere", () => {
+    expect(computeDeductions(context(STATE_CODES.GUJARAT, 1_200_000), rupees(25_000))).toMatchObject({
+      epf: rupees(1_800),
+      esi: BigInt(0),
+      tds: rupees(7_500),
+      professionalTax: rupees(150),
+      netPayable: rupees(15_550),
+    });
+  });
+
+  it("leaves out EPF and ESI the employee isn't covered by", () => {
+    const uncovered = context(STATE_CODES.MAHARASHTRA, 400_000, { epfMember: false, esiEligible: false });
+    expect(computeDeductions(uncovered, rupees(9_000))).toMatchObject({
+      epf: BigInt(0),
+      esi: BigInt(0),
+      tds: rupees(450),
+      professionalTax: rupees(175),
+      netPayable: rupees(8_375),
+    });
+  });
+
+  it("deducts only professional tax for unregistered employees and only TDS without a registered employer", () => {
+    expect(computeDeductions(context(STATE_CODES.MAHARASHTRA, null), rupees(9_000))).toMatchObject({
+      epf: BigInt(0),
+      esi: BigInt(0),
+      tds: BigInt(0),
+      professionalTax: rupees(175),
+      netPayable: rupees(8_825),
+    });
+    expect(computeDeductions(context(null, 400_000), rupees(9_000))).toMatchObject({
+      epf: BigInt(0),
+      esi: BigInt(0),
+      tds: rupees(450),
+      professionalTax: BigInt(0),
+      netPayable: rupees(8_550),
+    });
+    expect(computeDeductions(context(null, 250_000), rupees(9_000)).tds).toBe(BigInt(0));
+  });
+
+  it("rounds each deduction down in the registry's units", () => {
+    expect(computeDeductions(context(STATE_CODES.MAHARASHTRA, 600_000), BigInt(12_345_678_901))).toMatchObject({
+      epf: BigInt(1_481_481_468),
+      esi: BigInt(92_592_591),
+      tds: BigInt(2_469_135_780),
+      professionalTax: BigInt(0),
+      netPayable: BigInt(8_302_469_062),
+    });
+  });
+});
+
+describe("computeDeductions against calculate_deductions", () => {
+  const EMPLOYER = normalizeAddress("0xe1");
+  const hash = (byte: number) => new Uint8Array(32).fill(byte);
+  const GROSS_WAGES = [1, 7_500, 9_999, 10_001, 15_000, 15_001, 21_000, 21_001, 50_000].map(rupees);
+
+  it.each([
+    [STATE_CODES.MAHARASHTRA, 200_000, true],
+    [STATE_CODES.MAHARASHTRA, 480_000, false],
+    [STATE_CODES.KARNATAKA, 900_000, true],
+    [STATE_CODES.TAMIL_NADU, 2_400_000, true],
+  ])("matches the view for state %i and a declared income of ₹%i", async (stateCode, income, epfMember) => {
+    const simulator = new ProtocolSimulator({ moduleAddress: "0xcafe" });
+    const employee = normalizeAddress("0xe2");
+    simulator.fund(EMPLOYER, 1e8);
+    simulator.fund(employee, 1e8);
+    const sdk = new WageProtocolSDK({ network: Network.LOCAL, moduleAddress: "0xcafe", simulator });
+
+    await sdk.registerEmployer(hash(1), hash(2), hash(3), hash(4), stateCode, true, true, simulator.signer(EMPLOYER));
+    await sdk.registerEmployee(
+      hash(5),
+      hash(6),
+      hash(7),
+      hash(8),
+      TAX_REGIME.NEW,
+      rupees(income),
+      epfMember,
+      simulator.signer(employee)
+    );
+
+    const checks = await sdk.checkDeductions(EMPLOYER, employee, GROSS_WAGES);
+    expect(checks.flatMap((check) => check.mismatches)).toEqual([]);
+    expect(checks.map((check) => check.offline.netPayable)).toEqual(checks.map((check) => check.onChain.netPayable));
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * Protocol Client - Deductions
+ *
+ * A month's statutory deductions on a gross wage, computed offline and explained
+ * line by line. `computeDeductions` follows `compliance::calculate_deductions`
+ * exactly, so it returns what the view would for the same registry state: EPF on
+ * wages up to the EPF ceiling, ESI on wages up to the ESI ceiling, TDS at a flat
+ * rate chosen by declared annual income, and professional tax for Maharashtra,
+ * Karnataka or a default slab. `statutoryDeductions` keeps the EPF and ESI rules
+ * but deducts a twelfth of the year's tax under the employee's regime
+ * (`salaryTax`) and professional tax by the employer's state schedule
+ * (`PROFESSIONAL_TAX_SCHEDULES`). Amounts are in the registry's units (8 decimals
+ * of a rupee).
+ *
+ * @example
+ * ```typescript
+ * const context = await sdk.getDeductionContext(employer, employee);
+ * const deductions = computeDeductions(context, gross); // same as sdk.calculateDeductions
+ * deductions.lines.map((line) => line.explanation); // ["12% of ₹15,000 (the EPF wage ceiling)", ...]
+ * ```
+ */
+
+import type {
+  DeductionInfo,
+  EmployeeComplianceProfile,
+  EmployerComplianceProfile,
+  StatutoryRateSettings,
+} from "./compliance.js";
+import { RUPEE_UNITS, STATE_CODES, TAX_REGIME } from "./compliance.js";
+import { SalaryTaxInput, TaxSlab, salaryTax } from "./incomeTax.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * The registry state `calculate_deductions` reads
+ */
+export interface DeductionContext {
+  rates: Pick<StatutoryRateSettings, "epfEmployeeRate" | "esiEmployeeRate" | "epfCeiling" | "esiCeiling">;
+  /** null when the employer isn't registered with the compliance registry */
+  employer: Pick<EmployerComplianceProfile, "epfRegistered" | "esiRegistered" | "stateCode"> | null;
+  /** null when the employee isn't registered with the compliance registry */
+  employee: Pick<EmployeeComplianceProfile, "epfMember" | "esiEligible" | "declaredAnnualIncome" | "taxRegime"> | null;
+}
+
+export type DeductionKind = "epf" | "esi" | "tds" | "professionalTax";
+
+export interface DeductionLine {
+  kind: DeductionKind;
+  amount: bigint;
+  /** Why the amount is what it is, e.g. "0.75% of ₹18,000" */
+  explanation: string;
+}
+
+export interface DeductionBreakdown extends DeductionInfo {
+  grossWage: bigint;
+  /** One line per deduction, in the order of `DeductionInfo` */
+  lines: DeductionLine[];
+}
+
+export interface ProfessionalTaxSlab {
+  /** Wages in the period up to which the slab applies; null for the top slab */
+  upTo: bigint | null;
+  tax: bigint;
+  /** Tax in February instead, where the state makes up its yearly ₹2,500 there */
+  february?: bigint;
+}
+
+export interface ProfessionalTaxSchedule {
+  stateCode: number;
+  state: string;
+  /** Months of wages each assessment covers: 1, or 6 for Tamil Nadu's half-yearly tax */
+  periodMonths: number;
+  slabs: ProfessionalTaxSlab[];
+}
+
+export interface StatutoryDeductionOptions extends Pick<SalaryTaxInput, "investments80C" | "otherDeductions"> {
+  /** Starting year of the fiscal year the wage is paid in, e.g. 2026 for FY 2026-27 */
+  fiscalYear: number;
+  /** Month the wage is for (0-11, as `Date.getMonth`), for professional tax that differs in February */
+  month?: number;
+  /** Expected salary for the year; twelve times the wage by default */
+  annualSalary?: bigint;
+}
+
+// ============================================
+// SCHEDULES
+// ============================================
+
+const ZERO = BigInt(0);
+const BPS = BigInt(10_000);
+const rupees = (amount: number): bigint => BigInt(amount) * RUPEE_UNITS;
+
+/**
+ * The rates `compliance::initialize` sets, for estimates without reading the registry
+ */
+export const DEFAULT_STATUTORY_RATES: StatutoryRateSettings = {
+  epfEmployeeRate: BigInt(1_200),
+  epfEmployerRate: BigInt(1_200),
+  esiEmployeeRate: BigInt(75),
+  esiEmployerRate: BigInt(325),
+  esiCeiling: rupees(21_000),
+  epfCeiling: rupees(15_000),
+  lastUpdated: 0,
+};
+
+/** Article 276(2): professional tax is capped at ₹2,500 a year */
+export const PROFESSIONAL_TAX_ANNUAL_CAP = rupees(2_500);
+
+/**
+ * `calculate_tds`: the flat rate a wage is taxed at, by the slab the declared annual income falls in
+ */
+export const ONCHAIN_TDS_SLABS: TaxSlab[] = [
+  { upTo: rupees(250_000), rateBps: ZERO },
+  { upTo: rupees(500_000), rateBps: BigInt(500) },
+  { upTo: rupees(1_000_000), rateBps: BigInt(2_000) },
+  { upTo: null, rateBps: BigInt(3_000) },
+];
+
+/**
+ * `calculate_professional_tax`: Maharashtra and Karnataka by state code, every other code the default
+ */
+const ONCHAIN_PROFESSIONAL_TAX: Record<number, ProfessionalTaxSlab[]> = {
+  [STATE_CODES.MAHARASHTRA]: [
+    { upTo: rupees(7_500), tax: ZERO },
+    { upTo: rupees(10_000), tax: rupees(175) },
+    { upTo: null, tax: rupees(200) },
+  ],
+  [STATE_CODES.KARNATAKA]: [
+    { upTo: rupees(15_000), tax: ZERO },
+    { upTo: null, tax: rupees(200) },
+  ],
+};
+
+const ONCHAIN_DEFAULT_PROFESSIONAL_TAX: ProfessionalTaxSlab[] = [
+  { upTo: rupees(10_000), tax: ZERO },
+  { upTo: null, tax: rupees(150) },
+];
+
+/**
+ * Each state's professional tax on salaries, for men where the rates differ.
+ * `OTHER` covers states that don't levy it.
+ */
+export const PROFESSIONAL_TAX_SCHEDULES: ProfessionalTaxSchedule[] = [
+  {
+    stateCode: STATE_CODES.MAHARASHTRA,
+    state: "Maharashtra",
+    periodMonths: 1,
+    slabs: [
+      { upTo: rupees(7_500), tax: ZERO },
+      { upTo: rupees(10_000), tax: rupees(175) },
+      { upTo: null, tax: rupees(200), february: rupees(300) },
+    ],
+  },
+  {
+    stateCode: STATE_CODES.KARNATAKA,
+    state: "Karnataka",
+    periodMonths: 1,
+    slabs: [
+      { upTo: rupees(24_999), tax: ZERO },
+      { upTo: null, tax: rupees(200), february: rupees(300) },
+    ],
+  },
+  {
+    stateCode: STATE_CODES.WEST_BENGAL,
+    state: "West Bengal",
+    periodMonths: 1,
+    slabs: [
+      { upTo: rupees(10_000), tax: ZERO },
+      { upTo: rupees(15_000), tax: rupees(110) },
+      { upTo: rupees(25_000), tax: rupees(130) },
+      { upTo: rupees(40_000), tax: rupees(150) },
+      { upTo: null, tax: rupees(200) },
+    ],
+  },
+  {
+    stateCode: STATE_CODES.ANDHRA_PRADESH,
+    state: "Andhra Pradesh",
+    periodMonths: 1,
+    slabs: [
+      { upTo: rupees(15_000), tax: ZERO },
+      { upTo: rupees(20_000), tax: rupees(150) },
+      { upTo: null, tax: rupees(200) },
+    ],
+  },
+  {
+    stateCode: STATE_CODES.TELANGANA,
+    state: "Telangana",
+    periodMonths: 1,
+    slabs: [
+      { upTo: rupees(15_000), tax: ZERO },
+      { upTo: rupees(20_000), tax: rupees(150) },
+      { upTo: null, tax: rupees(200) },
+    ],
+  },
+  {
+    stateCode: STATE_CODES.TAMIL_NADU,
+    state: "Tamil Nadu",
+    periodMonths: 6,
+    slabs: [
+      { upTo: rupees(21_000), tax: ZERO },
+      { upTo: rupees(30_000), tax: rupees(180) },
+      { upTo: rupees(45_000), tax: rupees(425) },
+      { upTo: rupees(60_000), tax: rupees(930) },
+      { upTo: rupees(75_000), tax: rupees(1_025) },
+      { upTo: null, tax: rupees(1_250) },
+    ],
+  },
+  {
+    stateCode: STATE_CODES.GUJARAT,
+    state: "Gujarat",
+    periodMonths: 1,
+    slabs: [
+      { upTo: rupees(11_999), tax: ZERO },
+      { upTo: null, tax: rupees(200) },
+    ],
+  },
+  {
+    stateCode: STATE_CODES.OTHER,
+    state: "Other",
+    periodMonths: 1,
+    slabs: [{ upTo: null, tax: ZERO }],
+  },
+];
+
+/**
+ * A state's schedule; `OTHER` for codes without one
+ */
+export const professionalTaxSchedule = (stateCode: number): ProfessionalTaxSchedule =>
+  PROFESSIONAL_TAX_SCHEDULES.find((schedule) => schedule.stateCode === stateCode) ??
+  PROFESSIONAL_TAX_SCHEDULES[PROFESSIONAL_TAX_SCHEDULES.length - 1];
+
+// ============================================
+// HELPERS
+// ============================================
+
+const FEBRUARY = 1;
+
+const formatRupees = (amount: bigint): string =>
+  `₹${(Number(amount) / Number(RUPEE_UNITS)).toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+const formatBps = (bps: bigint): string => `${Number(bps) / 100}%`;
+
+const regimeName = (regime: number): string => (regime === TAX_REGIME.OLD ? "old" : "new");
+
+const slabFor = <T extends { upTo: bigint | null }>(amount: bigint, slabs: T[]): T =>
+  slabs.find((slab) => slab.upTo === null || amount <= slab.upTo) ?? slabs[slabs.length - 1];
+
+const line = (kind: DeductionKind, amount: bigint, explanation: string): DeductionLine => ({
+  kind,
+  amount,
+  explanation,
+});
+
+const breakdown = (grossWage: bigint, lines: DeductionLine[]): DeductionBreakdown => {
+  const amountOf = (kind: DeductionKind) => lines.find((entry) => entry.kind === kind)?.amount ?? ZERO;
+  const [epf, esi, tds, professionalTax] = [
+    amountOf("epf"),
+    amountOf("esi"),
+    amountOf("tds"),
+    amountOf("professionalTax"),
+  ];
+  return {
+    grossWage,
+    epf,
+    esi,
+    tds,
+    professionalTax,
+    netPayable: grossWage - epf - esi - tds - professionalTax,
+    lines,
+  };
+};
+
+const epfLine = (context: DeductionContext, grossWage: bigint): DeductionLine => {
+  const { rates, employer, employee } = context;
+  if (!employer?.epfRegistered) return line("epf", ZERO, "Employer isn't registered for EPF");
+  if (!employee) return line("epf", ZERO, "Employee isn't registered for compliance");
+  if (!employee.epfMember) return line("epf", ZERO, "Employee isn't an EPF member");
+
+  const capped = grossWage > rates.epfCeiling;
+  const base = capped ? rates.epfCeiling : grossWage;
+  const amount = (base * rates.epfEmployeeRate) / BPS;
+  const ofWhat = capped ? `${formatRupees(base)} (the EPF wage ceiling)` : formatRupees(base);
+  return line("epf", amount, `${formatBps(rates.epfEmployeeRate)} of ${ofWhat}`);
+};
+
+const esiLine = (context: DeductionContext, grossWage: bigint): DeductionLine => {
+  const { rates, employer, employee } = context;
+  if (!employer?.esiRegistered) return line("esi", ZERO, "Employer isn't registered for ESI");
+  if (!employee) return line("esi", ZERO, "Employee isn't registered for compliance");
+  if (!employee.esiEligible) return line("esi", ZERO, "Employee isn't eligible for ESI");
+  if (grossWage > rates.esiCeiling) {
+    return line("esi", ZERO, `Wage is above the ${formatRupees(rates.esiCeiling)} ESI ceiling`);
+  }
+  return line(
+    "esi",
+    (grossWage * rates.esiEmployeeRate) / BPS,
+    `${formatBps(rates.esiEmployeeRate)} of ${formatRupees(grossWage)}`
+  );
+};
+
+const slabRange = (slabs: ProfessionalTaxSlab[], slab: ProfessionalTaxSlab): string => {
+  if (slab.upTo !== null) return `up to ${formatRupees(slab.upTo)}`;
+  const below = slabs[slabs.indexOf(slab) - 1];
+  return below?.upTo ? `above ${formatRupees(below.upTo)}` : "of any amount";
+};
+
+const professionalTaxLine = (slabs: ProfessionalTaxSlab[], grossWage: bigint, label: string): DeductionLine => {
+  const slab = slabFor(grossWage, slabs);
+  return line("professionalTax", slab.tax, `${label}, monthly wage ${slabRange(slabs, slab)}`);
+};
+
+// ============================================
+// ON-CHAIN
+// ============================================
+
+/**
+ * `calculate_tds`'s flat rate for a declared annual income
+ */
+export const onChainTdsRate = (declaredAnnualIncome: bigint): bigint =>
+  slabFor(declaredAnnualIncome, ONCHAIN_TDS_SLABS).rateBps;
+
+/**
+ * `calculate_professional_tax` on a monthly wage
+ */
+export const onChainProfessionalTax = (monthlyWage: bigint, stateCode: number): bigint =>
+  slabFor(monthlyWage, ONCHAIN_PROFESSIONAL_TAX[stateCode] ?? ONCHAIN_DEFAULT_PROFESSIONAL_TAX).tax;
+
+/**
+ * Deductions on a month's gross wage, as `calculate_deductions` computes them
+ */
+export const computeDeductions = (context: DeductionContext, grossWage: bigint): DeductionBreakdown => {
+  const { employer, employee } = context;
+
+  const tdsRate = employee ? onChainTdsRate(employee.declaredAnnualIncome) : ZERO;
+  const tds = employee
+    ? line(
+        "tds",
+        (grossWage * tdsRate) / BPS,
+        `${formatBps(tdsRate)} flat, for a declared income of ${formatRupees(employee.declaredAnnualIncome)}`
+      )
+    : line("tds", ZERO, "Employee isn't registered for compliance");
+
+  const professionalTax = employer
+    ? professionalTaxLine(
+        ONCHAIN_PROFESSIONAL_TAX[employer.stateCode] ?? ONCHAIN_DEFAULT_PROFESSIONAL_TAX,
+        grossWage,
+        ONCHAIN_PROFESSIONAL_TAX[employer.stateCode]
+          ? professionalTaxSchedule(employer.stateCode).state
+          : "Default rate"
+      )
+    : line("professionalTax", ZERO, "Employer isn't registered for compliance");
+
+  return breakdown(grossWage, [epfLine(context, grossWage), esiLine(context, grossWage), tds, professionalTax]);
+};
+
+/**
+ * Fields where two sets of deductions differ, e.g. an offline computation and the view
+ */
+export const deductionMismatches = (expected: DeductionInfo, actual: DeductionInfo): (keyof DeductionInfo)[] =>
+  (["epf", "esi", "tds", "professionalTax", "netPayable"] as const).filter((key) => expected[key] !== actual[key]);
+
+// ============================================
+// STATUTORY
+// ============================================
+
+/**
+ * A state's professional tax on a monthly wage; a sixth of the half-yearly tax where the state assesses half-years
+ */
+export const monthlyProfessionalTax = (stateCode: number, monthlyWage: bigint, month?: number): bigint => {
+  const schedule = professionalTaxSchedule(stateCode);
+  const slab = slabFor(monthlyWage * BigInt(schedule.periodMonths), schedule.slabs);
+  const tax = month === FEBRUARY && slab.february !== undefined ? slab.february : slab.tax;
+  return tax / BigInt(schedule.periodMonths);
+};
+
+/**
+ * A year's professional tax on a steady monthly wage, within the annual cap
+ */
+export const annualProfessionalTax = (stateCode: number, monthlyWage: bigint): bigint => {
+  let total = ZERO;
+  for (let month = 0; month < 12; month++) total += monthlyProfessionalTax(stateCode, monthlyWage, month);
+  return total < PROFESSIONAL_TAX_ANNUAL_CAP ? total : PROFESSIONAL_TAX_ANNUAL_CAP;
+};
+
+/**
+ * Deductions on a month's gross wage under the statutes rather than the contract:
+ * TDS is a twelfth of the year's tax under the employee's regime and professional
+ * tax follows the employer's state schedule
+ */
+export const statutoryDeductions = (
+  context: DeductionContext,
+  grossWage: bigint,
+  options: StatutoryDeductionOptions
+): DeductionBreakdown => {
+  const { employer, employee } = context;
+  const epf = epfLine(context, grossWage);
+
+  const schedule = employer ? professionalTaxSchedule(employer.stateCode) : null;
+  let professionalTax = line("professionalTax", ZERO, "Employer isn't registered for compliance");
+  if (schedule) {
+    const slab = slabFor(grossWage * BigInt(schedule.periodMonths), schedule.slabs);
+    const range = slabRange(schedule.slabs, slab);
+    professionalTax = line(
+      "professionalTax",
+      monthlyProfessionalTax(schedule.stateCode, grossWage, options.month),
+      schedule.periodMonths === 1
+        ? `${schedule.state}, monthly wage ${range}`
+        : `${schedule.state}, a sixth of the tax on half-yearly wages ${range}`
+    );
+  }
+
+  let tds = line("tds", ZERO, "Employee isn't registered for compliance");
+  if (employee) {
+    const annualSalary = options.annualSalary ?? grossWage * BigInt(12);
+    const tax = salaryTax({
+      fiscalYear: options.fiscalYear,
+      regime: employee.taxRegime,
+      grossSalary: annualSalary,
+      professionalTax: schedule ? annualProfessionalTax(schedule.stateCode, grossWage) : ZERO,
+      employeeEpf: epf.amount * BigInt(12),
+      investments80C: options.investments80C,
+      otherDeductions: options.otherDeductions,
+    });
+    tds = line(
+      "tds",
+      tax.totalTax / BigInt(12),
+      `A twelfth of ${formatRupees(tax.totalTax)} tax under the ${regimeName(employee.taxRegime)} regime ` +
+        `on ${formatRupees(annualSalary)} a year`
+    );
+  }
+
+  return breakdown(grossWage, [epf, esiLine(context, grossWage), tds, professionalTax]);
+};
@@ -0,0 +1,478 @@
+/**
+ * Protocol Client - disputes bindings
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  ViewResult,
+  U64Input,
+  mapView,
+  toBigInt,
+  toNumber,
+  toAddress,
+} from "./core.js";
+import { eventDefinition } from "./events.js";
+import * as abi from "./generated/disputes.js";
+
+// ============================================
+// TYPES & CONSTANTS
+// ============================================
+
+export interface DisputeInfo {
+  disputeId: bigint;
+  employer: string;
+  employee: string;
+  category: number;
+  status: number;
+  disputedAmount: bigint;
+  escrowAmount: bigint;
+  resolvedAt: number;
+  arbitrator: string;
+}
+
+export interface ResolutionInfo {
+  outcome: number;
+  awardedToEmployee: bigint;
+  returnedToEmployer: bigint;
+  arbitrator: string;
+  resolvedAt: number;
+}
+
+export interface DisputeStats {
+  totalDisputes: bigint;
+  openDisputes: bigint;
+  totalDisputedAmount: bigint;
+  totalResolvedAmount: bigint;
+}
+
+export const DISPUTE_STATUS = {
+  OPENED: 0,
+  EVIDENCE_SUBMISSION: 1,
+  MEDIATION: 2,
+  ARBITRATION: 3,
+  RESOLVED: 4,
+  APPEALED: 5,
+  FINAL: 6,
+  CANCELLED: 7,
+} as const;
+
+export const DISPUTE_CATEGORY = {
+  WAGE_AMOUNT: 0,
+  PAYMENT_TIMING: 1,
+  DEDUCTIONS: 2,
+  OVERTIME: 3,
+  BONUS: 4,
+  TERMINATION: 5,
+  OTHER: 6,
+} as const;
+
+export const RESOLUTION_OUTCOME = {
+  EMPLOYER_FAVOR: 0,
+  EMPLOYEE_FAVOR: 1,
+  SPLIT_DECISION: 2,
+  DISMISSED: 3,
+} as const;
+
+export const EVIDENCE_TYPE = {
+  DOCUMENT: 0,
+  TRANSACTION_HASH: 1,
+  WITNESS_STATEMENT: 2,
+  AUDIT_TRAIL: 3,
+} as const;
+
+// ============================================
+// VIEW PARSERS
+// ============================================
+
+export const parseDisputeInfo = (result: ViewResult<typeof abi.getDispute>): DisputeInfo => {
+  const [disputeId, employer, employee, category, status, disputedAmount, escrowAmount, resolvedAt, arbitrator] =
+    result;
+
+  return {
+    disputeId,
+    employer,
+    employee,
+    category,
+    status,
+    disputedAmount,
+    escrowAmount,
+    resolvedAt: Number(resolvedAt),
+    arbitrator,
+  };
+};
+
+export const parseResolutionInfo = (result: ViewResult<typeof abi.getResolution>): ResolutionInfo => {
+  const [outcome, awardedToEmployee, returnedToEmployer, arbitrator, resolvedAt] = result;
+
+  return {
+    outcome,
+    awardedToEmployee,
+    returnedToEmployer,
+    arbitrator,
+    resolvedAt: Number(resolvedAt),
+  };
+};
+
+export const parseDisputeStats = (result: ViewResult<typeof abi.getDisputeStats>): DisputeStats => {
+  const [totalDisputes, openDisputes, totalDisputedAmount, totalResolvedAmount] = result;
+
+  return {
+    totalDisputes,
+    openDisputes,
+    totalDisputedAmount,
+    totalResolvedAmount,
+  };
+};
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+export const getDisputeView = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input
+): ViewRequest<DisputeInfo> =>
+  mapView(abi.getDispute(modules, registryAddr, disputeId), parseDisputeInfo);
+
+export const getResolutionView = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input
+): ViewRequest<ResolutionInfo> =>
+  mapView(abi.getResolution(modules, registryAddr, disputeId), parseResolutionInfo);
+
+export const getDisputeStatsView = (modules: ProtocolModules, registryAddr: string): ViewRequest<DisputeStats> =>
+  mapView(abi.getDisputeStats(modules, registryAddr), parseDisputeStats);
+
+export const disputeExistsView = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input
+): ViewRequest<boolean> =>
+  abi.disputeExists(modules, registryAddr, disputeId);
+
+export const getEvidenceCountView = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input
+): ViewRequest<bigint> =>
+  abi.getEvidenceCount(modules, registryAddr, disputeId);
+
+export const getActiveArbitratorsCountView = (
+  modules: ProtocolModules,
+  registryAddr: string
+): ViewRequest<bigint> =>
+  abi.getActiveArbitratorsCount(modules, registryAddr);
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Initialize the dispute registry (protocol admin)
+ */
+export const initializeDisputeSystemPayload = (
+  modules: ProtocolModules,
+  feeCollector: string,
+  protocolFeeBps: U64Input
+): EntryFunctionPayload =>
+  abi.initializeDisputeSystem(modules, feeCollector, protocolFeeBps);
+
+/**
+ * Open a dispute against a stream (employer or employee)
+ */
+export const openDisputePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input,
+  respondent: string,
+  employer: string,
+  employee: string,
+  category: number,
+  disputedAmount: U64Input,
+  title: string,
+  description: string
+): EntryFunctionPayload =>
+  abi.openDispute(
+    modules,
+    registryAddr,
+    streamId,
+    respondent,
+    employer,
+    employee,
+    category,
+    disputedAmount,
+    title,
+    description
+  );
+
+/**
+ * Submit evidence for a dispute (either party)
+ */
+export const submitEvidencePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input,
+  evidenceType: number,
+  contentHash: string,
+  description: string
+): EntryFunctionPayload =>
+  abi.submitEvidence(modules, registryAddr, disputeId, evidenceType, contentHash, description);
+
+/**
+ * Lock the disputed amount in escrow (employer)
+ */
+export const lockEscrowPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input,
+  tokenMetadata: string,
+  amount: U64Input
+): EntryFunctionPayload =>
+  abi.lockEscrow(modules, registryAddr, disputeId, tokenMetadata, amount);
+
+/**
+ * Move a dispute from evidence submission to mediation
+ */
+export const advanceToMediationPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input
+): EntryFunctionPayload =>
+  abi.advanceToMediation(modules, registryAddr, disputeId);
+
+/**
+ * Escalate a dispute in mediation to arbitration (either party)
+ */
+export const requestArbitrationPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input
+): EntryFunctionPayload =>
+  abi.requestArbitration(modules, registryAddr, disputeId);
+
+/**
+ * Assign a registered arbitrator to a dispute (protocol admin)
+ */
+export const assignArbitratorPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input,
+  arbitrator: string
+): EntryFunctionPayload =>
+  abi.assignArbitrator(modules, registryAddr, disputeId, arbitrator);
+
+/**
+ * Resolve a dispute (assigned arbitrator)
+ */
+export const resolveDisputePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input,
+  outcome: number,
+  employeeAward: U64Input,
+  employerReturn: U64Input,
+  resolutionHash: string
+): EntryFunctionPayload =>
+  abi.resolveDispute(modules, registryAddr, disputeId, outcome, employeeAward, employerReturn, resolutionHash);
+
+/**
+ * Appeal a resolution within the appeal window (either party)
+ */
+export const fileAppealPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input,
+  reason: string
+): EntryFunctionPayload =>
+  abi.fileAppeal(modules, registryAddr, disputeId, reason);
+
+/**
+ * Finalize a resolved dispute once the appeal window has passed
+ */
+export const finalizeDisputePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input
+): EntryFunctionPayload =>
+  abi.finalizeDispute(modules, registryAddr, disputeId);
+
+/**
+ * Release escrowed funds according to the final resolution
+ */
+export const releaseEscrowPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input
+): EntryFunctionPayload =>
+  abi.releaseEscrow(modules, registryAddr, disputeId);
+
+/**
+ * Cancel a dispute before arbitration (initiator)
+ */
+export const cancelDisputePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  disputeId: U64Input
+): EntryFunctionPayload =>
+  abi.cancelDispute(modules, registryAddr, disputeId);
+
+/**
+ * Register an arbitrator (protocol admin)
+ */
+export const registerArbitratorPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  arbitrator: string,
+  name: string,
+  credentials: string,
+  specialties: U64Input
+): EntryFunctionPayload =>
+  abi.registerArbitrator(modules, registryAddr, arbitrator, name, credentials, specialties);
+
+/**
+ * Deactivate an arbitrator (protocol admin)
+ */
+export const deactivateArbitratorPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  arbitrator: string
+): EntryFunctionPayload =>
+  abi.deactivateArbitrator(modules, registryAddr, arbitrator);
+
+// ============================================
+// EVENTS
+// ============================================
+
+export interface DisputeOpenedEvent {
+  disputeId: bigint;
+  streamId: number;
+  initiator: string;
+  respondent: string;
+  category: number;
+  disputedAmount: bigint;
+  openedAt: number;
+}
+
+export interface EvidenceSubmittedEvent {
+  disputeId: bigint;
+  evidenceId: bigint;
+  submittedBy: string;
+  evidenceType: number;
+  contentHash: string;
+  submittedAt: number;
+}
+
+export interface DisputeStatusChangedEvent {
+  disputeId: bigint;
+  oldStatus: number;
+  newStatus: number;
+  changedAt: number;
+  changedBy: string;
+}
+
+export interface EscrowLockedEvent {
+  disputeId: bigint;
+  lockedAmount: bigint;
+  employerContribution: bigint;
+  employeeContribution: bigint;
+  lockedAt: number;
+}
+
+export interface ArbitratorAssignedEvent {
+  disputeId: bigint;
+  arbitrator: string;
+  assignedAt: number;
+}
+
+export interface DisputeResolvedEvent {
+  disputeId: bigint;
+  outcome: number;
+  employeeAward: bigint;
+  employerReturn: bigint;
+  arbitrator: string;
+  resolvedAt: number;
+}
+
+export interface AppealFiledEvent {
+  disputeId: bigint;
+  appellant: string;
+  appealNumber: number;
+  appealFee: bigint;
+  filedAt: number;
+}
+
+export interface EscrowReleasedEvent {
+  disputeId: bigint;
+  toEmployee: bigint;
+  toEmployer: bigint;
+  feesCollected: bigint;
+  releasedAt: number;
+}
+
+/**
+ * Module events (`#[event]`) emitted by the disputes module
+ */
+export const EVENTS = {
+  disputeOpened: eventDefinition("disputes", "DisputeOpened", (data): DisputeOpenedEvent => ({
+    disputeId: toBigInt(data.dispute_id),
+    streamId: toNumber(data.stream_id),
+    initiator: toAddress(data.initiator),
+    respondent: toAddress(data.respondent),
+    category: toNumber(data.category),
+    disputedAmount: toBigInt(data.disputed_amount),
+    openedAt: toNumber(data.opened_at),
+  })),
+  evidenceSubmitted: eventDefinition("disputes", "EvidenceSubmitted", (data): EvidenceSubmittedEvent => ({
+    disputeId: toBigInt(data.dispute_id),
+    evidenceId: toBigInt(data.evidence_id),
+    submittedBy: toAddress(data.submitted_by),
+    evidenceType: toNumber(data.evidence_type),
+    contentHash: String(data.content_hash),
+    submittedAt: toNumber(data.submitted_at),
+  })),
+  statusChanged: eventDefinition("disputes", "DisputeStatusChanged", (data): DisputeStatusChangedEvent => ({
+    disputeId: toBigInt(data.dispute_id),
+    oldStatus: toNumber(data.old_status),
+    newStatus: toNumber(data.new_status),
+    changedAt: toNumber(data.changed_at),
+    changedBy: toAddress(data.changed_by),
+  })),
+  escrowLocked: eventDefinition("disputes", "EscrowLocked", (data): EscrowLockedEvent => ({
+    disputeId: toBigInt(data.dispute_id),
+    lockedAmount: toBigInt(data.locked_amount),
+    employerContribution: toBigInt(data.employer_contribution),
+    employeeContribution: toBigInt(data.employee_contribution),
+    lockedAt: toNumber(data.locked_at),
+  })),
+  arbitratorAssigned: eventDefinition("disputes", "ArbitratorAssigned", (data): ArbitratorAssignedEvent => ({
+    disputeId: toBigInt(data.dispute_id),
+    arbitrator: toAddress(data.arbitrator),
+    assignedAt: toNumber(data.assigned_at),
+  })),
+  disputeResolved: eventDefinition("disputes", "DisputeResolved", (data): DisputeResolvedEvent => ({
+    disputeId: toBigInt(data.dispute_id),
+    outcome: toNumber(data.outcome),
+    employeeAward: toBigInt(data.employee_award),
+    employerReturn: toBigInt(data.employer_return),
+    arbitrator: toAddress(data.arbitrator),
+    resolvedAt: toNumber(data.resolved_at),
+  })),
+  appealFiled: eventDefinition("disputes", "AppealFiled", (data): AppealFiledEvent => ({
+    disputeId: toBigInt(data.dispute_id),
+    appellant: toAddress(data.appellant),
+    appealNumber: toNumber(data.appeal_number),
+    appealFee: toBigInt(data.appeal_fee),
+    filedAt: toNumber(data.filed_at),
+  })),
+  escrowReleased: eventDefinition("disputes", "EscrowReleased", (data): EscrowReleasedEvent => ({
+    disputeId: toBigInt(data.dispute_id),
+    toEmployee: toBigInt(data.to_employee),
+    toEmployer: toBigInt(data.to_employer),
+    feesCollected: toBigInt(data.fees_collected),
+    releasedAt: toNumber(data.released_at),
+  })),
+};
@@ -0,0 +1,424 @@
+/**
+ * Protocol Client - emergency bindings
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  ViewResult,
+  U64Input,
+  mapView,
+  toBigInt,
+  toNumber,
+  toAddress,
+} from "./core.js";
+import { eventDefinition } from "./events.js";
+import * as abi from "./generated/emergency.js";
+
+// ============================================
+// TYPES & CONSTANTS
+// ============================================
+
+export interface SystemState {
+  currentState: number;
+  stateChangedAt: number;
+  stateChangedBy: string;
+  pauseExpiresAt: number;
+}
+
+export const SYSTEM_STATE = {
+  NORMAL: 0,
+  PAUSED: 1,
+  EMERGENCY: 2,
+  MAINTENANCE: 3,
+  DEPRECATED: 4,
+} as const;
+
+export const ROLE = {
+  SUPER_ADMIN: 0,
+  ADMIN: 1,
+  OPERATOR: 2,
+  PAUSER: 3,
+  UPGRADER: 4,
+} as const;
+
+export const MODULE_INDEX = {
+  WAGE_STREAMING: 0,
+  TREASURY: 1,
+  COMPLIANCE: 2,
+  DISPUTES: 3,
+} as const;
+
+export const ACTION_TYPE = {
+  PAUSE: 0,
+  UNPAUSE: 1,
+  EMERGENCY_PAUSE: 2,
+  UPGRADE: 3,
+  CONFIG_CHANGE: 4,
+  ROLE_GRANT: 5,
+  ROLE_REVOKE: 6,
+  FUND_RECOVERY: 7,
+} as const;
+
+// ============================================
+// VIEW PARSERS
+// ============================================
+
+export const parseSystemState = (result: ViewResult<typeof abi.getSystemState>): SystemState => {
+  const [currentState, stateChangedAt, stateChangedBy, pauseExpiresAt] = result;
+
+  return {
+    currentState,
+    stateChangedAt: Number(stateChangedAt),
+    stateChangedBy,
+    pauseExpiresAt: Number(pauseExpiresAt),
+  };
+};
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+export const getSystemStateView = (modules: ProtocolModules, registryAddr: string): ViewRequest<SystemState> =>
+  mapView(abi.getSystemState(modules, registryAddr), parseSystemState);
+
+export const isSystemPausedView = (modules: ProtocolModules, registryAddr: string): ViewRequest<boolean> =>
+  abi.isSystemPaused(modules, registryAddr);
+
+export const isModulePausedView = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  moduleIndex: number
+): ViewRequest<boolean> =>
+  abi.isModulePaused(modules, registryAddr, moduleIndex);
+
+export const hasRoleView = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  holder: string,
+  role: number
+): ViewRequest<boolean> =>
+  abi.hasRole(modules, registryAddr, holder, role);
+
+export const getAdminCountView = (modules: ProtocolModules, registryAddr: string): ViewRequest<bigint> =>
+  abi.getAdminCount(modules, registryAddr);
+
+export const isUpgradePendingView = (modules: ProtocolModules, registryAddr: string): ViewRequest<boolean> =>
+  abi.isUpgradePending(modules, registryAddr);
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Initialize the emergency system with the signer as super admin
+ */
+export const initializeEmergencySystemPayload = (
+  modules: ProtocolModules,
+  emergencyContacts: string[]
+): EntryFunctionPayload =>
+  abi.initializeEmergencySystem(modules, emergencyContacts);
+
+/**
+ * Pause the entire system, 0 duration pauses indefinitely (pauser)
+ */
+export const pauseSystemPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  reason: string,
+  durationSeconds: U64Input
+): EntryFunctionPayload =>
+  abi.pauseSystem(modules, registryAddr, reason, durationSeconds);
+
+/**
+ * Unpause the system (pauser)
+ */
+export const unpauseSystemPayload = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  abi.unpauseSystem(modules, registryAddr);
+
+/**
+ * Enter emergency state (admin or emergency contact)
+ */
+export const triggerEmergencyPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  reason: string
+): EntryFunctionPayload =>
+  abi.triggerEmergency(modules, registryAddr, reason);
+
+/**
+ * Leave emergency state (super admin)
+ */
+export const resolveEmergencyPayload = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  abi.resolveEmergency(modules, registryAddr);
+
+/**
+ * Pause a single protocol module (pauser)
+ */
+export const pauseModulePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  moduleIndex: number,
+  reason: string
+): EntryFunctionPayload =>
+  abi.pauseModule(modules, registryAddr, moduleIndex, reason);
+
+/**
+ * Unpause a single protocol module (pauser)
+ */
+export const unpauseModulePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  moduleIndex: number
+): EntryFunctionPayload =>
+  abi.unpauseModule(modules, registryAddr, moduleIndex);
+
+/**
+ * Grant a role, 0 expiry never expires (admin)
+ */
+export const grantRolePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  holder: string,
+  role: number,
+  expiresAt: U64Input
+): EntryFunctionPayload =>
+  abi.grantRole(modules, registryAddr, holder, role, expiresAt);
+
+/**
+ * Revoke a role (admin)
+ */
+export const revokeRolePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  holder: string,
+  role: number
+): EntryFunctionPayload =>
+  abi.revokeRole(modules, registryAddr, holder, role);
+
+/**
+ * Propose a multi-sig action (admin)
+ */
+export const proposeActionPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  actionType: number,
+  actionHash: string,
+  description: string,
+  validitySeconds: U64Input
+): EntryFunctionPayload =>
+  abi.proposeAction(modules, registryAddr, actionType, actionHash, description, validitySeconds);
+
+/**
+ * Approve a pending multi-sig action (admin)
+ */
+export const approveActionPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  actionId: U64Input
+): EntryFunctionPayload =>
+  abi.approveAction(modules, registryAddr, actionId);
+
+/**
+ * Execute an approved multi-sig action (admin)
+ */
+export const executeActionPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  actionId: U64Input
+): EntryFunctionPayload =>
+  abi.executeAction(modules, registryAddr, actionId);
+
+/**
+ * Propose a contract upgrade (upgrader)
+ */
+export const proposeUpgradePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  newVersionHash: string,
+  description: string
+): EntryFunctionPayload =>
+  abi.proposeUpgrade(modules, registryAddr, newVersionHash, description);
+
+/**
+ * Cancel a pending upgrade (upgrader)
+ */
+export const cancelUpgradePayload = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  abi.cancelUpgrade(modules, registryAddr);
+
+// ============================================
+// EVENTS
+// ============================================
+
+export interface SystemStateChangedEvent {
+  oldState: number;
+  newState: number;
+  changedBy: string;
+  reason: string;
+  changedAt: number;
+  expiresAt: number;
+}
+
+export interface ModulePausedEvent {
+  moduleName: string;
+  pausedBy: string;
+  reason: string;
+  pausedAt: number;
+}
+
+export interface ModuleUnpausedEvent {
+  moduleName: string;
+  unpausedBy: string;
+  unpausedAt: number;
+}
+
+export interface RoleGrantedEvent {
+  holder: string;
+  role: number;
+  grantedBy: string;
+  grantedAt: number;
+  expiresAt: number;
+}
+
+export interface RoleRevokedEvent {
+  holder: string;
+  role: number;
+  revokedBy: string;
+  revokedAt: number;
+}
+
+export interface EmergencyTriggeredEvent {
+  triggeredBy: string;
+  reason: string;
+  triggeredAt: number;
+}
+
+export interface ActionProposedEvent {
+  actionId: bigint;
+  actionType: number;
+  proposer: string;
+  description: string;
+  requiredApprovals: number;
+  proposedAt: number;
+}
+
+export interface ActionApprovedEvent {
+  actionId: bigint;
+  approver: string;
+  currentApprovals: number;
+  requiredApprovals: number;
+  approvedAt: number;
+}
+
+export interface ActionExecutedEvent {
+  actionId: bigint;
+  actionType: number;
+  executor: string;
+  executedAt: number;
+}
+
+export interface UpgradeProposedEvent {
+  upgradeId: bigint;
+  newVersionHash: string;
+  proposer: string;
+  executableAfter: number;
+  proposedAt: number;
+}
+
+export interface UpgradeExecutedEvent {
+  upgradeId: bigint;
+  newVersionHash: string;
+  executor: string;
+  executedAt: number;
+}
+
+export interface FundRecoveryInitiatedEvent {
+  recoveryAddress: string;
+  amount: bigint;
+  initiatedBy: string;
+  initiatedAt: number;
+}
+
+/**
+ * Module events (`#[event]`) emitted by the emergency module
+ */
+export const EVENTS = {
+  systemStateChanged: eventDefinition("emergency", "SystemStateChanged", (data): SystemStateChangedEvent => ({
+    oldState: toNumber(data.old_state),
+    newState: toNumber(data.new_state),
+    changedBy: toAddress(data.changed_by),
+    reason: String(data.reason),
+    changedAt: toNumber(data.changed_at),
+    expiresAt: toNumber(data.expires_at),
+  })),
+  modulePaused: eventDefinition("emergency", "ModulePaused", (data): ModulePausedEvent => ({
+    moduleName: String(data.module_name),
+    pausedBy: toAddress(data.paused_by),
+    reason: String(data.reason),
+    pausedAt: toNumber(data.paused_at),
+  })),
+  moduleUnpaused: eventDefinition("emergency", "ModuleUnpaused", (data): ModuleUnpausedEvent => ({
+    moduleName: String(data.module_name),
+    unpausedBy: toAddress(data.unpaused_by),
+    unpausedAt: toNumber(data.unpaused_at),
+  })),
+  roleGranted: eventDefinition("emergency", "RoleGranted", (data): RoleGrantedEvent => ({
+    holder: toAddress(data.holder),
+    role: toNumber(data.role),
+    grantedBy: toAddress(data.granted_by),
+    grantedAt: toNumber(data.granted_at),
+    expiresAt: toNumber(data.expires_at),
+  })),
+  roleRevoked: eventDefinition("emergency", "RoleRevoked", (data): RoleRevokedEvent => ({
+    holder: toAddress(data.holder),
+    role: toNumber(data.role),
+    revokedBy: toAddress(data.revoked_by),
+    revokedAt: toNumber(data.revoked_at),
+  })),
+  emergencyTriggered: eventDefinition("emergency", "EmergencyTriggered", (data): EmergencyTriggeredEvent => ({
+    triggeredBy: toAddress(data.triggered_by),
+    reason: String(data.reason),
+    triggeredAt: toNumber(data.triggered_at),
+  })),
+  actionProposed: eventDefinition("emergency", "ActionProposed", (data): ActionProposedEvent => ({
+    actionId: toBigInt(data.action_id),
+    actionType: toNumber(data.action_type),
+    proposer: toAddress(data.proposer),
+    description: String(data.description),
+    requiredApprovals: toNumber(data.required_approvals),
+    proposedAt: toNumber(data.proposed_at),
+  })),
+  actionApproved: eventDefinition("emergency", "ActionApproved", (data): ActionApprovedEvent => ({
+    actionId: toBigInt(data.action_id),
+    approver: toAddress(data.approver),
+    currentApprovals: toNumber(data.current_approvals),
+    requiredApprovals: toNumber(data.required_approvals),
+    approvedAt: toNumber(data.approved_at),
+  })),
+  actionExecuted: eventDefinition("emergency", "ActionExecuted", (data): ActionExecutedEvent => ({
+    actionId: toBigInt(data.action_id),
+    actionType: toNumber(data.action_type),
+    executor: toAddress(data.executor),
+    executedAt: toNumber(data.executed_at),
+  })),
+  upgradeProposed: eventDefinition("emergency", "UpgradeProposed", (data): UpgradeProposedEvent => ({
+    upgradeId: toBigInt(data.upgrade_id),
+    newVersionHash: String(data.new_version_hash),
+    proposer: toAddress(data.proposer),
+    executableAfter: toNumber(data.executable_after),
+    proposedAt: toNumber(data.proposed_at),
+  })),
+  upgradeExecuted: eventDefinition("emergency", "UpgradeExecuted", (data): UpgradeExecutedEvent => ({
+    upgradeId: toBigInt(data.upgrade_id),
+    newVersionHash: String(data.new_version_hash),
+    executor: toAddress(data.executor),
+    executedAt: toNumber(data.executed_at),
+  })),
+  fundRecoveryInitiated: eventDefinition("emergency", "FundRecoveryInitiated", (data): FundRecoveryInitiatedEvent => ({
+    recoveryAddress: toAddress(data.recovery_address),
+    amount: toBigInt(data.amount),
+    initiatedBy: toAddress(data.initiated_by),
+    initiatedAt: toNumber(data.initiated_at),
+  })),
+};
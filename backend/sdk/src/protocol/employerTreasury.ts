@@ -0,0 +1,421 @@
+/**
+ * Protocol Client - employer_treasury bindings
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  ViewResult,
+  U64Input,
+  mapView,
+  toBigInt,
+  toNumber,
+  toAddress,
+} from "./core.js";
+import { eventDefinition } from "./events.js";
+import * as abi from "./generated/employerTreasury.js";
+
+// ============================================
+// TYPES & CONSTANTS
+// ============================================
+
+export interface TreasuryBalance {
+  totalBalance: bigint;
+  allocatedBalance: bigint;
+  availableBalance: bigint;
+  reserveBalance: bigint;
+}
+
+export interface TreasuryStatus {
+  status: number;
+  isFrozen: boolean;
+  activeStreamCount: bigint;
+}
+
+export interface TreasuryAnalytics {
+  totalDeposits: bigint;
+  totalWithdrawals: bigint;
+  totalDisbursements: bigint;
+  peakBalance: bigint;
+}
+
+export interface TreasuryAllocation {
+  amount: bigint;
+  disbursed: bigint;
+  isActive: boolean;
+}
+
+export interface TreasuryRegistryStats {
+  totalTreasuries: bigint;
+  totalValue: bigint;
+  totalAllocated: bigint;
+}
+
+/**
+ * On-chain layout of the `EmployerTreasury` resource (the coin store is omitted)
+ */
+export interface TreasuryResource {
+  employer: string;
+  total_balance: string;
+  allocated_balance: string;
+  available_balance: string;
+  reserve_balance: string;
+  active_stream_count: string;
+  created_at: string;
+  last_activity: string;
+  status: number;
+  is_frozen: boolean;
+  /** 0 when auto top-up is disabled */
+  auto_topup_threshold: string;
+}
+
+export const TREASURY_STATUS = {
+  HEALTHY: 1,
+  WARNING: 2,
+  CRITICAL: 3,
+  FROZEN: 4,
+} as const;
+
+// Matches MIN_DEPOSIT and RESERVE_RATIO_BPS in employer_treasury.move
+export const MIN_DEPOSIT = BigInt(10_000_000);
+export const RESERVE_RATIO_BPS = BigInt(1000);
+
+// ============================================
+// VIEW PARSERS
+// ============================================
+
+export const parseTreasuryBalance = (
+  result: ViewResult<typeof abi.getTreasuryBalance | typeof abi.getAssetBalance>
+): TreasuryBalance => {
+  const [totalBalance, allocatedBalance, availableBalance, reserveBalance] = result;
+
+  return {
+    totalBalance,
+    allocatedBalance,
+    availableBalance,
+    reserveBalance,
+  };
+};
+
+export const parseTreasuryStatus = (result: ViewResult<typeof abi.getTreasuryStatus>): TreasuryStatus => {
+  const [status, isFrozen, activeStreamCount] = result;
+
+  return {
+    status,
+    isFrozen,
+    activeStreamCount,
+  };
+};
+
+export const parseTreasuryAnalytics = (result: ViewResult<typeof abi.getTreasuryAnalytics>): TreasuryAnalytics => {
+  const [totalDeposits, totalWithdrawals, totalDisbursements, peakBalance] = result;
+
+  return {
+    totalDeposits,
+    totalWithdrawals,
+    totalDisbursements,
+    peakBalance,
+  };
+};
+
+export const parseTreasuryAllocation = (result: ViewResult<typeof abi.getAllocation>): TreasuryAllocation => {
+  const [amount, disbursed, isActive] = result;
+
+  return {
+    amount,
+    disbursed,
+    isActive,
+  };
+};
+
+export const parseTreasuryRegistryStats = (result: ViewResult<typeof abi.getRegistryStats>): TreasuryRegistryStats => {
+  const [totalTreasuries, totalValue, totalAllocated] = result;
+
+  return {
+    totalTreasuries,
+    totalValue,
+    totalAllocated,
+  };
+};
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+export const treasuryExistsView = (modules: ProtocolModules, employerAddr: string): ViewRequest<boolean> =>
+  abi.treasuryExists(modules, employerAddr);
+
+export const getTreasuryBalanceView = (
+  modules: ProtocolModules,
+  employerAddr: string
+): ViewRequest<TreasuryBalance> =>
+  mapView(abi.getTreasuryBalance(modules, employerAddr), parseTreasuryBalance);
+
+export const getTreasuryStatusView = (
+  modules: ProtocolModules,
+  employerAddr: string
+): ViewRequest<TreasuryStatus> =>
+  mapView(abi.getTreasuryStatus(modules, employerAddr), parseTreasuryStatus);
+
+/**
+ * Health ratio in basis points ((available + reserve) / total)
+ */
+export const getTreasuryHealthView = (modules: ProtocolModules, employerAddr: string): ViewRequest<bigint> =>
+  abi.getTreasuryHealth(modules, employerAddr);
+
+export const getAllocationView = (
+  modules: ProtocolModules,
+  employerAddr: string,
+  streamId: U64Input
+): ViewRequest<TreasuryAllocation> =>
+  mapView(abi.getAllocation(modules, employerAddr, streamId), parseTreasuryAllocation);
+
+export const getTreasuryAnalyticsView = (
+  modules: ProtocolModules,
+  employerAddr: string
+): ViewRequest<TreasuryAnalytics> =>
+  mapView(abi.getTreasuryAnalytics(modules, employerAddr), parseTreasuryAnalytics);
+
+export const getRegistryStatsView = (
+  modules: ProtocolModules,
+  registryAddr: string
+): ViewRequest<TreasuryRegistryStats> =>
+  mapView(abi.getRegistryStats(modules, registryAddr), parseTreasuryRegistryStats);
+
+/**
+ * Balances of one fungible asset in the employer's asset treasury (zeros if never deposited)
+ */
+export const getAssetBalanceView = (
+  modules: ProtocolModules,
+  employerAddr: string,
+  asset: string
+): ViewRequest<TreasuryBalance> =>
+  mapView(abi.getAssetBalance(modules, employerAddr, asset), parseTreasuryBalance);
+
+/**
+ * Metadata addresses of the fungible assets the employer has deposited
+ */
+export const getTreasuryAssetsView = (modules: ProtocolModules, employerAddr: string): ViewRequest<string[]> =>
+  abi.getTreasuryAssets(modules, employerAddr);
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Initialize the treasury registry (protocol admin)
+ */
+export const initializeRegistryPayload = (modules: ProtocolModules): EntryFunctionPayload =>
+  abi.initializeRegistry(modules);
+
+/**
+ * Create the signer's treasury with an initial deposit (employer)
+ */
+export const initializeTreasuryPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  initialDeposit: U64Input
+): EntryFunctionPayload =>
+  abi.initializeTreasury(modules, registryAddr, initialDeposit);
+
+/**
+ * Deposit funds into the signer's treasury (employer)
+ */
+export const depositFundsPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  amount: U64Input
+): EntryFunctionPayload =>
+  abi.depositFunds(modules, registryAddr, amount);
+
+/**
+ * Deposit a fungible asset such as a stablecoin into the signer's asset treasury (employer)
+ */
+export const depositAssetPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  asset: string,
+  amount: U64Input
+): EntryFunctionPayload =>
+  abi.depositAsset(modules, registryAddr, asset, amount);
+
+/**
+ * Withdraw the available balance of a fungible asset, keeping its reserve (employer)
+ */
+export const withdrawAssetPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  asset: string,
+  amount: U64Input
+): EntryFunctionPayload =>
+  abi.withdrawAsset(modules, registryAddr, asset, amount);
+
+/**
+ * Allocate available funds to a stream (employer)
+ */
+export const allocateToStreamPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input,
+  amount: U64Input
+): EntryFunctionPayload =>
+  abi.allocateToStream(modules, registryAddr, streamId, amount);
+
+/**
+ * Return an unused allocation to the available balance (employer)
+ */
+export const deallocateFromStreamPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input,
+  unusedAmount: U64Input
+): EntryFunctionPayload =>
+  abi.deallocateFromStream(modules, registryAddr, streamId, unusedAmount);
+
+/**
+ * Withdraw available funds, keeping the reserve for allocations (employer)
+ */
+export const withdrawFundsPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  amount: U64Input
+): EntryFunctionPayload =>
+  abi.withdrawFunds(modules, registryAddr, amount);
+
+/**
+ * Withdraw the entire available balance (employer)
+ */
+export const emergencyWithdrawPayload = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  abi.emergencyWithdraw(modules, registryAddr);
+
+/**
+ * Freeze an employer treasury (protocol admin)
+ */
+export const freezeTreasuryPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employer: string
+): EntryFunctionPayload =>
+  abi.freezeTreasury(modules, registryAddr, employer);
+
+/**
+ * Unfreeze an employer treasury (protocol admin)
+ */
+export const unfreezeTreasuryPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employer: string
+): EntryFunctionPayload =>
+  abi.unfreezeTreasury(modules, registryAddr, employer);
+
+/**
+ * Freeze deposits and allocations for every treasury (protocol admin)
+ */
+export const globalFreezePayload = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  abi.globalFreeze(modules, registryAddr);
+
+/**
+ * Lift a global freeze (protocol admin)
+ */
+export const globalUnfreezePayload = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  abi.globalUnfreeze(modules, registryAddr);
+
+/**
+ * Set the auto top-up threshold, 0 disables it (employer)
+ */
+export const setAutoTopupThresholdPayload = (modules: ProtocolModules, threshold: U64Input): EntryFunctionPayload =>
+  abi.setAutoTopupThreshold(modules, threshold);
+
+// ============================================
+// EVENTS
+// ============================================
+
+export interface TreasuryCreatedEvent {
+  employer: string;
+  initialDeposit: bigint;
+  timestamp: number;
+}
+
+export interface DepositEvent {
+  employer: string;
+  amount: bigint;
+  newBalance: bigint;
+  timestamp: number;
+}
+
+export interface AllocationEvent {
+  employer: string;
+  streamId: number;
+  amount: bigint;
+  remainingAvailable: bigint;
+  timestamp: number;
+}
+
+export interface WithdrawalEvent {
+  employer: string;
+  amount: bigint;
+  remainingBalance: bigint;
+  timestamp: number;
+}
+
+export interface AssetDepositEvent {
+  employer: string;
+  asset: string;
+  amount: bigint;
+  newBalance: bigint;
+  timestamp: number;
+}
+
+export interface AssetWithdrawalEvent {
+  employer: string;
+  asset: string;
+  amount: bigint;
+  remainingBalance: bigint;
+  timestamp: number;
+}
+
+/**
+ * Events emitted on the `TreasuryRegistry` event handles, plus the asset
+ * treasury's module events
+ */
+export const EVENTS = {
+  treasuryCreated: eventDefinition("employerTreasury", "TreasuryCreatedEvent", (data): TreasuryCreatedEvent => ({
+    employer: toAddress(data.employer),
+    initialDeposit: toBigInt(data.initial_deposit),
+    timestamp: toNumber(data.timestamp),
+  })),
+  deposit: eventDefinition("employerTreasury", "DepositEvent", (data): DepositEvent => ({
+    employer: toAddress(data.employer),
+    amount: toBigInt(data.amount),
+    newBalance: toBigInt(data.new_balance),
+    timestamp: toNumber(data.timestamp),
+  })),
+  allocation: eventDefinition("employerTreasury", "AllocationEvent", (data): AllocationEvent => ({
+    employer: toAddress(data.employer),
+    streamId: toNumber(data.stream_id),
+    amount: toBigInt(data.amount),
+    remainingAvailable: toBigInt(data.remaining_available),
+    timestamp: toNumber(data.timestamp),
+  })),
+  withdrawal: eventDefinition("employerTreasury", "WithdrawalEvent", (data): WithdrawalEvent => ({
+    employer: toAddress(data.employer),
+    amount: toBigInt(data.amount),
+    remainingBalance: toBigInt(data.remaining_balance),
+    timestamp: toNumber(data.timestamp),
+  })),
+  assetDeposit: eventDefinition("employerTreasury", "AssetDepositEvent", (data): AssetDepositEvent => ({
+    employer: toAddress(data.employer),
+    asset: toAddress(data.asset),
+    amount: toBigInt(data.amount),
+    newBalance: toBigInt(data.new_balance),
+    timestamp: toNumber(data.timestamp),
+  })),
+  assetWithdrawal: eventDefinition("employerTreasury", "AssetWithdrawalEvent", (data): AssetWithdrawalEvent => ({
+    employer: toAddress(data.employer),
+    asset: toAddress(data.asset),
+    amount: toBigInt(data.amount),
+    remainingBalance: toBigInt(data.remaining_balance),
+    timestamp: toNumber(data.timestamp),
+  })),
+};
@@ -0,0 +1,293 @@
+/**
+ * Protocol Client - Move abort decoding and protocol errors
+ */
+
+import { ERROR_CATALOGUE, ERROR_CODES, MODULE_ABORT_REASONS } from "./generated/errorCodes.js";
+
+export { ERROR_CATALOGUE, ERROR_CODES, MODULE_ABORT_REASONS };
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A constant from `error_codes.move`
+ */
+export interface ErrorCodeInfo {
+  /** Constant name, e.g. `E_STREAM_NOT_FOUND` */
+  name: string;
+  /** Doc comment of the constant */
+  description: string;
+}
+
+/**
+ * Error code ranges documented in `error_codes.move`
+ */
+export type ErrorCategory =
+  | "streaming"
+  | "treasury"
+  | "compliance"
+  | "dispute"
+  | "accessControl"
+  | "validation"
+  | "system"
+  | "rateLimit";
+
+export interface MoveAbort {
+  /** Module that aborted, e.g. `0x1::coin` or `<addr>::employer_treasury` */
+  moduleId: string;
+  /** Raw abort code */
+  code: number;
+  /** Error constant name, from the VM status or the protocol catalogue */
+  name?: string;
+  /** Error description, from the VM status or the protocol catalogue */
+  description?: string;
+  /** Range of a protocol abort code */
+  category?: ErrorCategory;
+  /** `error_codes` accessors the aborting module uses for this code, e.g. `["campaign_not_found"]` */
+  reasons?: string[];
+}
+
+// ============================================
+// CATALOGUE
+// ============================================
+
+const CATEGORY_RANGES: [number, ErrorCategory][] = [
+  [1000, "streaming"],
+  [1100, "treasury"],
+  [1200, "compliance"],
+  [1300, "dispute"],
+  [1400, "accessControl"],
+  [1500, "validation"],
+  [1600, "system"],
+  [1700, "rateLimit"],
+];
+
+/**
+ * Category of a protocol abort code, or null outside the 1000-1799 ranges
+ */
+export const errorCategory = (code: number): ErrorCategory | null => {
+  const range = CATEGORY_RANGES.find(([start]) => code >= start && code < start + 100);
+  return range ? range[1] : null;
+};
+
+/**
+ * Abort codes that signal a missing record rather than a failure
+ * (e.g. reading a stream or treasury that was never created)
+ */
+export const EXPECTED_ABORT_CODES: ReadonlySet<number> = new Set([
+  ERROR_CODES.E_STREAM_NOT_FOUND,
+  ERROR_CODES.E_TREASURY_NOT_INITIALIZED,
+  ERROR_CODES.E_CERTIFICATE_NOT_FOUND,
+  ERROR_CODES.E_PAN_NOT_REGISTERED,
+  ERROR_CODES.E_DISPUTE_NOT_FOUND,
+  ERROR_CODES.E_NOT_INITIALIZED,
+]);
+
+// VM status code for missing resources (MISSING_DATA)
+const MISSING_DATA = 4008;
+
+// Framework modules live at 0x1; their codes are not in the protocol catalogue
+const isFrameworkModule = (moduleId: string): boolean => /^0x0*1::/.test(moduleId);
+
+// ============================================
+// DECODING
+// ============================================
+
+// "Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins"
+// "Move abort in 0xabc::employer_treasury: 0x44c"
+const MOVE_ABORT_PATTERN =
+  /Move abort in (0x[0-9a-fA-F]+::\w+): (?:(\w+)\()?(0x[0-9a-fA-F]+|\d+)\)?(?::\s*([^"\\\n]*))?/;
+
+/**
+ * Decode a VM status string into the aborting module and code.
+ *
+ * Protocol aborts are looked up in the generated catalogue; `reasons` lists
+ * the accessors the aborting module can raise the code with.
+ */
+export const decodeMoveAbort = (vmStatus: string): MoveAbort | null => {
+  const match = MOVE_ABORT_PATTERN.exec(vmStatus);
+  if (!match) return null;
+
+  const [, moduleId, name, rawCode, description] = match;
+  const code = Number(rawCode);
+  const abort: MoveAbort = {
+    moduleId,
+    code,
+    ...(name && { name }),
+    ...(description?.trim() && { description: description.trim() }),
+  };
+  if (isFrameworkModule(moduleId)) return abort;
+
+  const known = ERROR_CATALOGUE[code];
+  const category = errorCategory(code);
+  const reasons = MODULE_ABORT_REASONS[moduleId.split("::")[1]]?.[code];
+
+  return {
+    ...abort,
+    ...(known && { name: abort.name ?? known.name, description: abort.description ?? known.description }),
+    ...(category && { category }),
+    ...(reasons && { reasons }),
+  };
+};
+
+const humanize = (reason: string): string => {
+  const text = reason.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+/**
+ * Human-readable message for an abort, preferring the aborting module's own
+ * reasons over the shared constant (e.g. "Campaign not found or referrer not
+ * found" rather than "No active stream found for the employee")
+ */
+export const describeMoveAbort = (abort: MoveAbort): string => {
+  const constant = abort.name?.toLowerCase();
+  if (abort.reasons && !abort.reasons.some((reason) => `e_${reason}` === constant)) {
+    return humanize(abort.reasons.join(" or "));
+  }
+  if (abort.description) return abort.description;
+  if (abort.name) return humanize(abort.name.replace(/^E_?/, "").toLowerCase());
+  return `Aborted with code ${abort.code}`;
+};
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * Base class for failures of protocol reads and transactions
+ */
+export class ProtocolError extends Error {
+  /** Abort code or VM status code, when known */
+  readonly code: number | null;
+  /** Missing-record errors that callers usually treat as an empty result */
+  readonly isExpected: boolean;
+
+  constructor(message: string, options: { code?: number | null; isExpected?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.code = options.code ?? null;
+    this.isExpected = options.isExpected ?? false;
+  }
+}
+
+/**
+ * A resource, table item or account that does not exist
+ */
+export class ResourceNotFoundError extends ProtocolError {
+  constructor(message = "Resource not found", cause?: unknown) {
+    super(message, { code: MISSING_DATA, isExpected: true, cause });
+  }
+}
+
+/**
+ * A Move abort, from the protocol modules or the framework
+ */
+export class MoveAbortError extends ProtocolError {
+  readonly abort: MoveAbort;
+
+  constructor(abort: MoveAbort, cause?: unknown) {
+    super(describeMoveAbort(abort), {
+      code: abort.code,
+      isExpected: !isFrameworkModule(abort.moduleId) && EXPECTED_ABORT_CODES.has(abort.code),
+      cause,
+    });
+    this.abort = abort;
+  }
+
+  get moduleId(): string {
+    return this.abort.moduleId;
+  }
+
+  get category(): ErrorCategory | null {
+    return this.abort.category ?? null;
+  }
+}
+
+/** Wage stream aborts (1000-1099) */
+export class StreamError extends MoveAbortError {}
+
+/** Employer treasury aborts (1100-1199) */
+export class TreasuryError extends MoveAbortError {}
+
+/** Compliance aborts (1200-1299) */
+export class ComplianceError extends MoveAbortError {}
+
+/** Dispute and arbitration aborts (1300-1399) */
+export class DisputeError extends MoveAbortError {}
+
+/** Access control, role and multisig aborts (1400-1499) */
+export class AccessControlError extends MoveAbortError {}
+
+/** Input validation aborts (1500-1599) */
+export class ValidationError extends MoveAbortError {}
+
+/** Emergency and system state aborts (1600-1699) */
+export class SystemError extends MoveAbortError {}
+
+/** Rate limiting aborts (1700-1799) */
+export class RateLimitError extends MoveAbortError {}
+
+const CATEGORY_ERRORS: Record<ErrorCategory, typeof MoveAbortError> = {
+  streaming: StreamError,
+  treasury: TreasuryError,
+  compliance: ComplianceError,
+  dispute: DisputeError,
+  accessControl: AccessControlError,
+  validation: ValidationError,
+  system: SystemError,
+  rateLimit: RateLimitError,
+};
+
+const RESOURCE_NOT_FOUND_PATTERNS = [
+  /Failed to borrow global resource/,
+  /resource_not_found/i,
+  /Resource not found/i,
+  /Table Item not found/i,
+  /table_item_not_found/,
+];
+
+const ACCOUNT_NOT_FOUND_PATTERNS = [/account_not_found/, /Account not found/i];
+
+const errorText = (error: unknown): string => {
+  const message = error instanceof Error ? error.message : typeof error === "string" ? error : "";
+  try {
+    return `${message}\n${JSON.stringify(error) ?? ""}`;
+  } catch {
+    return message;
+  }
+};
+
+/**
+ * The typed error for a decoded abort
+ */
+export const createAbortError = (abort: MoveAbort, cause?: unknown): MoveAbortError => {
+  const ErrorClass = abort.category ? CATEGORY_ERRORS[abort.category] : MoveAbortError;
+  return new ErrorClass(abort, cause);
+};
+
+/**
+ * Classify any error thrown by the ts-sdk, a wallet or a fullnode response
+ */
+export const toProtocolError = (error: unknown): ProtocolError => {
+  if (error instanceof ProtocolError) return error;
+
+  const text = errorText(error);
+  const abort = decodeMoveAbort(text);
+  if (abort) return createAbortError(abort, error);
+
+  const vmErrorCode = /vm_error_code["\s:]+(\d+)/.exec(text);
+  if (RESOURCE_NOT_FOUND_PATTERNS.some((pattern) => pattern.test(text)) || Number(vmErrorCode?.[1]) === MISSING_DATA) {
+    return new ResourceNotFoundError("Resource not found", error);
+  }
+  if (ACCOUNT_NOT_FOUND_PATTERNS.some((pattern) => pattern.test(text))) {
+    return new ResourceNotFoundError("Account not found", error);
+  }
+
+  const message = error instanceof Error ? error.message : typeof error === "string" ? error : "Unknown error";
+  return new ProtocolError(message || "Unknown error", {
+    code: vmErrorCode ? Number(vmErrorCode[1]) : null,
+    cause: error,
+  });
+};
@@ -0,0 +1,316 @@
+/**
+ * Protocol Client - indexed events
+ *
+ * Reads protocol events from the Aptos indexer GraphQL API and decodes them
+ * into typed objects. Every module binding exports an `EVENTS` map of
+ * definitions; pass one or more of them to `fetchEvents` / `tailEvents`.
+ *
+ * Events are ordered by (transaction version, event index). A page returns
+ * the cursor of its last event so callers can persist it and resume later.
+ */
+
+import { ProtocolModules, ProtocolModuleName } from "./core.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Minimal client needed to query the indexer (the ts-sdk `Aptos` satisfies it)
+ */
+export interface IndexerClient {
+  queryIndexer<T extends {}>(args: { query: { query: string; variables?: {} } }): Promise<T>;
+}
+
+/**
+ * Row of the indexer `events` table
+ */
+export interface IndexedEvent {
+  account_address: string;
+  creation_number: number | string;
+  data: Record<string, unknown>;
+  event_index: number | string;
+  sequence_number: number | string;
+  transaction_version: number | string;
+  type: string;
+  indexed_type: string;
+}
+
+/**
+ * Row of the indexer `user_transactions` table
+ */
+export interface IndexedTransaction {
+  version: number | string;
+  /** UTC, without a zone suffix, e.g. `2025-10-01T09:30:00.123456` */
+  timestamp: string;
+}
+
+/**
+ * A Move event struct paired with the decoder for its JSON data
+ */
+export interface EventDefinition<T, M extends ProtocolModuleName = ProtocolModuleName, N extends string = string> {
+  module: M;
+  name: N;
+  parse: (data: Record<string, unknown>) => T;
+}
+
+/**
+ * Position of an event in the global event order
+ */
+export interface EventCursor {
+  transactionVersion: string;
+  eventIndex: number;
+}
+
+export interface ProtocolEvent<T, M extends ProtocolModuleName = ProtocolModuleName, N extends string = string> {
+  module: M;
+  name: N;
+  /** Fully qualified Move type, e.g. `<addr>::wage_streaming::WithdrawalEvent` */
+  type: string;
+  data: T;
+  /** Event handle owner (registry address) for handle events, `0x0` for module events */
+  accountAddress: string;
+  sequenceNumber: bigint;
+  transactionVersion: bigint;
+  eventIndex: number;
+  cursor: EventCursor;
+}
+
+/**
+ * Decoded event type for a definition (or union of definitions)
+ */
+export type ProtocolEventOf<D> =
+  D extends EventDefinition<infer T, infer M, infer N> ? ProtocolEvent<T, M, N> : never;
+
+export interface EventQuery {
+  /** Only events emitted on handles owned by this account */
+  account?: string;
+  /**
+   * Only events whose data contains these fields, e.g. `{ employee: "0x..." }`.
+   * With an array, events matching any of the entries.
+   */
+  data?: Record<string, unknown> | Record<string, unknown>[];
+  /** Only events strictly after (or before, for "desc") this cursor */
+  after?: EventCursor;
+  /** Page size (default 100) */
+  limit?: number;
+  /** Oldest first (default) or newest first */
+  order?: "asc" | "desc";
+}
+
+export interface EventPage<E> {
+  events: E[];
+  /** Cursor of the last event in the page, or the query cursor when the page is empty */
+  cursor: EventCursor | null;
+  hasMore: boolean;
+}
+
+export interface TailOptions extends Omit<EventQuery, "order"> {
+  /** Delay between polls once caught up (default 5000ms) */
+  pollIntervalMs?: number;
+  /** Stops the iterator */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_EVENT_PAGE_SIZE = 100;
+export const DEFAULT_EVENT_POLL_INTERVAL_MS = 5000;
+
+// ============================================
+// DEFINITIONS
+// ============================================
+
+export const eventDefinition = <T, M extends ProtocolModuleName, N extends string>(
+  module: M,
+  name: N,
+  parse: (data: Record<string, unknown>) => T
+): EventDefinition<T, M, N> => ({ module, name, parse });
+
+/**
+ * Fully qualified Move type of an event definition for a deployment
+ */
+export const eventType = (modules: ProtocolModules, definition: EventDefinition<unknown>): string =>
+  `${modules[definition.module]}::${definition.name}`;
+
+/**
+ * Pad an address to the 64-hex-digit form the indexer stores
+ */
+export const normalizeAddress = (address: string): string =>
+  `0x${address.toLowerCase().replace(/^0x/, "").padStart(64, "0")}`;
+
+// ============================================
+// CURSORS
+// ============================================
+
+/**
+ * Serialize a cursor for storage, e.g. `"123456:2"`
+ */
+export const encodeEventCursor = (cursor: EventCursor): string =>
+  `${cursor.transactionVersion}:${cursor.eventIndex}`;
+
+export const decodeEventCursor = (value: string): EventCursor => {
+  const [transactionVersion, eventIndex] = value.split(":");
+  if (!/^\d+$/.test(transactionVersion ?? "") || !/^\d+$/.test(eventIndex ?? "")) {
+    throw new Error(`Invalid event cursor: ${value}`);
+  }
+  return { transactionVersion, eventIndex: Number(eventIndex) };
+};
+
+// ============================================
+// QUERIES
+// ============================================
+
+const EVENTS_QUERY = `
+  query getProtocolEvents($where: events_bool_exp, $limit: Int, $order_by: [events_order_by!]) {
+    events(where: $where, limit: $limit, order_by: $order_by) {
+      account_address
+      creation_number
+      data
+      event_index
+      sequence_number
+      transaction_version
+      type
+      indexed_type
+    }
+  }
+`;
+
+const cursorCondition = (cursor: EventCursor, order: "asc" | "desc"): Record<string, unknown> => {
+  const op = order === "asc" ? "_gt" : "_lt";
+  return {
+    _or: [
+      { transaction_version: { [op]: cursor.transactionVersion } },
+      { transaction_version: { _eq: cursor.transactionVersion }, event_index: { [op]: cursor.eventIndex } },
+    ],
+  };
+};
+
+const decodeEvent = <D extends EventDefinition<unknown>>(
+  row: IndexedEvent,
+  definition: D
+): ProtocolEventOf<D> => {
+  const cursor = { transactionVersion: String(row.transaction_version), eventIndex: Number(row.event_index) };
+
+  return {
+    module: definition.module,
+    name: definition.name,
+    type: row.type,
+    data: definition.parse(row.data),
+    accountAddress: row.account_address,
+    sequenceNumber: BigInt(row.sequence_number),
+    transactionVersion: BigInt(row.transaction_version),
+    eventIndex: cursor.eventIndex,
+    cursor,
+  } as ProtocolEventOf<D>;
+};
+
+/**
+ * Fetch one page of events of the given type(s)
+ */
+export const fetchEvents = async <D extends EventDefinition<unknown>>(
+  client: IndexerClient,
+  modules: ProtocolModules,
+  definitions: D | D[],
+  query: EventQuery = {}
+): Promise<EventPage<ProtocolEventOf<D>>> => {
+  const list = Array.isArray(definitions) ? definitions : [definitions];
+  const byType = new Map(list.map((definition) => [eventType(modules, definition), definition]));
+  const order = query.order ?? "asc";
+  const limit = query.limit ?? DEFAULT_EVENT_PAGE_SIZE;
+
+  const conditions: Record<string, unknown>[] = [{ indexed_type: { _in: [...byType.keys()] } }];
+  if (query.account) conditions.push({ account_address: { _eq: normalizeAddress(query.account) } });
+  if (Array.isArray(query.data)) {
+    conditions.push({ _or: query.data.map((fields) => ({ data: { _contains: fields } })) });
+  } else if (query.data) {
+    conditions.push({ data: { _contains: query.data } });
+  }
+  if (query.after) conditions.push(cursorCondition(query.after, order));
+
+  const result = await client.queryIndexer<{ events: IndexedEvent[] }>({
+    query: {
+      query: EVENTS_QUERY,
+      variables: {
+        where: { _and: conditions },
+        // Fetch one extra row to learn whether another page exists
+        limit: limit + 1,
+        order_by: [{ transaction_version: order }, { event_index: order }],
+      },
+    },
+  });
+
+  const rows = result.events.slice(0, limit);
+  const events = rows.flatMap((row) => {
+    const definition = byType.get(row.indexed_type) ?? byType.get(row.type);
+    return definition ? [decodeEvent(row, definition)] : [];
+  });
+
+  return {
+    events,
+    cursor: events.length > 0 ? events[events.length - 1].cursor : (query.after ?? null),
+    hasMore: result.events.length > limit,
+  };
+};
+
+const TRANSACTION_TIMES_QUERY = `
+  query getTransactionTimes($versions: [bigint!]) {
+    user_transactions(where: { version: { _in: $versions } }) {
+      version
+      timestamp
+    }
+  }
+`;
+
+const parseIndexerTime = (timestamp: string): number =>
+  Math.floor(Date.parse(/(Z|[+-]\d\d:?\d\d)$/.test(timestamp) ? timestamp : `${timestamp}Z`) / 1000);
+
+/**
+ * Block timestamps (in seconds) of committed user transactions, keyed by version,
+ * in one indexer query. Versions the indexer has no user transaction for are absent.
+ */
+export const fetchTransactionTimestamps = async (
+  client: IndexerClient,
+  versions: (bigint | string)[]
+): Promise<Map<string, number>> => {
+  const unique = [...new Set(versions.map(String))];
+  if (unique.length === 0) return new Map();
+
+  const result = await client.queryIndexer<{ user_transactions: IndexedTransaction[] }>({
+    query: { query: TRANSACTION_TIMES_QUERY, variables: { versions: unique } },
+  });
+  return new Map(result.user_transactions.map((row) => [String(row.version), parseIndexerTime(row.timestamp)]));
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+
+/**
+ * Iterate events oldest first, then keep polling for new ones until `signal` aborts
+ */
+export async function* tailEvents<D extends EventDefinition<unknown>>(
+  client: IndexerClient,
+  modules: ProtocolModules,
+  definitions: D | D[],
+  options: TailOptions = {}
+): AsyncGenerator<ProtocolEventOf<D>> {
+  const { pollIntervalMs = DEFAULT_EVENT_POLL_INTERVAL_MS, signal, ...query } = options;
+  let cursor = query.after;
+
+  while (!signal?.aborted) {
+    const page = await fetchEvents(client, modules, definitions, { ...query, after: cursor, order: "asc" });
+    for (const event of page.events) {
+      if (signal?.aborted) return;
+      yield event;
+    }
+
+    cursor = page.cursor ?? undefined;
+    if (!page.hasMore) await sleep(pollIntervalMs, signal);
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Generated Move bindings - compliance
+ *
+ * Generated by `npm run generate:bindings` from the Move sources.
+ * Do not edit by hand; regenerate after changing the Move module.
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  U64Input,
+  entryPayload,
+  viewRequest,
+  u64,
+  bytes,
+  toBigInt,
+  toNumber,
+  toBool,
+  toAddress,
+} from "../core.js";
+
+export const MODULE_NAME = "compliance";
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+/**
+ * Calculate statutory deductions for a wage amount
+ *
+ * `calculate_deductions(address, address, address, u64): (u64, u64, u64, u64, u64)`
+ */
+export const calculateDeductions = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employer: string,
+  employee: string,
+  grossWage: U64Input
+): ViewRequest<[bigint, bigint, bigint, bigint, bigint]> =>
+  viewRequest(
+    modules.compliance,
+    "calculate_deductions",
+    [registryAddr, employer, employee, u64(grossWage)],
+    (result) => [
+      toBigInt(result[0]),
+      toBigInt(result[1]),
+      toBigInt(result[2]),
+      toBigInt(result[3]),
+      toBigInt(result[4]),
+    ]
+  );
+
+/**
+ * Get employee compliance status
+ *
+ * `get_employee_status(address): (u8, bool, bool, bool)`
+ */
+export const getEmployeeStatus = (
+  modules: ProtocolModules,
+  employee: string
+): ViewRequest<[number, boolean, boolean, boolean]> =>
+  viewRequest(modules.compliance, "get_employee_status", [employee], (result) =>
+    [toNumber(result[0]), toBool(result[1]), toBool(result[2]), toBool(result[3])]
+  );
+
+/**
+ * Get employer compliance records
+ *
+ * `get_employer_compliance_summary(address): (u64, u64, u64)`
+ */
+export const getEmployerComplianceSummary = (
+  modules: ProtocolModules,
+  employer: string
+): ViewRequest<[bigint, bigint, bigint]> =>
+  viewRequest(modules.compliance, "get_employer_compliance_summary", [employer], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2])]
+  );
+
+/**
+ * Get employer compliance status
+ *
+ * `get_employer_status(address): (u8, bool, bool, u64)`
+ */
+export const getEmployerStatus = (
+  modules: ProtocolModules,
+  employer: string
+): ViewRequest<[number, boolean, boolean, bigint]> =>
+  viewRequest(modules.compliance, "get_employer_status", [employer], (result) =>
+    [toNumber(result[0]), toBool(result[1]), toBool(result[2]), toBigInt(result[3])]
+  );
+
+/**
+ * Get current statutory rates
+ *
+ * `get_statutory_rates(address): (u64, u64, u64, u64)`
+ */
+export const getStatutoryRates = (
+  modules: ProtocolModules,
+  registryAddr: string
+): ViewRequest<[bigint, bigint, bigint, bigint]> =>
+  viewRequest(modules.compliance, "get_statutory_rates", [registryAddr], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2]), toBigInt(result[3])]
+  );
+
+/**
+ * Get stream compliance details
+ *
+ * `get_stream_compliance(address, u64): (u64, u64, u64, u64, u64, bool)`
+ */
+export const getStreamCompliance = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): ViewRequest<[bigint, bigint, bigint, bigint, bigint, boolean]> =>
+  viewRequest(modules.compliance, "get_stream_compliance", [registryAddr, u64(streamId)], (result) =>
+    [
+      toBigInt(result[0]),
+      toBigInt(result[1]),
+      toBigInt(result[2]),
+      toBigInt(result[3]),
+      toBigInt(result[4]),
+      toBool(result[5]),
+    ]
+  );
+
+/**
+ * Check if employee is registered
+ *
+ * `is_employee_registered(address): bool`
+ */
+export const isEmployeeRegistered = (modules: ProtocolModules, employee: string): ViewRequest<boolean> =>
+  viewRequest(modules.compliance, "is_employee_registered", [employee], (result) => toBool(result[0]));
+
+/**
+ * Check if employer is registered
+ *
+ * `is_employer_registered(address): bool`
+ */
+export const isEmployerRegistered = (modules: ProtocolModules, employer: string): ViewRequest<boolean> =>
+  viewRequest(modules.compliance, "is_employer_registered", [employer], (result) => toBool(result[0]));
+
+/**
+ * Verify certificate validity
+ *
+ * `verify_certificate(address, u64): (bool, u64, u64)`
+ */
+export const verifyCertificate = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  certificateId: U64Input
+): ViewRequest<[boolean, bigint, bigint]> =>
+  viewRequest(modules.compliance, "verify_certificate", [registryAddr, u64(certificateId)], (result) =>
+    [toBool(result[0]), toBigInt(result[1]), toBigInt(result[2])]
+  );
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Flag compliance issue
+ *
+ * `flag_compliance_issue(&signer, address, address)`
+ */
+export const flagComplianceIssue = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employer: string
+): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "flag_compliance_issue", [registryAddr, employer]);
+
+/**
+ * Initialize compliance registry
+ *
+ * `initialize(&signer)`
+ */
+export const initialize = (modules: ProtocolModules): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "initialize", []);
+
+/**
+ * Issue compliance certificate
+ *
+ * `issue_certificate(&signer, address, address, u64, u8, vector<u8>, u64)`
+ */
+export const issueCertificate = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employer: string,
+  period: U64Input,
+  certType: number,
+  certificateHash: Uint8Array | number[],
+  validityDays: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "issue_certificate", [
+    registryAddr,
+    employer,
+    u64(period),
+    certType,
+    bytes(certificateHash),
+    u64(validityDays),
+  ]);
+
+/**
+ * Register employee for compliance
+ *
+ * `register_employee(&signer, address, vector<u8>, vector<u8>, vector<u8>, vector<u8>, u8, u64, bool)`
+ */
+export const registerEmployee = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  panHash: Uint8Array | number[],
+  aadhaarHash: Uint8Array | number[],
+  uanHash: Uint8Array | number[],
+  bankAccountHash: Uint8Array | number[],
+  taxRegime: number,
+  declaredAnnualIncome: U64Input,
+  epfMember: boolean
+): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "register_employee", [
+    registryAddr,
+    bytes(panHash),
+    bytes(aadhaarHash),
+    bytes(uanHash),
+    bytes(bankAccountHash),
+    taxRegime,
+    u64(declaredAnnualIncome),
+    epfMember,
+  ]);
+
+/**
+ * Register employer for compliance
+ *
+ * `register_employer(&signer, address, vector<u8>, vector<u8>, vector<u8>, vector<u8>, u8, bool, bool)`
+ */
+export const registerEmployer = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  panHash: Uint8Array | number[],
+  gstinHash: Uint8Array | number[],
+  epfCodeHash: Uint8Array | number[],
+  esiCodeHash: Uint8Array | number[],
+  stateCode: number,
+  epfRegistered: boolean,
+  esiRegistered: boolean
+): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "register_employer", [
+    registryAddr,
+    bytes(panHash),
+    bytes(gstinHash),
+    bytes(epfCodeHash),
+    bytes(esiCodeHash),
+    stateCode,
+    epfRegistered,
+    esiRegistered,
+  ]);
+
+/**
+ * Revoke compliance certificate
+ *
+ * `revoke_certificate(&signer, address, u64)`
+ */
+export const revokeCertificate = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  certificateId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "revoke_certificate", [registryAddr, u64(certificateId)]);
+
+/**
+ * Submit monthly compliance report
+ *
+ * `submit_monthly_report(&signer, address, u64, u64, u64, u64, u64, u64, u64, u64, u64)`
+ */
+export const submitMonthlyReport = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  month: U64Input,
+  totalWages: U64Input,
+  epfEmployee: U64Input,
+  epfEmployer: U64Input,
+  esiEmployee: U64Input,
+  esiEmployer: U64Input,
+  tdsDeducted: U64Input,
+  professionalTax: U64Input,
+  employeeCount: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "submit_monthly_report", [
+    registryAddr,
+    u64(month),
+    u64(totalWages),
+    u64(epfEmployee),
+    u64(epfEmployer),
+    u64(esiEmployee),
+    u64(esiEmployer),
+    u64(tdsDeducted),
+    u64(professionalTax),
+    u64(employeeCount),
+  ]);
+
+/**
+ * Update statutory rates
+ *
+ * `update_statutory_rates(&signer, address, u64, u64, u64, u64, u64, u64)`
+ */
+export const updateStatutoryRates = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  epfEmployeeRate: U64Input,
+  epfEmployerRate: U64Input,
+  esiEmployeeRate: U64Input,
+  esiEmployerRate: U64Input,
+  esiCeiling: U64Input,
+  epfCeiling: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "update_statutory_rates", [
+    registryAddr,
+    u64(epfEmployeeRate),
+    u64(epfEmployerRate),
+    u64(esiEmployeeRate),
+    u64(esiEmployerRate),
+    u64(esiCeiling),
+    u64(epfCeiling),
+  ]);
+
+/**
+ * Verify employee KYC
+ *
+ * `verify_employee_kyc(&signer, address, address)`
+ */
+export const verifyEmployeeKyc = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employee: string
+): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "verify_employee_kyc", [registryAddr, employee]);
+
+/**
+ * Verify employer KYC
+ *
+ * `verify_employer_kyc(&signer, address, address)`
+ */
+export const verifyEmployerKyc = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employer: string
+): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "verify_employer_kyc", [registryAddr, employer]);
+
+/**
+ * Verify stream compliance
+ *
+ * `verify_stream_compliance(&signer, address, u64, address, address, u64)`
+ */
+export const verifyStreamCompliance = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input,
+  employer: string,
+  employee: string,
+  totalWages: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.compliance, "verify_stream_compliance", [
+    registryAddr,
+    u64(streamId),
+    employer,
+    employee,
+    u64(totalWages),
+  ]);
@@ -0,0 +1,333 @@
+/**
+ * Generated Move bindings - disputes
+ *
+ * Generated by `npm run generate:bindings` from the Move sources.
+ * Do not edit by hand; regenerate after changing the Move module.
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  U64Input,
+  entryPayload,
+  viewRequest,
+  u64,
+  toBigInt,
+  toNumber,
+  toBool,
+  toAddress,
+} from "../core.js";
+
+export const MODULE_NAME = "disputes";
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+/**
+ * Check if dispute exists
+ *
+ * `dispute_exists(address, u64): bool`
+ */
+export const disputeExists = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input
+): ViewRequest<boolean> =>
+  viewRequest(modules.disputes, "dispute_exists", [registryAddress, u64(disputeId)], (result) => toBool(result[0]));
+
+/**
+ * Get active arbitrators count
+ *
+ * `get_active_arbitrators_count(address): u64`
+ */
+export const getActiveArbitratorsCount = (modules: ProtocolModules, registryAddress: string): ViewRequest<bigint> =>
+  viewRequest(modules.disputes, "get_active_arbitrators_count", [registryAddress], (result) => toBigInt(result[0]));
+
+/**
+ * Get dispute details
+ *
+ * `get_dispute(address, u64): (u64, address, address, u8, u8, u64, u64, u64, address)`
+ */
+export const getDispute = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input
+): ViewRequest<[bigint, string, string, number, number, bigint, bigint, bigint, string]> =>
+  viewRequest(modules.disputes, "get_dispute", [registryAddress, u64(disputeId)], (result) =>
+    [
+      toBigInt(result[0]),
+      toAddress(result[1]),
+      toAddress(result[2]),
+      toNumber(result[3]),
+      toNumber(result[4]),
+      toBigInt(result[5]),
+      toBigInt(result[6]),
+      toBigInt(result[7]),
+      toAddress(result[8]),
+    ]
+  );
+
+/**
+ * Get dispute statistics
+ *
+ * `get_dispute_stats(address): (u64, u64, u64, u64)`
+ */
+export const getDisputeStats = (
+  modules: ProtocolModules,
+  registryAddress: string
+): ViewRequest<[bigint, bigint, bigint, bigint]> =>
+  viewRequest(modules.disputes, "get_dispute_stats", [registryAddress], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2]), toBigInt(result[3])]
+  );
+
+/**
+ * Get evidence count for dispute
+ *
+ * `get_evidence_count(address, u64): u64`
+ */
+export const getEvidenceCount = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input
+): ViewRequest<bigint> =>
+  viewRequest(modules.disputes, "get_evidence_count", [registryAddress, u64(disputeId)], (result) =>
+    toBigInt(result[0])
+  );
+
+/**
+ * Get dispute resolution details
+ *
+ * `get_resolution(address, u64): (u8, u64, u64, address, u64)`
+ */
+export const getResolution = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input
+): ViewRequest<[number, bigint, bigint, string, bigint]> =>
+  viewRequest(modules.disputes, "get_resolution", [registryAddress, u64(disputeId)], (result) =>
+    [toNumber(result[0]), toBigInt(result[1]), toBigInt(result[2]), toAddress(result[3]), toBigInt(result[4])]
+  );
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Advance dispute to mediation phase
+ *
+ * `advance_to_mediation(&signer, address, u64)`
+ */
+export const advanceToMediation = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "advance_to_mediation", [registryAddress, u64(disputeId)]);
+
+/**
+ * Assign arbitrator to dispute
+ *
+ * `assign_arbitrator(&signer, address, u64, address)`
+ */
+export const assignArbitrator = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input,
+  arbitratorAddress: string
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "assign_arbitrator", [registryAddress, u64(disputeId), arbitratorAddress]);
+
+/**
+ * Cancel dispute (by mutual agreement)
+ *
+ * `cancel_dispute(&signer, address, u64)`
+ */
+export const cancelDispute = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "cancel_dispute", [registryAddress, u64(disputeId)]);
+
+/**
+ * Deactivate an arbitrator
+ *
+ * `deactivate_arbitrator(&signer, address, address)`
+ */
+export const deactivateArbitrator = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  arbitratorAddress: string
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "deactivate_arbitrator", [registryAddress, arbitratorAddress]);
+
+/**
+ * File an appeal against resolution
+ *
+ * `file_appeal(&signer, address, u64, String)`
+ */
+export const fileAppeal = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input,
+  appealReason: string
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "file_appeal", [registryAddress, u64(disputeId), appealReason]);
+
+/**
+ * Finalize dispute after appeal window passes
+ *
+ * `finalize_dispute(&signer, address, u64)`
+ */
+export const finalizeDispute = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "finalize_dispute", [registryAddress, u64(disputeId)]);
+
+/**
+ * Initialize the dispute system
+ *
+ * `initialize_dispute_system(&signer, address, u64)`
+ */
+export const initializeDisputeSystem = (
+  modules: ProtocolModules,
+  feeCollector: string,
+  protocolFeeBps: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "initialize_dispute_system", [feeCollector, u64(protocolFeeBps)]);
+
+/**
+ * Lock funds in escrow for a dispute
+ *
+ * `lock_escrow(&signer, address, u64, address, u64)`
+ */
+export const lockEscrow = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input,
+  tokenMetadata: string,
+  amount: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "lock_escrow", [registryAddress, u64(disputeId), tokenMetadata, u64(amount)]);
+
+/**
+ * Open a new dispute
+ *
+ * `open_dispute(&signer, address, u64, address, address, address, u8, u64, String, String)`
+ */
+export const openDispute = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  streamId: U64Input,
+  respondent: string,
+  employer: string,
+  employee: string,
+  category: number,
+  disputedAmount: U64Input,
+  title: string,
+  description: string
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "open_dispute", [
+    registryAddress,
+    u64(streamId),
+    respondent,
+    employer,
+    employee,
+    category,
+    u64(disputedAmount),
+    title,
+    description,
+  ]);
+
+/**
+ * Register a new arbitrator
+ *
+ * `register_arbitrator(&signer, address, address, String, String, u64)`
+ */
+export const registerArbitrator = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  arbitratorAddress: string,
+  name: string,
+  credentials: string,
+  specialties: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "register_arbitrator", [
+    registryAddress,
+    arbitratorAddress,
+    name,
+    credentials,
+    u64(specialties),
+  ]);
+
+/**
+ * Release escrow funds after dispute finalization
+ *
+ * `release_escrow(&signer, address, u64)`
+ */
+export const releaseEscrow = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "release_escrow", [registryAddress, u64(disputeId)]);
+
+/**
+ * Request arbitration for unresolved dispute
+ *
+ * `request_arbitration(&signer, address, u64)`
+ */
+export const requestArbitration = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "request_arbitration", [registryAddress, u64(disputeId)]);
+
+/**
+ * Resolve dispute with arbitrator decision
+ *
+ * `resolve_dispute(&signer, address, u64, u8, u64, u64, String)`
+ */
+export const resolveDispute = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input,
+  outcome: number,
+  employeeAward: U64Input,
+  employerReturn: U64Input,
+  resolutionHash: string
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "resolve_dispute", [
+    registryAddress,
+    u64(disputeId),
+    outcome,
+    u64(employeeAward),
+    u64(employerReturn),
+    resolutionHash,
+  ]);
+
+/**
+ * Submit evidence for a dispute
+ *
+ * `submit_evidence(&signer, address, u64, u8, String, String)`
+ */
+export const submitEvidence = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  disputeId: U64Input,
+  evidenceType: number,
+  contentHash: string,
+  description: string
+): EntryFunctionPayload =>
+  entryPayload(modules.disputes, "submit_evidence", [
+    registryAddress,
+    u64(disputeId),
+    evidenceType,
+    contentHash,
+    description,
+  ]);
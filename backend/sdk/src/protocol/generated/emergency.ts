@@ -0,0 +1,262 @@
+/**
+ * Generated Move bindings - emergency
+ *
+ * Generated by `npm run generate:bindings` from the Move sources.
+ * Do not edit by hand; regenerate after changing the Move module.
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  U64Input,
+  entryPayload,
+  viewRequest,
+  u64,
+  toBigInt,
+  toNumber,
+  toBool,
+  toAddress,
+} from "../core.js";
+
+export const MODULE_NAME = "emergency";
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+/**
+ * Get admin count
+ *
+ * `get_admin_count(address): u64`
+ */
+export const getAdminCount = (modules: ProtocolModules, registryAddress: string): ViewRequest<bigint> =>
+  viewRequest(modules.emergency, "get_admin_count", [registryAddress], (result) => toBigInt(result[0]));
+
+/**
+ * Get current system state
+ *
+ * `get_system_state(address): (u8, u64, address, u64)`
+ */
+export const getSystemState = (
+  modules: ProtocolModules,
+  registryAddress: string
+): ViewRequest<[number, bigint, string, bigint]> =>
+  viewRequest(modules.emergency, "get_system_state", [registryAddress], (result) =>
+    [toNumber(result[0]), toBigInt(result[1]), toAddress(result[2]), toBigInt(result[3])]
+  );
+
+/**
+ * Check if address has specific role
+ *
+ * `has_role(address, address, u8): bool`
+ */
+export const hasRole = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  holder: string,
+  role: number
+): ViewRequest<boolean> =>
+  viewRequest(modules.emergency, "has_role", [registryAddress, holder, role], (result) => toBool(result[0]));
+
+/**
+ * Check if module is paused
+ *
+ * `is_module_paused(address, u8): bool`
+ */
+export const isModulePaused = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  moduleIndex: number
+): ViewRequest<boolean> =>
+  viewRequest(modules.emergency, "is_module_paused", [registryAddress, moduleIndex], (result) => toBool(result[0]));
+
+/**
+ * Check if system is paused
+ *
+ * `is_system_paused(address): bool`
+ */
+export const isSystemPaused = (modules: ProtocolModules, registryAddress: string): ViewRequest<boolean> =>
+  viewRequest(modules.emergency, "is_system_paused", [registryAddress], (result) => toBool(result[0]));
+
+/**
+ * Check if upgrade is in progress
+ *
+ * `is_upgrade_pending(address): bool`
+ */
+export const isUpgradePending = (modules: ProtocolModules, registryAddress: string): ViewRequest<boolean> =>
+  viewRequest(modules.emergency, "is_upgrade_pending", [registryAddress], (result) => toBool(result[0]));
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Approve a pending action
+ *
+ * `approve_action(&signer, address, u64)`
+ */
+export const approveAction = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  actionId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "approve_action", [registryAddress, u64(actionId)]);
+
+/**
+ * Cancel a pending upgrade
+ *
+ * `cancel_upgrade(&signer, address)`
+ */
+export const cancelUpgrade = (modules: ProtocolModules, registryAddress: string): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "cancel_upgrade", [registryAddress]);
+
+/**
+ * Execute an approved action
+ *
+ * `execute_action(&signer, address, u64)`
+ */
+export const executeAction = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  actionId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "execute_action", [registryAddress, u64(actionId)]);
+
+/**
+ * Grant a role to an address
+ *
+ * `grant_role(&signer, address, address, u8, u64)`
+ */
+export const grantRole = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  holder: string,
+  role: number,
+  expiresAt: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "grant_role", [registryAddress, holder, role, u64(expiresAt)]);
+
+/**
+ * Initialize the emergency system
+ *
+ * `initialize_emergency_system(&signer, vector<address>)`
+ */
+export const initializeEmergencySystem = (
+  modules: ProtocolModules,
+  emergencyContacts: string[]
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "initialize_emergency_system", [emergencyContacts]);
+
+/**
+ * Pause specific module
+ *
+ * `pause_module(&signer, address, u8, String)`
+ */
+export const pauseModule = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  moduleIndex: number,
+  reason: string
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "pause_module", [registryAddress, moduleIndex, reason]);
+
+/**
+ * Pause entire system
+ *
+ * `pause_system(&signer, address, String, u64)`
+ */
+export const pauseSystem = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  reason: string,
+  durationSeconds: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "pause_system", [registryAddress, reason, u64(durationSeconds)]);
+
+/**
+ * Propose a multi-sig action
+ *
+ * `propose_action(&signer, address, u8, String, String, u64)`
+ */
+export const proposeAction = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  actionType: number,
+  actionHash: string,
+  description: string,
+  validitySeconds: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "propose_action", [
+    registryAddress,
+    actionType,
+    actionHash,
+    description,
+    u64(validitySeconds),
+  ]);
+
+/**
+ * Propose an upgrade
+ *
+ * `propose_upgrade(&signer, address, String, String)`
+ */
+export const proposeUpgrade = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  newVersionHash: string,
+  description: string
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "propose_upgrade", [registryAddress, newVersionHash, description]);
+
+/**
+ * Resolve emergency (requires super admin or multi-sig)
+ *
+ * `resolve_emergency(&signer, address)`
+ */
+export const resolveEmergency = (modules: ProtocolModules, registryAddress: string): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "resolve_emergency", [registryAddress]);
+
+/**
+ * Revoke a role from an address
+ *
+ * `revoke_role(&signer, address, address, u8)`
+ */
+export const revokeRole = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  holder: string,
+  role: number
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "revoke_role", [registryAddress, holder, role]);
+
+/**
+ * Trigger emergency pause (immediate, bypasses some checks)
+ *
+ * `trigger_emergency(&signer, address, String)`
+ */
+export const triggerEmergency = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  reason: string
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "trigger_emergency", [registryAddress, reason]);
+
+/**
+ * Unpause specific module
+ *
+ * `unpause_module(&signer, address, u8)`
+ */
+export const unpauseModule = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  moduleIndex: number
+): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "unpause_module", [registryAddress, moduleIndex]);
+
+/**
+ * Unpause system
+ *
+ * `unpause_system(&signer, address)`
+ */
+export const unpauseSystem = (modules: ProtocolModules, registryAddress: string): EntryFunctionPayload =>
+  entryPayload(modules.emergency, "unpause_system", [registryAddress]);
@@ -0,0 +1,280 @@
+/**
+ * Generated Move bindings - employer_treasury
+ *
+ * Generated by `npm run generate:bindings` from the Move sources.
+ * Do not edit by hand; regenerate after changing the Move module.
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  U64Input,
+  entryPayload,
+  viewRequest,
+  u64,
+  toBigInt,
+  toNumber,
+  toBool,
+  toAddress,
+  toObjectAddress,
+} from "../core.js";
+
+export const MODULE_NAME = "employer_treasury";
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+/**
+ * Get allocation details for a stream
+ *
+ * `get_allocation(address, u64): (u64, u64, bool)`
+ */
+export const getAllocation = (
+  modules: ProtocolModules,
+  employer: string,
+  streamId: U64Input
+): ViewRequest<[bigint, bigint, boolean]> =>
+  viewRequest(modules.employerTreasury, "get_allocation", [employer, u64(streamId)], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBool(result[2])]
+  );
+
+/**
+ * Get balance details of a fungible asset in the asset treasury
+ * Returns zeros for assets the employer never deposited
+ *
+ * `get_asset_balance(address, Object<Metadata>): (u64, u64, u64, u64)`
+ */
+export const getAssetBalance = (
+  modules: ProtocolModules,
+  employer: string,
+  asset: string
+): ViewRequest<[bigint, bigint, bigint, bigint]> =>
+  viewRequest(modules.employerTreasury, "get_asset_balance", [employer, asset], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2]), toBigInt(result[3])]
+  );
+
+/**
+ * Get registry statistics
+ *
+ * `get_registry_stats(address): (u64, u64, u64)`
+ */
+export const getRegistryStats = (
+  modules: ProtocolModules,
+  registryAddr: string
+): ViewRequest<[bigint, bigint, bigint]> =>
+  viewRequest(modules.employerTreasury, "get_registry_stats", [registryAddr], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2])]
+  );
+
+/**
+ * Get treasury analytics
+ *
+ * `get_treasury_analytics(address): (u64, u64, u64, u64)`
+ */
+export const getTreasuryAnalytics = (
+  modules: ProtocolModules,
+  employer: string
+): ViewRequest<[bigint, bigint, bigint, bigint]> =>
+  viewRequest(modules.employerTreasury, "get_treasury_analytics", [employer], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2]), toBigInt(result[3])]
+  );
+
+/**
+ * Get the fungible assets an employer has deposited, in deposit order
+ *
+ * `get_treasury_assets(address): vector<Object<Metadata>>`
+ */
+export const getTreasuryAssets = (modules: ProtocolModules, employer: string): ViewRequest<string[]> =>
+  viewRequest(modules.employerTreasury, "get_treasury_assets", [employer], (result) =>
+    (result[0] as unknown[]).map((v) => toObjectAddress(v))
+  );
+
+/**
+ * Get treasury balance details
+ *
+ * `get_treasury_balance(address): (u64, u64, u64, u64)`
+ */
+export const getTreasuryBalance = (
+  modules: ProtocolModules,
+  employer: string
+): ViewRequest<[bigint, bigint, bigint, bigint]> =>
+  viewRequest(modules.employerTreasury, "get_treasury_balance", [employer], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2]), toBigInt(result[3])]
+  );
+
+/**
+ * Get treasury health ratio (available / total in bps)
+ *
+ * `get_treasury_health(address): u64`
+ */
+export const getTreasuryHealth = (modules: ProtocolModules, employer: string): ViewRequest<bigint> =>
+  viewRequest(modules.employerTreasury, "get_treasury_health", [employer], (result) => toBigInt(result[0]));
+
+/**
+ * Get treasury status
+ *
+ * `get_treasury_status(address): (u8, bool, u64)`
+ */
+export const getTreasuryStatus = (modules: ProtocolModules, employer: string): ViewRequest<[number, boolean, bigint]> =>
+  viewRequest(modules.employerTreasury, "get_treasury_status", [employer], (result) =>
+    [toNumber(result[0]), toBool(result[1]), toBigInt(result[2])]
+  );
+
+/**
+ * Check if treasury exists
+ *
+ * `treasury_exists(address): bool`
+ */
+export const treasuryExists = (modules: ProtocolModules, employer: string): ViewRequest<boolean> =>
+  viewRequest(modules.employerTreasury, "treasury_exists", [employer], (result) => toBool(result[0]));
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Allocate funds to a stream
+ *
+ * `allocate_to_stream(&signer, address, u64, u64)`
+ */
+export const allocateToStream = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input,
+  amount: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "allocate_to_stream", [registryAddr, u64(streamId), u64(amount)]);
+
+/**
+ * Deallocate funds from a completed/terminated stream
+ *
+ * `deallocate_from_stream(&signer, address, u64, u64)`
+ */
+export const deallocateFromStream = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input,
+  unusedAmount: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "deallocate_from_stream", [registryAddr, u64(streamId), u64(unusedAmount)]);
+
+/**
+ * Deposit a fungible asset (e.g. a stablecoin) into the employer's asset treasury
+ * Amounts are in the asset's smallest unit; the same reserve ratio applies
+ *
+ * `deposit_asset(&signer, address, Object<Metadata>, u64)`
+ */
+export const depositAsset = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  asset: string,
+  amount: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "deposit_asset", [registryAddr, asset, u64(amount)]);
+
+/**
+ * Deposit funds into treasury
+ *
+ * `deposit_funds(&signer, address, u64)`
+ */
+export const depositFunds = (modules: ProtocolModules, registryAddr: string, amount: U64Input): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "deposit_funds", [registryAddr, u64(amount)]);
+
+/**
+ * Emergency withdrawal of all available funds
+ *
+ * `emergency_withdraw(&signer, address)`
+ */
+export const emergencyWithdraw = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "emergency_withdraw", [registryAddr]);
+
+/**
+ * Freeze a treasury (admin only)
+ *
+ * `freeze_treasury(&signer, address, address)`
+ */
+export const freezeTreasury = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employer: string
+): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "freeze_treasury", [registryAddr, employer]);
+
+/**
+ * Global freeze (admin only)
+ *
+ * `global_freeze(&signer, address)`
+ */
+export const globalFreeze = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "global_freeze", [registryAddr]);
+
+/**
+ * Global unfreeze (admin only)
+ *
+ * `global_unfreeze(&signer, address)`
+ */
+export const globalUnfreeze = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "global_unfreeze", [registryAddr]);
+
+/**
+ * Initialize the treasury registry
+ *
+ * `initialize_registry(&signer)`
+ */
+export const initializeRegistry = (modules: ProtocolModules): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "initialize_registry", []);
+
+/**
+ * Initialize employer treasury with initial deposit
+ *
+ * `initialize_treasury(&signer, address, u64)`
+ */
+export const initializeTreasury = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  initialDeposit: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "initialize_treasury", [registryAddr, u64(initialDeposit)]);
+
+/**
+ * Set auto top-up threshold
+ *
+ * `set_auto_topup_threshold(&signer, u64)`
+ */
+export const setAutoTopupThreshold = (modules: ProtocolModules, threshold: U64Input): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "set_auto_topup_threshold", [u64(threshold)]);
+
+/**
+ * Unfreeze a treasury (admin only)
+ *
+ * `unfreeze_treasury(&signer, address, address)`
+ */
+export const unfreezeTreasury = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employer: string
+): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "unfreeze_treasury", [registryAddr, employer]);
+
+/**
+ * Withdraw available balance of a fungible asset from the asset treasury
+ *
+ * `withdraw_asset(&signer, address, Object<Metadata>, u64)`
+ */
+export const withdrawAsset = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  asset: string,
+  amount: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "withdraw_asset", [registryAddr, asset, u64(amount)]);
+
+/**
+ * Withdraw available funds from treasury
+ *
+ * `withdraw_funds(&signer, address, u64)`
+ */
+export const withdrawFunds = (modules: ProtocolModules, registryAddr: string, amount: U64Input): EntryFunctionPayload =>
+  entryPayload(modules.employerTreasury, "withdraw_funds", [registryAddr, u64(amount)]);
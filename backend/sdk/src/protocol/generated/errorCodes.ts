@@ -0,0 +1,337 @@
+/**
+ * Generated Move abort catalogue - error_codes
+ *
+ * Generated by `npm run generate:bindings` from the Move sources.
+ * Do not edit by hand; regenerate after changing error_codes.move.
+ */
+
+import type { ErrorCodeInfo } from "../errors.js";
+
+/**
+ * Abort code of every `E_*` constant
+ */
+export const ERROR_CODES = {
+  E_STREAM_NOT_FOUND: 1000,
+  E_STREAM_ALREADY_EXISTS: 1001,
+  E_STREAM_NOT_ACTIVE: 1002,
+  E_INSUFFICIENT_ACCRUED_WAGES: 1003,
+  E_INVALID_WAGE_RATE: 1004,
+  E_INVALID_TIMESTAMP: 1005,
+  E_STREAM_PAUSED: 1006,
+  E_STREAM_TERMINATED: 1007,
+  E_STREAM_ALREADY_PAUSED: 1008,
+  E_STREAM_NOT_PAUSED: 1009,
+  E_DUPLICATE_STREAM: 1010,
+  E_INSUFFICIENT_TREASURY_BALANCE: 1100,
+  E_INSUFFICIENT_SURPLUS: 1101,
+  E_TREASURY_NOT_INITIALIZED: 1102,
+  E_MINIMUM_DEPOSIT_NOT_MET: 1103,
+  E_TREASURY_ALREADY_INITIALIZED: 1104,
+  E_TREASURY_LOCKED: 1105,
+  E_RESERVE_VIOLATION: 1106,
+  E_INVALID_COMPLIANCE_DATA: 1200,
+  E_CERTIFICATE_NOT_FOUND: 1201,
+  E_CERTIFICATE_EXPIRED: 1202,
+  E_INVALID_TAX_REGIME: 1203,
+  E_PAN_NOT_REGISTERED: 1204,
+  E_FORM_GENERATION_FAILED: 1205,
+  E_COMPLIANCE_RECORD_EXISTS: 1206,
+  E_DISPUTE_NOT_FOUND: 1300,
+  E_DISPUTE_ALREADY_RESOLVED: 1301,
+  E_APPEAL_WINDOW_EXPIRED: 1302,
+  E_INSUFFICIENT_ESCROW: 1303,
+  E_DISPUTE_AMOUNT_EXCEEDS_LIMIT: 1304,
+  E_NOT_DISPUTE_PARTY: 1305,
+  E_NEGOTIATION_PERIOD_ACTIVE: 1306,
+  E_ALREADY_APPEALED: 1307,
+  E_NOT_ARBITRATOR: 1308,
+  E_RULING_AMOUNT_MISMATCH: 1309,
+  E_DUPLICATE_DISPUTE: 1310,
+  E_INVALID_DISPUTE_CATEGORY: 1311,
+  E_INVALID_DISPUTE_STATUS: 1312,
+  E_DISPUTE_DEADLINE_PASSED: 1313,
+  E_INVALID_EVIDENCE_TYPE: 1314,
+  E_INVALID_PARTY: 1315,
+  E_DISPUTE_AMOUNT_TOO_SMALL: 1316,
+  E_INVALID_RESOLUTION: 1317,
+  E_ARBITRATOR_NOT_FOUND: 1318,
+  E_CONFLICT_OF_INTEREST: 1319,
+  E_MAX_APPEALS_REACHED: 1320,
+  E_APPEAL_WINDOW_CLOSED: 1321,
+  E_APPEAL_WINDOW_ACTIVE: 1322,
+  E_DISPUTE_NOT_FINALIZED: 1323,
+  E_ESCROW_NOT_FOUND: 1324,
+  E_ALREADY_RELEASED: 1325,
+  E_ESCROW_LOCKED: 1326,
+  E_CANNOT_CANCEL_ARBITRATION: 1327,
+  E_ALREADY_REGISTERED: 1328,
+  E_UNAUTHORIZED: 1400,
+  E_MISSING_CAPABILITY: 1401,
+  E_INVALID_SIGNER: 1402,
+  E_NOT_EMPLOYER: 1403,
+  E_NOT_EMPLOYEE: 1404,
+  E_NOT_ADMIN: 1405,
+  E_MULTISIG_THRESHOLD_NOT_MET: 1406,
+  E_CAPABILITY_ALREADY_GRANTED: 1407,
+  E_ALREADY_HAS_ROLE: 1408,
+  E_ROLE_NOT_FOUND: 1409,
+  E_ACTION_NOT_FOUND: 1410,
+  E_ACTION_EXPIRED: 1411,
+  E_ALREADY_EXECUTED: 1412,
+  E_ALREADY_APPROVED: 1413,
+  E_INSUFFICIENT_APPROVALS: 1414,
+  E_ZERO_ADDRESS: 1500,
+  E_ZERO_AMOUNT: 1501,
+  E_AMOUNT_OUT_OF_BOUNDS: 1502,
+  E_INVALID_STRING_LENGTH: 1503,
+  E_INVALID_PERCENTAGE: 1504,
+  E_INVALID_START_DATE: 1505,
+  E_INVALID_DURATION: 1506,
+  E_SELF_REFERENCE: 1507,
+  E_INVALID_AMOUNT: 1508,
+  E_INVALID_FEE_RATE: 1509,
+  E_INVALID_MODULE: 1510,
+  E_PROTOCOL_PAUSED: 1600,
+  E_ALREADY_PAUSED: 1601,
+  E_NOT_PAUSED: 1602,
+  E_UPGRADE_FAILED: 1603,
+  E_MIGRATION_IN_PROGRESS: 1604,
+  E_NOT_INITIALIZED: 1605,
+  E_ALREADY_INITIALIZED: 1606,
+  E_SYSTEM_PAUSED: 1607,
+  E_PAUSE_DURATION_TOO_SHORT: 1608,
+  E_PAUSE_DURATION_TOO_LONG: 1609,
+  E_SYSTEM_IN_EMERGENCY: 1610,
+  E_NOT_IN_EMERGENCY: 1611,
+  E_UPGRADE_IN_PROGRESS: 1612,
+  E_NO_UPGRADE_PENDING: 1613,
+  E_RATE_LIMIT_EXCEEDED: 1700,
+  E_COOLDOWN_ACTIVE: 1701,
+} as const;
+
+export const ERROR_CATALOGUE: Record<number, ErrorCodeInfo> = {
+  1000: { name: "E_STREAM_NOT_FOUND", description: "No active stream found for the employee" },
+  1001: {
+    name: "E_STREAM_ALREADY_EXISTS",
+    description: "An active stream already exists for this employee-employer pair",
+  },
+  1002: { name: "E_STREAM_NOT_ACTIVE", description: "Stream is not in active status" },
+  1003: { name: "E_INSUFFICIENT_ACCRUED_WAGES", description: "Withdrawal amount exceeds accrued wages" },
+  1004: { name: "E_INVALID_WAGE_RATE", description: "Invalid wage rate (zero or out of bounds)" },
+  1005: { name: "E_INVALID_TIMESTAMP", description: "Invalid timestamp provided" },
+  1006: { name: "E_STREAM_PAUSED", description: "Stream is paused" },
+  1007: { name: "E_STREAM_TERMINATED", description: "Stream is already terminated" },
+  1008: { name: "E_STREAM_ALREADY_PAUSED", description: "Stream is already paused" },
+  1009: { name: "E_STREAM_NOT_PAUSED", description: "Cannot resume a non-paused stream" },
+  1010: { name: "E_DUPLICATE_STREAM", description: "Employee cannot have multiple active streams from same employer" },
+  1100: { name: "E_INSUFFICIENT_TREASURY_BALANCE", description: "Employer treasury balance is insufficient" },
+  1101: { name: "E_INSUFFICIENT_SURPLUS", description: "Cannot withdraw more than available surplus" },
+  1102: { name: "E_TREASURY_NOT_INITIALIZED", description: "Treasury has not been initialized for this employer" },
+  1103: { name: "E_MINIMUM_DEPOSIT_NOT_MET", description: "Deposit amount is below minimum threshold" },
+  1104: { name: "E_TREASURY_ALREADY_INITIALIZED", description: "Treasury already initialized for this employer" },
+  1105: { name: "E_TREASURY_LOCKED", description: "Cannot process: employer treasury is locked" },
+  1106: { name: "E_RESERVE_VIOLATION", description: "Withdrawal would exceed safe reserve threshold" },
+  1200: { name: "E_INVALID_COMPLIANCE_DATA", description: "Invalid compliance data provided" },
+  1201: { name: "E_CERTIFICATE_NOT_FOUND", description: "Certificate not found" },
+  1202: { name: "E_CERTIFICATE_EXPIRED", description: "Certificate has expired" },
+  1203: { name: "E_INVALID_TAX_REGIME", description: "Invalid tax regime selection" },
+  1204: { name: "E_PAN_NOT_REGISTERED", description: "Employee PAN not registered" },
+  1205: { name: "E_FORM_GENERATION_FAILED", description: "Form generation failed" },
+  1206: { name: "E_COMPLIANCE_RECORD_EXISTS", description: "Compliance record already exists" },
+  1300: { name: "E_DISPUTE_NOT_FOUND", description: "Dispute not found" },
+  1301: { name: "E_DISPUTE_ALREADY_RESOLVED", description: "Dispute has already been resolved" },
+  1302: { name: "E_APPEAL_WINDOW_EXPIRED", description: "Appeal window has expired" },
+  1303: { name: "E_INSUFFICIENT_ESCROW", description: "Insufficient funds in escrow" },
+  1304: { name: "E_DISPUTE_AMOUNT_EXCEEDS_LIMIT", description: "Dispute amount exceeds allowed threshold" },
+  1305: { name: "E_NOT_DISPUTE_PARTY", description: "Not authorized to respond to this dispute" },
+  1306: { name: "E_NEGOTIATION_PERIOD_ACTIVE", description: "Negotiation period has not elapsed" },
+  1307: { name: "E_ALREADY_APPEALED", description: "Dispute has already been appealed" },
+  1308: { name: "E_NOT_ARBITRATOR", description: "Not assigned as arbitrator for this dispute" },
+  1309: { name: "E_RULING_AMOUNT_MISMATCH", description: "Ruling amounts do not match escrowed amount" },
+  1310: { name: "E_DUPLICATE_DISPUTE", description: "Duplicate dispute for the same period" },
+  1311: { name: "E_INVALID_DISPUTE_CATEGORY", description: "Invalid dispute category" },
+  1312: { name: "E_INVALID_DISPUTE_STATUS", description: "Invalid dispute status for operation" },
+  1313: { name: "E_DISPUTE_DEADLINE_PASSED", description: "Dispute deadline has passed" },
+  1314: { name: "E_INVALID_EVIDENCE_TYPE", description: "Invalid evidence type" },
+  1315: { name: "E_INVALID_PARTY", description: "Invalid party specified" },
+  1316: { name: "E_DISPUTE_AMOUNT_TOO_SMALL", description: "Dispute amount too small" },
+  1317: { name: "E_INVALID_RESOLUTION", description: "Invalid resolution provided" },
+  1318: { name: "E_ARBITRATOR_NOT_FOUND", description: "Arbitrator not found" },
+  1319: { name: "E_CONFLICT_OF_INTEREST", description: "Conflict of interest detected" },
+  1320: { name: "E_MAX_APPEALS_REACHED", description: "Maximum appeals reached" },
+  1321: { name: "E_APPEAL_WINDOW_CLOSED", description: "Appeal window closed" },
+  1322: { name: "E_APPEAL_WINDOW_ACTIVE", description: "Appeal window still active" },
+  1323: { name: "E_DISPUTE_NOT_FINALIZED", description: "Dispute not finalized" },
+  1324: { name: "E_ESCROW_NOT_FOUND", description: "Escrow not found" },
+  1325: { name: "E_ALREADY_RELEASED", description: "Already released" },
+  1326: { name: "E_ESCROW_LOCKED", description: "Escrow locked" },
+  1327: { name: "E_CANNOT_CANCEL_ARBITRATION", description: "Cannot cancel after arbitration started" },
+  1328: { name: "E_ALREADY_REGISTERED", description: "Already registered" },
+  1400: { name: "E_UNAUTHORIZED", description: "Caller is not authorized to perform this action" },
+  1401: { name: "E_MISSING_CAPABILITY", description: "Required capability not found" },
+  1402: { name: "E_INVALID_SIGNER", description: "Invalid signer provided" },
+  1403: { name: "E_NOT_EMPLOYER", description: "Only employer can perform this action" },
+  1404: { name: "E_NOT_EMPLOYEE", description: "Only employee can perform this action" },
+  1405: { name: "E_NOT_ADMIN", description: "Only admin can perform this action" },
+  1406: { name: "E_MULTISIG_THRESHOLD_NOT_MET", description: "Multi-sig threshold not met" },
+  1407: { name: "E_CAPABILITY_ALREADY_GRANTED", description: "Capability already granted" },
+  1408: { name: "E_ALREADY_HAS_ROLE", description: "Role already assigned to holder" },
+  1409: { name: "E_ROLE_NOT_FOUND", description: "Role not found" },
+  1410: { name: "E_ACTION_NOT_FOUND", description: "Action not found" },
+  1411: { name: "E_ACTION_EXPIRED", description: "Action has expired" },
+  1412: { name: "E_ALREADY_EXECUTED", description: "Action already executed" },
+  1413: { name: "E_ALREADY_APPROVED", description: "Already approved by this signer" },
+  1414: { name: "E_INSUFFICIENT_APPROVALS", description: "Insufficient approvals" },
+  1500: { name: "E_ZERO_ADDRESS", description: "Zero address provided" },
+  1501: { name: "E_ZERO_AMOUNT", description: "Zero amount provided where non-zero expected" },
+  1502: { name: "E_AMOUNT_OUT_OF_BOUNDS", description: "Amount exceeds allowed bounds" },
+  1503: { name: "E_INVALID_STRING_LENGTH", description: "String length exceeds maximum" },
+  1504: { name: "E_INVALID_PERCENTAGE", description: "Invalid percentage value (must be <= 10000 basis points)" },
+  1505: { name: "E_INVALID_START_DATE", description: "Start date is in the past (beyond grace period)" },
+  1506: { name: "E_INVALID_DURATION", description: "Duration exceeds maximum allowed" },
+  1507: { name: "E_SELF_REFERENCE", description: "Self-reference not allowed" },
+  1508: { name: "E_INVALID_AMOUNT", description: "Invalid amount" },
+  1509: { name: "E_INVALID_FEE_RATE", description: "Invalid fee rate" },
+  1510: { name: "E_INVALID_MODULE", description: "Invalid module index" },
+  1600: { name: "E_PROTOCOL_PAUSED", description: "Protocol is currently paused" },
+  1601: { name: "E_ALREADY_PAUSED", description: "Emergency pause already active" },
+  1602: { name: "E_NOT_PAUSED", description: "Protocol is not paused" },
+  1603: { name: "E_UPGRADE_FAILED", description: "Upgrade failed" },
+  1604: { name: "E_MIGRATION_IN_PROGRESS", description: "Migration in progress" },
+  1605: { name: "E_NOT_INITIALIZED", description: "System not initialized" },
+  1606: { name: "E_ALREADY_INITIALIZED", description: "System already initialized" },
+  1607: { name: "E_SYSTEM_PAUSED", description: "System is paused" },
+  1608: { name: "E_PAUSE_DURATION_TOO_SHORT", description: "Pause duration too short" },
+  1609: { name: "E_PAUSE_DURATION_TOO_LONG", description: "Pause duration too long" },
+  1610: { name: "E_SYSTEM_IN_EMERGENCY", description: "System in emergency state" },
+  1611: { name: "E_NOT_IN_EMERGENCY", description: "Not in emergency state" },
+  1612: { name: "E_UPGRADE_IN_PROGRESS", description: "Upgrade already in progress" },
+  1613: { name: "E_NO_UPGRADE_PENDING", description: "No upgrade pending" },
+  1700: { name: "E_RATE_LIMIT_EXCEEDED", description: "Rate limit exceeded" },
+  1701: { name: "E_COOLDOWN_ACTIVE", description: "Cooldown period active" },
+};
+
+/**
+ * Accessors (`error_codes::<reason>()`) each module aborts with, by abort code.
+ * Several accessors share a code, so this narrows down what an abort means.
+ */
+export const MODULE_ABORT_REASONS: Record<string, Record<number, string[]>> = {
+  compliance: {
+    1102: ["employer_not_registered"],
+    1201: ["certificate_not_found"],
+    1204: ["employee_not_registered"],
+    1400: ["unauthorized"],
+    1605: ["not_initialized"],
+    1606: ["already_initialized"],
+  },
+  disputes: {
+    1300: ["dispute_not_found"],
+    1303: ["insufficient_escrow"],
+    1308: ["not_arbitrator"],
+    1311: ["invalid_dispute_category"],
+    1312: ["invalid_dispute_status"],
+    1313: ["dispute_deadline_passed"],
+    1314: ["invalid_evidence_type"],
+    1315: ["invalid_party"],
+    1316: ["dispute_amount_too_small"],
+    1317: ["invalid_resolution"],
+    1318: ["arbitrator_not_found"],
+    1319: ["conflict_of_interest"],
+    1320: ["max_appeals_reached"],
+    1321: ["appeal_window_closed"],
+    1322: ["appeal_window_active"],
+    1323: ["dispute_not_finalized"],
+    1324: ["escrow_not_found"],
+    1325: ["already_released"],
+    1326: ["escrow_locked"],
+    1327: ["cannot_cancel_arbitration"],
+    1328: ["already_registered"],
+    1400: ["unauthorized"],
+    1508: ["invalid_amount"],
+    1509: ["invalid_fee_rate"],
+    1606: ["already_initialized"],
+    1607: ["system_paused"],
+  },
+  emergency: {
+    1400: ["unauthorized"],
+    1408: ["already_has_role"],
+    1409: ["role_not_found"],
+    1410: ["action_not_found"],
+    1411: ["action_expired"],
+    1412: ["already_executed"],
+    1413: ["already_approved"],
+    1414: ["insufficient_approvals"],
+    1510: ["invalid_module"],
+    1601: ["already_paused"],
+    1602: ["not_paused"],
+    1605: ["not_initialized"],
+    1606: ["already_initialized"],
+    1607: ["system_paused"],
+    1608: ["pause_duration_too_short"],
+    1609: ["pause_duration_too_long"],
+    1610: ["system_in_emergency"],
+    1611: ["not_in_emergency"],
+    1612: ["upgrade_in_progress"],
+    1613: ["no_upgrade_pending"],
+    1700: ["rate_limit_exceeded"],
+    1701: ["cooldown_active"],
+  },
+  employer_treasury: {
+    1000: ["allocation_not_found"],
+    1001: ["stream_already_funded"],
+    1100: ["insufficient_allocation", "insufficient_funds"],
+    1102: ["treasury_not_initialized"],
+    1103: ["amount_too_small"],
+    1105: ["treasury_frozen"],
+    1106: ["insufficient_reserve", "reserve_required"],
+    1400: ["unauthorized"],
+    1502: ["allocation_too_large"],
+    1508: ["invalid_amount"],
+    1600: ["protocol_paused"],
+    1605: ["not_initialized"],
+    1606: ["already_initialized"],
+  },
+  photon_rewards: {
+    1000: ["campaign_not_found", "referrer_not_found"],
+    1001: ["campaign_already_active"],
+    1002: ["campaign_not_active", "participation_inactive"],
+    1003: ["no_rewards_to_claim"],
+    1200: ["no_milestones_defined", "no_tiers_defined"],
+    1202: ["campaign_expired"],
+    1312: ["invalid_campaign_status"],
+    1400: ["insufficient_eligibility", "not_authorized"],
+    1502: ["campaign_full", "max_campaigns_exceeded", "max_milestones_exceeded"],
+    1504: ["invalid_fee_percentage"],
+    1505: ["campaign_not_started"],
+    1506: ["invalid_time_range"],
+    1507: ["invalid_referral"],
+    1508: [
+      "campaign_mismatch",
+      "invalid_amount",
+      "invalid_rarity",
+      "invalid_reward_type",
+      "invalid_tier_config",
+      "invalid_trigger_type",
+    ],
+    1600: ["photon_integration_disabled"],
+    1605: ["not_initialized", "not_registered"],
+    1606: ["already_initialized"],
+  },
+  wage_streaming: {
+    1000: ["no_active_streams", "stream_not_found"],
+    1002: ["stream_not_active"],
+    1003: ["nothing_to_withdraw"],
+    1004: ["rate_too_low"],
+    1009: ["stream_not_paused"],
+    1103: ["amount_too_small"],
+    1312: ["invalid_status"],
+    1400: ["unauthorized"],
+    1500: ["invalid_address"],
+    1502: ["too_many_streams"],
+    1506: ["duration_too_long", "duration_too_short"],
+    1508: ["invalid_amount"],
+    1600: ["protocol_paused"],
+    1605: ["not_initialized"],
+    1606: ["already_initialized"],
+  },
+};
@@ -0,0 +1,12 @@
+/**
+ * Generated Move bindings
+ *
+ * Generated by `npm run generate:bindings`. Do not edit by hand.
+ */
+
+export * as compliance from "./compliance.js";
+export * as disputes from "./disputes.js";
+export * as emergency from "./emergency.js";
+export * as employerTreasury from "./employerTreasury.js";
+export * as photonRewards from "./photonRewards.js";
+export * as wageStreaming from "./wageStreaming.js";
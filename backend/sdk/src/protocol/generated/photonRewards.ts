@@ -0,0 +1,375 @@
+/**
+ * Generated Move bindings - photon_rewards
+ *
+ * Generated by `npm run generate:bindings` from the Move sources.
+ * Do not edit by hand; regenerate after changing the Move module.
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  U64Input,
+  entryPayload,
+  viewRequest,
+  u64,
+  toBigInt,
+  toNumber,
+  toBool,
+  toAddress,
+  toObjectAddress,
+} from "../core.js";
+
+export const MODULE_NAME = "photon_rewards";
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+/**
+ * `get_campaign_info(address): (u64, address, String, u8, u64, u64, u64)`
+ */
+export const getCampaignInfo = (
+  modules: ProtocolModules,
+  campaignAddress: string
+): ViewRequest<[bigint, string, string, number, bigint, bigint, bigint]> =>
+  viewRequest(modules.photonRewards, "get_campaign_info", [campaignAddress], (result) =>
+    [
+      toBigInt(result[0]),
+      toAddress(result[1]),
+      String(result[2]),
+      toNumber(result[3]),
+      toBigInt(result[4]),
+      toBigInt(result[5]),
+      toBigInt(result[6]),
+    ]
+  );
+
+/**
+ * `get_employee_rewards_summary(address): (u64, u64, u64, u64, u64, u64)`
+ */
+export const getEmployeeRewardsSummary = (
+  modules: ProtocolModules,
+  employee: string
+): ViewRequest<[bigint, bigint, bigint, bigint, bigint, bigint]> =>
+  viewRequest(modules.photonRewards, "get_employee_rewards_summary", [employee], (result) =>
+    [
+      toBigInt(result[0]),
+      toBigInt(result[1]),
+      toBigInt(result[2]),
+      toBigInt(result[3]),
+      toBigInt(result[4]),
+      toBigInt(result[5]),
+    ]
+  );
+
+/**
+ * `get_participation_info(address): (u64, u64, u64, u64, u64)`
+ */
+export const getParticipationInfo = (
+  modules: ProtocolModules,
+  participant: string
+): ViewRequest<[bigint, bigint, bigint, bigint, bigint]> =>
+  viewRequest(modules.photonRewards, "get_participation_info", [participant], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2]), toBigInt(result[3]), toBigInt(result[4])]
+  );
+
+/**
+ * `get_registry_stats(address): (u64, u64, u64, u64)`
+ */
+export const getRegistryStats = (
+  modules: ProtocolModules,
+  registryAddress: string
+): ViewRequest<[bigint, bigint, bigint, bigint]> =>
+  viewRequest(modules.photonRewards, "get_registry_stats", [registryAddress], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2]), toBigInt(result[3])]
+  );
+
+/**
+ * `get_streak_info(address): (u64, u64, u64)`
+ */
+export const getStreakInfo = (modules: ProtocolModules, employee: string): ViewRequest<[bigint, bigint, bigint]> =>
+  viewRequest(modules.photonRewards, "get_streak_info", [employee], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2])]
+  );
+
+/**
+ * `is_photon_enabled(address): bool`
+ */
+export const isPhotonEnabled = (modules: ProtocolModules, registryAddress: string): ViewRequest<boolean> =>
+  viewRequest(modules.photonRewards, "is_photon_enabled", [registryAddress], (result) => toBool(result[0]));
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Activate campaign (move from draft to active)
+ *
+ * `activate_campaign(&signer, address, address)`
+ */
+export const activateCampaign = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  campaignAddress: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "activate_campaign", [registryAddress, campaignAddress]);
+
+/**
+ * Add milestone to campaign
+ *
+ * `add_milestone(&signer, address, u64, String, String, u64, u64, bool, u64)`
+ */
+export const addMilestone = (
+  modules: ProtocolModules,
+  campaignAddress: string,
+  milestoneId: U64Input,
+  name: string,
+  description: string,
+  targetValue: U64Input,
+  rewardAmount: U64Input,
+  isRequired: boolean,
+  sequenceOrder: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "add_milestone", [
+    campaignAddress,
+    u64(milestoneId),
+    name,
+    description,
+    u64(targetValue),
+    u64(rewardAmount),
+    isRequired,
+    u64(sequenceOrder),
+  ]);
+
+/**
+ * Add reward tier to campaign
+ *
+ * `add_reward_tier(&signer, address, u64, u64, u64, u64, u64)`
+ */
+export const addRewardTier = (
+  modules: ProtocolModules,
+  campaignAddress: string,
+  tierLevel: U64Input,
+  minThreshold: U64Input,
+  maxThreshold: U64Input,
+  rewardMultiplier: U64Input,
+  bonusAmount: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "add_reward_tier", [
+    campaignAddress,
+    u64(tierLevel),
+    u64(minThreshold),
+    u64(maxThreshold),
+    u64(rewardMultiplier),
+    u64(bonusAmount),
+  ]);
+
+/**
+ * Award badge to employee
+ *
+ * `award_badge(&signer, address, u64, String, String, u64, u8, address)`
+ */
+export const awardBadge = (
+  modules: ProtocolModules,
+  employee: string,
+  badgeId: U64Input,
+  name: string,
+  description: string,
+  campaignId: U64Input,
+  rarity: number,
+  registryAddress: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "award_badge", [
+    employee,
+    u64(badgeId),
+    name,
+    description,
+    u64(campaignId),
+    rarity,
+    registryAddress,
+  ]);
+
+/**
+ * Claim earned rewards
+ *
+ * `claim_rewards(&signer, address, address)`
+ */
+export const claimRewards = (
+  modules: ProtocolModules,
+  campaignAddress: string,
+  registryAddress: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "claim_rewards", [campaignAddress, registryAddress]);
+
+/**
+ * Create a new Photon campaign
+ *
+ * `create_campaign(&signer, address, String, String, u8, u8, u64, u64, u64, u64, u64, Object<Metadata>, String)`
+ */
+export const createCampaign = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  name: string,
+  description: string,
+  rewardType: number,
+  triggerType: number,
+  startTime: U64Input,
+  endTime: U64Input,
+  totalBudget: U64Input,
+  perParticipantCap: U64Input,
+  minEligibilityScore: U64Input,
+  rewardTokenMetadata: string,
+  photonExternalId: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "create_campaign", [
+    registryAddress,
+    name,
+    description,
+    rewardType,
+    triggerType,
+    u64(startTime),
+    u64(endTime),
+    u64(totalBudget),
+    u64(perParticipantCap),
+    u64(minEligibilityScore),
+    rewardTokenMetadata,
+    photonExternalId,
+  ]);
+
+/**
+ * Initialize employee rewards tracking
+ *
+ * `initialize_employee_rewards(&signer)`
+ */
+export const initializeEmployeeRewards = (modules: ProtocolModules): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "initialize_employee_rewards", []);
+
+/**
+ * Initialize employer campaign registry
+ *
+ * `initialize_employer_campaign_registry(&signer)`
+ */
+export const initializeEmployerCampaignRegistry = (modules: ProtocolModules): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "initialize_employer_campaign_registry", []);
+
+/**
+ * Initialize the global rewards registry
+ *
+ * `initialize_rewards_system(&signer, address, u64, String)`
+ */
+export const initializeRewardsSystem = (
+  modules: ProtocolModules,
+  platformTreasury: string,
+  platformFeeBps: U64Input,
+  photonApiEndpoint: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "initialize_rewards_system", [
+    platformTreasury,
+    u64(platformFeeBps),
+    photonApiEndpoint,
+  ]);
+
+/**
+ * Pause an active campaign
+ *
+ * `pause_campaign(&signer, address, address)`
+ */
+export const pauseCampaign = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  campaignAddress: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "pause_campaign", [registryAddress, campaignAddress]);
+
+/**
+ * Record daily check-in for streak
+ *
+ * `record_daily_checkin(&signer)`
+ */
+export const recordDailyCheckin = (modules: ProtocolModules): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "record_daily_checkin", []);
+
+/**
+ * Register for a campaign
+ *
+ * `register_for_campaign(&signer, address, address)`
+ */
+export const registerForCampaign = (
+  modules: ProtocolModules,
+  campaignAddress: string,
+  registryAddress: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "register_for_campaign", [campaignAddress, registryAddress]);
+
+/**
+ * Register with referral
+ *
+ * `register_with_referral(&signer, address, address, address)`
+ */
+export const registerWithReferral = (
+  modules: ProtocolModules,
+  campaignAddress: string,
+  registryAddress: string,
+  referrer: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "register_with_referral", [campaignAddress, registryAddress, referrer]);
+
+/**
+ * Resume a paused campaign
+ *
+ * `resume_campaign(&signer, address, address)`
+ */
+export const resumeCampaign = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  campaignAddress: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "resume_campaign", [registryAddress, campaignAddress]);
+
+/**
+ * Trigger Photon campaign event (for external API integration)
+ *
+ * `trigger_photon_event(&signer, address, address, String, String, address)`
+ */
+export const triggerPhotonEvent = (
+  modules: ProtocolModules,
+  campaignAddress: string,
+  participant: string,
+  eventType: string,
+  eventData: string,
+  registryAddress: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "trigger_photon_event", [
+    campaignAddress,
+    participant,
+    eventType,
+    eventData,
+    registryAddress,
+  ]);
+
+/**
+ * Update Photon integration settings
+ *
+ * `update_photon_settings(&signer, address, bool, String)`
+ */
+export const updatePhotonSettings = (
+  modules: ProtocolModules,
+  registryAddress: string,
+  enabled: boolean,
+  newEndpoint: string
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "update_photon_settings", [registryAddress, enabled, newEndpoint]);
+
+/**
+ * Update participant progress (called by authorized system or oracle)
+ *
+ * `update_progress(&signer, address, address, u64)`
+ */
+export const updateProgress = (
+  modules: ProtocolModules,
+  participant: string,
+  campaignAddress: string,
+  newProgress: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.photonRewards, "update_progress", [participant, campaignAddress, u64(newProgress)]);
@@ -0,0 +1,247 @@
+/**
+ * Generated Move bindings - wage_streaming
+ *
+ * Generated by `npm run generate:bindings` from the Move sources.
+ * Do not edit by hand; regenerate after changing the Move module.
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  U64Input,
+  entryPayload,
+  viewRequest,
+  u64,
+  toBigInt,
+  toNumber,
+  toBool,
+  toAddress,
+  toOption,
+  toObjectAddress,
+} from "../core.js";
+
+export const MODULE_NAME = "wage_streaming";
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+/**
+ * Get registry statistics (TVL and fees count APT streams only)
+ *
+ * `get_registry_stats(address): (u64, u64, u64, u64)`
+ */
+export const getRegistryStats = (
+  modules: ProtocolModules,
+  registryAddr: string
+): ViewRequest<[bigint, bigint, bigint, bigint]> =>
+  viewRequest(modules.wageStreaming, "get_registry_stats", [registryAddr], (result) =>
+    [toBigInt(result[0]), toBigInt(result[1]), toBigInt(result[2]), toBigInt(result[3])]
+  );
+
+/**
+ * Get the fungible asset a stream pays in (none for APT streams)
+ *
+ * `get_stream_asset(address, u64): Option<Object<Metadata>>`
+ */
+export const getStreamAsset = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): ViewRequest<string | null> =>
+  viewRequest(modules.wageStreaming, "get_stream_asset", [registryAddr, u64(streamId)], (result) =>
+    toOption(result[0], (v) => toObjectAddress(v))
+  );
+
+/**
+ * Get stream details
+ *
+ * `get_stream_info(address, u64): (address, address, u64, u64, u64, u64, u64, u8)`
+ */
+export const getStreamInfo = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): ViewRequest<[string, string, bigint, bigint, bigint, bigint, bigint, number]> =>
+  viewRequest(modules.wageStreaming, "get_stream_info", [registryAddr, u64(streamId)], (result) =>
+    [
+      toAddress(result[0]),
+      toAddress(result[1]),
+      toBigInt(result[2]),
+      toBigInt(result[3]),
+      toBigInt(result[4]),
+      toBigInt(result[5]),
+      toBigInt(result[6]),
+      toNumber(result[7]),
+    ]
+  );
+
+/**
+ * Get current withdrawable balance for a stream
+ *
+ * `get_withdrawable_balance(address, u64): u64`
+ */
+export const getWithdrawableBalance = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): ViewRequest<bigint> =>
+  viewRequest(modules.wageStreaming, "get_withdrawable_balance", [registryAddr, u64(streamId)], (result) =>
+    toBigInt(result[0])
+  );
+
+/**
+ * Check if employee has active streams
+ *
+ * `has_active_streams(address): bool`
+ */
+export const hasActiveStreams = (modules: ProtocolModules, employee: string): ViewRequest<boolean> =>
+  viewRequest(modules.wageStreaming, "has_active_streams", [employee], (result) => toBool(result[0]));
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Create a new wage stream from employer to employee
+ * Funds are transferred to escrow immediately
+ *
+ * `create_stream(&signer, address, address, u64, u64, String)`
+ */
+export const createStream = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employee: string,
+  totalAmount: U64Input,
+  durationSeconds: U64Input,
+  jobDescription: string
+): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "create_stream", [
+    registryAddr,
+    employee,
+    u64(totalAmount),
+    u64(durationSeconds),
+    jobDescription,
+  ]);
+
+/**
+ * Create a wage stream paid in a fungible asset (e.g. a stablecoin)
+ * Amounts are in the asset's smallest unit; the protocol fee is paid in the asset
+ *
+ * `create_stream_with_asset(&signer, address, address, Object<Metadata>, u64, u64, String)`
+ */
+export const createStreamWithAsset = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employee: string,
+  asset: string,
+  totalAmount: U64Input,
+  durationSeconds: U64Input,
+  jobDescription: string
+): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "create_stream_with_asset", [
+    registryAddr,
+    employee,
+    asset,
+    u64(totalAmount),
+    u64(durationSeconds),
+    jobDescription,
+  ]);
+
+/**
+ * Emergency pause protocol (admin only)
+ *
+ * `emergency_pause(&signer, address)`
+ */
+export const emergencyPause = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "emergency_pause", [registryAddr]);
+
+/**
+ * Resume protocol from emergency pause (admin only)
+ *
+ * `emergency_resume(&signer, address)`
+ */
+export const emergencyResume = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "emergency_resume", [registryAddr]);
+
+/**
+ * Initialize the wage streaming protocol
+ * Can only be called once by the protocol deployer
+ *
+ * `initialize(&signer, u64)`
+ */
+export const initialize = (modules: ProtocolModules, feeRateBps: U64Input): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "initialize", [u64(feeRateBps)]);
+
+/**
+ * Pause a stream (only employer can pause)
+ *
+ * `pause_stream(&signer, address, u64)`
+ */
+export const pauseStream = (modules: ProtocolModules, registryAddr: string, streamId: U64Input): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "pause_stream", [registryAddr, u64(streamId)]);
+
+/**
+ * Resume a paused stream
+ *
+ * `resume_stream(&signer, address, u64)`
+ */
+export const resumeStream = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "resume_stream", [registryAddr, u64(streamId)]);
+
+/**
+ * Terminate a stream early (returns remaining funds to employer)
+ *
+ * `terminate_stream(&signer, address, u64)`
+ */
+export const terminateStream = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "terminate_stream", [registryAddr, u64(streamId)]);
+
+/**
+ * Transfer admin role (admin only)
+ *
+ * `transfer_admin(&signer, address, address)`
+ */
+export const transferAdmin = (modules: ProtocolModules, registryAddr: string, newAdmin: string): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "transfer_admin", [registryAddr, newAdmin]);
+
+/**
+ * Update protocol fee rate (admin only)
+ *
+ * `update_fee_rate(&signer, address, u64)`
+ */
+export const updateFeeRate = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  newFeeRateBps: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "update_fee_rate", [registryAddr, u64(newFeeRateBps)]);
+
+/**
+ * Withdraw from all active streams for an employee
+ *
+ * `withdraw_all(&signer, address)`
+ */
+export const withdrawAll = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "withdraw_all", [registryAddr]);
+
+/**
+ * Withdraw accrued wages from a stream
+ *
+ * `withdraw_wages(&signer, address, u64)`
+ */
+export const withdrawWages = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): EntryFunctionPayload =>
+  entryPayload(modules.wageStreaming, "withdraw_wages", [registryAddr, u64(streamId)]);
@@ -0,0 +1,252 @@
+/**
+ * Protocol Client - Income Tax
+ *
+ * Income tax on salary for an Indian fiscal year (April to March) under the old
+ * or the new regime (`compliance.TAX_REGIME`): the slab rates, the standard
+ * deduction, the section 87A rebate and the 4% health and education cess, as
+ * Form 16 Part B computes them. The compliance module's `calculate_tds` only
+ * applies a flat rate chosen by declared income. Amounts are in the registry's
+ * units (8 decimals of a rupee). Surcharge, on income above ₹50 lakh, is not included.
+ *
+ * @example
+ * ```typescript
+ * const tax = salaryTax({ fiscalYear: 2026, regime: compliance.TAX_REGIME.NEW, grossSalary });
+ * tax.taxableIncome; // gross salary less the standard deduction, to the nearest ₹10
+ * tax.totalTax; // after the 87A rebate, with cess
+ * ```
+ */
+
+import { RUPEE_UNITS, TAX_REGIME } from "./compliance.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TaxSlab {
+  /** Income up to which the slab's rate applies; null for the top slab */
+  upTo: bigint | null;
+  rateBps: bigint;
+}
+
+export interface TaxRegimeRules {
+  regime: number;
+  /** First fiscal year (by its starting year) the rules apply to */
+  since: number;
+  slabs: TaxSlab[];
+  standardDeduction: bigint;
+  /** Section 87A: tax up to `maxRebate` is waived on taxable income up to `rebateIncomeLimit` */
+  rebateIncomeLimit: bigint;
+  maxRebate: bigint;
+  /** Tax on income just over the rebate limit is capped at the income over it */
+  rebateMarginalRelief: boolean;
+  /** Professional tax (section 16(iii)) and Chapter VI-A deductions such as 80C are allowed */
+  allowsDeductions: boolean;
+}
+
+export interface SalaryTaxInput {
+  /** Starting year of the fiscal year, e.g. 2026 for FY 2026-27 */
+  fiscalYear: number;
+  regime: number;
+  grossSalary: bigint;
+  professionalTax?: bigint;
+  /** Employee's EPF contribution, deductible under section 80C in the old regime */
+  employeeEpf?: bigint;
+  /** Other section 80C investments (PPF, ELSS, life insurance), capped together with the EPF */
+  investments80C?: bigint;
+  /** Other deductions the old regime allows, e.g. section 80D health insurance or home loan interest */
+  otherDeductions?: bigint;
+}
+
+export interface SalaryTax {
+  fiscalYear: number;
+  regime: number;
+  grossSalary: bigint;
+  standardDeduction: bigint;
+  /** Allowed professional tax; 0 in the new regime */
+  professionalTax: bigint;
+  incomeFromSalary: bigint;
+  /** Allowed section 80C deduction; 0 in the new regime */
+  section80C: bigint;
+  /** Allowed other deductions; 0 in the new regime */
+  otherDeductions: bigint;
+  /** Rounded to the nearest ₹10 (section 288A) */
+  taxableIncome: bigint;
+  taxOnIncome: bigint;
+  rebate: bigint;
+  cess: bigint;
+  /** Rounded to the nearest ₹10 (section 288B) */
+  totalTax: bigint;
+}
+
+// ============================================
+// RULES
+// ============================================
+
+const ZERO = BigInt(0);
+const rupees = (amount: number): bigint => BigInt(amount) * RUPEE_UNITS;
+
+const slabs = (bounds: number[], ratesPercent: number[]): TaxSlab[] =>
+  ratesPercent.map((rate, i) => ({
+    upTo: i < bounds.length ? rupees(bounds[i]) : null,
+    rateBps: BigInt(rate * 100),
+  }));
+
+/** Health and education cess on income tax, in bps */
+export const CESS_BPS = BigInt(400);
+
+/** Cap on section 80C deductions */
+export const SECTION_80C_LIMIT = rupees(150_000);
+
+/**
+ * Rules by regime and the fiscal year they took effect, oldest first
+ */
+export const TAX_RULES: TaxRegimeRules[] = [
+  {
+    regime: TAX_REGIME.OLD,
+    since: 2023,
+    slabs: slabs([250_000, 500_000, 1_000_000], [0, 5, 20, 30]),
+    standardDeduction: rupees(50_000),
+    rebateIncomeLimit: rupees(500_000),
+    maxRebate: rupees(12_500),
+    rebateMarginalRelief: false,
+    allowsDeductions: true,
+  },
+  {
+    regime: TAX_REGIME.NEW,
+    since: 2023,
+    slabs: slabs([300_000, 600_000, 900_000, 1_200_000, 1_500_000], [0, 5, 10, 15, 20, 30]),
+    standardDeduction: rupees(50_000),
+    rebateIncomeLimit: rupees(700_000),
+    maxRebate: rupees(25_000),
+    rebateMarginalRelief: true,
+    allowsDeductions: false,
+  },
+  {
+    regime: TAX_REGIME.NEW,
+    since: 2024,
+    slabs: slabs([300_000, 700_000, 1_000_000, 1_200_000, 1_500_000], [0, 5, 10, 15, 20, 30]),
+    standardDeduction: rupees(75_000),
+    rebateIncomeLimit: rupees(700_000),
+    maxRebate: rupees(25_000),
+    rebateMarginalRelief: true,
+    allowsDeductions: false,
+  },
+  {
+    regime: TAX_REGIME.NEW,
+    since: 2025,
+    slabs: slabs([400_000, 800_000, 1_200_000, 1_600_000, 2_000_000, 2_400_000], [0, 5, 10, 15, 20, 25, 30]),
+    standardDeduction: rupees(75_000),
+    rebateIncomeLimit: rupees(1_200_000),
+    maxRebate: rupees(60_000),
+    rebateMarginalRelief: true,
+    allowsDeductions: false,
+  },
+];
+
+/**
+ * The rules of a regime for a fiscal year: the latest to take effect by then
+ * (years before the first entry use it)
+ */
+export const taxRules = (fiscalYear: number, regime: number): TaxRegimeRules => {
+  const rules = TAX_RULES.filter((entry) => entry.regime === regime);
+  if (rules.length === 0) throw new Error(`Unknown tax regime: ${regime}`);
+  return rules.filter((entry) => entry.since <= fiscalYear).pop() ?? rules[0];
+};
+
+// ============================================
+// COMPUTATION
+// ============================================
+
+const TEN_RUPEES = rupees(10);
+
+const min = (a: bigint, b: bigint): bigint => (a < b ? a : b);
+const positive = (amount: bigint): bigint => (amount > ZERO ? amount : ZERO);
+
+/**
+ * Rounded to the nearest ₹10, halves up
+ */
+export const roundToTenRupees = (amount: bigint): bigint =>
+  ((amount + TEN_RUPEES / BigInt(2)) / TEN_RUPEES) * TEN_RUPEES;
+
+/**
+ * Tax on an income at slab rates, before rebate and cess
+ */
+export const slabTax = (income: bigint, taxSlabs: TaxSlab[]): bigint => {
+  let tax = ZERO;
+  let lower = ZERO;
+  for (const slab of taxSlabs) {
+    const upper = slab.upTo === null ? income : min(income, slab.upTo);
+    if (upper > lower) tax += ((upper - lower) * slab.rateBps) / BigInt(10_000);
+    if (slab.upTo === null || income <= slab.upTo) break;
+    lower = slab.upTo;
+  }
+  return tax;
+};
+
+/**
+ * Section 87A rebate on a taxable income's slab tax, with marginal relief where the regime has it
+ */
+export const rebate87A = (taxableIncome: bigint, taxOnIncome: bigint, rules: TaxRegimeRules): bigint => {
+  if (taxableIncome <= rules.rebateIncomeLimit) return min(taxOnIncome, rules.maxRebate);
+  if (!rules.rebateMarginalRelief) return ZERO;
+  return positive(taxOnIncome - (taxableIncome - rules.rebateIncomeLimit));
+};
+
+/**
+ * A year's income tax on salary, line by line as in Form 16 Part B
+ */
+export const salaryTax = (input: SalaryTaxInput): SalaryTax => {
+  const rules = taxRules(input.fiscalYear, input.regime);
+  const standardDeduction = min(input.grossSalary, rules.standardDeduction);
+  const professionalTax = rules.allowsDeductions ? (input.professionalTax ?? ZERO) : ZERO;
+  const incomeFromSalary = positive(input.grossSalary - standardDeduction - professionalTax);
+  const section80C = rules.allowsDeductions
+    ? min((input.employeeEpf ?? ZERO) + (input.investments80C ?? ZERO), SECTION_80C_LIMIT)
+    : ZERO;
+  const otherDeductions = rules.allowsDeductions ? (input.otherDeductions ?? ZERO) : ZERO;
+
+  const taxableIncome = roundToTenRupees(positive(incomeFromSalary - section80C - otherDeductions));
+  const taxOnIncome = slabTax(taxableIncome, rules.slabs);
+  const rebate = rebate87A(taxableIncome, taxOnIncome, rules);
+  const cess = ((taxOnIncome - rebate) * CESS_BPS) / BigInt(10_000);
+
+  return {
+    fiscalYear: input.fiscalYear,
+    regime: input.regime,
+    grossSalary: input.grossSalary,
+    standardDeduction,
+    professionalTax,
+    incomeFromSalary,
+    section80C,
+    otherDeductions,
+    taxableIncome,
+    taxOnIncome,
+    rebate,
+    cess,
+    totalTax: roundToTenRupees(taxOnIncome - rebate + cess),
+  };
+};
+
+/**
+ * The year's tax under each regime for the same salary and deductions
+ */
+export interface RegimeComparison {
+  old: SalaryTax;
+  new: SalaryTax;
+  /** The regime with less tax; the new regime (the default) on a tie */
+  better: number;
+  /** Tax saved by choosing `better` */
+  saving: bigint;
+}
+
+export const compareTaxRegimes = (input: Omit<SalaryTaxInput, "regime">): RegimeComparison => {
+  const old = salaryTax({ ...input, regime: TAX_REGIME.OLD });
+  const next = salaryTax({ ...input, regime: TAX_REGIME.NEW });
+  const oldIsBetter = old.totalTax < next.totalTax;
+  return {
+    old,
+    new: next,
+    better: oldIsBetter ? TAX_REGIME.OLD : TAX_REGIME.NEW,
+    saving: oldIsBetter ? next.totalTax - old.totalTax : old.totalTax - next.totalTax,
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * Wage Protocol - Shared Protocol Client
+ *
+ * Typed entry payload builders and view parsers for every Move module. Used by
+ * `WageProtocolSDK`, the Next.js app (`frontend/lib/aptos`) and Node scripts.
+ * The builders wrap the bindings generated from the module ABIs (`bindings`).
+ *
+ * @example
+ * ```typescript
+ * import { getProtocolModules, executeView, fetchEvents, wageStreaming } from "@wage-protocol/sdk/protocol";
+ *
+ * const modules = getProtocolModules(CONTRACT_ADDRESS);
+ * const info = await executeView(aptos, wageStreaming.getStreamInfoView(modules, REGISTRY, 1));
+ * const payload = wageStreaming.withdrawWagesPayload(modules, REGISTRY, 1);
+ * const { events, cursor } = await fetchEvents(aptos, modules, wageStreaming.EVENTS.withdrawal);
+ * ```
+ */
+
+export * from "./core.js";
+export * from "./errors.js";
+export * from "./simulation.js";
+export * from "./events.js";
+export * from "./networks.js";
+export * from "./amounts.js";
+export * from "./prices.js";
+export * from "./accrual.js";
+export * from "./streamIndex.js";
+export * from "./incomeTax.js";
+export * from "./deductions.js";
+export * from "./minimumWage.js";
+
+export * as wageStreaming from "./wageStreaming.js";
+export * as employerTreasury from "./employerTreasury.js";
+export * as compliance from "./compliance.js";
+export * as disputes from "./disputes.js";
+export * as emergency from "./emergency.js";
+export * as photonRewards from "./photonRewards.js";
+
+export * as bindings from "./generated/index.js";
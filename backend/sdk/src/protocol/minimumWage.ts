@@ -0,0 +1,213 @@
+/**
+ * Protocol Client - Minimum Wage
+ *
+ * Minimum wages by state and skill category, and a check of a stream's rate
+ * against them. `verify_stream_compliance` only checks a flat ₹500 a day; states
+ * notify their own floors (basic wage plus variable dearness allowance) and
+ * revise them every April and October, so each revision is a new, dated entry in
+ * `MINIMUM_WAGE_TABLES` and a check uses the one in force when the wage is paid.
+ * The rates are monthly, for shops and commercial establishments in each state's
+ * highest-paid zone, rounded to the rupee; `OTHER` uses the central sphere's
+ * area "A" rates. Confirm them against the current notification before relying
+ * on a check. Amounts are in the registry's units (8 decimals of a rupee).
+ *
+ * @example
+ * ```typescript
+ * const rate = streamRate(totalAmount, durationSeconds); // what create_stream will set
+ * const check = checkMinimumWage(rate, compliance.STATE_CODES.KARNATAKA, SKILL_CATEGORIES.SKILLED, { quote });
+ * check.status; // "below"
+ * check.shortfall; // a month's pay short of the floor
+ * ```
+ */
+
+import { APT, TokenAmount, TokenMetadata } from "./amounts.js";
+import { amountForDuration, nowSeconds } from "./accrual.js";
+import { RUPEE_UNITS, STATE_CODES } from "./compliance.js";
+import { professionalTaxSchedule } from "./deductions.js";
+import { PriceQuote, PriceUnavailableError, toFiat } from "./prices.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export const SKILL_CATEGORIES = {
+  UNSKILLED: 0,
+  SEMI_SKILLED: 1,
+  SKILLED: 2,
+  HIGHLY_SKILLED: 3,
+} as const;
+
+export const SKILL_CATEGORY_NAMES: Record<number, string> = {
+  [SKILL_CATEGORIES.UNSKILLED]: "Unskilled",
+  [SKILL_CATEGORIES.SEMI_SKILLED]: "Semi-skilled",
+  [SKILL_CATEGORIES.SKILLED]: "Skilled",
+  [SKILL_CATEGORIES.HIGHLY_SKILLED]: "Highly skilled",
+};
+
+export interface MinimumWageRate {
+  stateCode: number;
+  skill: number;
+  /** Minimum wage for a month */
+  monthly: bigint;
+}
+
+/**
+ * One revision of the minimum wages
+ */
+export interface MinimumWageTable {
+  /** e.g. "2025-10" */
+  version: string;
+  /** When the rates took effect, in seconds */
+  effectiveFrom: number;
+  rates: MinimumWageRate[];
+}
+
+/**
+ * The minimum wage that applies to an employee
+ */
+export interface MinimumWageFloor extends MinimumWageRate {
+  state: string;
+  /** Minimum wage for a working day, a month being 26 of them */
+  daily: bigint;
+  /** Version of the table the rate comes from */
+  version: string;
+}
+
+export type MinimumWageStatus = "compliant" | "below";
+
+export interface MinimumWageCheck {
+  floor: MinimumWageFloor;
+  /** What the stream pays per working day */
+  daily: bigint;
+  /** What the stream pays in 30 days */
+  monthly: bigint;
+  status: MinimumWageStatus;
+  /** How far a month's pay falls short of the floor; 0 when compliant */
+  shortfall: bigint;
+}
+
+export interface MinimumWageCheckOptions {
+  /** The streamed token; APT by default */
+  token?: TokenMetadata;
+  /** INR price of the token; without one, token units count as rupee units, as the registry reads them */
+  quote?: PriceQuote;
+  /** When the wage is paid, in seconds, to pick the table in force; now by default */
+  at?: number;
+  tables?: MinimumWageTable[];
+}
+
+// ============================================
+// TABLES
+// ============================================
+
+const rupees = (amount: number): bigint => BigInt(amount) * RUPEE_UNITS;
+
+/** A month's pay covers 26 working days */
+export const WORKING_DAYS_PER_MONTH = BigInt(26);
+
+const SECONDS_PER_MONTH = 30 * 24 * 60 * 60;
+
+/** Monthly rates for unskilled, semi-skilled, skilled and highly skilled work */
+const byState = (stateCode: number, monthly: [number, number, number, number]): MinimumWageRate[] =>
+  monthly.map((amount, skill) => ({ stateCode, skill, monthly: rupees(amount) }));
+
+/**
+ * Minimum wage revisions, oldest first
+ */
+export const MINIMUM_WAGE_TABLES: MinimumWageTable[] = [
+  {
+    version: "2025-10",
+    effectiveFrom: Date.parse("2025-10-01T00:00:00+05:30") / 1000,
+    rates: [
+      ...byState(STATE_CODES.MAHARASHTRA, [12_800, 13_400, 14_100, 15_100]),
+      ...byState(STATE_CODES.KARNATAKA, [14_000, 14_800, 15_700, 16_800]),
+      ...byState(STATE_CODES.WEST_BENGAL, [9_600, 10_560, 11_620, 12_780]),
+      ...byState(STATE_CODES.ANDHRA_PRADESH, [12_000, 12_600, 13_400, 14_400]),
+      ...byState(STATE_CODES.TELANGANA, [11_900, 12_500, 13_300, 14_300]),
+      ...byState(STATE_CODES.TAMIL_NADU, [10_900, 11_500, 12_200, 13_100]),
+      ...byState(STATE_CODES.GUJARAT, [11_900, 12_200, 12_500, 13_000]),
+      ...byState(STATE_CODES.OTHER, [16_300, 18_100, 19_800, 21_500]),
+    ],
+  },
+];
+
+/**
+ * The table in force at a time; the oldest one for times before any took effect
+ */
+export const minimumWageTable = (
+  at: number = nowSeconds(),
+  tables: MinimumWageTable[] = MINIMUM_WAGE_TABLES
+): MinimumWageTable =>
+  tables.reduce((current, table) =>
+    table.effectiveFrom <= at && table.effectiveFrom >= current.effectiveFrom ? table : current
+  );
+
+/**
+ * The minimum wage for a state and skill category. States without rates of
+ * their own fall back to `OTHER`, unknown categories to unskilled.
+ */
+export const minimumWageFloor = (
+  stateCode: number,
+  skill: number,
+  options: Pick<MinimumWageCheckOptions, "at" | "tables"> = {}
+): MinimumWageFloor => {
+  const table = minimumWageTable(options.at, options.tables);
+  const rateFor = (state: number, category: number) =>
+    table.rates.find((rate) => rate.stateCode === state && rate.skill === category);
+  const rate =
+    rateFor(stateCode, skill) ??
+    rateFor(stateCode, SKILL_CATEGORIES.UNSKILLED) ??
+    rateFor(STATE_CODES.OTHER, skill) ??
+    rateFor(STATE_CODES.OTHER, SKILL_CATEGORIES.UNSKILLED);
+  if (!rate) {
+    throw new Error(`Minimum wage table ${table.version} has no rate for state ${stateCode}`);
+  }
+
+  return {
+    ...rate,
+    state: professionalTaxSchedule(rate.stateCode).state,
+    daily: rate.monthly / WORKING_DAYS_PER_MONTH,
+    version: table.version,
+  };
+};
+
+// ============================================
+// CHECKS
+// ============================================
+
+/**
+ * What a stream rate (scaled by `STREAM_PRECISION`) pays in rupees per working
+ * day and per 30 days
+ */
+export const wageEquivalents = (
+  ratePerSecond: bigint,
+  options: Pick<MinimumWageCheckOptions, "token" | "quote"> = {}
+): { daily: bigint; monthly: bigint } => {
+  const { token = APT, quote } = options;
+  let monthly = amountForDuration(ratePerSecond, SECONDS_PER_MONTH);
+  if (quote) {
+    if (quote.currency !== "INR") {
+      throw new PriceUnavailableError(`Minimum wages are in INR, not ${quote.currency}`);
+    }
+    const inr = toFiat(TokenAmount.of(monthly, token), quote);
+    monthly = BigInt(Math.round(inr * Number(RUPEE_UNITS)));
+  }
+  return { daily: monthly / WORKING_DAYS_PER_MONTH, monthly };
+};
+
+/**
+ * Check a stream rate (scaled by `STREAM_PRECISION`) against the minimum wage
+ * for a state and skill category
+ */
+export const checkMinimumWage = (
+  ratePerSecond: bigint,
+  stateCode: number,
+  skill: number,
+  options: MinimumWageCheckOptions = {}
+): MinimumWageCheck => {
+  const floor = minimumWageFloor(stateCode, skill, options);
+  const { daily, monthly } = wageEquivalents(ratePerSecond, options);
+  const shortfall = monthly < floor.monthly ? floor.monthly - monthly : BigInt(0);
+
+  return { floor, daily, monthly, status: shortfall > BigInt(0) ? "below" : "compliant", shortfall };
+};
@@ -0,0 +1,186 @@
+/**
+ * Protocol Client - Network Profiles
+ *
+ * Where the protocol is deployed on each Aptos network, with the public node
+ * and faucet to use there. Profile names match the ts-sdk `Network` values, so
+ * `profile.name as Network` can be passed straight to an `AptosConfig`.
+ *
+ * @example
+ * ```typescript
+ * const profile = resolveNetworkProfile("devnet", { deployment: { moduleAddress: "0x42" } });
+ * const sdk = new WageProtocolSDK({
+ *   network: profile.name as Network,
+ *   nodeUrl: profile.nodeUrl,
+ *   ...requireDeployment(profile),
+ * });
+ * ```
+ */
+
+import { APT, TokenMetadata } from "./amounts.js";
+import { ProtocolError } from "./errors.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export const NETWORK_PROFILE_NAMES = ["local", "devnet", "testnet", "mainnet"] as const;
+
+export type NetworkProfileName = (typeof NETWORK_PROFILE_NAMES)[number];
+
+/**
+ * Addresses of one protocol deployment
+ */
+export interface ProtocolDeployment {
+  moduleAddress: string;
+  /** Address holding the module registries (defaults to moduleAddress) */
+  registryAddress?: string;
+}
+
+export interface NetworkProfile {
+  name: NetworkProfileName;
+  label: string;
+  /** Chain id wallets report for the network; null where it changes on every reset (devnet) */
+  chainId: number | null;
+  nodeUrl: string;
+  faucetUrl?: string;
+  /** Protocol addresses, or null when the protocol is not deployed on the network */
+  deployment: ProtocolDeployment | null;
+  /** Fungible assets (e.g. stablecoins) offered for wages and treasuries besides APT */
+  tokens: TokenMetadata[];
+}
+
+/**
+ * Overrides for a profile, e.g. a local deployment's addresses or a private node
+ */
+export type NetworkProfileOverrides = Partial<Omit<NetworkProfile, "name">>;
+
+/**
+ * Network as reported by a wallet (the wallet adapter's `NetworkInfo`)
+ */
+export interface WalletNetwork {
+  name: string;
+  chainId?: number | null;
+}
+
+/**
+ * The protocol has no known deployment on the selected network
+ */
+export class NetworkNotDeployedError extends ProtocolError {}
+
+/**
+ * A wallet is connected to a different network than the app or script
+ */
+export class NetworkMismatchError extends ProtocolError {}
+
+// ============================================
+// PROFILES
+// ============================================
+
+export const NETWORK_PROFILES: Record<NetworkProfileName, NetworkProfile> = {
+  local: {
+    name: "local",
+    label: "Localnet",
+    chainId: 4,
+    nodeUrl: "http://127.0.0.1:8080/v1",
+    faucetUrl: "http://127.0.0.1:8081",
+    deployment: null,
+    tokens: [],
+  },
+  devnet: {
+    name: "devnet",
+    label: "Devnet",
+    chainId: null,
+    nodeUrl: "https://api.devnet.aptoslabs.com/v1",
+    faucetUrl: "https://faucet.devnet.aptoslabs.com",
+    deployment: null,
+    tokens: [],
+  },
+  testnet: {
+    name: "testnet",
+    label: "Testnet",
+    chainId: 2,
+    nodeUrl: "https://api.testnet.aptoslabs.com/v1",
+    faucetUrl: "https://faucet.testnet.aptoslabs.com",
+    deployment: {
+      moduleAddress: "0xb51fa9b2858dccf17483aa110f2a64ee7177483d79f613c864c7f4a020e940ab",
+    },
+    tokens: [
+      {
+        symbol: "USDC",
+        name: "USD Coin",
+        decimals: 6,
+        assetType: "0x69091fbab5f7d635ee7ac5098cf0c1efbe31d68fec0f2cd565e8d168daf52832",
+      },
+    ],
+  },
+  mainnet: {
+    name: "mainnet",
+    label: "Mainnet",
+    chainId: 1,
+    nodeUrl: "https://api.mainnet.aptoslabs.com/v1",
+    deployment: null,
+    tokens: [
+      {
+        symbol: "USDC",
+        name: "USD Coin",
+        decimals: 6,
+        assetType: "0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b",
+      },
+    ],
+  },
+};
+
+export const isNetworkProfileName = (value: string): value is NetworkProfileName =>
+  (NETWORK_PROFILE_NAMES as readonly string[]).includes(value);
+
+/**
+ * A built-in profile with overrides applied. Overriding `deployment` replaces it whole.
+ */
+export const resolveNetworkProfile = (
+  name: NetworkProfileName,
+  overrides: NetworkProfileOverrides = {}
+): NetworkProfile => {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  return { ...NETWORK_PROFILES[name], ...defined, name };
+};
+
+/**
+ * The profile's deployment, throwing when the protocol is not deployed there
+ */
+export const requireDeployment = (profile: NetworkProfile): Required<ProtocolDeployment> => {
+  if (!profile.deployment) {
+    throw new NetworkNotDeployedError(`The protocol has no known deployment on ${profile.label}`);
+  }
+  const { moduleAddress, registryAddress } = profile.deployment;
+  return { moduleAddress, registryAddress: registryAddress ?? moduleAddress };
+};
+
+/**
+ * Tokens wages and treasuries can be paid in on the profile's network, APT first
+ */
+export const profileTokens = (profile: NetworkProfile): TokenMetadata[] => [APT, ...profile.tokens];
+
+// ============================================
+// WALLET NETWORK CHECKS
+// ============================================
+
+/**
+ * Whether a wallet's network is the profile's network. Chain ids are compared
+ * when both sides have one, since wallets name custom networks freely.
+ */
+export const isWalletOnNetwork = (wallet: WalletNetwork, profile: NetworkProfile): boolean => {
+  if (wallet.chainId != null && profile.chainId !== null) return Number(wallet.chainId) === profile.chainId;
+  return wallet.name.toLowerCase() === profile.name;
+};
+
+/**
+ * Throw a `NetworkMismatchError` unless the wallet is on the profile's network
+ */
+export const assertWalletNetwork = (wallet: WalletNetwork | null | undefined, profile: NetworkProfile): void => {
+  if (wallet && isWalletOnNetwork(wallet, profile)) return;
+  throw new NetworkMismatchError(
+    wallet
+      ? `Wallet is connected to ${wallet.name}, not ${profile.label}. Switch the wallet's network.`
+      : `Wallet did not report its network; switch it to ${profile.label}.`
+  );
+};
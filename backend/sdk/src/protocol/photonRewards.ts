@@ -0,0 +1,575 @@
+/**
+ * Protocol Client - photon_rewards bindings
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  ViewResult,
+  U64Input,
+  mapView,
+  toBigInt,
+  toNumber,
+  toAddress,
+} from "./core.js";
+import { eventDefinition } from "./events.js";
+import * as abi from "./generated/photonRewards.js";
+
+// ============================================
+// TYPES & CONSTANTS
+// ============================================
+
+export interface CampaignInfo {
+  campaignId: bigint;
+  employer: string;
+  name: string;
+  status: number;
+  totalBudget: bigint;
+  distributedAmount: bigint;
+  totalParticipants: bigint;
+}
+
+export interface EmployeeRewardsSummary {
+  totalPatEarned: bigint;
+  totalPatClaimed: bigint;
+  pendingPat: bigint;
+  currentStreak: bigint;
+  campaignsParticipated: bigint;
+  engagementScore: bigint;
+}
+
+export interface ParticipationInfo {
+  campaignId: bigint;
+  currentProgress: bigint;
+  currentTier: bigint;
+  rewardsEarned: bigint;
+  rewardsClaimed: bigint;
+}
+
+export interface StreakInfo {
+  currentStreak: bigint;
+  longestStreak: bigint;
+  streakRewardsEarned: bigint;
+}
+
+export interface PhotonRegistryStats {
+  totalCampaigns: bigint;
+  totalPatDistributed: bigint;
+  totalUniqueParticipants: bigint;
+  activeCampaigns: bigint;
+}
+
+export const CAMPAIGN_STATUS = {
+  DRAFT: 0,
+  ACTIVE: 1,
+  PAUSED: 2,
+  COMPLETED: 3,
+  CANCELLED: 4,
+} as const;
+
+export const REWARD_TYPE = {
+  FIXED: 0,
+  PERCENTAGE: 1,
+  TIERED: 2,
+  MILESTONE: 3,
+} as const;
+
+export const TRIGGER_TYPE = {
+  ATTENDANCE: 0,
+  PERFORMANCE: 1,
+  REFERRAL: 2,
+  MILESTONE: 3,
+  STREAK: 4,
+  CUSTOM: 5,
+} as const;
+
+// ============================================
+// VIEW PARSERS
+// ============================================
+
+export const parseCampaignInfo = (result: ViewResult<typeof abi.getCampaignInfo>): CampaignInfo => {
+  const [campaignId, employer, name, status, totalBudget, distributedAmount, totalParticipants] = result;
+
+  return {
+    campaignId,
+    employer,
+    name,
+    status,
+    totalBudget,
+    distributedAmount,
+    totalParticipants,
+  };
+};
+
+export const parseEmployeeRewardsSummary = (
+  result: ViewResult<typeof abi.getEmployeeRewardsSummary>
+): EmployeeRewardsSummary => {
+  const [totalPatEarned, totalPatClaimed, pendingPat, currentStreak, campaignsParticipated, engagementScore] =
+    result;
+
+  return {
+    totalPatEarned,
+    totalPatClaimed,
+    pendingPat,
+    currentStreak,
+    campaignsParticipated,
+    engagementScore,
+  };
+};
+
+export const parseParticipationInfo = (result: ViewResult<typeof abi.getParticipationInfo>): ParticipationInfo => {
+  const [campaignId, currentProgress, currentTier, rewardsEarned, rewardsClaimed] = result;
+
+  return {
+    campaignId,
+    currentProgress,
+    currentTier,
+    rewardsEarned,
+    rewardsClaimed,
+  };
+};
+
+export const parseStreakInfo = (result: ViewResult<typeof abi.getStreakInfo>): StreakInfo => {
+  const [currentStreak, longestStreak, streakRewardsEarned] = result;
+
+  return {
+    currentStreak,
+    longestStreak,
+    streakRewardsEarned,
+  };
+};
+
+export const parsePhotonRegistryStats = (result: ViewResult<typeof abi.getRegistryStats>): PhotonRegistryStats => {
+  const [totalCampaigns, totalPatDistributed, totalUniqueParticipants, activeCampaigns] = result;
+
+  return {
+    totalCampaigns,
+    totalPatDistributed,
+    totalUniqueParticipants,
+    activeCampaigns,
+  };
+};
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+export const getCampaignInfoView = (modules: ProtocolModules, campaignAddr: string): ViewRequest<CampaignInfo> =>
+  mapView(abi.getCampaignInfo(modules, campaignAddr), parseCampaignInfo);
+
+export const getEmployeeRewardsSummaryView = (
+  modules: ProtocolModules,
+  employeeAddr: string
+): ViewRequest<EmployeeRewardsSummary> =>
+  mapView(abi.getEmployeeRewardsSummary(modules, employeeAddr), parseEmployeeRewardsSummary);
+
+export const getParticipationInfoView = (
+  modules: ProtocolModules,
+  participantAddr: string
+): ViewRequest<ParticipationInfo> =>
+  mapView(abi.getParticipationInfo(modules, participantAddr), parseParticipationInfo);
+
+export const getStreakInfoView = (modules: ProtocolModules, employeeAddr: string): ViewRequest<StreakInfo> =>
+  mapView(abi.getStreakInfo(modules, employeeAddr), parseStreakInfo);
+
+export const getRegistryStatsView = (
+  modules: ProtocolModules,
+  registryAddr: string
+): ViewRequest<PhotonRegistryStats> =>
+  mapView(abi.getRegistryStats(modules, registryAddr), parsePhotonRegistryStats);
+
+export const isPhotonEnabledView = (modules: ProtocolModules, registryAddr: string): ViewRequest<boolean> =>
+  abi.isPhotonEnabled(modules, registryAddr);
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Initialize the rewards registry (protocol admin)
+ */
+export const initializeRewardsSystemPayload = (
+  modules: ProtocolModules,
+  platformTreasury: string,
+  platformFeeBps: U64Input,
+  photonApiEndpoint: string
+): EntryFunctionPayload =>
+  abi.initializeRewardsSystem(modules, platformTreasury, platformFeeBps, photonApiEndpoint);
+
+/**
+ * Initialize rewards and streak tracking for the signer (employee)
+ */
+export const initializeEmployeeRewardsPayload = (modules: ProtocolModules): EntryFunctionPayload =>
+  abi.initializeEmployeeRewards(modules);
+
+/**
+ * Initialize the signer's campaign registry (employer)
+ */
+export const initializeEmployerCampaignRegistryPayload = (modules: ProtocolModules): EntryFunctionPayload =>
+  abi.initializeEmployerCampaignRegistry(modules);
+
+/**
+ * Create a draft campaign (employer)
+ */
+export const createCampaignPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  name: string,
+  description: string,
+  rewardType: number,
+  triggerType: number,
+  startTime: U64Input,
+  endTime: U64Input,
+  totalBudget: U64Input,
+  perParticipantCap: U64Input,
+  minEligibilityScore: U64Input,
+  rewardTokenMetadata: string,
+  photonExternalId: string
+): EntryFunctionPayload =>
+  abi.createCampaign(
+    modules,
+    registryAddr,
+    name,
+    description,
+    rewardType,
+    triggerType,
+    startTime,
+    endTime,
+    totalBudget,
+    perParticipantCap,
+    minEligibilityScore,
+    rewardTokenMetadata,
+    photonExternalId
+  );
+
+/**
+ * Add a milestone to a draft campaign (employer)
+ */
+export const addMilestonePayload = (
+  modules: ProtocolModules,
+  campaignAddr: string,
+  milestoneId: U64Input,
+  name: string,
+  description: string,
+  targetValue: U64Input,
+  rewardAmount: U64Input,
+  isRequired: boolean,
+  sequenceOrder: U64Input
+): EntryFunctionPayload =>
+  abi.addMilestone(
+    modules,
+    campaignAddr,
+    milestoneId,
+    name,
+    description,
+    targetValue,
+    rewardAmount,
+    isRequired,
+    sequenceOrder
+  );
+
+/**
+ * Add a reward tier to a draft campaign (employer)
+ */
+export const addRewardTierPayload = (
+  modules: ProtocolModules,
+  campaignAddr: string,
+  tierLevel: U64Input,
+  minThreshold: U64Input,
+  maxThreshold: U64Input,
+  rewardMultiplier: U64Input,
+  bonusAmount: U64Input
+): EntryFunctionPayload =>
+  abi.addRewardTier(modules, campaignAddr, tierLevel, minThreshold, maxThreshold, rewardMultiplier, bonusAmount);
+
+/**
+ * Activate a draft campaign (employer)
+ */
+export const activateCampaignPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  campaignAddr: string
+): EntryFunctionPayload =>
+  abi.activateCampaign(modules, registryAddr, campaignAddr);
+
+/**
+ * Pause an active campaign (employer)
+ */
+export const pauseCampaignPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  campaignAddr: string
+): EntryFunctionPayload =>
+  abi.pauseCampaign(modules, registryAddr, campaignAddr);
+
+/**
+ * Resume a paused campaign (employer)
+ */
+export const resumeCampaignPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  campaignAddr: string
+): EntryFunctionPayload =>
+  abi.resumeCampaign(modules, registryAddr, campaignAddr);
+
+/**
+ * Join an active campaign (employee)
+ */
+export const registerForCampaignPayload = (
+  modules: ProtocolModules,
+  campaignAddr: string,
+  registryAddr: string
+): EntryFunctionPayload =>
+  abi.registerForCampaign(modules, campaignAddr, registryAddr);
+
+/**
+ * Join an active campaign with a referrer (employee)
+ */
+export const registerWithReferralPayload = (
+  modules: ProtocolModules,
+  campaignAddr: string,
+  registryAddr: string,
+  referrer: string
+): EntryFunctionPayload =>
+  abi.registerWithReferral(modules, campaignAddr, registryAddr, referrer);
+
+/**
+ * Update a participant's campaign progress (employer)
+ */
+export const updateProgressPayload = (
+  modules: ProtocolModules,
+  participant: string,
+  campaignAddr: string,
+  newProgress: U64Input
+): EntryFunctionPayload =>
+  abi.updateProgress(modules, participant, campaignAddr, newProgress);
+
+/**
+ * Claim earned campaign rewards (employee)
+ */
+export const claimRewardsPayload = (
+  modules: ProtocolModules,
+  campaignAddr: string,
+  registryAddr: string
+): EntryFunctionPayload =>
+  abi.claimRewards(modules, campaignAddr, registryAddr);
+
+/**
+ * Record the daily check-in that drives streak rewards (employee)
+ */
+export const recordDailyCheckinPayload = (modules: ProtocolModules): EntryFunctionPayload =>
+  abi.recordDailyCheckin(modules);
+
+/**
+ * Award a badge to an employee (protocol admin)
+ */
+export const awardBadgePayload = (
+  modules: ProtocolModules,
+  employee: string,
+  badgeId: U64Input,
+  name: string,
+  description: string,
+  campaignId: U64Input,
+  rarity: number,
+  registryAddr: string
+): EntryFunctionPayload =>
+  abi.awardBadge(modules, employee, badgeId, name, description, campaignId, rarity, registryAddr);
+
+/**
+ * Emit a Photon integration event for a participant (employer)
+ */
+export const triggerPhotonEventPayload = (
+  modules: ProtocolModules,
+  campaignAddr: string,
+  participant: string,
+  eventType: string,
+  eventData: string,
+  registryAddr: string
+): EntryFunctionPayload =>
+  abi.triggerPhotonEvent(modules, campaignAddr, participant, eventType, eventData, registryAddr);
+
+/**
+ * Toggle the Photon integration and its endpoint (protocol admin)
+ */
+export const updatePhotonSettingsPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  enabled: boolean,
+  newEndpoint: string
+): EntryFunctionPayload =>
+  abi.updatePhotonSettings(modules, registryAddr, enabled, newEndpoint);
+
+// ============================================
+// EVENTS
+// ============================================
+
+export interface CampaignCreatedEvent {
+  campaignId: bigint;
+  employer: string;
+  name: string;
+  rewardType: number;
+  triggerType: number;
+  totalBudget: bigint;
+  startTime: number;
+  endTime: number;
+  timestamp: number;
+}
+
+export interface CampaignStatusChangedEvent {
+  campaignId: bigint;
+  oldStatus: number;
+  newStatus: number;
+  changedBy: string;
+  timestamp: number;
+}
+
+export interface ParticipantRegisteredEvent {
+  campaignId: bigint;
+  participant: string;
+  registeredAt: number;
+}
+
+export interface ProgressUpdatedEvent {
+  campaignId: bigint;
+  participant: string;
+  oldProgress: bigint;
+  newProgress: bigint;
+  timestamp: number;
+}
+
+export interface MilestoneCompletedEvent {
+  campaignId: bigint;
+  participant: string;
+  milestoneId: bigint;
+  rewardAmount: bigint;
+  timestamp: number;
+}
+
+export interface RewardClaimedEvent {
+  campaignId: bigint;
+  participant: string;
+  amount: bigint;
+  rewardType: number;
+  timestamp: number;
+}
+
+export interface ReferralRewardEvent {
+  campaignId: bigint;
+  referrer: string;
+  referee: string;
+  rewardAmount: bigint;
+  timestamp: number;
+}
+
+export interface StreakRewardEvent {
+  employee: string;
+  streakLength: number;
+  rewardAmount: bigint;
+  timestamp: number;
+}
+
+export interface BadgeEarnedEvent {
+  employee: string;
+  badgeId: bigint;
+  badgeName: string;
+  campaignId: bigint;
+  timestamp: number;
+}
+
+export interface PhotonEventTriggeredEvent {
+  campaignId: bigint;
+  eventType: string;
+  participant: string;
+  eventData: string;
+  timestamp: number;
+}
+
+/**
+ * Module events (`#[event]`) emitted by the photon rewards module
+ */
+export const EVENTS = {
+  campaignCreated: eventDefinition("photonRewards", "CampaignCreatedEvent", (data): CampaignCreatedEvent => ({
+    campaignId: toBigInt(data.campaign_id),
+    employer: toAddress(data.employer),
+    name: String(data.name),
+    rewardType: toNumber(data.reward_type),
+    triggerType: toNumber(data.trigger_type),
+    totalBudget: toBigInt(data.total_budget),
+    startTime: toNumber(data.start_time),
+    endTime: toNumber(data.end_time),
+    timestamp: toNumber(data.timestamp),
+  })),
+  campaignStatusChanged: eventDefinition(
+    "photonRewards",
+    "CampaignStatusChangedEvent",
+    (data): CampaignStatusChangedEvent => ({
+      campaignId: toBigInt(data.campaign_id),
+      oldStatus: toNumber(data.old_status),
+      newStatus: toNumber(data.new_status),
+      changedBy: toAddress(data.changed_by),
+      timestamp: toNumber(data.timestamp),
+    })
+  ),
+  participantRegistered: eventDefinition(
+    "photonRewards",
+    "ParticipantRegisteredEvent",
+    (data): ParticipantRegisteredEvent => ({
+      campaignId: toBigInt(data.campaign_id),
+      participant: toAddress(data.participant),
+      registeredAt: toNumber(data.registered_at),
+    })
+  ),
+  progressUpdated: eventDefinition("photonRewards", "ProgressUpdatedEvent", (data): ProgressUpdatedEvent => ({
+    campaignId: toBigInt(data.campaign_id),
+    participant: toAddress(data.participant),
+    oldProgress: toBigInt(data.old_progress),
+    newProgress: toBigInt(data.new_progress),
+    timestamp: toNumber(data.timestamp),
+  })),
+  milestoneCompleted: eventDefinition("photonRewards", "MilestoneCompletedEvent", (data): MilestoneCompletedEvent => ({
+    campaignId: toBigInt(data.campaign_id),
+    participant: toAddress(data.participant),
+    milestoneId: toBigInt(data.milestone_id),
+    rewardAmount: toBigInt(data.reward_amount),
+    timestamp: toNumber(data.timestamp),
+  })),
+  rewardClaimed: eventDefinition("photonRewards", "RewardClaimedEvent", (data): RewardClaimedEvent => ({
+    campaignId: toBigInt(data.campaign_id),
+    participant: toAddress(data.participant),
+    amount: toBigInt(data.amount),
+    rewardType: toNumber(data.reward_type),
+    timestamp: toNumber(data.timestamp),
+  })),
+  referralReward: eventDefinition("photonRewards", "ReferralRewardEvent", (data): ReferralRewardEvent => ({
+    campaignId: toBigInt(data.campaign_id),
+    referrer: toAddress(data.referrer),
+    referee: toAddress(data.referee),
+    rewardAmount: toBigInt(data.reward_amount),
+    timestamp: toNumber(data.timestamp),
+  })),
+  streakReward: eventDefinition("photonRewards", "StreakRewardEvent", (data): StreakRewardEvent => ({
+    employee: toAddress(data.employee),
+    streakLength: toNumber(data.streak_length),
+    rewardAmount: toBigInt(data.reward_amount),
+    timestamp: toNumber(data.timestamp),
+  })),
+  badgeEarned: eventDefinition("photonRewards", "BadgeEarnedEvent", (data): BadgeEarnedEvent => ({
+    employee: toAddress(data.employee),
+    badgeId: toBigInt(data.badge_id),
+    badgeName: String(data.badge_name),
+    campaignId: toBigInt(data.campaign_id),
+    timestamp: toNumber(data.timestamp),
+  })),
+  photonEventTriggered: eventDefinition(
+    "photonRewards",
+    "PhotonEventTriggeredEvent",
+    (data): PhotonEventTriggeredEvent => ({
+      campaignId: toBigInt(data.campaign_id),
+      eventType: String(data.event_type),
+      participant: toAddress(data.participant),
+      eventData: String(data.event_data),
+      timestamp: toNumber(data.timestamp),
+    })
+  ),
+};
@@ -0,0 +1,348 @@
+/**
+ * Protocol Client - Fiat Prices
+ *
+ * A `PriceProvider` quotes a token in fiat (INR or USD) for display; a
+ * `HistoricalPriceProvider` also has the prices of past days, for the rate in
+ * effect when a withdrawal was made. `StaticPriceProvider` serves configured
+ * rates and `HttpPriceProvider` a CoinGecko-style price API; Node scripts and tests
+ * can read rates from a JSON file with `FilePriceProvider` (`@wage-protocol/sdk/prices`).
+ * `CachedPriceProvider` wraps any of them to reuse quotes, and keeps serving the
+ * last quote, flagged `stale`, while the source is failing.
+ *
+ * @example
+ * ```typescript
+ * const prices = new CachedPriceProvider(new HttpPriceProvider(), { ttlMs: 60_000 });
+ * const quote = await prices.getQuote(APT, "INR");
+ * formatFiat(toFiat(TokenAmount.of(stream.totalWithdrawn), quote), quote.currency); // "₹8,412.50"
+ *
+ * // The rate when a withdrawal was made (its block time, in ms)
+ * const history = await prices.getQuoteHistory(APT, "INR", withdrawnAt - DAY_MS, withdrawnAt + DAY_MS);
+ * quoteAt(history, withdrawnAt); // the quote nearest the withdrawal
+ * ```
+ */
+
+import { TokenAmount, TokenMetadata } from "./amounts.js";
+import { ProtocolError } from "./errors.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export const FIAT_CURRENCIES = ["INR", "USD"] as const;
+
+export type FiatCurrency = (typeof FIAT_CURRENCIES)[number];
+
+/**
+ * Fiat price of one whole token
+ */
+export interface PriceQuote {
+  /** Token symbol, e.g. "APT" */
+  symbol: string;
+  currency: FiatCurrency;
+  price: number;
+  /** When the source priced the token, in ms since the epoch */
+  asOf: number;
+  /** Where the price came from, e.g. "static" or the API host */
+  source: string;
+  /** Older than the provider's staleness limit, or served from cache after a failed refresh */
+  stale: boolean;
+}
+
+export interface PriceProvider {
+  getQuote(token: TokenMetadata, currency: FiatCurrency): Promise<PriceQuote>;
+}
+
+/**
+ * A provider that also has past prices
+ */
+export interface HistoricalPriceProvider extends PriceProvider {
+  /**
+   * Quotes from `from` to `to` (ms since the epoch), oldest first, at the
+   * source's granularity; `asOf` is when each price was taken
+   */
+  getQuoteHistory(token: TokenMetadata, currency: FiatCurrency, from: number, to: number): Promise<PriceQuote[]>;
+}
+
+export const isHistoricalPriceProvider = (provider: PriceProvider): provider is HistoricalPriceProvider =>
+  typeof (provider as Partial<HistoricalPriceProvider>).getQuoteHistory === "function";
+
+/**
+ * Fiat prices by token symbol, e.g. `{ APT: { INR: 840, USD: 10.1 } }`
+ */
+export type PriceTable = Record<string, Partial<Record<FiatCurrency, number>>>;
+
+/**
+ * The provider has no price for the token, or its source could not be reached
+ */
+export class PriceUnavailableError extends ProtocolError {}
+
+export const isFiatCurrency = (value: string): value is FiatCurrency =>
+  (FIAT_CURRENCIES as readonly string[]).includes(value);
+
+/**
+ * Whether a quote is older than `maxAgeMs`
+ */
+export const isQuoteStale = (quote: PriceQuote, maxAgeMs: number, now: number = Date.now()): boolean =>
+  now - quote.asOf > maxAgeMs;
+
+/**
+ * The quote of a history nearest to `at` (ms since the epoch), flagged `stale`
+ * when it was taken more than `maxGapMs` (default a day) away; null for an empty history
+ */
+export const quoteAt = (history: PriceQuote[], at: number, maxGapMs: number = 24 * 60 * 60_000): PriceQuote | null => {
+  if (history.length === 0) return null;
+  const nearest = history.reduce((best, quote) =>
+    Math.abs(quote.asOf - at) < Math.abs(best.asOf - at) ? quote : best
+  );
+  return { ...nearest, stale: nearest.stale || Math.abs(nearest.asOf - at) > maxGapMs };
+};
+
+/**
+ * Quote a token from a price table, throwing `PriceUnavailableError` when it has no price
+ */
+export const quoteFromTable = (
+  table: PriceTable,
+  token: TokenMetadata,
+  currency: FiatCurrency,
+  asOf: number,
+  source: string
+): PriceQuote => {
+  const price = table[token.symbol]?.[currency];
+  if (typeof price !== "number" || !Number.isFinite(price) || price < 0) {
+    throw new PriceUnavailableError(`${source} has no ${currency} price for ${token.symbol}`);
+  }
+  return { symbol: token.symbol, currency, price, asOf, source, stale: false };
+};
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+export interface StaticPriceProviderOptions {
+  /** When the rates were set, in ms since the epoch (default: when the provider was created) */
+  asOf?: number;
+  /** Flag quotes stale once the rates are older than this */
+  maxAgeMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Configured rates, e.g. from an environment variable. Their history is the one
+ * quote as of when they were set, so past times far from it read as stale.
+ */
+export class StaticPriceProvider implements HistoricalPriceProvider {
+  private readonly now: () => number;
+  private readonly asOf: number;
+
+  constructor(
+    private readonly prices: PriceTable,
+    private readonly options: StaticPriceProviderOptions = {}
+  ) {
+    this.now = options.now ?? Date.now;
+    this.asOf = options.asOf ?? this.now();
+  }
+
+  async getQuote(token: TokenMetadata, currency: FiatCurrency): Promise<PriceQuote> {
+    const quote = quoteFromTable(this.prices, token, currency, this.asOf, "static");
+    const { maxAgeMs } = this.options;
+    return { ...quote, stale: maxAgeMs !== undefined && isQuoteStale(quote, maxAgeMs, this.now()) };
+  }
+
+  async getQuoteHistory(token: TokenMetadata, currency: FiatCurrency): Promise<PriceQuote[]> {
+    return [quoteFromTable(this.prices, token, currency, this.asOf, "static")];
+  }
+}
+
+export const COINGECKO_SIMPLE_PRICE_URL = "https://api.coingecko.com/api/v3/simple/price";
+
+export const COINGECKO_COINS_URL = "https://api.coingecko.com/api/v3/coins";
+
+/**
+ * CoinGecko ids of the tokens the protocol lists
+ */
+export const DEFAULT_PRICE_IDS: Record<string, string> = {
+  APT: "aptos",
+  USDC: "usd-coin",
+};
+
+export interface HttpPriceProviderOptions {
+  /** A CoinGecko-compatible `simple/price` endpoint, e.g. a caching proxy (default: CoinGecko) */
+  url?: string;
+  /** A CoinGecko-compatible `coins` endpoint for price history (default: CoinGecko) */
+  historyUrl?: string;
+  /** API ids by token symbol (default `DEFAULT_PRICE_IDS`) */
+  ids?: Record<string, string>;
+  /** Abort requests after this long (default 10s) */
+  timeoutMs?: number;
+  /** Flag quotes stale when the API's last update is older than this (default 15 minutes) */
+  maxAgeMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Live rates from a CoinGecko-style `simple/price` API:
+ * `GET {url}?ids=aptos&vs_currencies=inr&include_last_updated_at=true`
+ * answering `{ "aptos": { "inr": 840.2, "last_updated_at": 1760000000 } }`.
+ * History comes from `GET {historyUrl}/aptos/market_chart/range?vs_currency=inr&from=…&to=…`
+ * (unix seconds) answering `{ "prices": [[1760000000000, 840.2], …] }`, which
+ * CoinGecko samples every 5 minutes for a day, hourly up to 90 days and daily beyond.
+ */
+export class HttpPriceProvider implements HistoricalPriceProvider {
+  private readonly url: string;
+  private readonly historyUrl: string;
+  private readonly ids: Record<string, string>;
+  private readonly source: string;
+  private readonly historySource: string;
+
+  constructor(private readonly options: HttpPriceProviderOptions = {}) {
+    this.url = options.url ?? COINGECKO_SIMPLE_PRICE_URL;
+    this.historyUrl = options.historyUrl ?? COINGECKO_COINS_URL;
+    this.ids = options.ids ?? DEFAULT_PRICE_IDS;
+    this.source = new URL(this.url, "http://localhost").host;
+    this.historySource = new URL(this.historyUrl, "http://localhost").host;
+  }
+
+  private priceId(token: TokenMetadata): string {
+    const id = this.ids[token.symbol];
+    if (!id) throw new PriceUnavailableError(`${this.source} has no price id for ${token.symbol}`);
+    return id;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    try {
+      const response = await fetch(url, {
+        headers: { accept: "application/json" },
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? 10_000),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return (await response.json()) as T;
+    } catch (error) {
+      throw new PriceUnavailableError(
+        `${this.source} price request failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getQuote(token: TokenMetadata, currency: FiatCurrency): Promise<PriceQuote> {
+    const id = this.priceId(token);
+    const vs = currency.toLowerCase();
+    const query = new URLSearchParams({ ids: id, vs_currencies: vs, include_last_updated_at: "true" });
+    const body = await this.fetchJson<Record<string, Record<string, number> | undefined>>(`${this.url}?${query}`);
+
+    const now = (this.options.now ?? Date.now)();
+    const entry = body[id];
+    const updatedAt = entry?.last_updated_at;
+    const asOf = typeof updatedAt === "number" ? updatedAt * 1000 : now;
+    const quote = quoteFromTable({ [token.symbol]: { [currency]: entry?.[vs] } }, token, currency, asOf, this.source);
+    return { ...quote, stale: isQuoteStale(quote, this.options.maxAgeMs ?? 15 * 60_000, now) };
+  }
+
+  async getQuoteHistory(token: TokenMetadata, currency: FiatCurrency, from: number, to: number): Promise<PriceQuote[]> {
+    const id = this.priceId(token);
+    const query = new URLSearchParams({
+      vs_currency: currency.toLowerCase(),
+      from: String(Math.floor(from / 1000)),
+      to: String(Math.ceil(to / 1000)),
+    });
+    const body = await this.fetchJson<{ prices?: [number, number][] }>(
+      `${this.historyUrl}/${encodeURIComponent(id)}/market_chart/range?${query}`
+    );
+
+    return (body.prices ?? [])
+      .filter(([asOf, price]) => Number.isFinite(asOf) && Number.isFinite(price) && price >= 0)
+      .map(([asOf, price]) => ({
+        symbol: token.symbol,
+        currency,
+        price,
+        asOf,
+        source: this.historySource,
+        stale: false,
+      }));
+  }
+}
+
+export interface CachedPriceProviderOptions {
+  /** Reuse a quote for this long before asking the source again (default 60s) */
+  ttlMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Caches another provider's quotes. When a refresh fails, the last quote is
+ * returned with `stale: true` instead of the error; without one, the error is thrown.
+ * Histories are passed through uncached.
+ */
+export class CachedPriceProvider implements HistoricalPriceProvider {
+  private readonly cache = new Map<string, { quote: PriceQuote; fetchedAt: number; failed: boolean }>();
+  private readonly pending = new Map<string, Promise<PriceQuote>>();
+
+  constructor(
+    private readonly source: PriceProvider,
+    private readonly options: CachedPriceProviderOptions = {}
+  ) {}
+
+  async getQuote(token: TokenMetadata, currency: FiatCurrency): Promise<PriceQuote> {
+    const key = `${token.symbol}/${currency}`;
+    const now = (this.options.now ?? Date.now)();
+    const cached = this.cache.get(key);
+    if (cached && now - cached.fetchedAt < (this.options.ttlMs ?? 60_000)) {
+      return { ...cached.quote, stale: cached.quote.stale || cached.failed };
+    }
+
+    // Concurrent callers share one refresh
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.refresh(key, token, currency, now).finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  async getQuoteHistory(token: TokenMetadata, currency: FiatCurrency, from: number, to: number): Promise<PriceQuote[]> {
+    if (!isHistoricalPriceProvider(this.source)) {
+      throw new PriceUnavailableError(`The price source has no history for ${token.symbol}`);
+    }
+    return this.source.getQuoteHistory(token, currency, from, to);
+  }
+
+  /**
+   * Drop cached quotes, so the next call asks the source
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private async refresh(key: string, token: TokenMetadata, currency: FiatCurrency, now: number): Promise<PriceQuote> {
+    try {
+      const quote = await this.source.getQuote(token, currency);
+      this.cache.set(key, { quote, fetchedAt: now, failed: false });
+      return quote;
+    } catch (error) {
+      const cached = this.cache.get(key);
+      if (!cached) throw error;
+      // Retry after another ttl rather than on every call
+      this.cache.set(key, { ...cached, fetchedAt: now, failed: true });
+      return { ...cached.quote, stale: true };
+    }
+  }
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+/**
+ * Fiat value of an amount at a quote
+ */
+export const toFiat = (amount: TokenAmount, quote: PriceQuote): number => {
+  if (amount.token.symbol !== quote.symbol) {
+    throw new PriceUnavailableError(`A ${quote.symbol} quote cannot price ${amount.token.symbol}`);
+  }
+  return amount.toNumber() * quote.price;
+};
+
+/**
+ * Format a fiat value, e.g. "₹8,412.50" (Indian digit grouping) or "$100.25"
+ */
+export const formatFiat = (value: number, currency: FiatCurrency, locale?: string): string =>
+  value.toLocaleString(locale ?? (currency === "INR" ? "en-IN" : "en-US"), { style: "currency", currency });
@@ -0,0 +1,177 @@
+/**
+ * Protocol Client - transaction simulation previews
+ *
+ * Turns a simulated transaction (as returned by the fullnode simulate
+ * endpoint) into gas, abort and balance-change information. Balances before
+ * the transaction are read from current chain state; balances after come from
+ * the simulated write set.
+ */
+
+import { ProtocolModules, toBigInt } from "./core.js";
+import { MoveAbort, decodeMoveAbort } from "./errors.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Write set entry of a simulated transaction (structural subset)
+ */
+export interface SimulatedWriteSetChange {
+  type: string;
+  address?: string;
+  /** For write_resource changes: `{ type, data }` of the written resource */
+  data?: unknown;
+}
+
+/**
+ * Simulated user transaction (structural subset)
+ */
+export interface SimulatedTransaction {
+  success: boolean;
+  vm_status: string;
+  gas_used: string;
+  gas_unit_price: string;
+  changes: SimulatedWriteSetChange[];
+}
+
+type MoveStructId = `${string}::${string}::${string}`;
+
+/**
+ * Minimal client needed to read pre-transaction resources
+ */
+export interface ResourceClient {
+  getAccountResource(args: { accountAddress: string; resourceType: MoveStructId }): Promise<unknown>;
+}
+
+export interface BalanceDelta {
+  before: bigint;
+  after: bigint;
+  delta: bigint;
+}
+
+export interface TreasuryBalancePreview {
+  employer: string;
+  available: BalanceDelta;
+  allocated: BalanceDelta;
+  total: BalanceDelta;
+}
+
+export interface StreamBalancePreview {
+  streamId: number;
+  deposited: BalanceDelta;
+  withdrawn: BalanceDelta;
+}
+
+export interface BalanceChangePreview {
+  treasuries: TreasuryBalancePreview[];
+  streams: StreamBalancePreview[];
+}
+
+export interface SimulationResult {
+  success: boolean;
+  vmStatus: string;
+  gasUsed: bigint;
+  gasUnitPrice: bigint;
+  /** gasUsed * gasUnitPrice, in octas */
+  estimatedFee: bigint;
+  abort: MoveAbort | null;
+  balanceChanges: BalanceChangePreview;
+}
+
+interface TreasuryResource {
+  total_balance: string;
+  allocated_balance: string;
+  available_balance: string;
+}
+
+interface StreamStoreResource {
+  streams: { stream_id: string; total_deposited: string; total_withdrawn: string }[];
+}
+
+// ============================================
+// PREVIEW
+// ============================================
+
+const balanceDelta = (before: bigint, after: bigint): BalanceDelta => ({ before, after, delta: after - before });
+
+const readResource = async <T>(
+  client: ResourceClient,
+  accountAddress: string,
+  resourceType: MoveStructId
+): Promise<T | null> => {
+  try {
+    return (await client.getAccountResource({ accountAddress, resourceType })) as T;
+  } catch {
+    // Resource is created by this transaction
+    return null;
+  }
+};
+
+/**
+ * Diff treasury and stream balances touched by a simulated write set
+ */
+export const previewBalanceChanges = async (
+  modules: ProtocolModules,
+  client: ResourceClient,
+  changes: SimulatedWriteSetChange[]
+): Promise<BalanceChangePreview> => {
+  const treasuryType = `${modules.employerTreasury}::EmployerTreasury` as const;
+  const streamStoreType = `${modules.wageStreaming}::StreamStore` as const;
+  const preview: BalanceChangePreview = { treasuries: [], streams: [] };
+
+  for (const change of changes) {
+    if (change.type !== "write_resource" || !change.address || !change.data) continue;
+    const resource = change.data as { type: string; data: unknown };
+
+    if (resource.type === treasuryType) {
+      const after = resource.data as TreasuryResource;
+      const before = await readResource<TreasuryResource>(client, change.address, treasuryType);
+      preview.treasuries.push({
+        employer: change.address,
+        available: balanceDelta(toBigInt(before?.available_balance ?? 0), toBigInt(after.available_balance)),
+        allocated: balanceDelta(toBigInt(before?.allocated_balance ?? 0), toBigInt(after.allocated_balance)),
+        total: balanceDelta(toBigInt(before?.total_balance ?? 0), toBigInt(after.total_balance)),
+      });
+    } else if (resource.type === streamStoreType) {
+      const after = resource.data as StreamStoreResource;
+      const before = await readResource<StreamStoreResource>(client, change.address, streamStoreType);
+      const previous = new Map((before?.streams ?? []).map((stream) => [stream.stream_id, stream]));
+
+      for (const stream of after.streams) {
+        const prior = previous.get(stream.stream_id);
+        const deposited = balanceDelta(toBigInt(prior?.total_deposited ?? 0), toBigInt(stream.total_deposited));
+        const withdrawn = balanceDelta(toBigInt(prior?.total_withdrawn ?? 0), toBigInt(stream.total_withdrawn));
+        if (deposited.delta === BigInt(0) && withdrawn.delta === BigInt(0)) continue;
+
+        preview.streams.push({ streamId: Number(stream.stream_id), deposited, withdrawn });
+      }
+    }
+  }
+
+  return preview;
+};
+
+/**
+ * Summarize a simulated transaction: gas, decoded abort and balance changes
+ */
+export const summarizeSimulation = async (
+  modules: ProtocolModules,
+  client: ResourceClient,
+  simulated: SimulatedTransaction
+): Promise<SimulationResult> => {
+  const gasUsed = toBigInt(simulated.gas_used);
+  const gasUnitPrice = toBigInt(simulated.gas_unit_price);
+
+  return {
+    success: simulated.success,
+    vmStatus: simulated.vm_status,
+    gasUsed,
+    gasUnitPrice,
+    estimatedFee: gasUsed * gasUnitPrice,
+    abort: simulated.success ? null : decodeMoveAbort(simulated.vm_status),
+    balanceChanges: simulated.success
+      ? await previewBalanceChanges(modules, client, simulated.changes)
+      : { treasuries: [], streams: [] },
+  };
+};
@@ -0,0 +1,266 @@
+/**
+ * Protocol Client - Stream Index
+ *
+ * Finds the streams of one employee or employer from indexed events instead of
+ * reading the registry's whole `StreamStore`, which every visitor could
+ * otherwise see and which grows with every stream ever created. `StreamIndex`
+ * pages through the `StreamCreatedEvent`s naming the address, folds the
+ * `StatusChangeEvent`s of those streams into their pause bookkeeping, and on
+ * later `sync()` calls only asks for events after the cursors it reached. Save
+ * `toSnapshot()` to pick up from there after a reload.
+ *
+ * @example
+ * ```typescript
+ * const index = new StreamIndex(aptos, modules, "employee", address, { snapshot: saved });
+ * await index.sync();
+ * const { streamIds, hasMore } = index.page({ limit: 20 });
+ * const streams = await fetchIndexedStreams(aptos, modules, registry, index, streamIds);
+ * localStorage.setItem(key, JSON.stringify(index.toSnapshot()));
+ * ```
+ */
+
+import { ProtocolModules, ViewClient, executeView } from "./core.js";
+import {
+  EventCursor,
+  IndexerClient,
+  decodeEventCursor,
+  encodeEventCursor,
+  fetchEvents,
+  normalizeAddress,
+} from "./events.js";
+import {
+  EVENTS,
+  STREAM_STATUS_CODES,
+  StatusChangeEvent,
+  StreamPauseInfo,
+  StreamState,
+  getStreamInfoView,
+} from "./wageStreaming.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StreamRole = "employee" | "employer";
+
+/**
+ * Serializable state of a `StreamIndex`
+ */
+export interface StreamIndexSnapshot {
+  role: StreamRole;
+  address: string;
+  /** Stream ids, oldest first */
+  streamIds: string[];
+  pauses: Record<string, StreamPauseInfo>;
+  /** Encoded cursors of the last creation and status change events seen */
+  createdCursor: string | null;
+  statusCursor: string | null;
+}
+
+export interface StreamIndexOptions {
+  /** Events per indexer request while syncing (default 100) */
+  pageSize?: number;
+  /** Resume from a saved snapshot; ignored when it is for another role or address */
+  snapshot?: StreamIndexSnapshot;
+}
+
+export interface StreamIdPageOptions {
+  offset?: number;
+  /** Page size (default 50) */
+  limit?: number;
+}
+
+export interface StreamIdPage {
+  /** Newest first */
+  streamIds: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+export const DEFAULT_STREAM_PAGE_SIZE = 50;
+
+const NOT_PAUSED: StreamPauseInfo = { pauseTime: 0, totalPauseDuration: 0 };
+
+// ============================================
+// PAUSE BOOKKEEPING
+// ============================================
+
+/**
+ * Apply a status change to a stream's pause bookkeeping the way `pause_stream`
+ * and `resume_stream` update `pause_time` and `total_pause_duration`
+ */
+export const applyStatusChange = (pauses: StreamPauseInfo, change: StatusChangeEvent): StreamPauseInfo => {
+  if (change.newStatus === STREAM_STATUS_CODES.PAUSED) {
+    return { ...pauses, pauseTime: change.timestamp };
+  }
+  if (change.oldStatus === STREAM_STATUS_CODES.PAUSED && change.newStatus === STREAM_STATUS_CODES.ACTIVE) {
+    return { pauseTime: 0, totalPauseDuration: pauses.totalPauseDuration + change.timestamp - pauses.pauseTime };
+  }
+  return pauses;
+};
+
+/**
+ * Pause bookkeeping of one stream, folded from all of its status change events
+ */
+export const fetchStreamPauseInfo = async (
+  client: IndexerClient,
+  modules: ProtocolModules,
+  streamId: string | number
+): Promise<StreamPauseInfo> => {
+  let pauses = NOT_PAUSED;
+  let after: EventCursor | undefined;
+  let more = true;
+  while (more) {
+    const page = await fetchEvents(client, modules, EVENTS.statusChange, {
+      data: { stream_id: String(streamId) },
+      after,
+    });
+    pauses = page.events.reduce((current, event) => applyStatusChange(current, event.data), pauses);
+    after = page.cursor ?? undefined;
+    more = page.hasMore;
+  }
+  return pauses;
+};
+
+// ============================================
+// INDEX
+// ============================================
+
+/**
+ * Stream ids and pause bookkeeping of one employee's or employer's streams
+ */
+export class StreamIndex {
+  readonly address: string;
+  private streamIds: string[] = [];
+  private readonly pauses = new Map<string, StreamPauseInfo>();
+  private createdCursor: EventCursor | null = null;
+  private statusCursor: EventCursor | null = null;
+  private pending: Promise<number> | null = null;
+
+  constructor(
+    private readonly client: IndexerClient,
+    private readonly modules: ProtocolModules,
+    readonly role: StreamRole,
+    address: string,
+    private readonly options: StreamIndexOptions = {}
+  ) {
+    this.address = normalizeAddress(address);
+    const { snapshot } = options;
+    if (snapshot && snapshot.role === role && normalizeAddress(snapshot.address) === this.address) {
+      this.streamIds = [...snapshot.streamIds];
+      Object.entries(snapshot.pauses).forEach(([streamId, pauses]) => this.pauses.set(streamId, pauses));
+      this.createdCursor = snapshot.createdCursor ? decodeEventCursor(snapshot.createdCursor) : null;
+      this.statusCursor = snapshot.statusCursor ? decodeEventCursor(snapshot.statusCursor) : null;
+    }
+  }
+
+  /**
+   * Fetch the creation and status change events since the last sync.
+   * Returns the number of streams found.
+   */
+  sync(): Promise<number> {
+    // Concurrent callers share one sync
+    if (!this.pending) {
+      this.pending = this.syncEvents().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * A page of stream ids, newest first
+   */
+  page(options: StreamIdPageOptions = {}): StreamIdPage {
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? DEFAULT_STREAM_PAGE_SIZE;
+    const newestFirst = [...this.streamIds].reverse();
+    return {
+      streamIds: newestFirst.slice(offset, offset + limit),
+      total: newestFirst.length,
+      hasMore: offset + limit < newestFirst.length,
+    };
+  }
+
+  pauseInfo(streamId: string): StreamPauseInfo {
+    return this.pauses.get(streamId) ?? NOT_PAUSED;
+  }
+
+  toSnapshot(): StreamIndexSnapshot {
+    return {
+      role: this.role,
+      address: this.address,
+      streamIds: [...this.streamIds],
+      pauses: Object.fromEntries(this.pauses),
+      createdCursor: this.createdCursor ? encodeEventCursor(this.createdCursor) : null,
+      statusCursor: this.statusCursor ? encodeEventCursor(this.statusCursor) : null,
+    };
+  }
+
+  private async syncEvents(): Promise<number> {
+    const known = new Set(this.streamIds);
+    let found = 0;
+    let more = true;
+    while (more) {
+      const page = await fetchEvents(this.client, this.modules, EVENTS.streamCreated, {
+        data: { [this.role]: this.address },
+        after: this.createdCursor ?? undefined,
+        limit: this.options.pageSize,
+      });
+      for (const event of page.events) {
+        const streamId = String(event.data.streamId);
+        if (!known.has(streamId)) {
+          known.add(streamId);
+          this.streamIds.push(streamId);
+          found++;
+        }
+      }
+      this.createdCursor = page.cursor;
+      more = page.hasMore;
+    }
+
+    await this.syncStatusChanges();
+    return found;
+  }
+
+  private async syncStatusChanges(): Promise<void> {
+    if (this.streamIds.length === 0) return;
+    // Only the employer can pause or resume, so an employer's changes are theirs;
+    // an employee's are picked out by stream id
+    const data =
+      this.role === "employer"
+        ? { changed_by: this.address }
+        : this.streamIds.map((streamId) => ({ stream_id: streamId }));
+
+    let more = true;
+    while (more) {
+      const page = await fetchEvents(this.client, this.modules, EVENTS.statusChange, {
+        data,
+        after: this.statusCursor ?? undefined,
+        limit: this.options.pageSize,
+      });
+      for (const event of page.events) {
+        const streamId = String(event.data.streamId);
+        this.pauses.set(streamId, applyStatusChange(this.pauseInfo(streamId), event.data));
+      }
+      this.statusCursor = page.cursor;
+      more = page.hasMore;
+    }
+  }
+}
+
+/**
+ * Current state of indexed streams: `get_stream_info` for each, with the index's pause bookkeeping
+ */
+export const fetchIndexedStreams = async (
+  client: ViewClient,
+  modules: ProtocolModules,
+  registryAddr: string,
+  index: StreamIndex,
+  streamIds: string[]
+): Promise<StreamState[]> => {
+  const infos = await Promise.all(
+    streamIds.map((streamId) => executeView(client, getStreamInfoView(modules, registryAddr, streamId)))
+  );
+  return infos.map((info) => ({ ...info, ...index.pauseInfo(info.streamId) }));
+};
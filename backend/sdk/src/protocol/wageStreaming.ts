@@ -0,0 +1,324 @@
+/**
+ * Protocol Client - wage_streaming bindings
+ */
+
+import {
+  ProtocolModules,
+  EntryFunctionPayload,
+  ViewRequest,
+  ViewResult,
+  U64Input,
+  mapView,
+  toBigInt,
+  toNumber,
+  toAddress,
+} from "./core.js";
+import { eventDefinition } from "./events.js";
+import * as abi from "./generated/wageStreaming.js";
+
+// ============================================
+// TYPES & CONSTANTS
+// ============================================
+
+export interface StreamInfo {
+  streamId: string;
+  employer: string;
+  employee: string;
+  ratePerSecond: bigint;
+  totalDeposited: bigint;
+  totalWithdrawn: bigint;
+  startTime: number;
+  endTime: number;
+  status: number;
+}
+
+/**
+ * Pause bookkeeping of a stream, which `get_stream_info` leaves out but accrual depends on
+ */
+export interface StreamPauseInfo {
+  /** When the stream was paused, 0 unless it is paused */
+  pauseTime: number;
+  /** Seconds spent paused before the last resume; `endTime` was pushed back by as much */
+  totalPauseDuration: number;
+}
+
+/**
+ * A stream with its pause bookkeeping, as stored in `StreamStore`
+ */
+export interface StreamState extends StreamInfo, StreamPauseInfo {}
+
+export interface RegistryStats {
+  totalValueLocked: bigint;
+  activeStreamsCount: bigint;
+  completedStreamsCount: bigint;
+  accumulatedFees: bigint;
+}
+
+/**
+ * On-chain layout of a `WageStream` inside the `StreamStore` resource
+ */
+export interface StreamResource {
+  stream_id: string;
+  employer: string;
+  employee: string;
+  rate_per_second: string;
+  total_deposited: string;
+  total_withdrawn: string;
+  start_time: string;
+  end_time: string;
+  status: number;
+  job_description: string;
+  compliance_verified: boolean;
+  pause_time: string;
+  total_pause_duration: string;
+  last_withdrawal_time: string;
+}
+
+export const STREAM_STATUS_CODES = {
+  ACTIVE: 1,
+  PAUSED: 2,
+  COMPLETED: 3,
+  TERMINATED: 4,
+  DISPUTED: 5,
+} as const;
+
+// Matches PRECISION in wage_streaming.move
+export const STREAM_PRECISION = BigInt(100_000_000);
+
+// ============================================
+// VIEW PARSERS
+// ============================================
+
+export const parseStreamInfo = (streamId: U64Input, result: ViewResult<typeof abi.getStreamInfo>): StreamInfo => {
+  const [employer, employee, ratePerSecond, totalDeposited, totalWithdrawn, startTime, endTime, status] = result;
+
+  return {
+    streamId: streamId.toString(),
+    employer,
+    employee,
+    ratePerSecond,
+    totalDeposited,
+    totalWithdrawn,
+    startTime: Number(startTime),
+    endTime: Number(endTime),
+    status,
+  };
+};
+
+export const parseStreamResource = (resource: StreamResource): StreamState => ({
+  streamId: String(resource.stream_id),
+  employer: toAddress(resource.employer),
+  employee: toAddress(resource.employee),
+  ratePerSecond: toBigInt(resource.rate_per_second),
+  totalDeposited: toBigInt(resource.total_deposited),
+  totalWithdrawn: toBigInt(resource.total_withdrawn),
+  startTime: toNumber(resource.start_time),
+  endTime: toNumber(resource.end_time),
+  status: toNumber(resource.status),
+  pauseTime: toNumber(resource.pause_time),
+  totalPauseDuration: toNumber(resource.total_pause_duration),
+});
+
+export const parseRegistryStats = (result: ViewResult<typeof abi.getRegistryStats>): RegistryStats => {
+  const [totalValueLocked, activeStreamsCount, completedStreamsCount, accumulatedFees] = result;
+
+  return { totalValueLocked, activeStreamsCount, completedStreamsCount, accumulatedFees };
+};
+
+// ============================================
+// VIEW FUNCTIONS
+// ============================================
+
+export const getStreamInfoView = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): ViewRequest<StreamInfo> =>
+  mapView(abi.getStreamInfo(modules, registryAddr, streamId), (result) => parseStreamInfo(streamId, result));
+
+export const getWithdrawableBalanceView = abi.getWithdrawableBalance;
+
+export const getRegistryStatsView = (modules: ProtocolModules, registryAddr: string): ViewRequest<RegistryStats> =>
+  mapView(abi.getRegistryStats(modules, registryAddr), parseRegistryStats);
+
+export const hasActiveStreamsView = abi.hasActiveStreams;
+
+/**
+ * Metadata address of the fungible asset a stream pays in, or null for APT streams
+ */
+export const getStreamAssetView = abi.getStreamAsset;
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+/**
+ * Initialize the stream registry (protocol admin)
+ */
+export const initializePayload = (modules: ProtocolModules, feeRateBps: U64Input): EntryFunctionPayload =>
+  abi.initialize(modules, feeRateBps);
+
+/**
+ * Create a new wage stream (employer)
+ */
+export const createStreamPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employee: string,
+  totalAmount: U64Input,
+  durationSeconds: U64Input,
+  jobDescription: string = ""
+): EntryFunctionPayload =>
+  abi.createStream(modules, registryAddr, employee, totalAmount, durationSeconds, jobDescription);
+
+/**
+ * Create a wage stream paid in a fungible asset such as a stablecoin (employer).
+ * Amounts are in the asset's smallest unit.
+ */
+export const createStreamWithAssetPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  employee: string,
+  asset: string,
+  totalAmount: U64Input,
+  durationSeconds: U64Input,
+  jobDescription: string = ""
+): EntryFunctionPayload =>
+  abi.createStreamWithAsset(modules, registryAddr, employee, asset, totalAmount, durationSeconds, jobDescription);
+
+/**
+ * Withdraw accrued wages from a stream (employee)
+ */
+export const withdrawWagesPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): EntryFunctionPayload =>
+  abi.withdrawWages(modules, registryAddr, streamId);
+
+/**
+ * Withdraw from every active stream of the signer (employee)
+ */
+export const withdrawAllPayload = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  abi.withdrawAll(modules, registryAddr);
+
+/**
+ * Pause an active stream (employer)
+ */
+export const pauseStreamPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): EntryFunctionPayload =>
+  abi.pauseStream(modules, registryAddr, streamId);
+
+/**
+ * Resume a paused stream (employer)
+ */
+export const resumeStreamPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): EntryFunctionPayload =>
+  abi.resumeStream(modules, registryAddr, streamId);
+
+/**
+ * Terminate a stream early (employer or protocol admin)
+ */
+export const terminateStreamPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  streamId: U64Input
+): EntryFunctionPayload =>
+  abi.terminateStream(modules, registryAddr, streamId);
+
+/**
+ * Update the protocol fee rate (protocol admin)
+ */
+export const updateFeeRatePayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  newFeeRateBps: U64Input
+): EntryFunctionPayload =>
+  abi.updateFeeRate(modules, registryAddr, newFeeRateBps);
+
+/**
+ * Pause all stream operations (protocol admin)
+ */
+export const emergencyPausePayload = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  abi.emergencyPause(modules, registryAddr);
+
+/**
+ * Resume stream operations after an emergency pause (protocol admin)
+ */
+export const emergencyResumePayload = (modules: ProtocolModules, registryAddr: string): EntryFunctionPayload =>
+  abi.emergencyResume(modules, registryAddr);
+
+/**
+ * Hand the registry admin role to another address (protocol admin)
+ */
+export const transferAdminPayload = (
+  modules: ProtocolModules,
+  registryAddr: string,
+  newAdmin: string
+): EntryFunctionPayload =>
+  abi.transferAdmin(modules, registryAddr, newAdmin);
+
+// ============================================
+// EVENTS
+// ============================================
+
+export interface StreamCreatedEvent {
+  streamId: number;
+  employer: string;
+  employee: string;
+  ratePerSecond: bigint;
+  totalAmount: bigint;
+  startTime: number;
+  endTime: number;
+}
+
+export interface WithdrawalEvent {
+  streamId: number;
+  employee: string;
+  amount: bigint;
+  timestamp: number;
+  remainingBalance: bigint;
+}
+
+export interface StatusChangeEvent {
+  streamId: number;
+  oldStatus: number;
+  newStatus: number;
+  timestamp: number;
+  changedBy: string;
+}
+
+/**
+ * Events emitted on the `StreamRegistry` event handles
+ */
+export const EVENTS = {
+  streamCreated: eventDefinition("wageStreaming", "StreamCreatedEvent", (data): StreamCreatedEvent => ({
+    streamId: toNumber(data.stream_id),
+    employer: toAddress(data.employer),
+    employee: toAddress(data.employee),
+    ratePerSecond: toBigInt(data.rate_per_second),
+    totalAmount: toBigInt(data.total_amount),
+    startTime: toNumber(data.start_time),
+    endTime: toNumber(data.end_time),
+  })),
+  withdrawal: eventDefinition("wageStreaming", "WithdrawalEvent", (data): WithdrawalEvent => ({
+    streamId: toNumber(data.stream_id),
+    employee: toAddress(data.employee),
+    amount: toBigInt(data.amount),
+    timestamp: toNumber(data.timestamp),
+    remainingBalance: toBigInt(data.remaining_balance),
+  })),
+  statusChange: eventDefinition("wageStreaming", "StatusChangeEvent", (data): StatusChangeEvent => ({
+    streamId: toNumber(data.stream_id),
+    oldStatus: toNumber(data.old_status),
+    newStatus: toNumber(data.new_status),
+    timestamp: toNumber(data.timestamp),
+    changedBy: toAddress(data.changed_by),
+  })),
+};
@@ -0,0 +1,63 @@
+import { QrCapacityError, encodeQr } from "./qr.js";
+
+const render = (modules: boolean[][]): string[] => modules.map((row) => row.map((dark) => (dark ? "#" : ".")).join(""));
+
+describe("encodeQr", () => {
+  it("matches a reference encoder module for module", () => {
+    const qr = encodeQr("wap-offline:1/1");
+    expect(qr).toMatchObject({ version: 2, size: 25, errorCorrection: "M", mask: 4 });
+    // Generated by an independent implementation with the same version and mask
+    expect(render(qr.modules)).toEqual([
+      "#######.##........#######",
+      "#.....#.....#...#.#.....#",
+      "#.###.#..#.#.#.##.#.###.#",
+      "#.###.#.##..#.###.#.###.#",
+      "#.###.#.####.##.#.#.###.#",
+      "#.....#.##..####..#.....#",
+      "#######.#.#.#.#.#.#######",
+      "........###...#..........",
+      "#...#.#####.####.#####..#",
+      "..##.#.#..###.......#..#.",
+      "##..#####.##.###..##.##..",
+      "#.##...##.#..#.####.###..",
+      "##...##.#..###..####..#.#",
+      "#.####..###..###....###..",
+      "..#.#.###......#......#..",
+      "..#.#....##.#.#....##.#.#",
+      "##########.#.########.###",
+      "........##..#...#...####.",
+      "#######.#######.#.#.#....",
+      "#.....#....#.#.##...#.#.#",
+      "#.###.#.#...##..#####.##.",
+      "#.###.#...#..###..##.#..#",
+      "#.###.#...#....##.##.#.#.",
+      "#.....#.....#.#..##.#.##.",
+      "#######.####.##.....#.###",
+    ]);
+  });
+
+  it("picks the smallest version with room for the text", () => {
+    expect(encodeQr("a".repeat(17), "L").version).toBe(1);
+    expect(encodeQr("a".repeat(18), "L").version).toBe(2);
+    expect(encodeQr("a".repeat(2_953), "L")).toMatchObject({ version: 40, size: 177 });
+    expect(encodeQr("a".repeat(2_331), "M").version).toBe(40);
+  });
+
+  it("counts the UTF-8 bytes of the text", () => {
+    expect(encodeQr("₹".repeat(5), "L").version).toBe(1);
+    expect(encodeQr("₹".repeat(6), "L").version).toBe(2);
+  });
+
+  it("rejects text longer than the largest version holds", () => {
+    expect(() => encodeQr("a".repeat(2_954), "L")).toThrow(QrCapacityError);
+    expect(() => encodeQr("a".repeat(2_332), "M")).toThrow(QrCapacityError);
+  });
+
+  it("draws the version information from version 7", () => {
+    const qr = encodeQr("a".repeat(120), "M");
+    expect(qr.version).toBe(7);
+    // 000111 110010 010100 for version 7, least significant bit first, above the bottom left finder
+    const bits = Array.from({ length: 18 }, (_, i) => qr.modules[qr.size - 11 + (i % 3)][Math.floor(i / 3)]);
+    expect(bits.map((dark) => (dark ? 1 : 0)).join("")).toBe("001010010011111000");
+  });
+});
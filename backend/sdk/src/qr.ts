@@ -0,0 +1,473 @@
+/**
+ * QR codes
+ *
+ * A small QR Code Model 2 encoder (ISO/IEC 18004) for carrying offline
+ * transactions between machines without a file transfer. Text is encoded in
+ * byte mode as UTF-8, in the smallest version (1-40) that fits at the chosen
+ * error correction level, with the mask that scores lowest on the standard's
+ * penalty rules.
+ *
+ * @example
+ * ```typescript
+ * const qr = encodeQr("wap-offline:1/1:...");
+ * qr.modules[y][x]; // true for a dark module
+ * ```
+ */
+
+import { ProtocolError } from "./protocol/index.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * How much of the symbol can be damaged and still read: about 7%, 15%, 25% or 30%
+ */
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+export interface QrCode {
+  version: number;
+  /** Modules per side: 17 + 4 * version */
+  size: number;
+  errorCorrection: QrErrorCorrection;
+  mask: number;
+  /** Rows of modules, `true` for dark; render with a light quiet zone of at least 4 modules */
+  modules: boolean[][];
+}
+
+/**
+ * Text too long for the largest QR code at the requested error correction
+ */
+export class QrCapacityError extends ProtocolError {}
+
+// ============================================
+// TABLES
+// ============================================
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Format information bits of each level (they are not in L, M, Q, H order)
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// By level, then version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+  M: [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  ],
+  Q: [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+  H: [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19,
+    19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31,
+    33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43,
+    45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48,
+    51, 54, 57, 60, 63, 66, 70, 74, 77, 81,
+  ],
+};
+
+const BYTE_MODE = 0b0100;
+const PAD_BYTES = [0xec, 0x11];
+
+// ============================================
+// ENCODING
+// ============================================
+
+/**
+ * Encode text as a QR code, in the smallest version that holds it
+ */
+export const encodeQr = (text: string, errorCorrection: QrErrorCorrection = "M"): QrCode => {
+  const data = new TextEncoder().encode(text);
+
+  let version = MIN_VERSION;
+  while (4 + countBits(version) + data.length * 8 > dataCapacityBits(version, errorCorrection)) {
+    if (++version > MAX_VERSION) {
+      throw new QrCapacityError(
+        `${data.length} bytes do not fit in a QR code at error correction ${errorCorrection}; split the text`
+      );
+    }
+  }
+
+  const codewords = addErrorCorrection(dataCodewords(data, version, errorCorrection), version, errorCorrection);
+  const symbol = new QrSymbol(version);
+  symbol.drawFunctionPatterns();
+  symbol.drawCodewords(codewords);
+
+  let best: { mask: number; penalty: number; modules: boolean[][] } | undefined;
+  for (let mask = 0; mask < 8; mask++) {
+    const modules = symbol.masked(mask, errorCorrection);
+    const penalty = penaltyScore(modules);
+    if (!best || penalty < best.penalty) best = { mask, penalty, modules };
+  }
+
+  return { version, size: symbol.size, errorCorrection, mask: best!.mask, modules: best!.modules };
+};
+
+/**
+ * Bits of the character count field in byte mode
+ */
+const countBits = (version: number): number => (version <= 9 ? 8 : 16);
+
+/**
+ * Modules left for codewords once the function patterns are placed
+ */
+const rawDataModules = (version: number): number => {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+};
+
+const dataCapacityBits = (version: number, errorCorrection: QrErrorCorrection): number =>
+  (Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[errorCorrection][version] * ERROR_CORRECTION_BLOCKS[errorCorrection][version]) *
+  8;
+
+/**
+ * The byte mode segment, terminated and padded to the version's data capacity
+ */
+const dataCodewords = (data: Uint8Array, version: number, errorCorrection: QrErrorCorrection): number[] => {
+  const capacity = dataCapacityBits(version, errorCorrection);
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(BYTE_MODE, 4);
+  append(data.length, countBits(version));
+  data.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let i = 0; codewords.length < capacity / 8; i++) codewords.push(PAD_BYTES[i % 2]);
+  return codewords;
+};
+
+/**
+ * Split the data into blocks, append each block's Reed-Solomon codewords and interleave them
+ */
+const addErrorCorrection = (data: number[], version: number, errorCorrection: QrErrorCorrection): number[] => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[errorCorrection][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[errorCorrection][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  // The last blocks hold one more data codeword than the first
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: { data: number[]; ecc: number[] }[] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    blocks.push({ data: block, ecc: reedSolomonRemainder(block, divisor) });
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortBlockLength - eccLength; i++) {
+    blocks.forEach((block) => {
+      if (i < block.data.length) result.push(block.data[i]);
+    });
+  }
+  for (let i = 0; i < eccLength; i++) blocks.forEach((block) => result.push(block.ecc[i]));
+  return result;
+};
+
+// ============================================
+// REED-SOLOMON
+// ============================================
+
+/**
+ * Product in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+ */
+const gfMultiply = (x: number, y: number): number => {
+  let product = 0;
+  for (let i = 7; i >= 0; i--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> i) & 1) * x;
+  }
+  return product;
+};
+
+/**
+ * Coefficients of the generator polynomial (x - 2^0)(x - 2^1)...(x - 2^(degree-1)), highest first, without the leading 1
+ */
+const reedSolomonDivisor = (degree: number): number[] => {
+  const coefficients = new Array<number>(degree).fill(0);
+  coefficients[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      coefficients[j] = gfMultiply(coefficients[j], root);
+      if (j + 1 < degree) coefficients[j] ^= coefficients[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return coefficients;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const remainder = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()!;
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => (remainder[i] ^= gfMultiply(coefficient, factor)));
+  }
+  return remainder;
+};
+
+// ============================================
+// SYMBOL
+// ============================================
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * The module grid of one version, with its function patterns marked so codewords and masks skip them
+ */
+class QrSymbol {
+  readonly size: number;
+  private modules: boolean[][];
+  private isFunction: boolean[][];
+
+  constructor(private version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = this.alignmentPositions();
+    const last = positions.length - 1;
+    positions.forEach((x, i) =>
+      positions.forEach((y, j) => {
+        // The three corners already hold finder patterns
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) this.drawAlignment(x, y);
+      })
+    );
+
+    // Reserve the format areas; masked() writes the real bits
+    this.drawFormatBits(0);
+    this.drawVersionBits();
+  }
+
+  /**
+   * Place the codewords in the two-column zigzag from the bottom right, skipping function modules
+   */
+  drawCodewords(codewords: number[]): void {
+    let bit = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      // The vertical timing pattern takes a whole column
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        const y = upward ? this.size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (!this.isFunction[y][x] && bit < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) === 1;
+            bit++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * A copy of the modules with a data mask applied and its format bits written
+   */
+  masked(mask: number, errorCorrection: QrErrorCorrection): boolean[][] {
+    const saved = this.modules;
+    this.modules = saved.map((row, y) =>
+      row.map((dark, x) => (this.isFunction[y][x] ? dark : dark !== MASKS[mask](x, y)))
+    );
+    this.drawFormatBits((FORMAT_BITS[errorCorrection] << 3) | mask);
+
+    const result = this.modules;
+    this.modules = saved;
+    return result;
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFinder(cx: number, cy: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        // The ring at distance 4 is the light separator
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size)
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) return [];
+    const count = Math.floor(this.version / 7) + 2;
+    const step = this.version === 32 ? 26 : Math.ceil((this.version * 4 + 4) / (count * 2 - 2)) * 2;
+    const positions = [6];
+    for (let position = this.size - 7; positions.length < count; position -= step) positions.splice(1, 0, position);
+    return positions;
+  }
+
+  /**
+   * The 15-bit BCH-coded level and mask, once around the top left finder and split between the other two
+   */
+  private drawFormatBits(data: number): void {
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i));
+    // Always dark
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  /**
+   * The 18-bit BCH-coded version, next to the top right and bottom left finders (version 7 and up)
+   */
+  private drawVersionBits(): void {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+}
+
+// ============================================
+// MASK PENALTY
+// ============================================
+
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+// 1:1:3:1:1 dark-light ratio with four light modules on one side
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+/**
+ * The standard's score for how hard a masked symbol is to read (lower is better)
+ */
+const penaltyScore = (modules: boolean[][]): number => {
+  const size = modules.length;
+  const columns = modules.map((_, x) => modules.map((row) => row[x]));
+  let penalty = 0;
+
+  for (const line of [...modules, ...columns]) {
+    // Runs of five or more modules of one color
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) penalty += PENALTY_RUN + (run - 5);
+        run = 1;
+      }
+    }
+
+    // Patterns that look like a finder
+    for (let i = 0; i + 11 <= size; i++) {
+      if (FINDER_LIKE.some((pattern) => pattern.every((dark, j) => line[i + j] === dark))) {
+        penalty += PENALTY_FINDER_LIKE;
+      }
+    }
+  }
+
+  // 2x2 blocks of one color
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const dark = modules[y][x];
+      if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) {
+        penalty += PENALTY_BLOCK;
+      }
+    }
+  }
+
+  // Distance from an even split of dark and light, in 5% steps
+  const dark = modules.reduce((count, row) => count + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * PENALTY_BALANCE;
+
+  return penalty;
+};
@@ -0,0 +1,396 @@
+/**
+ * Signers for WageProtocolSDK write methods
+ *
+ * A signer takes a protocol entry-function payload and turns it into whatever
+ * the caller needs: a committed transaction (local key, wallet, multi-agent),
+ * a multisig proposal, an unsigned transaction for external or offline
+ * signing, a simulation preview, or a withdrawal whose gas is paid by a sponsor.
+ */
+
+import {
+  Aptos,
+  Account,
+  AccountAddress,
+  Ed25519PrivateKey,
+  CommittedTransactionResponse,
+  Deserializer,
+  InputGenerateTransactionOptions,
+  InputGenerateSequenceNumberTransactionOptions,
+  MultiSigTransactionPayload,
+  SimpleTransaction,
+  generateTransactionPayload,
+} from "@aptos-labs/ts-sdk";
+import { EntryFunctionPayload, ProtocolModules, SimulationResult, summarizeSimulation } from "./protocol/index.js";
+import { RequestSponsorship, encodeSponsorshipRequest } from "./sponsor.js";
+import { OfflineTransaction, createOfflineTransaction } from "./offline.js";
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+/**
+ * Anything that can turn a protocol payload into a transaction result
+ */
+export interface Signer<TResult = CommittedTransactionResponse> {
+  /** Address the transaction is sent from */
+  getAddress(): string;
+  /** Build, sign and submit (or just build) the payload */
+  submit(aptos: Aptos, payload: EntryFunctionPayload): Promise<TResult>;
+}
+
+/**
+ * Transaction shape accepted by the wallet adapter's `signAndSubmitTransaction`
+ */
+export interface WalletTransactionInput {
+  data: EntryFunctionPayload;
+  options?: { maxGasAmount?: number; gasUnitPrice?: number; expireTimestamp?: number };
+}
+
+/**
+ * The wallet adapter's `signAndSubmitTransaction`, as returned by `useWallet()`
+ */
+export type WalletSignAndSubmit = (transaction: WalletTransactionInput) => Promise<{ hash: string }>;
+
+/**
+ * Signs BCS transaction bytes and returns the BCS `AccountAuthenticator`
+ * (bytes keep wallets and callers on other ts-sdk copies interchangeable)
+ */
+export type SignTransactionBytes = (transaction: Uint8Array) => Promise<Uint8Array>;
+
+/**
+ * Result of a build-only signer
+ */
+export interface UnsignedTransaction {
+  sender: string;
+  transaction: SimpleTransaction;
+  /** BCS-serialized `SimpleTransaction` */
+  bytes: Uint8Array;
+}
+
+// ============================================
+// LOCAL KEY SIGNER
+// ============================================
+
+/**
+ * Signs with an in-process account (Ed25519 key, multi-key account, ...)
+ */
+export class AccountSigner implements Signer {
+  constructor(
+    readonly account: Account,
+    private options?: InputGenerateTransactionOptions
+  ) {}
+
+  /**
+   * Create a signer from a hex-encoded Ed25519 private key
+   */
+  static fromPrivateKey(privateKey: string, options?: InputGenerateTransactionOptions): AccountSigner {
+    const key = new Ed25519PrivateKey(privateKey);
+    return new AccountSigner(Account.fromPrivateKey({ privateKey: key }), options);
+  }
+
+  getAddress(): string {
+    return this.account.accountAddress.toString();
+  }
+
+  async submit(aptos: Aptos, payload: EntryFunctionPayload): Promise<CommittedTransactionResponse> {
+    const transaction = await aptos.transaction.build.simple({
+      sender: this.account.accountAddress,
+      data: payload,
+      options: this.options,
+    });
+
+    const pendingTxn = await aptos.signAndSubmitTransaction({
+      signer: this.account,
+      transaction,
+    });
+
+    return aptos.waitForTransaction({ transactionHash: pendingTxn.hash });
+  }
+}
+
+// ============================================
+// WALLET ADAPTER SIGNER
+// ============================================
+
+/**
+ * Bridges the wallet adapter so SDK write methods can prompt a browser wallet
+ */
+export class WalletAdapterSigner implements Signer {
+  constructor(
+    private address: string,
+    private signAndSubmitTransaction: WalletSignAndSubmit,
+    private options?: WalletTransactionInput["options"]
+  ) {}
+
+  getAddress(): string {
+    return this.address;
+  }
+
+  async submit(aptos: Aptos, payload: EntryFunctionPayload): Promise<CommittedTransactionResponse> {
+    const response = await this.signAndSubmitTransaction({ data: payload, options: this.options });
+    return aptos.waitForTransaction({ transactionHash: response.hash });
+  }
+}
+
+// ============================================
+// MULTI-AGENT SIGNER
+// ============================================
+
+/**
+ * Signs a multi-agent transaction with the sender and every secondary signer
+ */
+export class MultiAgentSigner implements Signer {
+  constructor(
+    readonly sender: Account,
+    readonly secondarySigners: Account[],
+    private options?: InputGenerateTransactionOptions
+  ) {}
+
+  getAddress(): string {
+    return this.sender.accountAddress.toString();
+  }
+
+  async submit(aptos: Aptos, payload: EntryFunctionPayload): Promise<CommittedTransactionResponse> {
+    const transaction = await aptos.transaction.build.multiAgent({
+      sender: this.sender.accountAddress,
+      data: payload,
+      secondarySignerAddresses: this.secondarySigners.map((signer) => signer.accountAddress),
+      options: this.options,
+    });
+
+    const senderAuthenticator = aptos.transaction.sign({ signer: this.sender, transaction });
+    const additionalSignersAuthenticators = this.secondarySigners.map((signer) =>
+      aptos.transaction.sign({ signer, transaction })
+    );
+
+    const pendingTxn = await aptos.transaction.submit.multiAgent({
+      transaction,
+      senderAuthenticator,
+      additionalSignersAuthenticators,
+    });
+
+    return aptos.waitForTransaction({ transactionHash: pendingTxn.hash });
+  }
+}
+
+// ============================================
+// MULTISIG ACCOUNT SIGNER
+// ============================================
+
+/**
+ * Acts as an on-chain `0x1::multisig_account`, with one owner signing.
+ *
+ * In "propose" mode the payload is queued with `create_transaction` and
+ * waits for the other owners' approvals. In "execute" mode the owner runs
+ * the next queued transaction once it has enough approvals.
+ */
+export class MultisigAccountSigner implements Signer {
+  constructor(
+    readonly owner: Account,
+    readonly multisigAddress: string,
+    private mode: "propose" | "execute" = "propose",
+    private options?: InputGenerateTransactionOptions
+  ) {}
+
+  getAddress(): string {
+    return this.multisigAddress;
+  }
+
+  async submit(aptos: Aptos, payload: EntryFunctionPayload): Promise<CommittedTransactionResponse> {
+    const transaction =
+      this.mode === "propose"
+        ? await this.buildProposal(aptos, payload)
+        : await aptos.transaction.build.simple({
+            sender: this.owner.accountAddress,
+            data: { multisigAddress: this.multisigAddress, ...payload },
+            options: this.options,
+          });
+
+    const pendingTxn = await aptos.signAndSubmitTransaction({
+      signer: this.owner,
+      transaction,
+    });
+
+    return aptos.waitForTransaction({ transactionHash: pendingTxn.hash });
+  }
+
+  private async buildProposal(aptos: Aptos, payload: EntryFunctionPayload): Promise<SimpleTransaction> {
+    const entryFunctionPayload = await generateTransactionPayload({
+      ...payload,
+      aptosConfig: aptos.config,
+    });
+    const multisigPayload = new MultiSigTransactionPayload(entryFunctionPayload.entryFunction);
+
+    return aptos.transaction.build.simple({
+      sender: this.owner.accountAddress,
+      data: {
+        function: "0x1::multisig_account::create_transaction",
+        functionArguments: [this.multisigAddress, multisigPayload.bcsToBytes()],
+      },
+      options: this.options,
+    });
+  }
+}
+
+// ============================================
+// BUILD-ONLY SIGNER
+// ============================================
+
+/**
+ * Builds the transaction for `sender` without signing or submitting it
+ */
+export class BuildOnlySigner implements Signer<UnsignedTransaction> {
+  constructor(
+    private sender: string,
+    private options?: InputGenerateTransactionOptions
+  ) {}
+
+  getAddress(): string {
+    return AccountAddress.from(this.sender).toString();
+  }
+
+  async submit(aptos: Aptos, payload: EntryFunctionPayload): Promise<UnsignedTransaction> {
+    const transaction = await aptos.transaction.build.simple({
+      sender: this.sender,
+      data: payload,
+      options: this.options,
+    });
+
+    return {
+      sender: this.getAddress(),
+      transaction,
+      bytes: transaction.bcsToBytes(),
+    };
+  }
+}
+
+// ============================================
+// OFFLINE SIGNER
+// ============================================
+
+/**
+ * Options for transactions that are signed away from the network
+ */
+export interface OfflineSignerOptions extends InputGenerateSequenceNumberTransactionOptions {
+  /** Seconds the signed transaction stays valid (defaults to one hour, for the round trip to the cold key) */
+  expiresInSeconds?: number;
+  /** Shown to the person signing the transaction */
+  description?: string;
+}
+
+const DEFAULT_OFFLINE_EXPIRY_SECONDS = 60 * 60;
+
+/**
+ * Builds an unsigned offline transaction for `sender`, pinning its sequence
+ * number and expiry, to be signed by a cold key (see `./offline`)
+ */
+export class OfflineSigner implements Signer<OfflineTransaction> {
+  constructor(
+    private sender: string,
+    private options: OfflineSignerOptions = {}
+  ) {}
+
+  getAddress(): string {
+    return AccountAddress.from(this.sender).toString();
+  }
+
+  async submit(aptos: Aptos, payload: EntryFunctionPayload): Promise<OfflineTransaction> {
+    const { expiresInSeconds = DEFAULT_OFFLINE_EXPIRY_SECONDS, description, ...options } = this.options;
+    // The build fills in the current sequence number unless one is given
+    const transaction = await aptos.transaction.build.simple({
+      sender: this.sender,
+      data: payload,
+      options: {
+        ...options,
+        expireTimestamp: options.expireTimestamp ?? Math.floor(Date.now() / 1000) + expiresInSeconds,
+      },
+    });
+
+    return createOfflineTransaction(transaction, payload, description);
+  }
+}
+
+// ============================================
+// SIMULATION SIGNER
+// ============================================
+
+/**
+ * Simulates the transaction for `sender` and previews gas, aborts and balance changes
+ */
+export class SimulationSigner implements Signer<SimulationResult> {
+  constructor(
+    private sender: string,
+    private modules: ProtocolModules,
+    private options?: InputGenerateTransactionOptions
+  ) {}
+
+  getAddress(): string {
+    return AccountAddress.from(this.sender).toString();
+  }
+
+  async submit(aptos: Aptos, payload: EntryFunctionPayload): Promise<SimulationResult> {
+    const transaction = await aptos.transaction.build.simple({
+      sender: this.sender,
+      data: payload,
+      options: this.options,
+    });
+
+    const [simulated] = await aptos.transaction.simulate.simple({
+      transaction,
+      options: { estimateGasUnitPrice: true, estimateMaxGasAmount: true },
+    });
+
+    return summarizeSimulation(this.modules, aptos, simulated);
+  }
+}
+
+// ============================================
+// SPONSORED SIGNER
+// ============================================
+
+/**
+ * Signs a fee-payer transaction for `sender` and has a sponsor pay its gas
+ * (see `GasSponsor`), so accounts without APT can still withdraw
+ */
+export class SponsoredSigner implements Signer {
+  constructor(
+    private sender: string,
+    private signTransaction: SignTransactionBytes,
+    private requestSponsorship: RequestSponsorship,
+    private options?: InputGenerateTransactionOptions
+  ) {}
+
+  /**
+   * Create a sponsored signer for an in-process account
+   */
+  static fromAccount(
+    account: Account,
+    requestSponsorship: RequestSponsorship,
+    options?: InputGenerateTransactionOptions
+  ): SponsoredSigner {
+    const signTransaction: SignTransactionBytes = async (bytes) => {
+      const transaction = SimpleTransaction.deserialize(new Deserializer(bytes));
+      return account.signTransactionWithAuthenticator(transaction).bcsToBytes();
+    };
+    return new SponsoredSigner(account.accountAddress.toString(), signTransaction, requestSponsorship, options);
+  }
+
+  getAddress(): string {
+    return AccountAddress.from(this.sender).toString();
+  }
+
+  async submit(aptos: Aptos, payload: EntryFunctionPayload): Promise<CommittedTransactionResponse> {
+    const transaction = await aptos.transaction.build.simple({
+      sender: this.sender,
+      data: payload,
+      withFeePayer: true,
+      options: this.options,
+    });
+
+    const bytes = transaction.bcsToBytes();
+    const senderAuthenticator = await this.signTransaction(bytes);
+    const { hash } = await this.requestSponsorship(encodeSponsorshipRequest(bytes, senderAuthenticator));
+
+    return aptos.waitForTransaction({ transactionHash: hash });
+  }
+}
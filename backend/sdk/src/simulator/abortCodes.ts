@@ -0,0 +1,119 @@
+/**
+ * Protocol Simulator - abort codes
+ *
+ * The `error_codes` accessors the simulated modules abort with, resolved to
+ * the generated constants. Several accessors share one constant (for example
+ * `campaign_not_found` and `stream_not_found`), exactly as on chain.
+ */
+
+import { ERROR_CODES } from "../protocol/index.js";
+
+export const abortCodes = {
+  // Wage streaming
+  streamNotFound: ERROR_CODES.E_STREAM_NOT_FOUND,
+  streamNotActive: ERROR_CODES.E_STREAM_NOT_ACTIVE,
+  streamNotPaused: ERROR_CODES.E_STREAM_NOT_PAUSED,
+  invalidAddress: ERROR_CODES.E_ZERO_ADDRESS,
+  amountTooSmall: ERROR_CODES.E_MINIMUM_DEPOSIT_NOT_MET,
+  durationTooShort: ERROR_CODES.E_INVALID_DURATION,
+  durationTooLong: ERROR_CODES.E_INVALID_DURATION,
+  tooManyStreams: ERROR_CODES.E_AMOUNT_OUT_OF_BOUNDS,
+  rateTooLow: ERROR_CODES.E_INVALID_WAGE_RATE,
+  nothingToWithdraw: ERROR_CODES.E_INSUFFICIENT_ACCRUED_WAGES,
+  noActiveStreams: ERROR_CODES.E_STREAM_NOT_FOUND,
+  invalidStatus: ERROR_CODES.E_INVALID_DISPUTE_STATUS,
+
+  // Treasury
+  treasuryNotInitialized: ERROR_CODES.E_TREASURY_NOT_INITIALIZED,
+  treasuryFrozen: ERROR_CODES.E_TREASURY_LOCKED,
+  allocationTooLarge: ERROR_CODES.E_AMOUNT_OUT_OF_BOUNDS,
+  insufficientFunds: ERROR_CODES.E_INSUFFICIENT_TREASURY_BALANCE,
+  streamAlreadyFunded: ERROR_CODES.E_STREAM_ALREADY_EXISTS,
+  allocationNotFound: ERROR_CODES.E_STREAM_NOT_FOUND,
+  reserveRequired: ERROR_CODES.E_RESERVE_VIOLATION,
+
+  // Compliance
+  certificateNotFound: ERROR_CODES.E_CERTIFICATE_NOT_FOUND,
+  employerNotRegistered: ERROR_CODES.E_TREASURY_NOT_INITIALIZED,
+  employeeNotRegistered: ERROR_CODES.E_PAN_NOT_REGISTERED,
+
+  // Disputes
+  disputeNotFound: ERROR_CODES.E_DISPUTE_NOT_FOUND,
+  insufficientEscrow: ERROR_CODES.E_INSUFFICIENT_ESCROW,
+  notArbitrator: ERROR_CODES.E_NOT_ARBITRATOR,
+  invalidDisputeCategory: ERROR_CODES.E_INVALID_DISPUTE_CATEGORY,
+  invalidDisputeStatus: ERROR_CODES.E_INVALID_DISPUTE_STATUS,
+  disputeDeadlinePassed: ERROR_CODES.E_DISPUTE_DEADLINE_PASSED,
+  invalidEvidenceType: ERROR_CODES.E_INVALID_EVIDENCE_TYPE,
+  invalidParty: ERROR_CODES.E_INVALID_PARTY,
+  disputeAmountTooSmall: ERROR_CODES.E_DISPUTE_AMOUNT_TOO_SMALL,
+  invalidResolution: ERROR_CODES.E_INVALID_RESOLUTION,
+  arbitratorNotFound: ERROR_CODES.E_ARBITRATOR_NOT_FOUND,
+  conflictOfInterest: ERROR_CODES.E_CONFLICT_OF_INTEREST,
+  maxAppealsReached: ERROR_CODES.E_MAX_APPEALS_REACHED,
+  appealWindowClosed: ERROR_CODES.E_APPEAL_WINDOW_CLOSED,
+  appealWindowActive: ERROR_CODES.E_APPEAL_WINDOW_ACTIVE,
+  disputeNotFinalized: ERROR_CODES.E_DISPUTE_NOT_FINALIZED,
+  escrowNotFound: ERROR_CODES.E_ESCROW_NOT_FOUND,
+  alreadyReleased: ERROR_CODES.E_ALREADY_RELEASED,
+  escrowLocked: ERROR_CODES.E_ESCROW_LOCKED,
+  cannotCancelArbitration: ERROR_CODES.E_CANNOT_CANCEL_ARBITRATION,
+  alreadyRegistered: ERROR_CODES.E_ALREADY_REGISTERED,
+
+  // Access control, validation and system
+  unauthorized: ERROR_CODES.E_UNAUTHORIZED,
+  invalidAmount: ERROR_CODES.E_INVALID_AMOUNT,
+  invalidFeeRate: ERROR_CODES.E_INVALID_FEE_RATE,
+  protocolPaused: ERROR_CODES.E_PROTOCOL_PAUSED,
+  notInitialized: ERROR_CODES.E_NOT_INITIALIZED,
+  alreadyInitialized: ERROR_CODES.E_ALREADY_INITIALIZED,
+  systemPaused: ERROR_CODES.E_SYSTEM_PAUSED,
+
+  // Emergency
+  alreadyHasRole: ERROR_CODES.E_ALREADY_HAS_ROLE,
+  roleNotFound: ERROR_CODES.E_ROLE_NOT_FOUND,
+  actionNotFound: ERROR_CODES.E_ACTION_NOT_FOUND,
+  actionExpired: ERROR_CODES.E_ACTION_EXPIRED,
+  alreadyExecuted: ERROR_CODES.E_ALREADY_EXECUTED,
+  alreadyApproved: ERROR_CODES.E_ALREADY_APPROVED,
+  insufficientApprovals: ERROR_CODES.E_INSUFFICIENT_APPROVALS,
+  invalidModule: ERROR_CODES.E_INVALID_MODULE,
+  alreadyPaused: ERROR_CODES.E_ALREADY_PAUSED,
+  notPaused: ERROR_CODES.E_NOT_PAUSED,
+  pauseDurationTooShort: ERROR_CODES.E_PAUSE_DURATION_TOO_SHORT,
+  pauseDurationTooLong: ERROR_CODES.E_PAUSE_DURATION_TOO_LONG,
+  systemInEmergency: ERROR_CODES.E_SYSTEM_IN_EMERGENCY,
+  notInEmergency: ERROR_CODES.E_NOT_IN_EMERGENCY,
+  upgradeInProgress: ERROR_CODES.E_UPGRADE_IN_PROGRESS,
+  noUpgradePending: ERROR_CODES.E_NO_UPGRADE_PENDING,
+  rateLimitExceeded: ERROR_CODES.E_RATE_LIMIT_EXCEEDED,
+  cooldownActive: ERROR_CODES.E_COOLDOWN_ACTIVE,
+
+  // Photon rewards
+  notAuthorized: ERROR_CODES.E_UNAUTHORIZED,
+  invalidRarity: ERROR_CODES.E_INVALID_AMOUNT,
+  photonIntegrationDisabled: ERROR_CODES.E_PROTOCOL_PAUSED,
+  campaignNotFound: ERROR_CODES.E_STREAM_NOT_FOUND,
+  campaignNotActive: ERROR_CODES.E_STREAM_NOT_ACTIVE,
+  invalidFeePercentage: ERROR_CODES.E_INVALID_PERCENTAGE,
+  invalidTimeRange: ERROR_CODES.E_INVALID_DURATION,
+  invalidRewardType: ERROR_CODES.E_INVALID_AMOUNT,
+  invalidTriggerType: ERROR_CODES.E_INVALID_AMOUNT,
+  maxCampaignsExceeded: ERROR_CODES.E_AMOUNT_OUT_OF_BOUNDS,
+  campaignAlreadyActive: ERROR_CODES.E_STREAM_ALREADY_EXISTS,
+  maxMilestonesExceeded: ERROR_CODES.E_AMOUNT_OUT_OF_BOUNDS,
+  invalidTierConfig: ERROR_CODES.E_INVALID_AMOUNT,
+  invalidCampaignStatus: ERROR_CODES.E_INVALID_DISPUTE_STATUS,
+  campaignExpired: ERROR_CODES.E_CERTIFICATE_EXPIRED,
+  noMilestonesDefined: ERROR_CODES.E_INVALID_COMPLIANCE_DATA,
+  noTiersDefined: ERROR_CODES.E_INVALID_COMPLIANCE_DATA,
+  campaignNotStarted: ERROR_CODES.E_INVALID_START_DATE,
+  campaignFull: ERROR_CODES.E_AMOUNT_OUT_OF_BOUNDS,
+  insufficientEligibility: ERROR_CODES.E_UNAUTHORIZED,
+  invalidReferral: ERROR_CODES.E_SELF_REFERENCE,
+  referrerNotFound: ERROR_CODES.E_STREAM_NOT_FOUND,
+  notRegistered: ERROR_CODES.E_NOT_INITIALIZED,
+  campaignMismatch: ERROR_CODES.E_INVALID_AMOUNT,
+  participationInactive: ERROR_CODES.E_STREAM_NOT_ACTIVE,
+  noRewardsToClaim: ERROR_CODES.E_INSUFFICIENT_ACCRUED_WAGES,
+} as const;
@@ -0,0 +1,63 @@
+/**
+ * Protocol Simulator - controllable clock
+ *
+ * Stands in for `aptos_framework::timestamp`. By default the clock is frozen
+ * at its start time and only moves when the caller advances it, so stream
+ * accrual is deterministic. With `realtime` it also follows the wall clock,
+ * which is what an interactive demo wants.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SimulatorClockOptions {
+  /** Unix time in seconds the clock starts at (defaults to now) */
+  start?: number;
+  /** Keep ticking with the wall clock between explicit advances */
+  realtime?: boolean;
+}
+
+// ============================================
+// CLOCK
+// ============================================
+
+export class SimulatorClock {
+  private readonly startedAt: number;
+  private readonly realtime: boolean;
+  private base: number;
+
+  constructor(options: SimulatorClockOptions = {}) {
+    this.startedAt = Date.now();
+    this.realtime = options.realtime ?? false;
+    this.base = options.start ?? Math.floor(this.startedAt / 1000);
+  }
+
+  /**
+   * Current chain time in seconds (`timestamp::now_seconds()`)
+   */
+  now(): number {
+    const elapsed = this.realtime ? Math.floor((Date.now() - this.startedAt) / 1000) : 0;
+    return this.base + elapsed;
+  }
+
+  /**
+   * Move the clock forward, e.g. `clock.advance(30 * 86400)` to skip a month
+   */
+  advance(seconds: number): number {
+    if (!Number.isInteger(seconds) || seconds < 0) {
+      throw new Error(`Clock can only advance by a non-negative whole number of seconds, got ${seconds}`);
+    }
+    this.base += seconds;
+    return this.now();
+  }
+
+  /**
+   * Jump to a Unix time in seconds; chain time never moves backwards
+   */
+  set(seconds: number): number {
+    const now = this.now();
+    if (seconds < now) throw new Error(`Clock cannot move backwards from ${now} to ${seconds}`);
+    return this.advance(seconds - now);
+  }
+}
@@ -0,0 +1,748 @@
+/**
+ * Wage Protocol - In-Memory Protocol Simulator
+ *
+ * Executes the six protocol modules in process, with the same entry and view
+ * functions, resources, events and abort codes as the deployed contracts, on
+ * a controllable clock. It answers the subset of the `Aptos` client the SDK and
+ * the frontend use (views, resources, transactions, indexed events), so either
+ * can run end-to-end without a node:
+ *
+ * @example
+ * ```typescript
+ * import { Network } from "@aptos-labs/ts-sdk";
+ * import { WageProtocolSDK } from "@wage-protocol/sdk";
+ * import { ProtocolSimulator } from "@wage-protocol/sdk/simulator";
+ *
+ * const simulator = new ProtocolSimulator({ moduleAddress: "0xcafe" });
+ * simulator.fund(EMPLOYER, 1_000 * 1e8);
+ * const sdk = new WageProtocolSDK({ network: Network.LOCAL, moduleAddress: "0xcafe", simulator });
+ *
+ * await sdk.initializeTreasury(500 * 1e8, simulator.signer(EMPLOYER));
+ * simulator.clock.advance(7 * 86400);
+ * ```
+ */
+
+import {
+  Aptos,
+  CommittedTransactionResponse,
+  MoveResource,
+  PendingTransactionResponse,
+  TransactionResponseType,
+  UserTransactionResponse,
+  WriteSetChange,
+} from "@aptos-labs/ts-sdk";
+import {
+  EntryFunctionPayload,
+  IndexedEvent,
+  MoveFunctionId,
+  ProtocolModuleName,
+  ProtocolModules,
+  ViewFunctionPayload,
+  getProtocolModules,
+  normalizeAddress,
+} from "../protocol/index.js";
+import { Signer } from "../signers.js";
+import { SimulatorClock } from "./clock.js";
+import {
+  ACCOUNT_TYPE,
+  APT_COIN_STORE_TYPE,
+  APT_COIN_TYPE,
+  ArgReader,
+  ExecutionContext,
+  ModuleHandlers,
+  primaryStoreType,
+} from "./runtime.js";
+import { GlobalStorage, VmError, toMoveJson } from "./storage.js";
+import { wageStreaming } from "./modules/wageStreaming.js";
+import { employerTreasury } from "./modules/employerTreasury.js";
+import { compliance } from "./modules/compliance.js";
+import { disputes } from "./modules/disputes.js";
+import { emergency } from "./modules/emergency.js";
+import { photonRewards } from "./modules/photonRewards.js";
+
+export { SimulatorClock } from "./clock.js";
+export type { SimulatorClockOptions } from "./clock.js";
+export { VmError } from "./storage.js";
+export { calculateWithdrawable } from "./modules/wageStreaming.js";
+export type { WageStream } from "./modules/wageStreaming.js";
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export interface ProtocolSimulatorConfig {
+  /** Address the modules are "published" at; it also holds the registries */
+  moduleAddress: string;
+  /** Overrides for deployments that renamed a module */
+  moduleNames?: Partial<Record<ProtocolModuleName, string>>;
+  /** Chain clock (defaults to a frozen clock starting now) */
+  clock?: SimulatorClock;
+  /** Protocol fee passed to `wage_streaming::initialize` (defaults to 25 bps) */
+  feeRateBps?: number;
+  /** Gas unit price charged for every transaction, in octas (defaults to 100) */
+  gasUnitPrice?: number;
+}
+
+export interface SimulatorTransactionOptions {
+  maxGasAmount?: number;
+  gasUnitPrice?: number;
+}
+
+/**
+ * A built (not yet executed) transaction, as returned by `transaction.build.simple`
+ */
+export interface SimulatorTransaction {
+  sender: string;
+  payload: EntryFunctionPayload;
+  options?: SimulatorTransactionOptions;
+}
+
+/**
+ * Row of `getAccountCoinsData` (subset of the indexer `current_fungible_asset_balances` table)
+ */
+export interface SimulatorCoinBalance {
+  amount: string;
+  asset_type: string;
+  owner_address: string;
+  /** "v1" for coins, "v2" for fungible assets */
+  token_standard: "v1" | "v2";
+  is_frozen: boolean;
+  is_primary: boolean;
+  last_transaction_version: string;
+}
+
+interface IndexerQuery {
+  query: string;
+  variables?: {
+    where?: Record<string, unknown>;
+    limit?: number;
+    offset?: number;
+    order_by?: Record<string, "asc" | "desc">[];
+    /** For `user_transactions` lookups by version */
+    versions?: string[];
+  };
+}
+
+type MoveStructId = `${string}::${string}::${string}`;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const HANDLERS: Record<ProtocolModuleName, ModuleHandlers> = {
+  wageStreaming,
+  employerTreasury,
+  compliance,
+  disputes,
+  emergency,
+  photonRewards,
+};
+
+const DEFAULT_FEE_RATE_BPS = 25;
+const DEFAULT_GAS_UNIT_PRICE = 100;
+const DEFAULT_MAX_GAS_AMOUNT = 200_000;
+const TRANSACTION_EXPIRY_SECONDS = 600;
+const DEPLOYER_FUNDS = BigInt(100_000_000_000);
+
+// Flat gas schedule: a base cost plus a charge per emitted event
+const GAS_BASE = 500;
+const GAS_PER_EVENT = 50;
+
+const EXECUTED = "Executed successfully";
+const ZERO_HASH = `0x${"0".repeat(64)}`;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const parseFunctionId = (functionId: MoveFunctionId): { moduleKey: string; name: string } => {
+  const [address, module, name] = functionId.split("::");
+  return { moduleKey: `${normalizeAddress(address)}::${module}`, name };
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const numeric = (value: unknown) =>
+    typeof value === "number" || typeof value === "bigint" || (typeof value === "string" && /^\d+$/.test(value));
+  if (numeric(a) && numeric(b)) {
+    const [x, y] = [BigInt(a as string), BigInt(b as string)];
+    return x === y ? 0 : x < y ? -1 : 1;
+  }
+  return String(a).localeCompare(String(b));
+};
+
+/**
+ * JSONB `@>`: every field of `pattern` is present in `value`
+ */
+const jsonContains = (value: unknown, pattern: unknown): boolean => {
+  if (Array.isArray(pattern)) {
+    return Array.isArray(value) && pattern.every((item) => value.some((entry) => jsonContains(entry, item)));
+  }
+  if (pattern && typeof pattern === "object") {
+    if (!value || typeof value !== "object") return false;
+    return Object.entries(pattern).every(([key, field]) =>
+      jsonContains((value as Record<string, unknown>)[key], field)
+    );
+  }
+  return value === pattern;
+};
+
+/**
+ * Evaluate a Hasura `events_bool_exp` against an indexed event row
+ */
+const matchesWhere = (row: IndexedEvent, where: Record<string, unknown>): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === "_and") return (condition as Record<string, unknown>[]).every((part) => matchesWhere(row, part));
+    if (key === "_or") return (condition as Record<string, unknown>[]).some((part) => matchesWhere(row, part));
+    if (key === "_not") return !matchesWhere(row, condition as Record<string, unknown>);
+
+    const field = row[key as keyof IndexedEvent];
+    return Object.entries(condition as Record<string, unknown>).every(([op, operand]) => {
+      switch (op) {
+        case "_eq":
+          return compareValues(field, operand) === 0;
+        case "_neq":
+          return compareValues(field, operand) !== 0;
+        case "_in":
+          return (operand as unknown[]).some((candidate) => compareValues(field, candidate) === 0);
+        case "_gt":
+          return compareValues(field, operand) > 0;
+        case "_gte":
+          return compareValues(field, operand) >= 0;
+        case "_lt":
+          return compareValues(field, operand) < 0;
+        case "_lte":
+          return compareValues(field, operand) <= 0;
+        case "_contains":
+          return jsonContains(field, operand);
+        default:
+          throw new Error(`Unsupported indexer operator in simulator query: ${op}`);
+      }
+    });
+  });
+
+// ============================================
+// SIMULATOR
+// ============================================
+
+/**
+ * In-memory chain running the protocol modules. Transactions execute
+ * atomically: a Move abort discards every write except the gas charge.
+ */
+export class ProtocolSimulator {
+  readonly clock: SimulatorClock;
+  readonly modules: ProtocolModules;
+  readonly moduleAddress: string;
+
+  private storage = new GlobalStorage();
+  private transactions: UserTransactionResponse[] = [];
+  private indexedEvents: IndexedEvent[] = [];
+  private readonly moduleIndex: Map<string, ProtocolModuleName>;
+  private readonly gasUnitPrice: number;
+
+  constructor(config: ProtocolSimulatorConfig) {
+    this.clock = config.clock ?? new SimulatorClock();
+    this.modules = getProtocolModules(config.moduleAddress, config.moduleNames);
+    this.moduleAddress = normalizeAddress(config.moduleAddress);
+    this.gasUnitPrice = config.gasUnitPrice ?? DEFAULT_GAS_UNIT_PRICE;
+    this.moduleIndex = new Map(
+      (Object.keys(this.modules) as ProtocolModuleName[]).map((name) => {
+        const [address, module] = this.modules[name].split("::");
+        return [`${normalizeAddress(address)}::${module}`, name];
+      })
+    );
+
+    this.deploy(config.feeRateBps ?? DEFAULT_FEE_RATE_BPS);
+  }
+
+  /**
+   * Run every module initializer from the module account, as the deploy scripts do
+   */
+  private deploy(feeRateBps: number): void {
+    const admin = this.moduleAddress;
+    this.fund(admin, DEPLOYER_FUNDS);
+
+    const initializers: [ProtocolModuleName, string, unknown[]][] = [
+      ["wageStreaming", "initialize", [feeRateBps]],
+      ["employerTreasury", "initialize_registry", []],
+      ["compliance", "initialize", []],
+      ["disputes", "initialize_dispute_system", [admin, 100]],
+      ["emergency", "initialize_emergency_system", [[]]],
+      ["photonRewards", "initialize_rewards_system", [admin, 0, ""]],
+    ];
+    for (const [module, name, functionArguments] of initializers) {
+      const txn = this.execute(admin, {
+        function: `${this.modules[module]}::${name}`,
+        functionArguments: functionArguments as EntryFunctionPayload["functionArguments"],
+      });
+      if (!txn.success) throw new Error(`Simulator deployment failed at ${module}::${name}: ${txn.vm_status}`);
+    }
+  }
+
+  // ============================================
+  // ACCOUNTS
+  // ============================================
+
+  /**
+   * Mint APT into an account (creating it if needed), like a local faucet
+   */
+  fund(address: string, amount: number | bigint): void {
+    const ctx = new ExecutionContext(this.storage, this.modules, "0x1::aptos_coin", this.now(), null);
+    ctx.depositCoin(normalizeAddress(address), { value: BigInt(amount) });
+  }
+
+  /**
+   * APT balance of an account, in octas
+   */
+  balanceOf(address: string): bigint {
+    const account = normalizeAddress(address);
+    if (!this.storage.exists(account, APT_COIN_STORE_TYPE)) return BigInt(0);
+    return this.storage.borrow<{ coin: { value: bigint } }>(account, APT_COIN_STORE_TYPE).coin.value;
+  }
+
+  /**
+   * Mint a fungible asset (e.g. a stablecoin) into an account's primary store.
+   * The simulator does not model asset metadata, so any metadata address works.
+   */
+  fundAsset(address: string, metadata: string, amount: number | bigint): void {
+    const ctx = new ExecutionContext(this.storage, this.modules, "0x1::primary_fungible_store", this.now(), null);
+    ctx.depositAsset(normalizeAddress(address), { metadata: normalizeAddress(metadata), amount: BigInt(amount) });
+  }
+
+  /**
+   * Balance of a fungible asset in an account's primary store, in the asset's smallest unit
+   */
+  assetBalanceOf(address: string, metadata: string): bigint {
+    const ctx = new ExecutionContext(this.storage, this.modules, "0x1::primary_fungible_store", this.now(), null);
+    return ctx.assetBalance(normalizeAddress(address), metadata);
+  }
+
+  /**
+   * A signer that submits as `address` without a key, for scripts and tests
+   */
+  signer(address: string): SimulatorSigner {
+    return new SimulatorSigner(this, address);
+  }
+
+  // ============================================
+  // EXECUTION
+  // ============================================
+
+  private now(): bigint {
+    return BigInt(this.clock.now());
+  }
+
+  private resolve(functionId: MoveFunctionId): { moduleName: ProtocolModuleName; name: string } | null {
+    const { moduleKey, name } = parseFunctionId(functionId);
+    const moduleName = this.moduleIndex.get(moduleKey);
+    return moduleName ? { moduleName, name } : null;
+  }
+
+  /**
+   * Execute an entry function as `sender` and commit the result
+   */
+  execute(
+    sender: string,
+    payload: EntryFunctionPayload,
+    options?: SimulatorTransactionOptions
+  ): UserTransactionResponse {
+    return this.run(sender, payload, options, true);
+  }
+
+  /**
+   * Execute an entry function as `sender` without committing anything
+   */
+  dryRun(
+    sender: string,
+    payload: EntryFunctionPayload,
+    options?: SimulatorTransactionOptions
+  ): UserTransactionResponse {
+    return this.run(sender, payload, options, false);
+  }
+
+  private run(
+    sender: string,
+    payload: EntryFunctionPayload,
+    options: SimulatorTransactionOptions = {},
+    commit: boolean
+  ): UserTransactionResponse {
+    const senderAddress = normalizeAddress(sender);
+    const maxGasAmount = BigInt(options.maxGasAmount ?? DEFAULT_MAX_GAS_AMOUNT);
+    const gasUnitPrice = BigInt(options.gasUnitPrice ?? this.gasUnitPrice);
+    const now = this.now();
+
+    // Prologue: rejected transactions never reach the chain
+    if (!this.storage.exists(senderAddress, ACCOUNT_TYPE)) {
+      throw new Error(`Transaction rejected: SENDING_ACCOUNT_DOES_NOT_EXIST (${senderAddress})`);
+    }
+    if (this.balanceOf(senderAddress) < maxGasAmount * gasUnitPrice) {
+      throw new Error(`Transaction rejected: INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE (${senderAddress})`);
+    }
+
+    let state = this.storage.clone();
+    let events: ExecutionContext["events"] = [];
+    let vmStatus = EXECUTED;
+    try {
+      events = this.call(state, payload, senderAddress, now);
+    } catch (error) {
+      if (!(error instanceof VmError)) throw error;
+      state = this.storage.clone();
+      vmStatus = error.vmStatus;
+    }
+
+    // Epilogue: charge gas and bump the sequence number, even for aborted transactions
+    const epilogue = new ExecutionContext(state, this.modules, "0x1::transaction_validation", now, senderAddress);
+    const account = epilogue.account(senderAddress);
+    const sequenceNumber = account.sequence_number;
+    account.sequence_number = sequenceNumber + BigInt(1);
+    const gasUsed = BigInt(GAS_BASE + GAS_PER_EVENT * events.length);
+    epilogue.withdrawCoin(senderAddress, gasUsed * gasUnitPrice);
+
+    const version = BigInt(this.transactions.length);
+    const hash = `0x${version.toString(16).padStart(64, "0")}`;
+    const txn: UserTransactionResponse = {
+      type: TransactionResponseType.User,
+      version: version.toString(),
+      hash,
+      state_change_hash: ZERO_HASH,
+      event_root_hash: ZERO_HASH,
+      state_checkpoint_hash: null,
+      gas_used: gasUsed.toString(),
+      success: vmStatus === EXECUTED,
+      vm_status: vmStatus,
+      accumulator_root_hash: ZERO_HASH,
+      changes: this.diff(state),
+      sender: senderAddress,
+      sequence_number: sequenceNumber.toString(),
+      replay_protection_nonce: "0",
+      max_gas_amount: maxGasAmount.toString(),
+      gas_unit_price: gasUnitPrice.toString(),
+      expiration_timestamp_secs: (now + BigInt(TRANSACTION_EXPIRY_SECONDS)).toString(),
+      payload: {
+        type: "entry_function_payload",
+        function: payload.function,
+        type_arguments: payload.typeArguments ?? [],
+        arguments: toMoveJson(payload.functionArguments) as unknown[],
+      },
+      events: events.map((event) => ({
+        guid: { creation_number: event.creationNumber.toString(), account_address: event.accountAddress },
+        sequence_number: event.sequenceNumber.toString(),
+        type: event.type,
+        data: toMoveJson(event.data),
+      })),
+      timestamp: (now * BigInt(1_000_000)).toString(),
+    };
+
+    if (commit) {
+      this.storage = state;
+      this.transactions.push(txn);
+      txn.events.forEach((event, eventIndex) => {
+        this.indexedEvents.push({
+          account_address: event.guid.account_address,
+          creation_number: event.guid.creation_number,
+          data: event.data,
+          event_index: eventIndex,
+          sequence_number: event.sequence_number,
+          transaction_version: txn.version,
+          type: event.type,
+          indexed_type: event.type,
+        });
+      });
+    }
+
+    return txn;
+  }
+
+  private call(storage: GlobalStorage, payload: EntryFunctionPayload, sender: string, now: bigint) {
+    const target = this.resolve(payload.function);
+    const handler = target && HANDLERS[target.moduleName].entry[target.name];
+    if (!target || !handler) throw new VmError(`LINKER_ERROR: ${payload.function} is not a protocol entry function`);
+
+    const ctx = new ExecutionContext(storage, this.modules, this.modules[target.moduleName], now, sender);
+    handler(ctx, new ArgReader(payload.function, payload.functionArguments));
+    return ctx.events;
+  }
+
+  /**
+   * Resources of `state` that differ from committed storage, as write set changes
+   */
+  private diff(state: GlobalStorage): WriteSetChange[] {
+    const committed = new Map(
+      this.storage
+        .entries()
+        .map(([address, type, resource]) => [`${address}/${type}`, JSON.stringify(toMoveJson(resource))])
+    );
+
+    return state.entries().flatMap(([address, type, resource]) => {
+      const data = toMoveJson(resource) as object;
+      if (committed.get(`${address}/${type}`) === JSON.stringify(data)) return [];
+      const change = {
+        type: "write_resource",
+        address,
+        state_key_hash: ZERO_HASH,
+        data: { type: type as MoveStructId, data },
+      };
+      return [change];
+    });
+  }
+
+  // ============================================
+  // APTOS CLIENT SURFACE
+  // ============================================
+
+  /**
+   * `Aptos.view`
+   */
+  async view<T extends unknown[] = unknown[]>(args: { payload: ViewFunctionPayload }): Promise<T> {
+    const { payload } = args;
+    const target = this.resolve(payload.function);
+    const handler = target && HANDLERS[target.moduleName].view[target.name];
+    if (!target || !handler) throw new Error(`${payload.function} is not a protocol view function`);
+
+    // Views run against a copy so a handler can never leak writes into committed state
+    const ctx = new ExecutionContext(
+      this.storage.clone(),
+      this.modules,
+      this.modules[target.moduleName],
+      this.now(),
+      null
+    );
+    return toMoveJson(handler(ctx, new ArgReader(payload.function, payload.functionArguments))) as T;
+  }
+
+  /**
+   * `Aptos.getAccountResource`
+   */
+  async getAccountResource<T extends {} = {}>(args: {
+    accountAddress: string;
+    resourceType: MoveStructId;
+  }): Promise<T> {
+    const address = normalizeAddress(args.accountAddress);
+    if (!this.storage.exists(address, args.resourceType)) {
+      throw new Error(
+        `Resource not found by Address(${address}), Struct tag(${args.resourceType}) and ` +
+          `Ledger version(${this.transactions.length})`
+      );
+    }
+    return toMoveJson(this.storage.borrow(address, args.resourceType)) as T;
+  }
+
+  /**
+   * `Aptos.getAccountResources`
+   */
+  async getAccountResources(args: { accountAddress: string }): Promise<MoveResource[]> {
+    const address = normalizeAddress(args.accountAddress);
+    return this.storage
+      .entries()
+      .filter(([owner]) => owner === address)
+      .map(([, type, resource]) => ({ type: type as MoveStructId, data: toMoveJson(resource) as {} }));
+  }
+
+  /**
+   * `Aptos.getAccountCoinsData`: APT and the account's primary fungible asset stores
+   */
+  async getAccountCoinsData(args: { accountAddress: string }): Promise<SimulatorCoinBalance[]> {
+    const address = normalizeAddress(args.accountAddress);
+    const row = (assetType: string, amount: bigint, tokenStandard: "v1" | "v2"): SimulatorCoinBalance => ({
+      amount: amount.toString(),
+      asset_type: assetType,
+      owner_address: address,
+      token_standard: tokenStandard,
+      is_frozen: false,
+      is_primary: true,
+      last_transaction_version: String(Math.max(this.transactions.length - 1, 0)),
+    });
+
+    const rows = this.storage.exists(address, APT_COIN_STORE_TYPE)
+      ? [row(APT_COIN_TYPE, this.balanceOf(address), "v1")]
+      : [];
+    for (const [owner, type, resource] of this.storage.entries()) {
+      const store = resource as { metadata: { inner: string }; balance: bigint };
+      if (owner === address && type === primaryStoreType(store.metadata?.inner ?? "0x0")) {
+        rows.push(row(store.metadata.inner, store.balance, "v2"));
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * `Aptos.getAccountAPTAmount`
+   */
+  async getAccountAPTAmount(args: { accountAddress: string }): Promise<number> {
+    return Number(this.balanceOf(args.accountAddress));
+  }
+
+  /**
+   * `Aptos.getAccountInfo`
+   */
+  async getAccountInfo(args: {
+    accountAddress: string;
+  }): Promise<{ sequence_number: string; authentication_key: string }> {
+    const address = normalizeAddress(args.accountAddress);
+    const account = await this.getAccountResource<{ sequence_number: string }>({
+      accountAddress: address,
+      resourceType: ACCOUNT_TYPE,
+    });
+    return { sequence_number: account.sequence_number, authentication_key: address };
+  }
+
+  /**
+   * `Aptos.waitForTransaction`: transactions commit synchronously, so this only looks them up
+   */
+  async waitForTransaction(args: {
+    transactionHash: string;
+    options?: { checkSuccess?: boolean };
+  }): Promise<CommittedTransactionResponse> {
+    const txn = await this.getTransactionByHash({ transactionHash: args.transactionHash });
+    if (!txn.success && args.options?.checkSuccess !== false) {
+      throw new Error(`Transaction ${txn.hash} failed with an error: ${txn.vm_status}`);
+    }
+    return txn;
+  }
+
+  /**
+   * `Aptos.getTransactionByHash`
+   */
+  async getTransactionByHash(args: { transactionHash: string }): Promise<UserTransactionResponse> {
+    const txn = this.transactions.find((candidate) => candidate.hash === args.transactionHash.toLowerCase());
+    if (!txn) throw new Error(`Transaction not found by Transaction hash(${args.transactionHash})`);
+    return txn;
+  }
+
+  /**
+   * `Aptos.getTransactionByVersion`
+   */
+  async getTransactionByVersion(args: { ledgerVersion: number | bigint }): Promise<UserTransactionResponse> {
+    const txn = this.transactions[Number(args.ledgerVersion)];
+    if (!txn) throw new Error(`Transaction not found by Ledger version(${args.ledgerVersion})`);
+    return txn;
+  }
+
+  /**
+   * `Aptos.queryIndexer`, for the `events` table and `user_transactions` by version
+   */
+  async queryIndexer<T extends {}>(args: { query: IndexerQuery }): Promise<T> {
+    const { query, variables = {} } = args.query;
+    if (/\buser_transactions\s*\(/.test(query)) {
+      const versions = new Set((variables.versions ?? []).map(String));
+      const userTransactions = this.transactions
+        .filter((txn) => versions.has(txn.version))
+        // The indexer stores UTC times without a zone suffix
+        .map((txn) => ({
+          version: txn.version,
+          timestamp: new Date(Number(BigInt(txn.timestamp) / BigInt(1000))).toISOString().replace(/Z$/, ""),
+        }));
+      return { user_transactions: userTransactions } as unknown as T;
+    }
+    if (!/\bevents\s*\(/.test(query)) {
+      throw new Error("The protocol simulator only indexes the events table and user transactions");
+    }
+
+    const rows = this.indexedEvents.filter((row) => matchesWhere(row, variables.where ?? {}));
+    for (const ordering of [...(variables.order_by ?? [])].reverse()) {
+      const [[field, direction]] = Object.entries(ordering);
+      rows.sort((a, b) => {
+        const result = compareValues(a[field as keyof IndexedEvent], b[field as keyof IndexedEvent]);
+        return direction === "desc" ? -result : result;
+      });
+    }
+
+    const offset = variables.offset ?? 0;
+    const events = rows.slice(offset, variables.limit === undefined ? undefined : offset + variables.limit);
+    return { events } as unknown as T;
+  }
+
+  /**
+   * `Aptos.signAndSubmitTransaction`: the signer only has to match the sender
+   */
+  async signAndSubmitTransaction(args: {
+    signer: { accountAddress: { toString(): string } };
+    transaction: SimulatorTransaction;
+  }): Promise<PendingTransactionResponse> {
+    const signerAddress = normalizeAddress(args.signer.accountAddress.toString());
+    if (signerAddress !== normalizeAddress(args.transaction.sender)) {
+      throw new Error(`Transaction for ${args.transaction.sender} cannot be signed by ${signerAddress}`);
+    }
+    return this.submit(args.transaction);
+  }
+
+  private submit(transaction: SimulatorTransaction): PendingTransactionResponse {
+    const txn = this.execute(transaction.sender, transaction.payload, transaction.options);
+    return {
+      type: TransactionResponseType.Pending,
+      hash: txn.hash,
+      sender: txn.sender,
+      sequence_number: txn.sequence_number,
+      max_gas_amount: txn.max_gas_amount,
+      gas_unit_price: txn.gas_unit_price,
+      expiration_timestamp_secs: txn.expiration_timestamp_secs,
+      payload: txn.payload,
+    };
+  }
+
+  /**
+   * `Aptos.transaction` builders, simulation and submission
+   */
+  readonly transaction = {
+    build: {
+      simple: async (args: {
+        sender: { toString(): string } | string;
+        data: EntryFunctionPayload;
+        options?: SimulatorTransactionOptions;
+      }): Promise<SimulatorTransaction> => ({
+        sender: normalizeAddress(args.sender.toString()),
+        payload: args.data,
+        options: args.options,
+      }),
+    },
+    simulate: {
+      simple: async (args: { transaction: SimulatorTransaction }): Promise<UserTransactionResponse[]> => [
+        this.dryRun(args.transaction.sender, args.transaction.payload, args.transaction.options),
+      ],
+    },
+    submit: {
+      simple: async (args: { transaction: SimulatorTransaction }): Promise<PendingTransactionResponse> =>
+        this.submit(args.transaction),
+    },
+  };
+
+  /**
+   * This simulator typed as an `Aptos` client, for code written against the
+   * ts-sdk. Calling a method the simulator does not implement throws.
+   */
+  asAptos(): Aptos {
+    return new Proxy(this, {
+      get(target, property, receiver) {
+        if (typeof property === "symbol" || property === "then" || property in target) {
+          return Reflect.get(target, property, receiver);
+        }
+        return () => {
+          throw new Error(`Aptos.${property} is not supported by the protocol simulator`);
+        };
+      },
+    }) as unknown as Aptos;
+  }
+}
+
+// ============================================
+// SIGNER
+// ============================================
+
+/**
+ * Submits directly to a ProtocolSimulator as any address (no key needed)
+ */
+export class SimulatorSigner implements Signer {
+  constructor(
+    private simulator: ProtocolSimulator,
+    private address: string,
+    private options?: SimulatorTransactionOptions
+  ) {}
+
+  getAddress(): string {
+    return normalizeAddress(this.address);
+  }
+
+  async submit(_aptos: Aptos, payload: EntryFunctionPayload): Promise<CommittedTransactionResponse> {
+    const txn = this.simulator.execute(this.address, payload, this.options);
+    return this.simulator.waitForTransaction({ transactionHash: txn.hash });
+  }
+}
@@ -0,0 +1,616 @@
+/**
+ * Protocol Simulator - compliance
+ *
+ * Employer/employee registration, statutory deductions (EPF, ESI, TDS,
+ * professional tax), stream verification, monthly reports and certificates,
+ * following `compliance.move`.
+ */
+
+import { abortCodes } from "../abortCodes.js";
+import { EventHandle, ExecutionContext, ModuleHandlers, add, div, mul, sub } from "../runtime.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ComplianceRegistry {
+  admin: string;
+  total_employers: bigint;
+  total_employees: bigint;
+  total_reports: bigint;
+  verification_events: EventHandle;
+  deduction_events: EventHandle;
+  certificate_events: EventHandle;
+}
+
+interface StatutoryRates {
+  epf_employee_rate: bigint;
+  epf_employer_rate: bigint;
+  esi_employee_rate: bigint;
+  esi_employer_rate: bigint;
+  esi_ceiling: bigint;
+  epf_ceiling: bigint;
+  last_updated: bigint;
+  updated_by: string;
+}
+
+interface EmployerCompliance {
+  employer: string;
+  pan_hash: string;
+  gstin_hash: string;
+  epf_code_hash: string;
+  esi_code_hash: string;
+  state_code: number;
+  epf_registered: boolean;
+  esi_registered: boolean;
+  registered_at: bigint;
+  last_compliance_check: bigint;
+  status: number;
+  employee_count: bigint;
+  total_deductions: bigint;
+}
+
+interface EmployeeCompliance {
+  employee: string;
+  pan_hash: string;
+  aadhaar_hash: string;
+  uan_hash: string;
+  bank_account_hash: string;
+  tax_regime: number;
+  declared_annual_income: bigint;
+  epf_member: boolean;
+  esi_eligible: boolean;
+  registered_at: bigint;
+  kyc_verified: boolean;
+  status: number;
+}
+
+interface MonthlyComplianceRecord {
+  month: bigint;
+  total_wages: bigint;
+  epf_employee: bigint;
+  epf_employer: bigint;
+  esi_employee: bigint;
+  esi_employer: bigint;
+  tds_deducted: bigint;
+  professional_tax: bigint;
+  employee_count: bigint;
+  submitted_at: bigint;
+  is_verified: boolean;
+}
+
+interface EmployerComplianceRecords {
+  records: MonthlyComplianceRecord[];
+  total_epf: bigint;
+  total_esi: bigint;
+  total_tds: bigint;
+}
+
+interface StreamCompliance {
+  stream_id: bigint;
+  employer: string;
+  employee: string;
+  total_wages: bigint;
+  epf_deducted: bigint;
+  esi_deducted: bigint;
+  tds_deducted: bigint;
+  pt_deducted: bigint;
+  net_payable: bigint;
+  is_compliant: boolean;
+  last_updated: bigint;
+}
+
+interface StreamComplianceStore {
+  compliances: StreamCompliance[];
+}
+
+interface ComplianceCertificate {
+  certificate_id: bigint;
+  employer: string;
+  period: bigint;
+  cert_type: number;
+  issued_at: bigint;
+  valid_until: bigint;
+  certificate_hash: string;
+  is_valid: boolean;
+}
+
+interface CertificateStore {
+  next_id: bigint;
+  certificates: ComplianceCertificate[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const ESI_WAGE_CEILING = BigInt(21000_00000000);
+const EPF_WAGE_CEILING = BigInt(15000_00000000);
+const MIN_DAILY_WAGE = BigInt(500_00000000);
+
+const TDS_SLAB_1_LIMIT = BigInt(250000_00000000);
+const TDS_SLAB_2_LIMIT = BigInt(500000_00000000);
+const TDS_SLAB_3_LIMIT = BigInt(1000000_00000000);
+const TDS_RATE_SLAB_2 = BigInt(500);
+const TDS_RATE_SLAB_3 = BigInt(2000);
+const TDS_RATE_SLAB_4 = BigInt(3000);
+
+const STATUS_PENDING = 1;
+const STATUS_VERIFIED = 2;
+const STATUS_FLAGGED = 3;
+
+const BPS = BigInt(10000);
+const SECONDS_PER_DAY = BigInt(86400);
+
+// ============================================
+// HELPERS
+// ============================================
+
+const calculateTds = (annualIncome: bigint, currentPayment: bigint): bigint => {
+  if (annualIncome <= TDS_SLAB_1_LIMIT) return BigInt(0);
+
+  let effectiveRate: bigint;
+  if (annualIncome <= TDS_SLAB_2_LIMIT) {
+    effectiveRate = TDS_RATE_SLAB_2;
+  } else if (annualIncome <= TDS_SLAB_3_LIMIT) {
+    effectiveRate = TDS_RATE_SLAB_3;
+  } else {
+    effectiveRate = TDS_RATE_SLAB_4;
+  }
+  return div(mul(currentPayment, effectiveRate), BPS);
+};
+
+/**
+ * State codes: 1 = Maharashtra, 2 = Karnataka, anything else the default slab
+ */
+const calculateProfessionalTax = (monthlyWage: bigint, stateCode: number): bigint => {
+  if (stateCode === 1) {
+    if (monthlyWage <= BigInt(7500_00000000)) return BigInt(0);
+    if (monthlyWage <= BigInt(10000_00000000)) return BigInt(175_00000000);
+    return BigInt(200_00000000);
+  }
+  if (stateCode === 2) {
+    return monthlyWage <= BigInt(15000_00000000) ? BigInt(0) : BigInt(200_00000000);
+  }
+  return monthlyWage > BigInt(10000_00000000) ? BigInt(150_00000000) : BigInt(0);
+};
+
+/**
+ * `calculate_deductions`: (epf, esi, tds, pt, net)
+ */
+const calculateDeductions = (
+  ctx: ExecutionContext,
+  registryAddr: string,
+  employer: string,
+  employee: string,
+  grossWage: bigint
+): [bigint, bigint, bigint, bigint, bigint] => {
+  ctx.check(ctx.exists(registryAddr, "StatutoryRates"), abortCodes.notInitialized);
+  const rates = ctx.borrow<StatutoryRates>(registryAddr, "StatutoryRates");
+
+  const employerCompliance = ctx.exists(employer, "EmployerCompliance")
+    ? ctx.borrow<EmployerCompliance>(employer, "EmployerCompliance")
+    : undefined;
+  const employeeCompliance = ctx.exists(employee, "EmployeeCompliance")
+    ? ctx.borrow<EmployeeCompliance>(employee, "EmployeeCompliance")
+    : undefined;
+
+  let epf = BigInt(0);
+  let esi = BigInt(0);
+  let tds = BigInt(0);
+  let pt = BigInt(0);
+
+  if (employerCompliance && employeeCompliance) {
+    if (employerCompliance.epf_registered && employeeCompliance.epf_member) {
+      const epfBase = grossWage > rates.epf_ceiling ? rates.epf_ceiling : grossWage;
+      epf = div(mul(epfBase, rates.epf_employee_rate), BPS);
+    }
+    if (employerCompliance.esi_registered && employeeCompliance.esi_eligible && grossWage <= rates.esi_ceiling) {
+      esi = div(mul(grossWage, rates.esi_employee_rate), BPS);
+    }
+  }
+  if (employeeCompliance) tds = calculateTds(employeeCompliance.declared_annual_income, grossWage);
+  if (employerCompliance) pt = calculateProfessionalTax(grossWage, employerCompliance.state_code);
+
+  return [epf, esi, tds, pt, sub(grossWage, epf, esi, tds, pt)];
+};
+
+const adminRegistry = (ctx: ExecutionContext, registryAddr: string): ComplianceRegistry => {
+  ctx.check(ctx.exists(registryAddr, "ComplianceRegistry"), abortCodes.notInitialized);
+  const registry = ctx.borrow<ComplianceRegistry>(registryAddr, "ComplianceRegistry");
+  ctx.check(registry.admin === ctx.sender, abortCodes.unauthorized);
+  return registry;
+};
+
+const employerOf = (ctx: ExecutionContext, employer: string): EmployerCompliance => {
+  ctx.check(ctx.exists(employer, "EmployerCompliance"), abortCodes.employerNotRegistered);
+  return ctx.borrow<EmployerCompliance>(employer, "EmployerCompliance");
+};
+
+const employeeOf = (ctx: ExecutionContext, employee: string): EmployeeCompliance => {
+  ctx.check(ctx.exists(employee, "EmployeeCompliance"), abortCodes.employeeNotRegistered);
+  return ctx.borrow<EmployeeCompliance>(employee, "EmployeeCompliance");
+};
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export const compliance: ModuleHandlers = {
+  entry: {
+    initialize(ctx, args) {
+      args.done();
+      const admin = ctx.sender;
+      ctx.check(!ctx.exists(admin, "ComplianceRegistry"), abortCodes.alreadyInitialized);
+
+      ctx.moveTo<ComplianceRegistry>(admin, "ComplianceRegistry", {
+        admin,
+        total_employers: BigInt(0),
+        total_employees: BigInt(0),
+        total_reports: BigInt(0),
+        verification_events: ctx.newEventHandle(admin),
+        deduction_events: ctx.newEventHandle(admin),
+        certificate_events: ctx.newEventHandle(admin),
+      });
+      ctx.moveTo<StatutoryRates>(admin, "StatutoryRates", {
+        epf_employee_rate: BigInt(1200),
+        epf_employer_rate: BigInt(1200),
+        esi_employee_rate: BigInt(75),
+        esi_employer_rate: BigInt(325),
+        esi_ceiling: ESI_WAGE_CEILING,
+        epf_ceiling: EPF_WAGE_CEILING,
+        last_updated: ctx.now,
+        updated_by: admin,
+      });
+      ctx.moveTo<StreamComplianceStore>(admin, "StreamComplianceStore", { compliances: [] });
+      ctx.moveTo<CertificateStore>(admin, "CertificateStore", { next_id: BigInt(1), certificates: [] });
+    },
+
+    register_employer(ctx, args) {
+      const registryAddr = args.address();
+      const [panHash, gstinHash, epfCodeHash, esiCodeHash] = [args.bytes(), args.bytes(), args.bytes(), args.bytes()];
+      const [stateCode, epfRegistered, esiRegistered] = [args.u8(), args.bool(), args.bool()];
+      args.done();
+      const employer = ctx.sender;
+
+      ctx.check(ctx.exists(registryAddr, "ComplianceRegistry"), abortCodes.notInitialized);
+      ctx.check(!ctx.exists(employer, "EmployerCompliance"), abortCodes.alreadyInitialized);
+
+      ctx.moveTo<EmployerCompliance>(employer, "EmployerCompliance", {
+        employer,
+        pan_hash: panHash,
+        gstin_hash: gstinHash,
+        epf_code_hash: epfCodeHash,
+        esi_code_hash: esiCodeHash,
+        state_code: stateCode,
+        epf_registered: epfRegistered,
+        esi_registered: esiRegistered,
+        registered_at: ctx.now,
+        last_compliance_check: ctx.now,
+        status: STATUS_PENDING,
+        employee_count: BigInt(0),
+        total_deductions: BigInt(0),
+      });
+      ctx.moveTo<EmployerComplianceRecords>(employer, "EmployerComplianceRecords", {
+        records: [],
+        total_epf: BigInt(0),
+        total_esi: BigInt(0),
+        total_tds: BigInt(0),
+      });
+
+      const registry = ctx.borrow<ComplianceRegistry>(registryAddr, "ComplianceRegistry");
+      registry.total_employers = add(registry.total_employers, BigInt(1));
+    },
+
+    register_employee(ctx, args) {
+      const registryAddr = args.address();
+      const [panHash, aadhaarHash, uanHash, bankAccountHash] = [args.bytes(), args.bytes(), args.bytes(), args.bytes()];
+      const [taxRegime, declaredAnnualIncome, epfMember] = [args.u8(), args.u64(), args.bool()];
+      args.done();
+      const employee = ctx.sender;
+
+      ctx.check(ctx.exists(registryAddr, "ComplianceRegistry"), abortCodes.notInitialized);
+      ctx.check(!ctx.exists(employee, "EmployeeCompliance"), abortCodes.alreadyInitialized);
+
+      ctx.moveTo<EmployeeCompliance>(employee, "EmployeeCompliance", {
+        employee,
+        pan_hash: panHash,
+        aadhaar_hash: aadhaarHash,
+        uan_hash: uanHash,
+        bank_account_hash: bankAccountHash,
+        tax_regime: taxRegime,
+        declared_annual_income: declaredAnnualIncome,
+        epf_member: epfMember,
+        esi_eligible: div(declaredAnnualIncome, BigInt(12)) <= ESI_WAGE_CEILING,
+        registered_at: ctx.now,
+        kyc_verified: false,
+        status: STATUS_PENDING,
+      });
+
+      const registry = ctx.borrow<ComplianceRegistry>(registryAddr, "ComplianceRegistry");
+      registry.total_employees = add(registry.total_employees, BigInt(1));
+    },
+
+    verify_stream_compliance(ctx, args) {
+      const [registryAddr, streamId, employer, employee, totalWages] = [
+        args.address(),
+        args.u64(),
+        args.address(),
+        args.address(),
+        args.u64(),
+      ];
+      args.done();
+
+      const registry = adminRegistry(ctx, registryAddr);
+      const [epf, esi, tds, pt, net] = calculateDeductions(ctx, registryAddr, employer, employee, totalWages);
+      const isCompliant = div(totalWages, BigInt(30)) >= MIN_DAILY_WAGE;
+
+      const record: StreamCompliance = {
+        stream_id: streamId,
+        employer,
+        employee,
+        total_wages: totalWages,
+        epf_deducted: epf,
+        esi_deducted: esi,
+        tds_deducted: tds,
+        pt_deducted: pt,
+        net_payable: net,
+        is_compliant: isCompliant,
+        last_updated: ctx.now,
+      };
+      const store = ctx.borrow<StreamComplianceStore>(registryAddr, "StreamComplianceStore");
+      const index = store.compliances.findIndex((existing) => existing.stream_id === streamId);
+      if (index >= 0) {
+        store.compliances[index] = record;
+      } else {
+        store.compliances.push(record);
+      }
+
+      ctx.emitEvent(registry.verification_events, "ComplianceVerificationEvent", {
+        employer,
+        employee,
+        stream_id: streamId,
+        is_compliant: isCompliant,
+        timestamp: ctx.now,
+      });
+    },
+
+    submit_monthly_report(ctx, args) {
+      const registryAddr = args.address();
+      const [month, totalWages, epfEmployee, epfEmployer, esiEmployee, esiEmployer] = [
+        args.u64(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+      ];
+      const [tdsDeducted, professionalTax, employeeCount] = [args.u64(), args.u64(), args.u64()];
+      args.done();
+      const employer = ctx.sender;
+
+      ctx.check(ctx.exists(registryAddr, "ComplianceRegistry"), abortCodes.notInitialized);
+      const employerCompliance = employerOf(ctx, employer);
+      ctx.check(ctx.exists(employer, "EmployerComplianceRecords"), abortCodes.employerNotRegistered);
+
+      const records = ctx.borrow<EmployerComplianceRecords>(employer, "EmployerComplianceRecords");
+      records.records.push({
+        month,
+        total_wages: totalWages,
+        epf_employee: epfEmployee,
+        epf_employer: epfEmployer,
+        esi_employee: esiEmployee,
+        esi_employer: esiEmployer,
+        tds_deducted: tdsDeducted,
+        professional_tax: professionalTax,
+        employee_count: employeeCount,
+        submitted_at: ctx.now,
+        is_verified: false,
+      });
+      records.total_epf = add(records.total_epf, epfEmployee, epfEmployer);
+      records.total_esi = add(records.total_esi, esiEmployee, esiEmployer);
+      records.total_tds = add(records.total_tds, tdsDeducted);
+
+      employerCompliance.last_compliance_check = ctx.now;
+      employerCompliance.total_deductions = add(
+        employerCompliance.total_deductions,
+        epfEmployee,
+        esiEmployee,
+        tdsDeducted,
+        professionalTax
+      );
+
+      const registry = ctx.borrow<ComplianceRegistry>(registryAddr, "ComplianceRegistry");
+      registry.total_reports = add(registry.total_reports, BigInt(1));
+    },
+
+    issue_certificate(ctx, args) {
+      const [registryAddr, employer, period, certType, certificateHash, validityDays] = [
+        args.address(),
+        args.address(),
+        args.u64(),
+        args.u8(),
+        args.bytes(),
+        args.u64(),
+      ];
+      args.done();
+
+      const registry = adminRegistry(ctx, registryAddr);
+      const store = ctx.borrow<CertificateStore>(registryAddr, "CertificateStore");
+      const certificateId = store.next_id;
+
+      store.certificates.push({
+        certificate_id: certificateId,
+        employer,
+        period,
+        cert_type: certType,
+        issued_at: ctx.now,
+        valid_until: add(ctx.now, mul(validityDays, SECONDS_PER_DAY)),
+        certificate_hash: certificateHash,
+        is_valid: true,
+      });
+      ctx.emitEvent(registry.certificate_events, "CertificateEvent", {
+        certificate_id: certificateId,
+        employer,
+        period,
+        cert_type: certType,
+        timestamp: ctx.now,
+      });
+      store.next_id = add(certificateId, BigInt(1));
+    },
+
+    revoke_certificate(ctx, args) {
+      const [registryAddr, certificateId] = [args.address(), args.u64()];
+      args.done();
+
+      adminRegistry(ctx, registryAddr);
+      const certificate = ctx
+        .borrow<CertificateStore>(registryAddr, "CertificateStore")
+        .certificates.find((candidate) => candidate.certificate_id === certificateId);
+      if (!certificate) return ctx.abort(abortCodes.certificateNotFound);
+      certificate.is_valid = false;
+    },
+
+    update_statutory_rates(ctx, args) {
+      const registryAddr = args.address();
+      const [epfEmployeeRate, epfEmployerRate, esiEmployeeRate, esiEmployerRate, esiCeiling, epfCeiling] = [
+        args.u64(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+      ];
+      args.done();
+
+      adminRegistry(ctx, registryAddr);
+      const rates = ctx.borrow<StatutoryRates>(registryAddr, "StatutoryRates");
+      rates.epf_employee_rate = epfEmployeeRate;
+      rates.epf_employer_rate = epfEmployerRate;
+      rates.esi_employee_rate = esiEmployeeRate;
+      rates.esi_employer_rate = esiEmployerRate;
+      rates.esi_ceiling = esiCeiling;
+      rates.epf_ceiling = epfCeiling;
+      rates.last_updated = ctx.now;
+      rates.updated_by = ctx.sender;
+    },
+
+    verify_employer_kyc(ctx, args) {
+      const [registryAddr, employer] = [args.address(), args.address()];
+      args.done();
+
+      adminRegistry(ctx, registryAddr);
+      employerOf(ctx, employer).status = STATUS_VERIFIED;
+    },
+
+    verify_employee_kyc(ctx, args) {
+      const [registryAddr, employee] = [args.address(), args.address()];
+      args.done();
+
+      adminRegistry(ctx, registryAddr);
+      const employeeCompliance = employeeOf(ctx, employee);
+      employeeCompliance.kyc_verified = true;
+      employeeCompliance.status = STATUS_VERIFIED;
+    },
+
+    flag_compliance_issue(ctx, args) {
+      const [registryAddr, employer] = [args.address(), args.address()];
+      args.done();
+
+      adminRegistry(ctx, registryAddr);
+      employerOf(ctx, employer).status = STATUS_FLAGGED;
+    },
+  },
+
+  view: {
+    calculate_deductions(ctx, args) {
+      const [registryAddr, employer, employee, grossWage] = [
+        args.address(),
+        args.address(),
+        args.address(),
+        args.u64(),
+      ];
+      args.done();
+      return calculateDeductions(ctx, registryAddr, employer, employee, grossWage);
+    },
+
+    get_employer_status(ctx, args) {
+      const employer = args.address();
+      args.done();
+      const record = employerOf(ctx, employer);
+      return [record.status, record.epf_registered, record.esi_registered, record.employee_count];
+    },
+
+    get_employee_status(ctx, args) {
+      const employee = args.address();
+      args.done();
+      const record = employeeOf(ctx, employee);
+      return [record.status, record.epf_member, record.esi_eligible, record.kyc_verified];
+    },
+
+    get_stream_compliance(ctx, args) {
+      const [registryAddr, streamId] = [args.address(), args.u64()];
+      args.done();
+
+      ctx.check(ctx.exists(registryAddr, "StreamComplianceStore"), abortCodes.notInitialized);
+      const record = ctx
+        .borrow<StreamComplianceStore>(registryAddr, "StreamComplianceStore")
+        .compliances.find((candidate) => candidate.stream_id === streamId);
+      if (!record) return [BigInt(0), BigInt(0), BigInt(0), BigInt(0), BigInt(0), false];
+      return [
+        record.epf_deducted,
+        record.esi_deducted,
+        record.tds_deducted,
+        record.pt_deducted,
+        record.net_payable,
+        record.is_compliant,
+      ];
+    },
+
+    get_statutory_rates(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+
+      ctx.check(ctx.exists(registryAddr, "StatutoryRates"), abortCodes.notInitialized);
+      const rates = ctx.borrow<StatutoryRates>(registryAddr, "StatutoryRates");
+      return [rates.epf_employee_rate, rates.epf_employer_rate, rates.esi_employee_rate, rates.esi_employer_rate];
+    },
+
+    verify_certificate(ctx, args) {
+      const [registryAddr, certificateId] = [args.address(), args.u64()];
+      args.done();
+
+      ctx.check(ctx.exists(registryAddr, "CertificateStore"), abortCodes.notInitialized);
+      const certificate = ctx
+        .borrow<CertificateStore>(registryAddr, "CertificateStore")
+        .certificates.find((candidate) => candidate.certificate_id === certificateId);
+      if (!certificate) return [false, BigInt(0), BigInt(0)];
+      return [
+        certificate.is_valid && ctx.now < certificate.valid_until,
+        certificate.issued_at,
+        certificate.valid_until,
+      ];
+    },
+
+    is_employer_registered(ctx, args) {
+      const employer = args.address();
+      args.done();
+      return [ctx.exists(employer, "EmployerCompliance")];
+    },
+
+    is_employee_registered(ctx, args) {
+      const employee = args.address();
+      args.done();
+      return [ctx.exists(employee, "EmployeeCompliance")];
+    },
+
+    get_employer_compliance_summary(ctx, args) {
+      const employer = args.address();
+      args.done();
+
+      ctx.check(ctx.exists(employer, "EmployerComplianceRecords"), abortCodes.employerNotRegistered);
+      const records = ctx.borrow<EmployerComplianceRecords>(employer, "EmployerComplianceRecords");
+      return [records.total_epf, records.total_esi, records.total_tds];
+    },
+  },
+};
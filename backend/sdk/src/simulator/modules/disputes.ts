@@ -0,0 +1,610 @@
+/**
+ * Protocol Simulator - disputes
+ *
+ * The dispute lifecycle (evidence, mediation, arbitration, resolution,
+ * appeals, finalization), escrow bookkeeping and the arbitrator list,
+ * following `disputes.move`. Like the contract, no coins move here.
+ */
+
+import { normalizeAddress } from "../../protocol/index.js";
+import { abortCodes } from "../abortCodes.js";
+import { ExecutionContext, ModuleHandlers, add, div, mul, sub } from "../runtime.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Dispute {
+  dispute_id: bigint;
+  stream_id: bigint;
+  initiator: string;
+  respondent: string;
+  employer: string;
+  employee: string;
+  category: number;
+  status: number;
+  disputed_amount: bigint;
+  escrow_amount: bigint;
+  title: string;
+  description: string;
+  opened_at: bigint;
+  phase_deadline: bigint;
+  outcome: number;
+  awarded_to_employee: bigint;
+  returned_to_employer: bigint;
+  arbitrator: string;
+  resolved_at: bigint;
+  appeal_count: number;
+  max_appeals: number;
+  resolution_hash: string;
+}
+
+interface Evidence {
+  evidence_id: bigint;
+  dispute_id: bigint;
+  submitted_by: string;
+  evidence_type: number;
+  content_hash: string;
+  description: string;
+  submitted_at: bigint;
+  verified: boolean;
+  verified_by: string;
+}
+
+interface Escrow {
+  dispute_id: bigint;
+  locked_amount: bigint;
+  employer_contribution: bigint;
+  employee_contribution: bigint;
+  fees_collected: bigint;
+  locked_at: bigint;
+  unlock_after: bigint;
+  released: boolean;
+  token_metadata: string;
+}
+
+interface Arbitrator {
+  arbitrator_address: string;
+  name: string;
+  credentials: string;
+  cases_handled: bigint;
+  decisions_upheld: bigint;
+  avg_resolution_time: bigint;
+  is_active: boolean;
+  registered_at: bigint;
+  stake_amount: bigint;
+  specialties: bigint;
+}
+
+interface DisputeRegistry {
+  total_disputes: bigint;
+  open_disputes: bigint;
+  total_disputed_amount: bigint;
+  total_resolved_amount: bigint;
+  disputes_by_employer: bigint[];
+  active_arbitrators: string[];
+  fee_collector: string;
+  protocol_fee_bps: bigint;
+  is_paused: boolean;
+  disputes: Dispute[];
+  evidence_records: Evidence[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const STATUS_OPENED = 0;
+const STATUS_EVIDENCE_SUBMISSION = 1;
+const STATUS_MEDIATION = 2;
+const STATUS_ARBITRATION = 3;
+const STATUS_RESOLVED = 4;
+const STATUS_APPEALED = 5;
+const STATUS_FINAL = 6;
+const STATUS_CANCELLED = 7;
+
+const CATEGORY_OTHER = 6;
+const OUTCOME_DISMISSED = 3;
+const EVIDENCE_AUDIT_TRAIL = 3;
+
+const DAY = BigInt(24 * 60 * 60);
+const EVIDENCE_SUBMISSION_PERIOD = BigInt(7) * DAY;
+const MEDIATION_PERIOD = BigInt(14) * DAY;
+const ARBITRATION_PERIOD = BigInt(21) * DAY;
+const APPEAL_WINDOW = BigInt(7) * DAY;
+const MIN_ESCROW_LOCK_PERIOD = DAY;
+
+const APPEAL_FEE_BPS = BigInt(200);
+const MIN_DISPUTE_AMOUNT = BigInt(100_000_000);
+const MAX_DISPUTE_AMOUNT = BigInt(100_000_000_000_000);
+const BPS = BigInt(10000);
+
+const ZERO_ADDRESS = normalizeAddress("0x0");
+
+// ============================================
+// HELPERS
+// ============================================
+
+const registryOf = (ctx: ExecutionContext, registryAddr: string): DisputeRegistry => {
+  ctx.check(ctx.exists(registryAddr, "DisputeRegistry"), abortCodes.disputeNotFound);
+  return ctx.borrow<DisputeRegistry>(registryAddr, "DisputeRegistry");
+};
+
+const findDispute = (ctx: ExecutionContext, registry: DisputeRegistry, disputeId: bigint): Dispute => {
+  const dispute = registry.disputes.find((candidate) => candidate.dispute_id === disputeId);
+  return dispute ?? ctx.abort(abortCodes.disputeNotFound);
+};
+
+const isParty = (dispute: Dispute, address: string): boolean =>
+  address === dispute.employer || address === dispute.employee;
+
+const isPreArbitration = (dispute: Dispute): boolean =>
+  dispute.status === STATUS_OPENED ||
+  dispute.status === STATUS_EVIDENCE_SUBMISSION ||
+  dispute.status === STATUS_MEDIATION;
+
+const changeStatus = (ctx: ExecutionContext, dispute: Dispute, newStatus: number): void => {
+  const oldStatus = dispute.status;
+  dispute.status = newStatus;
+  ctx.emit("DisputeStatusChanged", {
+    dispute_id: dispute.dispute_id,
+    old_status: oldStatus,
+    new_status: newStatus,
+    changed_at: ctx.now,
+    changed_by: ctx.sender,
+  });
+};
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export const disputes: ModuleHandlers = {
+  entry: {
+    initialize_dispute_system(ctx, args) {
+      const [feeCollector, protocolFeeBps] = [args.address(), args.u64()];
+      args.done();
+      const admin = ctx.sender;
+
+      ctx.check(!ctx.exists(admin, "DisputeRegistry"), abortCodes.alreadyInitialized);
+      ctx.check(protocolFeeBps <= BigInt(500), abortCodes.invalidFeeRate);
+
+      ctx.moveTo<DisputeRegistry>(admin, "DisputeRegistry", {
+        total_disputes: BigInt(0),
+        open_disputes: BigInt(0),
+        total_disputed_amount: BigInt(0),
+        total_resolved_amount: BigInt(0),
+        disputes_by_employer: [],
+        active_arbitrators: [],
+        fee_collector: feeCollector,
+        protocol_fee_bps: protocolFeeBps,
+        is_paused: false,
+        disputes: [],
+        evidence_records: [],
+      });
+    },
+
+    open_dispute(ctx, args) {
+      const [registryAddr, streamId, respondent, employer, employee] = [
+        args.address(),
+        args.u64(),
+        args.address(),
+        args.address(),
+        args.address(),
+      ];
+      const [category, disputedAmount, title, description] = [args.u8(), args.u64(), args.string(), args.string()];
+      args.done();
+      const initiator = ctx.sender;
+
+      const registry = registryOf(ctx, registryAddr);
+      ctx.check(!registry.is_paused, abortCodes.systemPaused);
+      ctx.check(initiator === employer || initiator === employee, abortCodes.unauthorized);
+      ctx.check(respondent === employer || respondent === employee, abortCodes.invalidParty);
+      ctx.check(initiator !== respondent, abortCodes.invalidParty);
+      ctx.check(category <= CATEGORY_OTHER, abortCodes.invalidDisputeCategory);
+      ctx.check(disputedAmount >= MIN_DISPUTE_AMOUNT, abortCodes.disputeAmountTooSmall);
+      ctx.check(disputedAmount <= MAX_DISPUTE_AMOUNT, abortCodes.invalidAmount);
+
+      const disputeId = add(registry.total_disputes, BigInt(1));
+      registry.disputes.push({
+        dispute_id: disputeId,
+        stream_id: streamId,
+        initiator,
+        respondent,
+        employer,
+        employee,
+        category,
+        status: STATUS_OPENED,
+        disputed_amount: disputedAmount,
+        escrow_amount: BigInt(0),
+        title,
+        description,
+        opened_at: ctx.now,
+        phase_deadline: add(ctx.now, EVIDENCE_SUBMISSION_PERIOD),
+        outcome: 255,
+        awarded_to_employee: BigInt(0),
+        returned_to_employer: BigInt(0),
+        arbitrator: ZERO_ADDRESS,
+        resolved_at: BigInt(0),
+        appeal_count: 0,
+        max_appeals: 2,
+        resolution_hash: "",
+      });
+      registry.total_disputes = disputeId;
+      registry.open_disputes = add(registry.open_disputes, BigInt(1));
+      registry.total_disputed_amount = add(registry.total_disputed_amount, disputedAmount);
+
+      ctx.emit("DisputeOpened", {
+        dispute_id: disputeId,
+        stream_id: streamId,
+        initiator,
+        respondent,
+        category,
+        disputed_amount: disputedAmount,
+        opened_at: ctx.now,
+      });
+    },
+
+    submit_evidence(ctx, args) {
+      const [registryAddr, disputeId, evidenceType, contentHash, description] = [
+        args.address(),
+        args.u64(),
+        args.u8(),
+        args.string(),
+        args.string(),
+      ];
+      args.done();
+      const submitter = ctx.sender;
+
+      const registry = registryOf(ctx, registryAddr);
+      const dispute = findDispute(ctx, registry, disputeId);
+      ctx.check(isParty(dispute, submitter) || submitter === dispute.arbitrator, abortCodes.unauthorized);
+      ctx.check(isPreArbitration(dispute), abortCodes.invalidDisputeStatus);
+      ctx.check(ctx.now <= dispute.phase_deadline, abortCodes.disputeDeadlinePassed);
+      ctx.check(evidenceType <= EVIDENCE_AUDIT_TRAIL, abortCodes.invalidEvidenceType);
+
+      const evidenceId = BigInt(registry.evidence_records.length + 1);
+      registry.evidence_records.push({
+        evidence_id: evidenceId,
+        dispute_id: disputeId,
+        submitted_by: submitter,
+        evidence_type: evidenceType,
+        content_hash: contentHash,
+        description,
+        submitted_at: ctx.now,
+        verified: false,
+        verified_by: ZERO_ADDRESS,
+      });
+
+      if (dispute.status === STATUS_OPENED) changeStatus(ctx, dispute, STATUS_EVIDENCE_SUBMISSION);
+
+      ctx.emit("EvidenceSubmitted", {
+        dispute_id: disputeId,
+        evidence_id: evidenceId,
+        submitted_by: submitter,
+        evidence_type: evidenceType,
+        content_hash: contentHash,
+        submitted_at: ctx.now,
+      });
+    },
+
+    lock_escrow(ctx, args) {
+      const [registryAddr, disputeId, tokenMetadata, amount] = [args.address(), args.u64(), args.address(), args.u64()];
+      args.done();
+      const employer = ctx.sender;
+
+      const registry = registryOf(ctx, registryAddr);
+      const dispute = findDispute(ctx, registry, disputeId);
+      ctx.check(employer === dispute.employer, abortCodes.unauthorized);
+      ctx.check(isPreArbitration(dispute), abortCodes.invalidDisputeStatus);
+      ctx.check(amount >= dispute.disputed_amount, abortCodes.insufficientEscrow);
+
+      // One escrow per employer account, shared by all of its disputes
+      if (!ctx.exists(employer, "Escrow")) {
+        ctx.moveTo<Escrow>(employer, "Escrow", {
+          dispute_id: disputeId,
+          locked_amount: amount,
+          employer_contribution: amount,
+          employee_contribution: BigInt(0),
+          fees_collected: BigInt(0),
+          locked_at: ctx.now,
+          unlock_after: add(ctx.now, MIN_ESCROW_LOCK_PERIOD),
+          released: false,
+          token_metadata: tokenMetadata,
+        });
+      } else {
+        const escrow = ctx.borrow<Escrow>(employer, "Escrow");
+        escrow.locked_amount = add(escrow.locked_amount, amount);
+        escrow.employer_contribution = add(escrow.employer_contribution, amount);
+      }
+      dispute.escrow_amount = add(dispute.escrow_amount, amount);
+
+      ctx.emit("EscrowLocked", {
+        dispute_id: disputeId,
+        locked_amount: amount,
+        employer_contribution: amount,
+        employee_contribution: BigInt(0),
+        locked_at: ctx.now,
+      });
+    },
+
+    advance_to_mediation(ctx, args) {
+      const [registryAddr, disputeId] = [args.address(), args.u64()];
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      const dispute = findDispute(ctx, registry, disputeId);
+      ctx.check(isParty(dispute, ctx.sender) || ctx.sender === registryAddr, abortCodes.unauthorized);
+      ctx.check(dispute.status === STATUS_EVIDENCE_SUBMISSION, abortCodes.invalidDisputeStatus);
+
+      changeStatus(ctx, dispute, STATUS_MEDIATION);
+      dispute.phase_deadline = add(ctx.now, MEDIATION_PERIOD);
+    },
+
+    request_arbitration(ctx, args) {
+      const [registryAddr, disputeId] = [args.address(), args.u64()];
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      const dispute = findDispute(ctx, registry, disputeId);
+      ctx.check(isParty(dispute, ctx.sender), abortCodes.unauthorized);
+      ctx.check(
+        dispute.status === STATUS_MEDIATION || ctx.now > dispute.phase_deadline,
+        abortCodes.invalidDisputeStatus
+      );
+      ctx.check(dispute.escrow_amount >= dispute.disputed_amount, abortCodes.insufficientEscrow);
+
+      changeStatus(ctx, dispute, STATUS_ARBITRATION);
+      dispute.phase_deadline = add(ctx.now, ARBITRATION_PERIOD);
+    },
+
+    assign_arbitrator(ctx, args) {
+      const [registryAddr, disputeId, arbitrator] = [args.address(), args.u64(), args.address()];
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      ctx.check(ctx.sender === registryAddr, abortCodes.unauthorized);
+      ctx.check(registry.active_arbitrators.includes(arbitrator), abortCodes.arbitratorNotFound);
+
+      const dispute = findDispute(ctx, registry, disputeId);
+      ctx.check(dispute.status === STATUS_ARBITRATION, abortCodes.invalidDisputeStatus);
+      ctx.check(arbitrator !== dispute.employer, abortCodes.conflictOfInterest);
+      ctx.check(arbitrator !== dispute.employee, abortCodes.conflictOfInterest);
+
+      dispute.arbitrator = arbitrator;
+      ctx.emit("ArbitratorAssigned", { dispute_id: disputeId, arbitrator, assigned_at: ctx.now });
+    },
+
+    resolve_dispute(ctx, args) {
+      const [registryAddr, disputeId, outcome, employeeAward, employerReturn, resolutionHash] = [
+        args.address(),
+        args.u64(),
+        args.u8(),
+        args.u64(),
+        args.u64(),
+        args.string(),
+      ];
+      args.done();
+      const arbitrator = ctx.sender;
+
+      const registry = registryOf(ctx, registryAddr);
+      const dispute = findDispute(ctx, registry, disputeId);
+      ctx.check(arbitrator === dispute.arbitrator, abortCodes.notArbitrator);
+      ctx.check(dispute.status === STATUS_ARBITRATION, abortCodes.invalidDisputeStatus);
+      ctx.check(outcome <= OUTCOME_DISMISSED, abortCodes.invalidResolution);
+
+      const fees = div(mul(dispute.escrow_amount, registry.protocol_fee_bps), BPS);
+      ctx.check(add(employeeAward, employerReturn, fees) <= dispute.escrow_amount, abortCodes.invalidAmount);
+
+      dispute.status = STATUS_RESOLVED;
+      dispute.outcome = outcome;
+      dispute.awarded_to_employee = employeeAward;
+      dispute.returned_to_employer = employerReturn;
+      dispute.resolved_at = ctx.now;
+      dispute.resolution_hash = resolutionHash;
+      dispute.phase_deadline = add(ctx.now, APPEAL_WINDOW);
+
+      registry.open_disputes = sub(registry.open_disputes, BigInt(1));
+      registry.total_resolved_amount = add(registry.total_resolved_amount, dispute.disputed_amount);
+
+      ctx.emit("DisputeResolved", {
+        dispute_id: disputeId,
+        outcome,
+        employee_award: employeeAward,
+        employer_return: employerReturn,
+        arbitrator,
+        resolved_at: ctx.now,
+      });
+    },
+
+    file_appeal(ctx, args) {
+      const [registryAddr, disputeId] = [args.address(), args.u64()];
+      args.string();
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      const dispute = findDispute(ctx, registry, disputeId);
+      ctx.check(isParty(dispute, ctx.sender), abortCodes.unauthorized);
+      ctx.check(dispute.status === STATUS_RESOLVED, abortCodes.invalidDisputeStatus);
+      ctx.check(ctx.now <= dispute.phase_deadline, abortCodes.appealWindowClosed);
+      ctx.check(dispute.appeal_count < dispute.max_appeals, abortCodes.maxAppealsReached);
+
+      changeStatus(ctx, dispute, STATUS_APPEALED);
+      dispute.appeal_count = dispute.appeal_count + 1;
+      dispute.phase_deadline = add(ctx.now, ARBITRATION_PERIOD);
+
+      ctx.emit("AppealFiled", {
+        dispute_id: disputeId,
+        appellant: ctx.sender,
+        appeal_number: dispute.appeal_count,
+        appeal_fee: div(mul(dispute.disputed_amount, APPEAL_FEE_BPS), BPS),
+        filed_at: ctx.now,
+      });
+    },
+
+    finalize_dispute(ctx, args) {
+      const [registryAddr, disputeId] = [args.address(), args.u64()];
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      const dispute = findDispute(ctx, registry, disputeId);
+      ctx.check(isParty(dispute, ctx.sender) || ctx.sender === registryAddr, abortCodes.unauthorized);
+      ctx.check(dispute.status === STATUS_RESOLVED, abortCodes.invalidDisputeStatus);
+      ctx.check(ctx.now > dispute.phase_deadline, abortCodes.appealWindowActive);
+
+      changeStatus(ctx, dispute, STATUS_FINAL);
+    },
+
+    release_escrow(ctx, args) {
+      const [registryAddr, disputeId] = [args.address(), args.u64()];
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      const dispute = findDispute(ctx, registry, disputeId);
+      ctx.check(isParty(dispute, ctx.sender) || ctx.sender === registryAddr, abortCodes.unauthorized);
+      ctx.check(dispute.status === STATUS_FINAL, abortCodes.disputeNotFinalized);
+      ctx.check(ctx.exists(dispute.employer, "Escrow"), abortCodes.escrowNotFound);
+
+      const escrow = ctx.borrow<Escrow>(dispute.employer, "Escrow");
+      ctx.check(!escrow.released, abortCodes.alreadyReleased);
+      ctx.check(ctx.now > escrow.unlock_after, abortCodes.escrowLocked);
+
+      const fees = div(mul(dispute.escrow_amount, registry.protocol_fee_bps), BPS);
+      escrow.released = true;
+      escrow.fees_collected = fees;
+
+      ctx.emit("EscrowReleased", {
+        dispute_id: disputeId,
+        to_employee: dispute.awarded_to_employee,
+        to_employer: dispute.returned_to_employer,
+        fees_collected: fees,
+        released_at: ctx.now,
+      });
+    },
+
+    cancel_dispute(ctx, args) {
+      const [registryAddr, disputeId] = [args.address(), args.u64()];
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      const dispute = findDispute(ctx, registry, disputeId);
+      ctx.check(ctx.sender === dispute.initiator, abortCodes.unauthorized);
+      ctx.check(isPreArbitration(dispute), abortCodes.cannotCancelArbitration);
+
+      changeStatus(ctx, dispute, STATUS_CANCELLED);
+      dispute.resolved_at = ctx.now;
+      registry.open_disputes = sub(registry.open_disputes, BigInt(1));
+    },
+
+    register_arbitrator(ctx, args) {
+      const [registryAddr, arbitrator, name, credentials, specialties] = [
+        args.address(),
+        args.address(),
+        args.string(),
+        args.string(),
+        args.u64(),
+      ];
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      ctx.check(ctx.sender === registryAddr, abortCodes.unauthorized);
+      ctx.check(!registry.active_arbitrators.includes(arbitrator), abortCodes.alreadyRegistered);
+
+      registry.active_arbitrators.push(arbitrator);
+      // Stored under the admin account, so it holds a single profile
+      ctx.moveTo<Arbitrator>(ctx.sender, "Arbitrator", {
+        arbitrator_address: arbitrator,
+        name,
+        credentials,
+        cases_handled: BigInt(0),
+        decisions_upheld: BigInt(0),
+        avg_resolution_time: BigInt(0),
+        is_active: true,
+        registered_at: ctx.now,
+        stake_amount: BigInt(0),
+        specialties,
+      });
+    },
+
+    deactivate_arbitrator(ctx, args) {
+      const [registryAddr, arbitrator] = [args.address(), args.address()];
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      ctx.check(ctx.sender === registryAddr, abortCodes.unauthorized);
+      const index = registry.active_arbitrators.indexOf(arbitrator);
+      ctx.check(index >= 0, abortCodes.arbitratorNotFound);
+      registry.active_arbitrators.splice(index, 1);
+
+      if (ctx.exists(ctx.sender, "Arbitrator")) {
+        const profile = ctx.borrow<Arbitrator>(ctx.sender, "Arbitrator");
+        if (profile.arbitrator_address === arbitrator) profile.is_active = false;
+      }
+    },
+  },
+
+  view: {
+    get_dispute(ctx, args) {
+      const [registryAddr, disputeId] = [args.address(), args.u64()];
+      args.done();
+      const dispute = findDispute(ctx, registryOf(ctx, registryAddr), disputeId);
+      return [
+        dispute.dispute_id,
+        dispute.employer,
+        dispute.employee,
+        dispute.category,
+        dispute.status,
+        dispute.disputed_amount,
+        dispute.escrow_amount,
+        dispute.resolved_at,
+        dispute.arbitrator,
+      ];
+    },
+
+    get_resolution(ctx, args) {
+      const [registryAddr, disputeId] = [args.address(), args.u64()];
+      args.done();
+      const dispute = findDispute(ctx, registryOf(ctx, registryAddr), disputeId);
+      return [
+        dispute.outcome,
+        dispute.awarded_to_employee,
+        dispute.returned_to_employer,
+        dispute.arbitrator,
+        dispute.resolved_at,
+      ];
+    },
+
+    get_dispute_stats(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      const registry = registryOf(ctx, registryAddr);
+      return [
+        registry.total_disputes,
+        registry.open_disputes,
+        registry.total_disputed_amount,
+        registry.total_resolved_amount,
+      ];
+    },
+
+    dispute_exists(ctx, args) {
+      const [registryAddr, disputeId] = [args.address(), args.u64()];
+      args.done();
+      if (!ctx.exists(registryAddr, "DisputeRegistry")) return [false];
+      const registry = ctx.borrow<DisputeRegistry>(registryAddr, "DisputeRegistry");
+      return [registry.disputes.some((dispute) => dispute.dispute_id === disputeId)];
+    },
+
+    get_evidence_count(ctx, args) {
+      const [registryAddr, disputeId] = [args.address(), args.u64()];
+      args.done();
+      const registry = registryOf(ctx, registryAddr);
+      return [BigInt(registry.evidence_records.filter((evidence) => evidence.dispute_id === disputeId).length)];
+    },
+
+    get_active_arbitrators_count(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      return [BigInt(registryOf(ctx, registryAddr).active_arbitrators.length)];
+    },
+  },
+};
@@ -0,0 +1,702 @@
+/**
+ * Protocol Simulator - emergency
+ *
+ * System and per-module pauses, emergency triggers, role-based access
+ * control, multisig actions, upgrade proposals, the audit log and the admin
+ * rate limiter, following `emergency.move`.
+ */
+
+import { abortCodes } from "../abortCodes.js";
+import { ExecutionContext, ModuleHandlers, add, sub } from "../runtime.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface EmergencyState {
+  current_state: number;
+  previous_state: number;
+  state_changed_at: bigint;
+  state_changed_by: string;
+  state_reason: string;
+  pause_expires_at: bigint;
+  emergency_contacts: string[];
+  emergency_triggers_today: bigint;
+  last_emergency_reset: bigint;
+  actions_this_hour: bigint;
+  last_action_hour: bigint;
+  upgrade_in_progress: boolean;
+  scheduled_upgrade_at: bigint;
+}
+
+interface ModulePauseState {
+  wage_streaming_paused: boolean;
+  treasury_paused: boolean;
+  compliance_paused: boolean;
+  disputes_paused: boolean;
+  pause_reasons: string[];
+  paused_at: bigint[];
+}
+
+interface RoleAssignment {
+  holder: string;
+  role: number;
+  granted_at: bigint;
+  granted_by: string;
+  expires_at: bigint;
+  is_active: boolean;
+}
+
+interface PendingAction {
+  action_id: bigint;
+  action_type: number;
+  action_hash: string;
+  description: string;
+  proposer: string;
+  approvals: string[];
+  required_approvals: bigint;
+  proposed_at: bigint;
+  expires_at: bigint;
+  executed: boolean;
+}
+
+interface AccessControlRegistry {
+  super_admin: string;
+  roles: RoleAssignment[];
+  admin_count: bigint;
+  operator_count: bigint;
+  multisig_threshold: bigint;
+  pending_actions: PendingAction[];
+}
+
+interface AuditLogEntry {
+  entry_id: bigint;
+  timestamp: bigint;
+  actor: string;
+  action_type: number;
+  target: string;
+  description: string;
+  previous_value: string;
+  new_value: string;
+}
+
+interface AuditLog {
+  total_entries: bigint;
+  entries: AuditLogEntry[];
+  max_entries: bigint;
+}
+
+interface RateLimiter {
+  actions_in_window: bigint;
+  window_start: bigint;
+  window_duration: bigint;
+  max_actions: bigint;
+  cooldown_seconds: bigint;
+  last_action_at: bigint;
+}
+
+interface FundRecoveryConfig {
+  recovery_addresses: string[];
+  recovery_delay: bigint;
+  requires_multisig: boolean;
+  max_single_recovery: bigint;
+  recovery_cooldown: bigint;
+  last_recovery_at: bigint;
+}
+
+type PauseFlag = "wage_streaming_paused" | "treasury_paused" | "compliance_paused" | "disputes_paused";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const ROLE_SUPER_ADMIN = 0;
+const ROLE_ADMIN = 1;
+const ROLE_OPERATOR = 2;
+const ROLE_PAUSER = 3;
+const ROLE_UPGRADER = 4;
+
+const STATE_NORMAL = 0;
+const STATE_PAUSED = 1;
+const STATE_EMERGENCY = 2;
+
+const ACTION_PAUSE = 0;
+const ACTION_UNPAUSE = 1;
+const ACTION_EMERGENCY_PAUSE = 2;
+const ACTION_UPGRADE = 3;
+const ACTION_ROLE_GRANT = 5;
+const ACTION_ROLE_REVOKE = 6;
+
+const DAY = BigInt(24 * 60 * 60);
+const MIN_PAUSE_DURATION = BigInt(60);
+const MAX_PAUSE_DURATION = BigInt(30) * DAY;
+const UPGRADE_TIMELOCK = BigInt(2) * DAY;
+const ACTION_COOLDOWN = BigInt(60);
+const EMERGENCY_COOLDOWN = DAY;
+const DEFAULT_THRESHOLD = BigInt(2);
+const MAX_ACTIONS_PER_HOUR = BigInt(10);
+const MAX_PAUSE_REQUESTS_PER_DAY = BigInt(5);
+
+/** `module_index` → pause flag and the name used in events */
+const MODULES: [PauseFlag, string][] = [
+  ["wage_streaming_paused", "wage_streaming"],
+  ["treasury_paused", "treasury"],
+  ["compliance_paused", "compliance"],
+  ["disputes_paused", "disputes"],
+];
+
+// ============================================
+// HELPERS
+// ============================================
+
+const hasActiveRole = (roles: RoleAssignment[], holder: string, role: number, now: bigint): boolean =>
+  roles.some(
+    (assignment) =>
+      assignment.holder === holder &&
+      assignment.role === role &&
+      assignment.is_active &&
+      (assignment.expires_at === BigInt(0) || assignment.expires_at > now)
+  );
+
+const hasRole = (ctx: ExecutionContext, registryAddr: string, holder: string, role: number): boolean => {
+  if (!ctx.exists(registryAddr, "AccessControlRegistry")) return false;
+  const accessControl = ctx.borrow<AccessControlRegistry>(registryAddr, "AccessControlRegistry");
+  if (role === ROLE_SUPER_ADMIN) return holder === accessControl.super_admin;
+  return hasActiveRole(accessControl.roles, holder, role, ctx.now);
+};
+
+const requireAnyRole = (ctx: ExecutionContext, registryAddr: string, roles: number[]): void => {
+  ctx.check(
+    roles.some((role) => hasRole(ctx, registryAddr, ctx.sender, role)),
+    abortCodes.unauthorized
+  );
+};
+
+const checkAndUpdateRateLimit = (ctx: ExecutionContext, registryAddr: string): void => {
+  if (!ctx.exists(registryAddr, "RateLimiter")) return;
+  const limiter = ctx.borrow<RateLimiter>(registryAddr, "RateLimiter");
+  if (sub(ctx.now, limiter.window_start) > limiter.window_duration) {
+    limiter.window_start = ctx.now;
+    limiter.actions_in_window = BigInt(0);
+  }
+  ctx.check(limiter.actions_in_window < limiter.max_actions, abortCodes.rateLimitExceeded);
+  if (limiter.last_action_at > BigInt(0)) {
+    ctx.check(sub(ctx.now, limiter.last_action_at) >= limiter.cooldown_seconds, abortCodes.cooldownActive);
+  }
+  limiter.actions_in_window = add(limiter.actions_in_window, BigInt(1));
+  limiter.last_action_at = ctx.now;
+};
+
+const logAction = (
+  ctx: ExecutionContext,
+  registryAddr: string,
+  actionType: number,
+  target: string,
+  description: string,
+  newValue = ""
+): void => {
+  if (!ctx.exists(registryAddr, "AuditLog")) return;
+  const log = ctx.borrow<AuditLog>(registryAddr, "AuditLog");
+  log.total_entries = add(log.total_entries, BigInt(1));
+  if (BigInt(log.entries.length) >= log.max_entries) log.entries.shift();
+  log.entries.push({
+    entry_id: log.total_entries,
+    timestamp: ctx.now,
+    actor: ctx.sender,
+    action_type: actionType,
+    target,
+    description,
+    previous_value: "",
+    new_value: newValue,
+  });
+};
+
+const moduleAt = (ctx: ExecutionContext, moduleIndex: number): [PauseFlag, string] =>
+  MODULES[moduleIndex] ?? ctx.abort(abortCodes.invalidModule);
+
+const canManageRole = (ctx: ExecutionContext, registryAddr: string, role: number): boolean => {
+  if (role === ROLE_SUPER_ADMIN) return false;
+  if (role === ROLE_ADMIN || role === ROLE_UPGRADER) {
+    return hasRole(ctx, registryAddr, ctx.sender, ROLE_SUPER_ADMIN);
+  }
+  return hasRole(ctx, registryAddr, ctx.sender, ROLE_SUPER_ADMIN) || hasRole(ctx, registryAddr, ctx.sender, ROLE_ADMIN);
+};
+
+const findAction = (ctx: ExecutionContext, accessControl: AccessControlRegistry, actionId: bigint): PendingAction => {
+  const action = accessControl.pending_actions.find((candidate) => candidate.action_id === actionId);
+  return action ?? ctx.abort(abortCodes.actionNotFound);
+};
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export const emergency: ModuleHandlers = {
+  entry: {
+    initialize_emergency_system(ctx, args) {
+      const emergencyContacts = args.addresses();
+      args.done();
+      const admin = ctx.sender;
+
+      ctx.check(!ctx.exists(admin, "EmergencyState"), abortCodes.alreadyInitialized);
+
+      ctx.moveTo<EmergencyState>(admin, "EmergencyState", {
+        current_state: STATE_NORMAL,
+        previous_state: STATE_NORMAL,
+        state_changed_at: ctx.now,
+        state_changed_by: admin,
+        state_reason: "System initialization",
+        pause_expires_at: BigInt(0),
+        emergency_contacts: emergencyContacts,
+        emergency_triggers_today: BigInt(0),
+        last_emergency_reset: ctx.now,
+        actions_this_hour: BigInt(0),
+        last_action_hour: ctx.now,
+        upgrade_in_progress: false,
+        scheduled_upgrade_at: BigInt(0),
+      });
+      ctx.moveTo<ModulePauseState>(admin, "ModulePauseState", {
+        wage_streaming_paused: false,
+        treasury_paused: false,
+        compliance_paused: false,
+        disputes_paused: false,
+        pause_reasons: [],
+        paused_at: [],
+      });
+      ctx.moveTo<AccessControlRegistry>(admin, "AccessControlRegistry", {
+        super_admin: admin,
+        roles: [
+          {
+            holder: admin,
+            role: ROLE_SUPER_ADMIN,
+            granted_at: ctx.now,
+            granted_by: admin,
+            expires_at: BigInt(0),
+            is_active: true,
+          },
+        ],
+        admin_count: BigInt(1),
+        operator_count: BigInt(0),
+        multisig_threshold: DEFAULT_THRESHOLD,
+        pending_actions: [],
+      });
+      ctx.moveTo<AuditLog>(admin, "AuditLog", {
+        total_entries: BigInt(0),
+        entries: [],
+        max_entries: BigInt(1000),
+      });
+      ctx.moveTo<RateLimiter>(admin, "RateLimiter", {
+        actions_in_window: BigInt(0),
+        window_start: ctx.now,
+        window_duration: BigInt(3600),
+        max_actions: MAX_ACTIONS_PER_HOUR,
+        cooldown_seconds: ACTION_COOLDOWN,
+        last_action_at: BigInt(0),
+      });
+      ctx.moveTo<FundRecoveryConfig>(admin, "FundRecoveryConfig", {
+        recovery_addresses: [],
+        recovery_delay: UPGRADE_TIMELOCK,
+        requires_multisig: true,
+        max_single_recovery: BigInt(0),
+        recovery_cooldown: EMERGENCY_COOLDOWN,
+        last_recovery_at: BigInt(0),
+      });
+    },
+
+    pause_system(ctx, args) {
+      const [registryAddr, reason, durationSeconds] = [args.address(), args.string(), args.u64()];
+      args.done();
+
+      requireAnyRole(ctx, registryAddr, [ROLE_PAUSER, ROLE_ADMIN, ROLE_SUPER_ADMIN]);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+      ctx.check(durationSeconds >= MIN_PAUSE_DURATION, abortCodes.pauseDurationTooShort);
+      ctx.check(durationSeconds <= MAX_PAUSE_DURATION, abortCodes.pauseDurationTooLong);
+
+      const state = ctx.borrow<EmergencyState>(registryAddr, "EmergencyState");
+      ctx.check(state.current_state === STATE_NORMAL, abortCodes.systemPaused);
+
+      const oldState = state.current_state;
+      const expiresAt = add(ctx.now, durationSeconds);
+      state.previous_state = oldState;
+      state.current_state = STATE_PAUSED;
+      state.state_changed_at = ctx.now;
+      state.state_changed_by = ctx.sender;
+      state.state_reason = reason;
+      state.pause_expires_at = expiresAt;
+
+      logAction(ctx, registryAddr, ACTION_PAUSE, registryAddr, "System paused");
+      ctx.emit("SystemStateChanged", {
+        old_state: oldState,
+        new_state: STATE_PAUSED,
+        changed_by: ctx.sender,
+        reason,
+        changed_at: ctx.now,
+        expires_at: expiresAt,
+      });
+    },
+
+    unpause_system(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+
+      requireAnyRole(ctx, registryAddr, [ROLE_ADMIN, ROLE_SUPER_ADMIN]);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+
+      const state = ctx.borrow<EmergencyState>(registryAddr, "EmergencyState");
+      ctx.check(state.current_state === STATE_PAUSED, abortCodes.notPaused);
+
+      const oldState = state.current_state;
+      state.current_state = STATE_NORMAL;
+      state.state_changed_at = ctx.now;
+      state.state_changed_by = ctx.sender;
+      state.state_reason = "System resumed";
+      state.pause_expires_at = BigInt(0);
+
+      logAction(ctx, registryAddr, ACTION_UNPAUSE, registryAddr, "System unpaused");
+      ctx.emit("SystemStateChanged", {
+        old_state: oldState,
+        new_state: STATE_NORMAL,
+        changed_by: ctx.sender,
+        reason: "System resumed",
+        changed_at: ctx.now,
+        expires_at: BigInt(0),
+      });
+    },
+
+    trigger_emergency(ctx, args) {
+      const [registryAddr, reason] = [args.address(), args.string()];
+      args.done();
+      const caller = ctx.sender;
+
+      const state = ctx.borrow<EmergencyState>(registryAddr, "EmergencyState");
+      const isEmergencyContact = state.emergency_contacts.includes(caller);
+      const isAuthorized =
+        hasRole(ctx, registryAddr, caller, ROLE_ADMIN) || hasRole(ctx, registryAddr, caller, ROLE_SUPER_ADMIN);
+      ctx.check(isEmergencyContact || isAuthorized, abortCodes.unauthorized);
+
+      if (sub(ctx.now, state.last_emergency_reset) > DAY) {
+        state.emergency_triggers_today = BigInt(0);
+        state.last_emergency_reset = ctx.now;
+      }
+      ctx.check(state.emergency_triggers_today < MAX_PAUSE_REQUESTS_PER_DAY, abortCodes.rateLimitExceeded);
+
+      const oldState = state.current_state;
+      state.previous_state = oldState;
+      state.current_state = STATE_EMERGENCY;
+      state.state_changed_at = ctx.now;
+      state.state_changed_by = caller;
+      state.state_reason = reason;
+      state.pause_expires_at = BigInt(0);
+      state.emergency_triggers_today = add(state.emergency_triggers_today, BigInt(1));
+
+      logAction(ctx, registryAddr, ACTION_EMERGENCY_PAUSE, registryAddr, "Emergency triggered");
+      ctx.emit("EmergencyTriggered", { triggered_by: caller, reason, triggered_at: ctx.now });
+      ctx.emit("SystemStateChanged", {
+        old_state: oldState,
+        new_state: STATE_EMERGENCY,
+        changed_by: caller,
+        reason: "Emergency triggered",
+        changed_at: ctx.now,
+        expires_at: BigInt(0),
+      });
+    },
+
+    resolve_emergency(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+
+      requireAnyRole(ctx, registryAddr, [ROLE_SUPER_ADMIN]);
+
+      const state = ctx.borrow<EmergencyState>(registryAddr, "EmergencyState");
+      ctx.check(state.current_state === STATE_EMERGENCY, abortCodes.notInEmergency);
+
+      const oldState = state.current_state;
+      state.current_state = STATE_NORMAL;
+      state.state_changed_at = ctx.now;
+      state.state_changed_by = ctx.sender;
+      state.state_reason = "Emergency resolved";
+
+      logAction(ctx, registryAddr, ACTION_UNPAUSE, registryAddr, "Emergency resolved");
+      ctx.emit("SystemStateChanged", {
+        old_state: oldState,
+        new_state: STATE_NORMAL,
+        changed_by: ctx.sender,
+        reason: "Emergency resolved",
+        changed_at: ctx.now,
+        expires_at: BigInt(0),
+      });
+    },
+
+    pause_module(ctx, args) {
+      const [registryAddr, moduleIndex, reason] = [args.address(), args.u8(), args.string()];
+      args.done();
+
+      requireAnyRole(ctx, registryAddr, [ROLE_PAUSER, ROLE_ADMIN, ROLE_SUPER_ADMIN]);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+
+      const modulePause = ctx.borrow<ModulePauseState>(registryAddr, "ModulePauseState");
+      const [flag, moduleName] = moduleAt(ctx, moduleIndex);
+      ctx.check(!modulePause[flag], abortCodes.alreadyPaused);
+      modulePause[flag] = true;
+      modulePause.pause_reasons.push(reason);
+      modulePause.paused_at.push(ctx.now);
+
+      logAction(ctx, registryAddr, ACTION_PAUSE, registryAddr, moduleName);
+      ctx.emit("ModulePaused", {
+        module_name: moduleName,
+        paused_by: ctx.sender,
+        reason,
+        paused_at: ctx.now,
+      });
+    },
+
+    unpause_module(ctx, args) {
+      const [registryAddr, moduleIndex] = [args.address(), args.u8()];
+      args.done();
+
+      requireAnyRole(ctx, registryAddr, [ROLE_ADMIN, ROLE_SUPER_ADMIN]);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+
+      const modulePause = ctx.borrow<ModulePauseState>(registryAddr, "ModulePauseState");
+      const [flag, moduleName] = moduleAt(ctx, moduleIndex);
+      ctx.check(modulePause[flag], abortCodes.notPaused);
+      modulePause[flag] = false;
+
+      logAction(ctx, registryAddr, ACTION_UNPAUSE, registryAddr, moduleName);
+      ctx.emit("ModuleUnpaused", {
+        module_name: moduleName,
+        unpaused_by: ctx.sender,
+        unpaused_at: ctx.now,
+      });
+    },
+
+    grant_role(ctx, args) {
+      const [registryAddr, holder, role, expiresAt] = [args.address(), args.address(), args.u8(), args.u64()];
+      args.done();
+
+      ctx.check(canManageRole(ctx, registryAddr, role), abortCodes.unauthorized);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+
+      const accessControl = ctx.borrow<AccessControlRegistry>(registryAddr, "AccessControlRegistry");
+      ctx.check(!hasActiveRole(accessControl.roles, holder, role, ctx.now), abortCodes.alreadyHasRole);
+
+      accessControl.roles.push({
+        holder,
+        role,
+        granted_at: ctx.now,
+        granted_by: ctx.sender,
+        expires_at: expiresAt,
+        is_active: true,
+      });
+      if (role === ROLE_ADMIN) accessControl.admin_count = add(accessControl.admin_count, BigInt(1));
+      else if (role === ROLE_OPERATOR) accessControl.operator_count = add(accessControl.operator_count, BigInt(1));
+
+      logAction(ctx, registryAddr, ACTION_ROLE_GRANT, holder, "Role granted");
+      ctx.emit("RoleGranted", {
+        holder,
+        role,
+        granted_by: ctx.sender,
+        granted_at: ctx.now,
+        expires_at: expiresAt,
+      });
+    },
+
+    revoke_role(ctx, args) {
+      const [registryAddr, holder, role] = [args.address(), args.address(), args.u8()];
+      args.done();
+
+      ctx.check(canManageRole(ctx, registryAddr, role), abortCodes.unauthorized);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+
+      const accessControl = ctx.borrow<AccessControlRegistry>(registryAddr, "AccessControlRegistry");
+      const assignment = accessControl.roles.find(
+        (candidate) => candidate.holder === holder && candidate.role === role && candidate.is_active
+      );
+      if (!assignment) return ctx.abort(abortCodes.roleNotFound);
+      assignment.is_active = false;
+      if (role === ROLE_ADMIN) accessControl.admin_count = sub(accessControl.admin_count, BigInt(1));
+      else if (role === ROLE_OPERATOR) accessControl.operator_count = sub(accessControl.operator_count, BigInt(1));
+
+      logAction(ctx, registryAddr, ACTION_ROLE_REVOKE, holder, "Role revoked");
+      ctx.emit("RoleRevoked", {
+        holder,
+        role,
+        revoked_by: ctx.sender,
+        revoked_at: ctx.now,
+      });
+    },
+
+    propose_action(ctx, args) {
+      const [registryAddr, actionType, actionHash, description, validitySeconds] = [
+        args.address(),
+        args.u8(),
+        args.string(),
+        args.string(),
+        args.u64(),
+      ];
+      args.done();
+
+      requireAnyRole(ctx, registryAddr, [ROLE_ADMIN, ROLE_SUPER_ADMIN]);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+
+      const accessControl = ctx.borrow<AccessControlRegistry>(registryAddr, "AccessControlRegistry");
+      const actionId = BigInt(accessControl.pending_actions.length + 1);
+      accessControl.pending_actions.push({
+        action_id: actionId,
+        action_type: actionType,
+        action_hash: actionHash,
+        description,
+        proposer: ctx.sender,
+        approvals: [ctx.sender],
+        required_approvals: accessControl.multisig_threshold,
+        proposed_at: ctx.now,
+        expires_at: add(ctx.now, validitySeconds),
+        executed: false,
+      });
+
+      logAction(ctx, registryAddr, actionType, registryAddr, "Action proposed", actionHash);
+      ctx.emit("ActionProposed", {
+        action_id: actionId,
+        action_type: actionType,
+        proposer: ctx.sender,
+        description,
+        required_approvals: accessControl.multisig_threshold,
+        proposed_at: ctx.now,
+      });
+    },
+
+    approve_action(ctx, args) {
+      const [registryAddr, actionId] = [args.address(), args.u64()];
+      args.done();
+
+      requireAnyRole(ctx, registryAddr, [ROLE_ADMIN, ROLE_SUPER_ADMIN]);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+
+      const accessControl = ctx.borrow<AccessControlRegistry>(registryAddr, "AccessControlRegistry");
+      const action = findAction(ctx, accessControl, actionId);
+      ctx.check(ctx.now <= action.expires_at, abortCodes.actionExpired);
+      ctx.check(!action.executed, abortCodes.alreadyExecuted);
+      ctx.check(!action.approvals.includes(ctx.sender), abortCodes.alreadyApproved);
+      action.approvals.push(ctx.sender);
+
+      ctx.emit("ActionApproved", {
+        action_id: actionId,
+        approver: ctx.sender,
+        current_approvals: BigInt(action.approvals.length),
+        required_approvals: action.required_approvals,
+        approved_at: ctx.now,
+      });
+    },
+
+    execute_action(ctx, args) {
+      const [registryAddr, actionId] = [args.address(), args.u64()];
+      args.done();
+
+      requireAnyRole(ctx, registryAddr, [ROLE_ADMIN, ROLE_SUPER_ADMIN]);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+
+      const accessControl = ctx.borrow<AccessControlRegistry>(registryAddr, "AccessControlRegistry");
+      const action = findAction(ctx, accessControl, actionId);
+      ctx.check(ctx.now <= action.expires_at, abortCodes.actionExpired);
+      ctx.check(!action.executed, abortCodes.alreadyExecuted);
+      ctx.check(BigInt(action.approvals.length) >= action.required_approvals, abortCodes.insufficientApprovals);
+      action.executed = true;
+
+      logAction(ctx, registryAddr, action.action_type, registryAddr, "Action executed");
+      ctx.emit("ActionExecuted", {
+        action_id: actionId,
+        action_type: action.action_type,
+        executor: ctx.sender,
+        executed_at: ctx.now,
+      });
+    },
+
+    propose_upgrade(ctx, args) {
+      const [registryAddr, newVersionHash] = [args.address(), args.string()];
+      args.string(); // description is only carried by the (discarded) on-chain proposal
+      args.done();
+
+      requireAnyRole(ctx, registryAddr, [ROLE_UPGRADER, ROLE_SUPER_ADMIN]);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+
+      const state = ctx.borrow<EmergencyState>(registryAddr, "EmergencyState");
+      ctx.check(state.current_state !== STATE_EMERGENCY, abortCodes.systemInEmergency);
+      ctx.check(!state.upgrade_in_progress, abortCodes.upgradeInProgress);
+
+      const executableAfter = add(ctx.now, UPGRADE_TIMELOCK);
+      state.upgrade_in_progress = true;
+      state.scheduled_upgrade_at = executableAfter;
+
+      logAction(ctx, registryAddr, ACTION_UPGRADE, registryAddr, "Upgrade proposed", newVersionHash);
+      ctx.emit("UpgradeProposed", {
+        upgrade_id: BigInt(1),
+        new_version_hash: newVersionHash,
+        proposer: ctx.sender,
+        executable_after: executableAfter,
+        proposed_at: ctx.now,
+      });
+    },
+
+    cancel_upgrade(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+
+      requireAnyRole(ctx, registryAddr, [ROLE_SUPER_ADMIN]);
+      checkAndUpdateRateLimit(ctx, registryAddr);
+
+      const state = ctx.borrow<EmergencyState>(registryAddr, "EmergencyState");
+      ctx.check(state.upgrade_in_progress, abortCodes.noUpgradePending);
+      state.upgrade_in_progress = false;
+      state.scheduled_upgrade_at = BigInt(0);
+
+      logAction(ctx, registryAddr, ACTION_UPGRADE, registryAddr, "Upgrade cancelled");
+    },
+  },
+
+  view: {
+    get_system_state(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      ctx.check(ctx.exists(registryAddr, "EmergencyState"), abortCodes.notInitialized);
+      const state = ctx.borrow<EmergencyState>(registryAddr, "EmergencyState");
+      return [state.current_state, state.state_changed_at, state.state_changed_by, state.pause_expires_at];
+    },
+
+    is_system_paused(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      if (!ctx.exists(registryAddr, "EmergencyState")) return [false];
+      const state = ctx.borrow<EmergencyState>(registryAddr, "EmergencyState");
+      return [state.current_state === STATE_PAUSED || state.current_state === STATE_EMERGENCY];
+    },
+
+    is_module_paused(ctx, args) {
+      const [registryAddr, moduleIndex] = [args.address(), args.u8()];
+      args.done();
+      if (!ctx.exists(registryAddr, "ModulePauseState")) return [false];
+      const modulePause = ctx.borrow<ModulePauseState>(registryAddr, "ModulePauseState");
+      const entry = MODULES[moduleIndex];
+      return [entry ? modulePause[entry[0]] : false];
+    },
+
+    has_role(ctx, args) {
+      const [registryAddr, holder, role] = [args.address(), args.address(), args.u8()];
+      args.done();
+      return [hasRole(ctx, registryAddr, holder, role)];
+    },
+
+    get_admin_count(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      ctx.check(ctx.exists(registryAddr, "AccessControlRegistry"), abortCodes.notInitialized);
+      return [ctx.borrow<AccessControlRegistry>(registryAddr, "AccessControlRegistry").admin_count];
+    },
+
+    is_upgrade_pending(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      if (!ctx.exists(registryAddr, "EmergencyState")) return [false];
+      return [ctx.borrow<EmergencyState>(registryAddr, "EmergencyState").upgrade_in_progress];
+    },
+  },
+};
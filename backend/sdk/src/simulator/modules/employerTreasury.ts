@@ -0,0 +1,574 @@
+/**
+ * Protocol Simulator - employer_treasury
+ *
+ * Employer deposits with the 10% reserve, per-stream allocations, health
+ * status, per-asset balances and the registry totals, following
+ * `employer_treasury.move`.
+ */
+
+import { abortCodes } from "../abortCodes.js";
+import { Coin, EventHandle, ExecutionContext, ExtendRef, ModuleHandlers, add, div, mul, sub } from "../runtime.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface TreasuryRegistry {
+  total_treasuries: bigint;
+  total_value: bigint;
+  total_allocated: bigint;
+  admin: string;
+  is_frozen: boolean;
+  treasury_created_events: EventHandle;
+  deposit_events: EventHandle;
+  allocation_events: EventHandle;
+  withdrawal_events: EventHandle;
+}
+
+interface EmployerTreasury {
+  employer: string;
+  total_balance: bigint;
+  allocated_balance: bigint;
+  available_balance: bigint;
+  reserve_balance: bigint;
+  active_stream_count: bigint;
+  created_at: bigint;
+  last_activity: bigint;
+  status: number;
+  funds: Coin;
+  is_frozen: boolean;
+  auto_topup_threshold: bigint;
+}
+
+interface StreamAllocation {
+  stream_id: bigint;
+  amount: bigint;
+  disbursed: bigint;
+  allocated_at: bigint;
+  is_active: boolean;
+}
+
+interface EmployerAllocations {
+  allocations: StreamAllocation[];
+  total_allocated: bigint;
+  total_disbursed: bigint;
+}
+
+interface TreasuryAnalytics {
+  total_deposits: bigint;
+  total_withdrawals: bigint;
+  total_disbursements: bigint;
+  avg_allocation: bigint;
+  peak_balance: bigint;
+  low_balance_alerts: bigint;
+}
+
+interface AssetBalance {
+  total_balance: bigint;
+  allocated_balance: bigint;
+  available_balance: bigint;
+  reserve_balance: bigint;
+}
+
+/**
+ * `balances` is a `Table<address, AssetBalance>`, kept as entries
+ */
+interface AssetTreasury {
+  extend_ref: ExtendRef;
+  assets: { inner: string }[];
+  balances: { key: string; value: AssetBalance }[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MIN_DEPOSIT = BigInt(10_000_000);
+const MAX_ALLOCATION_PER_STREAM = BigInt(10_000_000_000_000);
+const RESERVE_RATIO_BPS = BigInt(1000);
+const HEALTH_WARNING_THRESHOLD_BPS = BigInt(2000);
+const HEALTH_CRITICAL_THRESHOLD_BPS = BigInt(500);
+const BPS = BigInt(10000);
+
+const STATUS_HEALTHY = 1;
+const STATUS_WARNING = 2;
+const STATUS_CRITICAL = 3;
+const STATUS_FROZEN = 4;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const updateTreasuryStatus = (treasury: EmployerTreasury): void => {
+  if (treasury.is_frozen) {
+    treasury.status = STATUS_FROZEN;
+    return;
+  }
+  if (treasury.total_balance === BigInt(0) || treasury.allocated_balance === BigInt(0)) {
+    treasury.status = STATUS_HEALTHY;
+    return;
+  }
+
+  const availableRatio = div(mul(treasury.available_balance, BPS), treasury.total_balance);
+  if (availableRatio < HEALTH_CRITICAL_THRESHOLD_BPS) {
+    treasury.status = STATUS_CRITICAL;
+  } else if (availableRatio < HEALTH_WARNING_THRESHOLD_BPS) {
+    treasury.status = STATUS_WARNING;
+  } else {
+    treasury.status = STATUS_HEALTHY;
+  }
+};
+
+const registryOf = (ctx: ExecutionContext, registryAddr: string): TreasuryRegistry => {
+  ctx.check(ctx.exists(registryAddr, "TreasuryRegistry"), abortCodes.notInitialized);
+  return ctx.borrow<TreasuryRegistry>(registryAddr, "TreasuryRegistry");
+};
+
+const adminRegistry = (ctx: ExecutionContext, registryAddr: string): TreasuryRegistry => {
+  const registry = registryOf(ctx, registryAddr);
+  ctx.check(registry.admin === ctx.sender, abortCodes.unauthorized);
+  return registry;
+};
+
+const treasuryOf = (ctx: ExecutionContext, employer: string): EmployerTreasury => {
+  ctx.check(ctx.exists(employer, "EmployerTreasury"), abortCodes.treasuryNotInitialized);
+  return ctx.borrow<EmployerTreasury>(employer, "EmployerTreasury");
+};
+
+/**
+ * A frozen APT treasury freezes the employer's asset balances too
+ */
+const checkNotFrozen = (ctx: ExecutionContext, employer: string): void => {
+  if (ctx.exists(employer, "EmployerTreasury")) {
+    ctx.check(!ctx.borrow<EmployerTreasury>(employer, "EmployerTreasury").is_frozen, abortCodes.treasuryFrozen);
+  }
+};
+
+const assetBalanceOf = (treasury: AssetTreasury, asset: string): AssetBalance | undefined =>
+  treasury.balances.find((entry) => entry.key === asset)?.value;
+
+const withdrawFunds = (ctx: ExecutionContext, registryAddr: string, amount: bigint): void => {
+  const employer = ctx.sender;
+  const registry = registryOf(ctx, registryAddr);
+  const treasury = treasuryOf(ctx, employer);
+
+  ctx.check(!treasury.is_frozen, abortCodes.treasuryFrozen);
+  ctx.check(amount > BigInt(0), abortCodes.invalidAmount);
+  ctx.check(treasury.available_balance >= amount, abortCodes.insufficientFunds);
+
+  const postWithdrawalBalance = sub(treasury.total_balance, amount);
+  const requiredReserve = div(mul(treasury.allocated_balance, RESERVE_RATIO_BPS), BPS);
+  ctx.check(postWithdrawalBalance >= add(treasury.allocated_balance, requiredReserve), abortCodes.reserveRequired);
+
+  ctx.depositCoin(employer, ctx.extract(treasury.funds, amount));
+
+  treasury.total_balance = sub(treasury.total_balance, amount);
+  treasury.available_balance = sub(treasury.available_balance, amount);
+  treasury.last_activity = ctx.now;
+  updateTreasuryStatus(treasury);
+
+  const analytics = ctx.borrow<TreasuryAnalytics>(employer, "TreasuryAnalytics");
+  analytics.total_withdrawals = add(analytics.total_withdrawals, amount);
+  registry.total_value = sub(registry.total_value, amount);
+
+  ctx.emitEvent(registry.withdrawal_events, "WithdrawalEvent", {
+    employer,
+    amount,
+    remaining_balance: treasury.total_balance,
+    timestamp: ctx.now,
+  });
+};
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export const employerTreasury: ModuleHandlers = {
+  entry: {
+    initialize_registry(ctx, args) {
+      args.done();
+      const admin = ctx.sender;
+      ctx.check(!ctx.exists(admin, "TreasuryRegistry"), abortCodes.alreadyInitialized);
+
+      ctx.moveTo<TreasuryRegistry>(admin, "TreasuryRegistry", {
+        total_treasuries: BigInt(0),
+        total_value: BigInt(0),
+        total_allocated: BigInt(0),
+        admin,
+        is_frozen: false,
+        treasury_created_events: ctx.newEventHandle(admin),
+        deposit_events: ctx.newEventHandle(admin),
+        allocation_events: ctx.newEventHandle(admin),
+        withdrawal_events: ctx.newEventHandle(admin),
+      });
+    },
+
+    initialize_treasury(ctx, args) {
+      const [registryAddr, initialDeposit] = [args.address(), args.u64()];
+      args.done();
+      const employer = ctx.sender;
+
+      ctx.check(ctx.exists(registryAddr, "TreasuryRegistry"), abortCodes.notInitialized);
+      ctx.check(!ctx.exists(employer, "EmployerTreasury"), abortCodes.alreadyInitialized);
+      ctx.check(initialDeposit >= MIN_DEPOSIT, abortCodes.amountTooSmall);
+
+      const reserve = div(mul(initialDeposit, RESERVE_RATIO_BPS), BPS);
+      const funds = ctx.withdrawCoin(employer, initialDeposit);
+
+      ctx.moveTo<EmployerTreasury>(employer, "EmployerTreasury", {
+        employer,
+        total_balance: initialDeposit,
+        allocated_balance: BigInt(0),
+        available_balance: sub(initialDeposit, reserve),
+        reserve_balance: reserve,
+        active_stream_count: BigInt(0),
+        created_at: ctx.now,
+        last_activity: ctx.now,
+        status: STATUS_HEALTHY,
+        funds,
+        is_frozen: false,
+        auto_topup_threshold: BigInt(0),
+      });
+      ctx.moveTo<EmployerAllocations>(employer, "EmployerAllocations", {
+        allocations: [],
+        total_allocated: BigInt(0),
+        total_disbursed: BigInt(0),
+      });
+      ctx.moveTo<TreasuryAnalytics>(employer, "TreasuryAnalytics", {
+        total_deposits: initialDeposit,
+        total_withdrawals: BigInt(0),
+        total_disbursements: BigInt(0),
+        avg_allocation: BigInt(0),
+        peak_balance: initialDeposit,
+        low_balance_alerts: BigInt(0),
+      });
+
+      const registry = ctx.borrow<TreasuryRegistry>(registryAddr, "TreasuryRegistry");
+      registry.total_treasuries = add(registry.total_treasuries, BigInt(1));
+      registry.total_value = add(registry.total_value, initialDeposit);
+
+      ctx.emitEvent(registry.treasury_created_events, "TreasuryCreatedEvent", {
+        employer,
+        initial_deposit: initialDeposit,
+        timestamp: ctx.now,
+      });
+    },
+
+    deposit_funds(ctx, args) {
+      const [registryAddr, amount] = [args.address(), args.u64()];
+      args.done();
+      const employer = ctx.sender;
+
+      ctx.check(ctx.exists(registryAddr, "TreasuryRegistry"), abortCodes.notInitialized);
+      ctx.check(ctx.exists(employer, "EmployerTreasury"), abortCodes.treasuryNotInitialized);
+      ctx.check(amount >= MIN_DEPOSIT, abortCodes.amountTooSmall);
+
+      const registry = ctx.borrow<TreasuryRegistry>(registryAddr, "TreasuryRegistry");
+      ctx.check(!registry.is_frozen, abortCodes.protocolPaused);
+      const treasury = ctx.borrow<EmployerTreasury>(employer, "EmployerTreasury");
+      ctx.check(!treasury.is_frozen, abortCodes.treasuryFrozen);
+
+      const reserve = div(mul(amount, RESERVE_RATIO_BPS), BPS);
+      ctx.merge(treasury.funds, ctx.withdrawCoin(employer, amount));
+
+      treasury.total_balance = add(treasury.total_balance, amount);
+      treasury.available_balance = add(treasury.available_balance, sub(amount, reserve));
+      treasury.reserve_balance = add(treasury.reserve_balance, reserve);
+      treasury.last_activity = ctx.now;
+      updateTreasuryStatus(treasury);
+
+      const analytics = ctx.borrow<TreasuryAnalytics>(employer, "TreasuryAnalytics");
+      analytics.total_deposits = add(analytics.total_deposits, amount);
+      if (treasury.total_balance > analytics.peak_balance) analytics.peak_balance = treasury.total_balance;
+
+      registry.total_value = add(registry.total_value, amount);
+
+      ctx.emitEvent(registry.deposit_events, "DepositEvent", {
+        employer,
+        amount,
+        new_balance: treasury.total_balance,
+        timestamp: ctx.now,
+      });
+    },
+
+    deposit_asset(ctx, args) {
+      const [registryAddr, asset, amount] = [args.address(), args.object(), args.u64()];
+      args.done();
+      const employer = ctx.sender;
+
+      ctx.check(ctx.exists(registryAddr, "TreasuryRegistry"), abortCodes.notInitialized);
+      ctx.check(amount > BigInt(0), abortCodes.invalidAmount);
+      ctx.check(!ctx.borrow<TreasuryRegistry>(registryAddr, "TreasuryRegistry").is_frozen, abortCodes.protocolPaused);
+      checkNotFrozen(ctx, employer);
+
+      if (!ctx.exists(employer, "AssetTreasury")) {
+        ctx.moveTo<AssetTreasury>(employer, "AssetTreasury", {
+          extend_ref: ctx.createObject(registryAddr),
+          assets: [],
+          balances: [],
+        });
+      }
+      const treasury = ctx.borrow<AssetTreasury>(employer, "AssetTreasury");
+      if (!assetBalanceOf(treasury, asset)) {
+        treasury.assets.push({ inner: asset });
+        treasury.balances.push({
+          key: asset,
+          value: {
+            total_balance: BigInt(0),
+            allocated_balance: BigInt(0),
+            available_balance: BigInt(0),
+            reserve_balance: BigInt(0),
+          },
+        });
+      }
+
+      ctx.depositAsset(treasury.extend_ref.self, ctx.withdrawAsset(employer, asset, amount));
+
+      const balance = assetBalanceOf(treasury, asset)!;
+      balance.total_balance = add(balance.total_balance, amount);
+      balance.available_balance = add(balance.available_balance, amount);
+
+      ctx.emit("AssetDepositEvent", {
+        employer,
+        asset,
+        amount,
+        new_balance: balance.total_balance,
+        timestamp: ctx.now,
+      });
+    },
+
+    allocate_to_stream(ctx, args) {
+      const [registryAddr, streamId, amount] = [args.address(), args.u64(), args.u64()];
+      args.done();
+      const employer = ctx.sender;
+
+      ctx.check(ctx.exists(registryAddr, "TreasuryRegistry"), abortCodes.notInitialized);
+      ctx.check(ctx.exists(employer, "EmployerTreasury"), abortCodes.treasuryNotInitialized);
+      ctx.check(amount > BigInt(0), abortCodes.invalidAmount);
+      ctx.check(amount <= MAX_ALLOCATION_PER_STREAM, abortCodes.allocationTooLarge);
+
+      const registry = ctx.borrow<TreasuryRegistry>(registryAddr, "TreasuryRegistry");
+      ctx.check(!registry.is_frozen, abortCodes.protocolPaused);
+      const treasury = ctx.borrow<EmployerTreasury>(employer, "EmployerTreasury");
+      ctx.check(!treasury.is_frozen, abortCodes.treasuryFrozen);
+      ctx.check(treasury.available_balance >= amount, abortCodes.insufficientFunds);
+
+      const allocations = ctx.borrow<EmployerAllocations>(employer, "EmployerAllocations");
+      for (const allocation of allocations.allocations) {
+        ctx.check(!(allocation.stream_id === streamId && allocation.is_active), abortCodes.streamAlreadyFunded);
+      }
+
+      allocations.allocations.push({
+        stream_id: streamId,
+        amount,
+        disbursed: BigInt(0),
+        allocated_at: ctx.now,
+        is_active: true,
+      });
+      allocations.total_allocated = add(allocations.total_allocated, amount);
+
+      treasury.available_balance = sub(treasury.available_balance, amount);
+      treasury.allocated_balance = add(treasury.allocated_balance, amount);
+      treasury.active_stream_count = add(treasury.active_stream_count, BigInt(1));
+      treasury.last_activity = ctx.now;
+      updateTreasuryStatus(treasury);
+
+      const analytics = ctx.borrow<TreasuryAnalytics>(employer, "TreasuryAnalytics");
+      analytics.avg_allocation = div(allocations.total_allocated, treasury.active_stream_count);
+
+      registry.total_allocated = add(registry.total_allocated, amount);
+
+      ctx.emitEvent(registry.allocation_events, "AllocationEvent", {
+        employer,
+        stream_id: streamId,
+        amount,
+        remaining_available: treasury.available_balance,
+        timestamp: ctx.now,
+      });
+    },
+
+    deallocate_from_stream(ctx, args) {
+      const [registryAddr, streamId, unusedAmount] = [args.address(), args.u64(), args.u64()];
+      args.done();
+      const employer = ctx.sender;
+
+      ctx.check(ctx.exists(employer, "EmployerTreasury"), abortCodes.treasuryNotInitialized);
+      const registry = ctx.borrow<TreasuryRegistry>(registryAddr, "TreasuryRegistry");
+      const treasury = ctx.borrow<EmployerTreasury>(employer, "EmployerTreasury");
+      const allocations = ctx.borrow<EmployerAllocations>(employer, "EmployerAllocations");
+
+      const allocation = allocations.allocations.find(
+        (candidate) => candidate.stream_id === streamId && candidate.is_active
+      );
+      if (!allocation) return ctx.abort(abortCodes.allocationNotFound);
+      allocation.is_active = false;
+
+      if (unusedAmount > BigInt(0)) {
+        treasury.allocated_balance = sub(treasury.allocated_balance, unusedAmount);
+        treasury.available_balance = add(treasury.available_balance, unusedAmount);
+        registry.total_allocated = sub(registry.total_allocated, unusedAmount);
+      }
+      treasury.active_stream_count = sub(treasury.active_stream_count, BigInt(1));
+      treasury.last_activity = ctx.now;
+      updateTreasuryStatus(treasury);
+    },
+
+    withdraw_funds(ctx, args) {
+      const [registryAddr, amount] = [args.address(), args.u64()];
+      args.done();
+      withdrawFunds(ctx, registryAddr, amount);
+    },
+
+    withdraw_asset(ctx, args) {
+      const [registryAddr, asset, amount] = [args.address(), args.object(), args.u64()];
+      args.done();
+      const employer = ctx.sender;
+
+      ctx.check(ctx.exists(registryAddr, "TreasuryRegistry"), abortCodes.notInitialized);
+      ctx.check(ctx.exists(employer, "AssetTreasury"), abortCodes.treasuryNotInitialized);
+      ctx.check(amount > BigInt(0), abortCodes.invalidAmount);
+      checkNotFrozen(ctx, employer);
+
+      const treasury = ctx.borrow<AssetTreasury>(employer, "AssetTreasury");
+      const balance = assetBalanceOf(treasury, asset) ?? ctx.abort(abortCodes.insufficientFunds);
+      ctx.check(balance.available_balance >= amount, abortCodes.insufficientFunds);
+
+      balance.total_balance = sub(balance.total_balance, amount);
+      balance.available_balance = sub(balance.available_balance, amount);
+      ctx.depositAsset(employer, ctx.withdrawAsset(treasury.extend_ref.self, asset, amount));
+
+      ctx.emit("AssetWithdrawalEvent", {
+        employer,
+        asset,
+        amount,
+        remaining_balance: balance.total_balance,
+        timestamp: ctx.now,
+      });
+    },
+
+    emergency_withdraw(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+
+      const available = treasuryOf(ctx, ctx.sender).available_balance;
+      if (available > BigInt(0)) withdrawFunds(ctx, registryAddr, available);
+    },
+
+    freeze_treasury(ctx, args) {
+      const [registryAddr, employer] = [args.address(), args.address()];
+      args.done();
+
+      adminRegistry(ctx, registryAddr);
+      const treasury = treasuryOf(ctx, employer);
+      treasury.is_frozen = true;
+      treasury.status = STATUS_FROZEN;
+    },
+
+    unfreeze_treasury(ctx, args) {
+      const [registryAddr, employer] = [args.address(), args.address()];
+      args.done();
+
+      adminRegistry(ctx, registryAddr);
+      const treasury = treasuryOf(ctx, employer);
+      treasury.is_frozen = false;
+      updateTreasuryStatus(treasury);
+    },
+
+    global_freeze(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      adminRegistry(ctx, registryAddr).is_frozen = true;
+    },
+
+    global_unfreeze(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      adminRegistry(ctx, registryAddr).is_frozen = false;
+    },
+
+    set_auto_topup_threshold(ctx, args) {
+      const threshold = args.u64();
+      args.done();
+      treasuryOf(ctx, ctx.sender).auto_topup_threshold = threshold;
+    },
+  },
+
+  view: {
+    get_treasury_balance(ctx, args) {
+      const employer = args.address();
+      args.done();
+      const treasury = treasuryOf(ctx, employer);
+      return [treasury.total_balance, treasury.allocated_balance, treasury.available_balance, treasury.reserve_balance];
+    },
+
+    get_asset_balance(ctx, args) {
+      const [employer, asset] = [args.address(), args.object()];
+      args.done();
+      if (!ctx.exists(employer, "AssetTreasury")) return [BigInt(0), BigInt(0), BigInt(0), BigInt(0)];
+      const balance = assetBalanceOf(ctx.borrow<AssetTreasury>(employer, "AssetTreasury"), asset);
+      if (!balance) return [BigInt(0), BigInt(0), BigInt(0), BigInt(0)];
+      return [balance.total_balance, balance.allocated_balance, balance.available_balance, balance.reserve_balance];
+    },
+
+    get_treasury_assets(ctx, args) {
+      const employer = args.address();
+      args.done();
+      if (!ctx.exists(employer, "AssetTreasury")) return [[]];
+      return [ctx.borrow<AssetTreasury>(employer, "AssetTreasury").assets.map((asset) => ({ ...asset }))];
+    },
+
+    get_treasury_status(ctx, args) {
+      const employer = args.address();
+      args.done();
+      const treasury = treasuryOf(ctx, employer);
+      return [treasury.status, treasury.is_frozen, treasury.active_stream_count];
+    },
+
+    get_treasury_health(ctx, args) {
+      const employer = args.address();
+      args.done();
+      const treasury = treasuryOf(ctx, employer);
+      if (treasury.total_balance === BigInt(0)) return [BigInt(0)];
+      return [div(mul(add(treasury.available_balance, treasury.reserve_balance), BPS), treasury.total_balance)];
+    },
+
+    get_allocation(ctx, args) {
+      const [employer, streamId] = [args.address(), args.u64()];
+      args.done();
+
+      ctx.check(ctx.exists(employer, "EmployerAllocations"), abortCodes.treasuryNotInitialized);
+      const allocation = ctx
+        .borrow<EmployerAllocations>(employer, "EmployerAllocations")
+        .allocations.find((candidate) => candidate.stream_id === streamId);
+      if (!allocation) return [BigInt(0), BigInt(0), false];
+      return [allocation.amount, allocation.disbursed, allocation.is_active];
+    },
+
+    get_treasury_analytics(ctx, args) {
+      const employer = args.address();
+      args.done();
+
+      ctx.check(ctx.exists(employer, "TreasuryAnalytics"), abortCodes.treasuryNotInitialized);
+      const analytics = ctx.borrow<TreasuryAnalytics>(employer, "TreasuryAnalytics");
+      return [
+        analytics.total_deposits,
+        analytics.total_withdrawals,
+        analytics.total_disbursements,
+        analytics.peak_balance,
+      ];
+    },
+
+    treasury_exists(ctx, args) {
+      const employer = args.address();
+      args.done();
+      return [ctx.exists(employer, "EmployerTreasury")];
+    },
+
+    get_registry_stats(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      const registry = registryOf(ctx, registryAddr);
+      return [registry.total_treasuries, registry.total_value, registry.total_allocated];
+    },
+  },
+};
@@ -0,0 +1,794 @@
+/**
+ * Protocol Simulator - photon_rewards
+ *
+ * Campaigns with milestones and tiers, participation and progress, reward
+ * claims against the budget and per-participant cap, daily check-in streaks
+ * and badges, following `photon_rewards.move`. As on chain, a campaign and a
+ * participation live at the employer and participant accounts, so each
+ * account holds at most one of each.
+ */
+
+import { abortCodes } from "../abortCodes.js";
+import { ExecutionContext, ModuleHandlers, add, div, mul, sub } from "../runtime.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Milestone {
+  milestone_id: bigint;
+  name: string;
+  description: string;
+  target_value: bigint;
+  reward_amount: bigint;
+  is_required: boolean;
+  sequence_order: bigint;
+}
+
+interface RewardTier {
+  tier_level: bigint;
+  min_threshold: bigint;
+  max_threshold: bigint;
+  reward_multiplier: bigint;
+  bonus_amount: bigint;
+}
+
+interface PhotonCampaign {
+  campaign_id: bigint;
+  employer: string;
+  name: string;
+  description: string;
+  status: number;
+  reward_type: number;
+  trigger_type: number;
+  start_time: bigint;
+  end_time: bigint;
+  total_budget: bigint;
+  distributed_amount: bigint;
+  per_participant_cap: bigint;
+  min_eligibility_score: bigint;
+  reward_token_metadata: { inner: string };
+  milestones: Milestone[];
+  reward_tiers: RewardTier[];
+  total_participants: bigint;
+  claimed_participants: bigint;
+  photon_external_id: string;
+  created_at: bigint;
+  updated_at: bigint;
+}
+
+interface Badge {
+  badge_id: bigint;
+  name: string;
+  description: string;
+  campaign_id: bigint;
+  earned_at: bigint;
+  rarity: number;
+}
+
+interface EmployeeRewards {
+  employee: string;
+  total_pat_earned: bigint;
+  total_pat_claimed: bigint;
+  pending_pat: bigint;
+  current_streak: bigint;
+  longest_streak: bigint;
+  last_activity_timestamp: bigint;
+  campaigns_participated: bigint;
+  campaigns_completed: bigint;
+  badges: Badge[];
+  referral_count: bigint;
+  referral_rewards_earned: bigint;
+  engagement_score: bigint;
+  performance_score: bigint;
+}
+
+interface CampaignParticipation {
+  campaign_id: bigint;
+  participant: string;
+  registered_at: bigint;
+  current_progress: bigint;
+  milestones_completed: bigint[];
+  current_tier: bigint;
+  rewards_earned: bigint;
+  rewards_claimed: bigint;
+  last_progress_update: bigint;
+  status: number;
+}
+
+interface RewardsRegistry {
+  total_campaigns: bigint;
+  total_pat_distributed: bigint;
+  total_unique_participants: bigint;
+  active_campaigns: bigint;
+  platform_fee_bps: bigint;
+  platform_treasury: string;
+  authorized_managers: string[];
+  photon_integration_enabled: boolean;
+  photon_api_endpoint: string;
+}
+
+interface EmployerCampaignRegistry {
+  employer: string;
+  campaign_ids: bigint[];
+  total_budget_allocated: bigint;
+  total_rewards_distributed: bigint;
+  active_campaign_count: bigint;
+}
+
+interface ReferralRecord {
+  referrer: string;
+  referee: string;
+  campaign_id: bigint;
+  referred_at: bigint;
+  reward_amount: bigint;
+  reward_claimed: boolean;
+  referee_qualified: boolean;
+}
+
+interface StreakTracker {
+  employee: string;
+  current_streak: bigint;
+  longest_streak: bigint;
+  last_checkin_day: bigint;
+  streak_rewards_earned: bigint;
+  streak_breaks: bigint;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MAX_CAMPAIGNS_PER_EMPLOYER = 50;
+const MAX_PARTICIPANTS_PER_CAMPAIGN = BigInt(10000);
+const MAX_MILESTONES_PER_CAMPAIGN = 20;
+const MIN_CAMPAIGN_DURATION = BigInt(86400);
+const MAX_CAMPAIGN_DURATION = BigInt(31536000);
+const PAT_PRECISION = BigInt(1000000);
+const SECONDS_PER_DAY = BigInt(86400);
+
+const CAMPAIGN_STATUS_DRAFT = 0;
+const CAMPAIGN_STATUS_ACTIVE = 1;
+const CAMPAIGN_STATUS_PAUSED = 2;
+
+const REWARD_TYPE_TIERED = 2;
+const REWARD_TYPE_MILESTONE = 3;
+const TRIGGER_CUSTOM = 5;
+
+/** Streak length → reward in PAT units */
+const STREAK_REWARDS = new Map<bigint, bigint>([
+  [BigInt(7), BigInt(100)],
+  [BigInt(30), BigInt(500)],
+  [BigInt(90), BigInt(2000)],
+  [BigInt(180), BigInt(5000)],
+  [BigInt(365), BigInt(15000)],
+]);
+
+// ============================================
+// HELPERS
+// ============================================
+
+const newEmployeeRewards = (employee: string): EmployeeRewards => ({
+  employee,
+  total_pat_earned: BigInt(0),
+  total_pat_claimed: BigInt(0),
+  pending_pat: BigInt(0),
+  current_streak: BigInt(0),
+  longest_streak: BigInt(0),
+  last_activity_timestamp: BigInt(0),
+  campaigns_participated: BigInt(0),
+  campaigns_completed: BigInt(0),
+  badges: [],
+  referral_count: BigInt(0),
+  referral_rewards_earned: BigInt(0),
+  engagement_score: BigInt(0),
+  performance_score: BigInt(0),
+});
+
+const newEmployerRegistry = (employer: string): EmployerCampaignRegistry => ({
+  employer,
+  campaign_ids: [],
+  total_budget_allocated: BigInt(0),
+  total_rewards_distributed: BigInt(0),
+  active_campaign_count: BigInt(0),
+});
+
+const campaignAt = (ctx: ExecutionContext, campaignAddr: string): PhotonCampaign => {
+  ctx.check(ctx.exists(campaignAddr, "PhotonCampaign"), abortCodes.campaignNotFound);
+  return ctx.borrow<PhotonCampaign>(campaignAddr, "PhotonCampaign");
+};
+
+const ownCampaign = (ctx: ExecutionContext, campaignAddr: string): PhotonCampaign => {
+  const campaign = campaignAt(ctx, campaignAddr);
+  ctx.check(campaign.employer === ctx.sender, abortCodes.notAuthorized);
+  return campaign;
+};
+
+const changeCampaignStatus = (ctx: ExecutionContext, campaign: PhotonCampaign, newStatus: number): void => {
+  const oldStatus = campaign.status;
+  campaign.status = newStatus;
+  campaign.updated_at = ctx.now;
+  ctx.emit("CampaignStatusChangedEvent", {
+    campaign_id: campaign.campaign_id,
+    old_status: oldStatus,
+    new_status: newStatus,
+    changed_by: ctx.sender,
+    timestamp: ctx.now,
+  });
+};
+
+const managerRegistry = (ctx: ExecutionContext, registryAddr: string): RewardsRegistry => {
+  const registry = ctx.borrow<RewardsRegistry>(registryAddr, "RewardsRegistry");
+  ctx.check(registry.authorized_managers.includes(ctx.sender), abortCodes.notAuthorized);
+  return registry;
+};
+
+const registerForCampaign = (ctx: ExecutionContext, campaignAddr: string, registryAddr: string): void => {
+  const participant = ctx.sender;
+  const campaign = campaignAt(ctx, campaignAddr);
+  ctx.check(campaign.status === CAMPAIGN_STATUS_ACTIVE, abortCodes.campaignNotActive);
+  ctx.check(ctx.now >= campaign.start_time, abortCodes.campaignNotStarted);
+  ctx.check(ctx.now < campaign.end_time, abortCodes.campaignExpired);
+  ctx.check(campaign.total_participants < MAX_PARTICIPANTS_PER_CAMPAIGN, abortCodes.campaignFull);
+
+  if (!ctx.exists(participant, "EmployeeRewards")) {
+    ctx.moveTo(participant, "EmployeeRewards", newEmployeeRewards(participant));
+  }
+  const rewards = ctx.borrow<EmployeeRewards>(participant, "EmployeeRewards");
+  ctx.check(rewards.engagement_score >= campaign.min_eligibility_score, abortCodes.insufficientEligibility);
+
+  ctx.moveTo<CampaignParticipation>(participant, "CampaignParticipation", {
+    campaign_id: campaign.campaign_id,
+    participant,
+    registered_at: ctx.now,
+    current_progress: BigInt(0),
+    milestones_completed: [],
+    current_tier: BigInt(0),
+    rewards_earned: BigInt(0),
+    rewards_claimed: BigInt(0),
+    last_progress_update: ctx.now,
+    status: CAMPAIGN_STATUS_ACTIVE,
+  });
+  campaign.total_participants = add(campaign.total_participants, BigInt(1));
+  campaign.updated_at = ctx.now;
+
+  rewards.campaigns_participated = add(rewards.campaigns_participated, BigInt(1));
+  rewards.last_activity_timestamp = ctx.now;
+
+  const registry = ctx.borrow<RewardsRegistry>(registryAddr, "RewardsRegistry");
+  registry.total_unique_participants = add(registry.total_unique_participants, BigInt(1));
+
+  ctx.emit("ParticipantRegisteredEvent", {
+    campaign_id: campaign.campaign_id,
+    participant,
+    registered_at: ctx.now,
+  });
+};
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export const photonRewards: ModuleHandlers = {
+  entry: {
+    initialize_rewards_system(ctx, args) {
+      const [platformTreasury, platformFeeBps, photonApiEndpoint] = [args.address(), args.u64(), args.string()];
+      args.done();
+      const admin = ctx.sender;
+
+      ctx.check(!ctx.exists(admin, "RewardsRegistry"), abortCodes.alreadyInitialized);
+      ctx.check(platformFeeBps <= BigInt(1000), abortCodes.invalidFeePercentage);
+
+      ctx.moveTo<RewardsRegistry>(admin, "RewardsRegistry", {
+        total_campaigns: BigInt(0),
+        total_pat_distributed: BigInt(0),
+        total_unique_participants: BigInt(0),
+        active_campaigns: BigInt(0),
+        platform_fee_bps: platformFeeBps,
+        platform_treasury: platformTreasury,
+        authorized_managers: [admin],
+        photon_integration_enabled: true,
+        photon_api_endpoint: photonApiEndpoint,
+      });
+    },
+
+    initialize_employee_rewards(ctx, args) {
+      args.done();
+      const employee = ctx.sender;
+      ctx.check(!ctx.exists(employee, "EmployeeRewards"), abortCodes.alreadyInitialized);
+
+      ctx.moveTo(employee, "EmployeeRewards", newEmployeeRewards(employee));
+      ctx.moveTo<StreakTracker>(employee, "StreakTracker", {
+        employee,
+        current_streak: BigInt(0),
+        longest_streak: BigInt(0),
+        last_checkin_day: BigInt(0),
+        streak_rewards_earned: BigInt(0),
+        streak_breaks: BigInt(0),
+      });
+    },
+
+    initialize_employer_campaign_registry(ctx, args) {
+      args.done();
+      const employer = ctx.sender;
+      ctx.check(!ctx.exists(employer, "EmployerCampaignRegistry"), abortCodes.alreadyInitialized);
+      ctx.moveTo(employer, "EmployerCampaignRegistry", newEmployerRegistry(employer));
+    },
+
+    create_campaign(ctx, args) {
+      const [registryAddr, name, description, rewardType, triggerType] = [
+        args.address(),
+        args.string(),
+        args.string(),
+        args.u8(),
+        args.u8(),
+      ];
+      const [startTime, endTime, totalBudget, perParticipantCap, minEligibilityScore] = [
+        args.u64(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+      ];
+      const [rewardTokenMetadata, photonExternalId] = [args.object(), args.string()];
+      args.done();
+      const employer = ctx.sender;
+
+      ctx.check(ctx.exists(registryAddr, "RewardsRegistry"), abortCodes.notInitialized);
+      ctx.check(startTime >= ctx.now, abortCodes.invalidTimeRange);
+      ctx.check(endTime > startTime, abortCodes.invalidTimeRange);
+      ctx.check(endTime - startTime >= MIN_CAMPAIGN_DURATION, abortCodes.invalidTimeRange);
+      ctx.check(endTime - startTime <= MAX_CAMPAIGN_DURATION, abortCodes.invalidTimeRange);
+      ctx.check(totalBudget > BigInt(0), abortCodes.invalidAmount);
+      ctx.check(perParticipantCap > BigInt(0) && perParticipantCap <= totalBudget, abortCodes.invalidAmount);
+      ctx.check(rewardType <= REWARD_TYPE_MILESTONE, abortCodes.invalidRewardType);
+      ctx.check(triggerType <= TRIGGER_CUSTOM, abortCodes.invalidTriggerType);
+
+      if (!ctx.exists(employer, "EmployerCampaignRegistry")) {
+        ctx.moveTo(employer, "EmployerCampaignRegistry", newEmployerRegistry(employer));
+      }
+      const registry = ctx.borrow<RewardsRegistry>(registryAddr, "RewardsRegistry");
+      const employerRegistry = ctx.borrow<EmployerCampaignRegistry>(employer, "EmployerCampaignRegistry");
+      ctx.check(employerRegistry.campaign_ids.length < MAX_CAMPAIGNS_PER_EMPLOYER, abortCodes.maxCampaignsExceeded);
+
+      const campaignId = add(registry.total_campaigns, BigInt(1));
+      registry.total_campaigns = campaignId;
+
+      employerRegistry.campaign_ids.push(campaignId);
+      employerRegistry.total_budget_allocated = add(employerRegistry.total_budget_allocated, totalBudget);
+
+      ctx.moveTo<PhotonCampaign>(employer, "PhotonCampaign", {
+        campaign_id: campaignId,
+        employer,
+        name,
+        description,
+        status: CAMPAIGN_STATUS_DRAFT,
+        reward_type: rewardType,
+        trigger_type: triggerType,
+        start_time: startTime,
+        end_time: endTime,
+        total_budget: totalBudget,
+        distributed_amount: BigInt(0),
+        per_participant_cap: perParticipantCap,
+        min_eligibility_score: minEligibilityScore,
+        reward_token_metadata: { inner: rewardTokenMetadata },
+        milestones: [],
+        reward_tiers: [],
+        total_participants: BigInt(0),
+        claimed_participants: BigInt(0),
+        photon_external_id: photonExternalId,
+        created_at: ctx.now,
+        updated_at: ctx.now,
+      });
+
+      ctx.emit("CampaignCreatedEvent", {
+        campaign_id: campaignId,
+        employer,
+        name,
+        reward_type: rewardType,
+        trigger_type: triggerType,
+        total_budget: totalBudget,
+        start_time: startTime,
+        end_time: endTime,
+        timestamp: ctx.now,
+      });
+    },
+
+    add_milestone(ctx, args) {
+      const [campaignAddr, milestoneId, name, description] = [args.address(), args.u64(), args.string(), args.string()];
+      const [targetValue, rewardAmount, isRequired, sequenceOrder] = [args.u64(), args.u64(), args.bool(), args.u64()];
+      args.done();
+
+      const campaign = ownCampaign(ctx, campaignAddr);
+      ctx.check(campaign.status === CAMPAIGN_STATUS_DRAFT, abortCodes.campaignAlreadyActive);
+      ctx.check(campaign.milestones.length < MAX_MILESTONES_PER_CAMPAIGN, abortCodes.maxMilestonesExceeded);
+
+      campaign.milestones.push({
+        milestone_id: milestoneId,
+        name,
+        description,
+        target_value: targetValue,
+        reward_amount: rewardAmount,
+        is_required: isRequired,
+        sequence_order: sequenceOrder,
+      });
+      campaign.updated_at = ctx.now;
+    },
+
+    add_reward_tier(ctx, args) {
+      const [campaignAddr, tierLevel, minThreshold, maxThreshold, rewardMultiplier, bonusAmount] = [
+        args.address(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+        args.u64(),
+      ];
+      args.done();
+
+      const campaign = ownCampaign(ctx, campaignAddr);
+      ctx.check(campaign.status === CAMPAIGN_STATUS_DRAFT, abortCodes.campaignAlreadyActive);
+      ctx.check(campaign.reward_type === REWARD_TYPE_TIERED, abortCodes.invalidRewardType);
+      ctx.check(minThreshold < maxThreshold, abortCodes.invalidTierConfig);
+
+      campaign.reward_tiers.push({
+        tier_level: tierLevel,
+        min_threshold: minThreshold,
+        max_threshold: maxThreshold,
+        reward_multiplier: rewardMultiplier,
+        bonus_amount: bonusAmount,
+      });
+      campaign.updated_at = ctx.now;
+    },
+
+    activate_campaign(ctx, args) {
+      const [registryAddr, campaignAddr] = [args.address(), args.address()];
+      args.done();
+
+      const campaign = ownCampaign(ctx, campaignAddr);
+      ctx.check(campaign.status === CAMPAIGN_STATUS_DRAFT, abortCodes.invalidCampaignStatus);
+      ctx.check(ctx.now < campaign.end_time, abortCodes.campaignExpired);
+      if (campaign.reward_type === REWARD_TYPE_MILESTONE) {
+        ctx.check(campaign.milestones.length > 0, abortCodes.noMilestonesDefined);
+      }
+      if (campaign.reward_type === REWARD_TYPE_TIERED) {
+        ctx.check(campaign.reward_tiers.length > 0, abortCodes.noTiersDefined);
+      }
+
+      const registry = ctx.borrow<RewardsRegistry>(registryAddr, "RewardsRegistry");
+      registry.active_campaigns = add(registry.active_campaigns, BigInt(1));
+      changeCampaignStatus(ctx, campaign, CAMPAIGN_STATUS_ACTIVE);
+    },
+
+    pause_campaign(ctx, args) {
+      const [registryAddr, campaignAddr] = [args.address(), args.address()];
+      args.done();
+
+      const campaign = ownCampaign(ctx, campaignAddr);
+      ctx.check(campaign.status === CAMPAIGN_STATUS_ACTIVE, abortCodes.invalidCampaignStatus);
+
+      const registry = ctx.borrow<RewardsRegistry>(registryAddr, "RewardsRegistry");
+      registry.active_campaigns = sub(registry.active_campaigns, BigInt(1));
+      changeCampaignStatus(ctx, campaign, CAMPAIGN_STATUS_PAUSED);
+    },
+
+    resume_campaign(ctx, args) {
+      const [registryAddr, campaignAddr] = [args.address(), args.address()];
+      args.done();
+
+      const campaign = ownCampaign(ctx, campaignAddr);
+      ctx.check(campaign.status === CAMPAIGN_STATUS_PAUSED, abortCodes.invalidCampaignStatus);
+      ctx.check(ctx.now < campaign.end_time, abortCodes.campaignExpired);
+
+      const registry = ctx.borrow<RewardsRegistry>(registryAddr, "RewardsRegistry");
+      registry.active_campaigns = add(registry.active_campaigns, BigInt(1));
+      changeCampaignStatus(ctx, campaign, CAMPAIGN_STATUS_ACTIVE);
+    },
+
+    register_for_campaign(ctx, args) {
+      const [campaignAddr, registryAddr] = [args.address(), args.address()];
+      args.done();
+      registerForCampaign(ctx, campaignAddr, registryAddr);
+    },
+
+    register_with_referral(ctx, args) {
+      const [campaignAddr, registryAddr, referrer] = [args.address(), args.address(), args.address()];
+      args.done();
+      const participant = ctx.sender;
+
+      ctx.check(referrer !== participant, abortCodes.invalidReferral);
+      ctx.check(ctx.exists(referrer, "EmployeeRewards"), abortCodes.referrerNotFound);
+
+      registerForCampaign(ctx, campaignAddr, registryAddr);
+
+      ctx.moveTo<ReferralRecord>(participant, "ReferralRecord", {
+        referrer,
+        referee: participant,
+        campaign_id: ctx.borrow<PhotonCampaign>(campaignAddr, "PhotonCampaign").campaign_id,
+        referred_at: ctx.now,
+        reward_amount: BigInt(0),
+        reward_claimed: false,
+        referee_qualified: false,
+      });
+      const referrerRewards = ctx.borrow<EmployeeRewards>(referrer, "EmployeeRewards");
+      referrerRewards.referral_count = add(referrerRewards.referral_count, BigInt(1));
+    },
+
+    update_progress(ctx, args) {
+      const [participant, campaignAddr, newProgress] = [args.address(), args.address(), args.u64()];
+      args.done();
+
+      ctx.check(ctx.exists(campaignAddr, "PhotonCampaign"), abortCodes.campaignNotFound);
+      ctx.check(ctx.exists(participant, "CampaignParticipation"), abortCodes.notRegistered);
+      const campaign = ctx.borrow<PhotonCampaign>(campaignAddr, "PhotonCampaign");
+      const participation = ctx.borrow<CampaignParticipation>(participant, "CampaignParticipation");
+      ctx.check(participation.campaign_id === campaign.campaign_id, abortCodes.campaignMismatch);
+      ctx.check(campaign.status === CAMPAIGN_STATUS_ACTIVE, abortCodes.campaignNotActive);
+      ctx.check(participation.status === CAMPAIGN_STATUS_ACTIVE, abortCodes.participationInactive);
+
+      const oldProgress = participation.current_progress;
+      participation.current_progress = newProgress;
+      participation.last_progress_update = ctx.now;
+
+      for (const milestone of campaign.milestones) {
+        if (
+          newProgress >= milestone.target_value &&
+          oldProgress < milestone.target_value &&
+          !participation.milestones_completed.includes(milestone.milestone_id)
+        ) {
+          participation.milestones_completed.push(milestone.milestone_id);
+          participation.rewards_earned = add(participation.rewards_earned, milestone.reward_amount);
+          ctx.emit("MilestoneCompletedEvent", {
+            campaign_id: campaign.campaign_id,
+            participant,
+            milestone_id: milestone.milestone_id,
+            reward_amount: milestone.reward_amount,
+            timestamp: ctx.now,
+          });
+        }
+      }
+
+      if (campaign.reward_type === REWARD_TYPE_TIERED) {
+        for (const tier of campaign.reward_tiers) {
+          if (
+            newProgress >= tier.min_threshold &&
+            newProgress <= tier.max_threshold &&
+            tier.tier_level > participation.current_tier
+          ) {
+            participation.current_tier = tier.tier_level;
+            participation.rewards_earned = add(participation.rewards_earned, tier.bonus_amount);
+          }
+        }
+      }
+
+      ctx.emit("ProgressUpdatedEvent", {
+        campaign_id: campaign.campaign_id,
+        participant,
+        old_progress: oldProgress,
+        new_progress: newProgress,
+        timestamp: ctx.now,
+      });
+    },
+
+    claim_rewards(ctx, args) {
+      const [campaignAddr, registryAddr] = [args.address(), args.address()];
+      args.done();
+      const participant = ctx.sender;
+
+      ctx.check(ctx.exists(campaignAddr, "PhotonCampaign"), abortCodes.campaignNotFound);
+      ctx.check(ctx.exists(participant, "CampaignParticipation"), abortCodes.notRegistered);
+      ctx.check(ctx.exists(participant, "EmployeeRewards"), abortCodes.notInitialized);
+
+      const campaign = ctx.borrow<PhotonCampaign>(campaignAddr, "PhotonCampaign");
+      const participation = ctx.borrow<CampaignParticipation>(participant, "CampaignParticipation");
+
+      let claimable = sub(participation.rewards_earned, participation.rewards_claimed);
+      ctx.check(claimable > BigInt(0), abortCodes.noRewardsToClaim);
+      if (add(participation.rewards_claimed, claimable) > campaign.per_participant_cap) {
+        claimable = sub(campaign.per_participant_cap, participation.rewards_claimed);
+      }
+      const remainingBudget = sub(campaign.total_budget, campaign.distributed_amount);
+      if (claimable > remainingBudget) claimable = remainingBudget;
+      ctx.check(claimable > BigInt(0), abortCodes.noRewardsToClaim);
+
+      participation.rewards_claimed = add(participation.rewards_claimed, claimable);
+      campaign.distributed_amount = add(campaign.distributed_amount, claimable);
+      if (participation.rewards_earned === participation.rewards_claimed) {
+        campaign.claimed_participants = add(campaign.claimed_participants, BigInt(1));
+      }
+      campaign.updated_at = ctx.now;
+
+      const rewards = ctx.borrow<EmployeeRewards>(participant, "EmployeeRewards");
+      rewards.total_pat_earned = add(rewards.total_pat_earned, claimable);
+      rewards.total_pat_claimed = add(rewards.total_pat_claimed, claimable);
+      rewards.last_activity_timestamp = ctx.now;
+
+      const registry = ctx.borrow<RewardsRegistry>(registryAddr, "RewardsRegistry");
+      registry.total_pat_distributed = add(registry.total_pat_distributed, claimable);
+
+      ctx.emit("RewardClaimedEvent", {
+        campaign_id: campaign.campaign_id,
+        participant,
+        amount: claimable,
+        reward_type: campaign.reward_type,
+        timestamp: ctx.now,
+      });
+    },
+
+    record_daily_checkin(ctx, args) {
+      args.done();
+      const employee = ctx.sender;
+      const currentDay = div(ctx.now, SECONDS_PER_DAY);
+
+      ctx.check(ctx.exists(employee, "StreakTracker"), abortCodes.notInitialized);
+      const tracker = ctx.borrow<StreakTracker>(employee, "StreakTracker");
+      if (currentDay === tracker.last_checkin_day) return;
+
+      if (currentDay === tracker.last_checkin_day + BigInt(1)) {
+        tracker.current_streak = add(tracker.current_streak, BigInt(1));
+        if (tracker.current_streak > tracker.longest_streak) tracker.longest_streak = tracker.current_streak;
+      } else {
+        tracker.streak_breaks = add(tracker.streak_breaks, BigInt(1));
+        tracker.current_streak = BigInt(1);
+      }
+      tracker.last_checkin_day = currentDay;
+
+      const streakReward = mul(STREAK_REWARDS.get(tracker.current_streak) ?? BigInt(0), PAT_PRECISION);
+      if (streakReward === BigInt(0)) return;
+
+      tracker.streak_rewards_earned = add(tracker.streak_rewards_earned, streakReward);
+      if (ctx.exists(employee, "EmployeeRewards")) {
+        const rewards = ctx.borrow<EmployeeRewards>(employee, "EmployeeRewards");
+        rewards.pending_pat = add(rewards.pending_pat, streakReward);
+        rewards.current_streak = tracker.current_streak;
+        if (tracker.current_streak > rewards.longest_streak) rewards.longest_streak = tracker.current_streak;
+      }
+      ctx.emit("StreakRewardEvent", {
+        employee,
+        streak_length: tracker.current_streak,
+        reward_amount: streakReward,
+        timestamp: ctx.now,
+      });
+    },
+
+    award_badge(ctx, args) {
+      const [employee, badgeId, name, description, campaignId, rarity, registryAddr] = [
+        args.address(),
+        args.u64(),
+        args.string(),
+        args.string(),
+        args.u64(),
+        args.u8(),
+        args.address(),
+      ];
+      args.done();
+
+      managerRegistry(ctx, registryAddr);
+      ctx.check(ctx.exists(employee, "EmployeeRewards"), abortCodes.notInitialized);
+      ctx.check(rarity >= 1 && rarity <= 5, abortCodes.invalidRarity);
+
+      const rewards = ctx.borrow<EmployeeRewards>(employee, "EmployeeRewards");
+      rewards.badges.push({
+        badge_id: badgeId,
+        name,
+        description,
+        campaign_id: campaignId,
+        earned_at: ctx.now,
+        rarity,
+      });
+      rewards.engagement_score = add(rewards.engagement_score, BigInt(rarity * 10));
+
+      ctx.emit("BadgeEarnedEvent", {
+        employee,
+        badge_id: badgeId,
+        badge_name: name,
+        campaign_id: campaignId,
+        timestamp: ctx.now,
+      });
+    },
+
+    trigger_photon_event(ctx, args) {
+      const [campaignAddr, participant, eventType, eventData, registryAddr] = [
+        args.address(),
+        args.address(),
+        args.string(),
+        args.string(),
+        args.address(),
+      ];
+      args.done();
+
+      const registry = ctx.borrow<RewardsRegistry>(registryAddr, "RewardsRegistry");
+      ctx.check(registry.photon_integration_enabled, abortCodes.photonIntegrationDisabled);
+      ctx.check(registry.authorized_managers.includes(ctx.sender), abortCodes.notAuthorized);
+
+      const campaign = campaignAt(ctx, campaignAddr);
+      ctx.check(campaign.status === CAMPAIGN_STATUS_ACTIVE, abortCodes.campaignNotActive);
+
+      ctx.emit("PhotonEventTriggeredEvent", {
+        campaign_id: campaign.campaign_id,
+        event_type: eventType,
+        participant,
+        event_data: eventData,
+        timestamp: ctx.now,
+      });
+    },
+
+    update_photon_settings(ctx, args) {
+      const [registryAddr, enabled, newEndpoint] = [args.address(), args.bool(), args.string()];
+      args.done();
+
+      const registry = managerRegistry(ctx, registryAddr);
+      registry.photon_integration_enabled = enabled;
+      registry.photon_api_endpoint = newEndpoint;
+    },
+  },
+
+  view: {
+    get_campaign_info(ctx, args) {
+      const campaignAddr = args.address();
+      args.done();
+      const campaign = ctx.borrow<PhotonCampaign>(campaignAddr, "PhotonCampaign");
+      return [
+        campaign.campaign_id,
+        campaign.employer,
+        campaign.name,
+        campaign.status,
+        campaign.total_budget,
+        campaign.distributed_amount,
+        campaign.total_participants,
+      ];
+    },
+
+    get_employee_rewards_summary(ctx, args) {
+      const employee = args.address();
+      args.done();
+      const rewards = ctx.borrow<EmployeeRewards>(employee, "EmployeeRewards");
+      return [
+        rewards.total_pat_earned,
+        rewards.total_pat_claimed,
+        rewards.pending_pat,
+        rewards.current_streak,
+        rewards.campaigns_participated,
+        rewards.engagement_score,
+      ];
+    },
+
+    get_participation_info(ctx, args) {
+      const participant = args.address();
+      args.done();
+      const participation = ctx.borrow<CampaignParticipation>(participant, "CampaignParticipation");
+      return [
+        participation.campaign_id,
+        participation.current_progress,
+        participation.current_tier,
+        participation.rewards_earned,
+        participation.rewards_claimed,
+      ];
+    },
+
+    get_streak_info(ctx, args) {
+      const employee = args.address();
+      args.done();
+      const tracker = ctx.borrow<StreakTracker>(employee, "StreakTracker");
+      return [tracker.current_streak, tracker.longest_streak, tracker.streak_rewards_earned];
+    },
+
+    get_registry_stats(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      const registry = ctx.borrow<RewardsRegistry>(registryAddr, "RewardsRegistry");
+      return [
+        registry.total_campaigns,
+        registry.total_pat_distributed,
+        registry.total_unique_participants,
+        registry.active_campaigns,
+      ];
+    },
+
+    is_photon_enabled(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      return [ctx.borrow<RewardsRegistry>(registryAddr, "RewardsRegistry").photon_integration_enabled];
+    },
+  },
+};
@@ -0,0 +1,572 @@
+/**
+ * Protocol Simulator - wage_streaming
+ *
+ * Per-second accrual with pauses, escrowed funds (APT or a fungible asset), the
+ * protocol fee and the registry counters, following `wage_streaming.move`.
+ */
+
+import { normalizeAddress } from "../../protocol/index.js";
+import { abortCodes } from "../abortCodes.js";
+import {
+  ArgReader,
+  Coin,
+  EventHandle,
+  ExecutionContext,
+  ExtendRef,
+  ModuleHandlers,
+  add,
+  div,
+  mul,
+  sub,
+} from "../runtime.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface WageStream {
+  stream_id: bigint;
+  employer: string;
+  employee: string;
+  rate_per_second: bigint;
+  total_deposited: bigint;
+  total_withdrawn: bigint;
+  start_time: bigint;
+  end_time: bigint;
+  last_withdrawal_time: bigint;
+  pause_time: bigint;
+  total_pause_duration: bigint;
+  status: number;
+  job_description: string;
+  compliance_verified: boolean;
+}
+
+interface StreamRegistry {
+  next_stream_id: bigint;
+  total_value_locked: bigint;
+  active_streams_count: bigint;
+  completed_streams_count: bigint;
+  fee_rate_bps: bigint;
+  accumulated_fees: bigint;
+  admin: string;
+  is_paused: boolean;
+  stream_created_events: EventHandle;
+  withdrawal_events: EventHandle;
+  status_change_events: EventHandle;
+}
+
+interface StreamStore {
+  streams: WageStream[];
+}
+
+interface StreamEscrow {
+  funds: Coin;
+}
+
+/**
+ * `Table<u64, Object<Metadata>>` entries, in insertion order
+ */
+interface EmployerAssetEscrow {
+  extend_ref: ExtendRef;
+  stream_assets: { key: bigint; value: { inner: string } }[];
+}
+
+interface EmployeeStreams {
+  active_stream_ids: bigint[];
+  total_earnings: bigint;
+  total_withdrawals: bigint;
+  last_activity: bigint;
+}
+
+interface EmployerStreams {
+  stream_ids: bigint[];
+  total_allocated: bigint;
+  total_disbursed: bigint;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PRECISION = BigInt(100_000_000);
+const MIN_STREAM_DURATION = BigInt(3600);
+const MAX_STREAMS_PER_EMPLOYEE = 10;
+const MAX_STREAM_DURATION = BigInt(63072000);
+const MAX_FEE_RATE_BPS = BigInt(500);
+
+const STATUS_ACTIVE = 1;
+const STATUS_PAUSED = 2;
+const STATUS_COMPLETED = 3;
+const STATUS_TERMINATED = 4;
+
+const ZERO_ADDRESS = normalizeAddress("0x0");
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * `calculate_withdrawable_internal`: accrued minus withdrawn at `now`
+ */
+export const calculateWithdrawable = (stream: WageStream, now: bigint): bigint => {
+  if (stream.status === STATUS_COMPLETED || stream.status === STATUS_TERMINATED) return BigInt(0);
+
+  let effectiveTime: bigint;
+  if (stream.status === STATUS_PAUSED) {
+    effectiveTime = stream.pause_time;
+  } else if (now > stream.end_time) {
+    effectiveTime = stream.end_time;
+  } else {
+    effectiveTime = now;
+  }
+  if (effectiveTime <= stream.start_time) return BigInt(0);
+
+  const elapsed = sub(effectiveTime, stream.start_time, stream.total_pause_duration);
+  let accrued = div(mul(elapsed, stream.rate_per_second), PRECISION);
+  if (accrued > stream.total_deposited) accrued = stream.total_deposited;
+
+  return accrued > stream.total_withdrawn ? accrued - stream.total_withdrawn : BigInt(0);
+};
+
+const registryOf = (ctx: ExecutionContext, registryAddr: string): StreamRegistry => {
+  ctx.check(ctx.exists(registryAddr, "StreamRegistry"), abortCodes.notInitialized);
+  return ctx.borrow<StreamRegistry>(registryAddr, "StreamRegistry");
+};
+
+const getStream = (ctx: ExecutionContext, registryAddr: string, streamId: bigint): WageStream => {
+  const store = ctx.borrow<StreamStore>(registryAddr, "StreamStore");
+  const stream = store.streams.find((candidate) => candidate.stream_id === streamId);
+  return stream ?? ctx.abort(abortCodes.streamNotFound);
+};
+
+const emitStatusChange = (
+  ctx: ExecutionContext,
+  registry: StreamRegistry,
+  stream: WageStream,
+  oldStatus: number,
+  changedBy: string
+): void => {
+  ctx.emitEvent(registry.status_change_events, "StatusChangeEvent", {
+    stream_id: stream.stream_id,
+    old_status: oldStatus,
+    new_status: stream.status,
+    timestamp: ctx.now,
+    changed_by: changedBy,
+  });
+};
+
+/**
+ * `stream_asset`: metadata address of a fungible asset stream, null for APT streams
+ */
+const streamAsset = (ctx: ExecutionContext, employer: string, streamId: bigint): string | null => {
+  if (!ctx.exists(employer, "EmployerAssetEscrow")) return null;
+  const escrow = ctx.borrow<EmployerAssetEscrow>(employer, "EmployerAssetEscrow");
+  return escrow.stream_assets.find((entry) => entry.key === streamId)?.value.inner ?? null;
+};
+
+/**
+ * `release_funds`: pay from StreamEscrow (updating TVL) or the employer's asset escrow
+ */
+const releaseFunds = (
+  ctx: ExecutionContext,
+  registryAddr: string,
+  registry: StreamRegistry,
+  stream: WageStream,
+  recipient: string,
+  amount: bigint
+): void => {
+  const asset = streamAsset(ctx, stream.employer, stream.stream_id);
+  if (asset === null) {
+    registry.total_value_locked = sub(registry.total_value_locked, amount);
+    const escrow = ctx.borrow<StreamEscrow>(registryAddr, "StreamEscrow");
+    ctx.depositCoin(recipient, ctx.extract(escrow.funds, amount));
+  } else {
+    const vault = ctx.borrow<EmployerAssetEscrow>(stream.employer, "EmployerAssetEscrow").extend_ref.self;
+    ctx.depositAsset(recipient, ctx.withdrawAsset(vault, asset, amount));
+  }
+};
+
+/**
+ * Pay out what has accrued and close the stream once fully withdrawn
+ */
+const payOut = (
+  ctx: ExecutionContext,
+  registryAddr: string,
+  registry: StreamRegistry,
+  stream: WageStream,
+  employee: string,
+  withdrawable: bigint
+): void => {
+  stream.total_withdrawn = add(stream.total_withdrawn, withdrawable);
+  stream.last_withdrawal_time = ctx.now;
+
+  if (stream.total_withdrawn >= stream.total_deposited) {
+    stream.status = STATUS_COMPLETED;
+    registry.active_streams_count = sub(registry.active_streams_count, BigInt(1));
+    registry.completed_streams_count = add(registry.completed_streams_count, BigInt(1));
+  }
+  releaseFunds(ctx, registryAddr, registry, stream, employee, withdrawable);
+
+  if (ctx.exists(employee, "EmployeeStreams")) {
+    const employeeData = ctx.borrow<EmployeeStreams>(employee, "EmployeeStreams");
+    employeeData.total_withdrawals = add(employeeData.total_withdrawals, withdrawable);
+    employeeData.last_activity = ctx.now;
+  }
+};
+
+/**
+ * `create_stream` and `create_stream_with_asset`, which only differ in how the stream is funded
+ */
+const createStream = (ctx: ExecutionContext, args: ArgReader, withAsset: boolean): void => {
+  const [registryAddr, employee] = [args.address(), args.address()];
+  const asset = withAsset ? args.object() : null;
+  const [totalAmount, durationSeconds, jobDescription] = [args.u64(), args.u64(), args.string()];
+  args.done();
+  const employer = ctx.sender;
+
+  const registry = registryOf(ctx, registryAddr);
+  ctx.check(!registry.is_paused, abortCodes.protocolPaused);
+  ctx.check(employee !== employer, abortCodes.invalidAddress);
+  ctx.check(employee !== ZERO_ADDRESS, abortCodes.invalidAddress);
+  ctx.check(totalAmount > BigInt(0), abortCodes.invalidAmount);
+  ctx.check(totalAmount >= PRECISION, abortCodes.amountTooSmall);
+  ctx.check(durationSeconds >= MIN_STREAM_DURATION, abortCodes.durationTooShort);
+  ctx.check(durationSeconds <= MAX_STREAM_DURATION, abortCodes.durationTooLong);
+
+  if (ctx.exists(employee, "EmployeeStreams")) {
+    const employeeStreams = ctx.borrow<EmployeeStreams>(employee, "EmployeeStreams");
+    ctx.check(employeeStreams.active_stream_ids.length < MAX_STREAMS_PER_EMPLOYEE, abortCodes.tooManyStreams);
+  }
+
+  const ratePerSecond = div(mul(totalAmount, PRECISION), durationSeconds);
+  ctx.check(ratePerSecond > BigInt(0), abortCodes.rateTooLow);
+
+  const endTime = add(ctx.now, durationSeconds);
+  const feeAmount = div(mul(totalAmount, registry.fee_rate_bps), BigInt(10000));
+  const netAmount = sub(totalAmount, feeAmount);
+
+  const streamId = registry.next_stream_id;
+
+  if (asset === null) {
+    const payment = ctx.withdrawCoin(employer, totalAmount);
+    if (feeAmount > BigInt(0)) {
+      ctx.depositCoin(registry.admin, ctx.extract(payment, feeAmount));
+      registry.accumulated_fees = add(registry.accumulated_fees, feeAmount);
+    }
+    ctx.merge(ctx.borrow<StreamEscrow>(registryAddr, "StreamEscrow").funds, payment);
+    // Registry TVL and fees are denominated in APT
+    registry.total_value_locked = add(registry.total_value_locked, netAmount);
+  } else {
+    const payment = ctx.withdrawAsset(employer, asset, totalAmount);
+    if (feeAmount > BigInt(0)) {
+      ctx.depositAsset(registry.admin, ctx.extractAsset(payment, feeAmount));
+    }
+    if (!ctx.exists(employer, "EmployerAssetEscrow")) {
+      ctx.moveTo<EmployerAssetEscrow>(employer, "EmployerAssetEscrow", {
+        extend_ref: ctx.createObject(registryAddr),
+        stream_assets: [],
+      });
+    }
+    const assetEscrow = ctx.borrow<EmployerAssetEscrow>(employer, "EmployerAssetEscrow");
+    ctx.depositAsset(assetEscrow.extend_ref.self, payment);
+    assetEscrow.stream_assets.push({ key: streamId, value: { inner: asset } });
+  }
+
+  ctx.borrow<StreamStore>(registryAddr, "StreamStore").streams.push({
+    stream_id: streamId,
+    employer,
+    employee,
+    rate_per_second: ratePerSecond,
+    total_deposited: netAmount,
+    total_withdrawn: BigInt(0),
+    start_time: ctx.now,
+    end_time: endTime,
+    last_withdrawal_time: ctx.now,
+    pause_time: BigInt(0),
+    total_pause_duration: BigInt(0),
+    status: STATUS_ACTIVE,
+    job_description: jobDescription,
+    compliance_verified: false,
+  });
+
+  registry.next_stream_id = add(streamId, BigInt(1));
+  registry.active_streams_count = add(registry.active_streams_count, BigInt(1));
+
+  if (!ctx.exists(employer, "EmployerStreams")) {
+    ctx.moveTo<EmployerStreams>(employer, "EmployerStreams", {
+      stream_ids: [],
+      total_allocated: BigInt(0),
+      total_disbursed: BigInt(0),
+    });
+  }
+  const employerStreams = ctx.borrow<EmployerStreams>(employer, "EmployerStreams");
+  employerStreams.stream_ids.push(streamId);
+  employerStreams.total_allocated = add(employerStreams.total_allocated, netAmount);
+
+  // The contract has no way to create EmployeeStreams for the employee,
+  // so it only tracks streams of employees that already have one
+  if (ctx.exists(employee, "EmployeeStreams")) {
+    ctx.borrow<EmployeeStreams>(employee, "EmployeeStreams").active_stream_ids.push(streamId);
+  }
+
+  ctx.emitEvent(registry.stream_created_events, "StreamCreatedEvent", {
+    stream_id: streamId,
+    employer,
+    employee,
+    rate_per_second: ratePerSecond,
+    total_amount: netAmount,
+    start_time: ctx.now,
+    end_time: endTime,
+  });
+};
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export const wageStreaming: ModuleHandlers = {
+  entry: {
+    initialize(ctx, args) {
+      const feeRateBps = args.u64();
+      args.done();
+      const admin = ctx.sender;
+
+      ctx.check(!ctx.exists(admin, "StreamRegistry"), abortCodes.alreadyInitialized);
+      ctx.check(feeRateBps <= MAX_FEE_RATE_BPS, abortCodes.invalidAmount);
+
+      ctx.moveTo<StreamRegistry>(admin, "StreamRegistry", {
+        next_stream_id: BigInt(1),
+        total_value_locked: BigInt(0),
+        active_streams_count: BigInt(0),
+        completed_streams_count: BigInt(0),
+        fee_rate_bps: feeRateBps,
+        accumulated_fees: BigInt(0),
+        admin,
+        is_paused: false,
+        stream_created_events: ctx.newEventHandle(admin),
+        withdrawal_events: ctx.newEventHandle(admin),
+        status_change_events: ctx.newEventHandle(admin),
+      });
+      ctx.moveTo<StreamStore>(admin, "StreamStore", { streams: [] });
+      ctx.moveTo<StreamEscrow>(admin, "StreamEscrow", { funds: ctx.zeroCoin() });
+    },
+
+    create_stream(ctx, args) {
+      createStream(ctx, args, false);
+    },
+
+    create_stream_with_asset(ctx, args) {
+      createStream(ctx, args, true);
+    },
+
+    withdraw_wages(ctx, args) {
+      const [registryAddr, streamId] = [args.address(), args.u64()];
+      args.done();
+      const employee = ctx.sender;
+
+      const registry = registryOf(ctx, registryAddr);
+      ctx.check(!registry.is_paused, abortCodes.protocolPaused);
+
+      const stream = getStream(ctx, registryAddr, streamId);
+      ctx.check(stream.employee === employee, abortCodes.unauthorized);
+      ctx.check(stream.status === STATUS_ACTIVE || stream.status === STATUS_PAUSED, abortCodes.streamNotActive);
+
+      const withdrawable = calculateWithdrawable(stream, ctx.now);
+      ctx.check(withdrawable > BigInt(0), abortCodes.nothingToWithdraw);
+
+      payOut(ctx, registryAddr, registry, stream, employee, withdrawable);
+
+      ctx.emitEvent(registry.withdrawal_events, "WithdrawalEvent", {
+        stream_id: streamId,
+        employee,
+        amount: withdrawable,
+        timestamp: ctx.now,
+        remaining_balance: sub(stream.total_deposited, stream.total_withdrawn),
+      });
+    },
+
+    withdraw_all(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      const employee = ctx.sender;
+
+      ctx.check(ctx.exists(employee, "EmployeeStreams"), abortCodes.noActiveStreams);
+      const streamIds = [...ctx.borrow<EmployeeStreams>(employee, "EmployeeStreams").active_stream_ids];
+
+      // withdraw_wages_internal: silently skips streams it cannot pay out
+      for (const streamId of streamIds) {
+        const registry = ctx.borrow<StreamRegistry>(registryAddr, "StreamRegistry");
+        if (registry.is_paused) return;
+
+        const store = ctx.borrow<StreamStore>(registryAddr, "StreamStore");
+        const stream = store.streams.find((candidate) => candidate.stream_id === streamId);
+        if (!stream || stream.employee !== employee) continue;
+        if (stream.status !== STATUS_ACTIVE && stream.status !== STATUS_PAUSED) continue;
+
+        const withdrawable = calculateWithdrawable(stream, ctx.now);
+        if (withdrawable === BigInt(0)) continue;
+
+        payOut(ctx, registryAddr, registry, stream, employee, withdrawable);
+      }
+    },
+
+    pause_stream(ctx, args) {
+      const [registryAddr, streamId] = [args.address(), args.u64()];
+      args.done();
+      const employer = ctx.sender;
+
+      const registry = registryOf(ctx, registryAddr);
+      const stream = getStream(ctx, registryAddr, streamId);
+      ctx.check(stream.employer === employer, abortCodes.unauthorized);
+      ctx.check(stream.status === STATUS_ACTIVE, abortCodes.streamNotActive);
+
+      const oldStatus = stream.status;
+      stream.status = STATUS_PAUSED;
+      stream.pause_time = ctx.now;
+
+      emitStatusChange(ctx, registry, stream, oldStatus, employer);
+    },
+
+    resume_stream(ctx, args) {
+      const [registryAddr, streamId] = [args.address(), args.u64()];
+      args.done();
+      const employer = ctx.sender;
+
+      const registry = registryOf(ctx, registryAddr);
+      const stream = getStream(ctx, registryAddr, streamId);
+      ctx.check(stream.employer === employer, abortCodes.unauthorized);
+      ctx.check(stream.status === STATUS_PAUSED, abortCodes.streamNotPaused);
+
+      const pauseDuration = sub(ctx.now, stream.pause_time);
+      const oldStatus = stream.status;
+      stream.status = STATUS_ACTIVE;
+      stream.total_pause_duration = add(stream.total_pause_duration, pauseDuration);
+      stream.pause_time = BigInt(0);
+      stream.end_time = add(stream.end_time, pauseDuration);
+
+      emitStatusChange(ctx, registry, stream, oldStatus, employer);
+    },
+
+    terminate_stream(ctx, args) {
+      const [registryAddr, streamId] = [args.address(), args.u64()];
+      args.done();
+      const caller = ctx.sender;
+
+      const registry = registryOf(ctx, registryAddr);
+      const stream = getStream(ctx, registryAddr, streamId);
+      ctx.check(stream.employer === caller || registry.admin === caller, abortCodes.unauthorized);
+      ctx.check(stream.status === STATUS_ACTIVE || stream.status === STATUS_PAUSED, abortCodes.invalidStatus);
+
+      const owedToEmployee = calculateWithdrawable(stream, ctx.now);
+      const remaining = sub(stream.total_deposited, stream.total_withdrawn, owedToEmployee);
+      const oldStatus = stream.status;
+
+      stream.status = STATUS_TERMINATED;
+      stream.end_time = ctx.now;
+
+      if (owedToEmployee > BigInt(0)) {
+        releaseFunds(ctx, registryAddr, registry, stream, stream.employee, owedToEmployee);
+        stream.total_withdrawn = add(stream.total_withdrawn, owedToEmployee);
+      }
+      if (remaining > BigInt(0)) {
+        releaseFunds(ctx, registryAddr, registry, stream, stream.employer, remaining);
+        if (ctx.exists(stream.employer, "EmployerStreams")) {
+          const employerStreams = ctx.borrow<EmployerStreams>(stream.employer, "EmployerStreams");
+          employerStreams.total_allocated = sub(employerStreams.total_allocated, remaining);
+        }
+      }
+
+      registry.active_streams_count = sub(registry.active_streams_count, BigInt(1));
+
+      emitStatusChange(ctx, registry, stream, oldStatus, caller);
+    },
+
+    update_fee_rate(ctx, args) {
+      const [registryAddr, newFeeRateBps] = [args.address(), args.u64()];
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      ctx.check(registry.admin === ctx.sender, abortCodes.unauthorized);
+      ctx.check(newFeeRateBps <= MAX_FEE_RATE_BPS, abortCodes.invalidAmount);
+      registry.fee_rate_bps = newFeeRateBps;
+    },
+
+    emergency_pause(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      ctx.check(registry.admin === ctx.sender, abortCodes.unauthorized);
+      registry.is_paused = true;
+    },
+
+    emergency_resume(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      ctx.check(registry.admin === ctx.sender, abortCodes.unauthorized);
+      registry.is_paused = false;
+    },
+
+    transfer_admin(ctx, args) {
+      const [registryAddr, newAdmin] = [args.address(), args.address()];
+      args.done();
+
+      const registry = registryOf(ctx, registryAddr);
+      ctx.check(registry.admin === ctx.sender, abortCodes.unauthorized);
+      ctx.check(newAdmin !== ZERO_ADDRESS, abortCodes.invalidAddress);
+      registry.admin = newAdmin;
+    },
+  },
+
+  view: {
+    get_withdrawable_balance(ctx, args) {
+      const [registryAddr, streamId] = [args.address(), args.u64()];
+      args.done();
+      return [calculateWithdrawable(getStream(ctx, registryAddr, streamId), ctx.now)];
+    },
+
+    get_stream_info(ctx, args) {
+      const [registryAddr, streamId] = [args.address(), args.u64()];
+      args.done();
+      const stream = getStream(ctx, registryAddr, streamId);
+      return [
+        stream.employer,
+        stream.employee,
+        stream.rate_per_second,
+        stream.total_deposited,
+        stream.total_withdrawn,
+        stream.start_time,
+        stream.end_time,
+        stream.status,
+      ];
+    },
+
+    get_stream_asset(ctx, args) {
+      const [registryAddr, streamId] = [args.address(), args.u64()];
+      args.done();
+      const asset = streamAsset(ctx, getStream(ctx, registryAddr, streamId).employer, streamId);
+      return [{ vec: asset === null ? [] : [{ inner: asset }] }];
+    },
+
+    get_registry_stats(ctx, args) {
+      const registryAddr = args.address();
+      args.done();
+      const registry = ctx.borrow<StreamRegistry>(registryAddr, "StreamRegistry");
+      return [
+        registry.total_value_locked,
+        registry.active_streams_count,
+        registry.completed_streams_count,
+        registry.accumulated_fees,
+      ];
+    },
+
+    has_active_streams(ctx, args) {
+      const employee = args.address();
+      args.done();
+      if (!ctx.exists(employee, "EmployeeStreams")) return [false];
+      return [ctx.borrow<EmployeeStreams>(employee, "EmployeeStreams").active_stream_ids.length > 0];
+    },
+  },
+};
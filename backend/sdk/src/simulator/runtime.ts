@@ -0,0 +1,469 @@
+/**
+ * Protocol Simulator - execution runtime
+ *
+ * The pieces of the Move VM and framework the protocol modules rely on:
+ * checked u64 arithmetic, argument decoding, `signer`, aborts, event handles,
+ * module events, `Coin<AptosCoin>`, objects and primary fungible stores.
+ */
+
+import { ModuleId, MoveArgument, ProtocolModules, normalizeAddress } from "../protocol/index.js";
+import { GlobalStorage, VmError } from "./storage.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface Coin {
+  value: bigint;
+}
+
+/**
+ * `0x1::fungible_asset::FungibleAsset`
+ */
+export interface FungibleAsset {
+  metadata: string;
+  amount: bigint;
+}
+
+/**
+ * `0x1::object::ExtendRef`
+ */
+export interface ExtendRef {
+  self: string;
+}
+
+export interface EventHandle {
+  counter: bigint;
+  guid: { id: { addr: string; creation_num: bigint } };
+}
+
+/**
+ * An event emitted during execution, on a handle or as a module event
+ */
+export interface EmittedEvent {
+  type: string;
+  data: object;
+  /** Handle owner, or `0x0` for module events */
+  accountAddress: string;
+  creationNumber: bigint;
+  sequenceNumber: bigint;
+}
+
+/**
+ * `0x1::account::Account`, reduced to the counters the simulator needs
+ */
+export interface AccountResource {
+  sequence_number: bigint;
+  guid_creation_num: bigint;
+}
+
+export type EntryHandler = (ctx: ExecutionContext, args: ArgReader) => void;
+export type ViewHandler = (ctx: ExecutionContext, args: ArgReader) => unknown[];
+
+/**
+ * Entry and view functions of one simulated module, keyed by Move function name
+ */
+export interface ModuleHandlers {
+  entry: Record<string, EntryHandler>;
+  view: Record<string, ViewHandler>;
+}
+
+export const ACCOUNT_TYPE = "0x1::account::Account";
+export const APT_COIN_TYPE = "0x1::aptos_coin::AptosCoin";
+export const APT_COIN_STORE_TYPE = `0x1::coin::CoinStore<${APT_COIN_TYPE}>`;
+
+export const OBJECT_CORE_TYPE = "0x1::object::ObjectCore";
+
+/**
+ * Primary store of `metadata` for an account. The framework keeps it at an address
+ * derived from the owner and asset; the simulator keeps it on the owner under this type.
+ */
+export const primaryStoreType = (metadata: string): string =>
+  `0x1::fungible_asset::FungibleStore<${normalizeAddress(metadata)}>`;
+
+// Simulated objects get sequential addresses in this range instead of hashed ones
+const OBJECT_ADDRESS_PREFIX = "0xfe";
+
+const MAX_U64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+const ZERO_ADDRESS = normalizeAddress("0x0");
+
+// ============================================
+// ARITHMETIC
+// ============================================
+
+const checked = (value: bigint): bigint => {
+  if (value < BigInt(0) || value > MAX_U64) throw new VmError("ARITHMETIC_ERROR");
+  return value;
+};
+
+/** u64 `a + b`, aborting on overflow like the VM */
+export const add = (...values: bigint[]): bigint => checked(values.reduce((sum, value) => sum + value, BigInt(0)));
+
+/** u64 `a - b`, aborting on underflow like the VM */
+export const sub = (a: bigint, ...values: bigint[]): bigint => values.reduce((rest, value) => checked(rest - value), a);
+
+/** u64 `a * b`, aborting on overflow like the VM */
+export const mul = (a: bigint, b: bigint): bigint => checked(a * b);
+
+/** u64 `a / b` (truncating), aborting on division by zero like the VM */
+export const div = (a: bigint, b: bigint): bigint => {
+  if (b === BigInt(0)) throw new VmError("ARITHMETIC_ERROR");
+  return a / b;
+};
+
+// ============================================
+// ARGUMENTS
+// ============================================
+
+/**
+ * Reads entry/view arguments in declaration order, with the coercions the
+ * ts-sdk applies to simple argument values
+ */
+export class ArgReader {
+  private index = 0;
+
+  constructor(
+    private readonly functionId: string,
+    private readonly values: MoveArgument[]
+  ) {}
+
+  private next(expected: string): MoveArgument {
+    if (this.index >= this.values.length) {
+      throw new Error(`${this.functionId}: missing argument ${this.index} (${expected})`);
+    }
+    return this.values[this.index++];
+  }
+
+  private invalid(expected: string, value: MoveArgument): never {
+    throw new Error(`${this.functionId}: argument ${this.index - 1} is not a valid ${expected}: ${String(value)}`);
+  }
+
+  private integer(expected: string, max: bigint): bigint {
+    const value = this.next(expected);
+    if (
+      (typeof value !== "number" || !Number.isInteger(value)) &&
+      typeof value !== "bigint" &&
+      (typeof value !== "string" || !/^\d+$/.test(value))
+    ) {
+      this.invalid(expected, value);
+    }
+    const parsed = BigInt(value);
+    if (parsed < BigInt(0) || parsed > max) this.invalid(expected, value);
+    return parsed;
+  }
+
+  u64(): bigint {
+    return this.integer("u64", MAX_U64);
+  }
+
+  u8(): number {
+    return Number(this.integer("u8", BigInt(255)));
+  }
+
+  bool(): boolean {
+    const value = this.next("bool");
+    if (typeof value === "boolean") return value;
+    if (value === "true" || value === "false") return value === "true";
+    return this.invalid("bool", value);
+  }
+
+  address(): string {
+    const value = this.next("address");
+    if (typeof value !== "string" || !/^(0x)?[0-9a-fA-F]{1,64}$/.test(value)) this.invalid("address", value);
+    return normalizeAddress(value);
+  }
+
+  /**
+   * `Object<T>` arguments travel as the object address
+   */
+  object(): string {
+    return this.address();
+  }
+
+  string(): string {
+    const value = this.next("0x1::string::String");
+    if (typeof value !== "string") this.invalid("0x1::string::String", value);
+    return value;
+  }
+
+  /**
+   * `vector<u8>` as a 0x-prefixed hex string (its fullnode JSON form)
+   */
+  bytes(): string {
+    const value = this.next("vector<u8>");
+    let data: Uint8Array;
+    if (value instanceof Uint8Array) {
+      data = value;
+    } else if (value instanceof ArrayBuffer) {
+      data = new Uint8Array(value);
+    } else if (Array.isArray(value) && value.every((byte) => typeof byte === "number" && byte >= 0 && byte < 256)) {
+      data = Uint8Array.from(value as number[]);
+    } else if (typeof value === "string" && /^0x([0-9a-fA-F]{2})*$/.test(value)) {
+      return value.toLowerCase();
+    } else if (typeof value === "string") {
+      data = new TextEncoder().encode(value);
+    } else {
+      return this.invalid("vector<u8>", value);
+    }
+    return `0x${Array.from(data, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+  }
+
+  addresses(): string[] {
+    const value = this.next("vector<address>");
+    if (!Array.isArray(value)) this.invalid("vector<address>", value);
+    return new ArgReader(this.functionId, value as MoveArgument[]).rest((reader) => reader.address());
+  }
+
+  private rest<T>(read: (reader: ArgReader) => T): T[] {
+    const items: T[] = [];
+    while (this.index < this.values.length) items.push(read(this));
+    return items;
+  }
+
+  /**
+   * Reject extra arguments once the signature has been read
+   */
+  done(): void {
+    if (this.index !== this.values.length) {
+      throw new Error(`${this.functionId}: expected ${this.index} arguments, got ${this.values.length}`);
+    }
+  }
+}
+
+// ============================================
+// EXECUTION CONTEXT
+// ============================================
+
+/**
+ * State of one entry or view function call
+ */
+export class ExecutionContext {
+  readonly events: EmittedEvent[] = [];
+
+  constructor(
+    readonly storage: GlobalStorage,
+    readonly modules: ProtocolModules,
+    readonly moduleId: ModuleId,
+    /** `timestamp::now_seconds()` */
+    readonly now: bigint,
+    private readonly signerAddress: string | null
+  ) {}
+
+  /**
+   * `signer::address_of` of the transaction sender
+   */
+  get sender(): string {
+    if (!this.signerAddress) throw new Error(`${this.moduleId}: view functions have no signer`);
+    return this.signerAddress;
+  }
+
+  /**
+   * Fully qualified type of a struct in this module
+   */
+  type(name: string): string {
+    return `${this.moduleId}::${name}`;
+  }
+
+  exists(address: string, name: string): boolean {
+    return this.storage.exists(address, this.type(name));
+  }
+
+  borrow<T extends object>(address: string, name: string): T {
+    return this.storage.borrow<T>(address, this.type(name));
+  }
+
+  moveTo<T extends object>(address: string, name: string, resource: T): void {
+    this.storage.moveTo(address, this.type(name), resource);
+  }
+
+  abort(code: number): never {
+    throw new VmError(`Move abort in ${this.moduleId}: 0x${code.toString(16)}`);
+  }
+
+  check(condition: boolean, code: number): void {
+    if (!condition) this.abort(code);
+  }
+
+  // ------------------------------------------
+  // Events
+  // ------------------------------------------
+
+  /**
+   * `account::new_event_handle` on `owner`
+   */
+  newEventHandle(owner: string): EventHandle {
+    const account = this.account(owner);
+    const creationNum = account.guid_creation_num;
+    account.guid_creation_num = creationNum + BigInt(1);
+    return { counter: BigInt(0), guid: { id: { addr: normalizeAddress(owner), creation_num: creationNum } } };
+  }
+
+  /**
+   * `event::emit_event` of this module's `name` struct
+   */
+  emitEvent(handle: EventHandle, name: string, data: object): void {
+    this.events.push({
+      type: this.type(name),
+      data,
+      accountAddress: handle.guid.id.addr,
+      creationNumber: handle.guid.id.creation_num,
+      sequenceNumber: handle.counter,
+    });
+    handle.counter = handle.counter + BigInt(1);
+  }
+
+  /**
+   * `event::emit` (module event) of this module's `name` struct
+   */
+  emit(name: string, data: object): void {
+    this.events.push({
+      type: this.type(name),
+      data,
+      accountAddress: ZERO_ADDRESS,
+      creationNumber: BigInt(0),
+      sequenceNumber: BigInt(0),
+    });
+  }
+
+  // ------------------------------------------
+  // Accounts and coins
+  // ------------------------------------------
+
+  /**
+   * The account resource, created on first use (as `aptos_account::transfer` would)
+   */
+  account(address: string): AccountResource {
+    if (!this.storage.exists(address, ACCOUNT_TYPE)) {
+      // Creation numbers 0 and 1 belong to the account's own handles
+      this.storage.moveTo<AccountResource>(address, ACCOUNT_TYPE, {
+        sequence_number: BigInt(0),
+        guid_creation_num: BigInt(2),
+      });
+    }
+    return this.storage.borrow<AccountResource>(address, ACCOUNT_TYPE);
+  }
+
+  private coinStore(address: string): { coin: Coin } {
+    if (!this.storage.exists(address, APT_COIN_STORE_TYPE)) {
+      this.storage.moveTo(address, APT_COIN_STORE_TYPE, {
+        coin: { value: BigInt(0) },
+        frozen: false,
+        deposit_events: this.newEventHandle(address),
+        withdraw_events: this.newEventHandle(address),
+      });
+    }
+    return this.storage.borrow(address, APT_COIN_STORE_TYPE);
+  }
+
+  zeroCoin(): Coin {
+    return { value: BigInt(0) };
+  }
+
+  /**
+   * `coin::extract`
+   */
+  extract(coin: Coin, amount: bigint): Coin {
+    if (coin.value < amount) {
+      throw new VmError(
+        "Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins to complete transaction"
+      );
+    }
+    coin.value = coin.value - amount;
+    return { value: amount };
+  }
+
+  /**
+   * `coin::merge`
+   */
+  merge(coin: Coin, other: Coin): void {
+    coin.value = add(coin.value, other.value);
+  }
+
+  /**
+   * `coin::withdraw<AptosCoin>` from the account's coin store
+   */
+  withdrawCoin(address: string, amount: bigint): Coin {
+    return this.extract(this.coinStore(address).coin, amount);
+  }
+
+  /**
+   * `coin::deposit<AptosCoin>` into the account's coin store
+   */
+  depositCoin(address: string, coin: Coin): void {
+    this.merge(this.coinStore(address).coin, coin);
+  }
+
+  // ------------------------------------------
+  // Objects and fungible assets
+  // ------------------------------------------
+
+  /**
+   * `object::create_object(owner)` followed by `object::generate_extend_ref`
+   */
+  createObject(owner: string): ExtendRef {
+    // Object addresses come from the framework account's GUID counter
+    const counter = this.account("0x1");
+    const address = normalizeAddress(
+      `${OBJECT_ADDRESS_PREFIX}${counter.guid_creation_num.toString(16).padStart(62, "0")}`
+    );
+    counter.guid_creation_num = counter.guid_creation_num + BigInt(1);
+
+    this.storage.moveTo(address, OBJECT_CORE_TYPE, {
+      guid_creation_num: BigInt(0),
+      owner: normalizeAddress(owner),
+      allow_ungated_transfer: true,
+      transfer_events: this.newEventHandle(address),
+    });
+    return { self: address };
+  }
+
+  private primaryStore(owner: string, metadata: string): { metadata: { inner: string }; balance: bigint } {
+    const type = primaryStoreType(metadata);
+    if (!this.storage.exists(owner, type)) {
+      this.storage.moveTo(owner, type, {
+        metadata: { inner: normalizeAddress(metadata) },
+        balance: BigInt(0),
+        frozen: false,
+      });
+    }
+    return this.storage.borrow(owner, type);
+  }
+
+  /**
+   * `fungible_asset::extract`
+   */
+  extractAsset(asset: FungibleAsset, amount: bigint): FungibleAsset {
+    if (asset.amount < amount) {
+      throw new VmError("Move abort in 0x1::fungible_asset: EINSUFFICIENT_BALANCE(0x10004): Insufficient balance");
+    }
+    asset.amount = asset.amount - amount;
+    return { metadata: asset.metadata, amount };
+  }
+
+  /**
+   * `primary_fungible_store::withdraw` from the account's primary store of `metadata`
+   */
+  withdrawAsset(owner: string, metadata: string, amount: bigint): FungibleAsset {
+    const store = this.primaryStore(owner, metadata);
+    const withdrawn = this.extractAsset({ metadata: store.metadata.inner, amount: store.balance }, amount);
+    store.balance = store.balance - amount;
+    return withdrawn;
+  }
+
+  /**
+   * `primary_fungible_store::deposit` into the account's primary store of the asset
+   */
+  depositAsset(owner: string, asset: FungibleAsset): void {
+    const store = this.primaryStore(owner, asset.metadata);
+    store.balance = add(store.balance, asset.amount);
+  }
+
+  /**
+   * `primary_fungible_store::balance`
+   */
+  assetBalance(owner: string, metadata: string): bigint {
+    const type = primaryStoreType(metadata);
+    if (!this.storage.exists(owner, type)) return BigInt(0);
+    return this.storage.borrow<{ balance: bigint }>(owner, type).balance;
+  }
+}
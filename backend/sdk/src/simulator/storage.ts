@@ -0,0 +1,90 @@
+/**
+ * Protocol Simulator - global storage
+ *
+ * Resources are kept per account under their fully qualified struct type,
+ * with the field names of the Move structs. u64 fields are bigints, u8 fields
+ * numbers, addresses normalized 0x-prefixed hex and `vector<u8>` hex strings,
+ * so `toMoveJson` yields the same JSON a fullnode returns for the resource.
+ */
+
+import { normalizeAddress } from "../protocol/index.js";
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * A failed execution, carrying the VM status the transaction records
+ */
+export class VmError extends Error {
+  constructor(readonly vmStatus: string) {
+    super(vmStatus);
+    this.name = "VmError";
+  }
+}
+
+// ============================================
+// SERIALIZATION
+// ============================================
+
+/**
+ * Convert a stored value to fullnode JSON (u64 as decimal strings)
+ */
+export const toMoveJson = (value: unknown): unknown => {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(toMoveJson);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, toMoveJson(field)]));
+  }
+  return value;
+};
+
+// ============================================
+// STORAGE
+// ============================================
+
+export class GlobalStorage {
+  private accounts = new Map<string, Map<string, object>>();
+
+  exists(address: string, type: string): boolean {
+    return this.accounts.get(normalizeAddress(address))?.has(type) ?? false;
+  }
+
+  /**
+   * `borrow_global_mut`: the stored resource, mutated in place by the caller
+   */
+  borrow<T extends object>(address: string, type: string): T {
+    const resource = this.accounts.get(normalizeAddress(address))?.get(type);
+    if (!resource) {
+      throw new VmError(`Failed to borrow global resource from ${normalizeAddress(address)}: ${type} (MISSING_DATA)`);
+    }
+    return resource as T;
+  }
+
+  moveTo<T extends object>(address: string, type: string, resource: T): void {
+    const account = normalizeAddress(address);
+    if (this.exists(account, type)) {
+      throw new VmError(`Failed to move resource into ${account}: ${type} (RESOURCE_ALREADY_EXISTS)`);
+    }
+    if (!this.accounts.has(account)) this.accounts.set(account, new Map());
+    this.accounts.get(account)!.set(type, resource);
+  }
+
+  /**
+   * Every resource as `[address, type, resource]`
+   */
+  entries(): [string, string, object][] {
+    return [...this.accounts].flatMap(([address, resources]) =>
+      [...resources].map(([type, resource]): [string, string, object] => [address, type, resource])
+    );
+  }
+
+  /**
+   * Deep copy, used to run a transaction without touching committed state
+   */
+  clone(): GlobalStorage {
+    const copy = new GlobalStorage();
+    copy.accounts = structuredClone(this.accounts);
+    return copy;
+  }
+}
@@ -0,0 +1,461 @@
+/**
+ * Gas sponsorship for employee withdrawals
+ *
+ * Daily-wage workers often hold no APT for gas. `GasSponsor` runs next to an
+ * employer-funded fee-payer account: the employee signs a fee-payer
+ * transaction (see `SponsoredSigner`), the sponsor checks it is a withdrawal
+ * from one of the employee's streams, charges the gas to that stream's
+ * employer budget and co-signs it as fee payer.
+ *
+ * Only `withdraw_wages` and `withdraw_all` are sponsored. Each employer has a
+ * total gas budget plus per-employee limits over a rolling window.
+ *
+ * @example
+ * ```typescript
+ * const sponsor = new GasSponsor({
+ *   network: Network.TESTNET,
+ *   moduleAddress: CONTRACT_ADDRESS,
+ *   feePayerPrivateKey: process.env.SPONSOR_PRIVATE_KEY,
+ *   budgets: {
+ *     [EMPLOYER]: { totalOctas: BigInt(1e8), perEmployeeOctas: BigInt(1e6), perEmployeeTransactions: 5 },
+ *   },
+ * });
+ *
+ * // e.g. in an HTTP handler receiving a SponsorshipRequest
+ * const { hash } = await sponsor.sponsor(request);
+ * ```
+ */
+
+import {
+  Aptos,
+  AptosConfig,
+  Network,
+  Account,
+  AccountAddress,
+  AccountAuthenticator,
+  Deserializer,
+  Ed25519PrivateKey,
+  Hex,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+} from "@aptos-labs/ts-sdk";
+import {
+  ProtocolModules,
+  ProtocolModuleName,
+  ProtocolError,
+  getProtocolModules,
+  wageStreaming,
+} from "./protocol/index.js";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Gas an employer has funded, and how much of it each employee may use
+ */
+export interface SponsorBudget {
+  /** Total gas, in octas, the employer has funded */
+  totalOctas: bigint;
+  /** Gas, in octas, one employee may use per window */
+  perEmployeeOctas: bigint;
+  /** Sponsored transactions one employee may send per window */
+  perEmployeeTransactions: number;
+  /** Length of the per-employee window in seconds (defaults to one day) */
+  windowSeconds?: number;
+}
+
+/**
+ * Budget usage for one employer
+ */
+export interface SponsorBudgetStatus {
+  budget: SponsorBudget;
+  spent: bigint;
+  remaining: bigint;
+}
+
+/**
+ * Fee-payer transaction signed by the employee, as sent to the sponsor
+ */
+export interface SponsorshipRequest {
+  /** Hex BCS of the `SimpleTransaction`, built with `withFeePayer: true` */
+  transaction: string;
+  /** Hex BCS of the employee's `AccountAuthenticator` */
+  senderAuthenticator: string;
+}
+
+/**
+ * Outcome of a sponsored transaction
+ */
+export interface SponsorshipResult {
+  hash: string;
+  employer: string;
+  employee: string;
+  /** Gas paid by the sponsor, in octas */
+  gasFee: bigint;
+  success: boolean;
+}
+
+/**
+ * A sponsored transaction, as kept by the ledger
+ */
+export interface SponsorshipRecord extends SponsorshipResult {
+  /** Unix seconds when the transaction committed */
+  timestamp: number;
+}
+
+/**
+ * Sends a sponsorship request to a sponsor (directly, or over HTTP)
+ */
+export type RequestSponsorship = (request: SponsorshipRequest) => Promise<{ hash: string }>;
+
+/**
+ * Storage for sponsored transactions, from which budget usage is derived
+ */
+export interface SponsorLedger {
+  record(entry: SponsorshipRecord): Promise<void>;
+  /** Records charged to `employer`, oldest first */
+  list(employer: string): Promise<SponsorshipRecord[]>;
+}
+
+export type SponsorshipRejection =
+  | "INVALID_REQUEST"
+  | "FUNCTION_NOT_SPONSORED"
+  | "WRONG_REGISTRY"
+  | "NOT_STREAM_EMPLOYEE"
+  | "NO_EMPLOYER_BUDGET"
+  | "BUDGET_EXHAUSTED"
+  | "EMPLOYEE_LIMIT_REACHED"
+  | "SIMULATION_FAILED";
+
+export interface GasSponsorConfig {
+  network: Network;
+  moduleAddress: string;
+  /** Address holding the module registries (defaults to moduleAddress) */
+  registryAddress?: string;
+  /** Overrides for deployments that renamed a module */
+  moduleNames?: Partial<Record<ProtocolModuleName, string>>;
+  /** Hex-encoded Ed25519 private key of the fee-payer account */
+  feePayerPrivateKey?: string;
+  /** Fee-payer account (takes precedence over feePayerPrivateKey) */
+  feePayer?: Account;
+  /** Budgets keyed by employer address */
+  budgets?: Record<string, SponsorBudget>;
+  /** Where sponsored transactions are recorded (defaults to memory) */
+  ledger?: SponsorLedger;
+  /** Custom fullnode endpoint (defaults to the network's public node) */
+  nodeUrl?: string;
+}
+
+const SPONSORED_FUNCTIONS = ["withdraw_wages", "withdraw_all"];
+
+const DEFAULT_WINDOW_SECONDS = 24 * 60 * 60;
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * The sponsor declined to pay for a transaction
+ */
+export class SponsorshipError extends ProtocolError {
+  readonly reason: SponsorshipRejection;
+
+  constructor(reason: SponsorshipRejection, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.reason = reason;
+  }
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+/**
+ * Keeps sponsored transactions in memory (usage resets when the process restarts)
+ */
+export class MemorySponsorLedger implements SponsorLedger {
+  private records: SponsorshipRecord[] = [];
+
+  async record(entry: SponsorshipRecord): Promise<void> {
+    this.records.push(entry);
+  }
+
+  async list(employer: string): Promise<SponsorshipRecord[]> {
+    return this.records.filter((entry) => sameAddress(entry.employer, employer));
+  }
+}
+
+// ============================================
+// SPONSOR SERVICE
+// ============================================
+
+/**
+ * Co-signs employee withdrawals as fee payer, charging employer gas budgets
+ */
+export class GasSponsor {
+  private aptos: Aptos;
+  private registryAddress: string;
+  private modules: ProtocolModules;
+  private feePayer: Account;
+  private budgets = new Map<string, SponsorBudget>();
+  private ledger: SponsorLedger;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: GasSponsorConfig) {
+    const aptosConfig = new AptosConfig({
+      network: config.network,
+      ...(config.nodeUrl && { fullnode: config.nodeUrl }),
+    });
+    this.aptos = new Aptos(aptosConfig);
+    this.registryAddress = normalizeAddress(config.registryAddress ?? config.moduleAddress);
+    this.modules = getProtocolModules(config.moduleAddress, config.moduleNames);
+    this.ledger = config.ledger ?? new MemorySponsorLedger();
+
+    if (config.feePayer) {
+      this.feePayer = config.feePayer;
+    } else if (config.feePayerPrivateKey) {
+      this.feePayer = Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(config.feePayerPrivateKey) });
+    } else {
+      throw new Error("GasSponsor needs a feePayer account or feePayerPrivateKey");
+    }
+
+    Object.entries(config.budgets ?? {}).forEach(([employer, budget]) => this.setBudget(employer, budget));
+  }
+
+  /**
+   * Address of the fee-payer account employers fund
+   */
+  getAddress(): string {
+    return this.feePayer.accountAddress.toString();
+  }
+
+  /**
+   * Set (or replace) an employer's gas budget
+   */
+  setBudget(employer: string, budget: SponsorBudget): void {
+    this.budgets.set(normalizeAddress(employer), budget);
+  }
+
+  /**
+   * Get an employer's budget and how much of it has been spent
+   */
+  async getBudgetStatus(employer: string): Promise<SponsorBudgetStatus | null> {
+    const budget = this.budgets.get(normalizeAddress(employer));
+    if (!budget) return null;
+
+    const spent = sumFees(await this.ledger.list(employer));
+    const remaining = budget.totalOctas > spent ? budget.totalOctas - spent : BigInt(0);
+    return { budget, spent, remaining };
+  }
+
+  /**
+   * Validate, co-sign and submit an employee's fee-payer withdrawal
+   *
+   * Throws a SponsorshipError when the transaction is not sponsored. A
+   * transaction that commits but aborts is still charged and returned with
+   * `success: false`.
+   */
+  async sponsor(request: SponsorshipRequest): Promise<SponsorshipResult> {
+    // One request at a time, so concurrent withdrawals cannot overdraw a budget
+    const result = this.queue.then(() => this.sponsorNext(request));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async sponsorNext(request: SponsorshipRequest): Promise<SponsorshipResult> {
+    const { transaction, senderAuthenticator } = decodeRequest(request);
+    if (
+      transaction.feePayerAddress === undefined ||
+      !(
+        transaction.feePayerAddress.equals(AccountAddress.ZERO) ||
+        sameAddress(transaction.feePayerAddress, this.getAddress())
+      )
+    ) {
+      throw new SponsorshipError("INVALID_REQUEST", "Transaction was not built for a fee payer");
+    }
+
+    const employee = transaction.rawTransaction.sender.toString();
+    const withdrawal = this.decodeWithdrawal(transaction);
+    const employer = await this.findEmployer(employee, withdrawal.streamId);
+    const budget = this.budgets.get(employer)!;
+
+    transaction.feePayerAddress = this.feePayer.accountAddress;
+    const [simulated] = await this.aptos.transaction.simulate.simple({
+      transaction,
+      feePayerPublicKey: this.feePayer.publicKey,
+    });
+    if (!simulated.success) {
+      throw new SponsorshipError("SIMULATION_FAILED", `Withdrawal would fail: ${simulated.vm_status}`);
+    }
+
+    const gasUnitPrice = transaction.rawTransaction.gas_unit_price;
+    await this.checkLimits(employer, employee, budget, BigInt(simulated.gas_used) * gasUnitPrice);
+
+    const feePayerAuthenticator = this.aptos.transaction.signAsFeePayer({ signer: this.feePayer, transaction });
+    const pendingTxn = await this.aptos.transaction.submit.simple({
+      transaction,
+      senderAuthenticator,
+      feePayerAuthenticator,
+    });
+    const committed = await this.aptos.waitForTransaction({
+      transactionHash: pendingTxn.hash,
+      options: { checkSuccess: false },
+    });
+
+    const result: SponsorshipResult = {
+      hash: committed.hash,
+      employer,
+      employee,
+      gasFee: BigInt(committed.gas_used) * gasUnitPrice,
+      success: committed.success,
+    };
+    await this.ledger.record({ ...result, timestamp: Math.floor(Date.now() / 1000) });
+    return result;
+  }
+
+  /**
+   * Check the payload is a sponsored withdrawal against this registry
+   */
+  private decodeWithdrawal(transaction: SimpleTransaction): { streamId: string | null } {
+    const payload = transaction.rawTransaction.payload;
+    if (!(payload instanceof TransactionPayloadEntryFunction)) {
+      throw new SponsorshipError("FUNCTION_NOT_SPONSORED", "Only entry function withdrawals are sponsored");
+    }
+
+    const { module_name, function_name, args } = payload.entryFunction;
+    const moduleId = `${module_name.address.toString()}::${module_name.name.identifier}`;
+    const functionName = function_name.identifier;
+    if (moduleId !== normalizeModuleId(this.modules.wageStreaming) || !SPONSORED_FUNCTIONS.includes(functionName)) {
+      throw new SponsorshipError("FUNCTION_NOT_SPONSORED", `${moduleId}::${functionName} is not sponsored`);
+    }
+
+    try {
+      const registry = AccountAddress.deserialize(new Deserializer(args[0].bcsToBytes()));
+      if (!sameAddress(registry, this.registryAddress)) {
+        throw new SponsorshipError("WRONG_REGISTRY", `Registry ${registry.toString()} is not sponsored`);
+      }
+      const streamId =
+        functionName === "withdraw_wages" ? new Deserializer(args[1].bcsToBytes()).deserializeU64().toString() : null;
+      return { streamId };
+    } catch (error) {
+      if (error instanceof SponsorshipError) throw error;
+      throw new SponsorshipError("INVALID_REQUEST", "Malformed withdrawal arguments", error);
+    }
+  }
+
+  /**
+   * Find the budgeted employer of the employee's stream (any of their open streams for withdraw_all)
+   */
+  private async findEmployer(employee: string, streamId: string | null): Promise<string> {
+    const store = await this.aptos.getAccountResource<{ streams: wageStreaming.StreamResource[] }>({
+      accountAddress: this.registryAddress,
+      resourceType: `${this.modules.wageStreaming}::StreamStore`,
+    });
+
+    const open: number[] = [wageStreaming.STREAM_STATUS_CODES.ACTIVE, wageStreaming.STREAM_STATUS_CODES.PAUSED];
+    const streams = store.streams.filter(
+      (stream) =>
+        sameAddress(stream.employee, employee) &&
+        open.includes(Number(stream.status)) &&
+        (streamId === null || String(stream.stream_id) === streamId)
+    );
+    if (streams.length === 0) {
+      throw new SponsorshipError("NOT_STREAM_EMPLOYEE", `${employee} has no open stream to withdraw from`);
+    }
+
+    const employer = streams.map((stream) => normalizeAddress(stream.employer)).find((addr) => this.budgets.has(addr));
+    if (!employer) {
+      throw new SponsorshipError("NO_EMPLOYER_BUDGET", "The employer has not funded gas sponsorship");
+    }
+    return employer;
+  }
+
+  private async checkLimits(employer: string, employee: string, budget: SponsorBudget, fee: bigint): Promise<void> {
+    const records = await this.ledger.list(employer);
+    if (sumFees(records) + fee > budget.totalOctas) {
+      throw new SponsorshipError("BUDGET_EXHAUSTED", "The employer's gas budget is used up");
+    }
+
+    const since = Math.floor(Date.now() / 1000) - (budget.windowSeconds ?? DEFAULT_WINDOW_SECONDS);
+    const recent = records.filter((entry) => sameAddress(entry.employee, employee) && entry.timestamp >= since);
+    if (recent.length >= budget.perEmployeeTransactions || sumFees(recent) + fee > budget.perEmployeeOctas) {
+      throw new SponsorshipError("EMPLOYEE_LIMIT_REACHED", "Sponsored withdrawal limit reached, try again later");
+    }
+  }
+}
+
+// ============================================
+// CLIENT
+// ============================================
+
+/**
+ * Encode a signed fee-payer transaction for the sponsor
+ */
+export const encodeSponsorshipRequest = (
+  transaction: Uint8Array,
+  senderAuthenticator: Uint8Array
+): SponsorshipRequest => ({
+  transaction: Hex.fromHexInput(transaction).toString(),
+  senderAuthenticator: Hex.fromHexInput(senderAuthenticator).toString(),
+});
+
+/**
+ * Send sponsorship requests to a sponsor behind an HTTP endpoint
+ *
+ * The endpoint receives the request as JSON and answers `{ hash }`, or
+ * `{ error, reason }` with a non-2xx status when it declines.
+ */
+export const requestSponsorshipOverHttp =
+  (url: string, init: RequestInit = {}): RequestSponsorship =>
+  async (request) => {
+    const response = await fetch(url, {
+      ...init,
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...init.headers },
+      body: JSON.stringify(request),
+    });
+    const body = (await response.json().catch(() => ({}))) as { hash?: string; error?: string; reason?: string };
+
+    if (!response.ok || !body.hash) {
+      throw new SponsorshipError(
+        (body.reason as SponsorshipRejection) ?? "INVALID_REQUEST",
+        body.error ?? `Sponsor responded with ${response.status}`
+      );
+    }
+    return { hash: body.hash };
+  };
+
+// ============================================
+// HELPERS
+// ============================================
+
+const decodeRequest = (
+  request: SponsorshipRequest
+): { transaction: SimpleTransaction; senderAuthenticator: AccountAuthenticator } => {
+  try {
+    return {
+      transaction: SimpleTransaction.deserialize(
+        new Deserializer(Hex.fromHexInput(request.transaction).toUint8Array())
+      ),
+      senderAuthenticator: AccountAuthenticator.deserialize(
+        new Deserializer(Hex.fromHexInput(request.senderAuthenticator).toUint8Array())
+      ),
+    };
+  } catch (error) {
+    throw new SponsorshipError("INVALID_REQUEST", "Could not decode the signed transaction", error);
+  }
+};
+
+const normalizeAddress = (address: string | AccountAddress): string => AccountAddress.from(address).toString();
+
+const sameAddress = (a: string | AccountAddress, b: string | AccountAddress): boolean =>
+  normalizeAddress(a) === normalizeAddress(b);
+
+const normalizeModuleId = (moduleId: string): string => {
+  const [address, name] = moduleId.split("::");
+  return `${normalizeAddress(address)}::${name}`;
+};
+
+const sumFees = (records: SponsorshipRecord[]): bigint =>
+  records.reduce((total, entry) => total + entry.gasFee, BigInt(0));
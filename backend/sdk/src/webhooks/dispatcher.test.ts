@@ -0,0 +1,300 @@
+import { createHmac } from "node:crypto";
+import { IncomingHttpHeaders, createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { Network } from "@aptos-labs/ts-sdk";
+import { WageProtocolSDK } from "../index.js";
+import { normalizeAddress } from "../protocol/index.js";
+import { ProtocolSimulator } from "../simulator/index.js";
+import {
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  MemoryWebhookStore,
+  WEBHOOK_HEADERS,
+  WebhookDelivery,
+  WebhookDispatcher,
+  WebhookDispatcherConfig,
+  WebhookEndpoint,
+  verifyWebhookSignature,
+} from "./index.js";
+
+const MODULE_ADDRESS = "0xcafe";
+const EMPLOYER = normalizeAddress("0xe1");
+const EMPLOYEE = normalizeAddress("0xe2");
+
+// ============================================
+// RECEIVER
+// ============================================
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+interface Receiver {
+  url: string;
+  requests: ReceivedRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * An HTTP endpoint on an ephemeral port that answers each request with `respond`'s status
+ */
+const startReceiver = async (respond: (request: ReceivedRequest, index: number) => number): Promise<Receiver> => {
+  const requests: ReceivedRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => {
+      const request = { headers: req.headers, body };
+      requests.push(request);
+      res.statusCode = respond(request, requests.length - 1);
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+const header = (request: ReceivedRequest, name: string): string | undefined => {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5_000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await sleep(10);
+  }
+};
+
+const simulatedSdk = () => {
+  const simulator = new ProtocolSimulator({ moduleAddress: MODULE_ADDRESS });
+  simulator.fund(EMPLOYER, 1_000 * 1e8);
+  const sdk = new WageProtocolSDK({ network: Network.LOCAL, moduleAddress: MODULE_ADDRESS, simulator });
+  return { simulator, sdk };
+};
+
+const setup = (config: Omit<WebhookDispatcherConfig, "sdk" | "store"> = {}) => {
+  const { sdk } = simulatedSdk();
+  const store = new MemoryWebhookStore();
+  const dispatcher = new WebhookDispatcher({ sdk, store, ...config });
+  return { store, dispatcher };
+};
+
+/**
+ * Queue a withdrawal webhook for an endpoint, due now
+ */
+const queueDelivery = async (store: MemoryWebhookStore, endpoint: WebhookEndpoint): Promise<WebhookDelivery> => {
+  const delivery: WebhookDelivery = {
+    id: "dlv_1",
+    endpointId: endpoint.id,
+    employer: endpoint.employer,
+    payload: {
+      id: "evt_42_0",
+      type: "wages.withdrawn",
+      employer: endpoint.employer,
+      createdAt: new Date().toISOString(),
+      transactionVersion: "42",
+      data: { streamId: "1", employee: EMPLOYEE, amount: "150000000" },
+    },
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  };
+  await store.saveDelivery(delivery);
+  return delivery;
+};
+
+const untilDue = async (store: MemoryWebhookStore, id: string): Promise<void> => {
+  const delivery = await store.getDelivery(id);
+  if (delivery) await sleep(Math.max(0, delivery.nextAttemptAt - Date.now()) + 5);
+};
+
+// ============================================
+// TESTS
+// ============================================
+
+describe("WebhookDispatcher", () => {
+  let receiver: Receiver | undefined;
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await receiver?.close();
+    receiver = undefined;
+  });
+
+  it("signs each delivery with an HMAC-SHA256 of timestamp.body under the endpoint secret", async () => {
+    receiver = await startReceiver(() => 200);
+    const { simulator, sdk } = simulatedSdk();
+    await sdk.initializeTreasury(500 * 1e8, simulator.signer(EMPLOYER));
+
+    const dispatcher = new WebhookDispatcher({ sdk, pollIntervalMs: 10, deliveryIntervalMs: 10 });
+    const endpoint = await dispatcher.registerEndpoint({
+      employer: EMPLOYER,
+      url: receiver.url,
+      events: ["stream.created"],
+    });
+
+    const controller = new AbortController();
+    const running = dispatcher.run(controller.signal);
+    // Let the dispatcher take the treasury event as its starting cursor
+    await sleep(50);
+    await sdk.createWageStream(EMPLOYEE, 30 * 1e8, 30 * 86_400, "Warehouse", simulator.signer(EMPLOYER));
+    await waitFor(() => receiver!.requests.length > 0);
+    controller.abort();
+    await running;
+
+    expect(receiver.requests).toHaveLength(1);
+    const [request] = receiver.requests;
+    const timestamp = header(request, WEBHOOK_HEADERS.timestamp)!;
+    const expected = createHmac("sha256", endpoint.secret).update(`${timestamp}.${request.body}`).digest("hex");
+
+    expect(header(request, WEBHOOK_HEADERS.signature)).toBe(`sha256=${expected}`);
+    expect(header(request, WEBHOOK_HEADERS.event)).toBe("stream.created");
+    expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(5);
+    expect(JSON.parse(request.body)).toMatchObject({
+      type: "stream.created",
+      employer: EMPLOYER,
+      data: { employer: EMPLOYER, employee: EMPLOYEE },
+    });
+    expect(
+      verifyWebhookSignature(endpoint.secret, request.body, {
+        timestamp,
+        signature: header(request, WEBHOOK_HEADERS.signature),
+      })
+    ).toBe(true);
+    expect(
+      verifyWebhookSignature(endpoint.secret, request.body.replace(EMPLOYEE, EMPLOYER), {
+        timestamp,
+        signature: header(request, WEBHOOK_HEADERS.signature),
+      })
+    ).toBe(false);
+  });
+
+  it("retries 5xx responses with exponential backoff up to the maximum delay", async () => {
+    receiver = await startReceiver((_, index) => (index < 3 ? 503 : 204));
+    const attempts: WebhookDelivery[] = [];
+    const { store, dispatcher } = setup({
+      retryBaseMs: 40,
+      retryMaxMs: 100,
+      onAttempt: (delivery, delivered) => {
+        if (!delivered) attempts.push(delivery);
+      },
+    });
+    const endpoint = await dispatcher.registerEndpoint({ employer: EMPLOYER, url: receiver.url });
+    const delivery = await queueDelivery(store, endpoint);
+
+    await dispatcher.deliverDue();
+    expect(receiver.requests).toHaveLength(1);
+    // Not due again until the backoff has passed
+    await dispatcher.deliverDue();
+    expect(receiver.requests).toHaveLength(1);
+
+    for (let i = 0; i < 3; i++) {
+      await untilDue(store, delivery.id);
+      await dispatcher.deliverDue();
+    }
+
+    expect(receiver.requests).toHaveLength(4);
+    expect(attempts.map((entry) => entry.nextAttemptAt - entry.lastAttemptAt!)).toEqual([40, 80, 100]);
+    expect(attempts.map((entry) => entry.lastError)).toEqual(["HTTP 503", "HTTP 503", "HTTP 503"]);
+    // Every attempt is the same delivery of the same event
+    expect(new Set(receiver.requests.map((request) => header(request, WEBHOOK_HEADERS.delivery)))).toEqual(
+      new Set([delivery.id])
+    );
+    expect(new Set(receiver.requests.map((request) => JSON.parse(request.body).id))).toEqual(new Set(["evt_42_0"]));
+    expect(await store.getDelivery(delivery.id)).toBeNull();
+  });
+
+  it("dead-letters a delivery after its last attempt and delivers it again on replay", async () => {
+    let available = false;
+    receiver = await startReceiver(() => (available ? 200 : 500));
+    const { store, dispatcher } = setup({ maxAttempts: 3, retryBaseMs: 10 });
+    const endpoint = await dispatcher.registerEndpoint({ employer: EMPLOYER, url: receiver.url });
+    const delivery = await queueDelivery(store, endpoint);
+
+    for (let i = 0; i < 3; i++) {
+      await untilDue(store, delivery.id);
+      await dispatcher.deliverDue();
+    }
+
+    const [dead] = await dispatcher.listDeadLetters({ employer: EMPLOYER });
+    expect(dead).toMatchObject({ id: delivery.id, status: "dead", attempts: 3, lastError: "HTTP 500" });
+
+    // Dead letters are not attempted again
+    await sleep(50);
+    await dispatcher.deliverDue();
+    expect(receiver.requests).toHaveLength(3);
+
+    available = true;
+    const [queued] = await dispatcher.replay([delivery.id]);
+    expect(queued).toMatchObject({ status: "pending", attempts: 0 });
+    await dispatcher.deliverDue();
+
+    expect(receiver.requests).toHaveLength(4);
+    expect(await dispatcher.listDeadLetters()).toEqual([]);
+    expect(await store.getDelivery(delivery.id)).toBeNull();
+  });
+
+  it("lets receivers reject requests whose signed timestamp is too old", async () => {
+    let secret = "";
+    receiver = await startReceiver((request) =>
+      verifyWebhookSignature(secret, request.body, {
+        timestamp: header(request, WEBHOOK_HEADERS.timestamp),
+        signature: header(request, WEBHOOK_HEADERS.signature),
+      })
+        ? 200
+        : 401
+    );
+    const { store, dispatcher } = setup();
+    const endpoint = await dispatcher.registerEndpoint({ employer: EMPLOYER, url: receiver.url });
+    secret = endpoint.secret;
+    await queueDelivery(store, endpoint);
+
+    await dispatcher.deliverDue();
+    expect(await store.listDeliveries()).toEqual([]);
+
+    // Replaying the captured request once the tolerance has passed
+    const [captured] = receiver.requests;
+    const replay = () =>
+      fetch(receiver!.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_HEADERS.timestamp]: header(captured, WEBHOOK_HEADERS.timestamp)!,
+          [WEBHOOK_HEADERS.signature]: header(captured, WEBHOOK_HEADERS.signature)!,
+        },
+        body: captured.body,
+      });
+    const sentAt = Number(header(captured, WEBHOOK_HEADERS.timestamp)) * 1000;
+
+    jest.spyOn(Date, "now").mockReturnValue(sentAt + (DEFAULT_SIGNATURE_TOLERANCE_SECONDS - 1) * 1000);
+    expect((await replay()).status).toBe(200);
+
+    jest.spyOn(Date, "now").mockReturnValue(sentAt + (DEFAULT_SIGNATURE_TOLERANCE_SECONDS + 1) * 1000);
+    expect((await replay()).status).toBe(401);
+    expect(
+      verifyWebhookSignature(secret, captured.body, {
+        timestamp: header(captured, WEBHOOK_HEADERS.timestamp),
+        signature: header(captured, WEBHOOK_HEADERS.signature),
+      })
+    ).toBe(false);
+  });
+});
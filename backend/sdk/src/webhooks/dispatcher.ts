@@ -0,0 +1,486 @@
+/**
+ * Webhooks - event dispatcher
+ */
+
+import { randomBytes, randomUUID } from "node:crypto";
+import type { WageProtocolSDK } from "../index.js";
+import {
+  EventCursor,
+  ProtocolError,
+  ProtocolEventOf,
+  disputes,
+  employerTreasury,
+  normalizeAddress,
+  wageStreaming,
+} from "../protocol/index.js";
+import { WEBHOOK_HEADERS, generateWebhookSecret, signWebhookPayload } from "./signing.js";
+import { MemoryWebhookStore } from "./store.js";
+import {
+  DeliveryFilter,
+  RegisterWebhookInput,
+  WEBHOOK_EVENT_TYPES,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookPayload,
+  WebhookStore,
+} from "./types.js";
+
+// ============================================
+// CONFIG
+// ============================================
+
+export interface WebhookDispatcherConfig {
+  /** Any SDK instance, including one running on the simulator */
+  sdk: WageProtocolSDK<unknown>;
+  /** Where endpoints, deliveries and the cursor are kept (defaults to memory) */
+  store?: WebhookStore;
+  /** Where to start when the store has no cursor (defaults to the latest event) */
+  startFrom?: EventCursor;
+  /** Attempts before a delivery becomes a dead letter (default 10) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on each further retry (default 5s) */
+  retryBaseMs?: number;
+  /** Longest delay between retries (default 1h) */
+  retryMaxMs?: number;
+  /** Per-request timeout (default 10s) */
+  requestTimeoutMs?: number;
+  /** Delay between event polls once caught up (default 5s) */
+  pollIntervalMs?: number;
+  /** Delay between checks for due deliveries (default 1s) */
+  deliveryIntervalMs?: number;
+  /** Called after every delivery attempt */
+  onAttempt?: (delivery: WebhookDelivery, delivered: boolean) => void;
+  /** Called when reading events fails; the dispatcher retries from its cursor */
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 10;
+const DEFAULT_RETRY_BASE_MS = 5_000;
+const DEFAULT_RETRY_MAX_MS = 60 * 60 * 1000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+const DEFAULT_DELIVERY_INTERVAL_MS = 1_000;
+
+const SOURCE_EVENTS = [
+  wageStreaming.EVENTS.streamCreated,
+  wageStreaming.EVENTS.statusChange,
+  wageStreaming.EVENTS.withdrawal,
+  employerTreasury.EVENTS.treasuryCreated,
+  employerTreasury.EVENTS.deposit,
+  employerTreasury.EVENTS.allocation,
+  employerTreasury.EVENTS.withdrawal,
+  disputes.EVENTS.disputeOpened,
+  disputes.EVENTS.statusChanged,
+];
+
+type SourceEvent = ProtocolEventOf<(typeof SOURCE_EVENTS)[number]>;
+
+const STREAM_STATUS_NAMES = reverseLookup(wageStreaming.STREAM_STATUS_CODES);
+const DISPUTE_STATUS_NAMES = reverseLookup(disputes.DISPUTE_STATUS);
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * An invalid endpoint registration or replay request
+ */
+export class WebhookError extends ProtocolError {}
+
+// ============================================
+// DISPATCHER
+// ============================================
+
+/**
+ * Turns protocol events into signed webhook deliveries for employer endpoints
+ *
+ * Events are read from the indexer in order. Each one is written to the store
+ * as a pending delivery per subscribed endpoint before the cursor advances, so
+ * a restart neither loses nor re-reads events. Failed deliveries are retried
+ * with exponential backoff and end up as dead letters, which can be replayed.
+ */
+export class WebhookDispatcher {
+  private sdk: WageProtocolSDK<unknown>;
+  private store: WebhookStore;
+  private config: WebhookDispatcherConfig;
+  private streamEmployers = new Map<string, string>();
+  /** Employers last seen below their auto top-up threshold */
+  private lowBalance = new Set<string>();
+
+  constructor(config: WebhookDispatcherConfig) {
+    this.sdk = config.sdk;
+    this.store = config.store ?? new MemoryWebhookStore();
+    this.config = config;
+  }
+
+  // ============================================
+  // ENDPOINTS
+  // ============================================
+
+  /**
+   * Register an employer endpoint; keep the returned secret to verify signatures
+   */
+  async registerEndpoint(input: RegisterWebhookInput): Promise<WebhookEndpoint> {
+    let url: URL;
+    try {
+      url = new URL(input.url);
+    } catch (error) {
+      throw new WebhookError(`Invalid webhook URL: ${input.url}`, { cause: error });
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      throw new WebhookError(`Webhook URL must be http(s): ${input.url}`);
+    }
+    const unknown = (input.events ?? []).filter((type) => !WEBHOOK_EVENT_TYPES.includes(type));
+    if (unknown.length > 0) {
+      throw new WebhookError(`Unknown webhook events: ${unknown.join(", ")}`);
+    }
+
+    const endpoint: WebhookEndpoint = {
+      id: `wh_${randomBytes(8).toString("hex")}`,
+      employer: normalizeAddress(input.employer),
+      url: url.toString(),
+      secret: input.secret ?? generateWebhookSecret(),
+      ...(input.events && input.events.length > 0 && { events: input.events }),
+      createdAt: new Date().toISOString(),
+    };
+    await this.store.saveEndpoint(endpoint);
+    return endpoint;
+  }
+
+  /**
+   * Remove an endpoint; its pending deliveries are dropped on their next attempt
+   */
+  async removeEndpoint(id: string): Promise<boolean> {
+    return this.store.removeEndpoint(id);
+  }
+
+  async listEndpoints(employer?: string): Promise<WebhookEndpoint[]> {
+    return this.store.listEndpoints(employer);
+  }
+
+  // ============================================
+  // DEAD LETTERS
+  // ============================================
+
+  async listDeadLetters(filter: Omit<DeliveryFilter, "status"> = {}): Promise<WebhookDelivery[]> {
+    return this.store.listDeliveries({ ...filter, status: "dead" });
+  }
+
+  /**
+   * Queue dead letters for delivery again, with a fresh set of attempts
+   *
+   * Pass delivery ids, or a filter to replay every matching dead letter.
+   */
+  async replay(selection: string[] | Omit<DeliveryFilter, "status">): Promise<WebhookDelivery[]> {
+    let deliveries: WebhookDelivery[];
+    if (Array.isArray(selection)) {
+      deliveries = await Promise.all(
+        selection.map(async (id) => {
+          const delivery = await this.store.getDelivery(id);
+          if (!delivery) throw new WebhookError(`Unknown webhook delivery: ${id}`);
+          if (delivery.status !== "dead") throw new WebhookError(`Delivery ${id} is not a dead letter`);
+          return delivery;
+        })
+      );
+    } else {
+      deliveries = await this.listDeadLetters(selection);
+    }
+
+    const queued = deliveries.map((delivery): WebhookDelivery => ({
+      ...delivery,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    }));
+    for (const delivery of queued) await this.store.saveDelivery(delivery);
+    return queued;
+  }
+
+  // ============================================
+  // RUNNING
+  // ============================================
+
+  /**
+   * Read events and deliver webhooks until `signal` aborts
+   */
+  async run(signal?: AbortSignal): Promise<void> {
+    await Promise.all([this.readEvents(signal), this.deliverLoop(signal)]);
+  }
+
+  /**
+   * Attempt every pending delivery that is due
+   */
+  async deliverDue(): Promise<void> {
+    const now = Date.now();
+    const due = (await this.store.listDeliveries({ status: "pending" })).filter(
+      (delivery) => delivery.nextAttemptAt <= now
+    );
+    await Promise.all(due.map((delivery) => this.attempt(delivery)));
+  }
+
+  private async readEvents(signal?: AbortSignal): Promise<void> {
+    const pollIntervalMs = this.config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+
+    while (!signal?.aborted) {
+      try {
+        const after = (await this.store.getCursor()) ?? this.config.startFrom ?? (await this.latestCursor());
+        for await (const event of this.sdk.tailEvents(SOURCE_EVENTS, { after, pollIntervalMs, signal })) {
+          await this.enqueue(event);
+          await this.store.setCursor(event.cursor);
+        }
+      } catch (error) {
+        this.config.onError?.(error);
+        await sleep(pollIntervalMs, signal);
+      }
+    }
+  }
+
+  private async deliverLoop(signal?: AbortSignal): Promise<void> {
+    while (!signal?.aborted) {
+      try {
+        await this.deliverDue();
+      } catch (error) {
+        this.config.onError?.(error);
+      }
+      await sleep(this.config.deliveryIntervalMs ?? DEFAULT_DELIVERY_INTERVAL_MS, signal);
+    }
+  }
+
+  private async latestCursor(): Promise<EventCursor | undefined> {
+    const page = await this.sdk.getEvents(SOURCE_EVENTS, { order: "desc", limit: 1 });
+    return page.cursor ?? undefined;
+  }
+
+  // ============================================
+  // EVENTS -> DELIVERIES
+  // ============================================
+
+  /**
+   * Queue a delivery of the event for every endpoint subscribed to it
+   */
+  private async enqueue(event: SourceEvent): Promise<void> {
+    if ((await this.store.listEndpoints()).length === 0) return;
+
+    const webhook = await this.toWebhook(event);
+    if (!webhook) return;
+
+    const endpoints = (await this.store.listEndpoints(webhook.employer)).filter(
+      (endpoint) => !endpoint.events || endpoint.events.includes(webhook.type)
+    );
+    if (endpoints.length === 0) return;
+
+    const payload: WebhookPayload = {
+      id: `evt_${event.cursor.transactionVersion}_${event.cursor.eventIndex}`,
+      type: webhook.type,
+      employer: webhook.employer,
+      createdAt: new Date().toISOString(),
+      transactionVersion: event.cursor.transactionVersion,
+      data: toJson(webhook.data) as Record<string, unknown>,
+    };
+    for (const endpoint of endpoints) {
+      await this.store.saveDelivery({
+        id: randomUUID(),
+        endpointId: endpoint.id,
+        employer: webhook.employer,
+        payload,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+      });
+    }
+  }
+
+  private async toWebhook(
+    event: SourceEvent
+  ): Promise<{ type: WebhookEventType; employer: string; data: object } | null> {
+    switch (event.module) {
+      case "wageStreaming": {
+        if (event.name === "StreamCreatedEvent") {
+          this.streamEmployers.set(String(event.data.streamId), normalizeAddress(event.data.employer));
+          return { type: "stream.created", employer: event.data.employer, data: event.data };
+        }
+
+        const employer = await this.streamEmployer(event.data.streamId);
+        if (event.name === "WithdrawalEvent") return { type: "wages.withdrawn", employer, data: event.data };
+
+        const type = streamStatusWebhook(event.data.oldStatus, event.data.newStatus);
+        if (!type) return null;
+        const data = {
+          ...event.data,
+          oldStatusName: STREAM_STATUS_NAMES[event.data.oldStatus],
+          newStatusName: STREAM_STATUS_NAMES[event.data.newStatus],
+        };
+        return { type, employer, data };
+      }
+
+      case "employerTreasury":
+        return this.checkTreasuryBalance(event.data.employer, event.name);
+
+      case "disputes": {
+        const dispute = await this.sdk.getDispute(event.data.disputeId);
+        if (event.name === "DisputeOpened") {
+          return { type: "dispute.opened", employer: dispute.employer, data: event.data };
+        }
+        const data = {
+          ...event.data,
+          employee: dispute.employee,
+          oldStatusName: DISPUTE_STATUS_NAMES[event.data.oldStatus],
+          newStatusName: DISPUTE_STATUS_NAMES[event.data.newStatus],
+        };
+        return { type: "dispute.status_changed", employer: dispute.employer, data };
+      }
+    }
+  }
+
+  /**
+   * Report an employer once when their available balance falls below the auto top-up threshold
+   */
+  private async checkTreasuryBalance(
+    employer: string,
+    triggeredBy: string
+  ): Promise<{ type: WebhookEventType; employer: string; data: object } | null> {
+    const address = normalizeAddress(employer);
+    const subscribed = (await this.store.listEndpoints(address)).some(
+      (endpoint) => !endpoint.events || endpoint.events.includes("treasury.low_balance")
+    );
+    if (!subscribed) return null;
+
+    const treasury = await this.sdk.getAptosClient().getAccountResource<employerTreasury.TreasuryResource>({
+      accountAddress: address,
+      resourceType: `${this.sdk.getModules().employerTreasury}::EmployerTreasury`,
+    });
+    const threshold = BigInt(treasury.auto_topup_threshold);
+    const available = BigInt(treasury.available_balance);
+
+    if (threshold === BigInt(0) || available >= threshold) {
+      this.lowBalance.delete(address);
+      return null;
+    }
+    if (this.lowBalance.has(address)) return null;
+
+    this.lowBalance.add(address);
+    return {
+      type: "treasury.low_balance",
+      employer: address,
+      data: { availableBalance: available, autoTopupThreshold: threshold, triggeredBy },
+    };
+  }
+
+  private async streamEmployer(streamId: number): Promise<string> {
+    const key = String(streamId);
+    let employer = this.streamEmployers.get(key);
+    if (!employer) {
+      employer = normalizeAddress((await this.sdk.getStreamInfo(streamId)).employer);
+      this.streamEmployers.set(key, employer);
+    }
+    return employer;
+  }
+
+  // ============================================
+  // DELIVERY
+  // ============================================
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    // Skip deliveries removed or replayed since they were listed
+    const current = await this.store.getDelivery(delivery.id);
+    if (!current || current.status !== "pending" || current.attempts !== delivery.attempts) return;
+
+    const endpoint = (await this.store.listEndpoints(delivery.employer)).find(
+      (entry) => entry.id === delivery.endpointId
+    );
+    if (!endpoint) {
+      await this.store.removeDelivery(delivery.id);
+      return;
+    }
+
+    const error = await this.post(endpoint, delivery);
+    const attempts = delivery.attempts + 1;
+    const now = Date.now();
+
+    if (error === null) {
+      await this.store.removeDelivery(delivery.id);
+      this.config.onAttempt?.({ ...delivery, attempts, lastAttemptAt: now }, true);
+      return;
+    }
+
+    const exhausted = attempts >= (this.config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    const delay = Math.min(
+      (this.config.retryBaseMs ?? DEFAULT_RETRY_BASE_MS) * 2 ** (attempts - 1),
+      this.config.retryMaxMs ?? DEFAULT_RETRY_MAX_MS
+    );
+    const updated: WebhookDelivery = {
+      ...delivery,
+      status: exhausted ? "dead" : "pending",
+      attempts,
+      nextAttemptAt: exhausted ? now : now + delay,
+      lastAttemptAt: now,
+      lastError: error,
+    };
+    await this.store.saveDelivery(updated);
+    this.config.onAttempt?.(updated, false);
+  }
+
+  /**
+   * POST a signed delivery, returning why it failed or null on a 2xx response
+   */
+  private async post(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<string | null> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_HEADERS.event]: delivery.payload.type,
+          [WEBHOOK_HEADERS.delivery]: delivery.id,
+          [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+          [WEBHOOK_HEADERS.signature]: signWebhookPayload(endpoint.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(this.config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS),
+      });
+      await response.body?.cancel();
+      return response.ok ? null : `HTTP ${response.status}`;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function reverseLookup(codes: Record<string, number>): Record<number, string> {
+  return Object.fromEntries(Object.entries(codes).map(([name, code]) => [code, name]));
+}
+
+const streamStatusWebhook = (oldStatus: number, newStatus: number): WebhookEventType | null => {
+  const { ACTIVE, PAUSED, TERMINATED } = wageStreaming.STREAM_STATUS_CODES;
+  if (newStatus === PAUSED) return "stream.paused";
+  if (newStatus === ACTIVE && oldStatus === PAUSED) return "stream.resumed";
+  if (newStatus === TERMINATED) return "stream.terminated";
+  return null;
+};
+
+const toJson = (value: unknown): unknown => {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(toJson);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toJson(entry)]));
+  }
+  return value;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
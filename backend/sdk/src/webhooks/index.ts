@@ -0,0 +1,37 @@
+/**
+ * Wage Protocol - Signed Outbound Webhooks
+ *
+ * Lets HRMS and accounting systems react to protocol activity. The dispatcher
+ * tails the protocol events and POSTs a signed JSON payload to every endpoint
+ * the affected employer has registered:
+ *
+ * | Event                    | Sent when                                              |
+ * |--------------------------|--------------------------------------------------------|
+ * | `stream.created`         | a stream is created                                    |
+ * | `stream.paused`          | a stream is paused                                     |
+ * | `stream.resumed`         | a paused stream is resumed                             |
+ * | `stream.terminated`      | a stream is terminated                                 |
+ * | `wages.withdrawn`        | an employee withdraws wages                            |
+ * | `treasury.low_balance`   | available balance drops below the auto top-up threshold |
+ * | `dispute.opened`         | a dispute is opened on one of the employer's streams   |
+ * | `dispute.status_changed` | a dispute moves to another status                      |
+ *
+ * Node only (uses `node:crypto`). Receivers check requests with
+ * `verifyWebhookSignature`.
+ *
+ * @example
+ * ```typescript
+ * import { WebhookDispatcher, FileWebhookStore } from "@wage-protocol/sdk/webhooks";
+ *
+ * const dispatcher = new WebhookDispatcher({ sdk, store: new FileWebhookStore("./webhooks.json") });
+ * const { secret } = await dispatcher.registerEndpoint({ employer: EMPLOYER, url: "https://hrms.example/hooks" });
+ *
+ * const controller = new AbortController();
+ * await dispatcher.run(controller.signal);
+ * ```
+ */
+
+export * from "./types.js";
+export * from "./signing.js";
+export * from "./store.js";
+export * from "./dispatcher.js";
@@ -0,0 +1,49 @@
+/**
+ * Webhooks - HMAC-SHA256 payload signatures
+ *
+ * Each request carries `X-Wage-Timestamp` (Unix seconds) and
+ * `X-Wage-Signature: sha256=<hex>`, the HMAC of `<timestamp>.<raw body>` under
+ * the endpoint secret. Receivers recompute it over the raw body and reject
+ * stale timestamps to stop replayed requests.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+export const WEBHOOK_HEADERS = {
+  event: "X-Wage-Event",
+  delivery: "X-Wage-Delivery",
+  timestamp: "X-Wage-Timestamp",
+  signature: "X-Wage-Signature",
+} as const;
+
+/** Default age, in seconds, after which a signed request is rejected */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Generate an endpoint secret
+ */
+export const generateWebhookSecret = (): string => `whsec_${randomBytes(32).toString("hex")}`;
+
+/**
+ * Signature header value for a body sent at `timestamp` (Unix seconds)
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+/**
+ * Check a received request's signature and timestamp headers against its raw body
+ */
+export const verifyWebhookSignature = (
+  secret: string,
+  body: string,
+  headers: { timestamp: string | null | undefined; signature: string | null | undefined },
+  toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+): boolean => {
+  const timestamp = Number(headers.timestamp);
+  if (!headers.signature || !Number.isInteger(timestamp)) return false;
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(headers.signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
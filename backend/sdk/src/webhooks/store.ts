@@ -0,0 +1,123 @@
+/**
+ * Webhooks - endpoint, delivery and cursor storage
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { EventCursor, normalizeAddress } from "../protocol/index.js";
+import { DeliveryFilter, WebhookDelivery, WebhookEndpoint, WebhookStore } from "./types.js";
+
+interface WebhookStoreData {
+  endpoints: WebhookEndpoint[];
+  deliveries: WebhookDelivery[];
+  cursor: EventCursor | null;
+}
+
+const emptyData = (): WebhookStoreData => ({ endpoints: [], deliveries: [], cursor: null });
+
+/**
+ * Store operations over a snapshot that subclasses load and save
+ */
+abstract class SnapshotWebhookStore implements WebhookStore {
+  protected abstract load(): WebhookStoreData;
+  protected abstract save(data: WebhookStoreData): void;
+
+  private update(change: (data: WebhookStoreData) => void): void {
+    const data = this.load();
+    change(data);
+    this.save(data);
+  }
+
+  async saveEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    this.update((data) => {
+      data.endpoints = [...data.endpoints.filter((entry) => entry.id !== endpoint.id), endpoint];
+    });
+  }
+
+  async removeEndpoint(id: string): Promise<boolean> {
+    let removed = false;
+    this.update((data) => {
+      removed = data.endpoints.some((entry) => entry.id === id);
+      data.endpoints = data.endpoints.filter((entry) => entry.id !== id);
+    });
+    return removed;
+  }
+
+  async listEndpoints(employer?: string): Promise<WebhookEndpoint[]> {
+    return this.load().endpoints.filter(
+      (entry) => employer === undefined || normalizeAddress(entry.employer) === normalizeAddress(employer)
+    );
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.update((data) => {
+      data.deliveries = [...data.deliveries.filter((entry) => entry.id !== delivery.id), delivery];
+    });
+  }
+
+  async removeDelivery(id: string): Promise<void> {
+    this.update((data) => {
+      data.deliveries = data.deliveries.filter((entry) => entry.id !== id);
+    });
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    return this.load().deliveries.find((entry) => entry.id === id) ?? null;
+  }
+
+  async listDeliveries(filter: DeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    return this.load().deliveries.filter(
+      (entry) =>
+        (filter.status === undefined || entry.status === filter.status) &&
+        (filter.endpointId === undefined || entry.endpointId === filter.endpointId) &&
+        (filter.employer === undefined || normalizeAddress(entry.employer) === normalizeAddress(filter.employer))
+    );
+  }
+
+  async getCursor(): Promise<EventCursor | null> {
+    return this.load().cursor;
+  }
+
+  async setCursor(cursor: EventCursor): Promise<void> {
+    this.update((data) => {
+      data.cursor = cursor;
+    });
+  }
+}
+
+/**
+ * Keeps webhook state in memory (lost when the process restarts)
+ */
+export class MemoryWebhookStore extends SnapshotWebhookStore {
+  private data = emptyData();
+
+  protected load(): WebhookStoreData {
+    return this.data;
+  }
+
+  protected save(data: WebhookStoreData): void {
+    this.data = data;
+  }
+}
+
+/**
+ * Keeps webhook state in a JSON file
+ *
+ * The file is re-read on every operation, so a CLI process can register
+ * endpoints or replay dead letters while a dispatcher runs against it.
+ */
+export class FileWebhookStore extends SnapshotWebhookStore {
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  protected load(): WebhookStoreData {
+    if (!existsSync(this.path)) return emptyData();
+    return { ...emptyData(), ...JSON.parse(readFileSync(this.path, "utf8")) };
+  }
+
+  protected save(data: WebhookStoreData): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, `${JSON.stringify(data, null, 2)}\n`, { mode: 0o600 });
+  }
+}
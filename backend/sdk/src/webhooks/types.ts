@@ -0,0 +1,106 @@
+/**
+ * Webhooks - shared types
+ */
+
+import { EventCursor } from "../protocol/index.js";
+
+// ============================================
+// EVENTS
+// ============================================
+
+export const WEBHOOK_EVENT_TYPES = [
+  "stream.created",
+  "stream.paused",
+  "stream.resumed",
+  "stream.terminated",
+  "wages.withdrawn",
+  "treasury.low_balance",
+  "dispute.opened",
+  "dispute.status_changed",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * JSON body POSTed to an endpoint
+ */
+export interface WebhookPayload {
+  /** Stable per protocol event, e.g. `evt_123456_2`; the same across retries and replays */
+  id: string;
+  type: WebhookEventType;
+  employer: string;
+  /** ISO time the payload was first built */
+  createdAt: string;
+  transactionVersion: string;
+  /** Event fields, with u64 amounts as decimal strings */
+  data: Record<string, unknown>;
+}
+
+// ============================================
+// ENDPOINTS & DELIVERIES
+// ============================================
+
+/**
+ * An employer's registered receiver
+ */
+export interface WebhookEndpoint {
+  id: string;
+  employer: string;
+  url: string;
+  /** HMAC-SHA256 key shared with the receiver */
+  secret: string;
+  /** Event types to send (all when omitted) */
+  events?: WebhookEventType[];
+  /** ISO time the endpoint was registered */
+  createdAt: string;
+}
+
+export interface RegisterWebhookInput {
+  employer: string;
+  url: string;
+  events?: WebhookEventType[];
+  /** Generated when omitted */
+  secret?: string;
+}
+
+/**
+ * One payload owed to one endpoint; removed once delivered
+ */
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  employer: string;
+  payload: WebhookPayload;
+  /** `pending` until delivered, `dead` once retries are exhausted */
+  status: "pending" | "dead";
+  attempts: number;
+  /** Unix milliseconds of the next attempt (pending only) */
+  nextAttemptAt: number;
+  lastAttemptAt?: number;
+  lastError?: string;
+}
+
+export interface DeliveryFilter {
+  status?: WebhookDelivery["status"];
+  employer?: string;
+  endpointId?: string;
+}
+
+/**
+ * Storage for endpoints, the delivery outbox and dead letters, and the event cursor
+ */
+export interface WebhookStore {
+  saveEndpoint(endpoint: WebhookEndpoint): Promise<void>;
+  removeEndpoint(id: string): Promise<boolean>;
+  /** All endpoints, or those of one employer */
+  listEndpoints(employer?: string): Promise<WebhookEndpoint[]>;
+
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+  removeDelivery(id: string): Promise<void>;
+  getDelivery(id: string): Promise<WebhookDelivery | null>;
+  listDeliveries(filter?: DeliveryFilter): Promise<WebhookDelivery[]>;
+
+  /** Last protocol event turned into deliveries */
+  getCursor(): Promise<EventCursor | null>;
+  setCursor(cursor: EventCursor): Promise<void>;
+}
@@ -9,7 +9,7 @@
 /// - Employer fund pool management
 /// - Automatic liquidity allocation to streams
 /// - Treasury health monitoring
-/// - Multi-currency support preparation
+/// - Per-asset balances for fungible assets (e.g. stablecoins)
 ///
 /// @author Daily Wage Protocol Team
 /// @version 1.0.0
@@ -18,11 +18,15 @@
 module wage_streaming_addr::employer_treasury {
     use std::signer;
     use std::vector;
+    use aptos_std::table::{Self, Table};
     use aptos_framework::timestamp;
     use aptos_framework::coin::{Self, Coin};
     use aptos_framework::aptos_coin::AptosCoin;
     use aptos_framework::event::{Self, EventHandle};
     use aptos_framework::account;
+    use aptos_framework::object::{Self, ExtendRef, Object};
+    use aptos_framework::fungible_asset::Metadata;
+    use aptos_framework::primary_fungible_store;
     
     use wage_streaming_addr::error_codes;
 
@@ -148,10 +152,54 @@ module wage_streaming_addr::employer_treasury {
         low_balance_alerts: u64,
     }
 
+    /// Balances of one fungible asset in an employer's asset treasury
+    struct AssetBalance has store, drop, copy {
+        /// Total balance of the asset
+        total_balance: u64,
+        /// Always 0: asset streams are not funded from the asset treasury
+        allocated_balance: u64,
+        /// Withdrawable balance; all of the total
+        available_balance: u64,
+        /// Always 0: nothing is reserved on asset deposits
+        reserve_balance: u64,
+    }
+
+    /// Employer's fungible asset balances, next to the APT EmployerTreasury.
+    /// Funds sit in the primary stores of an object only this module can sign for.
+    /// The asset treasury is separate from stream funding: `create_stream_with_asset`
+    /// escrows each stream's deposit from the employer's own primary store, so
+    /// nothing here is allocated or held back and the whole balance stays withdrawable.
+    struct AssetTreasury has key {
+        /// Signer capability for the vault object
+        extend_ref: ExtendRef,
+        /// Assets in deposit order
+        assets: vector<Object<Metadata>>,
+        /// Balances by asset metadata address
+        balances: Table<address, AssetBalance>,
+    }
+
     // =========================================================================
     // EVENTS
     // =========================================================================
 
+    #[event]
+    struct AssetDepositEvent has drop, store {
+        employer: address,
+        asset: address,
+        amount: u64,
+        new_balance: u64,
+        timestamp: u64,
+    }
+
+    #[event]
+    struct AssetWithdrawalEvent has drop, store {
+        employer: address,
+        asset: address,
+        amount: u64,
+        remaining_balance: u64,
+        timestamp: u64,
+    }
+
     struct TreasuryCreatedEvent has drop, store {
         employer: address,
         initial_deposit: u64,
@@ -350,6 +398,66 @@ module wage_streaming_addr::employer_treasury {
         );
     }
 
+    /// Deposit a fungible asset (e.g. a stablecoin) into the employer's asset treasury
+    /// Amounts are in the asset's smallest unit; the whole deposit is available
+    public entry fun deposit_asset(
+        employer: &signer,
+        registry_addr: address,
+        asset: Object<Metadata>,
+        amount: u64,
+    ) acquires TreasuryRegistry, EmployerTreasury, AssetTreasury {
+        let employer_addr = signer::address_of(employer);
+        
+        // Validate
+        assert!(exists<TreasuryRegistry>(registry_addr), error_codes::not_initialized());
+        assert!(amount > 0, error_codes::invalid_amount());
+        
+        let registry = borrow_global<TreasuryRegistry>(registry_addr);
+        assert!(!registry.is_frozen, error_codes::protocol_paused());
+        
+        // A frozen APT treasury freezes the employer's asset balances too
+        if (exists<EmployerTreasury>(employer_addr)) {
+            assert!(!borrow_global<EmployerTreasury>(employer_addr).is_frozen, error_codes::treasury_frozen());
+        };
+        
+        if (!exists<AssetTreasury>(employer_addr)) {
+            let constructor_ref = object::create_object(registry_addr);
+            move_to(employer, AssetTreasury {
+                extend_ref: object::generate_extend_ref(&constructor_ref),
+                assets: vector::empty(),
+                balances: table::new(),
+            });
+        };
+        let treasury = borrow_global_mut<AssetTreasury>(employer_addr);
+        
+        let asset_addr = object::object_address(&asset);
+        if (!table::contains(&treasury.balances, asset_addr)) {
+            vector::push_back(&mut treasury.assets, asset);
+            table::add(&mut treasury.balances, asset_addr, AssetBalance {
+                total_balance: 0,
+                allocated_balance: 0,
+                available_balance: 0,
+                reserve_balance: 0,
+            });
+        };
+        
+        // Move funds into the vault
+        let payment = primary_fungible_store::withdraw(employer, asset, amount);
+        primary_fungible_store::deposit(object::address_from_extend_ref(&treasury.extend_ref), payment);
+        
+        let balance = table::borrow_mut(&mut treasury.balances, asset_addr);
+        balance.total_balance = balance.total_balance + amount;
+        balance.available_balance = balance.available_balance + amount;
+        
+        event::emit(AssetDepositEvent {
+            employer: employer_addr,
+            asset: asset_addr,
+            amount,
+            new_balance: balance.total_balance,
+            timestamp: timestamp::now_seconds(),
+        });
+    }
+
     // =========================================================================
     // ALLOCATION FUNCTIONS
     // =========================================================================
@@ -603,6 +711,48 @@ module wage_streaming_addr::employer_treasury {
         );
     }
 
+    /// Withdraw available balance of a fungible asset from the asset treasury
+    public entry fun withdraw_asset(
+        employer: &signer,
+        registry_addr: address,
+        asset: Object<Metadata>,
+        amount: u64,
+    ) acquires EmployerTreasury, AssetTreasury {
+        let employer_addr = signer::address_of(employer);
+        
+        // Validate
+        assert!(exists<TreasuryRegistry>(registry_addr), error_codes::not_initialized());
+        assert!(exists<AssetTreasury>(employer_addr), error_codes::treasury_not_initialized());
+        assert!(amount > 0, error_codes::invalid_amount());
+        
+        if (exists<EmployerTreasury>(employer_addr)) {
+            assert!(!borrow_global<EmployerTreasury>(employer_addr).is_frozen, error_codes::treasury_frozen());
+        };
+        
+        let treasury = borrow_global_mut<AssetTreasury>(employer_addr);
+        let asset_addr = object::object_address(&asset);
+        assert!(table::contains(&treasury.balances, asset_addr), error_codes::insufficient_funds());
+        
+        let balance = table::borrow_mut(&mut treasury.balances, asset_addr);
+        assert!(balance.available_balance >= amount, error_codes::insufficient_funds());
+        
+        balance.total_balance = balance.total_balance - amount;
+        balance.available_balance = balance.available_balance - amount;
+        let remaining_balance = balance.total_balance;
+        
+        // Transfer from the vault
+        let vault_signer = object::generate_signer_for_extending(&treasury.extend_ref);
+        primary_fungible_store::transfer(&vault_signer, asset, employer_addr, amount);
+        
+        event::emit(AssetWithdrawalEvent {
+            employer: employer_addr,
+            asset: asset_addr,
+            amount,
+            remaining_balance,
+            timestamp: timestamp::now_seconds(),
+        });
+    }
+
     /// Emergency withdrawal of all available funds
     public entry fun emergency_withdraw(
         employer: &signer,
@@ -637,6 +787,39 @@ module wage_streaming_addr::employer_treasury {
         )
     }
 
+    #[view]
+    /// Get balance details of a fungible asset in the asset treasury
+    /// Returns zeros for assets the employer never deposited
+    public fun get_asset_balance(
+        employer: address,
+        asset: Object<Metadata>,
+    ): (u64, u64, u64, u64) acquires AssetTreasury {
+        let asset_addr = object::object_address(&asset);
+        if (!exists<AssetTreasury>(employer)) {
+            return (0, 0, 0, 0)
+        };
+        let treasury = borrow_global<AssetTreasury>(employer);
+        if (!table::contains(&treasury.balances, asset_addr)) {
+            return (0, 0, 0, 0)
+        };
+        let balance = table::borrow(&treasury.balances, asset_addr);
+        (
+            balance.total_balance,
+            balance.allocated_balance,
+            balance.available_balance,
+            balance.reserve_balance,
+        )
+    }
+
+    #[view]
+    /// Get the fungible assets an employer has deposited, in deposit order
+    public fun get_treasury_assets(employer: address): vector<Object<Metadata>> acquires AssetTreasury {
+        if (!exists<AssetTreasury>(employer)) {
+            return vector::empty()
+        };
+        borrow_global<AssetTreasury>(employer).assets
+    }
+
     #[view]
     /// Get treasury status
     public fun get_treasury_status(employer: address): (u8, bool, u64) acquires EmployerTreasury {
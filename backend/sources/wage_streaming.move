@@ -21,11 +21,15 @@ module wage_streaming_addr::wage_streaming {
     use std::vector;
     use std::option;
     use std::string::String;
+    use aptos_std::table::{Self, Table};
     use aptos_framework::timestamp;
     use aptos_framework::coin::{Self, Coin};
     use aptos_framework::aptos_coin::AptosCoin;
     use aptos_framework::event::{Self, EventHandle};
     use aptos_framework::account;
+    use aptos_framework::object::{Self, ExtendRef, Object};
+    use aptos_framework::fungible_asset::{Self, Metadata};
+    use aptos_framework::primary_fungible_store;
     
     use wage_streaming_addr::error_codes;
 
@@ -151,6 +155,16 @@ module wage_streaming_addr::wage_streaming {
         funds: Coin<AptosCoin>,
     }
 
+    /// Escrow for an employer's fungible asset streams (e.g. stablecoins), kept
+    /// at the employer address. Funds sit in the primary stores of an object
+    /// only this module can sign for; APT streams stay in StreamEscrow.
+    struct EmployerAssetEscrow has key {
+        /// Signer capability for the escrow object
+        extend_ref: ExtendRef,
+        /// Asset each fungible asset stream pays in, by stream ID
+        stream_assets: Table<u64, Object<Metadata>>,
+    }
+
     // =========================================================================
     // EVENTS
     // =========================================================================
@@ -235,7 +249,50 @@ module wage_streaming_addr::wage_streaming {
         total_amount: u64,
         duration_seconds: u64,
         job_description: String,
-    ) acquires StreamRegistry, StreamStore, EmployerStreams, EmployeeStreams, StreamEscrow {
+    ) acquires StreamRegistry, StreamStore, EmployerStreams, EmployeeStreams, StreamEscrow, EmployerAssetEscrow {
+        create_stream_internal(
+            employer,
+            registry_addr,
+            employee,
+            option::none(),
+            total_amount,
+            duration_seconds,
+            job_description,
+        );
+    }
+
+    /// Create a wage stream paid in a fungible asset (e.g. a stablecoin)
+    /// Amounts are in the asset's smallest unit; the protocol fee is paid in the asset
+    public entry fun create_stream_with_asset(
+        employer: &signer,
+        registry_addr: address,
+        employee: address,
+        asset: Object<Metadata>,
+        total_amount: u64,
+        duration_seconds: u64,
+        job_description: String,
+    ) acquires StreamRegistry, StreamStore, EmployerStreams, EmployeeStreams, StreamEscrow, EmployerAssetEscrow {
+        create_stream_internal(
+            employer,
+            registry_addr,
+            employee,
+            option::some(asset),
+            total_amount,
+            duration_seconds,
+            job_description,
+        );
+    }
+
+    /// Shared stream creation; `asset` is none for APT streams
+    fun create_stream_internal(
+        employer: &signer,
+        registry_addr: address,
+        employee: address,
+        asset: option::Option<Object<Metadata>>,
+        total_amount: u64,
+        duration_seconds: u64,
+        job_description: String,
+    ) acquires StreamRegistry, StreamStore, EmployerStreams, EmployeeStreams, StreamEscrow, EmployerAssetEscrow {
         let employer_addr = signer::address_of(employer);
         
         // Validate registry exists
@@ -280,23 +337,48 @@ module wage_streaming_addr::wage_streaming {
         let fee_amount = (total_amount * registry.fee_rate_bps) / 10000;
         let net_amount = total_amount - fee_amount;
         
-        // Transfer funds from employer to escrow
-        let payment = coin::withdraw<AptosCoin>(employer, total_amount);
+        let stream_id = registry.next_stream_id;
         
-        // Split fee if any
-        if (fee_amount > 0) {
-            let fee_coin = coin::extract(&mut payment, fee_amount);
-            // Deposit fee to protocol admin
-            coin::deposit(registry.admin, fee_coin);
-            registry.accumulated_fees = registry.accumulated_fees + fee_amount;
+        if (option::is_none(&asset)) {
+            // Transfer funds from employer to escrow
+            let payment = coin::withdraw<AptosCoin>(employer, total_amount);
+            
+            // Split fee if any
+            if (fee_amount > 0) {
+                let fee_coin = coin::extract(&mut payment, fee_amount);
+                // Deposit fee to protocol admin
+                coin::deposit(registry.admin, fee_coin);
+                registry.accumulated_fees = registry.accumulated_fees + fee_amount;
+            };
+            
+            // Add remaining to escrow
+            let escrow = borrow_global_mut<StreamEscrow>(registry_addr);
+            coin::merge(&mut escrow.funds, payment);
+            
+            // Registry TVL and fees are denominated in APT
+            registry.total_value_locked = registry.total_value_locked + net_amount;
+        } else {
+            let metadata = option::extract(&mut asset);
+            let payment = primary_fungible_store::withdraw(employer, metadata, total_amount);
+            
+            if (fee_amount > 0) {
+                let fee = fungible_asset::extract(&mut payment, fee_amount);
+                primary_fungible_store::deposit(registry.admin, fee);
+            };
+            
+            if (!exists<EmployerAssetEscrow>(employer_addr)) {
+                let constructor_ref = object::create_object(registry_addr);
+                move_to(employer, EmployerAssetEscrow {
+                    extend_ref: object::generate_extend_ref(&constructor_ref),
+                    stream_assets: table::new(),
+                });
+            };
+            let asset_escrow = borrow_global_mut<EmployerAssetEscrow>(employer_addr);
+            primary_fungible_store::deposit(object::address_from_extend_ref(&asset_escrow.extend_ref), payment);
+            table::add(&mut asset_escrow.stream_assets, stream_id, metadata);
         };
         
-        // Add remaining to escrow
-        let escrow = borrow_global_mut<StreamEscrow>(registry_addr);
-        coin::merge(&mut escrow.funds, payment);
-        
         // Create new stream
-        let stream_id = registry.next_stream_id;
         let new_stream = WageStream {
             stream_id,
             employer: employer_addr,
@@ -320,7 +402,6 @@ module wage_streaming_addr::wage_streaming {
         
         // Update registry
         registry.next_stream_id = stream_id + 1;
-        registry.total_value_locked = registry.total_value_locked + net_amount;
         registry.active_streams_count = registry.active_streams_count + 1;
         
         // Update employer streams
@@ -368,7 +449,7 @@ module wage_streaming_addr::wage_streaming {
         employee: &signer,
         registry_addr: address,
         stream_id: u64,
-    ) acquires StreamRegistry, StreamStore, EmployeeStreams, StreamEscrow {
+    ) acquires StreamRegistry, StreamStore, EmployeeStreams, StreamEscrow, EmployerAssetEscrow {
         let employee_addr = signer::address_of(employee);
         
         // Validate registry
@@ -406,13 +487,8 @@ module wage_streaming_addr::wage_streaming {
             registry.completed_streams_count = registry.completed_streams_count + 1;
         };
         
-        // Update TVL
-        registry.total_value_locked = registry.total_value_locked - withdrawable;
-        
         // Transfer funds from escrow
-        let escrow = borrow_global_mut<StreamEscrow>(registry_addr);
-        let payment = coin::extract(&mut escrow.funds, withdrawable);
-        coin::deposit(employee_addr, payment);
+        release_funds(registry, registry_addr, stream.employer, stream_id, employee_addr, withdrawable);
         
         // Update employee data if exists
         if (exists<EmployeeStreams>(employee_addr)) {
@@ -438,7 +514,7 @@ module wage_streaming_addr::wage_streaming {
     public entry fun withdraw_all(
         employee: &signer,
         registry_addr: address,
-    ) acquires StreamRegistry, StreamStore, EmployeeStreams, StreamEscrow {
+    ) acquires StreamRegistry, StreamStore, EmployeeStreams, StreamEscrow, EmployerAssetEscrow {
         let employee_addr = signer::address_of(employee);
         
         assert!(exists<EmployeeStreams>(employee_addr), error_codes::no_active_streams());
@@ -465,7 +541,7 @@ module wage_streaming_addr::wage_streaming {
         employee_addr: address,
         registry_addr: address,
         stream_id: u64,
-    ) acquires StreamRegistry, StreamStore, EmployeeStreams, StreamEscrow {
+    ) acquires StreamRegistry, StreamStore, EmployeeStreams, StreamEscrow, EmployerAssetEscrow {
         let registry = borrow_global_mut<StreamRegistry>(registry_addr);
         if (registry.is_paused) return;
         
@@ -494,11 +570,7 @@ module wage_streaming_addr::wage_streaming {
             registry.completed_streams_count = registry.completed_streams_count + 1;
         };
         
-        registry.total_value_locked = registry.total_value_locked - withdrawable;
-        
-        let escrow = borrow_global_mut<StreamEscrow>(registry_addr);
-        let payment = coin::extract(&mut escrow.funds, withdrawable);
-        coin::deposit(employee_addr, payment);
+        release_funds(registry, registry_addr, stream.employer, stream_id, employee_addr, withdrawable);
         
         if (exists<EmployeeStreams>(employee_addr)) {
             let emp_data = borrow_global_mut<EmployeeStreams>(employee_addr);
@@ -613,7 +685,7 @@ module wage_streaming_addr::wage_streaming {
         caller: &signer,
         registry_addr: address,
         stream_id: u64,
-    ) acquires StreamRegistry, StreamStore, StreamEscrow, EmployerStreams {
+    ) acquires StreamRegistry, StreamStore, StreamEscrow, EmployerStreams, EmployerAssetEscrow {
         let caller_addr = signer::address_of(caller);
         
         assert!(exists<StreamRegistry>(registry_addr), error_codes::not_initialized());
@@ -646,18 +718,14 @@ module wage_streaming_addr::wage_streaming {
         stream.end_time = current_time;
         
         // Transfer owed amount to employee
-        let escrow = borrow_global_mut<StreamEscrow>(registry_addr);
-        
         if (owed_to_employee > 0) {
-            let emp_payment = coin::extract(&mut escrow.funds, owed_to_employee);
-            coin::deposit(stream.employee, emp_payment);
+            release_funds(registry, registry_addr, stream.employer, stream_id, stream.employee, owed_to_employee);
             stream.total_withdrawn = stream.total_withdrawn + owed_to_employee;
         };
         
         // Return remaining to employer
         if (remaining > 0) {
-            let refund = coin::extract(&mut escrow.funds, remaining);
-            coin::deposit(stream.employer, refund);
+            release_funds(registry, registry_addr, stream.employer, stream_id, stream.employer, remaining);
             
             if (exists<EmployerStreams>(stream.employer)) {
                 let emp_data = borrow_global_mut<EmployerStreams>(stream.employer);
@@ -667,7 +735,6 @@ module wage_streaming_addr::wage_streaming {
         
         // Update registry
         registry.active_streams_count = registry.active_streams_count - 1;
-        registry.total_value_locked = registry.total_value_locked - owed_to_employee - remaining;
         
         // Emit event
         event::emit_event(
@@ -718,7 +785,18 @@ module wage_streaming_addr::wage_streaming {
     }
 
     #[view]
-    /// Get registry statistics
+    /// Get the fungible asset a stream pays in (none for APT streams)
+    public fun get_stream_asset(
+        registry_addr: address,
+        stream_id: u64,
+    ): option::Option<Object<Metadata>> acquires StreamStore, EmployerAssetEscrow {
+        let store = borrow_global<StreamStore>(registry_addr);
+        let employer = get_stream(&store.streams, stream_id).employer;
+        stream_asset(employer, stream_id)
+    }
+
+    #[view]
+    /// Get registry statistics (TVL and fees count APT streams only)
     public fun get_registry_stats(
         registry_addr: address,
     ): (u64, u64, u64, u64) acquires StreamRegistry {
@@ -786,6 +864,44 @@ module wage_streaming_addr::wage_streaming {
         }
     }
 
+    /// Asset of an employer's fungible asset stream, none for APT streams
+    fun stream_asset(
+        employer: address,
+        stream_id: u64,
+    ): option::Option<Object<Metadata>> acquires EmployerAssetEscrow {
+        if (!exists<EmployerAssetEscrow>(employer)) {
+            return option::none()
+        };
+        let asset_escrow = borrow_global<EmployerAssetEscrow>(employer);
+        if (!table::contains(&asset_escrow.stream_assets, stream_id)) {
+            return option::none()
+        };
+        option::some(*table::borrow(&asset_escrow.stream_assets, stream_id))
+    }
+
+    /// Pay `amount` of a stream's escrowed funds to `recipient`, from StreamEscrow
+    /// for APT streams (updating TVL) or the employer's asset escrow otherwise
+    fun release_funds(
+        registry: &mut StreamRegistry,
+        registry_addr: address,
+        employer: address,
+        stream_id: u64,
+        recipient: address,
+        amount: u64,
+    ) acquires StreamEscrow, EmployerAssetEscrow {
+        let asset = stream_asset(employer, stream_id);
+        if (option::is_none(&asset)) {
+            registry.total_value_locked = registry.total_value_locked - amount;
+            let escrow = borrow_global_mut<StreamEscrow>(registry_addr);
+            let payment = coin::extract(&mut escrow.funds, amount);
+            coin::deposit(recipient, payment);
+        } else {
+            let asset_escrow = borrow_global<EmployerAssetEscrow>(employer);
+            let escrow_signer = object::generate_signer_for_extending(&asset_escrow.extend_ref);
+            primary_fungible_store::transfer(&escrow_signer, option::extract(&mut asset), recipient, amount);
+        };
+    }
+
     /// Get stream by ID (immutable)
     fun get_stream(streams: &vector<WageStream>, stream_id: u64): &WageStream {
         let len = vector::length(streams);
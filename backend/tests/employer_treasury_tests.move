@@ -1,10 +1,16 @@
 /// Tests for employer_treasury module
 module wage_streaming_addr::employer_treasury_tests {
+    use std::option;
     use std::signer;
+    use std::string;
+    use std::vector;
     use aptos_framework::account;
     use aptos_framework::timestamp;
     use aptos_framework::coin;
     use aptos_framework::aptos_coin::{Self, AptosCoin};
+    use aptos_framework::object::{Self, Object};
+    use aptos_framework::fungible_asset::{Self, Metadata};
+    use aptos_framework::primary_fungible_store;
     use wage_streaming_addr::employer_treasury;
 
     // =========================================================================
@@ -37,6 +43,24 @@ module wage_streaming_addr::employer_treasury_tests {
         (burn_cap, mint_cap)
     }
 
+    #[test_only]
+    /// Create a 6-decimal stablecoin and mint `amount` to `recipient`
+    fun create_stablecoin(issuer: &signer, recipient: address, amount: u64): Object<Metadata> {
+        let constructor_ref = object::create_named_object(issuer, b"INRC");
+        primary_fungible_store::create_primary_store_enabled_fungible_asset(
+            &constructor_ref,
+            option::none(),
+            string::utf8(b"Rupee Coin"),
+            string::utf8(b"INRC"),
+            6,
+            string::utf8(b""),
+            string::utf8(b""),
+        );
+        let mint_ref = fungible_asset::generate_mint_ref(&constructor_ref);
+        primary_fungible_store::mint(&mint_ref, recipient, amount);
+        object::object_from_constructor_ref<Metadata>(&constructor_ref)
+    }
+
     // =========================================================================
     // REGISTRY INITIALIZATION TESTS
     // =========================================================================
@@ -115,4 +139,99 @@ module wage_streaming_addr::employer_treasury_tests {
         coin::destroy_burn_cap(burn_cap);
         coin::destroy_mint_cap(mint_cap);
     }
+
+    // =========================================================================
+    // ASSET TREASURY TESTS
+    // =========================================================================
+
+    #[test(aptos_framework = @aptos_framework, admin = @0x100, employer = @0x200)]
+    fun test_deposit_and_withdraw_asset(
+        aptos_framework: &signer,
+        admin: &signer,
+        employer: &signer,
+    ) {
+        setup_test_env(aptos_framework);
+        
+        let admin_addr = signer::address_of(admin);
+        let employer_addr = signer::address_of(employer);
+        account::create_account_for_test(admin_addr);
+        account::create_account_for_test(employer_addr);
+        
+        employer_treasury::initialize_registry(admin);
+        let inrc = create_stablecoin(admin, employer_addr, 100_000_000_000);
+        
+        // 10,000 INRC, all of it available
+        employer_treasury::deposit_asset(employer, admin_addr, inrc, 10_000_000_000);
+        let (total, allocated, available, reserve) = employer_treasury::get_asset_balance(employer_addr, inrc);
+        assert!(total == 10_000_000_000, 1);
+        assert!(allocated == 0, 2);
+        assert!(available == 10_000_000_000, 3);
+        assert!(reserve == 0, 4);
+        assert!(primary_fungible_store::balance(employer_addr, inrc) == 90_000_000_000, 5);
+        
+        let assets = employer_treasury::get_treasury_assets(employer_addr);
+        assert!(vector::length(&assets) == 1, 6);
+        assert!(*vector::borrow(&assets, 0) == inrc, 7);
+        
+        // The APT treasury is untouched
+        assert!(!employer_treasury::treasury_exists(employer_addr), 8);
+        
+        employer_treasury::withdraw_asset(employer, admin_addr, inrc, 4_000_000_000);
+        let (total, _, available, _) = employer_treasury::get_asset_balance(employer_addr, inrc);
+        assert!(total == 6_000_000_000, 9);
+        assert!(available == 6_000_000_000, 10);
+        assert!(primary_fungible_store::balance(employer_addr, inrc) == 94_000_000_000, 11);
+    }
+
+    #[test(aptos_framework = @aptos_framework, admin = @0x100, employer = @0x200)]
+    fun test_withdraw_full_asset_deposit(
+        aptos_framework: &signer,
+        admin: &signer,
+        employer: &signer,
+    ) {
+        setup_test_env(aptos_framework);
+        
+        let admin_addr = signer::address_of(admin);
+        let employer_addr = signer::address_of(employer);
+        account::create_account_for_test(admin_addr);
+        account::create_account_for_test(employer_addr);
+        
+        employer_treasury::initialize_registry(admin);
+        let inrc = create_stablecoin(admin, employer_addr, 100_000_000_000);
+        
+        // Two deposits come back in full
+        employer_treasury::deposit_asset(employer, admin_addr, inrc, 10_000_000_000);
+        employer_treasury::deposit_asset(employer, admin_addr, inrc, 2_500_000_000);
+        employer_treasury::withdraw_asset(employer, admin_addr, inrc, 12_500_000_000);
+        
+        let (total, allocated, available, reserve) = employer_treasury::get_asset_balance(employer_addr, inrc);
+        assert!(total == 0, 1);
+        assert!(allocated == 0, 2);
+        assert!(available == 0, 3);
+        assert!(reserve == 0, 4);
+        assert!(primary_fungible_store::balance(employer_addr, inrc) == 100_000_000_000, 5);
+    }
+
+    #[test(aptos_framework = @aptos_framework, admin = @0x100, employer = @0x200)]
+    #[expected_failure]
+    fun test_withdraw_asset_over_balance_fails(
+        aptos_framework: &signer,
+        admin: &signer,
+        employer: &signer,
+    ) {
+        setup_test_env(aptos_framework);
+        
+        let admin_addr = signer::address_of(admin);
+        let employer_addr = signer::address_of(employer);
+        account::create_account_for_test(admin_addr);
+        account::create_account_for_test(employer_addr);
+        
+        employer_treasury::initialize_registry(admin);
+        let inrc = create_stablecoin(admin, employer_addr, 100_000_000_000);
+        
+        employer_treasury::deposit_asset(employer, admin_addr, inrc, 10_000_000_000);
+        
+        // More than was deposited
+        employer_treasury::withdraw_asset(employer, admin_addr, inrc, 10_000_000_001);
+    }
 }
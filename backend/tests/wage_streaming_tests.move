@@ -1,11 +1,15 @@
 /// Tests for wage_streaming module
 module wage_streaming_addr::wage_streaming_tests {
+    use std::option;
     use std::string;
     use std::signer;
     use aptos_framework::account;
     use aptos_framework::timestamp;
     use aptos_framework::coin;
     use aptos_framework::aptos_coin::{Self, AptosCoin};
+    use aptos_framework::object::{Self, Object};
+    use aptos_framework::fungible_asset::{Self, Metadata};
+    use aptos_framework::primary_fungible_store;
     use wage_streaming_addr::wage_streaming;
 
     // =========================================================================
@@ -57,6 +61,24 @@ module wage_streaming_addr::wage_streaming_tests {
         coin::destroy_mint_cap(mint_cap);
     }
 
+    #[test_only]
+    /// Create a 6-decimal stablecoin and mint `amount` to `recipient`
+    fun create_stablecoin(issuer: &signer, recipient: address, amount: u64): Object<Metadata> {
+        let constructor_ref = object::create_named_object(issuer, b"INRC");
+        primary_fungible_store::create_primary_store_enabled_fungible_asset(
+            &constructor_ref,
+            option::none(),
+            string::utf8(b"Rupee Coin"),
+            string::utf8(b"INRC"),
+            6,
+            string::utf8(b""),
+            string::utf8(b""),
+        );
+        let mint_ref = fungible_asset::generate_mint_ref(&constructor_ref);
+        primary_fungible_store::mint(&mint_ref, recipient, amount);
+        object::object_from_constructor_ref<Metadata>(&constructor_ref)
+    }
+
     // =========================================================================
     // INITIALIZATION TESTS
     // =========================================================================
@@ -133,6 +155,144 @@ module wage_streaming_addr::wage_streaming_tests {
         );
     }
 
+    #[test(aptos_framework = @aptos_framework, admin = @0x100, employer = @0x200, employee = @0x300)]
+    fun test_asset_stream_withdraw_and_terminate(
+        aptos_framework: &signer,
+        admin: &signer,
+        employer: &signer,
+        employee: &signer,
+    ) {
+        setup_test_env(aptos_framework);
+        create_test_accounts(aptos_framework, admin, employer, employee);
+        
+        let admin_addr = signer::address_of(admin);
+        let employer_addr = signer::address_of(employer);
+        let employee_addr = signer::address_of(employee);
+        
+        wage_streaming::initialize(admin, 25);
+        let inrc = create_stablecoin(admin, employer_addr, 100_000_000_000);
+        
+        // 10,000 INRC over 10,000 seconds
+        wage_streaming::create_stream_with_asset(
+            employer,
+            admin_addr,
+            employee_addr,
+            inrc,
+            10_000_000_000,
+            10000,
+            string::utf8(b"Site Supervisor"),
+        );
+        
+        // 0.25% fee goes to the admin in INRC; APT TVL and fees are untouched
+        assert!(primary_fungible_store::balance(admin_addr, inrc) == 25_000_000, 1);
+        assert!(primary_fungible_store::balance(employer_addr, inrc) == 90_000_000_000, 2);
+        let (tvl, active, _, fees) = wage_streaming::get_registry_stats(admin_addr);
+        assert!(tvl == 0 && fees == 0, 3);
+        assert!(active == 1, 4);
+        assert!(wage_streaming::get_stream_asset(admin_addr, 1) == option::some(inrc), 5);
+        
+        // A quarter of the way through
+        timestamp::fast_forward_seconds(2500);
+        wage_streaming::withdraw_wages(employee, admin_addr, 1);
+        assert!(primary_fungible_store::balance(employee_addr, inrc) == 2_500_000_000, 6);
+        
+        // Terminating refunds the unstreamed remainder to the employer
+        wage_streaming::terminate_stream(employer, admin_addr, 1);
+        assert!(primary_fungible_store::balance(employer_addr, inrc) == 97_475_000_000, 7);
+        assert!(coin::balance<AptosCoin>(employer_addr) == 100_000_000_000, 8);
+    }
+
+    // =========================================================================
+    // ACCRUAL TESTS
+    // The SDK's accrual specs (sdk/src/protocol/accrual.test.ts) check the same
+    // balances; change both together
+    // =========================================================================
+
+    #[test(aptos_framework = @aptos_framework, admin = @0x100, employer = @0x200, employee = @0x300)]
+    fun test_withdrawable_balance_rounding_pause_and_end(
+        aptos_framework: &signer,
+        admin: &signer,
+        employer: &signer,
+        employee: &signer,
+    ) {
+        setup_test_env(aptos_framework);
+        create_test_accounts(aptos_framework, admin, employer, employee);
+        
+        let admin_addr = signer::address_of(admin);
+        let employee_addr = signer::address_of(employee);
+        
+        // No fee, so the whole amount is deposited
+        wage_streaming::initialize(admin, 0);
+        
+        // 1_000_000_007 octas over a week: rate_per_second = 165_343_916_501, so every accrual rounds down
+        wage_streaming::create_stream(
+            employer,
+            admin_addr,
+            employee_addr,
+            1_000_000_007,
+            604800,
+            string::utf8(b"Accrual"),
+        );
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 0, 1);
+        
+        timestamp::fast_forward_seconds(1);
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 1_653, 2);
+        timestamp::fast_forward_seconds(2);
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 4_960, 3);
+        timestamp::fast_forward_seconds(997);
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 1_653_439, 4);
+        
+        // Paused at 1,000 seconds for 5,000 seconds: accrual stays at the pause time
+        wage_streaming::pause_stream(employer, admin_addr, 1);
+        timestamp::fast_forward_seconds(5000);
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 1_653_439, 5);
+        
+        // Resumed: the pause is left out and the end moves back by as much
+        wage_streaming::resume_stream(employer, admin_addr, 1);
+        timestamp::fast_forward_seconds(77);
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 1_780_753, 6);
+        
+        wage_streaming::withdraw_wages(employee, admin_addr, 1);
+        assert!(coin::balance<AptosCoin>(employee_addr) == 1_780_753, 7);
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 0, 8);
+        
+        // A day past the end (609,800): accrual stops at the end, one octa short of the deposit
+        timestamp::fast_forward_seconds(690123);
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 998_219_253, 9);
+    }
+
+    #[test(aptos_framework = @aptos_framework, admin = @0x100, employer = @0x200, employee = @0x300)]
+    fun test_withdrawable_balance_capped_at_deposit(
+        aptos_framework: &signer,
+        admin: &signer,
+        employer: &signer,
+        employee: &signer,
+    ) {
+        setup_test_env(aptos_framework);
+        create_test_accounts(aptos_framework, admin, employer, employee);
+        
+        let admin_addr = signer::address_of(admin);
+        let employee_addr = signer::address_of(employee);
+        
+        // The 0.25% fee comes out of the deposit (997_500_007) but not the rate
+        wage_streaming::initialize(admin, 25);
+        wage_streaming::create_stream(
+            employer,
+            admin_addr,
+            employee_addr,
+            1_000_000_007,
+            604800,
+            string::utf8(b"Accrual"),
+        );
+        
+        timestamp::fast_forward_seconds(603288);
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 997_500_006, 1);
+        timestamp::fast_forward_seconds(1);
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 997_500_007, 2);
+        timestamp::fast_forward_seconds(1000000);
+        assert!(wage_streaming::get_withdrawable_balance(admin_addr, 1) == 997_500_007, 3);
+    }
+
     // =========================================================================
     // VIEW FUNCTION TESTS
     // =========================================================================
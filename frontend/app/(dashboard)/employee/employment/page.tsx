@@ -11,13 +11,15 @@ import {
 } from "lucide-react";
 import { useAuth } from "@/contexts/AptosWalletContext";
 import { useEmployeeStreams } from "@/hooks/useWageStreaming";
-import { formatAmount, formatAddress, STREAM_STATUS_MAP, getActualAmount, STREAM_PRECISION } from "@/types";
+import { APT } from "@wage-protocol/sdk/protocol";
+import { formatAmount, formatAddress, STREAM_STATUS_MAP, getActualAmount, getStreamProgress, calculateEarned, STREAM_PRECISION } from "@/types";
 import { GlassCard } from "@/components/shared/GlassCard";
+import { PayslipDownload } from "@/components/shared/PayslipDownload";
 import { getExplorerUrl } from "@/lib/aptos/config";
 
 export default function EmployeeEmploymentPage() {
   const { isConnected, address } = useAuth();
-  const { streams, loading, refetch } = useEmployeeStreams();
+  const { streams, streamTokens, loading, refetch } = useEmployeeStreams();
 
   // Calculate employment stats
   const employmentStats = useMemo(() => {
@@ -25,13 +27,7 @@ export default function EmployeeEmploymentPage() {
     const completedStreams = streams.filter(s => s.status === 3);
     const uniqueEmployers = new Set(streams.map(s => s.employer)).size;
 
-    const totalEarned = streams.reduce((acc, s) => {
-      const now = BigInt(Math.floor(Date.now() / 1000));
-      const elapsed = now > BigInt(s.startTime) ? now - BigInt(s.startTime) : BigInt(0);
-      const duration = BigInt(s.endTime - s.startTime);
-      const effectiveElapsed = elapsed > duration ? duration : elapsed;
-      return acc + getActualAmount(s.ratePerSecond, effectiveElapsed);
-    }, BigInt(0));
+    const totalEarned = streams.reduce((acc, s) => acc + calculateEarned(s), BigInt(0));
 
     const averageDaily = activeStreams.reduce((acc, s) => 
       acc + getActualAmount(s.ratePerSecond, BigInt(86400)), BigInt(0)
@@ -184,12 +180,10 @@ export default function EmployeeEmploymentPage() {
         ) : streams.length > 0 ? (
           <div className="space-y-4">
             {streams.map((stream, i) => {
-              const now = Math.floor(Date.now() / 1000);
-              const duration = stream.endTime - stream.startTime;
-              const elapsed = Math.min(now - stream.startTime, duration);
-              const progress = duration > 0 ? (elapsed / duration) * 100 : 0;
+              const progress = getStreamProgress(stream);
               const dailyRate = getActualAmount(stream.ratePerSecond, BigInt(86400));
-              const totalValue = getActualAmount(stream.ratePerSecond, BigInt(duration));
+              // endTime moves back with every pause, so the rate over start..end would overstate it
+              const totalValue = stream.totalDeposited;
 
               return (
                 <motion.div
@@ -303,6 +297,13 @@ export default function EmployeeEmploymentPage() {
                         />
                       </div>
                     </div>
+
+                    {/* Monthly Payslips */}
+                    <PayslipDownload
+                      stream={stream}
+                      token={streamTokens[stream.streamId] ?? APT}
+                      className="mt-6 pt-4 border-t border-wap-border"
+                    />
                   </div>
                 </motion.div>
               );
@@ -16,8 +16,8 @@ import {
   useWageStreamingEmployee 
 } from "@/hooks/useWageStreaming";
 import { usePhotonBalance, usePhotonOperations } from "@/hooks/usePhotonRewards";
-import { formatAmount, formatAddress, STREAM_STATUS_MAP, getStreamProgress, getActualAmount, STREAM_PRECISION } from "@/types";
-import { getExplorerUrl } from "@/lib/aptos/config";
+import { formatAmount, formatAddress, STREAM_STATUS_MAP, getStreamProgress, getActualAmount, calculateWithdrawable, STREAM_PRECISION } from "@/types";
+import { getExplorerUrl, aptToOctas, aptAmount, octasToApt } from "@/lib/aptos/config";
 
 // Withdraw Modal Component
 const WithdrawModal = ({ 
@@ -39,12 +39,12 @@ const WithdrawModal = ({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const amountInOctas = BigInt(Math.floor(parseFloat(amount) * 100_000_000));
+    const amountInOctas = aptToOctas(amount);
     onSubmit(streamId, amountInOctas);
   };
 
   const handleMax = () => {
-    setAmount(formatAmount(maxAmount));
+    setAmount(aptAmount(maxAmount).toDecimalString());
   };
 
   if (!isOpen) return null;
@@ -76,7 +76,7 @@ const WithdrawModal = ({
               onChange={(e) => setAmount(e.target.value)}
               placeholder="0.00"
               step="0.01"
-              max={Number(formatAmount(maxAmount))}
+              max={octasToApt(maxAmount)}
               className="w-full px-4 py-3 rounded-xl border border-[#E8DED4] focus:border-[#E85A4F] focus:ring-1 focus:ring-[#E85A4F] outline-none transition-all"
               required
             />
@@ -129,18 +129,8 @@ export default function EmployeeDashboard() {
     
     // Total earned (withdrawn + withdrawable)
     const totalWithdrawn = streams.reduce((acc, s) => acc + s.totalWithdrawn, BigInt(0));
-    const totalWithdrawable = streams.reduce((acc, s) => {
-      if (s.status !== 1) return acc;
-      const now = BigInt(Math.floor(Date.now() / 1000));
-      const startTime = BigInt(s.startTime);
-      const endTime = BigInt(s.endTime);
-      const elapsed = now > startTime ? now - startTime : BigInt(0);
-      const duration = endTime - startTime;
-      const effectiveElapsed = elapsed > duration ? duration : elapsed;
-      // Apply PRECISION: earned = (ratePerSecond * effectiveElapsed) / PRECISION
-      const earned = getActualAmount(s.ratePerSecond, effectiveElapsed);
-      return acc + (earned > s.totalWithdrawn ? earned - s.totalWithdrawn : BigInt(0));
-    }, BigInt(0));
+    // Paused streams keep what they accrued before the pause withdrawable
+    const totalWithdrawable = streams.reduce((acc, s) => acc + calculateWithdrawable(s), BigInt(0));
     
     // Monthly rate calculation with PRECISION
     const monthlyRate = activeStreams.reduce((acc, s) => 
@@ -445,15 +435,7 @@ export default function EmployeeDashboard() {
                 </div>
               ) : (
                 streams.map((stream, i) => {
-                  const now = BigInt(Math.floor(Date.now() / 1000));
-                  const startTime = BigInt(stream.startTime);
-                  const endTime = BigInt(stream.endTime);
-                  const elapsed = now > startTime ? now - startTime : BigInt(0);
-                  const duration = endTime - startTime;
-                  const effectiveElapsed = elapsed > duration ? duration : elapsed;
-                  // Apply PRECISION to earned calculation
-                  const earned = getActualAmount(stream.ratePerSecond, effectiveElapsed);
-                  const withdrawable = earned > stream.totalWithdrawn ? earned - stream.totalWithdrawn : BigInt(0);
+                  const withdrawable = calculateWithdrawable(stream);
                   const progress = getStreamProgress(stream);
 
                   return (
@@ -561,16 +543,7 @@ export default function EmployeeDashboard() {
                     onClick={() => {
                       const activeStream = streams.find(s => s.status === 1);
                       if (activeStream) {
-                        const now = BigInt(Math.floor(Date.now() / 1000));
-                        const startTime = BigInt(activeStream.startTime);
-                        const endTime = BigInt(activeStream.endTime);
-                        const elapsed = now > startTime ? now - startTime : BigInt(0);
-                        const duration = endTime - startTime;
-                        const effectiveElapsed = elapsed > duration ? duration : elapsed;
-                        // Apply PRECISION to earned calculation
-                        const earned = getActualAmount(activeStream.ratePerSecond, effectiveElapsed);
-                        const withdrawable = earned > activeStream.totalWithdrawn ? earned - activeStream.totalWithdrawn : BigInt(0);
-                        openWithdrawModal(Number(activeStream.streamId), withdrawable);
+                        openWithdrawModal(Number(activeStream.streamId), calculateWithdrawable(activeStream));
                       }
                     }}
                   >
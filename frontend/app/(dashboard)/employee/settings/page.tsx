@@ -6,16 +6,18 @@ import { Button } from "@/components/ui/button";
 import {
   Settings, Bell, Shield, User, Wallet, Globe, Moon, Sun,
   AlertCircle, Loader2, Save, Check, ExternalLink, Copy,
-  Mail, Key, Lock, RefreshCw, Trash2, ChevronRight, Smartphone
+  Mail, Key, Lock, RefreshCw, Trash2, ChevronRight, Smartphone, Calculator
 } from "lucide-react";
 import { useAuth } from "@/contexts/AptosWalletContext";
 import { formatAddress } from "@/types";
 import { GlassCard } from "@/components/shared/GlassCard";
-import { getExplorerUrl, NETWORK } from "@/lib/aptos/config";
+import { NetworkSwitcher } from "@/components/shared/NetworkStatus";
+import { TaxRegimeCalculator } from "@/components/shared/TaxRegimeCalculator";
+import { getExplorerUrl } from "@/lib/aptos/config";
 
 export default function EmployeeSettingsPage() {
   const { isConnected, address } = useAuth();
-  const [activeTab, setActiveTab] = useState<"profile" | "notifications" | "security" | "preferences">("profile");
+  const [activeTab, setActiveTab] = useState<"profile" | "tax" | "notifications" | "security" | "preferences">("profile");
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
   const [copied, setCopied] = useState(false);
@@ -49,6 +51,7 @@ export default function EmployeeSettingsPage() {
 
   const tabs = [
     { id: "profile" as const, label: "Profile", icon: User },
+    { id: "tax" as const, label: "Tax Regime", icon: Calculator },
     { id: "notifications" as const, label: "Notifications", icon: Bell },
     { id: "security" as const, label: "Security", icon: Shield },
     { id: "preferences" as const, label: "Preferences", icon: Settings },
@@ -212,6 +215,8 @@ export default function EmployeeSettingsPage() {
               </div>
             )}
 
+            {activeTab === "tax" && <TaxRegimeCalculator />}
+
             {activeTab === "notifications" && (
               <div className="bg-white rounded-2xl border border-wap-border shadow-sm overflow-hidden">
                 <div className="p-6 border-b border-wap-border">
@@ -370,12 +375,10 @@ export default function EmployeeSettingsPage() {
                       <Globe className="w-5 h-5 text-wap-text-secondary" />
                       <div>
                         <h3 className="font-medium text-wap-text-primary">Network</h3>
-                        <p className="text-sm text-wap-text-tertiary">Current blockchain network</p>
+                        <p className="text-sm text-wap-text-tertiary">Blockchain network the app uses</p>
                       </div>
                     </div>
-                    <span className="px-3 py-1 rounded-full bg-wap-navy/10 text-wap-navy text-sm font-medium capitalize">
-                      {NETWORK}
-                    </span>
+                    <NetworkSwitcher />
                   </div>
 
                   <div className="flex items-center justify-between p-4 rounded-xl bg-wap-section">
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import {
@@ -9,88 +9,138 @@ import {
   ChevronDown, ExternalLink, Wallet, TrendingUp, FileText
 } from "lucide-react";
 import { useAuth } from "@/contexts/AptosWalletContext";
-import { useEmployeeStreams } from "@/hooks/useWageStreaming";
-import { formatAmount, formatAddress, STREAM_STATUS_MAP, getActualAmount, STREAM_PRECISION } from "@/types";
+import { useEmployeeStreams, useStreamTokens } from "@/hooks/useWageStreaming";
+import { useEmployeeTransactionHistory } from "@/hooks/useTransactionHistory";
+import { APT, TokenAmount, TokenMetadata } from "@wage-protocol/sdk/protocol";
+import { formatTokenAmount, formatTokenTotals, totalsByToken, formatAddress, STREAM_STATUS_MAP, calculateWithdrawable, STREAM_PRECISION } from "@/types";
 import { GlassCard } from "@/components/shared/GlassCard";
+import { FiatValue } from "@/components/shared/FiatValue";
 import { getExplorerUrl } from "@/lib/aptos/config";
+import { ActivityEntry, ActivityType } from "@/lib/aptos/events";
+import { useWithdrawalRates } from "@/hooks/usePrices";
 
-interface Transaction {
-  id: string;
-  type: "withdrawal" | "deposit" | "reward";
-  amount: bigint;
-  timestamp: number;
-  streamId: string;
-  employer: string;
-  status: "completed" | "pending" | "failed";
-  txHash?: string;
+interface Transaction extends ActivityEntry {
+  employer: string | null;
+  /** Token of the stream the event belongs to (APT for rewards); null while unknown */
+  token: TokenMetadata | null;
 }
 
+const PAGE_SIZE = 10;
+
+const FILTER_LABELS: Record<"all" | ActivityType, string> = {
+  all: "All Types",
+  withdrawal: "Withdrawals",
+  stream_created: "New Streams",
+  reward: "Rewards",
+};
+
+// Start / end of a yyyy-mm-dd date input, in unix seconds
+const startOfDay = (date: string) => Math.floor(new Date(`${date}T00:00:00`).getTime() / 1000);
+const endOfDay = (date: string) => Math.floor(new Date(`${date}T23:59:59`).getTime() / 1000);
+
 export default function EmployeeTransactionsPage() {
   const { isConnected, address } = useAuth();
-  const { streams, loading: streamsLoading, refetch } = useEmployeeStreams();
+  const { streams, streamTokens, loading: streamsLoading, refetch } = useEmployeeStreams();
+  const {
+    transactions: activity,
+    hasMore,
+    loading: historyLoading,
+    loadingMore,
+    error: historyError,
+    loadMore,
+    refetch: refetchHistory,
+  } = useEmployeeTransactionHistory();
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedFilter, setSelectedFilter] = useState<"all" | "withdrawal" | "deposit" | "reward">("all");
+  const [selectedFilter, setSelectedFilter] = useState<"all" | ActivityType>("all");
   const [showFilters, setShowFilters] = useState(false);
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [page, setPage] = useState(0);
+
+  const loading = streamsLoading || historyLoading;
 
-  // Generate transaction history from streams
+  // Streams of events that aren't in the loaded stream page (older streams) are looked up on their own
+  const unlistedStreamIds = useMemo(
+    () => activity.flatMap(tx => (tx.streamId && !streamTokens[tx.streamId] ? [tx.streamId] : [])),
+    [activity, streamTokens]
+  );
+  const { streamTokens: unlistedTokens, loading: tokensLoading } = useStreamTokens(unlistedStreamIds);
+
+  // Attach the employer and token of each stream to its events
   const transactions = useMemo(() => {
-    const txList: Transaction[] = [];
-    const now = Math.floor(Date.now() / 1000);
-
-    streams.forEach(stream => {
-      // Add withdrawals (simulated based on totalWithdrawn)
-      if (stream.totalWithdrawn > BigInt(0)) {
-        txList.push({
-          id: `withdrawal-${stream.streamId}`,
-          type: "withdrawal",
-          amount: stream.totalWithdrawn,
-          timestamp: now - Math.floor(Math.random() * 86400 * 7), // Random time in last week
-          streamId: stream.streamId,
-          employer: stream.employer,
-          status: "completed",
-        });
-      }
-
-      // Add initial deposit (stream creation)
-      txList.push({
-        id: `deposit-${stream.streamId}`,
-        type: "deposit",
-        amount: stream.totalDeposited,
-        timestamp: stream.startTime,
-        streamId: stream.streamId,
-        employer: stream.employer,
-        status: "completed",
-      });
-    });
+    const employers = new Map(streams.map(stream => [stream.streamId, stream.employer]));
+    return activity.map((tx): Transaction => ({
+      ...tx,
+      employer: tx.streamId ? employers.get(tx.streamId) ?? null : null,
+      token: tx.streamId ? streamTokens[tx.streamId] ?? unlistedTokens[tx.streamId] ?? null : APT,
+    }));
+  }, [activity, streams, streamTokens, unlistedTokens]);
 
-    // Sort by timestamp descending
-    return txList.sort((a, b) => b.timestamp - a.timestamp);
-  }, [streams]);
+  // Fiat rates when each withdrawal was made, for withdrawals in a known token
+  const withdrawals = useMemo(
+    () =>
+      transactions.flatMap(tx => (tx.type === "withdrawal" && tx.token ? [{ ...tx, token: tx.token }] : [])),
+    [transactions]
+  );
+  const { rates: withdrawalRates } = useWithdrawalRates(withdrawals);
 
   // Filter transactions
   const filteredTransactions = useMemo(() => {
+    const from = dateFrom ? startOfDay(dateFrom) : null;
+    const to = dateTo ? endOfDay(dateTo) : null;
+    const query = searchQuery.toLowerCase();
+
     return transactions.filter(tx => {
       const matchesFilter = selectedFilter === "all" || tx.type === selectedFilter;
-      const matchesSearch = searchQuery === "" || 
-        tx.employer.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        tx.streamId.includes(searchQuery);
-      return matchesFilter && matchesSearch;
+      const matchesSearch = query === "" ||
+        (tx.employer?.toLowerCase().includes(query) ?? false) ||
+        (tx.streamId?.includes(query) ?? false) ||
+        tx.version.includes(query);
+      const matchesDate = (from === null || tx.timestamp >= from) && (to === null || tx.timestamp <= to);
+      return matchesFilter && matchesSearch && matchesDate;
     });
-  }, [transactions, selectedFilter, searchQuery]);
+  }, [transactions, selectedFilter, searchQuery, dateFrom, dateTo]);
+
+  // History is loaded newest first, so keep loading until it reaches the start of the range
+  const oldestLoaded = transactions.length > 0 ? transactions[transactions.length - 1].timestamp : null;
+  useEffect(() => {
+    if (!dateFrom || !hasMore || loadingMore || historyLoading) return;
+    if (oldestLoaded === null || oldestLoaded >= startOfDay(dateFrom)) {
+      loadMore();
+    }
+  }, [dateFrom, hasMore, loadingMore, historyLoading, oldestLoaded, loadMore]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredTransactions.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageTransactions = filteredTransactions.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const isLastPage = currentPage >= pageCount - 1;
+
+  const handleNextPage = async () => {
+    if (!isLastPage) {
+      setPage(currentPage + 1);
+    } else if (hasMore) {
+      await loadMore();
+      setPage(currentPage + 1);
+    }
+  };
+
+  const handleRefresh = () => {
+    refetch();
+    refetchHistory();
+    setPage(0);
+  };
+
+  const handleDateChange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setter(e.target.value);
+    setPage(0);
+  };
 
   // Calculate stats
   const stats = useMemo(() => {
-    const totalWithdrawn = streams.reduce((acc, s) => acc + s.totalWithdrawn, BigInt(0));
-    const totalDeposited = streams.reduce((acc, s) => acc + s.totalDeposited, BigInt(0));
-    const pendingWithdrawable = streams.reduce((acc, s) => {
-      if (s.status !== 1) return acc;
-      const now = BigInt(Math.floor(Date.now() / 1000));
-      const elapsed = now > BigInt(s.startTime) ? now - BigInt(s.startTime) : BigInt(0);
-      const duration = BigInt(s.endTime - s.startTime);
-      const effectiveElapsed = elapsed > duration ? duration : elapsed;
-      const earned = getActualAmount(s.ratePerSecond, effectiveElapsed);
-      return acc + (earned > s.totalWithdrawn ? earned - s.totalWithdrawn : BigInt(0));
-    }, BigInt(0));
+    // Streams may pay in different tokens, so total each token separately
+    const totalWithdrawn = totalsByToken(streams, streamTokens, s => s.totalWithdrawn);
+    const totalDeposited = totalsByToken(streams, streamTokens, s => s.totalDeposited);
+    const pendingWithdrawable = totalsByToken(streams, streamTokens, calculateWithdrawable);
 
     return {
       totalWithdrawn,
@@ -98,7 +148,7 @@ export default function EmployeeTransactionsPage() {
       pendingWithdrawable,
       transactionCount: transactions.length,
     };
-  }, [streams, transactions]);
+  }, [streams, streamTokens, transactions]);
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleDateString("en-US", {
@@ -137,10 +187,10 @@ export default function EmployeeTransactionsPage() {
           <Button
             variant="outline"
             className="border-wap-border"
-            onClick={() => refetch()}
-            disabled={streamsLoading}
+            onClick={handleRefresh}
+            disabled={loading}
           >
-            <RefreshCw className={`w-4 h-4 mr-2 ${streamsLoading ? "animate-spin" : ""}`} />
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
             Refresh
           </Button>
           <Button className="bg-linear-to-r from-wap-coral to-wap-gold text-white">
@@ -164,7 +214,7 @@ export default function EmployeeTransactionsPage() {
             <span className="text-sm text-wap-text-secondary">Total Withdrawn</span>
           </div>
           <div className="text-2xl font-bold font-mono text-wap-green">
-            {formatAmount(stats.totalWithdrawn)} APT
+            {formatTokenTotals(stats.totalWithdrawn)}
           </div>
         </motion.div>
 
@@ -181,7 +231,7 @@ export default function EmployeeTransactionsPage() {
             <span className="text-sm text-wap-text-secondary">Pending Withdrawable</span>
           </div>
           <div className="text-2xl font-bold font-mono text-wap-gold">
-            {formatAmount(stats.pendingWithdrawable)} APT
+            {formatTokenTotals(stats.pendingWithdrawable)}
           </div>
         </motion.div>
 
@@ -198,7 +248,7 @@ export default function EmployeeTransactionsPage() {
             <span className="text-sm text-wap-text-secondary">Total Transactions</span>
           </div>
           <div className="text-2xl font-bold font-mono text-wap-text-primary">
-            {stats.transactionCount}
+            {stats.transactionCount}{hasMore ? "+" : ""}
           </div>
         </motion.div>
       </div>
@@ -209,13 +259,37 @@ export default function EmployeeTransactionsPage() {
           <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-wap-text-tertiary" />
           <input
             type="text"
-            placeholder="Search by employer or stream ID..."
+            placeholder="Search by employer, stream ID or transaction version..."
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              setPage(0);
+            }}
             className="w-full pl-11 pr-4 py-3 rounded-xl border border-wap-border focus:border-wap-coral focus:ring-1 focus:ring-wap-coral outline-none transition-all bg-white"
           />
         </div>
 
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-wap-text-tertiary" />
+          <input
+            type="date"
+            aria-label="From date"
+            value={dateFrom}
+            max={dateTo || undefined}
+            onChange={handleDateChange(setDateFrom)}
+            className="px-3 py-2.5 rounded-xl border border-wap-border focus:border-wap-coral focus:ring-1 focus:ring-wap-coral outline-none transition-all bg-white text-sm"
+          />
+          <span className="text-wap-text-tertiary text-sm">to</span>
+          <input
+            type="date"
+            aria-label="To date"
+            value={dateTo}
+            min={dateFrom || undefined}
+            onChange={handleDateChange(setDateTo)}
+            className="px-3 py-2.5 rounded-xl border border-wap-border focus:border-wap-coral focus:ring-1 focus:ring-wap-coral outline-none transition-all bg-white text-sm"
+          />
+        </div>
+
         <div className="relative">
           <Button
             variant="outline"
@@ -234,7 +308,7 @@ export default function EmployeeTransactionsPage() {
                 exit={{ opacity: 0, y: -10 }}
                 className="absolute top-full right-0 mt-2 bg-white rounded-xl shadow-lg border border-wap-border p-2 z-10 min-w-[150px]"
               >
-                {(["all", "withdrawal", "deposit", "reward"] as const).map(filter => (
+                {(["all", "withdrawal", "stream_created", "reward"] as const).map(filter => (
                   <button
                     key={filter}
                     className={`w-full text-left px-4 py-2 rounded-lg hover:bg-wap-section transition-colors ${
@@ -243,9 +317,10 @@ export default function EmployeeTransactionsPage() {
                     onClick={() => {
                       setSelectedFilter(filter);
                       setShowFilters(false);
+                      setPage(0);
                     }}
                   >
-                    {filter === "all" ? "All Types" : filter.charAt(0).toUpperCase() + filter.slice(1)}
+                    {FILTER_LABELS[filter]}
                   </button>
                 ))}
               </motion.div>
@@ -261,13 +336,19 @@ export default function EmployeeTransactionsPage() {
         transition={{ delay: 0.3 }}
         className="bg-white rounded-2xl border border-wap-border shadow-sm overflow-hidden"
       >
-        {streamsLoading ? (
+        {loading ? (
           <div className="flex items-center justify-center py-20">
             <Loader2 className="w-8 h-8 animate-spin text-wap-coral" />
           </div>
-        ) : filteredTransactions.length > 0 ? (
+        ) : historyError ? (
+          <div className="py-20 text-center text-wap-text-tertiary">
+            <AlertCircle className="w-12 h-12 mx-auto mb-3 text-wap-coral opacity-70" />
+            <p className="font-medium">{historyError}</p>
+            <p className="text-sm mt-1">The indexer may be unavailable. Try refreshing.</p>
+          </div>
+        ) : pageTransactions.length > 0 ? (
           <div className="divide-y divide-wap-border">
-            {filteredTransactions.map((tx, i) => (
+            {pageTransactions.map((tx, i) => (
               <motion.div
                 key={tx.id}
                 initial={{ opacity: 0, x: -20 }}
@@ -279,12 +360,12 @@ export default function EmployeeTransactionsPage() {
                   {/* Icon */}
                   <div className={`p-3 rounded-xl ${
                     tx.type === "withdrawal" ? "bg-wap-green/10" :
-                    tx.type === "deposit" ? "bg-wap-sky/10" :
+                    tx.type === "stream_created" ? "bg-wap-sky/10" :
                     "bg-wap-gold/10"
                   }`}>
                     {tx.type === "withdrawal" ? (
                       <ArrowDownRight className="w-5 h-5 text-wap-green" />
-                    ) : tx.type === "deposit" ? (
+                    ) : tx.type === "stream_created" ? (
                       <ArrowUpRight className="w-5 h-5 text-wap-sky" />
                     ) : (
                       <TrendingUp className="w-5 h-5 text-wap-gold" />
@@ -292,31 +373,54 @@ export default function EmployeeTransactionsPage() {
                   </div>
 
                   {/* Details */}
-                  <div className="flex-1">
+                  <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
-                      <span className="font-medium text-wap-text-primary capitalize">
-                        {tx.type === "deposit" ? "Stream Created" : tx.type}
+                      <span className="font-medium text-wap-text-primary">
+                        {tx.label}
                       </span>
-                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
-                        tx.status === "completed" ? "bg-wap-green/10 text-wap-green" :
-                        tx.status === "pending" ? "bg-wap-gold/10 text-wap-gold" :
-                        "bg-wap-coral/10 text-wap-coral"
-                      }`}>
-                        {tx.status}
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-wap-green/10 text-wap-green">
+                        completed
                       </span>
                     </div>
                     <div className="text-sm text-wap-text-tertiary mt-1">
-                      From: {formatAddress(tx.employer)} • Stream #{tx.streamId}
+                      {tx.streamId !== null ? (
+                        <>
+                          {tx.employer && <>From: {formatAddress(tx.employer)} • </>}Stream #{tx.streamId}
+                        </>
+                      ) : tx.campaignId !== null ? (
+                        <>Campaign #{tx.campaignId}</>
+                      ) : (
+                        <>Photon Rewards</>
+                      )}
                     </div>
+                    <a
+                      href={getExplorerUrl(tx.version, "txn")}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs font-mono text-wap-sky hover:text-wap-coral mt-1"
+                    >
+                      Txn {tx.version}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
                   </div>
 
                   {/* Amount & Time */}
                   <div className="text-right">
                     <div className={`font-mono font-bold ${
-                      tx.type === "withdrawal" ? "text-wap-green" : "text-wap-text-primary"
+                      tx.type === "stream_created" ? "text-wap-text-primary" : "text-wap-green"
                     }`}>
-                      {tx.type === "withdrawal" ? "+" : ""}{formatAmount(tx.amount)} APT
+                      {tx.type === "stream_created" ? "" : "+"}
+                      {tx.token
+                        ? formatTokenAmount(tx.amount, tx.token, tx.token.decimals)
+                        : tokensLoading
+                          ? "…"
+                          : `${tx.amount} units of an unknown token`}
                     </div>
+                    {tx.token && withdrawalRates[tx.id]?.length > 0 && (
+                      <div className="text-xs text-wap-text-tertiary mt-1">
+                        <FiatValue amount={TokenAmount.of(tx.amount, tx.token)} quotes={withdrawalRates[tx.id]} /> at withdrawal
+                      </div>
+                    )}
                     <div className="text-xs text-wap-text-tertiary mt-1">
                       {formatDate(tx.timestamp)}
                     </div>
@@ -332,6 +436,36 @@ export default function EmployeeTransactionsPage() {
             <p className="text-sm mt-1">Transactions will appear here once you have wage streams</p>
           </div>
         )}
+
+        {/* Pagination */}
+        {!loading && !historyError && filteredTransactions.length > 0 && (
+          <div className="flex items-center justify-between px-4 md:px-5 py-3 border-t border-wap-border">
+            <span className="text-sm text-wap-text-tertiary">
+              Page {currentPage + 1} of {pageCount}{hasMore ? "+" : ""}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-wap-border"
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-wap-border"
+                onClick={handleNextPage}
+                disabled={(isLastPage && !hasMore) || loadingMore}
+              >
+                {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {isLastPage && hasMore ? "Load Older" : "Next"}
+              </Button>
+            </div>
+          </div>
+        )}
       </motion.div>
     </div>
   );
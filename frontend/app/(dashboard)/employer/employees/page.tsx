@@ -27,8 +27,12 @@ import {
 import { useAuth } from "@/contexts/AptosWalletContext";
 import { useEmployerStreams, useWageStreamingEmployer } from "@/hooks/useWageStreaming";
 import { useTreasuryExists } from "@/hooks/useTreasury";
-import { formatAmount, formatAddress, formatDate, STREAM_STATUS_MAP, getStreamProgress, getActualAmount, STREAM_PRECISION } from "@/types";
-import { getExplorerUrl } from "@/lib/aptos/config";
+import { useTransactionPreview } from "@/hooks/useTransactionPreview";
+import { TransactionPreviewModal } from "@/components/shared/TransactionPreviewModal";
+import { APT, TokenMetadata } from "@wage-protocol/sdk/protocol";
+import { formatTokenAmount, formatTokenTotals, totalsByToken, formatAddress, formatDate, STREAM_STATUS_MAP, getStreamProgress, getActualAmount, calculateWithdrawable, STREAM_PRECISION } from "@/types";
+import { getExplorerUrl, REGISTRY_ADDRESS } from "@/lib/aptos/config";
+import { pauseStreamPayload, resumeStreamPayload, terminateStreamPayload } from "@/lib/aptos/wageStreaming";
 import { useRouter } from "next/navigation";
 
 // Stream Detail Modal
@@ -40,6 +44,7 @@ const StreamDetailModal = ({
   onResume,
   onTerminate,
   loading,
+  token,
 }: {
   isOpen: boolean;
   onClose: () => void;
@@ -53,27 +58,21 @@ const StreamDetailModal = ({
     startTime: number;
     endTime: number;
     status: number;
+    pauseTime: number;
+    totalPauseDuration: number;
     description?: string;
   } | null;
   onPause: () => void;
   onResume: () => void;
   onTerminate: () => void;
   loading: boolean;
+  token: TokenMetadata;
 }) => {
   if (!isOpen || !stream) return null;
 
-  const now = BigInt(Math.floor(Date.now() / 1000));
-  const startTime = BigInt(stream.startTime);
-  const endTime = BigInt(stream.endTime);
-  const elapsed = now > startTime ? now - startTime : BigInt(0);
-  const duration = endTime - startTime;
-  const effectiveElapsed = elapsed > duration ? duration : elapsed;
-  // Use getActualAmount to correctly calculate earnings (dividing by PRECISION)
-  const earned = getActualAmount(stream.ratePerSecond, effectiveElapsed);
-  const withdrawable = earned > stream.totalWithdrawn ? earned - stream.totalWithdrawn : BigInt(0);
+  const withdrawable = calculateWithdrawable(stream);
   const progress = getStreamProgress(stream);
-  const totalAmount = getActualAmount(stream.ratePerSecond, duration);
-  const remaining = totalAmount > earned ? totalAmount - earned : BigInt(0);
+  const totalAmount = stream.totalDeposited;
   // Calculate daily rate properly
   const dailyRate = getActualAmount(stream.ratePerSecond, BigInt(86400));
 
@@ -120,19 +119,19 @@ const StreamDetailModal = ({
           <div className="grid grid-cols-2 gap-3">
             <div className="p-4 bg-[#FAF6F1] rounded-xl">
               <label className="text-xs text-[#718096]">Rate per Day</label>
-              <p className="font-mono font-bold text-[#1A1A2E]">{formatAmount(dailyRate)} APT</p>
+              <p className="font-mono font-bold text-[#1A1A2E]">{formatTokenAmount(dailyRate, token)}</p>
             </div>
             <div className="p-4 bg-[#FAF6F1] rounded-xl">
               <label className="text-xs text-[#718096]">Total Amount</label>
-              <p className="font-mono font-bold text-[#1A1A2E]">{formatAmount(totalAmount)} APT</p>
+              <p className="font-mono font-bold text-[#1A1A2E]">{formatTokenAmount(totalAmount, token)}</p>
             </div>
             <div className="p-4 bg-[#FAF6F1] rounded-xl">
               <label className="text-xs text-[#718096]">Already Withdrawn</label>
-              <p className="font-mono font-bold text-[#2D9F6C]">{formatAmount(stream.totalWithdrawn)} APT</p>
+              <p className="font-mono font-bold text-[#2D9F6C]">{formatTokenAmount(stream.totalWithdrawn, token)}</p>
             </div>
             <div className="p-4 bg-[#FAF6F1] rounded-xl">
               <label className="text-xs text-[#718096]">Pending Withdrawal</label>
-              <p className="font-mono font-bold text-[#F4A259]">{formatAmount(withdrawable)} APT</p>
+              <p className="font-mono font-bold text-[#F4A259]">{formatTokenAmount(withdrawable, token)}</p>
             </div>
           </div>
 
@@ -206,8 +205,17 @@ export default function EmployeesPage() {
 
   // Blockchain data hooks
   const { exists: treasuryExists, loading: existsLoading } = useTreasuryExists();
-  const { streams, loading: streamsLoading, refetch: refetchStreams } = useEmployerStreams();
+  const {
+    streams,
+    streamTokens,
+    total: streamsTotal,
+    hasMore,
+    loadMore,
+    loading: streamsLoading,
+    refetch: refetchStreams,
+  } = useEmployerStreams();
   const { pauseStream, resumeStream, terminateStream, loading: opLoading } = useWageStreamingEmployer();
+  const txPreview = useTransactionPreview();
 
   // Filter streams
   const filteredStreams = useMemo(() => {
@@ -225,23 +233,18 @@ export default function EmployeesPage() {
 
   // Stats
   const stats = useMemo(() => {
-    const total = streams.length;
+    const total = Math.max(streamsTotal, streams.length);
     const active = streams.filter(s => s.status === 1).length;
     const paused = streams.filter(s => s.status === 2).length;
     const completed = streams.filter(s => s.status === 0 || s.status === 3).length;
-    // Calculate total value using getActualAmount (rate * duration / PRECISION)
-    const totalValue = streams.reduce((acc, s) => {
-      const duration = BigInt(s.endTime) - BigInt(s.startTime);
-      return acc + getActualAmount(s.ratePerSecond, duration);
-    }, BigInt(0));
+    // endTime moves back with every pause, so value streams by what was deposited
+    const totalValue = totalsByToken(streams, streamTokens, s => s.totalDeposited);
 
     return { total, active, paused, completed, totalValue };
-  }, [streams]);
+  }, [streams, streamTokens, streamsTotal]);
 
-  // Handle stream actions
-  const handlePauseStream = async () => {
-    if (!selectedStream) return;
-    const txHash = await pauseStream(Number(selectedStream.streamId));
+  // Handle stream actions (each previews the simulation before the wallet prompt)
+  const onStreamUpdated = (txHash: string | null) => {
     if (txHash) {
       refetchStreams();
       setShowDetailModal(false);
@@ -249,25 +252,26 @@ export default function EmployeesPage() {
     }
   };
 
-  const handleResumeStream = async () => {
-    if (!selectedStream) return;
-    const txHash = await resumeStream(Number(selectedStream.streamId));
-    if (txHash) {
-      refetchStreams();
-      setShowDetailModal(false);
-      setSelectedStream(null);
-    }
+  const handlePauseStream = (stream: typeof streams[0]) => {
+    const streamId = Number(stream.streamId);
+    txPreview.requestConfirmation("Pause Stream", pauseStreamPayload(REGISTRY_ADDRESS, streamId), async () => {
+      onStreamUpdated(await pauseStream(streamId));
+    });
+  };
+
+  const handleResumeStream = (stream: typeof streams[0]) => {
+    const streamId = Number(stream.streamId);
+    txPreview.requestConfirmation("Resume Stream", resumeStreamPayload(REGISTRY_ADDRESS, streamId), async () => {
+      onStreamUpdated(await resumeStream(streamId));
+    });
   };
 
-  const handleTerminateStream = async () => {
-    if (!selectedStream) return;
+  const handleTerminateStream = (stream: typeof streams[0]) => {
     if (confirm("Are you sure you want to terminate this stream? This action cannot be undone.")) {
-      const txHash = await terminateStream(Number(selectedStream.streamId));
-      if (txHash) {
-        refetchStreams();
-        setShowDetailModal(false);
-        setSelectedStream(null);
-      }
+      const streamId = Number(stream.streamId);
+      txPreview.requestConfirmation("Terminate Stream", terminateStreamPayload(REGISTRY_ADDRESS, streamId), async () => {
+        onStreamUpdated(await terminateStream(streamId));
+      });
     }
   };
 
@@ -319,10 +323,21 @@ export default function EmployeesPage() {
             isOpen={showDetailModal}
             onClose={() => { setShowDetailModal(false); setSelectedStream(null); }}
             stream={selectedStream}
-            onPause={handlePauseStream}
-            onResume={handleResumeStream}
-            onTerminate={handleTerminateStream}
+            onPause={() => handlePauseStream(selectedStream)}
+            onResume={() => handleResumeStream(selectedStream)}
+            onTerminate={() => handleTerminateStream(selectedStream)}
             loading={opLoading}
+            token={streamTokens[selectedStream.streamId] ?? APT}
+          />
+        )}
+        {txPreview.isOpen && (
+          <TransactionPreviewModal
+            isOpen={txPreview.isOpen}
+            title={txPreview.title}
+            preview={txPreview.preview}
+            simulating={txPreview.simulating}
+            onConfirm={txPreview.confirm}
+            onCancel={txPreview.cancel}
           />
         )}
       </AnimatePresence>
@@ -363,7 +378,7 @@ export default function EmployeesPage() {
           { label: "Active Streams", value: stats.active, icon: Zap, color: "from-[#2D9F6C] to-[#34D399]" },
           { label: "Paused", value: stats.paused, icon: Pause, color: "from-[#F4A259] to-[#FCD34D]" },
           { label: "Completed", value: stats.completed, icon: CheckCircle, color: "from-[#6BB3D9] to-[#93C5FD]" },
-          { label: "Total Value", value: `${formatAmount(stats.totalValue)} APT`, icon: DollarSign, color: "from-[#E85A4F] to-[#6BB3D9]" },
+          { label: "Total Value", value: formatTokenTotals(stats.totalValue), icon: DollarSign, color: "from-[#E85A4F] to-[#6BB3D9]" },
         ].map((stat, i) => (
           <motion.div
             key={stat.label}
@@ -505,7 +520,7 @@ export default function EmployeesPage() {
                         </td>
                         <td className="px-6 py-4">
                           <p className="font-mono text-sm font-semibold text-[#1A1A2E]">
-                            {formatAmount(getActualAmount(stream.ratePerSecond, BigInt(86400)))} APT
+                            {formatTokenAmount(getActualAmount(stream.ratePerSecond, BigInt(86400)), streamTokens[stream.streamId] ?? APT)}
                           </p>
                           <p className="text-xs text-[#718096]">per day</p>
                         </td>
@@ -542,7 +557,7 @@ export default function EmployeesPage() {
                         </td>
                         <td className="px-6 py-4">
                           <p className="font-mono text-sm font-semibold text-[#2D9F6C]">
-                            {formatAmount(stream.totalWithdrawn)} APT
+                            {formatTokenAmount(stream.totalWithdrawn, streamTokens[stream.streamId] ?? APT)}
                           </p>
                         </td>
                         <td className="px-6 py-4">
@@ -559,7 +574,7 @@ export default function EmployeesPage() {
                               <Button
                                 variant="ghost"
                                 size="icon"
-                                onClick={() => { setSelectedStream(stream); handlePauseStream(); }}
+                                onClick={() => handlePauseStream(stream)}
                                 className="h-8 w-8"
                                 disabled={opLoading}
                               >
@@ -570,7 +585,7 @@ export default function EmployeesPage() {
                               <Button
                                 variant="ghost"
                                 size="icon"
-                                onClick={() => { setSelectedStream(stream); handleResumeStream(); }}
+                                onClick={() => handleResumeStream(stream)}
                                 className="h-8 w-8"
                                 disabled={opLoading}
                               >
@@ -595,6 +610,13 @@ export default function EmployeesPage() {
               </tbody>
             </table>
           </div>
+          {hasMore && (
+            <div className="p-4 border-t border-[#E8DED4] text-center">
+              <Button variant="outline" size="sm" onClick={loadMore} disabled={streamsLoading}>
+                Load more ({streams.length} of {streamsTotal})
+              </Button>
+            </div>
+          )}
         </GlassCard>
       </motion.div>
     </div>
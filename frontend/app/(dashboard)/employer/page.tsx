@@ -18,29 +18,92 @@ import {
   useRegistryStats,
   useWageStreamingEmployer 
 } from "@/hooks/useWageStreaming";
-import { formatAmount, formatAddress, formatTimeAgo, STREAM_STATUS_MAP, getActualAmount, STREAM_PRECISION } from "@/types";
+import { formatAmount, formatTokenAmount, formatTokenTotals, totalsByToken, formatAddress, formatTimeAgo, STREAM_STATUS_MAP, getActualAmount, STREAM_PRECISION } from "@/types";
 import { getExplorerUrl } from "@/lib/aptos/config";
+import {
+  APT,
+  MinimumWageCheck,
+  PROFESSIONAL_TAX_SCHEDULES,
+  SKILL_CATEGORIES,
+  SKILL_CATEGORY_NAMES,
+  TokenAmount,
+  TokenMetadata,
+  checkMinimumWage,
+  streamRate,
+} from "@wage-protocol/sdk/protocol";
+import { TokenSelect } from "@/components/shared/TokenSelect";
+import { FiatValue } from "@/components/shared/FiatValue";
+import { useEmployerComplianceProfile } from "@/hooks/useCompliance";
+import { useFiatQuotes } from "@/hooks/usePrices";
+import { useEmployeeDirectory } from "@/hooks/useReports";
+import { STATE_CODES } from "@/lib/aptos/config";
+import { EmployeeRecord, findEmployeeRecord } from "@/lib/reports/directory";
+import { describeFloor, formatWage, wageClass } from "@/lib/reports/minimumWage";
+
+interface CreateStreamFormData {
+  employee: string;
+  amount: string;
+  token: TokenMetadata;
+  days: number;
+  description: string;
+  /** Where the employee works and their skill category, for their minimum wage */
+  stateCode: number;
+  skill: number;
+}
 
 // Create Stream Modal Component
 const CreateStreamModal = ({ 
   isOpen, 
   onClose, 
   onSubmit, 
-  loading 
+  loading,
+  directory,
+  employerState
 }: { 
   isOpen: boolean; 
   onClose: () => void; 
-  onSubmit: (data: { employee: string; amount: string; days: number; description: string }) => void;
+  onSubmit: (data: CreateStreamFormData) => void;
   loading: boolean;
+  directory: Record<string, EmployeeRecord>;
+  /** The employer's registered state, the default work state of employees */
+  employerState: number | null;
 }) => {
   const [employee, setEmployee] = useState("");
   const [amount, setAmount] = useState("");
+  const [token, setToken] = useState<TokenMetadata>(APT);
   const [days, setDays] = useState(30);
   const [description, setDescription] = useState("");
+  // Chosen here, else what the directory has for the employee
+  const [stateChoice, setStateChoice] = useState<number | null>(null);
+  const [skillChoice, setSkillChoice] = useState<number | null>(null);
+  // Confirms creating a stream that is below the minimum wage, or couldn't be checked against it
+  const [minimumWageConfirmed, setMinimumWageConfirmed] = useState(false);
+  const { quotes } = useFiatQuotes(token);
+  const inrQuote = quotes.find((quote) => quote.currency === "INR");
+
+  const recorded = wageClass(findEmployeeRecord(directory, employee.trim()), employerState);
+  const stateCode = stateChoice ?? recorded.stateCode;
+  const skill = skillChoice ?? recorded.skill;
+
+  // The stream's rate against the minimum wage, once there is an amount and a price to judge it by
+  let rate: bigint | null = null;
+  try {
+    const totalAmount = TokenAmount.parse(amount, token).raw;
+    if (totalAmount > BigInt(0) && days > 0) rate = streamRate(totalAmount, days * 24 * 60 * 60);
+  } catch {
+    rate = null;
+  }
+  const wageCheck: MinimumWageCheck | null =
+    rate !== null && inrQuote ? checkMinimumWage(rate, stateCode, skill, { token, quote: inrQuote }) : null;
+  const belowMinimum = wageCheck?.status === "below";
+  // A stream with a rate but no INR price for its token can't be checked
+  const unchecked = rate !== null && !inrQuote;
+  const needsConfirmation = belowMinimum || unchecked;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit({ employee, amount, days, description });
+    if (needsConfirmation && !minimumWageConfirmed) return;
+    onSubmit({ employee: employee.trim(), amount, token, days, description, stateCode, skill });
   };
 
   if (!isOpen) return null;
@@ -51,7 +114,7 @@ const CreateStreamModal = ({
         initial={{ opacity: 0, scale: 0.95 }}
         animate={{ opacity: 1, scale: 1 }}
         exit={{ opacity: 0, scale: 0.95 }}
-        className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6"
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto"
       >
         <h2 className="text-2xl font-bold text-[#1A1A2E] mb-6">Create Wage Stream</h2>
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -66,8 +129,9 @@ const CreateStreamModal = ({
               required
             />
           </div>
+          <TokenSelect value={token} onChange={setToken} disabled={loading} />
           <div>
-            <label className="block text-sm font-medium text-[#4A5568] mb-2">Total Amount (APT)</label>
+            <label className="block text-sm font-medium text-[#4A5568] mb-2">Total Amount ({token.symbol})</label>
             <input
               type="number"
               value={amount}
@@ -100,6 +164,77 @@ const CreateStreamModal = ({
               className="w-full px-4 py-3 rounded-xl border border-[#E8DED4] focus:border-[#E85A4F] focus:ring-1 focus:ring-[#E85A4F] outline-none transition-all"
             />
           </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-[#4A5568] mb-2">Work State</label>
+              <select
+                value={stateCode}
+                onChange={(e) => setStateChoice(Number(e.target.value))}
+                className="w-full px-4 py-3 rounded-xl border border-[#E8DED4] bg-white focus:border-[#E85A4F] focus:ring-1 focus:ring-[#E85A4F] outline-none transition-all"
+              >
+                {PROFESSIONAL_TAX_SCHEDULES.map((schedule) => (
+                  <option key={schedule.stateCode} value={schedule.stateCode}>
+                    {schedule.stateCode === STATE_CODES.OTHER ? "Other (central rates)" : schedule.state}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-[#4A5568] mb-2">Skill Category</label>
+              <select
+                value={skill}
+                onChange={(e) => setSkillChoice(Number(e.target.value))}
+                className="w-full px-4 py-3 rounded-xl border border-[#E8DED4] bg-white focus:border-[#E85A4F] focus:ring-1 focus:ring-[#E85A4F] outline-none transition-all"
+              >
+                {Object.values(SKILL_CATEGORIES).map((category) => (
+                  <option key={category} value={category}>
+                    {SKILL_CATEGORY_NAMES[category]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {wageCheck ? (
+            <div
+              className={`p-3 rounded-xl text-sm flex items-start gap-2 ${
+                belowMinimum ? "bg-[#E85A4F]/10 text-[#E85A4F]" : "bg-[#2D9F6C]/10 text-[#2D9F6C]"
+              }`}
+            >
+              {belowMinimum ? (
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              ) : (
+                <ShieldCheck className="w-4 h-4 mt-0.5 shrink-0" />
+              )}
+              <p>
+                Pays {formatWage(wageCheck.monthly)} a month ({formatWage(wageCheck.daily)} a working day),{" "}
+                {belowMinimum
+                  ? `${formatWage(wageCheck.shortfall)} short of the minimum wage of ${describeFloor(wageCheck)}`
+                  : `at or above the minimum wage of ${describeFloor(wageCheck)}`}
+              </p>
+            </div>
+          ) : (
+            unchecked && (
+              <div className="p-3 rounded-xl text-sm flex items-start gap-2 bg-[#F4A259]/10 text-[#F4A259]">
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                <p>
+                  Couldn&apos;t check the minimum wage: there is no INR price for {token.symbol} right now.
+                </p>
+              </div>
+            )
+          )}
+          {needsConfirmation && (
+            <label className="flex items-start gap-2 text-xs text-[#4A5568]">
+              <input
+                type="checkbox"
+                checked={minimumWageConfirmed}
+                onChange={(e) => setMinimumWageConfirmed(e.target.checked)}
+                className="mt-0.5 accent-[#E85A4F]"
+              />
+              {belowMinimum
+                ? "Create it anyway: the full-time minimum doesn't apply (e.g. part-time or piece-rate work)"
+                : "Create it without the check: I have confirmed the pay meets the minimum wage"}
+            </label>
+          )}
           <div className="flex gap-3 pt-4">
             <Button
               type="button"
@@ -113,7 +248,7 @@ const CreateStreamModal = ({
             <Button
               type="submit"
               className="flex-1 bg-gradient-to-r from-[#E85A4F] to-[#F4A259] text-white"
-              disabled={loading}
+              disabled={loading || (needsConfirmation && !minimumWageConfirmed)}
             >
               {loading ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
               Create Stream
@@ -133,28 +268,29 @@ export default function EmployerDashboard() {
   // Blockchain data hooks
   const { exists: treasuryExists, loading: treasuryExistsLoading } = useTreasuryExists();
   const { 
-    balanceInApt, 
+    balanceAmount, 
     availableBalance,
     loading: balanceLoading,
     refetch: refetchBalance 
   } = useTreasuryBalance();
   const { healthPercentage } = useTreasuryHealth();
-  const { streams, loading: streamsLoading, refetch: refetchStreams } = useEmployerStreams();
+  const { streams, streamTokens, loading: streamsLoading, refetch: refetchStreams } = useEmployerStreams();
   const { stats: registryStats, loading: statsLoading } = useRegistryStats();
   const { createStream, pauseStream, resumeStream, terminateStream, loading: streamOpLoading } = useWageStreamingEmployer();
   const { initializeTreasury, loading: treasuryOpLoading } = useTreasuryOperations();
+  const { directory, saveRecord } = useEmployeeDirectory();
+  const { profile: employerCompliance } = useEmployerComplianceProfile();
   
   // Calculate stats from real data
   const dashboardStats = useMemo(() => {
     const activeStreams = streams.filter(s => s.status === 1).length;
     const totalStreams = streams.length;
-    // Use getActualAmount for correct monthly burn calculation
-    const monthlyBurn = streams.reduce((acc, s) => {
-      if (s.status === 1) {
-        return acc + getActualAmount(s.ratePerSecond, BigInt(30 * 24 * 60 * 60));
-      }
-      return acc;
-    }, BigInt(0));
+    // Use getActualAmount for correct monthly burn calculation, per token
+    const monthlyBurn = totalsByToken(
+      streams.filter(s => s.status === 1),
+      streamTokens,
+      s => getActualAmount(s.ratePerSecond, BigInt(30 * 24 * 60 * 60))
+    );
 
     return [
       { 
@@ -175,7 +311,8 @@ export default function EmployerDashboard() {
       },
       { 
         label: "Monthly Burn", 
-        value: `${formatAmount(monthlyBurn)} APT`, 
+        value: formatTokenTotals(monthlyBurn), 
+        amount: monthlyBurn.length === 1 ? monthlyBurn[0] : undefined,
         trend: "Per month",
         icon: TrendingUp, 
         iconGradient: "from-[#6BB3D9] to-[#2B4570]",
@@ -183,14 +320,15 @@ export default function EmployerDashboard() {
       },
       { 
         label: "Treasury", 
-        value: `${balanceInApt.toFixed(2)} APT`, 
+        value: `${balanceAmount.format({ minimumFractionDigits: 2, maximumFractionDigits: 2 })} APT`, 
+        amount: balanceAmount,
         trend: healthPercentage > 50 ? "Healthy" : healthPercentage > 20 ? "Warning" : "Low",
         icon: Wallet, 
         iconGradient: "from-[#2D9F6C] to-[#6BB3D9]",
         isPositive: healthPercentage > 50
       },
     ];
-  }, [streams, balanceInApt, healthPercentage]);
+  }, [streams, streamTokens, balanceAmount, healthPercentage]);
 
   // Recent activity from streams
   const recentActivity = useMemo(() => {
@@ -198,23 +336,29 @@ export default function EmployerDashboard() {
       name: formatAddress(stream.employee),
       fullAddress: stream.employee,
       action: STREAM_STATUS_MAP[stream.status] || "unknown",
-      amount: `${formatAmount(getActualAmount(stream.ratePerSecond, BigInt(86400)))} APT/day`,
+      amount: `${formatTokenAmount(getActualAmount(stream.ratePerSecond, BigInt(86400)), streamTokens[stream.streamId] ?? APT)}/day`,
       time: formatTimeAgo(stream.startTime),
       type: stream.status === 1 ? "active" : stream.status === 2 ? "paused" : "other",
       streamId: Number(stream.streamId),
       status: stream.status,
     }));
-  }, [streams]);
+  }, [streams, streamTokens]);
 
   // Handle create stream
-  const handleCreateStream = async (data: { employee: string; amount: string; days: number; description: string }) => {
+  const handleCreateStream = async (data: CreateStreamFormData) => {
     try {
-      const amountInOctas = BigInt(Math.floor(parseFloat(data.amount) * 100_000_000));
+      // In the token's smallest unit (octas for APT)
+      const totalAmount = TokenAmount.parse(data.amount, data.token).raw;
       const durationSeconds = data.days * 24 * 60 * 60;
       
-      const txHash = await createStream(data.employee, amountInOctas, durationSeconds, data.description);
+      const txHash = await createStream(data.employee, totalAmount, durationSeconds, data.description, data.token);
       
       if (txHash) {
+        saveRecord(data.employee, {
+          ...findEmployeeRecord(directory, data.employee),
+          stateCode: data.stateCode,
+          skill: data.skill,
+        });
         setShowCreateModal(false);
         refetchStreams();
         refetchBalance();
@@ -299,6 +443,8 @@ export default function EmployerDashboard() {
             onClose={() => setShowCreateModal(false)}
             onSubmit={handleCreateStream}
             loading={streamOpLoading}
+            directory={directory}
+            employerState={employerCompliance?.stateCode ?? null}
           />
         )}
       </AnimatePresence>
@@ -406,6 +552,9 @@ export default function EmployerDashboard() {
               <div className="text-3xl md:text-4xl font-bold font-mono mb-2 bg-gradient-to-r from-[#1A1A2E] to-[#2B4570] bg-clip-text text-transparent">
                 {isLoading ? <Loader2 className="w-6 h-6 animate-spin" /> : stat.value}
               </div>
+              {stat.amount && !isLoading && (
+                <FiatValue amount={stat.amount} className="text-xs text-[#718096] font-mono mb-2" />
+              )}
               <div className="text-xs text-[#4A5568] uppercase tracking-wider font-medium">{stat.label}</div>
             </div>
           </motion.div>
@@ -519,7 +668,7 @@ export default function EmployerDashboard() {
                 transition={{ delay: 1 }}
               >
                 <div className="text-4xl md:text-5xl font-bold font-mono bg-gradient-to-r from-[#E85A4F] via-[#F4A259] to-[#6BB3D9] bg-clip-text text-transparent">
-                  {formatAmount(streams.reduce((acc, s) => s.status === 1 ? acc + getActualAmount(s.ratePerSecond, BigInt(30 * 86400)) : acc, BigInt(0)))} APT
+                  {formatTokenTotals(totalsByToken(streams.filter(s => s.status === 1), streamTokens, s => getActualAmount(s.ratePerSecond, BigInt(30 * 86400))))}
                 </div>
                 <p className="text-[#718096] text-sm mt-2">Monthly Wage Distribution</p>
               </motion.div>
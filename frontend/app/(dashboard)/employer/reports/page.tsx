@@ -6,61 +6,120 @@ import { Button } from "@/components/ui/button";
 import {
   FileText, Download, Calendar, TrendingUp, TrendingDown,
   DollarSign, Users, Clock, BarChart3, PieChart, Activity,
-  AlertCircle, Loader2, RefreshCw, Filter, ChevronDown
+  AlertCircle, Loader2, RefreshCw, Filter, ChevronDown, ChevronLeft, ChevronRight
 } from "lucide-react";
 import { useAuth } from "@/contexts/AptosWalletContext";
 import { useEmployerStreams } from "@/hooks/useWageStreaming";
 import { useTreasuryInfo } from "@/hooks/useTreasury";
-import { formatAmount, formatAddress, STREAM_STATUS_MAP, getActualAmount, STREAM_PRECISION } from "@/types";
+import { useEmployeeDirectory, usePayrollReport, usePayslipDownload } from "@/hooks/useReports";
+import { useEmployerComplianceProfile } from "@/hooks/useCompliance";
+import { useTokenFiatQuotes } from "@/hooks/usePrices";
+import { formatAmount, formatTokenAmount, formatTokenTotals, totalsByToken, formatAddress, STREAM_STATUS_MAP, getActualAmount, getStreamProgress, calculateRemaining, STREAM_PRECISION } from "@/types";
 import { GlassCard } from "@/components/shared/GlassCard";
+import { StatutoryReturns } from "@/components/shared/StatutoryReturns";
+import { TdsStatements } from "@/components/shared/TdsStatements";
+import { APT, PriceQuote, SKILL_CATEGORIES, SKILL_CATEGORY_NAMES, TokenMetadata, accruedBetween, formatFiat } from "@wage-protocol/sdk/protocol";
+import { EXPORT_FORMATS, ExportFormat, downloadTable } from "@/lib/export";
+import { findEmployeeRecord } from "@/lib/reports/directory";
+import { MINIMUM_WAGE_NOTE, minimumWageChecks, minimumWageSummary, unpricedNote } from "@/lib/reports/minimumWage";
+import { payrollReportFileName, payrollReportTable } from "@/lib/reports/payroll";
+import {
+  PERIOD_KINDS,
+  PeriodKind,
+  calendarPeriod,
+  customPeriod,
+  parseDateInput,
+  toDateInput,
+} from "@/lib/reports/period";
 
 export default function EmployerReportsPage() {
   const { isConnected, address } = useAuth();
-  const { streams, loading: streamsLoading, refetch } = useEmployerStreams();
+  // Reports cover every stream, not just the newest page
+  const { streams, streamTokens, loading: streamsLoading, refetch } = useEmployerStreams(undefined, Infinity);
   const { treasuryInfo, loading: treasuryLoading } = useTreasuryInfo();
-  const [selectedPeriod, setSelectedPeriod] = useState<"week" | "month" | "quarter" | "year">("month");
+  const [periodKind, setPeriodKind] = useState<PeriodKind>("month");
+  // Calendar periods step back from the current one (0)
+  const [periodOffset, setPeriodOffset] = useState(0);
+  const [customFrom, setCustomFrom] = useState(() => toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [customTo, setCustomTo] = useState(() => toDateInput(new Date()));
   const [showFilters, setShowFilters] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+
+  const period = useMemo(() => {
+    if (periodKind === "custom") {
+      return customPeriod(parseDateInput(customFrom) ?? new Date(), parseDateInput(customTo) ?? new Date());
+    }
+    return calendarPeriod(periodKind, new Date(), periodOffset);
+  }, [periodKind, periodOffset, customFrom, customTo]);
+
+  const { report, loading: reportLoading } = usePayrollReport(streams, streamTokens, period);
+  const { downloadPayslips, downloading: payslipsDownloading, error: payslipsError } = usePayslipDownload();
+  const { directory, saveRecord } = useEmployeeDirectory();
+  const { profile: employerCompliance } = useEmployerComplianceProfile();
+  // Every token streamed, for their INR prices
+  const streamedTokens = useMemo(() => {
+    const tokens = new Map<string, TokenMetadata>();
+    for (const stream of streams) {
+      const token = streamTokens[stream.streamId] ?? APT;
+      tokens.set(token.assetType, token);
+    }
+    return [...tokens.values()];
+  }, [streams, streamTokens]);
+  const tokenQuotes = useTokenFiatQuotes(streamedTokens);
+  const inrQuotes = useMemo(() => {
+    const byToken: Record<string, PriceQuote> = {};
+    for (const [assetType, quotes] of Object.entries(tokenQuotes)) {
+      const inr = quotes.find(quote => quote.currency === "INR");
+      if (inr) byToken[assetType] = inr;
+    }
+    return byToken;
+  }, [tokenQuotes]);
+  const unpricedTokens = streamedTokens.filter(token => !inrQuotes[token.assetType]).map(token => token.symbol);
+
+  // Minimum wage status of each employee paid in the period, at each token's current INR price
+  const minimumWage = useMemo(() => {
+    if (!report || Object.keys(inrQuotes).length === 0) return null;
+    const employerState = employerCompliance?.stateCode ?? null;
+    return minimumWageChecks(streams, streamTokens, report.period.start, report.until, directory, employerState, inrQuotes);
+  }, [report, streams, streamTokens, directory, employerCompliance, inrQuotes]);
+
+  const exportReport = (format: ExportFormat) => {
+    if (!report) return;
+    downloadTable(payrollReportTable(report, minimumWage ?? undefined, unpricedTokens), format, payrollReportFileName(report));
+    setShowExport(false);
+  };
+
+  const exportPayslips = () => {
+    if (!report) return;
+    setShowExport(false);
+    downloadPayslips(streams, streamTokens, period, payrollReportFileName(report).replace("payroll-report", "payslips"));
+  };
 
   // Calculate analytics
   const analytics = useMemo(() => {
     const now = Math.floor(Date.now() / 1000);
-    const periodSeconds = {
-      week: 7 * 24 * 60 * 60,
-      month: 30 * 24 * 60 * 60,
-      quarter: 90 * 24 * 60 * 60,
-      year: 365 * 24 * 60 * 60,
-    };
-    const periodStart = now - periodSeconds[selectedPeriod];
+    const periodEnd = Math.min(period.end, now);
 
     const activeStreams = streams.filter(s => s.status === 1);
     const completedStreams = streams.filter(s => s.status === 3);
     const pausedStreams = streams.filter(s => s.status === 2);
 
-    // Calculate total disbursed
-    const totalDisbursed = streams.reduce((acc, s) => {
-      const elapsed = Math.min(now - s.startTime, s.endTime - s.startTime);
-      const effectiveElapsed = Math.max(0, elapsed);
-      return acc + getActualAmount(s.ratePerSecond, BigInt(effectiveElapsed));
-    }, BigInt(0));
+    // Amounts are totalled per token, never across APT and stablecoins
+    // Wages earned within the selected period
+    const totalDisbursed = totalsByToken(streams, streamTokens, s => accruedBetween(s, period.start, periodEnd));
 
     // Calculate monthly burn rate
-    const monthlyBurn = activeStreams.reduce((acc, s) => 
-      acc + getActualAmount(s.ratePerSecond, BigInt(30 * 24 * 60 * 60)), BigInt(0)
+    const monthlyBurn = totalsByToken(activeStreams, streamTokens, s =>
+      getActualAmount(s.ratePerSecond, BigInt(30 * 24 * 60 * 60))
     );
 
-    // Calculate average stream value
-    const avgStreamValue = streams.length > 0
-      ? streams.reduce((acc, s) => acc + s.totalDeposited, BigInt(0)) / BigInt(streams.length)
-      : BigInt(0);
+    // Calculate average stream value of each token's streams
+    const avgStreamValue = totalsByToken(streams, streamTokens, s => s.totalDeposited).map(total =>
+      total.mulDiv(1, Math.max(1, streams.filter(s => (streamTokens[s.streamId] ?? APT).assetType === total.token.assetType).length))
+    );
 
     // Calculate remaining obligations
-    const remainingObligations = activeStreams.reduce((acc, s) => {
-      const remaining = s.endTime - now;
-      if (remaining > 0) {
-        return acc + getActualAmount(s.ratePerSecond, BigInt(remaining));
-      }
-      return acc;
-    }, BigInt(0));
+    const remainingObligations = totalsByToken(streams, streamTokens, s => calculateRemaining(s, now));
 
     return {
       totalStreams: streams.length,
@@ -73,7 +132,7 @@ export default function EmployerReportsPage() {
       remainingObligations,
       uniqueEmployees: new Set(streams.map(s => s.employee)).size,
     };
-  }, [streams, selectedPeriod]);
+  }, [streams, streamTokens, period]);
 
   // Stream distribution by status
   const streamDistribution = useMemo(() => {
@@ -88,6 +147,8 @@ export default function EmployerReportsPage() {
 
   const loading = streamsLoading || treasuryLoading;
 
+  const periodLabel = PERIOD_KINDS.find(p => p.kind === periodKind)?.label ?? "Period";
+
   if (!isConnected) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -120,27 +181,28 @@ export default function EmployerReportsPage() {
               onClick={() => setShowFilters(!showFilters)}
             >
               <Calendar className="w-4 h-4 mr-2" />
-              {selectedPeriod.charAt(0).toUpperCase() + selectedPeriod.slice(1)}
+              {periodLabel}
               <ChevronDown className="w-4 h-4 ml-2" />
             </Button>
             {showFilters && (
               <motion.div
                 initial={{ opacity: 0, y: -10 }}
                 animate={{ opacity: 1, y: 0 }}
-                className="absolute top-full right-0 mt-2 bg-white rounded-xl shadow-lg border border-wap-border p-2 z-10"
+                className="absolute top-full right-0 mt-2 bg-white rounded-xl shadow-lg border border-wap-border p-2 z-10 min-w-[220px]"
               >
-                {(["week", "month", "quarter", "year"] as const).map(period => (
+                {PERIOD_KINDS.map(({ kind, label }) => (
                   <button
-                    key={period}
+                    key={kind}
                     className={`w-full text-left px-4 py-2 rounded-lg hover:bg-wap-section transition-colors ${
-                      selectedPeriod === period ? "bg-wap-section text-wap-coral font-medium" : "text-wap-text-secondary"
+                      periodKind === kind ? "bg-wap-section text-wap-coral font-medium" : "text-wap-text-secondary"
                     }`}
                     onClick={() => {
-                      setSelectedPeriod(period);
+                      setPeriodKind(kind);
+                      setPeriodOffset(0);
                       setShowFilters(false);
                     }}
                   >
-                    {period.charAt(0).toUpperCase() + period.slice(1)}
+                    {label}
                   </button>
                 ))}
               </motion.div>
@@ -157,11 +219,102 @@ export default function EmployerReportsPage() {
             Refresh
           </Button>
 
-          <Button className="bg-linear-to-r from-wap-coral to-wap-gold text-white">
-            <Download className="w-4 h-4 mr-2" />
-            Export
-          </Button>
+          <div className="relative">
+            <Button
+              className="bg-linear-to-r from-wap-coral to-wap-gold text-white"
+              onClick={() => setShowExport(!showExport)}
+              disabled={!report || reportLoading || payslipsDownloading}
+            >
+              {payslipsDownloading ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4 mr-2" />
+              )}
+              Export
+              <ChevronDown className="w-4 h-4 ml-2" />
+            </Button>
+            {showExport && report && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="absolute top-full right-0 mt-2 bg-white rounded-xl shadow-lg border border-wap-border p-2 z-10 min-w-[180px]"
+              >
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    className="w-full text-left px-4 py-2 rounded-lg hover:bg-wap-section transition-colors text-wap-text-secondary"
+                    onClick={() => exportReport(format)}
+                  >
+                    {label}
+                  </button>
+                ))}
+                <div className="border-t border-wap-border my-1" />
+                <button
+                  className="w-full text-left px-4 py-2 rounded-lg hover:bg-wap-section transition-colors text-wap-text-secondary"
+                  onClick={exportPayslips}
+                >
+                  Monthly Payslips (ZIP)
+                </button>
+              </motion.div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {payslipsError && (
+        <div className="flex items-center gap-2 text-sm text-wap-coral">
+          <AlertCircle className="w-4 h-4" />
+          {payslipsError}
         </div>
+      )}
+
+      {/* Selected Period */}
+      <div className="flex flex-wrap items-center gap-3">
+        {periodKind === "custom" ? (
+          <div className="flex items-center gap-2">
+            <Calendar className="w-4 h-4 text-wap-text-tertiary" />
+            <input
+              type="date"
+              aria-label="From date"
+              value={customFrom}
+              max={customTo || undefined}
+              onChange={(e) => setCustomFrom(e.target.value)}
+              className="px-3 py-2 rounded-xl border border-wap-border focus:border-wap-coral focus:ring-1 focus:ring-wap-coral outline-none transition-all bg-white text-sm"
+            />
+            <span className="text-wap-text-tertiary text-sm">to</span>
+            <input
+              type="date"
+              aria-label="To date"
+              value={customTo}
+              min={customFrom || undefined}
+              onChange={(e) => setCustomTo(e.target.value)}
+              className="px-3 py-2 rounded-xl border border-wap-border focus:border-wap-coral focus:ring-1 focus:ring-wap-coral outline-none transition-all bg-white text-sm"
+            />
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-wap-border"
+              aria-label="Previous period"
+              onClick={() => setPeriodOffset(offset => offset - 1)}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="font-medium text-wap-text-primary min-w-[180px] text-center">{period.label}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-wap-border"
+              aria-label="Next period"
+              onClick={() => setPeriodOffset(offset => offset + 1)}
+              disabled={periodOffset >= 0}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
       </div>
 
       {loading ? (
@@ -181,14 +334,14 @@ export default function EmployerReportsPage() {
                 <div className="p-3 rounded-xl bg-linear-to-br from-wap-green/20 to-wap-green/5">
                   <DollarSign className="w-5 h-5 text-wap-green" />
                 </div>
-                <span className="text-sm text-wap-text-secondary">Total Disbursed</span>
+                <span className="text-sm text-wap-text-secondary">Wages Earned</span>
               </div>
               <div className="text-2xl font-bold font-mono text-wap-text-primary">
-                {formatAmount(analytics.totalDisbursed)} APT
+                {formatTokenTotals(analytics.totalDisbursed)}
               </div>
               <div className="flex items-center gap-1 mt-2 text-xs text-wap-green">
                 <TrendingUp className="w-3 h-3" />
-                <span>All time</span>
+                <span>{period.label}</span>
               </div>
             </motion.div>
 
@@ -205,7 +358,7 @@ export default function EmployerReportsPage() {
                 <span className="text-sm text-wap-text-secondary">Monthly Burn Rate</span>
               </div>
               <div className="text-2xl font-bold font-mono text-wap-text-primary">
-                {formatAmount(analytics.monthlyBurn)} APT
+                {formatTokenTotals(analytics.monthlyBurn)}
               </div>
               <div className="flex items-center gap-1 mt-2 text-xs text-wap-text-tertiary">
                 <Clock className="w-3 h-3" />
@@ -246,7 +399,7 @@ export default function EmployerReportsPage() {
                 <span className="text-sm text-wap-text-secondary">Avg Stream Value</span>
               </div>
               <div className="text-2xl font-bold font-mono text-wap-text-primary">
-                {formatAmount(analytics.avgStreamValue)} APT
+                {formatTokenTotals(analytics.avgStreamValue)}
               </div>
               <div className="flex items-center gap-1 mt-2 text-xs text-wap-text-tertiary">
                 <span>Per stream</span>
@@ -319,8 +472,9 @@ export default function EmployerReportsPage() {
                     <div 
                       className="h-full bg-linear-to-r from-wap-green to-wap-sky rounded-full"
                       style={{ 
-                        width: treasuryInfo && analytics.remainingObligations > 0
-                          ? `${Math.min(100, Number(treasuryInfo.balance * BigInt(100) / (analytics.remainingObligations || BigInt(1))))}%`
+                        // The APT treasury covers the APT streams (the first total)
+                        width: treasuryInfo && analytics.remainingObligations[0].raw > 0
+                          ? `${Math.min(100, Number(treasuryInfo.balance * BigInt(100) / analytics.remainingObligations[0].raw))}%`
                           : "100%"
                       }}
                     />
@@ -331,7 +485,7 @@ export default function EmployerReportsPage() {
                   <div className="p-4 rounded-xl bg-wap-section">
                     <span className="text-xs text-wap-text-tertiary uppercase tracking-wide">Remaining Obligations</span>
                     <div className="text-lg font-bold font-mono text-wap-coral mt-1">
-                      {formatAmount(analytics.remainingObligations)} APT
+                      {formatTokenTotals(analytics.remainingObligations)}
                     </div>
                   </div>
                   <div className="p-4 rounded-xl bg-wap-section">
@@ -345,6 +499,134 @@ export default function EmployerReportsPage() {
             </motion.div>
           </div>
 
+          {/* Payroll for the Period */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.55 }}
+            className="bg-white rounded-2xl border border-wap-border shadow-sm overflow-hidden"
+          >
+            <div className="p-6 border-b border-wap-border flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-wap-section">
+                  <Users className="w-5 h-5 text-wap-navy" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-wap-text-primary">Payroll</h3>
+                  <p className="text-xs text-wap-text-tertiary">{period.label}</p>
+                </div>
+              </div>
+              {reportLoading && <Loader2 className="w-5 h-5 animate-spin text-wap-coral" />}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-wap-section">
+                  <tr>
+                    {["Employee", "Gross", "Deductions", "Net", "Withdrawals", "Outstanding", "Skill", "Minimum Wage"].map(header => (
+                      <th key={header} className="px-6 py-3 text-left text-xs font-medium text-wap-text-tertiary uppercase tracking-wider">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-wap-border">
+                  {report && report.rows.length > 0 ? report.rows.map(row => (
+                    <tr key={`${row.employee} ${row.token.assetType}`} className="hover:bg-wap-section/50 transition-colors">
+                      <td className="px-6 py-4">
+                        <span className="font-mono text-sm text-wap-text-primary">{formatAddress(row.employee)}</span>
+                      </td>
+                      <td className="px-6 py-4 font-mono text-sm text-wap-text-primary">{formatTokenAmount(row.gross, row.token)}</td>
+                      <td className="px-6 py-4 font-mono text-sm text-wap-coral">
+                        {row.deductions ? formatTokenAmount(row.deductions.total, row.token) : "—"}
+                      </td>
+                      <td className="px-6 py-4 font-mono text-sm text-wap-text-primary">
+                        {row.net !== null ? formatTokenAmount(row.net, row.token) : "—"}
+                      </td>
+                      <td className="px-6 py-4 font-mono text-sm text-wap-text-primary">
+                        {row.withdrawals !== null ? formatTokenAmount(row.withdrawals, row.token) : "—"}
+                        {row.withdrawalsInr !== null && row.withdrawals !== BigInt(0) && (
+                          <div className="text-xs text-wap-text-tertiary">≈ {formatFiat(row.withdrawalsInr, "INR")} when withdrawn</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 font-mono text-sm text-wap-green">
+                        {row.outstanding !== null ? formatTokenAmount(row.outstanding, row.token) : "—"}
+                      </td>
+                      <td className="px-6 py-4">
+                        <select
+                          aria-label="Skill category"
+                          value={findEmployeeRecord(directory, row.employee).skill ?? ""}
+                          onChange={e => saveRecord(row.employee, {
+                            ...findEmployeeRecord(directory, row.employee),
+                            skill: e.target.value === "" ? undefined : Number(e.target.value),
+                          })}
+                          className="px-2 py-1.5 rounded-lg border border-wap-border bg-white text-sm text-wap-text-secondary outline-none focus:border-wap-coral"
+                        >
+                          <option value="">Not recorded</option>
+                          {Object.values(SKILL_CATEGORIES).map(skill => (
+                            <option key={skill} value={skill}>{SKILL_CATEGORY_NAMES[skill]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4">
+                        {minimumWage?.[row.employee] ? (
+                          <span
+                            title={minimumWageSummary(minimumWage[row.employee])}
+                            className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${
+                              minimumWage[row.employee].check.status === "below"
+                                ? "bg-wap-coral/10 text-wap-coral"
+                                : "bg-wap-green/10 text-wap-green"
+                            }`}
+                          >
+                            {minimumWage[row.employee].check.status === "below" ? "Below minimum" : "Compliant"}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-wap-text-tertiary">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  )) : (
+                    <tr>
+                      <td colSpan={8} className="px-6 py-12 text-center text-wap-text-tertiary">
+                        {reportLoading ? "Preparing payroll..." : "No wages in this period"}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {report && report.notes.length > 0 && (
+              <div className="px-6 py-4 border-t border-wap-border space-y-1">
+                {report.notes.map(note => (
+                  <p key={note} className="text-xs text-wap-text-tertiary">{note}</p>
+                ))}
+                {minimumWage && <p className="text-xs text-wap-text-tertiary">{MINIMUM_WAGE_NOTE}</p>}
+                {unpricedTokens.length > 0 && (
+                  <p className="text-xs text-wap-text-tertiary">{unpricedNote(unpricedTokens)}</p>
+                )}
+              </div>
+            )}
+          </motion.div>
+
+          {/* Statutory Returns */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.58 }}
+          >
+            <StatutoryReturns streams={streams} streamTokens={streamTokens} directory={directory} onSaveRecord={saveRecord} />
+          </motion.div>
+
+          {/* TDS Statements */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.59 }}
+          >
+            <TdsStatements streams={streams} streamTokens={streamTokens} directory={directory} onSaveRecord={saveRecord} />
+          </motion.div>
+
           {/* Recent Activity Table */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -374,12 +656,9 @@ export default function EmployerReportsPage() {
                 </thead>
                 <tbody className="divide-y divide-wap-border">
                   {streams.length > 0 ? streams.slice(0, 10).map((stream, i) => {
-                    const now = Math.floor(Date.now() / 1000);
-                    const duration = stream.endTime - stream.startTime;
-                    const elapsed = Math.min(now - stream.startTime, duration);
-                    const progress = duration > 0 ? (elapsed / duration) * 100 : 0;
+                    const progress = getStreamProgress(stream);
                     const dailyRate = getActualAmount(stream.ratePerSecond, BigInt(86400));
-                    const totalValue = getActualAmount(stream.ratePerSecond, BigInt(duration));
+                    const totalValue = stream.totalDeposited;
 
                     return (
                       <tr key={i} className="hover:bg-wap-section/50 transition-colors">
@@ -399,10 +678,10 @@ export default function EmployerReportsPage() {
                           </span>
                         </td>
                         <td className="px-6 py-4 font-mono text-sm text-wap-text-primary">
-                          {formatAmount(dailyRate)} APT
+                          {formatTokenAmount(dailyRate, streamTokens[stream.streamId] ?? APT)}
                         </td>
                         <td className="px-6 py-4 font-mono text-sm text-wap-text-primary">
-                          {formatAmount(totalValue)} APT
+                          {formatTokenAmount(totalValue, streamTokens[stream.streamId] ?? APT)}
                         </td>
                         <td className="px-6 py-4">
                           <div className="flex items-center gap-2">
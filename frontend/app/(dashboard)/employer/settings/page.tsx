@@ -13,7 +13,8 @@ import { useAuth } from "@/contexts/AptosWalletContext";
 import { useTreasuryInfo } from "@/hooks/useTreasury";
 import { formatAddress } from "@/types";
 import { GlassCard } from "@/components/shared/GlassCard";
-import { getExplorerUrl, NETWORK } from "@/lib/aptos/config";
+import { NetworkSwitcher } from "@/components/shared/NetworkStatus";
+import { getExplorerUrl } from "@/lib/aptos/config";
 
 export default function EmployerSettingsPage() {
   const { isConnected, address } = useAuth();
@@ -378,12 +379,10 @@ export default function EmployerSettingsPage() {
                       <Globe className="w-5 h-5 text-wap-text-secondary" />
                       <div>
                         <h3 className="font-medium text-wap-text-primary">Network</h3>
-                        <p className="text-sm text-wap-text-tertiary">Current blockchain network</p>
+                        <p className="text-sm text-wap-text-tertiary">Blockchain network the app uses</p>
                       </div>
                     </div>
-                    <span className="px-3 py-1 rounded-full bg-wap-navy/10 text-wap-navy text-sm font-medium capitalize">
-                      {NETWORK}
-                    </span>
+                    <NetworkSwitcher />
                   </div>
 
                   <div className="flex items-center justify-between p-4 rounded-xl bg-wap-section">
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { GlassCard } from "@/components/shared/GlassCard";
 import { Button } from "@/components/ui/button";
@@ -21,36 +21,60 @@ import {
   Activity,
   PieChart,
   TrendingUp,
+  FileDown,
+  FileUp,
+  AlertTriangle,
+  QrCode,
 } from "lucide-react";
 import { useAuth } from "@/contexts/AptosWalletContext";
 import { 
   useTreasuryBalance, 
+  useTreasuryAssetBalances,
   useTreasuryExists,
   useTreasuryHealth,
   useTreasuryOperations
 } from "@/hooks/useTreasury";
 import { useEmployerStreams } from "@/hooks/useWageStreaming";
-import { formatAmount, formatAddress, getActualAmount } from "@/types";
-import { getExplorerUrl } from "@/lib/aptos/config";
+import { useTransactionPreview } from "@/hooks/useTransactionPreview";
+import { TransactionPreviewModal } from "@/components/shared/TransactionPreviewModal";
+import { OfflineTransactionModal } from "@/components/shared/OfflineTransactionModal";
+import { OfflineQrExportModal } from "@/components/shared/OfflineQrExportModal";
+import { OfflineQrScanModal } from "@/components/shared/OfflineQrScanModal";
+import { useOfflineSigning } from "@/hooks/useOfflineSigning";
+import { OFFLINE_SIGNING_AVAILABLE, OfflineQrPart } from "@/lib/aptos/offline";
+import { formatAmount, formatTokenAmount, formatTokenTotals, totalsByToken, formatAddress, getActualAmount, calculateRemaining, calculateWithdrawable } from "@/types";
+import { getExplorerUrl, REGISTRY_ADDRESS, aptToOctas, aptAmount, octasToApt } from "@/lib/aptos/config";
+import { depositPayload, depositAssetPayload, withdrawPayload } from "@/lib/aptos/employerTreasury";
+import { APT, TokenAmount, TokenMetadata, isCoinType } from "@wage-protocol/sdk/protocol";
+import { TokenSelect } from "@/components/shared/TokenSelect";
+import { FiatValue } from "@/components/shared/FiatValue";
 
 // Deposit Modal Component
 const DepositModal = ({
   isOpen,
   onClose,
   onSubmit,
+  onExportOffline,
   loading,
 }: {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (amount: bigint) => void;
+  onSubmit: (amount: bigint, token: TokenMetadata) => void;
+  onExportOffline?: (amount: bigint) => void;
   loading: boolean;
 }) => {
   const [amount, setAmount] = useState("");
+  const [token, setToken] = useState<TokenMetadata>(APT);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const amountInOctas = BigInt(Math.floor(parseFloat(amount) * 100_000_000));
-    onSubmit(amountInOctas);
+    // In the token's smallest unit (octas for APT)
+    onSubmit(TokenAmount.parse(amount, token).raw, token);
+  };
+
+  const handleExportOffline = () => {
+    const amountInOctas = aptToOctas(amount);
+    onExportOffline?.(amountInOctas);
   };
 
   if (!isOpen) return null;
@@ -65,8 +89,9 @@ const DepositModal = ({
       >
         <h2 className="text-2xl font-bold text-[#1A1A2E] mb-6">Deposit to Treasury</h2>
         <form onSubmit={handleSubmit} className="space-y-4">
+          <TokenSelect value={token} onChange={setToken} disabled={loading} />
           <div>
-            <label className="block text-sm font-medium text-[#4A5568] mb-2">Amount (APT)</label>
+            <label className="block text-sm font-medium text-[#4A5568] mb-2">Amount ({token.symbol})</label>
             <input
               type="number"
               value={amount}
@@ -96,6 +121,17 @@ const DepositModal = ({
               Deposit
             </Button>
           </div>
+          {onExportOffline && isCoinType(token) && (
+            <button
+              type="button"
+              onClick={handleExportOffline}
+              disabled={loading || !amount}
+              className="w-full flex items-center justify-center gap-2 text-sm text-[#718096] hover:text-[#E85A4F] disabled:opacity-50 cursor-pointer"
+            >
+              <FileDown className="w-4 h-4" />
+              Export for cold-wallet signing
+            </button>
+          )}
         </form>
       </motion.div>
     </div>
@@ -107,12 +143,14 @@ const WithdrawModal = ({
   isOpen,
   onClose,
   onSubmit,
+  onExportOffline,
   loading,
   maxAmount,
 }: {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (amount: bigint) => void;
+  onExportOffline?: (amount: bigint) => void;
   loading: boolean;
   maxAmount: bigint;
 }) => {
@@ -120,12 +158,17 @@ const WithdrawModal = ({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const amountInOctas = BigInt(Math.floor(parseFloat(amount) * 100_000_000));
+    const amountInOctas = aptToOctas(amount);
     onSubmit(amountInOctas);
   };
 
+  const handleExportOffline = () => {
+    const amountInOctas = aptToOctas(amount);
+    onExportOffline?.(amountInOctas);
+  };
+
   const handleMax = () => {
-    setAmount(formatAmount(maxAmount));
+    setAmount(aptAmount(maxAmount).toDecimalString());
   };
 
   if (!isOpen) return null;
@@ -153,7 +196,7 @@ const WithdrawModal = ({
               onChange={(e) => setAmount(e.target.value)}
               placeholder="0.00"
               step="0.01"
-              max={Number(formatAmount(maxAmount))}
+              max={octasToApt(maxAmount)}
               className="w-full px-4 py-3 rounded-xl border border-[#E8DED4] focus:border-[#E85A4F] focus:ring-1 focus:ring-[#E85A4F] outline-none transition-all"
               required
             />
@@ -177,6 +220,17 @@ const WithdrawModal = ({
               Withdraw
             </Button>
           </div>
+          {onExportOffline && (
+            <button
+              type="button"
+              onClick={handleExportOffline}
+              disabled={loading || !amount}
+              className="w-full flex items-center justify-center gap-2 text-sm text-[#718096] hover:text-[#E85A4F] disabled:opacity-50 cursor-pointer"
+            >
+              <FileDown className="w-4 h-4" />
+              Export for cold-wallet signing
+            </button>
+          )}
         </form>
       </motion.div>
     </div>
@@ -191,15 +245,20 @@ export default function TreasuryPage() {
   // Blockchain data hooks
   const { exists: treasuryExists, loading: existsLoading } = useTreasuryExists();
   const { 
-    balanceInApt, 
+    balanceAmount, 
     availableBalance,
     reserveBalance, 
     loading: balanceLoading, 
     refetch: refetchBalance 
   } = useTreasuryBalance();
+  const { assetBalances, refetch: refetchAssetBalances } = useTreasuryAssetBalances();
   const { healthPercentage } = useTreasuryHealth();
   const { deposit, withdraw, initializeTreasury, loading: opLoading } = useTreasuryOperations();
-  const { streams, loading: streamsLoading } = useEmployerStreams();
+  const { streams, streamTokens, loading: streamsLoading } = useEmployerStreams();
+  const txPreview = useTransactionPreview();
+  const offline = useOfflineSigning();
+  const signedFileInput = useRef<HTMLInputElement>(null);
+  const [showQrScan, setShowQrScan] = useState(false);
 
   // Derive health status from health percentage
   const healthStatus = useMemo(() => {
@@ -212,30 +271,16 @@ export default function TreasuryPage() {
   // Calculate stats
   const treasuryStats = useMemo(() => {
     const activeStreams = streams.filter(s => s.status === 1);
-    // Apply PRECISION: remaining value = (ratePerSecond * remaining) / PRECISION
-    const activeStreamValue = activeStreams.reduce((acc, s) => {
-      const endTime = BigInt(s.endTime);
-      const now = BigInt(Math.floor(Date.now() / 1000));
-      const remaining = endTime > now ? endTime - now : BigInt(0);
-      return acc + (remaining > BigInt(0) ? getActualAmount(s.ratePerSecond, remaining) : BigInt(0));
-    }, BigInt(0));
+    // Wages the active streams have yet to earn
+    const activeStreamValue = totalsByToken(activeStreams, streamTokens, calculateRemaining);
     
-    // Apply PRECISION: pending claims = (ratePerSecond * elapsed) / PRECISION - withdrawn
-    const pendingClaims = activeStreams.reduce((acc, s) => {
-      const now = BigInt(Math.floor(Date.now() / 1000));
-      const startTime = BigInt(s.startTime);
-      const endTime = BigInt(s.endTime);
-      const elapsed = now > startTime ? now - startTime : BigInt(0);
-      const duration = endTime - startTime;
-      const effectiveElapsed = elapsed > duration ? duration : elapsed;
-      const earned = getActualAmount(s.ratePerSecond, effectiveElapsed);
-      return acc + (earned > s.totalWithdrawn ? earned - s.totalWithdrawn : BigInt(0));
-    }, BigInt(0));
+    // Earned but unclaimed, including what paused streams accrued before the pause
+    const pendingClaims = totalsByToken(streams, streamTokens, calculateWithdrawable);
 
     return [
       {
         label: "Total Balance",
-        value: `${balanceInApt.toFixed(4)} APT`,
+        value: `${balanceAmount.format({ minimumFractionDigits: 4, maximumFractionDigits: 4 })} APT`,
         change: healthStatus,
         isPositive: healthPercentage > 50,
         icon: Wallet,
@@ -243,7 +288,7 @@ export default function TreasuryPage() {
       },
       {
         label: "Active Streams",
-        value: `${formatAmount(activeStreamValue)} APT`,
+        value: formatTokenTotals(activeStreamValue),
         change: `${activeStreams.length} streams`,
         isPositive: true,
         icon: Zap,
@@ -251,7 +296,7 @@ export default function TreasuryPage() {
       },
       {
         label: "Pending Claims",
-        value: `${formatAmount(pendingClaims)} APT`,
+        value: formatTokenTotals(pendingClaims),
         change: `${activeStreams.length} employees`,
         isPositive: false,
         icon: Clock,
@@ -266,34 +311,71 @@ export default function TreasuryPage() {
         color: "from-[#6BB3D9] to-[#93C5FD]",
       },
     ];
-  }, [balanceInApt, streams, availableBalance, healthPercentage, healthStatus]);
+  }, [balanceAmount, streams, streamTokens, availableBalance, healthPercentage, healthStatus]);
 
-  // Handle deposit
-  const handleDeposit = async (amount: bigint) => {
-    try {
-      const txHash = await deposit(amount);
-      if (txHash) {
-        setShowDepositModal(false);
-        refetchBalance();
+  // Handle deposit (preview the simulation before the wallet prompt)
+  const handleDeposit = (amount: bigint, token: TokenMetadata) => {
+    const payload = isCoinType(token)
+      ? depositPayload(REGISTRY_ADDRESS, amount)
+      : depositAssetPayload(REGISTRY_ADDRESS, token.assetType, amount);
+    txPreview.requestConfirmation(`Deposit ${token.symbol}`, payload, async () => {
+      try {
+        const txHash = await deposit(amount, token);
+        if (txHash) {
+          setShowDepositModal(false);
+          refetchBalance();
+          refetchAssetBalances();
+        }
+      } catch (error) {
+        console.error("Deposit failed:", error);
       }
-    } catch (error) {
-      console.error("Deposit failed:", error);
-    }
+    });
   };
 
-  // Handle withdraw
-  const handleWithdraw = async (amount: bigint) => {
-    try {
-      const txHash = await withdraw(amount);
-      if (txHash) {
-        setShowWithdrawModal(false);
-        refetchBalance();
+  // Handle withdraw (preview the simulation before the wallet prompt)
+  const handleWithdraw = (amount: bigint) => {
+    txPreview.requestConfirmation("Withdrawal", withdrawPayload(REGISTRY_ADDRESS, amount), async () => {
+      try {
+        const txHash = await withdraw(amount);
+        if (txHash) {
+          setShowWithdrawModal(false);
+          refetchBalance();
+        }
+      } catch (error) {
+        console.error("Withdrawal failed:", error);
       }
-    } catch (error) {
-      console.error("Withdrawal failed:", error);
+    });
+  };
+
+  // Export the operation unsigned, for a treasury key kept on an offline machine
+  const handleExportOffline = async (
+    operation: "deposit" | "withdraw" | "emergencyWithdraw",
+    amount?: bigint
+  ) => {
+    const exported = await offline.exportTransaction(operation, amount);
+    if (exported) {
+      setShowDepositModal(false);
+      setShowWithdrawModal(false);
     }
   };
 
+  // Load the file signed by the cold wallet for review before submitting
+  const handleSignedFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) await offline.loadSignedTransaction(file);
+  };
+
+  // Load the signed transaction from the QR codes shown by the offline machine
+  const handleScannedParts = (parts: OfflineQrPart[]) => {
+    if (offline.loadSignedQrParts(parts)) setShowQrScan(false);
+  };
+
+  const handleSubmitSigned = async () => {
+    const txHash = await offline.submitTransaction();
+    if (txHash) refetchBalance();
+  };
+
   // Handle initialize treasury
   const handleInitializeTreasury = async () => {
     try {
@@ -352,7 +434,10 @@ export default function TreasuryPage() {
             isOpen={showDepositModal}
             onClose={() => setShowDepositModal(false)}
             onSubmit={handleDeposit}
-            loading={opLoading}
+            onExportOffline={
+              OFFLINE_SIGNING_AVAILABLE ? (amount) => handleExportOffline("deposit", amount) : undefined
+            }
+            loading={opLoading || offline.loading}
           />
         )}
         {showWithdrawModal && (
@@ -360,10 +445,42 @@ export default function TreasuryPage() {
             isOpen={showWithdrawModal}
             onClose={() => setShowWithdrawModal(false)}
             onSubmit={handleWithdraw}
-            loading={opLoading}
+            onExportOffline={
+              OFFLINE_SIGNING_AVAILABLE ? (amount) => handleExportOffline("withdraw", amount) : undefined
+            }
+            loading={opLoading || offline.loading}
             maxAmount={availableBalance}
           />
         )}
+        {txPreview.isOpen && (
+          <TransactionPreviewModal
+            isOpen={txPreview.isOpen}
+            title={txPreview.title}
+            preview={txPreview.preview}
+            simulating={txPreview.simulating}
+            onConfirm={txPreview.confirm}
+            onCancel={txPreview.cancel}
+          />
+        )}
+        {offline.exportedTransaction && (
+          <OfflineQrExportModal transaction={offline.exportedTransaction} onClose={offline.clearExportedTransaction} />
+        )}
+        {showQrScan && (
+          <OfflineQrScanModal
+            error={offline.error}
+            onComplete={handleScannedParts}
+            onCancel={() => setShowQrScan(false)}
+          />
+        )}
+        {offline.signedTransaction && (
+          <OfflineTransactionModal
+            transaction={offline.signedTransaction}
+            submitting={offline.loading}
+            error={offline.error}
+            onSubmit={handleSubmitSigned}
+            onCancel={offline.clearSignedTransaction}
+          />
+        )}
       </AnimatePresence>
 
       {/* Header */}
@@ -488,7 +605,8 @@ export default function TreasuryPage() {
                   <DollarSign className="w-4 h-4 text-[#2D9F6C]" />
                   <span className="text-sm text-[#718096]">Total Balance</span>
                 </div>
-                <p className="text-xl font-bold font-mono text-[#1A1A2E]">{balanceInApt.toFixed(4)} APT</p>
+                <p className="text-xl font-bold font-mono text-[#1A1A2E]">{balanceAmount.format({ minimumFractionDigits: 4, maximumFractionDigits: 4 })} APT</p>
+                <FiatValue amount={balanceAmount} className="text-xs text-[#718096] font-mono mt-1" />
               </div>
               <div className="p-4 bg-[#FAF6F1] rounded-xl">
                 <div className="flex items-center gap-2 mb-2">
@@ -505,6 +623,32 @@ export default function TreasuryPage() {
                 <p className="text-xl font-bold font-mono text-[#1A1A2E]">{formatAmount(availableBalance)} APT</p>
               </div>
             </div>
+
+            {/* Fungible asset (e.g. stablecoin) balances */}
+            {assetBalances.length > 0 && (
+              <div className="mt-4 space-y-3">
+                {assetBalances.map((asset) => (
+                  <div
+                    key={asset.token.assetType}
+                    className="flex items-center justify-between p-4 bg-[#FAF6F1] rounded-xl"
+                  >
+                    <div>
+                      <p className="text-sm font-semibold text-[#1A1A2E]">{asset.token.symbol}</p>
+                      <p className="text-xs text-[#718096]">{asset.token.name}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-xl font-bold font-mono text-[#1A1A2E]">
+                        {asset.balance.format({ minimumFractionDigits: 2, maximumFractionDigits: 2, withSymbol: true })}
+                      </p>
+                      <FiatValue amount={asset.balance} className="text-xs text-[#718096] font-mono" />
+                      <p className="text-xs text-[#718096]">
+                        Available {asset.availableBalance.format({ minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </GlassCard>
         </motion.div>
 
@@ -551,6 +695,56 @@ export default function TreasuryPage() {
               </motion.div>
             </div>
 
+            {/* Cold Wallet */}
+            {OFFLINE_SIGNING_AVAILABLE && (
+              <div className="mt-6 pt-6 border-t border-[#E8DED4]">
+                <h3 className="text-sm font-semibold text-[#1A1A2E] mb-1">Cold Wallet</h3>
+                <p className="text-xs text-[#718096] mb-4">
+                  Export a transaction as a file or QR codes, sign it on the offline machine (wage-cli offline
+                  sign), then submit the signed file or scan its QR codes here.
+                </p>
+                <div className="space-y-3">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleExportOffline("emergencyWithdraw")}
+                    disabled={offline.loading || availableBalance === BigInt(0)}
+                    className="w-full justify-start border-[#E8DED4] hover:bg-[#F5EDE6]"
+                  >
+                    <AlertTriangle className="w-4 h-4 mr-3 text-[#E85A4F]" />
+                    Export Emergency Withdrawal
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => signedFileInput.current?.click()}
+                    disabled={offline.loading}
+                    className="w-full justify-start border-[#E8DED4] hover:bg-[#F5EDE6]"
+                  >
+                    <FileUp className="w-4 h-4 mr-3 text-[#2D9F6C]" />
+                    Submit Signed File
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowQrScan(true)}
+                    disabled={offline.loading}
+                    className="w-full justify-start border-[#E8DED4] hover:bg-[#F5EDE6]"
+                  >
+                    <QrCode className="w-4 h-4 mr-3 text-[#2D9F6C]" />
+                    Scan Signed QR Codes
+                  </Button>
+                  <input
+                    ref={signedFileInput}
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleSignedFile}
+                    className="hidden"
+                  />
+                  {offline.error && !offline.signedTransaction && !showQrScan && (
+                    <p className="text-xs text-[#E85A4F]">{offline.error}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Active Streams Summary */}
             <div className="mt-6 pt-6 border-t border-[#E8DED4]">
               <h3 className="text-sm font-semibold text-[#1A1A2E] mb-4">Active Streams</h3>
@@ -563,7 +757,7 @@ export default function TreasuryPage() {
                       </div>
                       <div>
                         <p className="text-sm font-medium text-[#1A1A2E]">{formatAddress(stream.employee)}</p>
-                        <p className="text-xs text-[#718096]">{formatAmount(getActualAmount(stream.ratePerSecond, BigInt(86400)))} APT/day</p>
+                        <p className="text-xs text-[#718096]">{formatTokenAmount(getActualAmount(stream.ratePerSecond, BigInt(86400)), streamTokens[stream.streamId] ?? APT)}/day</p>
                       </div>
                     </div>
                     <Zap className="w-4 h-4 text-[#2D9F6C] animate-pulse" />
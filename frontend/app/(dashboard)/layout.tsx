@@ -2,6 +2,7 @@
 
 import { Sidebar } from "@/components/shared/Sidebar";
 import { AuthGuard } from "@/components/auth/AuthGuard";
+import { NetworkMismatchBanner } from "@/components/shared/NetworkStatus";
 import { usePathname } from "next/navigation";
 
 export default function DashboardLayout({
@@ -17,6 +18,7 @@ export default function DashboardLayout({
       <div className="min-h-screen bg-[#FDF8F3] text-[#1A1A2E] flex">
         <Sidebar role={role} />
         <main className="flex-1 ml-0 lg:ml-[72px] xl:ml-[260px] p-4 md:p-6 lg:p-8 pt-16 lg:pt-8 transition-all duration-300">
+          <NetworkMismatchBanner />
           {children}
         </main>
       </div>
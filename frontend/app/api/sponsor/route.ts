@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { GasSponsor, SponsorBudget, SponsorshipError, SponsorshipRejection } from "@wage-protocol/sdk";
+import { NETWORK, NODE_URL, CONTRACT_ADDRESS, MODULE_NAMES, simulator } from "@/lib/aptos/config";
+
+// Gas sponsor for employee withdrawals. The fee-payer key and employer budgets
+// are server-only settings:
+//   SPONSOR_PRIVATE_KEY - Ed25519 key of the employer-funded fee-payer account
+//   SPONSOR_BUDGETS     - JSON budgets by employer address, e.g.
+//     {"0xabc...": {"totalOctas": "100000000", "perEmployeeOctas": "2000000", "perEmployeeTransactions": 5}}
+
+interface BudgetSetting {
+  totalOctas: string | number;
+  perEmployeeOctas: string | number;
+  perEmployeeTransactions: number;
+  windowSeconds?: number;
+}
+
+const parseBudgets = (json: string): Record<string, SponsorBudget> =>
+  Object.fromEntries(
+    Object.entries(JSON.parse(json) as Record<string, BudgetSetting>).map(([employer, setting]) => [
+      employer,
+      {
+        totalOctas: BigInt(setting.totalOctas),
+        perEmployeeOctas: BigInt(setting.perEmployeeOctas),
+        perEmployeeTransactions: Number(setting.perEmployeeTransactions),
+        windowSeconds: setting.windowSeconds,
+      },
+    ])
+  );
+
+const createSponsor = (): GasSponsor | null => {
+  const privateKey = process.env.SPONSOR_PRIVATE_KEY;
+  if (!privateKey || simulator) return null;
+
+  return new GasSponsor({
+    network: NETWORK,
+    nodeUrl: NODE_URL,
+    moduleAddress: CONTRACT_ADDRESS,
+    moduleNames: MODULE_NAMES,
+    feePayerPrivateKey: privateKey,
+    budgets: parseBudgets(process.env.SPONSOR_BUDGETS || "{}"),
+  });
+};
+
+// One sponsor per server process, so its in-memory ledger spans requests
+const sponsor = createSponsor();
+
+// Limits the employee can wait out, as opposed to requests that will never be sponsored
+const RETRYABLE_REJECTIONS: SponsorshipRejection[] = ["BUDGET_EXHAUSTED", "EMPLOYEE_LIMIT_REACHED"];
+
+export async function POST(request: Request) {
+  if (!sponsor) {
+    return NextResponse.json({ error: "Gas sponsorship is not configured" }, { status: 503 });
+  }
+
+  const body = (await request.json().catch(() => null)) as { transaction?: unknown; senderAuthenticator?: unknown };
+  if (typeof body?.transaction !== "string" || typeof body?.senderAuthenticator !== "string") {
+    return NextResponse.json(
+      { error: "Expected a signed transaction and sender authenticator", reason: "INVALID_REQUEST" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await sponsor.sponsor({
+      transaction: body.transaction,
+      senderAuthenticator: body.senderAuthenticator,
+    });
+    return NextResponse.json({ hash: result.hash, success: result.success, gasFee: result.gasFee.toString() });
+  } catch (error) {
+    if (error instanceof SponsorshipError) {
+      const status = RETRYABLE_REJECTIONS.includes(error.reason) ? 429 : 403;
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status });
+    }
+    console.error("Gas sponsorship failed:", error);
+    return NextResponse.json({ error: "Gas sponsorship failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import React, { useState } from "react";
+import { EmployeeRecord } from "@/lib/reports/directory";
+
+export type EmployeeRecordField = Exclude<keyof EmployeeRecord, "stateCode" | "skill">;
+
+interface EmployeeRecordInputsProps {
+  record: EmployeeRecord;
+  fields: EmployeeRecordField[];
+  onSave: (record: EmployeeRecord) => void;
+}
+
+const FIELDS: Record<EmployeeRecordField, { label: string; placeholder: string; numeric?: boolean }> = {
+  name: { label: "Name", placeholder: "Name as on PAN" },
+  pan: { label: "PAN", placeholder: "ABCDE1234F" },
+  uan: { label: "UAN", placeholder: "12 digits", numeric: true },
+  ipNumber: { label: "ESIC IP number", placeholder: "10 digits", numeric: true },
+};
+
+const inputClassName =
+  "w-full px-3 py-1.5 rounded-lg border border-wap-border focus:border-wap-coral focus:ring-1 focus:ring-wap-coral outline-none transition-all bg-white text-sm";
+
+/**
+ * Table cells editing an employee's directory record, one per field. Edits are
+ * saved when a field loses focus; key the component by the record to reset it.
+ */
+export function EmployeeRecordInputs({ record, fields, onSave }: EmployeeRecordInputsProps) {
+  const [draft, setDraft] = useState(record);
+  const save = () => {
+    if (fields.some((field) => draft[field] !== record[field])) onSave(draft);
+  };
+
+  return (
+    <>
+      {fields.map((field) => (
+        <td key={field} className="px-4 py-3">
+          <input
+            aria-label={FIELDS[field].label}
+            value={draft[field]}
+            placeholder={FIELDS[field].placeholder}
+            inputMode={FIELDS[field].numeric ? "numeric" : "text"}
+            onChange={(event) =>
+              setDraft({ ...draft, [field]: field === "pan" ? event.target.value.toUpperCase() : event.target.value })
+            }
+            onBlur={save}
+            className={`${inputClassName} ${field === "name" ? "" : "font-mono"}`}
+          />
+        </td>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import React from "react";
+import { Clock } from "lucide-react";
+import { PriceQuote, TokenAmount, formatFiat, toFiat } from "@wage-protocol/sdk/protocol";
+import { useFiatQuotes } from "@/hooks/usePrices";
+
+interface FiatValueProps {
+  amount: TokenAmount;
+  /** Price at these quotes (e.g. the rates when a withdrawal was made) instead of live ones */
+  quotes?: PriceQuote[];
+  className?: string;
+}
+
+const describeQuote = (quote: PriceQuote) =>
+  `1 ${quote.symbol} = ${formatFiat(quote.price, quote.currency)} (${quote.source}, ` +
+  `${new Date(quote.asOf).toLocaleString()}${quote.stale ? ", stale" : ""})`;
+
+/**
+ * An amount's value in the display currencies, e.g. "≈ ₹8,412.50 · $100.25".
+ * Stale rates get a clock icon; renders nothing when no rate is available.
+ */
+export function FiatValue({ amount, quotes, className = "" }: FiatValueProps) {
+  const live = useFiatQuotes(amount.token);
+  const shown = (quotes ?? live.quotes).filter((quote) => quote.symbol === amount.token.symbol);
+  if (shown.length === 0) return null;
+
+  const stale = shown.some((quote) => quote.stale);
+  return (
+    <span className={`inline-flex items-center gap-1 ${className}`} title={shown.map(describeQuote).join("\n")}>
+      ≈ {shown.map((quote) => formatFiat(toFiat(amount, quote), quote.currency)).join(" · ")}
+      {stale && <Clock className="w-3 h-3 text-wap-amber" aria-label="Price may be out of date" />}
+    </span>
+  );
+}
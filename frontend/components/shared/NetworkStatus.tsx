@@ -0,0 +1,68 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import type { NetworkProfileName } from "@wage-protocol/sdk/protocol";
+import { useAuth } from "@/contexts/AptosWalletContext";
+import { useMounted } from "@/hooks/useMounted";
+import { NETWORK_DEPLOYED, NETWORK_PROFILE, simulator } from "@/lib/aptos/config";
+import { NETWORK_PROFILES, SELECTABLE_NETWORKS, switchNetwork } from "@/lib/aptos/networks";
+
+interface NetworkSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Select for the app's network profile; switching reloads the app. The active
+ * profile comes from localStorage, so it is only shown once mounted.
+ */
+export function NetworkSwitcher({ className = "" }: NetworkSwitcherProps) {
+  const mounted = useMounted();
+
+  if (simulator) {
+    return (
+      <span className={`px-3 py-1 rounded-full bg-wap-navy/10 text-wap-navy text-sm font-medium ${className}`}>
+        Simulator
+      </span>
+    );
+  }
+
+  return (
+    <select
+      value={mounted ? NETWORK_PROFILE.name : ""}
+      onChange={(event) => switchNetwork(event.target.value as NetworkProfileName)}
+      disabled={!mounted || SELECTABLE_NETWORKS.length < 2}
+      className={`px-3 py-1 rounded-full bg-wap-navy/10 text-wap-navy text-sm font-medium focus:outline-none ${className}`}
+    >
+      {!mounted && <option value="">Network</option>}
+      {SELECTABLE_NETWORKS.map((name) => (
+        <option key={name} value={name}>
+          {NETWORK_PROFILES[name].label}
+          {NETWORK_PROFILES[name].deployment ? "" : " (not deployed)"}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Warning shown while transactions are blocked: the connected wallet is on another
+ * network than the app, or the protocol is not deployed on the app's network
+ */
+export function NetworkMismatchBanner() {
+  const mounted = useMounted();
+  const { network, wrongNetwork } = useAuth();
+
+  if (!mounted || simulator || (NETWORK_DEPLOYED && !wrongNetwork)) return null;
+
+  const message = !NETWORK_DEPLOYED
+    ? `The protocol is not deployed on ${NETWORK_PROFILE.label}. Pick another network in Settings.`
+    : `Your wallet is connected to ${network?.name ?? "an unknown network"}, but the app is using ` +
+      `${NETWORK_PROFILE.label}. Switch your wallet's network (or the app's, in Settings) to send transactions.`;
+
+  return (
+    <div className="mb-6 flex items-start gap-3 p-4 rounded-xl border border-wap-amber/40 bg-wap-amber/10 text-sm text-wap-text-primary">
+      <AlertTriangle className="w-5 h-5 shrink-0 text-wap-amber" />
+      <p>{message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { OfflineTransaction, QrCode, offlineQrCodes } from "@/lib/aptos/offline";
+
+interface OfflineQrExportModalProps {
+  transaction: OfflineTransaction;
+  onClose: () => void;
+}
+
+// Quiet zone around the code, in modules, as the QR standard asks
+const QUIET_ZONE = 4;
+
+function QrCodeSvg({ qr, label }: { qr: QrCode; label: string }) {
+  const path = useMemo(
+    () =>
+      qr.modules
+        .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x},${y}h1v1h-1z` : "")))
+        .join(""),
+    [qr]
+  );
+  const extent = qr.size + QUIET_ZONE * 2;
+
+  return (
+    <svg
+      viewBox={`${-QUIET_ZONE} ${-QUIET_ZONE} ${extent} ${extent}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={label}
+      className="w-full max-w-[320px] mx-auto"
+    >
+      <rect x={-QUIET_ZONE} y={-QUIET_ZONE} width={extent} height={extent} fill="#FFFFFF" />
+      <path d={path} fill="#1A1A2E" />
+    </svg>
+  );
+}
+
+// Show an exported transaction as QR codes, one part at a time, for an
+// offline machine without file transfer (wage-cli offline scan)
+export function OfflineQrExportModal({ transaction, onClose }: OfflineQrExportModalProps) {
+  const codes = useMemo(() => offlineQrCodes(transaction), [transaction]);
+  const [part, setPart] = useState(0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6"
+      >
+        <h2 className="text-2xl font-bold text-[#1A1A2E] mb-2">Scan on the Offline Machine</h2>
+        <p className="text-sm text-[#718096] mb-6">
+          {transaction.description ?? "Unsigned transaction"}. The file was downloaded too; scan these codes instead
+          if the offline machine has no way to read it.
+        </p>
+
+        <QrCodeSvg qr={codes[part].qr} label={`QR code ${part + 1} of ${codes.length}`} />
+
+        <div className="flex items-center justify-between mt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setPart(part - 1)}
+            disabled={part === 0}
+            aria-label="Previous QR code"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </Button>
+          <span className="text-sm font-medium text-[#1A1A2E]">
+            Part {part + 1} of {codes.length}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setPart(part + 1)}
+            disabled={part === codes.length - 1}
+            aria-label="Next QR code"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </Button>
+        </div>
+
+        <div className="pt-6">
+          <Button type="button" variant="outline" onClick={onClose} className="w-full">
+            Done
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { AlertCircle, Camera, ImageUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useMounted } from "@/hooks/useMounted";
+import {
+  OFFLINE_QR_PREFIX,
+  OfflineQrPart,
+  collectOfflineQrParts,
+  detectQrCodes,
+  qrScanningAvailable,
+} from "@/lib/aptos/offline";
+
+interface OfflineQrScanModalProps {
+  error: string | null;
+  onComplete: (parts: OfflineQrPart[]) => void;
+  onCancel: () => void;
+}
+
+// How often the camera is checked for a code
+const SCAN_INTERVAL_MS = 300;
+
+// Take back a signed transaction shown as QR codes by the offline machine
+// (wage-cli offline qr): from the camera or photos where the browser can read
+// QR codes, or as text typed by a keyboard-mode scanner
+export function OfflineQrScanModal({ error, onComplete, onCancel }: OfflineQrScanModalProps) {
+  const mounted = useMounted();
+  const [parts, setParts] = useState<OfflineQrPart[]>([]);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [typed, setTyped] = useState("");
+  const video = useRef<HTMLVideoElement>(null);
+  const imageInput = useRef<HTMLInputElement>(null);
+
+  const total = parts[0]?.total;
+  const complete = total !== undefined && parts.length === total;
+  // The server render cannot see the browser's Barcode Detection API
+  const canScan = mounted && qrScanningAvailable();
+
+  const addScanned = (texts: string[]) => {
+    setScanError(null);
+    try {
+      const next = collectOfflineQrParts(parts, texts);
+      setParts(next);
+      if (next.length === next[0]?.total) {
+        setCameraOn(false);
+        onComplete(next);
+      }
+    } catch (err) {
+      setScanError(err instanceof Error ? err.message : "Not a Wage Protocol QR code");
+    }
+  };
+  // The camera loop calls the latest addScanned, which sees the latest parts
+  const addScannedRef = useRef(addScanned);
+  useEffect(() => {
+    addScannedRef.current = addScanned;
+  });
+
+  useEffect(() => {
+    if (!cameraOn) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const scan = async () => {
+      if (cancelled || !video.current) return;
+      // A frame that cannot be read yet is skipped
+      const texts = await detectQrCodes(video.current).catch(() => []);
+      if (cancelled) return;
+      // Frames also catch codes that are not ours; only ours count
+      const ours = texts.filter((text) => text.startsWith(`${OFFLINE_QR_PREFIX}:`));
+      if (ours.length > 0) addScannedRef.current(ours);
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (media) => {
+        stream = media;
+        if (cancelled || !video.current) return;
+        video.current.srcObject = media;
+        await video.current.play();
+        scan();
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setScanError(err instanceof Error ? `Camera unavailable: ${err.message}` : "Camera unavailable");
+        setCameraOn(false);
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [cameraOn]);
+
+  const handleImages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    try {
+      const texts = await Promise.all(files.map(async (file) => detectQrCodes(await createImageBitmap(file))));
+      if (texts.flat().length === 0) {
+        setScanError("No QR code found in the image");
+        return;
+      }
+      addScanned(texts.flat());
+    } catch (err) {
+      setScanError(err instanceof Error ? err.message : "Failed to read the image");
+    }
+  };
+
+  const handleTyped = () => {
+    const lines = typed.split(/\r?\n/).filter((line) => line.trim() !== "");
+    setTyped("");
+    if (lines.length > 0) addScanned(lines);
+  };
+
+  const message = scanError ?? (complete ? error : null);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6"
+      >
+        <h2 className="text-2xl font-bold text-[#1A1A2E] mb-2">Scan Signed Transaction</h2>
+        <p className="text-sm text-[#718096] mb-6">
+          Show the signed transaction as QR codes on the offline machine (wage-cli offline qr) and scan every part.
+        </p>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-[#718096]">Scanned</span>
+            <span className="font-medium text-[#1A1A2E]">
+              {total === undefined ? "No codes yet" : `${parts.length} of ${total} parts`}
+            </span>
+          </div>
+
+          {canScan && (
+            <>
+              {cameraOn && <video ref={video} muted playsInline className="w-full rounded-xl bg-[#1A1A2E]" />}
+              <div className="flex gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setCameraOn(!cameraOn)}
+                  className="flex-1"
+                  disabled={complete}
+                >
+                  {cameraOn ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Camera className="w-4 h-4 mr-2" />}
+                  {cameraOn ? "Stop Camera" : "Use Camera"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => imageInput.current?.click()}
+                  className="flex-1"
+                  disabled={complete}
+                >
+                  <ImageUp className="w-4 h-4 mr-2" />
+                  From Photos
+                </Button>
+                <input
+                  ref={imageInput}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={handleImages}
+                  className="hidden"
+                />
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-[#4A5568] mb-2">
+              {canScan ? "Or paste the scanned text" : "Paste the scanned text"}, one code per line
+            </label>
+            <textarea
+              value={typed}
+              onChange={(e) => setTyped(e.target.value)}
+              rows={3}
+              placeholder="wap-offline:1/2:..."
+              className="w-full px-4 py-3 rounded-xl border border-[#E8DED4] focus:border-[#E85A4F] focus:ring-1 focus:ring-[#E85A4F] outline-none transition-all font-mono text-xs"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleTyped}
+              disabled={complete || typed.trim() === ""}
+              className="mt-2"
+            >
+              Add Codes
+            </Button>
+          </div>
+
+          {message && (
+            <div className="flex items-start gap-3 bg-[#E85A4F]/10 rounded-xl p-4">
+              <AlertCircle className="w-5 h-5 text-[#E85A4F] shrink-0 mt-0.5" />
+              <p className="text-sm text-[#4A5568]">{message}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-6">
+          <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+          {complete && error && (
+            <Button type="button" onClick={() => setParts([])} className="flex-1">
+              Scan Again
+            </Button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
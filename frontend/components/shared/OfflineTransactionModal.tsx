@@ -0,0 +1,94 @@
+"use client";
+
+import React from "react";
+import { motion } from "framer-motion";
+import { Loader2, AlertCircle, ShieldCheck, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatAmount, formatAddress } from "@/types";
+import { OfflineTransaction } from "@/lib/aptos/offline";
+
+interface OfflineTransactionModalProps {
+  transaction: OfflineTransaction;
+  submitting: boolean;
+  error: string | null;
+  onSubmit: () => void;
+  onCancel: () => void;
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between gap-4 text-sm">
+      <span className="text-[#718096] shrink-0">{label}</span>
+      <span className="font-mono text-[#1A1A2E] truncate">{value}</span>
+    </div>
+  );
+}
+
+// Review a transaction signed by the cold wallet before broadcasting it
+export function OfflineTransactionModal({
+  transaction,
+  submitting,
+  error,
+  onSubmit,
+  onCancel,
+}: OfflineTransactionModalProps) {
+  const expiresAt = new Date(transaction.expiresAt * 1000);
+  const expired = expiresAt.getTime() <= Date.now();
+  const maxFee = BigInt(transaction.maxGasAmount) * BigInt(transaction.gasUnitPrice);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6"
+      >
+        <h2 className="text-2xl font-bold text-[#1A1A2E] mb-6">Submit Signed Transaction</h2>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-sm text-[#2D9F6C]">
+            <ShieldCheck className="w-4 h-4" />
+            Signed offline{transaction.signedAt && ` on ${new Date(transaction.signedAt).toLocaleString()}`}
+          </div>
+
+          {transaction.description && (
+            <p className="text-[#1A1A2E] font-medium">{transaction.description}</p>
+          )}
+
+          <div className="bg-[#FAF6F1] rounded-xl p-4 space-y-2">
+            <DetailRow label="Function" value={transaction.function.split("::").slice(1).join("::")} />
+            <DetailRow label="Sender" value={formatAddress(transaction.sender)} />
+            <DetailRow label="Sequence number" value={transaction.sequenceNumber} />
+            <DetailRow label="Max fee" value={`${formatAmount(maxFee, 6)} APT`} />
+            <DetailRow label="Expires" value={expiresAt.toLocaleString()} />
+          </div>
+
+          {(expired || error) && (
+            <div className="flex items-start gap-3 bg-[#E85A4F]/10 rounded-xl p-4">
+              <AlertCircle className="w-5 h-5 text-[#E85A4F] shrink-0 mt-0.5" />
+              <p className="text-sm text-[#4A5568]">
+                {expired ? "This transaction has expired. Export it again and re-sign it." : error}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-6">
+          <Button type="button" variant="outline" onClick={onCancel} className="flex-1" disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={onSubmit}
+            className="flex-1 bg-gradient-to-r from-[#E85A4F] to-[#F4A259] text-white"
+            disabled={submitting || expired}
+          >
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Send className="w-4 h-4 mr-2" />}
+            Submit
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { FileText, Loader2 } from "lucide-react";
+import { TokenMetadata } from "@wage-protocol/sdk/protocol";
+import { Button } from "@/components/ui/button";
+import { usePayslipDownload } from "@/hooks/useReports";
+import { StreamInfo } from "@/lib/aptos/wageStreaming";
+import { payslipMonths } from "@/lib/reports/payslip";
+
+interface PayslipDownloadProps {
+  stream: StreamInfo;
+  /** Token the stream pays in */
+  token: TokenMetadata;
+  className?: string;
+}
+
+/**
+ * Month picker and download button for a stream's monthly payslip (PDF).
+ * Renders nothing until the stream has paid wages.
+ */
+export function PayslipDownload({ stream, token, className = "" }: PayslipDownloadProps) {
+  const months = useMemo(() => payslipMonths(stream), [stream]);
+  const [selected, setSelected] = useState(0);
+  const { downloadPayslip, downloading, error } = usePayslipDownload();
+  if (months.length === 0) return null;
+
+  const month = months[Math.min(selected, months.length - 1)];
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      <FileText className="w-4 h-4 text-wap-text-tertiary" />
+      <select
+        aria-label="Payslip month"
+        value={Math.min(selected, months.length - 1)}
+        onChange={(event) => setSelected(Number(event.target.value))}
+        disabled={downloading}
+        className="px-3 py-2 rounded-xl border border-wap-border focus:border-wap-coral focus:ring-1 focus:ring-wap-coral outline-none transition-all bg-white text-sm"
+      >
+        {months.map((option, i) => (
+          <option key={option.start} value={i}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <Button
+        variant="outline"
+        size="sm"
+        className="border-wap-border"
+        onClick={() => downloadPayslip(stream, token, month)}
+        disabled={downloading}
+      >
+        {downloading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+        Download Payslip
+      </Button>
+      {error && <span className="text-xs text-wap-coral">{error}</span>}
+    </div>
+  );
+}
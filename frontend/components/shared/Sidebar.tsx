@@ -42,7 +42,7 @@ export function Sidebar({ role }: SidebarProps) {
   const router = useRouter();
   const { account, disconnect } = useWallet();
   const { setRole } = useUserRole();
-  const { balanceInApt, loading: balanceLoading, refetch: refetchBalance } = useWalletBalance();
+  const { balanceAmount, loading: balanceLoading, refetch: refetchBalance } = useWalletBalance();
 
   const address = account?.address?.toString() || "";
   const shortAddress = address 
@@ -194,7 +194,7 @@ export function Sidebar({ role }: SidebarProps) {
               <div className="flex items-center gap-2">
                 <div className="text-[10px] text-[#718096]">Balance</div>
                 <span className="text-sm font-semibold text-[#1A1A2E]">
-                  {balanceLoading ? "..." : `${balanceInApt.toFixed(4)} APT`}
+                  {balanceLoading ? "..." : `${balanceAmount.format({ minimumFractionDigits: 4, maximumFractionDigits: 4 })} APT`}
                 </span>
               </div>
               <button 
@@ -0,0 +1,234 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Landmark,
+  Loader2,
+} from "lucide-react";
+import { TokenMetadata, compliance } from "@wage-protocol/sdk/protocol";
+import { Button } from "@/components/ui/button";
+import { EmployeeRecordInputs } from "@/components/shared/EmployeeRecordInputs";
+import { useStatutoryReturns } from "@/hooks/useReports";
+import { StreamInfo } from "@/lib/aptos/wageStreaming";
+import { XLSX_MIME_TYPE, downloadFile, downloadTable, toXlsx } from "@/lib/export";
+import { EmployeeRecord, findEmployeeRecord } from "@/lib/reports/directory";
+import { calendarPeriod } from "@/lib/reports/period";
+import { esicUploadTable, returnsFileName, returnsValidationTable } from "@/lib/reports/returns";
+import { formatAddress, formatAmount } from "@/types";
+
+interface StatutoryReturnsProps {
+  streams: StreamInfo[];
+  /** Each stream's token by stream ID */
+  streamTokens: Record<string, TokenMetadata>;
+  directory: Record<string, EmployeeRecord>;
+  onSaveRecord: (employee: string, record: EmployeeRecord) => void;
+}
+
+/**
+ * A month's EPFO ECR file and ESIC contribution upload for the employer's
+ * streams, with the employee details they need and a validation report
+ */
+export function StatutoryReturns({ streams, streamTokens, directory, onSaveRecord }: StatutoryReturnsProps) {
+  // Returns are filed for the previous month
+  const [monthOffset, setMonthOffset] = useState(-1);
+  const month = useMemo(() => calendarPeriod("month", new Date(), monthOffset), [monthOffset]);
+  const { data, returns, loading, error } = useStatutoryReturns(streams, streamTokens, month, directory);
+
+  const errors = returns?.issues.filter((issue) => issue.severity === "error").length ?? 0;
+  const warnings = (returns?.issues.length ?? 0) - errors;
+
+  const downloadEcr = () => {
+    if (!returns) return;
+    downloadFile(
+      `${returnsFileName("ecr", month)}.txt`,
+      compliance.formatEcrFile(returns.ecr),
+      "text/plain;charset=utf-8"
+    );
+  };
+
+  const downloadEsic = () => {
+    if (!data || !returns) return;
+    const upload = toXlsx([esicUploadTable(data, returns)], { dataOnly: true });
+    downloadFile(`${returnsFileName("esic", month)}.xlsx`, upload, XLSX_MIME_TYPE);
+  };
+
+  const downloadValidation = () => {
+    if (!data || !returns) return;
+    downloadTable(
+      returnsValidationTable(data, returns, directory),
+      "csv",
+      returnsFileName("returns-validation", month)
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-wap-border shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-wap-border flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-wap-section">
+            <Landmark className="w-5 h-5 text-wap-navy" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-wap-text-primary">Statutory Returns</h3>
+            <p className="text-xs text-wap-text-tertiary">EPFO ECR and ESIC monthly contributions</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-wap-border"
+            onClick={() => setMonthOffset(monthOffset - 1)}
+            aria-label="Previous month"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="min-w-[120px] text-center text-sm font-medium text-wap-text-primary">{month.label}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-wap-border"
+            onClick={() => setMonthOffset(monthOffset + 1)}
+            disabled={monthOffset >= 0}
+            aria-label="Next month"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          {loading && <Loader2 className="w-5 h-5 animate-spin text-wap-coral" />}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="px-6 py-8 flex items-center gap-2 text-sm text-wap-coral">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-wap-section">
+                <tr>
+                  {["Employee", "Gross", "Name", "UAN", "ESIC IP Number", "Days Paid"].map((header) => (
+                    <th
+                      key={header}
+                      className="px-4 py-3 text-left text-xs font-medium text-wap-text-tertiary uppercase tracking-wider"
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-wap-border">
+                {data && data.employees.length > 0 ? (
+                  data.employees.map((wages) => {
+                    const record = findEmployeeRecord(directory, wages.employee);
+                    return (
+                      <tr key={wages.employee}>
+                        <td className="px-4 py-3 font-mono text-sm text-wap-text-primary">
+                          {formatAddress(wages.employee)}
+                        </td>
+                        <td className="px-4 py-3 font-mono text-sm text-wap-text-primary whitespace-nowrap">
+                          {formatAmount(wages.gross)} APT
+                        </td>
+                        <EmployeeRecordInputs
+                          key={`${record.name}|${record.uan}|${record.ipNumber}`}
+                          record={record}
+                          fields={["name", "uan", "ipNumber"]}
+                          onSave={(next) => onSaveRecord(wages.employee, next)}
+                        />
+                        <td className="px-4 py-3 text-sm text-wap-text-secondary">
+                          {wages.daysPaid} / {data.daysInMonth}
+                        </td>
+                      </tr>
+                    );
+                  })
+                ) : (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center text-wap-text-tertiary">
+                      {loading ? "Preparing returns..." : "No wages in this month"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {returns && data && (data.employees.length > 0 || data.excludedStreams.length > 0) && (
+            <div className="px-6 py-4 border-t border-wap-border space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-wap-text-secondary">
+                  {returns.ecr.length} ECR member(s) · {returns.esic.length} ESIC contributor(s) · {errors} error(s) ·{" "}
+                  {warnings} warning(s)
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-wap-border"
+                    onClick={downloadEcr}
+                    disabled={returns.ecr.length === 0}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    ECR (.txt)
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-wap-border"
+                    onClick={downloadEsic}
+                    disabled={returns.esic.length === 0}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    ESIC Upload (.xlsx)
+                  </Button>
+                  <Button variant="outline" size="sm" className="border-wap-border" onClick={downloadValidation}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Validation Report (.csv)
+                  </Button>
+                </div>
+              </div>
+
+              {returns.issues.length > 0 ? (
+                <ul className="space-y-1">
+                  {returns.issues.map((issue) => (
+                    <li
+                      key={`${issue.employee}-${issue.message}`}
+                      className={`flex items-center gap-2 text-xs ${
+                        issue.severity === "error" ? "text-wap-coral" : "text-wap-amber"
+                      }`}
+                    >
+                      {issue.severity === "error" ? (
+                        <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+                      ) : (
+                        <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                      )}
+                      <span className="font-mono">{formatAddress(issue.employee)}</span>
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="flex items-center gap-2 text-xs text-wap-green">
+                  <CheckCircle className="w-3.5 h-3.5" />
+                  Every employee has the details their returns need
+                </p>
+              )}
+              <p className="text-xs text-wap-text-tertiary">
+                Names, UANs and IP numbers are kept in this browser. File amounts are whole rupees, since the compliance
+                registry reads wages as rupees; stablecoin streams are left out.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
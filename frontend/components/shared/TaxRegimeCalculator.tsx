@@ -0,0 +1,269 @@
+"use client";
+
+import React, { useState } from "react";
+import { Calculator, CheckCircle, Info, Loader2 } from "lucide-react";
+import {
+  DEFAULT_STATUTORY_RATES,
+  DeductionContext,
+  PROFESSIONAL_TAX_SCHEDULES,
+  SalaryTax,
+  annualProfessionalTax,
+  compareTaxRegimes,
+  compliance,
+  statutoryDeductions,
+} from "@wage-protocol/sdk/protocol";
+import { useEmployeeTaxProfile } from "@/hooks/useCompliance";
+import { EmployeeComplianceProfile, StatutoryRateSettings } from "@/lib/aptos/compliance";
+import { STATE_CODES, TAX_REGIME } from "@/lib/aptos/config";
+import { fiscalYearLabel, fiscalYearOf } from "@/lib/reports/period";
+
+const inputClassName =
+  "w-full px-4 py-3 rounded-xl border border-wap-border focus:border-wap-coral focus:ring-1 focus:ring-wap-coral outline-none transition-all";
+
+/** Whole rupees typed in a field (paise dropped), in the registry's units; 0 when blank or invalid */
+const toUnits = (value: string): bigint => {
+  const match = /^(\d+)(?:\.\d*)?$/.exec(value.replace(/[,\s]/g, ""));
+  return match ? BigInt(match[1]) * compliance.RUPEE_UNITS : BigInt(0);
+};
+
+const formatRupees = (amount: bigint): string => `₹${compliance.toRupees(amount).toLocaleString("en-IN")}`;
+
+const regimeName = (regime: number): string => (regime === TAX_REGIME.OLD ? "Old regime" : "New regime");
+
+const TAX_ROWS: { label: string; value: (tax: SalaryTax) => bigint; total?: boolean }[] = [
+  { label: "Standard deduction", value: (tax) => tax.standardDeduction },
+  { label: "Professional tax", value: (tax) => tax.professionalTax },
+  { label: "Section 80C", value: (tax) => tax.section80C },
+  { label: "Other deductions", value: (tax) => tax.otherDeductions },
+  { label: "Taxable income", value: (tax) => tax.taxableIncome },
+  { label: "Tax on income", value: (tax) => tax.taxOnIncome },
+  { label: "Rebate (87A)", value: (tax) => tax.rebate },
+  { label: "Cess (4%)", value: (tax) => tax.cess },
+  { label: "Tax for the year", value: (tax) => tax.totalTax, total: true },
+];
+
+interface RegimeFormProps {
+  profile: EmployeeComplianceProfile | null;
+  rates: StatutoryRateSettings;
+}
+
+function RegimeForm({ profile, rates }: RegimeFormProps) {
+  const [salary, setSalary] = useState(() =>
+    profile ? String(profile.declaredAnnualIncome / compliance.RUPEE_UNITS) : ""
+  );
+  const [stateCode, setStateCode] = useState<number>(STATE_CODES.OTHER);
+  const [epfMember, setEpfMember] = useState(profile?.epfMember ?? true);
+  const [investments80C, setInvestments80C] = useState("");
+  const [otherDeductions, setOtherDeductions] = useState("");
+
+  const fiscalYear = fiscalYearOf(new Date());
+  const grossSalary = toUnits(salary);
+  const monthlyWage = grossSalary / BigInt(12);
+  // An employer covered by EPF and ESI, so both turn on the employee's membership and wage
+  const context = (taxRegime: number): DeductionContext => ({
+    rates,
+    employer: { epfRegistered: true, esiRegistered: true, stateCode },
+    employee: {
+      epfMember,
+      esiEligible: monthlyWage <= rates.esiCeiling,
+      declaredAnnualIncome: grossSalary,
+      taxRegime,
+    },
+  });
+  const monthly = (taxRegime: number) =>
+    statutoryDeductions(context(taxRegime), monthlyWage, {
+      fiscalYear,
+      annualSalary: grossSalary,
+      investments80C: toUnits(investments80C),
+      otherDeductions: toUnits(otherDeductions),
+    });
+
+  const months = { old: monthly(TAX_REGIME.OLD), new: monthly(TAX_REGIME.NEW) };
+  const comparison = compareTaxRegimes({
+    fiscalYear,
+    grossSalary,
+    professionalTax: annualProfessionalTax(stateCode, monthlyWage),
+    employeeEpf: months.old.epf * BigInt(12),
+    investments80C: toUnits(investments80C),
+    otherDeductions: toUnits(otherDeductions),
+  });
+
+  const fields = [
+    { label: "Annual salary (₹)", value: salary, onChange: setSalary, placeholder: "e.g. 900000" },
+    {
+      label: "Other 80C investments (₹)",
+      value: investments80C,
+      onChange: setInvestments80C,
+      placeholder: "PPF, ELSS",
+    },
+    {
+      label: "Other deductions (₹)",
+      value: otherDeductions,
+      onChange: setOtherDeductions,
+      placeholder: "80D, home loan",
+    },
+  ];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {fields.map((field) => (
+          <div key={field.label}>
+            <label className="block text-sm font-medium text-wap-text-secondary mb-2">{field.label}</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={field.value}
+              onChange={(e) => field.onChange(e.target.value)}
+              placeholder={field.placeholder}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-wap-text-secondary mb-2">Employer&apos;s state</label>
+          <select
+            value={stateCode}
+            onChange={(e) => setStateCode(Number(e.target.value))}
+            className={`${inputClassName} bg-white`}
+          >
+            {PROFESSIONAL_TAX_SCHEDULES.map((schedule) => (
+              <option key={schedule.stateCode} value={schedule.stateCode}>
+                {schedule.stateCode === STATE_CODES.OTHER ? "Other (no professional tax)" : schedule.state}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-3 text-sm text-wap-text-secondary">
+        <input
+          type="checkbox"
+          checked={epfMember}
+          onChange={(e) => setEpfMember(e.target.checked)}
+          className="w-4 h-4 accent-wap-coral"
+        />
+        EPF member ({Number(rates.epfEmployeeRate) / 100}% of wages up to {formatRupees(rates.epfCeiling)} a month,
+        counted under 80C in the old regime)
+      </label>
+
+      {grossSalary > BigInt(0) && (
+        <>
+          <div className="p-4 rounded-xl bg-wap-green/10 border border-wap-green/30 flex items-center gap-3">
+            <CheckCircle className="w-5 h-5 text-wap-green shrink-0" />
+            <p className="text-sm text-wap-text-primary">
+              {comparison.saving > BigInt(0) ? (
+                <>
+                  The <span className="font-semibold">{regimeName(comparison.better).toLowerCase()}</span> saves you{" "}
+                  <span className="font-semibold">{formatRupees(comparison.saving)}</span> in{" "}
+                  {fiscalYearLabel(fiscalYear)}
+                </>
+              ) : (
+                <>Both regimes come to the same tax in {fiscalYearLabel(fiscalYear)}</>
+              )}
+            </p>
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border border-wap-border">
+            <table className="w-full">
+              <thead className="bg-wap-section">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-wap-text-tertiary uppercase tracking-wider" />
+                  {[TAX_REGIME.OLD, TAX_REGIME.NEW].map((regime) => (
+                    <th
+                      key={regime}
+                      className={`px-4 py-3 text-right text-xs font-medium uppercase tracking-wider ${
+                        regime === comparison.better && comparison.saving > BigInt(0)
+                          ? "text-wap-green"
+                          : "text-wap-text-tertiary"
+                      }`}
+                    >
+                      {regimeName(regime)}
+                      {profile?.taxRegime === regime && " (yours)"}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-wap-border">
+                {TAX_ROWS.map((row) => (
+                  <tr key={row.label}>
+                    <td
+                      className={`px-4 py-2 text-sm ${
+                        row.total ? "font-semibold text-wap-text-primary" : "text-wap-text-secondary"
+                      }`}
+                    >
+                      {row.label}
+                    </td>
+                    {[comparison.old, comparison.new].map((tax) => (
+                      <td
+                        key={tax.regime}
+                        className={`px-4 py-2 text-right font-mono text-sm ${
+                          row.total ? "font-semibold text-wap-text-primary" : "text-wap-text-secondary"
+                        }`}
+                      >
+                        {formatRupees(row.value(tax))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="bg-wap-section">
+                  <td className="px-4 py-2 text-sm font-semibold text-wap-text-primary">Monthly take-home</td>
+                  {[months.old, months.new].map((month, i) => (
+                    <td key={i} className="px-4 py-2 text-right font-mono text-sm font-semibold text-wap-text-primary">
+                      {formatRupees(month.netPayable)}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <ul className="space-y-1">
+            {months.new.lines
+              .filter((line) => line.kind !== "tds")
+              .map((line) => (
+                <li key={line.kind} className="flex items-center gap-2 text-xs text-wap-text-tertiary">
+                  <Info className="w-3.5 h-3.5 shrink-0" />
+                  {line.kind === "professionalTax" ? "Professional tax" : line.kind.toUpperCase()}:{" "}
+                  {formatRupees(line.amount)} a month ({line.explanation})
+                </li>
+              ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Compares a year's income tax under the old and new regimes for a salary,
+ * starting from the employee's compliance registration when there is one
+ */
+export function TaxRegimeCalculator() {
+  const { profile, rates, loading } = useEmployeeTaxProfile();
+
+  return (
+    <div className="bg-white rounded-2xl border border-wap-border shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-wap-border flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-wap-section">
+            <Calculator className="w-5 h-5 text-wap-navy" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-wap-text-primary">Tax Regime Calculator</h2>
+            <p className="text-sm text-wap-text-tertiary">Which regime leaves you more of your salary</p>
+          </div>
+        </div>
+        {loading && <Loader2 className="w-5 h-5 animate-spin text-wap-coral" />}
+      </div>
+
+      {!loading && (
+        <RegimeForm
+          key={profile?.employee ?? "unregistered"}
+          profile={profile}
+          rates={rates ?? DEFAULT_STATUTORY_RATES}
+        />
+      )}
+    </div>
+  );
+}
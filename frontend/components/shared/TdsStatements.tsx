@@ -0,0 +1,232 @@
+"use client";
+
+import React, { useState } from "react";
+import { AlertTriangle, ChevronLeft, ChevronRight, Download, FileText, Loader2, Receipt } from "lucide-react";
+import { TokenMetadata } from "@wage-protocol/sdk/protocol";
+import { Button } from "@/components/ui/button";
+import { EmployeeRecordInputs } from "@/components/shared/EmployeeRecordInputs";
+import { useTdsStatement } from "@/hooks/useReports";
+import { StreamInfo } from "@/lib/aptos/wageStreaming";
+import { XLSX_MIME_TYPE, downloadFile, toXlsx } from "@/lib/export";
+import { EmployeeRecord, findEmployeeRecord } from "@/lib/reports/directory";
+import { fiscalQuarterPeriod, fiscalYearLabel, fiscalYearOf } from "@/lib/reports/period";
+import {
+  EmployeeTds,
+  employeeSalaryTax,
+  form16Archive,
+  form16FileName,
+  form16Pdf,
+  form24QFileName,
+  form24QTables,
+  formatRupees,
+  tdsStatementIssues,
+} from "@/lib/reports/tds";
+import { formatAddress } from "@/types";
+
+interface TdsStatementsProps {
+  streams: StreamInfo[];
+  /** Each stream's token by stream ID */
+  streamTokens: Record<string, TokenMetadata>;
+  directory: Record<string, EmployeeRecord>;
+  onSaveRecord: (employee: string, record: EmployeeRecord) => void;
+}
+
+const QUARTERS = [1, 2, 3, 4];
+
+/**
+ * A fiscal year's TDS paperwork for the employer's streams: quarterly Form 24Q
+ * data and each employee's Form 16 Part B, with the names and PANs they need
+ */
+export function TdsStatements({ streams, streamTokens, directory, onSaveRecord }: TdsStatementsProps) {
+  const currentYear = fiscalYearOf(new Date());
+  const [fiscalYear, setFiscalYear] = useState(currentYear);
+  const { statement, loading, error } = useTdsStatement(streams, streamTokens, fiscalYear);
+  const issues = statement ? tdsStatementIssues(statement, directory) : [];
+
+  const download24Q = (quarter: number) => {
+    if (!statement) return;
+    const workbook = toXlsx(form24QTables(statement, quarter, directory));
+    downloadFile(`${form24QFileName(statement, quarter)}.xlsx`, workbook, XLSX_MIME_TYPE);
+  };
+
+  const downloadForm16 = (employee: EmployeeTds) => {
+    if (!statement) return;
+    downloadFile(
+      `${form16FileName(statement, employee)}.pdf`,
+      form16Pdf(statement, [employee], directory),
+      "application/pdf"
+    );
+  };
+
+  const downloadAllForm16 = () => {
+    if (!statement) return;
+    downloadFile(
+      `form-16-part-b-${fiscalYearLabel(statement.fiscalYear).slice(3)}.zip`,
+      form16Archive(statement, directory),
+      "application/zip"
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-wap-border shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-wap-border flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-wap-section">
+            <Receipt className="w-5 h-5 text-wap-navy" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-wap-text-primary">TDS Statements</h3>
+            <p className="text-xs text-wap-text-tertiary">Form 24Q by quarter and Form 16 Part B by employee</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-wap-border"
+            onClick={() => setFiscalYear(fiscalYear - 1)}
+            aria-label="Previous fiscal year"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="min-w-[120px] text-center text-sm font-medium text-wap-text-primary">
+            {fiscalYearLabel(fiscalYear)}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-wap-border"
+            onClick={() => setFiscalYear(fiscalYear + 1)}
+            disabled={fiscalYear >= currentYear}
+            aria-label="Next fiscal year"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          {loading && <Loader2 className="w-5 h-5 animate-spin text-wap-coral" />}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="px-6 py-8 flex items-center gap-2 text-sm text-wap-coral">
+          <AlertTriangle className="w-4 h-4" />
+          {error}
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-wap-section">
+                <tr>
+                  {["Employee", "Name", "PAN", "Regime", "Gross", "TDS", "Tax Payable", ""].map((header) => (
+                    <th
+                      key={header}
+                      className="px-4 py-3 text-left text-xs font-medium text-wap-text-tertiary uppercase tracking-wider"
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-wap-border">
+                {statement && statement.employees.length > 0 ? (
+                  statement.employees.map((employee) => {
+                    const record = findEmployeeRecord(directory, employee.employee);
+                    const tax = employeeSalaryTax(statement, employee);
+                    return (
+                      <tr key={employee.employee}>
+                        <td className="px-4 py-3 font-mono text-sm text-wap-text-primary">
+                          {formatAddress(employee.employee)}
+                        </td>
+                        <EmployeeRecordInputs
+                          key={`${record.name}|${record.pan}`}
+                          record={record}
+                          fields={["name", "pan"]}
+                          onSave={(next) => onSaveRecord(employee.employee, next)}
+                        />
+                        <td className="px-4 py-3 text-sm text-wap-text-secondary">
+                          {employee.regime === 0 ? "Old" : "New"}
+                          {!employee.profile && <span className="text-wap-text-tertiary"> (default)</span>}
+                        </td>
+                        <td className="px-4 py-3 font-mono text-sm text-wap-text-primary whitespace-nowrap">
+                          ₹{formatRupees(employee.gross)}
+                        </td>
+                        <td className="px-4 py-3 font-mono text-sm text-wap-coral whitespace-nowrap">
+                          ₹{formatRupees(employee.tds)}
+                        </td>
+                        <td className="px-4 py-3 font-mono text-sm text-wap-text-primary whitespace-nowrap">
+                          ₹{formatRupees(tax.totalTax)}
+                        </td>
+                        <td className="px-4 py-3">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="border-wap-border whitespace-nowrap"
+                            onClick={() => downloadForm16(employee)}
+                          >
+                            <FileText className="w-4 h-4 mr-2" />
+                            Form 16
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })
+                ) : (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-12 text-center text-wap-text-tertiary">
+                      {loading ? "Preparing TDS statement..." : "No wages in this fiscal year"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {statement && (statement.employees.length > 0 || statement.excludedStreams.length > 0) && (
+            <div className="px-6 py-4 border-t border-wap-border space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {QUARTERS.map((quarter) => (
+                  <Button
+                    key={quarter}
+                    variant="outline"
+                    size="sm"
+                    className="border-wap-border"
+                    onClick={() => download24Q(quarter)}
+                    disabled={fiscalQuarterPeriod(statement.fiscalYear, quarter).start >= statement.until}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Form 24Q Q{quarter} (.xlsx)
+                  </Button>
+                ))}
+                <Button variant="outline" size="sm" className="border-wap-border" onClick={downloadAllForm16}>
+                  <Download className="w-4 h-4 mr-2" />
+                  All Form 16 (ZIP)
+                </Button>
+              </div>
+
+              {issues.length > 0 && (
+                <ul className="space-y-1">
+                  {issues.map((issue) => (
+                    <li
+                      key={`${issue.employee}-${issue.message}`}
+                      className="flex items-center gap-2 text-xs text-wap-amber"
+                    >
+                      <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                      <span className="font-mono">{formatAddress(issue.employee)}</span>
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-wap-text-tertiary">
+                TDS comes from each stream&apos;s compliance record, spread over the wages it covers. Tax payable
+                follows the employee&apos;s registered regime; Q4 adds the Annexure II salary details. Stablecoin
+                streams are left out, since the compliance registry reads wages as rupees.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import React from "react";
+import { TokenMetadata, findToken } from "@wage-protocol/sdk/protocol";
+import { TOKENS } from "@/lib/aptos/config";
+
+interface TokenSelectProps {
+  value: TokenMetadata;
+  onChange: (token: TokenMetadata) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Select for the token (APT or one of the network's stablecoins) a stream or deposit
+ * is paid in. Renders nothing when the network lists no token besides APT.
+ */
+export function TokenSelect({ value, onChange, disabled = false, className = "" }: TokenSelectProps) {
+  if (TOKENS.length < 2) return null;
+
+  return (
+    <div className={className}>
+      <label className="block text-sm font-medium text-[#4A5568] mb-2">Token</label>
+      <select
+        value={value.assetType}
+        onChange={(event) => onChange(findToken(TOKENS, event.target.value) ?? TOKENS[0])}
+        disabled={disabled}
+        className="w-full px-4 py-3 rounded-xl border border-[#E8DED4] bg-white focus:border-[#E85A4F] focus:ring-1 focus:ring-[#E85A4F] outline-none transition-all"
+      >
+        {TOKENS.map((token) => (
+          <option key={token.assetType} value={token.assetType}>
+            {token.symbol} ({token.name})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import React from "react";
+import { motion } from "framer-motion";
+import { Loader2, AlertCircle, CheckCircle, Fuel, ArrowRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatAmount, formatAddress } from "@/types";
+import { describeAbort, BalanceDelta, SimulationResult } from "@/lib/aptos/simulation";
+
+interface TransactionPreviewModalProps {
+  isOpen: boolean;
+  title: string;
+  preview: SimulationResult | null;
+  simulating: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function DeltaRow({ label, value }: { label: string; value: BalanceDelta }) {
+  if (value.delta === BigInt(0)) return null;
+
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-[#718096]">{label}</span>
+      <span className="font-mono flex items-center gap-1.5">
+        <span className="text-[#718096]">{formatAmount(value.before, 4)}</span>
+        <ArrowRight className="w-3 h-3 text-[#718096]" />
+        <span className={value.delta > BigInt(0) ? "text-[#2D9F6C]" : "text-[#E85A4F]"}>
+          {formatAmount(value.after, 4)} APT
+        </span>
+      </span>
+    </div>
+  );
+}
+
+// Confirmation modal showing a simulated transaction before the wallet prompt
+export function TransactionPreviewModal({
+  isOpen,
+  title,
+  preview,
+  simulating,
+  onConfirm,
+  onCancel,
+}: TransactionPreviewModalProps) {
+  if (!isOpen) return null;
+
+  const failed = preview !== null && !preview.success;
+  const { treasuries, streams } = preview?.balanceChanges ?? { treasuries: [], streams: [] };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6"
+      >
+        <h2 className="text-2xl font-bold text-[#1A1A2E] mb-6">Confirm {title}</h2>
+
+        {simulating ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-[#718096]">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Simulating transaction...
+          </div>
+        ) : preview === null ? (
+          <div className="bg-[#FAF6F1] rounded-xl p-4 text-sm text-[#718096]">
+            Preview unavailable. You can still continue to your wallet.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {failed ? (
+              <div className="flex items-start gap-3 bg-[#E85A4F]/10 rounded-xl p-4">
+                <AlertCircle className="w-5 h-5 text-[#E85A4F] shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-semibold text-[#E85A4F]">This transaction would fail</p>
+                  <p className="text-sm text-[#4A5568] mt-1">
+                    {preview.abort ? describeAbort(preview.abort) : preview.vmStatus}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm text-[#2D9F6C]">
+                <CheckCircle className="w-4 h-4" />
+                Simulation succeeded
+              </div>
+            )}
+
+            <div className="bg-[#FAF6F1] rounded-xl p-4 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-[#718096] flex items-center gap-1.5">
+                  <Fuel className="w-4 h-4" />
+                  Estimated fee
+                </span>
+                <span className="font-mono font-semibold text-[#1A1A2E]">
+                  {formatAmount(preview.estimatedFee, 6)} APT
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-xs text-[#718096]">
+                <span>Gas used</span>
+                <span className="font-mono">{preview.gasUsed.toString()} units</span>
+              </div>
+            </div>
+
+            {treasuries.map((treasury) => (
+              <div key={treasury.employer} className="bg-[#FAF6F1] rounded-xl p-4 space-y-2">
+                <p className="text-xs text-[#718096] uppercase tracking-wide">
+                  Treasury {formatAddress(treasury.employer)}
+                </p>
+                <DeltaRow label="Available" value={treasury.available} />
+                <DeltaRow label="Allocated" value={treasury.allocated} />
+              </div>
+            ))}
+
+            {streams.map((stream) => (
+              <div key={stream.streamId} className="bg-[#FAF6F1] rounded-xl p-4 space-y-2">
+                <p className="text-xs text-[#718096] uppercase tracking-wide">Stream #{stream.streamId}</p>
+                <DeltaRow label="Deposited" value={stream.deposited} />
+                <DeltaRow label="Withdrawn" value={stream.withdrawn} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-6">
+          <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={onConfirm}
+            className="flex-1 bg-gradient-to-r from-[#E85A4F] to-[#F4A259] text-white"
+            disabled={simulating || failed}
+          >
+            Continue to Wallet
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
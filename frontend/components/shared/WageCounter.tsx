@@ -5,34 +5,52 @@ import { motion, useSpring, useTransform, AnimatePresence } from "framer-motion"
 import { Button } from "../ui/button";
 import { Sparkles, TrendingUp, Zap, Clock, ArrowUpRight, Loader2 } from "lucide-react";
 import { useEmployeeStreams, useWageStreamingEmployee } from "@/hooks/useWageStreaming";
-import { formatAmount, STREAM_PRECISION } from "@/types";
+import {
+  APT,
+  TokenAmount,
+  accruedAmount,
+  isSameAssetType,
+  nowSeconds,
+  withdrawableAmount,
+} from "@wage-protocol/sdk/protocol";
+import { STREAM_PRECISION } from "@/types";
+import { FiatValue } from "./FiatValue";
 
 export function WageCounter() {
-  const { streams, loading: streamsLoading } = useEmployeeStreams();
+  const { streams, streamTokens, loading: streamsLoading } = useEmployeeStreams();
   const { withdrawWages, loading: withdrawLoading } = useWageStreamingEmployee();
+  const [selectedAsset, setSelectedAsset] = useState<string | null>(null);
+
+  // Tokens the active streams pay in; amounts in different tokens can't be added up,
+  // so the counter shows one token at a time
+  const activeTokens = useMemo(() => {
+    const tokens = streams
+      .filter(s => s.status === 1)
+      .map(s => streamTokens[s.streamId] ?? APT);
+    return tokens.filter((token, i) => tokens.findIndex(t => isSameAssetType(t.assetType, token.assetType)) === i);
+  }, [streams, streamTokens]);
+  const token = activeTokens.find(t => t.assetType === selectedAsset) ?? activeTokens[0] ?? APT;
   
-  // Calculate real-time wage from active streams
+  // Calculate real-time wage from active streams in the selected token
   const streamData = useMemo(() => {
-    const activeStreams = streams.filter(s => s.status === 1);
+    const activeStreams = streams.filter(
+      s => s.status === 1 && isSameAssetType((streamTokens[s.streamId] ?? APT).assetType, token.assetType)
+    );
     
     // Total rate per second across all active streams
     const totalRatePerSecond = activeStreams.reduce((acc, s) => acc + s.ratePerSecond, BigInt(0));
     
     // Calculate current withdrawable (what's been earned but not withdrawn)
-    const now = BigInt(Math.floor(Date.now() / 1000));
+    const now = nowSeconds();
     
     let totalEarned = BigInt(0);
     let totalWithdrawn = BigInt(0);
     let totalDeposited = BigInt(0);
+    let withdrawable = BigInt(0);
     
     activeStreams.forEach(s => {
-      const startTime = BigInt(s.startTime);
-      const endTime = BigInt(s.endTime);
-      const elapsed = now > startTime ? now - startTime : BigInt(0);
-      const duration = endTime - startTime;
-      const effectiveElapsed = elapsed > duration ? duration : elapsed;
-      // Apply PRECISION: earned = (ratePerSecond * elapsed) / PRECISION to get octas
-      totalEarned += (s.ratePerSecond * effectiveElapsed) / STREAM_PRECISION;
+      totalEarned += accruedAmount(s, now);
+      withdrawable += withdrawableAmount(s, now);
       totalWithdrawn += s.totalWithdrawn;
       totalDeposited += s.totalDeposited;
     });
@@ -47,21 +65,22 @@ export function WageCounter() {
       totalEarned,
       totalWithdrawn,
       totalDeposited,
-      withdrawable: totalEarned > totalWithdrawn ? totalEarned - totalWithdrawn : BigInt(0),
+      withdrawable,
       progress: Math.min(progress, 100),
       activeCount: activeStreams.length,
       firstStreamId: activeStreams.length > 0 ? Number(activeStreams[0].streamId) : null,
     };
-  }, [streams]);
+  }, [streams, streamTokens, token]);
 
-  // Convert to APT for display (octas = 10^8)
-  const withdrawableApt = Number(streamData.withdrawable) / 100_000_000;
-  // Also divide ratePerSecond by PRECISION and then by octas to get APT/second
-  const ratePerSecondApt = Number(streamData.ratePerSecond) / Number(STREAM_PRECISION) / 100_000_000;
+  // Convert from the token's smallest unit (octas for APT) for display
+  const withdrawableTokens = TokenAmount.of(streamData.withdrawable, token).toNumber();
+  // ratePerSecond is scaled by PRECISION; keep the fraction of a unit so slow streams still tick
+  const ratePerSecondTokens = TokenAmount.of(streamData.ratePerSecond, token).toNumber() / Number(STREAM_PRECISION);
+  const counterDecimals = Math.min(token.decimals, 6);
   
-  const [displayWage, setDisplayWage] = useState(withdrawableApt);
-  const springWage = useSpring(withdrawableApt, { stiffness: 100, damping: 15 });
-  const formattedWage = useTransform(springWage, (latest) => latest.toFixed(6));
+  const [displayWage, setDisplayWage] = useState(withdrawableTokens);
+  const springWage = useSpring(withdrawableTokens, { stiffness: 100, damping: 15 });
+  const formattedWage = useTransform(springWage, (latest) => latest.toFixed(counterDecimals));
   const [showPulse, setShowPulse] = useState(false);
   const [elapsedTime, setElapsedTime] = useState("00:00:00");
 
@@ -70,13 +89,13 @@ export function WageCounter() {
     if (streamData.activeCount === 0) return;
     
     const interval = setInterval(() => {
-      setDisplayWage((prev) => prev + ratePerSecondApt / 10); // Update every 100ms
+      setDisplayWage((prev) => prev + ratePerSecondTokens / 10); // Update every 100ms
       setShowPulse(true);
       setTimeout(() => setShowPulse(false), 200);
     }, 100);
 
     return () => clearInterval(interval);
-  }, [ratePerSecondApt, streamData.activeCount]);
+  }, [ratePerSecondTokens, streamData.activeCount]);
 
   // Track elapsed time for first stream
   useEffect(() => {
@@ -106,14 +125,14 @@ export function WageCounter() {
 
   // Reset display wage when streams change
   useEffect(() => {
-    setDisplayWage(withdrawableApt);
-  }, [withdrawableApt]);
+    setDisplayWage(withdrawableTokens);
+  }, [withdrawableTokens]);
 
   const digits = formattedWage.get().split('');
   
   // Calculate stats
-  const hourlyRate = ratePerSecondApt * 3600;
-  const dailyRate = ratePerSecondApt * 86400;
+  const hourlyRate = ratePerSecondTokens * 3600;
+  const dailyRate = ratePerSecondTokens * 86400;
   const monthlyRate = dailyRate * 30;
 
   // Handle withdraw
@@ -196,6 +215,26 @@ export function WageCounter() {
               <span className="text-xs font-mono text-[#4A5568]">{elapsedTime}</span>
             </div>
           </motion.div>
+
+          {/* Token switcher, when streams pay in more than one token */}
+          {activeTokens.length > 1 && (
+            <div className="flex items-center gap-2">
+              {activeTokens.map((t) => (
+                <button
+                  key={t.assetType}
+                  type="button"
+                  onClick={() => setSelectedAsset(t.assetType)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    t.assetType === token.assetType
+                      ? "bg-[#E85A4F] text-white border-[#E85A4F]"
+                      : "bg-[#FAF6F1] text-[#4A5568] border-[#E8DED4] hover:border-[#E85A4F]/50"
+                  }`}
+                >
+                  {t.symbol}
+                </button>
+              ))}
+            </div>
+          )}
           
           {/* Main Counter Display */}
           <div className="relative">
@@ -218,7 +257,7 @@ export function WageCounter() {
                 animate={{ opacity: [0.5, 1, 0.5] }}
                 transition={{ duration: 2, repeat: Infinity }}
               >
-                APT
+                {token.symbol}
               </motion.span>
               
               {/* Animated Digits */}
@@ -250,7 +289,7 @@ export function WageCounter() {
               transition={{ duration: 2, repeat: Infinity }}
             >
               <ArrowUpRight size={12} className="text-[#2D9F6C]" />
-              <span className="text-xs font-mono text-[#2D9F6C]">+{ratePerSecondApt.toFixed(8)}/s</span>
+              <span className="text-xs font-mono text-[#2D9F6C]">+{ratePerSecondTokens.toFixed(token.decimals)}/s</span>
             </motion.div>
           </div>
 
@@ -263,7 +302,11 @@ export function WageCounter() {
                 </div>
                 <div className="text-left">
                   <div className="text-xs text-[#718096]">Withdrawable</div>
-                  <div className="text-sm font-semibold text-[#1A1A2E]">{displayWage.toFixed(4)} APT</div>
+                  <div className="text-sm font-semibold text-[#1A1A2E]">{displayWage.toFixed(4)} {token.symbol}</div>
+                  <FiatValue
+                    amount={TokenAmount.of(streamData.withdrawable, token)}
+                    className="text-xs text-[#718096] font-mono"
+                  />
                 </div>
               </div>
               <div className="text-right">
@@ -300,9 +343,9 @@ export function WageCounter() {
             {/* Mini stats */}
             <div className="grid grid-cols-3 gap-2 pt-2">
               {[
-                { label: "Per Hour", value: `${hourlyRate.toFixed(4)} APT`, color: "text-[#E85A4F]" },
-                { label: "Per Day", value: `${dailyRate.toFixed(4)} APT`, color: "text-[#F4A259]" },
-                { label: "Per Month", value: `${monthlyRate.toFixed(2)} APT`, color: "text-[#6BB3D9]" },
+                { label: "Per Hour", value: `${hourlyRate.toFixed(4)} ${token.symbol}`, color: "text-[#E85A4F]" },
+                { label: "Per Day", value: `${dailyRate.toFixed(4)} ${token.symbol}`, color: "text-[#F4A259]" },
+                { label: "Per Month", value: `${monthlyRate.toFixed(2)} ${token.symbol}`, color: "text-[#6BB3D9]" },
               ].map((stat, i) => (
                 <motion.div 
                   key={i}
@@ -335,7 +378,7 @@ export function WageCounter() {
                 ) : (
                   <Zap size={20} className="group-hover:animate-pulse" />
                 )}
-                {withdrawLoading ? "Withdrawing..." : `Claim ${displayWage.toFixed(4)} APT`}
+                {withdrawLoading ? "Withdrawing..." : `Claim ${displayWage.toFixed(4)} ${token.symbol}`}
                 <motion.span
                   className="absolute inset-0 bg-white/20 rounded-lg"
                   initial={{ x: "-100%" }}
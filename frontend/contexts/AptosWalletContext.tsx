@@ -14,8 +14,9 @@ import {
   AptosWalletAdapterProvider,
   useWallet as useAptosWallet,
 } from "@aptos-labs/wallet-adapter-react";
-import { Network } from "@aptos-labs/ts-sdk";
-import { aptos } from "@/lib/aptos/config";
+import { assertWalletNetwork, isWalletOnNetwork, requireDeployment } from "@wage-protocol/sdk/protocol";
+import { aptos, simulator, NETWORK, NETWORK_PROFILE } from "@/lib/aptos/config";
+import { SimulatorWalletProvider } from "./SimulatorWalletContext";
 
 // User role type
 export type UserRole = "employer" | "employee" | null;
@@ -67,11 +68,19 @@ interface AptosProviderProps {
 }
 
 export const AptosProvider: FC<AptosProviderProps> = ({ children }) => {
+  if (simulator) {
+    return (
+      <SimulatorWalletProvider simulator={simulator}>
+        <UserRoleProvider>{children}</UserRoleProvider>
+      </SimulatorWalletProvider>
+    );
+  }
+
   return (
     <AptosWalletAdapterProvider
       autoConnect={true}
       dappConfig={{
-        network: Network.TESTNET,
+        network: NETWORK,
       }}
       onError={(error) => {
         console.error("Wallet adapter error:", error);
@@ -89,6 +98,7 @@ export const useAuth = () => {
     connected,
     disconnect,
     signAndSubmitTransaction,
+    signTransaction,
     signMessage,
     wallet,
     wallets,
@@ -97,6 +107,38 @@ export const useAuth = () => {
   } = useAptosWallet();
   const { role, setRole } = useUserRole();
 
+  // The simulator wallet is always on the simulator's network
+  const wrongNetwork = !simulator && connected && (!network || !isWalletOnNetwork(network, NETWORK_PROFILE));
+
+  // Refuse to sign against the wrong deployment: the wallet must be on the app's network,
+  // and the protocol deployed there. Keyed on name and chain id, which stay stable across renders.
+  const walletNetworkName = network?.name;
+  const walletChainId = network?.chainId;
+  const assertCanSign = useCallback(() => {
+    if (simulator) return;
+    requireDeployment(NETWORK_PROFILE);
+    assertWalletNetwork(
+      walletNetworkName === undefined ? null : { name: walletNetworkName, chainId: walletChainId },
+      NETWORK_PROFILE
+    );
+  }, [walletNetworkName, walletChainId]);
+
+  const guardedSignAndSubmitTransaction = useCallback<typeof signAndSubmitTransaction>(
+    async (transaction) => {
+      assertCanSign();
+      return signAndSubmitTransaction(transaction);
+    },
+    [assertCanSign, signAndSubmitTransaction]
+  );
+
+  const guardedSignTransaction = useCallback<typeof signTransaction>(
+    async (args) => {
+      assertCanSign();
+      return signTransaction(args);
+    },
+    [assertCanSign, signTransaction]
+  );
+
   const isAuthenticated = connected && role !== null;
 
   const logout = useCallback(() => {
@@ -138,12 +180,15 @@ export const useAuth = () => {
     shortAddress: account?.address
       ? `${account.address.toString().slice(0, 6)}...${account.address.toString().slice(-4)}`
       : null,
-    signAndSubmitTransaction,
+    signAndSubmitTransaction: guardedSignAndSubmitTransaction,
+    signTransaction: guardedSignTransaction,
     signMessage,
     wallet,
     wallets,
     connect,
     network,
+    expectedNetwork: NETWORK_PROFILE,
+    wrongNetwork,
     disconnect,
     getBalance,
   };
@@ -0,0 +1,148 @@
+"use client";
+
+import React, { FC, ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import {
+  AdapterWallet,
+  InputTransactionData,
+  NetworkInfo,
+  WalletContext,
+  WalletContextState,
+  WalletReadyState,
+} from "@aptos-labs/wallet-adapter-react";
+import { APTOS_LOCALNET_CHAIN, AccountInfo, UserResponseStatus } from "@aptos-labs/wallet-standard";
+import { Ed25519PublicKey, Network } from "@aptos-labs/ts-sdk";
+import { EntryFunctionPayload } from "@wage-protocol/sdk/protocol";
+import type { ProtocolSimulator } from "@wage-protocol/sdk/simulator";
+import { useMounted } from "@/hooks/useMounted";
+import { SIMULATOR_ACCOUNTS } from "@/lib/aptos/config";
+
+declare global {
+  interface Window {
+    // Lets the clock be driven from the console: wageSimulator.clock.advance(86400)
+    wageSimulator?: ProtocolSimulator;
+  }
+}
+
+const STORAGE_KEY = "wap_simulator_account";
+
+// Simulator accounts have no keys; the wallet only needs a well-formed public key to report
+const PLACEHOLDER_PUBLIC_KEY = new Ed25519PublicKey(new Uint8Array(32));
+
+const unsupported = (feature: string) => async (): Promise<never> => {
+  throw new Error(`${feature} is not available with the protocol simulator`);
+};
+
+const SIMULATOR_NETWORK: NetworkInfo = { name: Network.LOCAL, chainId: 4 };
+
+const SIMULATOR_ICON =
+  "data:image/svg+xml;base64,PHN2ZyB4bWxucz0naHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmcnIHZpZXdCb3g9JzAgMCAyNCAyNCc+PHJlY3Qgd2lkdGg9JzI0JyBoZWlnaHQ9JzI0JyByeD0nNicgZmlsbD0nI0U4NUE0RicvPjwvc3ZnPg==";
+
+const accountInfo = (address: string) => new AccountInfo({ address, publicKey: PLACEHOLDER_PUBLIC_KEY });
+
+// One "wallet" per demo account, listed like installed extensions. The provider
+// connects and signs itself; the features only answer for the wallet's account.
+const simulatorWallet = (account: (typeof SIMULATOR_ACCOUNTS)[number]): AdapterWallet => ({
+  version: "1.0.0",
+  name: `Simulator: ${account.name}`,
+  url: "",
+  icon: SIMULATOR_ICON,
+  chains: [APTOS_LOCALNET_CHAIN],
+  accounts: [],
+  readyState: WalletReadyState.Installed,
+  features: {
+    "aptos:connect": {
+      version: "1.0.0",
+      connect: async () => ({ status: UserResponseStatus.APPROVED, args: accountInfo(account.address) }),
+    },
+    "aptos:disconnect": { version: "1.0.0", disconnect: async () => {} },
+    "aptos:account": { version: "1.0.0", account: async () => accountInfo(account.address) },
+    "aptos:network": { version: "1.0.0", network: async () => SIMULATOR_NETWORK },
+    "aptos:onAccountChange": { version: "1.0.0", onAccountChange: async () => {} },
+    "aptos:onNetworkChange": { version: "1.0.0", onNetworkChange: async () => {} },
+    "aptos:signMessage": { version: "1.0.0", signMessage: unsupported("Message signing") },
+    "aptos:signTransaction": { version: "1.0.0", signTransaction: unsupported("Signing without submitting") },
+  },
+});
+
+const SIMULATOR_WALLETS = SIMULATOR_ACCOUNTS.map(simulatorWallet);
+
+const savedAccountIndex = (): number | null => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  const index = SIMULATOR_WALLETS.findIndex((wallet) => wallet.name === saved);
+  return index >= 0 ? index : null;
+};
+
+interface SimulatorWalletProviderProps {
+  simulator: ProtocolSimulator;
+  children: ReactNode;
+}
+
+/**
+ * Stands in for AptosWalletAdapterProvider when the app runs on the protocol
+ * simulator: `useWallet()` connects to a demo account and transactions execute
+ * in memory without a signing prompt.
+ */
+export const SimulatorWalletProvider: FC<SimulatorWalletProviderProps> = ({ simulator, children }) => {
+  const mounted = useMounted();
+  // Undefined until a wallet is connected or disconnected in this session
+  const [selectedIndex, setSelectedIndex] = useState<number | null>();
+  // Until then, restore the last demo account once mounted, like the adapter's autoConnect
+  const accountIndex = !mounted ? null : selectedIndex !== undefined ? selectedIndex : savedAccountIndex();
+
+  useEffect(() => {
+    // Expose the simulator to the console
+    window.wageSimulator = simulator;
+  }, [simulator]);
+
+  const connect = useCallback((walletName: string) => {
+    const index = SIMULATOR_WALLETS.findIndex((wallet) => wallet.name === walletName);
+    if (index < 0) throw new Error(`Unknown simulator wallet: ${walletName}`);
+    localStorage.setItem(STORAGE_KEY, walletName);
+    setSelectedIndex(index);
+  }, []);
+
+  const disconnect = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    setSelectedIndex(null);
+  }, []);
+
+  const address = accountIndex === null ? null : SIMULATOR_ACCOUNTS[accountIndex].address;
+
+  const signAndSubmitTransaction = useCallback(
+    async (transaction: InputTransactionData) => {
+      if (!address) throw new Error("Wallet not connected");
+      if (!("function" in transaction.data)) throw new Error("The simulator only runs entry function payloads");
+
+      const txn = simulator.execute(address, transaction.data as EntryFunctionPayload, {
+        maxGasAmount: transaction.options?.maxGasAmount,
+        gasUnitPrice: transaction.options?.gasUnitPrice,
+      });
+      return { hash: txn.hash };
+    },
+    [simulator, address]
+  );
+
+  const value = useMemo<WalletContextState>(
+    () => ({
+      connected: address !== null,
+      isLoading: false,
+      account: address ? accountInfo(address) : null,
+      network: SIMULATOR_NETWORK,
+      connect,
+      disconnect,
+      signAndSubmitTransaction,
+      signIn: unsupported("Sign-in"),
+      signTransaction: unsupported("Signing without submitting"),
+      signMessage: unsupported("Message signing"),
+      signMessageAndVerify: unsupported("Message signing"),
+      changeNetwork: unsupported("Changing network"),
+      submitTransaction: unsupported("Submitting a pre-signed transaction"),
+      wallet: accountIndex === null ? null : SIMULATOR_WALLETS[accountIndex],
+      wallets: SIMULATOR_WALLETS,
+      notDetectedWallets: [],
+    }),
+    [address, accountIndex, connect, disconnect, signAndSubmitTransaction]
+  );
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
+};
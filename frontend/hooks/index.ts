@@ -15,3 +15,24 @@ export * from "./useEmergency";
 
 // Photon Rewards Hooks
 export * from "./usePhotonRewards";
+
+// SDK Signer Hook
+export * from "./useWalletSigner";
+
+// Transaction Preview Hook
+export * from "./useTransactionPreview";
+
+// Offline Signing Hook
+export * from "./useOfflineSigning";
+
+// Transaction History Hook
+export * from "./useTransactionHistory";
+
+// Fiat Price Hook
+export * from "./usePrices";
+
+// Payroll Report and Payslip Hooks
+export * from "./useReports";
+
+// Mounted Hook
+export * from "./useMounted";
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/contexts/AptosWalletContext";
-import { CONTRACT_ADDRESS } from "@/lib/aptos/config";
+import { REGISTRY_ADDRESS } from "@/lib/aptos/config";
 import {
   EmployeeComplianceStatus,
   EmployerComplianceStatus,
@@ -11,6 +11,12 @@ import {
   StreamComplianceInfo,
   CertificateVerification,
   DeductionInfo,
+  EmployeeComplianceProfile,
+  EmployerComplianceProfile,
+  StatutoryRateSettings,
+  getEmployeeCompliance,
+  getEmployerCompliance,
+  getStatutoryRateSettings,
   getEmployeeStatus,
   getEmployerStatus,
   getEmployerComplianceSummary,
@@ -124,7 +130,7 @@ export const useStatutoryRates = (registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchRates = useCallback(async () => {
     setLoading(true);
@@ -153,7 +159,7 @@ export const useStreamCompliance = (streamId: number, registryAddress?: string)
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchCompliance = useCallback(async () => {
     if (!streamId) return;
@@ -184,7 +190,7 @@ export const useCertificateVerification = (certificateId: number, registryAddres
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchVerification = useCallback(async () => {
     if (!certificateId) return;
@@ -250,14 +256,15 @@ export const useDeductionCalculator = () => {
 
   const calculate = useCallback(async (
     registryAddr: string,
-    grossWage: bigint,
-    employeeAddr: string
+    employerAddr: string,
+    employeeAddr: string,
+    grossWage: bigint
   ) => {
     setLoading(true);
     setError(null);
 
     try {
-      const result = await calculateDeductions(registryAddr, grossWage, employeeAddr);
+      const result = await calculateDeductions(registryAddr, employerAddr, employeeAddr, grossWage);
       setDeductions(result);
       return result;
     } catch (err) {
@@ -270,3 +277,65 @@ export const useDeductionCalculator = () => {
 
   return { deductions, loading, error, calculate };
 };
+
+interface TaxProfileResult {
+  profile: EmployeeComplianceProfile | null;
+  rates: StatutoryRateSettings | null;
+}
+
+// Hook for what the tax regime calculator starts from: the employee's compliance
+// profile (null if they aren't registered) and the registry's rates and ceilings
+export const useEmployeeTaxProfile = (employeeAddress?: string, registryAddress: string = REGISTRY_ADDRESS) => {
+  const { address } = useAuth();
+  const targetAddress = employeeAddress || address;
+  const [result, setResult] = useState<(TaxProfileResult & { build: unknown }) | null>(null);
+
+  const buildProfile = useCallback(async (): Promise<TaxProfileResult> => {
+    const [profile, rates] = await Promise.all([
+      targetAddress ? getEmployeeCompliance(targetAddress) : null,
+      getStatutoryRateSettings(registryAddress),
+    ]);
+    return { profile, rates };
+  }, [targetAddress, registryAddress]);
+
+  useEffect(() => {
+    let cancelled = false;
+    buildProfile().then((next) => {
+      if (!cancelled) setResult({ ...next, build: buildProfile });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [buildProfile]);
+
+  return {
+    profile: result?.profile ?? null,
+    rates: result?.rates ?? null,
+    loading: result?.build !== buildProfile,
+  };
+};
+
+// Hook for an employer's compliance profile, whose state sets the default
+// minimum wage of their employees; null if they aren't registered
+export const useEmployerComplianceProfile = (employerAddress?: string) => {
+  const { address } = useAuth();
+  const targetAddress = employerAddress || address;
+  const [result, setResult] = useState<{ profile: EmployerComplianceProfile | null; build: unknown } | null>(null);
+
+  const buildProfile = useCallback(
+    async () => (targetAddress ? getEmployerCompliance(targetAddress) : null),
+    [targetAddress]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    buildProfile().then((profile) => {
+      if (!cancelled) setResult({ profile, build: buildProfile });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [buildProfile]);
+
+  return { profile: result?.profile ?? null, loading: result?.build !== buildProfile };
+};
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/contexts/AptosWalletContext";
-import { CONTRACT_ADDRESS } from "@/lib/aptos/config";
+import { REGISTRY_ADDRESS } from "@/lib/aptos/config";
 import {
   DisputeInfo,
   ResolutionInfo,
@@ -21,7 +21,7 @@ export const useDisputeExists = (disputeId: number, registryAddress?: string) =>
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const checkExists = useCallback(async () => {
     if (!disputeId) return;
@@ -52,7 +52,7 @@ export const useDispute = (disputeId: number, registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchDispute = useCallback(async () => {
     if (!disputeId) return;
@@ -83,7 +83,7 @@ export const useResolution = (disputeId: number, registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchResolution = useCallback(async () => {
     if (!disputeId) return;
@@ -114,7 +114,7 @@ export const useDisputeStats = (registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchStats = useCallback(async () => {
     setLoading(true);
@@ -143,7 +143,7 @@ export const useEvidenceCount = (disputeId: number, registryAddress?: string) =>
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchCount = useCallback(async () => {
     if (!disputeId) return;
@@ -174,7 +174,7 @@ export const useActiveArbitratorsCount = (registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchCount = useCallback(async () => {
     setLoading(true);
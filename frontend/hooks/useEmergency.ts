@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/contexts/AptosWalletContext";
-import { CONTRACT_ADDRESS } from "@/lib/aptos/config";
+import { REGISTRY_ADDRESS } from "@/lib/aptos/config";
 import {
   SystemState,
   getAdminCount,
@@ -21,7 +21,7 @@ export const useSystemState = (registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchState = useCallback(async () => {
     setLoading(true);
@@ -56,7 +56,7 @@ export const useSystemPaused = (registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const checkPaused = useCallback(async () => {
     setLoading(true);
@@ -91,7 +91,7 @@ export const useModulePaused = (moduleIndex: number, registryAddress?: string) =
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const checkPaused = useCallback(async () => {
     setLoading(true);
@@ -121,7 +121,7 @@ export const useUserRole = (role: number, registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const checkRole = useCallback(async () => {
     if (!address) {
@@ -155,7 +155,7 @@ export const useAdminCount = (registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchCount = useCallback(async () => {
     setLoading(true);
@@ -184,7 +184,7 @@ export const useUpgradePending = (registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const checkPending = useCallback(async () => {
     setLoading(true);
@@ -219,7 +219,7 @@ export const useAllModulePauseStatus = (registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchAllStatus = useCallback(async () => {
     setLoading(true);
@@ -0,0 +1,12 @@
+"use client";
+
+import React from "react";
+
+// Hook that turns true once the component has mounted. State read from
+// localStorage, which the server render cannot see, waits for it so the first
+// client render matches the server's.
+export const useMounted = () => {
+  const [mounted, setMounted] = React.useState(false);
+  React.useEffect(() => setMounted(true), []);
+  return mounted;
+};
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useAuth } from "@/contexts/AptosWalletContext";
+import { REGISTRY_ADDRESS } from "@/lib/aptos/config";
+import { depositPayload, withdrawPayload, emergencyWithdrawPayload } from "@/lib/aptos/employerTreasury";
+import {
+  OfflineQrPart,
+  OfflineTransaction,
+  buildOfflineTransaction,
+  downloadOfflineTransaction,
+  readOfflineQrParts,
+  readOfflineTransaction,
+  submitSignedTransaction,
+} from "@/lib/aptos/offline";
+import { formatAmount } from "@/types";
+
+// Default registry address (contract address)
+const DEFAULT_REGISTRY = REGISTRY_ADDRESS;
+
+export type OfflineTreasuryOperation = "deposit" | "withdraw" | "emergencyWithdraw";
+
+// Hook for treasury operations signed by a cold wallet: export the unsigned
+// transaction as a file (kept as `exportedTransaction` to show as QR codes),
+// then load the signed file or scanned QR codes back and submit it
+export const useOfflineSigning = (registryAddr: string = DEFAULT_REGISTRY) => {
+  const { address } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signedTransaction, setSignedTransaction] = useState<OfflineTransaction | null>(null);
+  const [exportedTransaction, setExportedTransaction] = useState<OfflineTransaction | null>(null);
+
+  const exportTransaction = useCallback(
+    async (operation: OfflineTreasuryOperation, amount: bigint = BigInt(0)) => {
+      if (!address) {
+        setError("Wallet not connected");
+        return null;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const [payload, description] =
+          operation === "deposit"
+            ? [depositPayload(registryAddr, amount), `Deposit ${formatAmount(amount, 8)} APT to the treasury`]
+            : operation === "withdraw"
+              ? [withdrawPayload(registryAddr, amount), `Withdraw ${formatAmount(amount, 8)} APT from the treasury`]
+              : [emergencyWithdrawPayload(registryAddr), "Emergency withdrawal of all available treasury funds"];
+
+        const offline = await buildOfflineTransaction(address, payload, description);
+        downloadOfflineTransaction(offline, `treasury-${operation}`);
+        setExportedTransaction(offline);
+        return offline;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to export transaction");
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [address, registryAddr]
+  );
+
+  const loadSignedTransaction = useCallback(async (file: File) => {
+    setError(null);
+
+    try {
+      const offline = await readOfflineTransaction(file);
+      if (!offline.senderAuthenticator) {
+        throw new Error("This file has not been signed yet. Sign it with the cold wallet first.");
+      }
+      setSignedTransaction(offline);
+      return offline;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read transaction file");
+      return null;
+    }
+  }, []);
+
+  const loadSignedQrParts = useCallback((parts: OfflineQrPart[]) => {
+    setError(null);
+
+    try {
+      const offline = readOfflineQrParts(parts);
+      if (!offline.senderAuthenticator) {
+        throw new Error("These QR codes are for the unsigned transaction. Scan the codes of the signed one.");
+      }
+      setSignedTransaction(offline);
+      return offline;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the scanned QR codes");
+      return null;
+    }
+  }, []);
+
+  const submitTransaction = useCallback(async () => {
+    if (!signedTransaction) return null;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const hash = await submitSignedTransaction(signedTransaction);
+      setSignedTransaction(null);
+      return hash;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit signed transaction");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [signedTransaction]);
+
+  const clearSignedTransaction = useCallback(() => {
+    setSignedTransaction(null);
+    setError(null);
+  }, []);
+
+  const clearExportedTransaction = useCallback(() => setExportedTransaction(null), []);
+
+  return {
+    exportTransaction,
+    loadSignedTransaction,
+    loadSignedQrParts,
+    submitTransaction,
+    clearSignedTransaction,
+    clearExportedTransaction,
+    signedTransaction,
+    exportedTransaction,
+    loading,
+    error,
+  };
+};
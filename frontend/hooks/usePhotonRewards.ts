@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/contexts/AptosWalletContext";
-import { CONTRACT_ADDRESS } from "@/lib/aptos/config";
+import { REGISTRY_ADDRESS } from "@/lib/aptos/config";
 import {
   CampaignInfo,
   EmployeeRewardsSummary,
@@ -15,6 +15,7 @@ import {
   getParticipationInfo,
   getStreakInfo,
   isPhotonEnabled,
+  claimCampaignRewardsPayload,
 } from "@/lib/aptos/photonRewards";
 
 // Hook for Photon registry stats
@@ -23,7 +24,7 @@ export const usePhotonRegistryStats = (registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const fetchStats = useCallback(async () => {
     setLoading(true);
@@ -184,7 +185,7 @@ export const usePhotonEnabled = (registryAddress?: string) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const registryAddr = registryAddress || CONTRACT_ADDRESS;
+  const registryAddr = registryAddress || REGISTRY_ADDRESS;
 
   const checkEnabled = useCallback(async () => {
     setLoading(true);
@@ -253,24 +254,26 @@ export const usePhotonOperations = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const claimRewards = useCallback(async (): Promise<string | null> => {
+  const claimRewards = useCallback(async (
+    campaignAddr?: string,
+    registryAddr: string = REGISTRY_ADDRESS
+  ): Promise<string | null> => {
     if (!signAndSubmitTransaction) {
       setError("Wallet not connected");
       return null;
     }
 
+    // claim_rewards is scoped to a single campaign
+    if (!campaignAddr) {
+      setError("No campaign selected to claim rewards from");
+      return null;
+    }
+
     setLoading(true);
     setError(null);
 
     try {
-      // Claim rewards transaction
-      const payload = {
-        data: {
-          function: `${CONTRACT_ADDRESS}::photon_rewards::claim_rewards` as `${string}::${string}::${string}`,
-          functionArguments: [],
-        },
-      };
-
+      const payload = claimCampaignRewardsPayload(campaignAddr, registryAddr);
       const response = await signAndSubmitTransaction(payload);
       return response.hash;
     } catch (err) {
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { APT, PriceQuote, TokenMetadata } from "@wage-protocol/sdk/protocol";
+import { PRICE_REFRESH_MS, getFiatQuotes, getWithdrawalQuotes } from "@/lib/prices";
+
+// Hook for a token's live fiat quotes, one per display currency (primary first).
+// Quotes carry `stale` when the price source is old or unreachable; empty while
+// loading or when no rate is available.
+export const useFiatQuotes = (token: TokenMetadata = APT) => {
+  const [quotes, setQuotes] = useState<PriceQuote[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchQuotes = () =>
+      getFiatQuotes(token).then((next) => {
+        if (!cancelled) setQuotes(next);
+      });
+
+    fetchQuotes();
+    const interval = setInterval(fetchQuotes, PRICE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [token]);
+
+  return { quotes, stale: quotes.some((quote) => quote.stale) };
+};
+
+// Hook for the live fiat quotes of several tokens, by asset type (see
+// useFiatQuotes). Pass a memoized list.
+export const useTokenFiatQuotes = (tokens: TokenMetadata[]) => {
+  const [quotes, setQuotes] = useState<Record<string, PriceQuote[]>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchQuotes = () =>
+      Promise.all(
+        tokens.map(async (token): Promise<[string, PriceQuote[]]> => [token.assetType, await getFiatQuotes(token)])
+      ).then((entries) => {
+        if (!cancelled) setQuotes(Object.fromEntries(entries));
+      });
+
+    fetchQuotes();
+    const interval = setInterval(fetchQuotes, PRICE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [tokens]);
+
+  return quotes;
+};
+
+export interface RatedWithdrawal {
+  id: string;
+  token: TokenMetadata;
+  /** Block time of the withdrawal, in unix seconds */
+  timestamp: number;
+}
+
+// Hook for the fiat rates in effect at each withdrawal, by id, from the price
+// source's history (one request per token and currency). Pass a memoized list.
+export const useWithdrawalRates = (withdrawals: RatedWithdrawal[]) => {
+  const [result, setResult] = useState<{ rates: Record<string, PriceQuote[]>; withdrawals: RatedWithdrawal[] } | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const byToken = new Map<string, RatedWithdrawal[]>();
+    for (const withdrawal of withdrawals) {
+      byToken.set(withdrawal.token.assetType, [...(byToken.get(withdrawal.token.assetType) ?? []), withdrawal]);
+    }
+
+    Promise.all(
+      Array.from(byToken.values()).map(async (group) => {
+        const quotes = await getWithdrawalQuotes(
+          group[0].token,
+          group.map((withdrawal) => withdrawal.timestamp)
+        );
+        return group.map((withdrawal, i): [string, PriceQuote[]] => [withdrawal.id, quotes[i]]);
+      })
+    ).then((entries) => {
+      if (!cancelled) setResult({ rates: Object.fromEntries(entries.flat()), withdrawals });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [withdrawals]);
+
+  return { rates: result?.rates ?? {}, loading: result?.withdrawals !== withdrawals };
+};
@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { TokenMetadata } from "@wage-protocol/sdk/protocol";
+import { useAuth } from "@/contexts/AptosWalletContext";
+import { REGISTRY_ADDRESS } from "@/lib/aptos/config";
+import { StreamInfo } from "@/lib/aptos/wageStreaming";
+import { downloadFile } from "@/lib/export";
+import { PayrollReport, getPayrollReport } from "@/lib/reports/payroll";
+import { ReportPeriod } from "@/lib/reports/period";
+import { getPayslip, getPayslips, payslipArchive, payslipFileName, payslipPdf } from "@/lib/reports/payslip";
+import { EmployeeRecord, getEmployeeDirectory, saveEmployeeRecord } from "@/lib/reports/directory";
+import { MonthlyWageData, buildStatutoryReturns, getMonthlyWages } from "@/lib/reports/returns";
+import { TdsStatement, getTdsStatement } from "@/lib/reports/tds";
+
+interface PayrollReportResult {
+  report: PayrollReport | null;
+  error: string | null;
+}
+
+// Hook for the connected employer's payroll report over a period, rebuilt when
+// the streams or the period change (withdrawals and deductions are fetched)
+export const usePayrollReport = (
+  streams: StreamInfo[],
+  streamTokens: Record<string, TokenMetadata>,
+  period: ReportPeriod,
+  registryAddr: string = REGISTRY_ADDRESS
+) => {
+  const { address } = useAuth();
+  const [result, setResult] = useState<(PayrollReportResult & { build: unknown }) | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const buildReport = useCallback(async (): Promise<PayrollReportResult> => {
+    if (!address) return { report: null, error: null };
+    try {
+      return { report: await getPayrollReport(registryAddr, address, streams, streamTokens, period), error: null };
+    } catch (err) {
+      return { report: null, error: err instanceof Error ? err.message : "Failed to build payroll report" };
+    }
+  }, [address, registryAddr, streams, streamTokens, period]);
+
+  useEffect(() => {
+    let cancelled = false;
+    buildReport().then((next) => {
+      if (!cancelled) setResult({ ...next, build: buildReport });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [buildReport]);
+
+  const refetch = useCallback(async () => {
+    setRefreshing(true);
+    setResult({ ...(await buildReport()), build: buildReport });
+    setRefreshing(false);
+  }, [buildReport]);
+
+  // Until the report for the current inputs is in, the previous one is shown as loading
+  const loading = refreshing || result?.build !== buildReport;
+
+  return { report: result?.report ?? null, loading, error: result?.error ?? null, refetch };
+};
+
+// Hook for downloading payslips: one stream's for a month as a PDF, or every
+// payslip of some streams over a period as a ZIP of PDFs
+export const usePayslipDownload = (registryAddr: string = REGISTRY_ADDRESS) => {
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (download: () => Promise<void>) => {
+    setDownloading(true);
+    setError(null);
+    try {
+      await download();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to prepare payslips");
+    } finally {
+      setDownloading(false);
+    }
+  }, []);
+
+  const downloadPayslip = useCallback(
+    (stream: StreamInfo, token: TokenMetadata, month: ReportPeriod) =>
+      run(async () => {
+        const payslip = await getPayslip(registryAddr, stream, token, month);
+        downloadFile(`${payslipFileName(payslip)}.pdf`, payslipPdf([payslip]), "application/pdf");
+      }),
+    [registryAddr, run]
+  );
+
+  const downloadPayslips = useCallback(
+    (streams: StreamInfo[], streamTokens: Record<string, TokenMetadata>, period: ReportPeriod, fileName: string) =>
+      run(async () => {
+        const payslips = await getPayslips(registryAddr, streams, streamTokens, period);
+        if (payslips.length === 0) throw new Error("No wages were paid in this period");
+        downloadFile(`${fileName}.zip`, payslipArchive(payslips), "application/zip");
+      }),
+    [registryAddr, run]
+  );
+
+  return { downloadPayslip, downloadPayslips, downloading, error };
+};
+
+// Hook for the connected employer's employee directory (names, PANs, UANs and
+// IP numbers kept in this browser for statutory returns)
+export const useEmployeeDirectory = () => {
+  const { address } = useAuth();
+  const [saved, setSaved] = useState<{ employer: string; directory: Record<string, EmployeeRecord> } | null>(null);
+
+  const directory = useMemo(() => {
+    if (!address) return {};
+    return saved?.employer === address ? saved.directory : getEmployeeDirectory(address);
+  }, [address, saved]);
+
+  const saveRecord = useCallback(
+    (employee: string, record: EmployeeRecord) => {
+      if (!address) return;
+      setSaved({ employer: address, directory: saveEmployeeRecord(address, employee, record) });
+    },
+    [address]
+  );
+
+  return { directory, saveRecord };
+};
+
+interface MonthlyWagesResult {
+  data: MonthlyWageData | null;
+  error: string | null;
+}
+
+// Hook for the connected employer's statutory returns (ECR, ESIC upload and
+// their validation) for a month. The month's wages are fetched once; edits to
+// the employee directory re-validate without fetching again.
+export const useStatutoryReturns = (
+  streams: StreamInfo[],
+  streamTokens: Record<string, TokenMetadata>,
+  month: ReportPeriod,
+  directory: Record<string, EmployeeRecord>,
+  registryAddr: string = REGISTRY_ADDRESS
+) => {
+  const { address } = useAuth();
+  const [result, setResult] = useState<(MonthlyWagesResult & { build: unknown }) | null>(null);
+
+  const buildWages = useCallback(async (): Promise<MonthlyWagesResult> => {
+    if (!address) return { data: null, error: null };
+    try {
+      return { data: await getMonthlyWages(registryAddr, address, streams, streamTokens, month), error: null };
+    } catch (err) {
+      return { data: null, error: err instanceof Error ? err.message : "Failed to prepare statutory returns" };
+    }
+  }, [address, registryAddr, streams, streamTokens, month]);
+
+  useEffect(() => {
+    let cancelled = false;
+    buildWages().then((next) => {
+      if (!cancelled) setResult({ ...next, build: buildWages });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [buildWages]);
+
+  const data = result?.data ?? null;
+  const returns = useMemo(() => (data ? buildStatutoryReturns(data, directory) : null), [data, directory]);
+
+  return { data, returns, loading: result?.build !== buildWages, error: result?.error ?? null };
+};
+
+interface TdsStatementResult {
+  statement: TdsStatement | null;
+  error: string | null;
+}
+
+// Hook for the connected employer's TDS statement over a fiscal year (by its
+// starting year), behind the Form 24Q data and Form 16 Part B
+export const useTdsStatement = (
+  streams: StreamInfo[],
+  streamTokens: Record<string, TokenMetadata>,
+  fiscalYear: number,
+  registryAddr: string = REGISTRY_ADDRESS
+) => {
+  const { address } = useAuth();
+  const [result, setResult] = useState<(TdsStatementResult & { build: unknown }) | null>(null);
+
+  const buildStatement = useCallback(async (): Promise<TdsStatementResult> => {
+    if (!address) return { statement: null, error: null };
+    try {
+      return {
+        statement: await getTdsStatement(registryAddr, address, streams, streamTokens, fiscalYear),
+        error: null,
+      };
+    } catch (err) {
+      return { statement: null, error: err instanceof Error ? err.message : "Failed to prepare TDS statement" };
+    }
+  }, [address, registryAddr, streams, streamTokens, fiscalYear]);
+
+  useEffect(() => {
+    let cancelled = false;
+    buildStatement().then((next) => {
+      if (!cancelled) setResult({ ...next, build: buildStatement });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [buildStatement]);
+
+  return {
+    statement: result?.statement ?? null,
+    loading: result?.build !== buildStatement,
+    error: result?.error ?? null,
+  };
+};
@@ -0,0 +1,73 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useAuth } from "@/contexts/AptosWalletContext";
+import { ActivityEntry, ActivityPage, EventCursor, getEmployeeActivity } from "@/lib/aptos/events";
+
+// Hook for the connected employee's on-chain transaction history, loaded
+// newest first one indexer page at a time
+export const useEmployeeTransactionHistory = (pageSize: number = 25) => {
+  const { address } = useAuth();
+  const [transactions, setTransactions] = useState<ActivityEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadedAddress, setLoadedAddress] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursor = useRef<EventCursor | null>(null);
+
+  const applyFirstPage = useCallback((page: ActivityPage | null) => {
+    if (page) {
+      setTransactions(page.entries);
+      setHasMore(page.hasMore);
+      setError(null);
+      cursor.current = page.cursor;
+    } else {
+      setError("Failed to fetch transaction history");
+    }
+  }, []);
+
+  // Initial load whenever the connected account changes
+  useEffect(() => {
+    if (!address) return;
+
+    let cancelled = false;
+    getEmployeeActivity(address, undefined, pageSize).then((page) => {
+      if (cancelled) return;
+      applyFirstPage(page);
+      setLoadedAddress(address);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, pageSize, applyFirstPage]);
+
+  const refetch = useCallback(async () => {
+    if (!address) return;
+
+    setRefreshing(true);
+    applyFirstPage(await getEmployeeActivity(address, undefined, pageSize));
+    setRefreshing(false);
+  }, [address, pageSize, applyFirstPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!address || !hasMore || loadingMore) return;
+
+    setLoadingMore(true);
+
+    const page = await getEmployeeActivity(address, cursor.current ?? undefined, pageSize);
+    if (page) {
+      setTransactions((prev) => [...prev, ...page.entries]);
+      setHasMore(page.hasMore);
+      cursor.current = page.cursor;
+    } else {
+      setError("Failed to load older transactions");
+    }
+    setLoadingMore(false);
+  }, [address, hasMore, loadingMore, pageSize]);
+
+  const loading = refreshing || (!!address && loadedAddress !== address);
+
+  return { transactions, hasMore, loading, loadingMore, error, loadMore, refetch };
+};
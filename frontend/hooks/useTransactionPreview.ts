@@ -0,0 +1,51 @@
+"use client";
+
+import { useState, useCallback, useRef } from "react";
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+import { useAuth } from "@/contexts/AptosWalletContext";
+import { simulateTransaction, SimulationResult } from "@/lib/aptos/simulation";
+
+// Hook for simulating a transaction and asking the user to confirm the preview
+// before the wallet prompt
+export const useTransactionPreview = () => {
+  const { address } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [preview, setPreview] = useState<SimulationResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const pendingAction = useRef<(() => Promise<unknown>) | null>(null);
+
+  const requestConfirmation = useCallback(
+    async (actionTitle: string, payload: InputTransactionData, onConfirm: () => Promise<unknown>) => {
+      if (!address) return;
+
+      pendingAction.current = onConfirm;
+      setTitle(actionTitle);
+      setPreview(null);
+      setIsOpen(true);
+      setSimulating(true);
+
+      try {
+        const result = await simulateTransaction(address, payload);
+        setPreview(result);
+      } finally {
+        setSimulating(false);
+      }
+    },
+    [address]
+  );
+
+  const cancel = useCallback(() => {
+    pendingAction.current = null;
+    setIsOpen(false);
+  }, []);
+
+  const confirm = useCallback(async () => {
+    const action = pendingAction.current;
+    pendingAction.current = null;
+    setIsOpen(false);
+    if (action) await action();
+  }, []);
+
+  return { isOpen, title, preview, simulating, requestConfirmation, confirm, cancel };
+};
@@ -1,8 +1,9 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useAuth } from "@/contexts/AptosWalletContext";
-import { aptos, octasToApt, CONTRACT_ADDRESS } from "@/lib/aptos/config";
+import { APT, TokenAmount, TokenMetadata, isCoinType } from "@wage-protocol/sdk/protocol";
+import { aptos, aptAmount, tokenForAsset, REGISTRY_ADDRESS } from "@/lib/aptos/config";
 import {
   TreasuryInfo,
   TreasuryStats,
@@ -14,6 +15,8 @@ import {
   treasuryExists,
   getTreasuryInfo,
   getTreasuryBalance,
+  getTreasuryAssets,
+  getTreasuryAssetBalance,
   getTreasuryStatus,
   getTreasuryHealth,
   getTreasuryAnalytics,
@@ -25,7 +28,9 @@ import {
   getTreasuryStats,
   initializeTreasuryPayload,
   depositPayload,
+  depositAssetPayload,
   withdrawPayload,
+  withdrawAssetPayload,
   allocateForStreamPayload,
   deallocateFromStreamPayload,
   emergencyWithdrawPayload,
@@ -33,7 +38,7 @@ import {
 } from "@/lib/aptos/employerTreasury";
 
 // Default registry address (contract address)
-const DEFAULT_REGISTRY = CONTRACT_ADDRESS;
+const DEFAULT_REGISTRY = REGISTRY_ADDRESS;
 
 // Hook for wallet APT balance (not treasury, the actual wallet balance)
 export const useWalletBalance = () => {
@@ -119,9 +124,11 @@ export const useWalletBalance = () => {
     return () => clearInterval(interval);
   }, [address, fetchBalance]);
 
+  const balanceAmount = useMemo(() => aptAmount(balance), [balance]);
+
   return {
     balance,
-    balanceInApt: octasToApt(balance),
+    balanceAmount,
     loading,
     refetch: fetchBalance,
   };
@@ -219,20 +226,88 @@ export const useTreasuryBalance = () => {
     return () => clearInterval(interval);
   }, [address, fetchBalances]);
 
+  // Exact APT amounts, kept stable between polls that return the same data
+  const amounts = useMemo(
+    () => ({
+      balanceAmount: aptAmount(balanceData?.totalBalance || BigInt(0)),
+      allocatedBalanceAmount: aptAmount(balanceData?.allocatedBalance || BigInt(0)),
+      availableBalanceAmount: aptAmount(balanceData?.availableBalance || BigInt(0)),
+      reserveBalanceAmount: aptAmount(balanceData?.reserveBalance || BigInt(0)),
+    }),
+    [balanceData]
+  );
+
   return {
     balance: balanceData?.totalBalance || BigInt(0),
-    balanceInApt: octasToApt(balanceData?.totalBalance || BigInt(0)),
     allocatedBalance: balanceData?.allocatedBalance || BigInt(0),
-    allocatedBalanceInApt: octasToApt(balanceData?.allocatedBalance || BigInt(0)),
     availableBalance: balanceData?.availableBalance || BigInt(0),
-    availableBalanceInApt: octasToApt(balanceData?.availableBalance || BigInt(0)),
     reserveBalance: balanceData?.reserveBalance || BigInt(0),
-    reserveBalanceInApt: octasToApt(balanceData?.reserveBalance || BigInt(0)),
+    ...amounts,
     loading,
     refetch: fetchBalances,
   };
 };
 
+// Balances of one fungible asset held in the employer's asset treasury
+export interface TreasuryAssetBalance {
+  token: TokenMetadata;
+  balance: TokenAmount;
+  allocatedBalance: TokenAmount;
+  availableBalance: TokenAmount;
+  reserveBalance: TokenAmount;
+}
+
+// Hook for the treasury's fungible asset (e.g. stablecoin) balances, one per deposited asset
+export const useTreasuryAssetBalances = () => {
+  const { address } = useAuth();
+  const [assetBalances, setAssetBalances] = useState<TreasuryAssetBalance[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchAssetBalances = useCallback(async () => {
+    if (!address) return;
+
+    setLoading(true);
+    try {
+      const assets = await getTreasuryAssets(address);
+      const balances = await Promise.all(assets.map((asset) => getTreasuryAssetBalance(address, asset)));
+      setAssetBalances(
+        assets.flatMap((asset, i) => {
+          const balance = balances[i];
+          if (!balance) return [];
+          const token = tokenForAsset(asset);
+          return [
+            {
+              token,
+              balance: TokenAmount.of(balance.totalBalance, token),
+              allocatedBalance: TokenAmount.of(balance.allocatedBalance, token),
+              availableBalance: TokenAmount.of(balance.availableBalance, token),
+              reserveBalance: TokenAmount.of(balance.reserveBalance, token),
+            },
+          ];
+        })
+      );
+    } catch {
+      // Silently fail for balance updates
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    fetchAssetBalances();
+  }, [fetchAssetBalances]);
+
+  // Refresh every 10 seconds
+  useEffect(() => {
+    if (!address) return;
+
+    const interval = setInterval(fetchAssetBalances, 10000);
+    return () => clearInterval(interval);
+  }, [address, fetchAssetBalances]);
+
+  return { assetBalances, loading, refetch: fetchAssetBalances };
+};
+
 // Hook for treasury status
 export const useTreasuryStatus = (employerAddr?: string) => {
   const { address } = useAuth();
@@ -487,7 +562,7 @@ export const useTreasuryOperations = (registryAddr: string = DEFAULT_REGISTRY) =
   );
 
   const deposit = useCallback(
-    async (amount: bigint) => {
+    async (amount: bigint, token: TokenMetadata = APT) => {
       if (!address) {
         setError("Wallet not connected");
         return null;
@@ -497,7 +572,10 @@ export const useTreasuryOperations = (registryAddr: string = DEFAULT_REGISTRY) =
       setError(null);
 
       try {
-        const payload = depositPayload(registryAddr, amount);
+        // amount is in the token's smallest unit
+        const payload = isCoinType(token)
+          ? depositPayload(registryAddr, amount)
+          : depositAssetPayload(registryAddr, token.assetType, amount);
         const response = await signAndSubmitTransaction(payload);
         await aptos.waitForTransaction({ transactionHash: response.hash });
         return response.hash;
@@ -512,7 +590,7 @@ export const useTreasuryOperations = (registryAddr: string = DEFAULT_REGISTRY) =
   );
 
   const withdraw = useCallback(
-    async (amount: bigint) => {
+    async (amount: bigint, token: TokenMetadata = APT) => {
       if (!address) {
         setError("Wallet not connected");
         return null;
@@ -522,7 +600,10 @@ export const useTreasuryOperations = (registryAddr: string = DEFAULT_REGISTRY) =
       setError(null);
 
       try {
-        const payload = withdrawPayload(registryAddr, amount);
+        // amount is in the token's smallest unit
+        const payload = isCoinType(token)
+          ? withdrawPayload(registryAddr, amount)
+          : withdrawAssetPayload(registryAddr, token.assetType, amount);
         const response = await signAndSubmitTransaction(payload);
         await aptos.waitForTransaction({ transactionHash: response.hash });
         return response.hash;
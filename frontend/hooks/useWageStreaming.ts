@@ -1,30 +1,45 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+import { APT, EntryFunctionPayload, TokenMetadata, isCoinType } from "@wage-protocol/sdk/protocol";
 import { useAuth } from "@/contexts/AptosWalletContext";
-import { aptos, octasToApt, CONTRACT_ADDRESS } from "@/lib/aptos/config";
+import {
+  aptos,
+  aptAmount,
+  tokenForAsset,
+  REGISTRY_ADDRESS,
+  MIN_GAS_BALANCE,
+  SPONSOR_URL,
+} from "@/lib/aptos/config";
+import { createSponsoredSigner, protocolSdk } from "@/lib/aptos/sdk";
 import {
   StreamInfo,
   StreamDetails,
   RegistryStats,
   getStreamInfo,
+  getStreamStates,
+  getIndexedStreams,
   getStreamDetails,
   getWithdrawableBalance,
   getRegistryStats,
   hasActiveStreams,
   getEmployerStreams,
   getEmployeeStreams,
+  getStreamAsset,
+  getStreamAssets,
   createStreamPayload,
+  createStreamWithAssetPayload,
   pauseStreamPayload,
   resumeStreamPayload,
   terminateStreamPayload,
   withdrawWagesPayload,
   withdrawAllPayload,
-  setDisputeStatusPayload,
+  STREAM_PAGE_SIZE,
 } from "@/lib/aptos/wageStreaming";
 
 // Default registry address (contract address)
-const DEFAULT_REGISTRY = CONTRACT_ADDRESS;
+const DEFAULT_REGISTRY = REGISTRY_ADDRESS;
 
 // Hook for fetching stream information
 export const useStreamInfo = (streamId: number | null, registryAddr: string = DEFAULT_REGISTRY) => {
@@ -123,9 +138,11 @@ export const useWithdrawableBalance = (streamId: number | null, registryAddr: st
     return () => clearInterval(interval);
   }, [streamId, fetchBalance]);
 
+  const balanceAmount = useMemo(() => aptAmount(balance), [balance]);
+
   return {
     balance,
-    balanceInApt: octasToApt(balance),
+    balanceAmount,
     loading,
     refetch: fetchBalance,
   };
@@ -190,10 +207,18 @@ export const useHasActiveStreams = (employeeAddr?: string) => {
 };
 
 // Hook for employer streams
-export const useEmployerStreams = (registryAddr: string = DEFAULT_REGISTRY) => {
+// Lists the newest `pageSize` streams from the stream index (loadMore for older
+// ones; Infinity for all), or every stream from the StreamStore when the indexer
+// is unavailable
+export const useEmployerStreams = (registryAddr: string = DEFAULT_REGISTRY, pageSize: number = STREAM_PAGE_SIZE) => {
   const { address } = useAuth();
   const [streamIds, setStreamIds] = useState<string[]>([]);
   const [streams, setStreams] = useState<StreamInfo[]>([]);
+  // Token each stream pays in, by stream id
+  const [streamTokens, setStreamTokens] = useState<Record<string, TokenMetadata>>({});
+  const [limit, setLimit] = useState(pageSize);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -204,33 +229,54 @@ export const useEmployerStreams = (registryAddr: string = DEFAULT_REGISTRY) => {
     setError(null);
     
     try {
-      const ids = await getEmployerStreams(address);
-      setStreamIds(ids);
-      
-      // Fetch details for each stream
-      const streamDetails = await Promise.all(
-        ids.map(id => getStreamInfo(registryAddr, Number(id)))
-      );
-      setStreams(streamDetails.filter((s): s is StreamInfo => s !== null));
+      let found: StreamInfo[];
+      const page = await getIndexedStreams("employer", address, registryAddr, limit);
+      if (page) {
+        found = page.streams;
+        setTotal(page.total);
+        setHasMore(page.hasMore);
+      } else {
+        // Fallback: pick the employer's streams out of the registry's StreamStore
+        const ids = await getEmployerStreams(address);
+        const states = await getStreamStates(registryAddr);
+        found = states.filter(s => ids.includes(s.streamId));
+        setTotal(ids.length);
+        setHasMore(false);
+      }
+
+      // Fetch the paying asset for each stream
+      const assets = await Promise.all(found.map(s => getStreamAsset(registryAddr, Number(s.streamId))));
+      setStreamIds(found.map(s => s.streamId));
+      setStreams(found);
+      setStreamTokens(Object.fromEntries(found.map((s, i) => [s.streamId, tokenForAsset(assets[i])])));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch streams");
     } finally {
       setLoading(false);
     }
-  }, [address, registryAddr]);
+  }, [address, registryAddr, limit]);
 
   useEffect(() => {
     fetchStreams();
   }, [fetchStreams]);
 
-  return { streamIds, streams, loading, error, refetch: fetchStreams };
+  const loadMore = useCallback(() => setLimit(current => current + pageSize), [pageSize]);
+
+  return { streamIds, streams, streamTokens, total, hasMore, loadMore, loading, error, refetch: fetchStreams };
 };
 
 // Hook for employee streams
+// Lists the newest streams from the stream index (loadMore for older ones), or
+// the open streams from the StreamStore when the indexer is unavailable
 export const useEmployeeStreams = (registryAddr: string = DEFAULT_REGISTRY) => {
   const { address } = useAuth();
   const [streamIds, setStreamIds] = useState<string[]>([]);
   const [streams, setStreams] = useState<StreamInfo[]>([]);
+  // Token each stream pays in, by stream id
+  const [streamTokens, setStreamTokens] = useState<Record<string, TokenMetadata>>({});
+  const [limit, setLimit] = useState(STREAM_PAGE_SIZE);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -241,26 +287,66 @@ export const useEmployeeStreams = (registryAddr: string = DEFAULT_REGISTRY) => {
     setError(null);
     
     try {
-      const ids = await getEmployeeStreams(address);
-      setStreamIds(ids);
-      
-      // Fetch details for each stream
-      const streamDetails = await Promise.all(
-        ids.map(id => getStreamInfo(registryAddr, Number(id)))
-      );
-      setStreams(streamDetails.filter((s): s is StreamInfo => s !== null));
+      let found: StreamInfo[];
+      const page = await getIndexedStreams("employee", address, registryAddr, limit);
+      if (page) {
+        found = page.streams;
+        setTotal(page.total);
+        setHasMore(page.hasMore);
+      } else {
+        // Fallback: filter the registry's StreamStore
+        const ids = await getEmployeeStreams(address);
+        const states = await getStreamStates(registryAddr);
+        found = states.filter(s => ids.includes(s.streamId));
+        setTotal(found.length);
+        setHasMore(false);
+      }
+
+      // Fetch the paying asset for each stream
+      const assets = await Promise.all(found.map(s => getStreamAsset(registryAddr, Number(s.streamId))));
+      setStreamIds(found.map(s => s.streamId));
+      setStreams(found);
+      setStreamTokens(Object.fromEntries(found.map((s, i) => [s.streamId, tokenForAsset(assets[i])])));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch streams");
     } finally {
       setLoading(false);
     }
-  }, [address, registryAddr]);
+  }, [address, registryAddr, limit]);
 
   useEffect(() => {
     fetchStreams();
   }, [fetchStreams]);
 
-  return { streamIds, streams, loading, error, refetch: fetchStreams };
+  const loadMore = useCallback(() => setLimit(current => current + STREAM_PAGE_SIZE), []);
+
+  return { streamIds, streams, streamTokens, total, hasMore, loadMore, loading, error, refetch: fetchStreams };
+};
+
+// Hook for the token of each of some streams (`streamIds` memoized), e.g. the
+// streams of history entries outside the loaded stream page. Each stream is
+// looked up once; streams whose asset couldn't be read are missing from the result.
+export const useStreamTokens = (streamIds: string[], registryAddr: string = DEFAULT_REGISTRY) => {
+  const [result, setResult] = useState<{
+    streamIds: string[];
+    streamTokens: Record<string, TokenMetadata>;
+  } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getStreamAssets(registryAddr, streamIds).then(assets => {
+      if (cancelled) return;
+      const streamTokens = Object.fromEntries(
+        Object.entries(assets).map(([streamId, asset]) => [streamId, tokenForAsset(asset)])
+      );
+      setResult({ streamIds, streamTokens });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [streamIds, registryAddr]);
+
+  return { streamTokens: result?.streamTokens ?? {}, loading: result?.streamIds !== streamIds };
 };
 
 // Hook for wage streaming operations (employer)
@@ -274,7 +360,8 @@ export const useWageStreamingEmployer = (registryAddr: string = DEFAULT_REGISTRY
       employeeAddress: string,
       totalAmount: bigint,
       durationSeconds: number,
-      jobDescription: string = ""
+      jobDescription: string = "",
+      token: TokenMetadata = APT
     ) => {
       if (!address) {
         setError("Wallet not connected");
@@ -285,13 +372,17 @@ export const useWageStreamingEmployer = (registryAddr: string = DEFAULT_REGISTRY
       setError(null);
 
       try {
-        const payload = createStreamPayload(
-          registryAddr,
-          employeeAddress,
-          totalAmount,
-          durationSeconds,
-          jobDescription
-        );
+        // totalAmount is in the token's smallest unit
+        const payload = isCoinType(token)
+          ? createStreamPayload(registryAddr, employeeAddress, totalAmount, durationSeconds, jobDescription)
+          : createStreamWithAssetPayload(
+              registryAddr,
+              employeeAddress,
+              token.assetType,
+              totalAmount,
+              durationSeconds,
+              jobDescription
+            );
         const response = await signAndSubmitTransaction(payload);
         await aptos.waitForTransaction({ transactionHash: response.hash });
         return response.hash;
@@ -380,48 +471,53 @@ export const useWageStreamingEmployer = (registryAddr: string = DEFAULT_REGISTRY
     [signAndSubmitTransaction, address, registryAddr]
   );
 
-  const setDisputeStatus = useCallback(
-    async (streamId: number, disputeStatus: boolean) => {
-      if (!address) {
-        setError("Wallet not connected");
-        return null;
-      }
-
-      setLoading(true);
-      setError(null);
-
-      try {
-        const payload = setDisputeStatusPayload(registryAddr, streamId, disputeStatus);
-        const response = await signAndSubmitTransaction(payload);
-        await aptos.waitForTransaction({ transactionHash: response.hash });
-        return response.hash;
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to set dispute status");
-        return null;
-      } finally {
-        setLoading(false);
-      }
-    },
-    [signAndSubmitTransaction, address, registryAddr]
-  );
-
   return {
     createStream,
     pauseStream,
     resumeStream,
     terminateStream,
-    setDisputeStatus,
     loading,
     error,
   };
 };
 
+// Whether the account is too low on APT to pay for its own gas
+const needsGasSponsorship = async (address: string): Promise<boolean> => {
+  if (!SPONSOR_URL) return false;
+  try {
+    const balance = await aptos.getAccountAPTAmount({ accountAddress: address });
+    return BigInt(balance) < MIN_GAS_BALANCE;
+  } catch {
+    // Accounts that have never held APT may not exist on chain yet
+    return true;
+  }
+};
+
 // Hook for wage streaming operations (employee)
 export const useWageStreamingEmployee = (registryAddr: string = DEFAULT_REGISTRY) => {
-  const { signAndSubmitTransaction, address } = useAuth();
+  const { signAndSubmitTransaction, signTransaction, address } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Withdrawals go through the gas sponsor when the employee cannot cover gas themselves.
+  const submitWithdrawal = useCallback(
+    async (employee: string, payload: InputTransactionData): Promise<string> => {
+      let hash: string;
+      if (await needsGasSponsorship(employee)) {
+        const signer = createSponsoredSigner(employee, signTransaction);
+        const txn = await signer.submit(protocolSdk.getAptosClient(), payload.data as EntryFunctionPayload);
+        hash = txn.hash;
+      } else {
+        const response = await signAndSubmitTransaction(payload);
+        await aptos.waitForTransaction({ transactionHash: response.hash });
+        hash = response.hash;
+      }
+
+      return hash;
+    },
+    [signAndSubmitTransaction, signTransaction]
+  );
+
   const withdrawWages = useCallback(
     async (streamId: number) => {
       if (!address) {
@@ -434,9 +530,7 @@ export const useWageStreamingEmployee = (registryAddr: string = DEFAULT_REGISTRY
 
       try {
         const payload = withdrawWagesPayload(registryAddr, streamId);
-        const response = await signAndSubmitTransaction(payload);
-        await aptos.waitForTransaction({ transactionHash: response.hash });
-        return response.hash;
+        return await submitWithdrawal(address, payload);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to withdraw wages");
         return null;
@@ -444,7 +538,7 @@ export const useWageStreamingEmployee = (registryAddr: string = DEFAULT_REGISTRY
         setLoading(false);
       }
     },
-    [signAndSubmitTransaction, address, registryAddr]
+    [submitWithdrawal, address, registryAddr]
   );
 
   const withdrawAll = useCallback(
@@ -459,9 +553,7 @@ export const useWageStreamingEmployee = (registryAddr: string = DEFAULT_REGISTRY
 
       try {
         const payload = withdrawAllPayload(registryAddr);
-        const response = await signAndSubmitTransaction(payload);
-        await aptos.waitForTransaction({ transactionHash: response.hash });
-        return response.hash;
+        return await submitWithdrawal(address, payload);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to withdraw all wages");
         return null;
@@ -469,7 +561,7 @@ export const useWageStreamingEmployee = (registryAddr: string = DEFAULT_REGISTRY
         setLoading(false);
       }
     },
-    [signAndSubmitTransaction, address, registryAddr]
+    [submitWithdrawal, address, registryAddr]
   );
 
   return {
@@ -0,0 +1,18 @@
+"use client";
+
+import { useMemo } from "react";
+import { useAuth } from "@/contexts/AptosWalletContext";
+import { createWalletSigner, protocolSdk } from "@/lib/aptos/sdk";
+
+// Hook exposing the connected wallet as an SDK signer, so hooks can call
+// protocolSdk write methods directly: protocolSdk.withdrawWages(id, signer)
+export const useWalletSigner = () => {
+  const { signAndSubmitTransaction, address } = useAuth();
+
+  const signer = useMemo(
+    () => (address ? createWalletSigner(address, signAndSubmitTransaction) : null),
+    [address, signAndSubmitTransaction]
+  );
+
+  return { signer, sdk: protocolSdk };
+};
@@ -1,104 +1,44 @@
-import { aptos, MODULES, CONTRACT_ADDRESS } from "./config";
+import { aptos, PROTOCOL_MODULES, shouldLogError, parseAptosError } from "./config";
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+import {
+  DeductionContext,
+  ResourceNotFoundError,
+  executeView,
+  compliance,
+  toProtocolError,
+} from "@wage-protocol/sdk/protocol";
 
 // Types
-export interface DeductionInfo {
-  epfEmployee: bigint;
-  epfEmployer: bigint;
-  esiEmployee: bigint;
-  esiEmployer: bigint;
-  tds: bigint;
-  professionalTax: bigint;
-  netPayable: bigint;
-}
-
-export interface EmployeeComplianceStatus {
-  status: number;
-  epfMember: boolean;
-  esiEligible: boolean;
-  kycVerified: boolean;
-}
-
-export interface EmployerComplianceStatus {
-  status: number;
-  epfRegistered: boolean;
-  esiRegistered: boolean;
-  employeeCount: bigint;
-}
-
-export interface EmployerComplianceSummary {
-  totalEpf: bigint;
-  totalEsi: bigint;
-  totalTds: bigint;
-}
-
-export interface StatutoryRates {
-  epfEmployeeRate: bigint;
-  epfEmployerRate: bigint;
-  esiEmployeeRate: bigint;
-  esiEmployerRate: bigint;
-}
-
-export interface StreamComplianceInfo {
-  epfDeducted: bigint;
-  esiDeducted: bigint;
-  tdsDeducted: bigint;
-  ptDeducted: bigint;
-  netPayable: bigint;
-  isCompliant: boolean;
-}
-
-export interface CertificateVerification {
-  isValid: boolean;
-  issuedAt: number;
-  validUntil: number;
-}
+export type DeductionInfo = compliance.DeductionInfo;
+export type EmployeeComplianceProfile = compliance.EmployeeComplianceProfile;
+export type EmployeeComplianceStatus = compliance.EmployeeComplianceStatus;
+export type EmployerComplianceStatus = compliance.EmployerComplianceStatus;
+export type EmployerComplianceProfile = compliance.EmployerComplianceProfile;
+export type EmployerComplianceSummary = compliance.EmployerComplianceSummary;
+export type StatutoryRates = compliance.StatutoryRates;
+export type StatutoryRateSettings = compliance.StatutoryRateSettings;
+export type StreamComplianceInfo = compliance.StreamComplianceInfo;
+export type CertificateVerification = compliance.CertificateVerification;
 
 // Compliance Status Constants
-export const COMPLIANCE_STATUS = {
-  PENDING: 1,
-  VERIFIED: 2,
-  FLAGGED: 3,
-  EXEMPT: 4,
-} as const;
+export const COMPLIANCE_STATUS = compliance.COMPLIANCE_STATUS;
 
 // ============ VIEW FUNCTIONS ============
 
 /**
- * Calculate deductions for a given wage amount
+ * Calculate employee deductions for a gross wage
  */
 export const calculateDeductions = async (
   registryAddr: string,
-  grossWage: bigint,
-  employeeAddr: string
+  employerAddr: string,
+  employeeAddr: string,
+  grossWage: bigint
 ): Promise<DeductionInfo | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.COMPLIANCE}::calculate_deductions`,
-        functionArguments: [registryAddr, grossWage.toString(), employeeAddr],
-      },
-    });
-
-    const [epfEmployee, epfEmployer, esiEmployee, esiEmployer, tds, professionalTax, netPayable] = result as [
-      string,
-      string,
-      string,
-      string,
-      string,
-      string,
-      string
-    ];
-
-    return {
-      epfEmployee: BigInt(epfEmployee),
-      epfEmployer: BigInt(epfEmployer),
-      esiEmployee: BigInt(esiEmployee),
-      esiEmployer: BigInt(esiEmployer),
-      tds: BigInt(tds),
-      professionalTax: BigInt(professionalTax),
-      netPayable: BigInt(netPayable),
-    };
+    return await executeView(
+      aptos,
+      compliance.calculateDeductionsView(PROTOCOL_MODULES, registryAddr, employerAddr, employeeAddr, grossWage)
+    );
   } catch (error) {
     console.error("Error calculating deductions:", error);
     return null;
@@ -108,30 +48,9 @@ export const calculateDeductions = async (
 /**
  * Get employee compliance status
  */
-export const getEmployeeStatus = async (
-  employeeAddr: string
-): Promise<EmployeeComplianceStatus | null> => {
+export const getEmployeeStatus = async (employeeAddr: string): Promise<EmployeeComplianceStatus | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.COMPLIANCE}::get_employee_status`,
-        functionArguments: [employeeAddr],
-      },
-    });
-
-    const [status, epfMember, esiEligible, kycVerified] = result as [
-      number,
-      boolean,
-      boolean,
-      boolean
-    ];
-
-    return {
-      status,
-      epfMember,
-      esiEligible,
-      kycVerified,
-    };
+    return await executeView(aptos, compliance.getEmployeeStatusView(PROTOCOL_MODULES, employeeAddr));
   } catch (error) {
     console.error("Error fetching employee status:", error);
     return null;
@@ -141,24 +60,9 @@ export const getEmployeeStatus = async (
 /**
  * Get employer compliance summary
  */
-export const getEmployerComplianceSummary = async (
-  employerAddr: string
-): Promise<EmployerComplianceSummary | null> => {
+export const getEmployerComplianceSummary = async (employerAddr: string): Promise<EmployerComplianceSummary | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.COMPLIANCE}::get_employer_compliance_summary`,
-        functionArguments: [employerAddr],
-      },
-    });
-
-    const [totalEpf, totalEsi, totalTds] = result as [string, string, string];
-
-    return {
-      totalEpf: BigInt(totalEpf),
-      totalEsi: BigInt(totalEsi),
-      totalTds: BigInt(totalTds),
-    };
+    return await executeView(aptos, compliance.getEmployerComplianceSummaryView(PROTOCOL_MODULES, employerAddr));
   } catch (error) {
     console.error("Error fetching employer compliance summary:", error);
     return null;
@@ -168,30 +72,9 @@ export const getEmployerComplianceSummary = async (
 /**
  * Get employer compliance status
  */
-export const getEmployerStatus = async (
-  employerAddr: string
-): Promise<EmployerComplianceStatus | null> => {
+export const getEmployerStatus = async (employerAddr: string): Promise<EmployerComplianceStatus | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.COMPLIANCE}::get_employer_status`,
-        functionArguments: [employerAddr],
-      },
-    });
-
-    const [status, epfRegistered, esiRegistered, employeeCount] = result as [
-      number,
-      boolean,
-      boolean,
-      string
-    ];
-
-    return {
-      status,
-      epfRegistered,
-      esiRegistered,
-      employeeCount: BigInt(employeeCount),
-    };
+    return await executeView(aptos, compliance.getEmployerStatusView(PROTOCOL_MODULES, employerAddr));
   } catch (error) {
     console.error("Error fetching employer status:", error);
     return null;
@@ -201,58 +84,116 @@ export const getEmployerStatus = async (
 /**
  * Get current statutory rates
  */
-export const getStatutoryRates = async (
-  registryAddr: string
-): Promise<StatutoryRates | null> => {
+export const getStatutoryRates = async (registryAddr: string): Promise<StatutoryRates | null> => {
+  try {
+    return await executeView(aptos, compliance.getStatutoryRatesView(PROTOCOL_MODULES, registryAddr));
+  } catch (error) {
+    console.error("Error fetching statutory rates:", error);
+    return null;
+  }
+};
+
+/**
+ * Get an employee's compliance profile (tax regime, declared income); null if
+ * they aren't registered
+ */
+export const getEmployeeCompliance = async (employeeAddr: string): Promise<EmployeeComplianceProfile | null> => {
+  try {
+    const resource = await aptos.getAccountResource<compliance.EmployeeComplianceResource>({
+      accountAddress: employeeAddr,
+      resourceType: `${PROTOCOL_MODULES.compliance}::EmployeeCompliance`,
+    });
+    return compliance.parseEmployeeComplianceResource(resource);
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error fetching employee compliance:", parseAptosError(error).message);
+    }
+    return null;
+  }
+};
+
+/**
+ * Get an employer's compliance profile (state, EPF and ESI registration); null
+ * if they aren't registered
+ */
+export const getEmployerCompliance = async (employerAddr: string): Promise<EmployerComplianceProfile | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.COMPLIANCE}::get_statutory_rates`,
-        functionArguments: [registryAddr],
-      },
+    const resource = await aptos.getAccountResource<compliance.EmployerComplianceResource>({
+      accountAddress: employerAddr,
+      resourceType: `${PROTOCOL_MODULES.compliance}::EmployerCompliance`,
     });
+    return compliance.parseEmployerComplianceResource(resource);
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error fetching employer compliance:", parseAptosError(error).message);
+    }
+    return null;
+  }
+};
 
-    const [epfEmployeeRate, epfEmployerRate, esiEmployeeRate, esiEmployerRate] =
-      result as [string, string, string, string];
+/**
+ * Get the statutory rates with the EPF and ESI wage ceilings
+ */
+export const getStatutoryRateSettings = async (registryAddr: string): Promise<StatutoryRateSettings | null> => {
+  try {
+    const resource = await aptos.getAccountResource<compliance.StatutoryRatesResource>({
+      accountAddress: registryAddr,
+      resourceType: `${PROTOCOL_MODULES.compliance}::StatutoryRates`,
+    });
+    return compliance.parseStatutoryRatesResource(resource);
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error fetching statutory rate settings:", parseAptosError(error).message);
+    }
+    return null;
+  }
+};
+
+/**
+ * Get what `calculate_deductions` reads for an employer and employee (rates with
+ * their wage ceilings, both compliance profiles), to compute deductions offline
+ * with `computeDeductions`; null if it couldn't be read
+ */
+export const getDeductionContext = async (
+  registryAddr: string,
+  employerAddr: string,
+  employeeAddr: string
+): Promise<DeductionContext | null> => {
+  const resource = <T extends object>(accountAddress: string, name: string) =>
+    aptos.getAccountResource<T>({ accountAddress, resourceType: `${PROTOCOL_MODULES.compliance}::${name}` });
+  const unregistered = (error: unknown) => {
+    if (toProtocolError(error) instanceof ResourceNotFoundError) return null;
+    throw error;
+  };
 
+  try {
+    const [rates, employer, employee] = await Promise.all([
+      resource<compliance.StatutoryRatesResource>(registryAddr, "StatutoryRates"),
+      resource<compliance.EmployerComplianceResource>(employerAddr, "EmployerCompliance").catch(unregistered),
+      resource<compliance.EmployeeComplianceResource>(employeeAddr, "EmployeeCompliance").catch(unregistered),
+    ]);
     return {
-      epfEmployeeRate: BigInt(epfEmployeeRate),
-      epfEmployerRate: BigInt(epfEmployerRate),
-      esiEmployeeRate: BigInt(esiEmployeeRate),
-      esiEmployerRate: BigInt(esiEmployerRate),
+      rates: compliance.parseStatutoryRatesResource(rates),
+      employer: employer && compliance.parseEmployerComplianceResource(employer),
+      employee: employee && compliance.parseEmployeeComplianceResource(employee),
     };
   } catch (error) {
-    console.error("Error fetching statutory rates:", error);
+    console.error("Error fetching deduction context:", error);
     return null;
   }
 };
 
 /**
- * Get stream compliance details
+ * Get stream compliance details; null if the stream has no compliance record
  */
 export const getStreamCompliance = async (
   registryAddr: string,
   streamId: number
 ): Promise<StreamComplianceInfo | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.COMPLIANCE}::get_stream_compliance`,
-        functionArguments: [registryAddr, streamId],
-      },
-    });
-
-    const [epfDeducted, esiDeducted, tdsDeducted, ptDeducted, netPayable, isCompliant] =
-      result as [string, string, string, string, string, boolean];
-
-    return {
-      epfDeducted: BigInt(epfDeducted),
-      esiDeducted: BigInt(esiDeducted),
-      tdsDeducted: BigInt(tdsDeducted),
-      ptDeducted: BigInt(ptDeducted),
-      netPayable: BigInt(netPayable),
-      isCompliant,
-    };
+    const info = await executeView(aptos, compliance.getStreamComplianceView(PROTOCOL_MODULES, registryAddr, streamId));
+    // The view returns zeros for streams without a record
+    return compliance.streamComplianceWages(info) > BigInt(0) ? info : null;
   } catch (error) {
     console.error("Error fetching stream compliance:", error);
     return null;
@@ -262,17 +203,9 @@ export const getStreamCompliance = async (
 /**
  * Check if employee is registered for compliance
  */
-export const isEmployeeRegistered = async (
-  employeeAddr: string
-): Promise<boolean> => {
+export const isEmployeeRegistered = async (employeeAddr: string): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.COMPLIANCE}::is_employee_registered`,
-        functionArguments: [employeeAddr],
-      },
-    });
-    return result[0] as boolean;
+    return await executeView(aptos, compliance.isEmployeeRegisteredView(PROTOCOL_MODULES, employeeAddr));
   } catch (error) {
     console.error("Error checking employee registration:", error);
     return false;
@@ -282,17 +215,9 @@ export const isEmployeeRegistered = async (
 /**
  * Check if employer is registered for compliance
  */
-export const isEmployerRegistered = async (
-  employerAddr: string
-): Promise<boolean> => {
+export const isEmployerRegistered = async (employerAddr: string): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.COMPLIANCE}::is_employer_registered`,
-        functionArguments: [employerAddr],
-      },
-    });
-    return result[0] as boolean;
+    return await executeView(aptos, compliance.isEmployerRegisteredView(PROTOCOL_MODULES, employerAddr));
   } catch (error) {
     console.error("Error checking employer registration:", error);
     return false;
@@ -307,20 +232,7 @@ export const verifyCertificate = async (
   certificateId: number
 ): Promise<CertificateVerification | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.COMPLIANCE}::verify_certificate`,
-        functionArguments: [registryAddr, certificateId],
-      },
-    });
-
-    const [isValid, issuedAt, validUntil] = result as [boolean, string, string];
-
-    return {
-      isValid,
-      issuedAt: Number(issuedAt),
-      validUntil: Number(validUntil),
-    };
+    return await executeView(aptos, compliance.verifyCertificateView(PROTOCOL_MODULES, registryAddr, certificateId));
   } catch (error) {
     console.error("Error verifying certificate:", error);
     return null;
@@ -343,24 +255,23 @@ export const registerEmployerPayload = (
   esiRegistered: boolean
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.COMPLIANCE}::register_employer`,
-      functionArguments: [
-        registryAddr,
-        Array.from(panHash),
-        Array.from(gstinHash),
-        Array.from(epfCodeHash),
-        Array.from(esiCodeHash),
-        stateCode,
-        epfRegistered,
-        esiRegistered,
-      ],
-    },
+    data: compliance.registerEmployerPayload(
+      PROTOCOL_MODULES,
+      registryAddr,
+      panHash,
+      gstinHash,
+      epfCodeHash,
+      esiCodeHash,
+      stateCode,
+      epfRegistered,
+      esiRegistered
+    ),
   };
 };
 
 /**
  * Register employee for compliance
+ * ESI eligibility is derived on-chain from the declared income
  */
 export const registerEmployeePayload = (
   registryAddr: string,
@@ -370,24 +281,20 @@ export const registerEmployeePayload = (
   bankAccountHash: Uint8Array,
   taxRegime: number,
   declaredAnnualIncome: bigint,
-  epfMember: boolean,
-  esiEligible: boolean
+  epfMember: boolean
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.COMPLIANCE}::register_employee`,
-      functionArguments: [
-        registryAddr,
-        Array.from(panHash),
-        Array.from(aadhaarHash),
-        Array.from(uanHash),
-        Array.from(bankAccountHash),
-        taxRegime,
-        declaredAnnualIncome.toString(),
-        epfMember,
-        esiEligible,
-      ],
-    },
+    data: compliance.registerEmployeePayload(
+      PROTOCOL_MODULES,
+      registryAddr,
+      panHash,
+      aadhaarHash,
+      uanHash,
+      bankAccountHash,
+      taxRegime,
+      declaredAnnualIncome,
+      epfMember
+    ),
   };
 };
 
@@ -402,15 +309,13 @@ export const recordStreamCompliancePayload = (
   totalWages: bigint
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.COMPLIANCE}::record_stream_compliance`,
-      functionArguments: [
-        registryAddr,
-        streamId,
-        employerAddr,
-        employeeAddr,
-        totalWages.toString(),
-      ],
-    },
+    data: compliance.verifyStreamCompliancePayload(
+      PROTOCOL_MODULES,
+      registryAddr,
+      streamId,
+      employerAddr,
+      employeeAddr,
+      totalWages
+    ),
   };
 };
@@ -1,60 +1,20 @@
-import { aptos, MODULES, CONTRACT_ADDRESS } from "./config";
+import { aptos, PROTOCOL_MODULES } from "./config";
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+import { executeView, disputes } from "@wage-protocol/sdk/protocol";
 
 // Types
-export interface DisputeInfo {
-  disputeId: bigint;
-  employer: string;
-  employee: string;
-  category: number;
-  status: number;
-  disputedAmount: bigint;
-  escrowAmount: bigint;
-  resolvedAt: number;
-  arbitrator: string;
-}
-
-export interface ResolutionInfo {
-  outcome: number;
-  awardedToEmployee: bigint;
-  returnedToEmployer: bigint;
-  arbitrator: string;
-  resolvedAt: number;
-}
-
-export interface DisputeStats {
-  totalDisputes: bigint;
-  openDisputes: bigint;
-  totalDisputedAmount: bigint;
-  totalResolvedAmount: bigint;
-}
+export type DisputeInfo = disputes.DisputeInfo;
+export type ResolutionInfo = disputes.ResolutionInfo;
+export type DisputeStats = disputes.DisputeStats;
 
 // Dispute Category Constants
-export const DISPUTE_CATEGORY = {
-  WAGE_AMOUNT: 0,
-  PAYMENT_TIMING: 1,
-  DEDUCTIONS: 2,
-  OVERTIME: 3,
-  BONUS: 4,
-  TERMINATION: 5,
-  OTHER: 6,
-} as const;
+export const DISPUTE_CATEGORY = disputes.DISPUTE_CATEGORY;
 
 // Resolution Outcome Constants
-export const RESOLUTION_OUTCOME = {
-  EMPLOYER_FAVOR: 0,
-  EMPLOYEE_FAVOR: 1,
-  SPLIT_DECISION: 2,
-  DISMISSED: 3,
-} as const;
+export const RESOLUTION_OUTCOME = disputes.RESOLUTION_OUTCOME;
 
 // Evidence Type Constants
-export const EVIDENCE_TYPE = {
-  DOCUMENT: 0,
-  TRANSACTION_HASH: 1,
-  WITNESS_STATEMENT: 2,
-  AUDIT_TRAIL: 3,
-} as const;
+export const EVIDENCE_TYPE = disputes.EVIDENCE_TYPE;
 
 // ============ VIEW FUNCTIONS ============
 
@@ -66,13 +26,7 @@ export const disputeExists = async (
   disputeId: number
 ): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.DISPUTES}::dispute_exists`,
-        functionArguments: [registryAddr, disputeId],
-      },
-    });
-    return result[0] as boolean;
+    return await executeView(aptos, disputes.disputeExistsView(PROTOCOL_MODULES, registryAddr, disputeId));
   } catch (error) {
     console.error("Error checking dispute existence:", error);
     return false;
@@ -86,13 +40,7 @@ export const getActiveArbitratorsCount = async (
   registryAddr: string
 ): Promise<bigint> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.DISPUTES}::get_active_arbitrators_count`,
-        functionArguments: [registryAddr],
-      },
-    });
-    return BigInt(result[0] as string);
+    return await executeView(aptos, disputes.getActiveArbitratorsCountView(PROTOCOL_MODULES, registryAddr));
   } catch (error) {
     console.error("Error fetching active arbitrators count:", error);
     return BigInt(0);
@@ -107,46 +55,7 @@ export const getDispute = async (
   disputeId: number
 ): Promise<DisputeInfo | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.DISPUTES}::get_dispute`,
-        functionArguments: [registryAddr, disputeId],
-      },
-    });
-
-    const [
-      id,
-      employer,
-      employee,
-      category,
-      status,
-      disputedAmount,
-      escrowAmount,
-      resolvedAt,
-      arbitrator,
-    ] = result as [
-      string,
-      string,
-      string,
-      number,
-      number,
-      string,
-      string,
-      string,
-      string
-    ];
-
-    return {
-      disputeId: BigInt(id),
-      employer,
-      employee,
-      category,
-      status,
-      disputedAmount: BigInt(disputedAmount),
-      escrowAmount: BigInt(escrowAmount),
-      resolvedAt: Number(resolvedAt),
-      arbitrator,
-    };
+    return await executeView(aptos, disputes.getDisputeView(PROTOCOL_MODULES, registryAddr, disputeId));
   } catch (error) {
     console.error("Error fetching dispute:", error);
     return null;
@@ -160,22 +69,7 @@ export const getDisputeStats = async (
   registryAddr: string
 ): Promise<DisputeStats | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.DISPUTES}::get_dispute_stats`,
-        functionArguments: [registryAddr],
-      },
-    });
-
-    const [totalDisputes, openDisputes, totalDisputedAmount, totalResolvedAmount] =
-      result as [string, string, string, string];
-
-    return {
-      totalDisputes: BigInt(totalDisputes),
-      openDisputes: BigInt(openDisputes),
-      totalDisputedAmount: BigInt(totalDisputedAmount),
-      totalResolvedAmount: BigInt(totalResolvedAmount),
-    };
+    return await executeView(aptos, disputes.getDisputeStatsView(PROTOCOL_MODULES, registryAddr));
   } catch (error) {
     console.error("Error fetching dispute stats:", error);
     return null;
@@ -190,13 +84,7 @@ export const getEvidenceCount = async (
   disputeId: number
 ): Promise<bigint> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.DISPUTES}::get_evidence_count`,
-        functionArguments: [registryAddr, disputeId],
-      },
-    });
-    return BigInt(result[0] as string);
+    return await executeView(aptos, disputes.getEvidenceCountView(PROTOCOL_MODULES, registryAddr, disputeId));
   } catch (error) {
     console.error("Error fetching evidence count:", error);
     return BigInt(0);
@@ -211,23 +99,7 @@ export const getResolution = async (
   disputeId: number
 ): Promise<ResolutionInfo | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.DISPUTES}::get_resolution`,
-        functionArguments: [registryAddr, disputeId],
-      },
-    });
-
-    const [outcome, awardedToEmployee, returnedToEmployer, arbitrator, resolvedAt] =
-      result as [number, string, string, string, string];
-
-    return {
-      outcome,
-      awardedToEmployee: BigInt(awardedToEmployee),
-      returnedToEmployer: BigInt(returnedToEmployer),
-      arbitrator,
-      resolvedAt: Number(resolvedAt),
-    };
+    return await executeView(aptos, disputes.getResolutionView(PROTOCOL_MODULES, registryAddr, disputeId));
   } catch (error) {
     console.error("Error fetching resolution:", error);
     return null;
@@ -251,20 +123,18 @@ export const openDisputePayload = (
   description: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.DISPUTES}::open_dispute`,
-      functionArguments: [
-        registryAddr,
-        streamId,
-        respondent,
-        employer,
-        employee,
-        category,
-        disputedAmount.toString(),
-        title,
-        description,
-      ],
-    },
+    data: disputes.openDisputePayload(
+      PROTOCOL_MODULES,
+      registryAddr,
+      streamId,
+      respondent,
+      employer,
+      employee,
+      category,
+      disputedAmount,
+      title,
+      description
+    ),
   };
 };
 
@@ -279,16 +149,14 @@ export const submitEvidencePayload = (
   description: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.DISPUTES}::submit_evidence`,
-      functionArguments: [
-        registryAddr,
-        disputeId,
-        evidenceType,
-        contentHash,
-        description,
-      ],
-    },
+    data: disputes.submitEvidencePayload(
+      PROTOCOL_MODULES,
+      registryAddr,
+      disputeId,
+      evidenceType,
+      contentHash,
+      description
+    ),
   };
 };
 
@@ -300,10 +168,7 @@ export const escalateToArbitrationPayload = (
   disputeId: number
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.DISPUTES}::escalate_to_arbitration`,
-      functionArguments: [registryAddr, disputeId],
-    },
+    data: disputes.requestArbitrationPayload(PROTOCOL_MODULES, registryAddr, disputeId),
   };
 };
 
@@ -315,10 +180,7 @@ export const cancelDisputePayload = (
   disputeId: number
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.DISPUTES}::cancel_dispute`,
-      functionArguments: [registryAddr, disputeId],
-    },
+    data: disputes.cancelDisputePayload(PROTOCOL_MODULES, registryAddr, disputeId),
   };
 };
 
@@ -334,17 +196,15 @@ export const resolveDisputePayload = (
   resolutionHash: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.DISPUTES}::resolve_dispute`,
-      functionArguments: [
-        registryAddr,
-        disputeId,
-        outcome,
-        awardToEmployee.toString(),
-        returnToEmployer.toString(),
-        resolutionHash,
-      ],
-    },
+    data: disputes.resolveDisputePayload(
+      PROTOCOL_MODULES,
+      registryAddr,
+      disputeId,
+      outcome,
+      awardToEmployee,
+      returnToEmployer,
+      resolutionHash
+    ),
   };
 };
 
@@ -357,9 +217,6 @@ export const fileAppealPayload = (
   reason: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.DISPUTES}::file_appeal`,
-      functionArguments: [registryAddr, disputeId, reason],
-    },
+    data: disputes.fileAppealPayload(PROTOCOL_MODULES, registryAddr, disputeId, reason),
   };
 };
@@ -1,39 +1,18 @@
-import { aptos, MODULES, CONTRACT_ADDRESS } from "./config";
+import { aptos, PROTOCOL_MODULES } from "./config";
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+import { executeView, emergency } from "@wage-protocol/sdk/protocol";
 
 // Types
-export interface SystemState {
-  currentState: number;
-  stateChangedAt: number;
-  stateChangedBy: string;
-  pauseExpiresAt: number;
-}
+export type SystemState = emergency.SystemState;
 
 // System State Constants
-export const SYSTEM_STATE = {
-  NORMAL: 0,
-  PAUSED: 1,
-  EMERGENCY: 2,
-  MAINTENANCE: 3,
-  DEPRECATED: 4,
-} as const;
+export const SYSTEM_STATE = emergency.SYSTEM_STATE;
 
 // Role Constants
-export const ROLE = {
-  SUPER_ADMIN: 0,
-  ADMIN: 1,
-  OPERATOR: 2,
-  PAUSER: 3,
-  UPGRADER: 4,
-} as const;
+export const ROLE = emergency.ROLE;
 
 // Module Index Constants
-export const MODULE_INDEX = {
-  WAGE_STREAMING: 0,
-  TREASURY: 1,
-  COMPLIANCE: 2,
-  DISPUTES: 3,
-} as const;
+export const MODULE_INDEX = emergency.MODULE_INDEX;
 
 // ============ VIEW FUNCTIONS ============
 
@@ -42,13 +21,7 @@ export const MODULE_INDEX = {
  */
 export const getAdminCount = async (registryAddr: string): Promise<bigint> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMERGENCY}::get_admin_count`,
-        functionArguments: [registryAddr],
-      },
-    });
-    return BigInt(result[0] as string);
+    return await executeView(aptos, emergency.getAdminCountView(PROTOCOL_MODULES, registryAddr));
   } catch (error) {
     console.error("Error fetching admin count:", error);
     return BigInt(0);
@@ -62,22 +35,7 @@ export const getSystemState = async (
   registryAddr: string
 ): Promise<SystemState | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMERGENCY}::get_system_state`,
-        functionArguments: [registryAddr],
-      },
-    });
-
-    const [currentState, stateChangedAt, stateChangedBy, pauseExpiresAt] =
-      result as [number, string, string, string];
-
-    return {
-      currentState,
-      stateChangedAt: Number(stateChangedAt),
-      stateChangedBy,
-      pauseExpiresAt: Number(pauseExpiresAt),
-    };
+    return await executeView(aptos, emergency.getSystemStateView(PROTOCOL_MODULES, registryAddr));
   } catch (error) {
     console.error("Error fetching system state:", error);
     return null;
@@ -93,13 +51,7 @@ export const hasRole = async (
   role: number
 ): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMERGENCY}::has_role`,
-        functionArguments: [registryAddr, holder, role],
-      },
-    });
-    return result[0] as boolean;
+    return await executeView(aptos, emergency.hasRoleView(PROTOCOL_MODULES, registryAddr, holder, role));
   } catch (error) {
     console.error("Error checking role:", error);
     return false;
@@ -114,13 +66,7 @@ export const isModulePaused = async (
   moduleIndex: number
 ): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMERGENCY}::is_module_paused`,
-        functionArguments: [registryAddr, moduleIndex],
-      },
-    });
-    return result[0] as boolean;
+    return await executeView(aptos, emergency.isModulePausedView(PROTOCOL_MODULES, registryAddr, moduleIndex));
   } catch (error) {
     console.error("Error checking module pause status:", error);
     return false;
@@ -132,13 +78,7 @@ export const isModulePaused = async (
  */
 export const isSystemPaused = async (registryAddr: string): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMERGENCY}::is_system_paused`,
-        functionArguments: [registryAddr],
-      },
-    });
-    return result[0] as boolean;
+    return await executeView(aptos, emergency.isSystemPausedView(PROTOCOL_MODULES, registryAddr));
   } catch (error) {
     console.error("Error checking system pause status:", error);
     return false;
@@ -150,13 +90,7 @@ export const isSystemPaused = async (registryAddr: string): Promise<boolean> =>
  */
 export const isUpgradePending = async (registryAddr: string): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMERGENCY}::is_upgrade_pending`,
-        functionArguments: [registryAddr],
-      },
-    });
-    return result[0] as boolean;
+    return await executeView(aptos, emergency.isUpgradePendingView(PROTOCOL_MODULES, registryAddr));
   } catch (error) {
     console.error("Error checking upgrade pending status:", error);
     return false;
@@ -174,10 +108,7 @@ export const pauseSystemPayload = (
   durationSeconds: number
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMERGENCY}::pause_system`,
-      functionArguments: [registryAddr, reason, durationSeconds],
-    },
+    data: emergency.pauseSystemPayload(PROTOCOL_MODULES, registryAddr, reason, durationSeconds),
   };
 };
 
@@ -188,10 +119,7 @@ export const unpauseSystemPayload = (
   registryAddr: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMERGENCY}::unpause_system`,
-      functionArguments: [registryAddr],
-    },
+    data: emergency.unpauseSystemPayload(PROTOCOL_MODULES, registryAddr),
   };
 };
 
@@ -203,10 +131,7 @@ export const triggerEmergencyPayload = (
   reason: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMERGENCY}::trigger_emergency`,
-      functionArguments: [registryAddr, reason],
-    },
+    data: emergency.triggerEmergencyPayload(PROTOCOL_MODULES, registryAddr, reason),
   };
 };
 
@@ -219,10 +144,7 @@ export const pauseModulePayload = (
   reason: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMERGENCY}::pause_module`,
-      functionArguments: [registryAddr, moduleIndex, reason],
-    },
+    data: emergency.pauseModulePayload(PROTOCOL_MODULES, registryAddr, moduleIndex, reason),
   };
 };
 
@@ -234,10 +156,7 @@ export const unpauseModulePayload = (
   moduleIndex: number
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMERGENCY}::unpause_module`,
-      functionArguments: [registryAddr, moduleIndex],
-    },
+    data: emergency.unpauseModulePayload(PROTOCOL_MODULES, registryAddr, moduleIndex),
   };
 };
 
@@ -251,10 +170,7 @@ export const grantRolePayload = (
   expiresAt: number
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMERGENCY}::grant_role`,
-      functionArguments: [registryAddr, holder, role, expiresAt],
-    },
+    data: emergency.grantRolePayload(PROTOCOL_MODULES, registryAddr, holder, role, expiresAt),
   };
 };
 
@@ -267,10 +183,7 @@ export const revokeRolePayload = (
   role: number
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMERGENCY}::revoke_role`,
-      functionArguments: [registryAddr, holder, role],
-    },
+    data: emergency.revokeRolePayload(PROTOCOL_MODULES, registryAddr, holder, role),
   };
 };
 
@@ -283,10 +196,7 @@ export const proposeUpgradePayload = (
   description: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMERGENCY}::propose_upgrade`,
-      functionArguments: [registryAddr, newVersionHash, description],
-    },
+    data: emergency.proposeUpgradePayload(PROTOCOL_MODULES, registryAddr, newVersionHash, description),
   };
 };
 
@@ -297,9 +207,6 @@ export const cancelUpgradePayload = (
   registryAddr: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMERGENCY}::cancel_upgrade`,
-      functionArguments: [registryAddr],
-    },
+    data: emergency.cancelUpgradePayload(PROTOCOL_MODULES, registryAddr),
   };
 };
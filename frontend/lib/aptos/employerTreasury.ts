@@ -1,8 +1,6 @@
-import { aptos, MODULES, CONTRACT_ADDRESS, shouldLogError, parseAptosError } from "./config";
+import { aptos, PROTOCOL_MODULES, DEFAULT_MAX_GAS, shouldLogError, parseAptosError } from "./config";
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
-
-// Default gas settings for transactions
-const DEFAULT_MAX_GAS = 200000;
+import { executeView, employerTreasury } from "@wage-protocol/sdk/protocol";
 
 // Types
 export interface TreasuryInfo {
@@ -14,37 +12,11 @@ export interface TreasuryInfo {
   isInitialized: boolean;
 }
 
-export interface TreasuryBalance {
-  totalBalance: bigint;
-  allocatedBalance: bigint;
-  availableBalance: bigint;
-  reserveBalance: bigint;
-}
-
-export interface TreasuryStatus {
-  status: number;
-  isFrozen: boolean;
-  activeStreamCount: bigint;
-}
-
-export interface TreasuryAnalytics {
-  totalDeposits: bigint;
-  totalWithdrawals: bigint;
-  totalDisbursements: bigint;
-  peakBalance: bigint;
-}
-
-export interface TreasuryAllocation {
-  amount: bigint;
-  disbursed: bigint;
-  isActive: boolean;
-}
-
-export interface TreasuryRegistryStats {
-  totalTreasuries: bigint;
-  totalValue: bigint;
-  totalAllocated: bigint;
-}
+export type TreasuryBalance = employerTreasury.TreasuryBalance;
+export type TreasuryStatus = employerTreasury.TreasuryStatus;
+export type TreasuryAnalytics = employerTreasury.TreasuryAnalytics;
+export type TreasuryAllocation = employerTreasury.TreasuryAllocation;
+export type TreasuryRegistryStats = employerTreasury.TreasuryRegistryStats;
 
 export interface TreasuryStats {
   activeStreams: number;
@@ -53,12 +25,7 @@ export interface TreasuryStats {
 }
 
 // Treasury Status Constants
-export const TREASURY_STATUS = {
-  HEALTHY: 1,
-  WARNING: 2,
-  CRITICAL: 3,
-  FROZEN: 4,
-} as const;
+export const TREASURY_STATUS = employerTreasury.TREASURY_STATUS;
 
 // ============ VIEW FUNCTIONS ============
 
@@ -67,13 +34,7 @@ export const TREASURY_STATUS = {
  */
 export const treasuryExists = async (employerAddr: string): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMPLOYER_TREASURY}::treasury_exists`,
-        functionArguments: [employerAddr],
-      },
-    });
-    return result[0] as boolean;
+    return await executeView(aptos, employerTreasury.treasuryExistsView(PROTOCOL_MODULES, employerAddr));
   } catch (error) {
     console.error("Error checking treasury existence:", error);
     return false;
@@ -82,19 +43,16 @@ export const treasuryExists = async (employerAddr: string): Promise<boolean> =>
 
 /**
  * Check if the treasury registry is initialized at a given address
+ * The registry stats view aborts when no registry is published there
  */
 export const registryExists = async (registryAddr: string): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMPLOYER_TREASURY}::registry_exists`,
-        functionArguments: [registryAddr],
-      },
-    });
-    return result[0] as boolean;
+    await executeView(aptos, employerTreasury.getRegistryStatsView(PROTOCOL_MODULES, registryAddr));
+    return true;
   } catch (error) {
-    // If the view function doesn't exist, try checking if the resource exists
-    console.error("Error checking registry existence:", error);
+    if (shouldLogError(error)) {
+      console.error("Error checking registry existence:", parseAptosError(error).message);
+    }
     return false;
   }
 };
@@ -105,21 +63,7 @@ export const registryExists = async (registryAddr: string): Promise<boolean> =>
  */
 export const getTreasuryBalance = async (employerAddr: string): Promise<TreasuryBalance | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMPLOYER_TREASURY}::get_treasury_balance`,
-        functionArguments: [employerAddr],
-      },
-    });
-    
-    const [totalBalance, allocatedBalance, availableBalance, reserveBalance] = result as [string, string, string, string];
-    
-    return {
-      totalBalance: BigInt(totalBalance),
-      allocatedBalance: BigInt(allocatedBalance),
-      availableBalance: BigInt(availableBalance),
-      reserveBalance: BigInt(reserveBalance),
-    };
+    return await executeView(aptos, employerTreasury.getTreasuryBalanceView(PROTOCOL_MODULES, employerAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching treasury balance:", parseAptosError(error).message);
@@ -128,26 +72,45 @@ export const getTreasuryBalance = async (employerAddr: string): Promise<Treasury
   }
 };
 
+/**
+ * Get the fungible assets an employer has deposited into the asset treasury
+ */
+export const getTreasuryAssets = async (employerAddr: string): Promise<string[]> => {
+  try {
+    return await executeView(aptos, employerTreasury.getTreasuryAssetsView(PROTOCOL_MODULES, employerAddr));
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error fetching treasury assets:", parseAptosError(error).message);
+    }
+    return [];
+  }
+};
+
+/**
+ * Get treasury balance details for one fungible asset
+ * Returns null if the view fails
+ */
+export const getTreasuryAssetBalance = async (
+  employerAddr: string,
+  asset: string
+): Promise<TreasuryBalance | null> => {
+  try {
+    return await executeView(aptos, employerTreasury.getAssetBalanceView(PROTOCOL_MODULES, employerAddr, asset));
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error fetching treasury asset balance:", parseAptosError(error).message);
+    }
+    return null;
+  }
+};
+
 /**
  * Get treasury status
  * Returns null if the treasury hasn't been initialized yet
  */
 export const getTreasuryStatus = async (employerAddr: string): Promise<TreasuryStatus | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMPLOYER_TREASURY}::get_treasury_status`,
-        functionArguments: [employerAddr],
-      },
-    });
-    
-    const [status, isFrozen, activeStreamCount] = result as [number, boolean, string];
-    
-    return {
-      status,
-      isFrozen,
-      activeStreamCount: BigInt(activeStreamCount),
-    };
+    return await executeView(aptos, employerTreasury.getTreasuryStatusView(PROTOCOL_MODULES, employerAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching treasury status:", parseAptosError(error).message);
@@ -162,13 +125,7 @@ export const getTreasuryStatus = async (employerAddr: string): Promise<TreasuryS
  */
 export const getTreasuryHealth = async (employerAddr: string): Promise<bigint> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMPLOYER_TREASURY}::get_treasury_health`,
-        functionArguments: [employerAddr],
-      },
-    });
-    return BigInt(result[0] as string);
+    return await executeView(aptos, employerTreasury.getTreasuryHealthView(PROTOCOL_MODULES, employerAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching treasury health:", parseAptosError(error).message);
@@ -186,20 +143,7 @@ export const getAllocation = async (
   streamId: number
 ): Promise<TreasuryAllocation | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMPLOYER_TREASURY}::get_allocation`,
-        functionArguments: [employerAddr, streamId],
-      },
-    });
-    
-    const [amount, disbursed, isActive] = result as [string, string, boolean];
-    
-    return {
-      amount: BigInt(amount),
-      disbursed: BigInt(disbursed),
-      isActive,
-    };
+    return await executeView(aptos, employerTreasury.getAllocationView(PROTOCOL_MODULES, employerAddr, streamId));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching allocation:", parseAptosError(error).message);
@@ -213,21 +157,7 @@ export const getAllocation = async (
  */
 export const getTreasuryAnalytics = async (employerAddr: string): Promise<TreasuryAnalytics | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMPLOYER_TREASURY}::get_treasury_analytics`,
-        functionArguments: [employerAddr],
-      },
-    });
-    
-    const [totalDeposits, totalWithdrawals, totalDisbursements, peakBalance] = result as [string, string, string, string];
-    
-    return {
-      totalDeposits: BigInt(totalDeposits),
-      totalWithdrawals: BigInt(totalWithdrawals),
-      totalDisbursements: BigInt(totalDisbursements),
-      peakBalance: BigInt(peakBalance),
-    };
+    return await executeView(aptos, employerTreasury.getTreasuryAnalyticsView(PROTOCOL_MODULES, employerAddr));
   } catch (error) {
     console.error("Error fetching treasury analytics:", error);
     return null;
@@ -239,20 +169,7 @@ export const getTreasuryAnalytics = async (employerAddr: string): Promise<Treasu
  */
 export const getTreasuryRegistryStats = async (registryAddr: string): Promise<TreasuryRegistryStats | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.EMPLOYER_TREASURY}::get_registry_stats`,
-        functionArguments: [registryAddr],
-      },
-    });
-    
-    const [totalTreasuries, totalValue, totalAllocated] = result as [string, string, string];
-    
-    return {
-      totalTreasuries: BigInt(totalTreasuries),
-      totalValue: BigInt(totalValue),
-      totalAllocated: BigInt(totalAllocated),
-    };
+    return await executeView(aptos, employerTreasury.getRegistryStatsView(PROTOCOL_MODULES, registryAddr));
   } catch (error) {
     console.error("Error fetching registry stats:", error);
     return null;
@@ -351,10 +268,7 @@ export const initializeTreasuryPayload = (
   initialDeposit: bigint
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMPLOYER_TREASURY}::initialize_treasury`,
-      functionArguments: [registryAddr, initialDeposit.toString()],
-    },
+    data: employerTreasury.initializeTreasuryPayload(PROTOCOL_MODULES, registryAddr, initialDeposit),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -369,10 +283,23 @@ export const depositPayload = (
   amount: bigint
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMPLOYER_TREASURY}::deposit_funds`,
-      functionArguments: [registryAddr, amount.toString()],
+    data: employerTreasury.depositFundsPayload(PROTOCOL_MODULES, registryAddr, amount),
+    options: {
+      maxGasAmount: DEFAULT_MAX_GAS,
     },
+  };
+};
+
+/**
+ * Deposit a fungible asset (e.g. a stablecoin) into the asset treasury
+ */
+export const depositAssetPayload = (
+  registryAddr: string,
+  asset: string,
+  amount: bigint
+): InputTransactionData => {
+  return {
+    data: employerTreasury.depositAssetPayload(PROTOCOL_MODULES, registryAddr, asset, amount),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -387,10 +314,23 @@ export const withdrawPayload = (
   amount: bigint
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMPLOYER_TREASURY}::withdraw_funds`,
-      functionArguments: [registryAddr, amount.toString()],
+    data: employerTreasury.withdrawFundsPayload(PROTOCOL_MODULES, registryAddr, amount),
+    options: {
+      maxGasAmount: DEFAULT_MAX_GAS,
     },
+  };
+};
+
+/**
+ * Withdraw a fungible asset from the asset treasury
+ */
+export const withdrawAssetPayload = (
+  registryAddr: string,
+  asset: string,
+  amount: bigint
+): InputTransactionData => {
+  return {
+    data: employerTreasury.withdrawAssetPayload(PROTOCOL_MODULES, registryAddr, asset, amount),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -406,10 +346,7 @@ export const allocateForStreamPayload = (
   amount: bigint
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMPLOYER_TREASURY}::allocate_to_stream`,
-      functionArguments: [registryAddr, streamId, amount.toString()],
-    },
+    data: employerTreasury.allocateToStreamPayload(PROTOCOL_MODULES, registryAddr, streamId, amount),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -425,10 +362,7 @@ export const deallocateFromStreamPayload = (
   unusedAmount: bigint
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMPLOYER_TREASURY}::deallocate_from_stream`,
-      functionArguments: [registryAddr, streamId, unusedAmount.toString()],
-    },
+    data: employerTreasury.deallocateFromStreamPayload(PROTOCOL_MODULES, registryAddr, streamId, unusedAmount),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -440,10 +374,7 @@ export const deallocateFromStreamPayload = (
  */
 export const emergencyWithdrawPayload = (registryAddr: string): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMPLOYER_TREASURY}::emergency_withdraw`,
-      functionArguments: [registryAddr],
-    },
+    data: employerTreasury.emergencyWithdrawPayload(PROTOCOL_MODULES, registryAddr),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -455,10 +386,7 @@ export const emergencyWithdrawPayload = (registryAddr: string): InputTransaction
  */
 export const setAutoTopupThresholdPayload = (threshold: bigint): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.EMPLOYER_TREASURY}::set_auto_topup_threshold`,
-      functionArguments: [threshold.toString()],
-    },
+    data: employerTreasury.setAutoTopupThresholdPayload(PROTOCOL_MODULES, threshold),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
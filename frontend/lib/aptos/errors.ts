@@ -0,0 +1,36 @@
+import { toProtocolError } from "@wage-protocol/sdk/protocol";
+
+// Typed protocol errors, shared with the SDK
+export {
+  ProtocolError,
+  ResourceNotFoundError,
+  MoveAbortError,
+  StreamError,
+  TreasuryError,
+  ComplianceError,
+  DisputeError,
+  AccessControlError,
+  ValidationError,
+  SystemError,
+  RateLimitError,
+  ERROR_CODES,
+  ERROR_CATALOGUE,
+  decodeMoveAbort,
+  describeMoveAbort,
+  toProtocolError,
+} from "@wage-protocol/sdk/protocol";
+export type { ErrorCategory, ErrorCodeInfo } from "@wage-protocol/sdk/protocol";
+
+// ============ HELPERS ============
+
+/**
+ * Run a wallet or view call and rethrow any failure as a typed ProtocolError,
+ * e.g. to branch on `error instanceof TreasuryError` in a form handler
+ */
+export const withProtocolErrors = async <T>(action: () => Promise<T>): Promise<T> => {
+  try {
+    return await action();
+  } catch (error) {
+    throw toProtocolError(error);
+  }
+};
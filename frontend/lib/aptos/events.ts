@@ -0,0 +1,152 @@
+import { aptos, PROTOCOL_MODULES, shouldLogError, parseAptosError } from "./config";
+import {
+  EventCursor,
+  fetchEvents,
+  fetchTransactionTimestamps,
+  normalizeAddress,
+  wageStreaming,
+  photonRewards,
+} from "@wage-protocol/sdk/protocol";
+
+// Types
+export type { EventCursor } from "@wage-protocol/sdk/protocol";
+
+export type ActivityType = "withdrawal" | "stream_created" | "reward";
+
+export interface ActivityEntry {
+  id: string;
+  type: ActivityType;
+  /** Exact amount in octas, as emitted by the contract */
+  amount: bigint;
+  /** Block timestamp of the transaction, in seconds */
+  timestamp: number;
+  streamId: string | null;
+  campaignId: string | null;
+  label: string;
+  /** Transaction version, which the explorer links by */
+  version: string;
+}
+
+export interface ActivityPage {
+  entries: ActivityEntry[];
+  cursor: EventCursor | null;
+  hasMore: boolean;
+}
+
+const EMPLOYEE_ACTIVITY_EVENTS = [
+  wageStreaming.EVENTS.withdrawal,
+  wageStreaming.EVENTS.streamCreated,
+  photonRewards.EVENTS.rewardClaimed,
+  photonRewards.EVENTS.streakReward,
+];
+
+// ============ QUERIES ============
+
+/**
+ * Get an employee's withdrawals, new streams and reward payouts, newest first.
+ * Pass the returned cursor back in to load the next (older) page.
+ */
+export const getEmployeeActivity = async (
+  employeeAddr: string,
+  after?: EventCursor,
+  limit: number = 25
+): Promise<ActivityPage | null> => {
+  try {
+    const employee = normalizeAddress(employeeAddr);
+    const page = await fetchEvents(aptos, PROTOCOL_MODULES, EMPLOYEE_ACTIVITY_EVENTS, {
+      data: [{ employee }, { participant: employee }],
+      after,
+      limit,
+      order: "desc",
+    });
+
+    const timestamps = await fetchTransactionTimestamps(
+      aptos,
+      page.events.map(event => event.transactionVersion)
+    );
+
+    const entries = page.events.map((event): ActivityEntry => {
+      const base = {
+        id: `${event.cursor.transactionVersion}-${event.cursor.eventIndex}`,
+        timestamp: timestamps.get(event.cursor.transactionVersion) ?? 0,
+        version: event.cursor.transactionVersion,
+      };
+
+      switch (event.name) {
+        case "WithdrawalEvent":
+          return {
+            ...base,
+            type: "withdrawal",
+            amount: event.data.amount,
+            streamId: event.data.streamId.toString(),
+            campaignId: null,
+            label: "Withdrawal",
+          };
+        case "StreamCreatedEvent":
+          return {
+            ...base,
+            type: "stream_created",
+            amount: event.data.totalAmount,
+            streamId: event.data.streamId.toString(),
+            campaignId: null,
+            label: "Stream Created",
+          };
+        case "RewardClaimedEvent":
+          return {
+            ...base,
+            type: "reward",
+            amount: event.data.amount,
+            streamId: null,
+            campaignId: event.data.campaignId.toString(),
+            label: "Campaign Reward",
+          };
+        case "StreakRewardEvent":
+          return {
+            ...base,
+            type: "reward",
+            amount: event.data.rewardAmount,
+            streamId: null,
+            campaignId: null,
+            label: `${event.data.streakLength}-Day Streak Reward`,
+          };
+      }
+    });
+
+    return { entries, cursor: page.cursor, hasMore: page.hasMore };
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error fetching employee activity:", parseAptosError(error).message);
+    }
+    return null;
+  }
+};
+
+/**
+ * Get every withdrawal from the given streams, oldest first.
+ * Returns null if the indexer is unavailable
+ */
+export const getStreamWithdrawals = async (
+  streamIds: string[]
+): Promise<wageStreaming.WithdrawalEvent[] | null> => {
+  if (streamIds.length === 0) return [];
+  try {
+    const withdrawals: wageStreaming.WithdrawalEvent[] = [];
+    let after: EventCursor | undefined;
+    let more = true;
+    while (more) {
+      const page = await fetchEvents(aptos, PROTOCOL_MODULES, wageStreaming.EVENTS.withdrawal, {
+        data: streamIds.map(streamId => ({ stream_id: streamId })),
+        after,
+      });
+      withdrawals.push(...page.events.map(event => event.data));
+      after = page.cursor ?? undefined;
+      more = page.hasMore;
+    }
+    return withdrawals;
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error fetching stream withdrawals:", parseAptosError(error).message);
+    }
+    return null;
+  }
+};
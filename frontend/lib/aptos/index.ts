@@ -1,11 +1,17 @@
 // Export all Aptos utilities
 export * from "./config";
+export * from "./networks";
 export * from "./wageStreaming";
 export * from "./employerTreasury";
 export * from "./compliance";
 export * from "./disputes";
 export * from "./emergency";
 export * from "./photonRewards";
+export * from "./sdk";
+export * from "./simulation";
+export * from "./offline";
+export * from "./events";
+export * from "./errors";
 
 // Re-export commonly used items with cleaner names
 export { aptos as aptosClient } from "./config";
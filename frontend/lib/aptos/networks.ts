@@ -0,0 +1,85 @@
+import {
+  NETWORK_PROFILE_NAMES,
+  NetworkProfile,
+  NetworkProfileName,
+  NetworkProfileOverrides,
+  isNetworkProfileName,
+  resolveNetworkProfile,
+} from "@wage-protocol/sdk/protocol";
+
+// Network profiles (local, devnet, testnet, mainnet) from the shared protocol client,
+// with this deployment's overrides applied. The app runs against one active profile,
+// chosen at runtime with switchNetwork() and remembered in localStorage.
+
+// Network the build targets; NEXT_PUBLIC_CONTRACT_ADDRESS and friends apply to it
+const envNetwork = process.env.NEXT_PUBLIC_APTOS_NETWORK?.toLowerCase() ?? "";
+export const DEFAULT_NETWORK_PROFILE: NetworkProfileName = isNetworkProfileName(envNetwork) ? envNetwork : "testnet";
+
+const envOverrides = (): NetworkProfileOverrides => {
+  const moduleAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS;
+  return {
+    nodeUrl: process.env.NEXT_PUBLIC_APTOS_NODE_URL,
+    faucetUrl: process.env.NEXT_PUBLIC_APTOS_FAUCET_URL,
+    ...(moduleAddress && {
+      deployment: { moduleAddress, registryAddress: process.env.NEXT_PUBLIC_REGISTRY_ADDRESS },
+    }),
+  };
+};
+
+// Overrides for any profile, e.g. a localnet deployment:
+//   NEXT_PUBLIC_NETWORK_PROFILES='{"local": {"deployment": {"moduleAddress": "0x..."}}}'
+const jsonOverrides = (): Partial<Record<NetworkProfileName, NetworkProfileOverrides>> => {
+  const json = process.env.NEXT_PUBLIC_NETWORK_PROFILES;
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    console.error("Ignoring NEXT_PUBLIC_NETWORK_PROFILES, which is not valid JSON:", error);
+    return {};
+  }
+};
+
+const buildProfiles = (): Record<NetworkProfileName, NetworkProfile> => {
+  const overrides = jsonOverrides();
+  return Object.fromEntries(
+    NETWORK_PROFILE_NAMES.map((name) => [
+      name,
+      resolveNetworkProfile(name, {
+        ...overrides[name],
+        ...(name === DEFAULT_NETWORK_PROFILE && envOverrides()),
+      }),
+    ])
+  ) as Record<NetworkProfileName, NetworkProfile>;
+};
+
+export const NETWORK_PROFILES = buildProfiles();
+
+// Profiles the switcher offers: those with a deployment, plus the default
+export const SELECTABLE_NETWORKS = NETWORK_PROFILE_NAMES.filter(
+  (name) => NETWORK_PROFILES[name].deployment !== null || name === DEFAULT_NETWORK_PROFILE
+);
+
+const NETWORK_STORAGE_KEY = "wap_network";
+
+const readSelectedNetwork = (): NetworkProfileName => {
+  // Server renders (and API routes) always use the default profile
+  if (typeof window === "undefined") return DEFAULT_NETWORK_PROFILE;
+  const saved = localStorage.getItem(NETWORK_STORAGE_KEY) ?? "";
+  return isNetworkProfileName(saved) && SELECTABLE_NETWORKS.includes(saved) ? saved : DEFAULT_NETWORK_PROFILE;
+};
+
+export const ACTIVE_NETWORK_PROFILE: NetworkProfile = NETWORK_PROFILES[readSelectedNetwork()];
+
+/**
+ * Switch the app to another network profile. Every client and address is derived
+ * from the active profile at load, so the page reloads to pick it up.
+ */
+export const switchNetwork = (name: NetworkProfileName): void => {
+  if (name === ACTIVE_NETWORK_PROFILE.name) return;
+  if (name === DEFAULT_NETWORK_PROFILE) {
+    localStorage.removeItem(NETWORK_STORAGE_KEY);
+  } else {
+    localStorage.setItem(NETWORK_STORAGE_KEY, name);
+  }
+  window.location.reload();
+};
@@ -0,0 +1,122 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+import {
+  OfflineQrPart,
+  OfflineSigner,
+  OfflineTransaction,
+  QrCode,
+  assembleOfflineQrParts,
+  encodeQr,
+  offlineTransactionQrParts,
+  parseOfflineQrPart,
+  parseOfflineTransaction,
+  serializeOfflineTransaction,
+  submitOfflineTransaction,
+} from "@wage-protocol/sdk";
+import { EntryFunctionPayload } from "@wage-protocol/sdk/protocol";
+import { BACKEND } from "./config";
+import { protocolSdk } from "./sdk";
+
+// Types
+export type { OfflineQrPart, OfflineTransaction, QrCode } from "@wage-protocol/sdk";
+export { OFFLINE_QR_PREFIX } from "@wage-protocol/sdk";
+
+// The Barcode Detection API, where the browser has it (not yet in lib.dom)
+interface BarcodeDetector {
+  detect(source: ImageBitmapSource): Promise<{ rawValue: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetector;
+  }
+}
+
+// Unsigned transactions stay valid this long, for the round trip to the cold wallet
+export const OFFLINE_EXPIRY_SECONDS = 24 * 60 * 60;
+
+// The simulator signs nothing, so there is no transaction to carry offline
+export const OFFLINE_SIGNING_AVAILABLE = BACKEND !== "simulator";
+
+// ============ EXPORT ============
+
+/**
+ * Build any *Payload builder output for `sender` as an unsigned offline transaction,
+ * pinned to the account's current sequence number
+ */
+export const buildOfflineTransaction = async (
+  sender: string,
+  input: InputTransactionData,
+  description: string
+): Promise<OfflineTransaction> => {
+  const signer = new OfflineSigner(sender, {
+    description,
+    expiresInSeconds: OFFLINE_EXPIRY_SECONDS,
+    maxGasAmount: input.options?.maxGasAmount,
+  });
+  return signer.submit(protocolSdk.getAptosClient(), input.data as EntryFunctionPayload);
+};
+
+/**
+ * Save an offline transaction as a JSON file
+ */
+export const downloadOfflineTransaction = (offline: OfflineTransaction, name: string): void => {
+  const blob = new Blob([serializeOfflineTransaction(offline)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name}-${offline.sequenceNumber}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * An offline transaction as QR codes, one per part, for a machine without file transfer
+ */
+export const offlineQrCodes = (offline: OfflineTransaction): { text: string; qr: QrCode }[] =>
+  offlineTransactionQrParts(offline).map((text) => ({ text, qr: encodeQr(text) }));
+
+// ============ IMPORT ============
+
+/**
+ * Read an offline transaction file, rejecting files whose summary was edited
+ */
+export const readOfflineTransaction = async (file: File): Promise<OfflineTransaction> =>
+  parseOfflineTransaction(await file.text());
+
+/**
+ * Whether the browser can read QR codes from the camera or an image
+ */
+export const qrScanningAvailable = (): boolean => typeof window !== "undefined" && !!window.BarcodeDetector;
+
+/**
+ * Read the QR codes in an image or video frame (needs `qrScanningAvailable()`)
+ */
+export const detectQrCodes = async (source: ImageBitmapSource): Promise<string[]> => {
+  if (!window.BarcodeDetector) throw new Error("This browser cannot read QR codes; paste the scanned text instead");
+  const codes = await new window.BarcodeDetector({ formats: ["qr_code"] }).detect(source);
+  return codes.map((code) => code.rawValue);
+};
+
+/**
+ * Add scanned QR texts to the parts collected so far. A code from another
+ * transaction starts the collection over; text that is not a part throws.
+ */
+export const collectOfflineQrParts = (collected: OfflineQrPart[], texts: string[]): OfflineQrPart[] =>
+  texts.reduce((parts, text) => {
+    const part = parseOfflineQrPart(text);
+    const current = parts.filter((other) => other.checksum === part.checksum);
+    return [...current.filter((other) => other.index !== part.index), part];
+  }, collected);
+
+/**
+ * Join the collected parts, once all are in, rejecting codes whose summary was edited
+ */
+export const readOfflineQrParts = (parts: OfflineQrPart[]): OfflineTransaction => assembleOfflineQrParts(parts);
+
+/**
+ * Submit a signed offline transaction, returning its hash once committed
+ */
+export const submitSignedTransaction = async (offline: OfflineTransaction): Promise<string> => {
+  const response = await submitOfflineTransaction(protocolSdk.getAptosClient(), offline);
+  return response.hash;
+};
@@ -1,64 +1,19 @@
-import { aptos, MODULES, CONTRACT_ADDRESS, shouldLogError, parseAptosError } from "./config";
+import { aptos, PROTOCOL_MODULES, shouldLogError, parseAptosError } from "./config";
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+import { executeView, photonRewards } from "@wage-protocol/sdk/protocol";
 
 // Types
-export interface CampaignInfo {
-  campaignId: bigint;
-  employer: string;
-  name: string;
-  status: number;
-  totalBudget: bigint;
-  distributedAmount: bigint;
-  totalParticipants: bigint;
-}
-
-export interface EmployeeRewardsSummary {
-  totalPatEarned: bigint;
-  totalPatClaimed: bigint;
-  pendingPat: bigint;
-  currentStreak: bigint;
-  campaignsParticipated: bigint;
-  engagementScore: bigint;
-}
-
-export interface ParticipationInfo {
-  campaignId: bigint;
-  currentProgress: bigint;
-  currentTier: bigint;
-  rewardsEarned: bigint;
-  rewardsClaimed: bigint;
-}
-
-export interface StreakInfo {
-  currentStreak: bigint;
-  longestStreak: bigint;
-  streakRewardsEarned: bigint;
-}
-
-export interface PhotonRegistryStats {
-  totalCampaigns: bigint;
-  totalPatDistributed: bigint;
-  totalUniqueParticipants: bigint;
-  activeCampaigns: bigint;
-}
+export type CampaignInfo = photonRewards.CampaignInfo;
+export type EmployeeRewardsSummary = photonRewards.EmployeeRewardsSummary;
+export type ParticipationInfo = photonRewards.ParticipationInfo;
+export type StreakInfo = photonRewards.StreakInfo;
+export type PhotonRegistryStats = photonRewards.PhotonRegistryStats;
 
 // Reward Type Constants
-export const REWARD_TYPE = {
-  FIXED: 0,
-  PERCENTAGE: 1,
-  TIERED: 2,
-  MILESTONE: 3,
-} as const;
+export const REWARD_TYPE = photonRewards.REWARD_TYPE;
 
 // Trigger Type Constants
-export const TRIGGER_TYPE = {
-  ATTENDANCE: 0,
-  PERFORMANCE: 1,
-  REFERRAL: 2,
-  MILESTONE: 3,
-  STREAK: 4,
-  CUSTOM: 5,
-} as const;
+export const TRIGGER_TYPE = photonRewards.TRIGGER_TYPE;
 
 // ============ VIEW FUNCTIONS ============
 
@@ -69,22 +24,7 @@ export const getPhotonRegistryStats = async (
   registryAddr: string
 ): Promise<PhotonRegistryStats | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.PHOTON_REWARDS}::get_registry_stats`,
-        functionArguments: [registryAddr],
-      },
-    });
-
-    const [totalCampaigns, totalPatDistributed, totalUniqueParticipants, activeCampaigns] =
-      result as [string, string, string, string];
-
-    return {
-      totalCampaigns: BigInt(totalCampaigns),
-      totalPatDistributed: BigInt(totalPatDistributed),
-      totalUniqueParticipants: BigInt(totalUniqueParticipants),
-      activeCampaigns: BigInt(activeCampaigns),
-    };
+    return await executeView(aptos, photonRewards.getRegistryStatsView(PROTOCOL_MODULES, registryAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching registry stats:", parseAptosError(error).message);
@@ -100,25 +40,7 @@ export const getCampaignInfo = async (
   campaignAddr: string
 ): Promise<CampaignInfo | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.PHOTON_REWARDS}::get_campaign_info`,
-        functionArguments: [campaignAddr],
-      },
-    });
-
-    const [campaignId, employer, name, status, totalBudget, distributedAmount, totalParticipants] =
-      result as [string, string, string, number, string, string, string];
-
-    return {
-      campaignId: BigInt(campaignId),
-      employer,
-      name,
-      status,
-      totalBudget: BigInt(totalBudget),
-      distributedAmount: BigInt(distributedAmount),
-      totalParticipants: BigInt(totalParticipants),
-    };
+    return await executeView(aptos, photonRewards.getCampaignInfoView(PROTOCOL_MODULES, campaignAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching campaign info:", parseAptosError(error).message);
@@ -135,30 +57,7 @@ export const getEmployeeRewardsSummary = async (
   employeeAddr: string
 ): Promise<EmployeeRewardsSummary | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.PHOTON_REWARDS}::get_employee_rewards_summary`,
-        functionArguments: [employeeAddr],
-      },
-    });
-
-    const [
-      totalPatEarned,
-      totalPatClaimed,
-      pendingPat,
-      currentStreak,
-      campaignsParticipated,
-      engagementScore,
-    ] = result as [string, string, string, string, string, string];
-
-    return {
-      totalPatEarned: BigInt(totalPatEarned),
-      totalPatClaimed: BigInt(totalPatClaimed),
-      pendingPat: BigInt(pendingPat),
-      currentStreak: BigInt(currentStreak),
-      campaignsParticipated: BigInt(campaignsParticipated),
-      engagementScore: BigInt(engagementScore),
-    };
+    return await executeView(aptos, photonRewards.getEmployeeRewardsSummaryView(PROTOCOL_MODULES, employeeAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching employee rewards summary:", parseAptosError(error).message);
@@ -174,23 +73,7 @@ export const getParticipationInfo = async (
   participantAddr: string
 ): Promise<ParticipationInfo | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.PHOTON_REWARDS}::get_participation_info`,
-        functionArguments: [participantAddr],
-      },
-    });
-
-    const [campaignId, currentProgress, currentTier, rewardsEarned, rewardsClaimed] =
-      result as [string, string, string, string, string];
-
-    return {
-      campaignId: BigInt(campaignId),
-      currentProgress: BigInt(currentProgress),
-      currentTier: BigInt(currentTier),
-      rewardsEarned: BigInt(rewardsEarned),
-      rewardsClaimed: BigInt(rewardsClaimed),
-    };
+    return await executeView(aptos, photonRewards.getParticipationInfoView(PROTOCOL_MODULES, participantAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching participation info:", parseAptosError(error).message);
@@ -206,24 +89,7 @@ export const getStreakInfo = async (
   employeeAddr: string
 ): Promise<StreakInfo | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.PHOTON_REWARDS}::get_streak_info`,
-        functionArguments: [employeeAddr],
-      },
-    });
-
-    const [currentStreak, longestStreak, streakRewardsEarned] = result as [
-      string,
-      string,
-      string
-    ];
-
-    return {
-      currentStreak: BigInt(currentStreak),
-      longestStreak: BigInt(longestStreak),
-      streakRewardsEarned: BigInt(streakRewardsEarned),
-    };
+    return await executeView(aptos, photonRewards.getStreakInfoView(PROTOCOL_MODULES, employeeAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching streak info:", parseAptosError(error).message);
@@ -237,13 +103,7 @@ export const getStreakInfo = async (
  */
 export const isPhotonEnabled = async (registryAddr: string): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.PHOTON_REWARDS}::is_photon_enabled`,
-        functionArguments: [registryAddr],
-      },
-    });
-    return result[0] as boolean;
+    return await executeView(aptos, photonRewards.isPhotonEnabledView(PROTOCOL_MODULES, registryAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error checking Photon enabled status:", parseAptosError(error).message);
@@ -259,10 +119,7 @@ export const isPhotonEnabled = async (registryAddr: string): Promise<boolean> =>
  */
 export const initializeEmployeeRewardsPayload = (): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.PHOTON_REWARDS}::initialize_employee_rewards`,
-      functionArguments: [],
-    },
+    data: photonRewards.initializeEmployeeRewardsPayload(PROTOCOL_MODULES),
   };
 };
 
@@ -271,10 +128,7 @@ export const initializeEmployeeRewardsPayload = (): InputTransactionData => {
  */
 export const initializeEmployerCampaignRegistryPayload = (): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.PHOTON_REWARDS}::initialize_employer_campaign_registry`,
-      functionArguments: [],
-    },
+    data: photonRewards.initializeEmployerCampaignRegistryPayload(PROTOCOL_MODULES),
   };
 };
 
@@ -296,23 +150,21 @@ export const createCampaignPayload = (
   photonExternalId: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.PHOTON_REWARDS}::create_campaign`,
-      functionArguments: [
-        registryAddr,
-        name,
-        description,
-        rewardType,
-        triggerType,
-        startTime,
-        endTime,
-        totalBudget.toString(),
-        perParticipantCap.toString(),
-        minEligibilityScore,
-        rewardTokenMetadata,
-        photonExternalId,
-      ],
-    },
+    data: photonRewards.createCampaignPayload(
+      PROTOCOL_MODULES,
+      registryAddr,
+      name,
+      description,
+      rewardType,
+      triggerType,
+      startTime,
+      endTime,
+      totalBudget,
+      perParticipantCap,
+      minEligibilityScore,
+      rewardTokenMetadata,
+      photonExternalId
+    ),
   };
 };
 
@@ -320,13 +172,11 @@ export const createCampaignPayload = (
  * Register for a campaign
  */
 export const registerForCampaignPayload = (
-  campaignAddr: string
+  campaignAddr: string,
+  registryAddr: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.PHOTON_REWARDS}::register_for_campaign`,
-      functionArguments: [campaignAddr],
-    },
+    data: photonRewards.registerForCampaignPayload(PROTOCOL_MODULES, campaignAddr, registryAddr),
   };
 };
 
@@ -334,13 +184,11 @@ export const registerForCampaignPayload = (
  * Claim campaign rewards
  */
 export const claimCampaignRewardsPayload = (
-  campaignAddr: string
+  campaignAddr: string,
+  registryAddr: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.PHOTON_REWARDS}::claim_campaign_rewards`,
-      functionArguments: [campaignAddr],
-    },
+    data: photonRewards.claimRewardsPayload(PROTOCOL_MODULES, campaignAddr, registryAddr),
   };
 };
 
@@ -349,38 +197,42 @@ export const claimCampaignRewardsPayload = (
  */
 export const recordDailyCheckinPayload = (): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.PHOTON_REWARDS}::record_daily_checkin`,
-      functionArguments: [],
-    },
+    data: photonRewards.recordDailyCheckinPayload(PROTOCOL_MODULES),
   };
 };
 
 /**
- * Claim streak rewards
+ * Activate a draft campaign
  */
-export const claimStreakRewardsPayload = (
-  registryAddr: string
+export const activateCampaignPayload = (
+  registryAddr: string,
+  campaignAddr: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.PHOTON_REWARDS}::claim_streak_rewards`,
-      functionArguments: [registryAddr],
-    },
+    data: photonRewards.activateCampaignPayload(PROTOCOL_MODULES, registryAddr, campaignAddr),
   };
 };
 
 /**
- * Update campaign status
+ * Pause an active campaign
  */
-export const updateCampaignStatusPayload = (
-  campaignAddr: string,
-  newStatus: number
+export const pauseCampaignPayload = (
+  registryAddr: string,
+  campaignAddr: string
+): InputTransactionData => {
+  return {
+    data: photonRewards.pauseCampaignPayload(PROTOCOL_MODULES, registryAddr, campaignAddr),
+  };
+};
+
+/**
+ * Resume a paused campaign
+ */
+export const resumeCampaignPayload = (
+  registryAddr: string,
+  campaignAddr: string
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.PHOTON_REWARDS}::update_campaign_status`,
-      functionArguments: [campaignAddr, newStatus],
-    },
+    data: photonRewards.resumeCampaignPayload(PROTOCOL_MODULES, registryAddr, campaignAddr),
   };
 };
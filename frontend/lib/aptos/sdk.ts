@@ -0,0 +1,63 @@
+import { Deserializer, SimpleTransaction } from "@aptos-labs/ts-sdk";
+import type { WalletContextState } from "@aptos-labs/wallet-adapter-react";
+import {
+  WageProtocolSDK,
+  WalletAdapterSigner,
+  WalletSignAndSubmit,
+  SponsoredSigner,
+  requestSponsorshipOverHttp,
+} from "@wage-protocol/sdk";
+import {
+  NETWORK,
+  NODE_URL,
+  CONTRACT_ADDRESS,
+  REGISTRY_ADDRESS,
+  MODULE_NAMES,
+  DEFAULT_MAX_GAS,
+  SPONSOR_URL,
+  simulator,
+} from "./config";
+
+// Shared SDK instance for the app. It has no default signer, so write methods
+// must be given a signer (see createWalletSigner / useWalletSigner).
+export const protocolSdk = new WageProtocolSDK({
+  network: NETWORK,
+  moduleAddress: CONTRACT_ADDRESS,
+  registryAddress: REGISTRY_ADDRESS,
+  moduleNames: MODULE_NAMES,
+  nodeUrl: NODE_URL,
+  ...(simulator && { simulator }),
+});
+
+/**
+ * Wrap the connected wallet as an SDK signer
+ */
+export const createWalletSigner = (
+  address: string,
+  signAndSubmitTransaction: WalletSignAndSubmit
+): WalletAdapterSigner => {
+  return new WalletAdapterSigner(address, signAndSubmitTransaction, {
+    maxGasAmount: DEFAULT_MAX_GAS,
+  });
+};
+
+/**
+ * Wrap the connected wallet as a signer whose gas is paid by the sponsor at SPONSOR_URL
+ */
+export const createSponsoredSigner = (
+  address: string,
+  signTransaction: WalletContextState["signTransaction"]
+): SponsoredSigner => {
+  if (!SPONSOR_URL) throw new Error("Gas sponsorship is not configured");
+
+  // The SDK hands over BCS bytes, so rebuild the transaction with the app's ts-sdk for the wallet
+  const signBytes = async (bytes: Uint8Array) => {
+    const transaction = SimpleTransaction.deserialize(new Deserializer(bytes));
+    const { authenticator } = await signTransaction({ transactionOrPayload: transaction });
+    return authenticator.bcsToBytes();
+  };
+
+  return new SponsoredSigner(address, signBytes, requestSponsorshipOverHttp(SPONSOR_URL), {
+    maxGasAmount: DEFAULT_MAX_GAS,
+  });
+};
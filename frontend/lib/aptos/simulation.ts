@@ -0,0 +1,44 @@
+import { aptos, PROTOCOL_MODULES, shouldLogError, parseAptosError } from "./config";
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+import { summarizeSimulation, describeMoveAbort, SimulationResult, MoveAbort } from "@wage-protocol/sdk/protocol";
+
+// Types
+export type { SimulationResult, BalanceChangePreview, BalanceDelta, MoveAbort } from "@wage-protocol/sdk/protocol";
+
+// ============ SIMULATION ============
+
+/**
+ * Simulate any *Payload builder output for `sender` without prompting the wallet.
+ * Returns null if the transaction could not be built (e.g. unknown account).
+ */
+export const simulateTransaction = async (
+  sender: string,
+  input: InputTransactionData
+): Promise<SimulationResult | null> => {
+  try {
+    const transaction = await aptos.transaction.build.simple({
+      sender,
+      data: input.data,
+      options: input.options,
+    });
+
+    const [simulated] = await aptos.transaction.simulate.simple({
+      transaction,
+      options: { estimateGasUnitPrice: true, estimateMaxGasAmount: true },
+    });
+
+    return await summarizeSimulation(PROTOCOL_MODULES, aptos, simulated);
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error simulating transaction:", parseAptosError(error).message);
+    }
+    return null;
+  }
+};
+
+/**
+ * Human-readable message for a simulated Move abort
+ */
+export const describeAbort = (abort: MoveAbort): string => {
+  return describeMoveAbort(abort);
+};
@@ -1,20 +1,38 @@
-import { aptos, MODULES, CONTRACT_ADDRESS, STREAM_STATUS, shouldLogError, parseAptosError, isExpectedError } from "./config";
+import {
+  aptos,
+  BACKEND,
+  MODULES,
+  NETWORK,
+  PROTOCOL_MODULES,
+  CONTRACT_ADDRESS,
+  DEFAULT_MAX_GAS,
+  shouldLogError,
+  parseAptosError,
+  isExpectedError,
+} from "./config";
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
-
-// Default gas settings for transactions
-const DEFAULT_MAX_GAS = 200000;
+import {
+  DEFAULT_STREAM_PAGE_SIZE,
+  StreamIndex,
+  StreamIndexSnapshot,
+  StreamRole,
+  accruedAmount,
+  executeView,
+  fetchIndexedStreams,
+  fetchStreamPauseInfo,
+  normalizeAddress,
+  wageStreaming,
+} from "@wage-protocol/sdk/protocol";
 
 // Types
-export interface StreamInfo {
-  streamId: string;
-  employer: string;
-  employee: string;
-  ratePerSecond: bigint;
-  totalDeposited: bigint;
-  totalWithdrawn: bigint;
-  startTime: number;
-  endTime: number;
-  status: number;
+// Streams carry the pause bookkeeping accrual needs (see `withdrawableAmount` in the SDK)
+export type StreamInfo = wageStreaming.StreamState;
+
+export interface IndexedStreamPage {
+  /** Newest first */
+  streams: StreamInfo[];
+  total: number;
+  hasMore: boolean;
 }
 
 export interface StreamDetails {
@@ -24,26 +42,38 @@ export interface StreamDetails {
   streamedAmount: bigint;
 }
 
-export interface RegistryStats {
-  totalValueLocked: bigint;
-  activeStreamsCount: bigint;
-  completedStreamsCount: bigint;
-  accumulatedFees: bigint;
-}
+export type RegistryStats = wageStreaming.RegistryStats;
 
 // Stream Status Constants
-export const STREAM_STATUS_CODES = {
-  ACTIVE: 1,
-  PAUSED: 2,
-  COMPLETED: 3,
-  TERMINATED: 4,
-  DISPUTED: 5,
-} as const;
+export const STREAM_STATUS_CODES = wageStreaming.STREAM_STATUS_CODES;
 
 // ============ VIEW FUNCTIONS ============
 
 /**
- * Get stream information by stream ID
+ * Get every stream in the registry's StreamStore
+ * Reads the whole store, so it is only the fallback for when the indexer is unavailable
+ * Returns an empty list if the registry hasn't been initialized
+ */
+export const getStreamStates = async (registryAddr: string): Promise<StreamInfo[]> => {
+  try {
+    const store = await aptos.getAccountResource<{
+      streams: wageStreaming.StreamResource[];
+    }>({
+      accountAddress: registryAddr,
+      resourceType: `${MODULES.WAGE_STREAMING}::StreamStore`,
+    });
+    return store.streams.map(wageStreaming.parseStreamResource);
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error fetching streams:", parseAptosError(error).message);
+    }
+    return [];
+  }
+};
+
+/**
+ * Get stream information by stream ID, with its pause bookkeeping from indexed
+ * status changes (or the StreamStore when the indexer is unavailable)
  * Returns null if the stream doesn't exist
  */
 export const getStreamInfo = async (
@@ -51,27 +81,14 @@ export const getStreamInfo = async (
   streamId: number
 ): Promise<StreamInfo | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.WAGE_STREAMING}::get_stream_info`,
-        functionArguments: [registryAddr, streamId],
-      },
-    });
-    
-    const [employer, employee, ratePerSecond, totalDeposited, totalWithdrawn, startTime, endTime, status] = 
-      result as [string, string, string, string, string, string, string, number];
-    
-    return {
-      streamId: streamId.toString(),
-      employer,
-      employee,
-      ratePerSecond: BigInt(ratePerSecond),
-      totalDeposited: BigInt(totalDeposited),
-      totalWithdrawn: BigInt(totalWithdrawn),
-      startTime: Number(startTime),
-      endTime: Number(endTime),
-      status,
-    };
+    const [info, pauses] = await Promise.all([
+      executeView(aptos, wageStreaming.getStreamInfoView(PROTOCOL_MODULES, registryAddr, streamId)),
+      fetchStreamPauseInfo(aptos, PROTOCOL_MODULES, streamId).catch(() => null),
+    ]);
+    if (pauses) return { ...info, ...pauses };
+
+    const streams = await getStreamStates(registryAddr);
+    return streams.find((stream) => stream.streamId === String(streamId)) ?? null;
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching stream info:", parseAptosError(error).message);
@@ -89,13 +106,7 @@ export const getWithdrawableBalance = async (
   streamId: number
 ): Promise<bigint> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.WAGE_STREAMING}::get_withdrawable_balance`,
-        functionArguments: [registryAddr, streamId],
-      },
-    });
-    return BigInt(result[0] as string);
+    return await executeView(aptos, wageStreaming.getWithdrawableBalanceView(PROTOCOL_MODULES, registryAddr, streamId));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching withdrawable balance:", parseAptosError(error).message);
@@ -112,22 +123,7 @@ export const getRegistryStats = async (
   registryAddr: string
 ): Promise<RegistryStats | null> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.WAGE_STREAMING}::get_registry_stats`,
-        functionArguments: [registryAddr],
-      },
-    });
-    
-    const [totalValueLocked, activeStreamsCount, completedStreamsCount, accumulatedFees] = 
-      result as [string, string, string, string];
-    
-    return {
-      totalValueLocked: BigInt(totalValueLocked),
-      activeStreamsCount: BigInt(activeStreamsCount),
-      completedStreamsCount: BigInt(completedStreamsCount),
-      accumulatedFees: BigInt(accumulatedFees),
-    };
+    return await executeView(aptos, wageStreaming.getRegistryStatsView(PROTOCOL_MODULES, registryAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error fetching registry stats:", parseAptosError(error).message);
@@ -136,18 +132,67 @@ export const getRegistryStats = async (
   }
 };
 
+const fetchStreamAsset = (registryAddr: string, streamId: number): Promise<string | null> =>
+  executeView(aptos, wageStreaming.getStreamAssetView(PROTOCOL_MODULES, registryAddr, streamId));
+
+/**
+ * Get the fungible asset a stream pays in
+ * Returns null for APT streams (and streams that don't exist)
+ */
+export const getStreamAsset = async (
+  registryAddr: string,
+  streamId: number
+): Promise<string | null> => {
+  try {
+    return await fetchStreamAsset(registryAddr, streamId);
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error fetching stream asset:", parseAptosError(error).message);
+    }
+    return null;
+  }
+};
+
+// A stream's asset is set when it is created, so each is looked up once
+const streamAssets = new Map<string, Promise<string | null>>();
+
+/**
+ * Get the fungible asset each stream pays in (null for APT), by stream ID,
+ * looking each stream up once. Streams whose asset couldn't be read are left
+ * out, rather than taken for APT, and are tried again on the next call
+ */
+export const getStreamAssets = async (
+  registryAddr: string,
+  streamIds: string[]
+): Promise<Record<string, string | null>> => {
+  const entries = await Promise.all(
+    Array.from(new Set(streamIds)).map(async (streamId): Promise<[string, string | null][]> => {
+      const key = `${NETWORK}:${normalizeAddress(registryAddr)}:${streamId}`;
+      let asset = streamAssets.get(key);
+      if (!asset) {
+        asset = fetchStreamAsset(registryAddr, Number(streamId));
+        streamAssets.set(key, asset);
+      }
+      try {
+        return [[streamId, await asset]];
+      } catch (error) {
+        streamAssets.delete(key);
+        if (shouldLogError(error)) {
+          console.error("Error fetching stream asset:", parseAptosError(error).message);
+        }
+        return [];
+      }
+    })
+  );
+  return Object.fromEntries(entries.flat());
+};
+
 /**
  * Check if employee has active streams
  */
 export const hasActiveStreams = async (employeeAddr: string): Promise<boolean> => {
   try {
-    const result = await aptos.view({
-      payload: {
-        function: `${MODULES.WAGE_STREAMING}::has_active_streams`,
-        functionArguments: [employeeAddr],
-      },
-    });
-    return result[0] as boolean;
+    return await executeView(aptos, wageStreaming.hasActiveStreamsView(PROTOCOL_MODULES, employeeAddr));
   } catch (error) {
     if (shouldLogError(error)) {
       console.error("Error checking active streams:", parseAptosError(error).message);
@@ -171,10 +216,7 @@ export const getStreamDetails = async (
 
     if (!streamInfo) return null;
 
-    const now = Math.floor(Date.now() / 1000);
-    const effectiveEndTime = Math.min(now, streamInfo.endTime);
-    const duration = Math.max(0, effectiveEndTime - streamInfo.startTime);
-    const totalEarned = BigInt(duration) * streamInfo.ratePerSecond / BigInt(100_000_000); // Account for precision
+    const totalEarned = accruedAmount(streamInfo);
     const streamedAmount = totalEarned - streamInfo.totalWithdrawn;
 
     return {
@@ -219,30 +261,15 @@ export const getEmployerStreams = async (employerAddress: string): Promise<strin
 };
 
 /**
- * Get all streams for an employee  
- * Since EmployeeStreams resource is not created by the contract,
- * we need to read StreamStore and filter by employee address
+ * Get the open streams of an employee by reading StreamStore and filtering by
+ * employee address. Reads the whole store, so it is only the fallback for when
+ * the indexer is unavailable (see getIndexedStreams)
  */
 export const getEmployeeStreams = async (employeeAddress: string): Promise<string[]> => {
   try {
     // First, try to read the StreamStore from the contract address
     const streamStoreResource = await aptos.getAccountResource<{
-      streams: Array<{
-        stream_id: string;
-        employer: string;
-        employee: string;
-        rate_per_second: string;
-        total_deposited: string;
-        total_withdrawn: string;
-        start_time: string;
-        end_time: string;
-        status: number;
-        job_description: string;
-        compliance_verified: boolean;
-        pause_time: string;
-        total_pause_duration: string;
-        last_withdrawal_time: string;
-      }>;
+      streams: wageStreaming.StreamResource[];
     }>({
       accountAddress: CONTRACT_ADDRESS,
       resourceType: `${MODULES.WAGE_STREAMING}::StreamStore`,
@@ -251,7 +278,7 @@ export const getEmployeeStreams = async (employeeAddress: string): Promise<strin
     // Filter streams where the employee matches and stream is active/paused
     const employeeStreams = streamStoreResource.streams.filter(
       s => s.employee.toLowerCase() === employeeAddress.toLowerCase() && 
-           (s.status === 1 || s.status === 2) // Active or Paused
+           (s.status === STREAM_STATUS_CODES.ACTIVE || s.status === STREAM_STATUS_CODES.PAUSED)
     );
     
     return employeeStreams.map(s => s.stream_id);
@@ -283,7 +310,8 @@ export const getEmployeeStreams = async (employeeAddress: string): Promise<strin
 
 /**
  * Check if a stream exists
- * NOTE: This view function is not currently available in the deployed contract.
+ * NOTE: wage_streaming has no `stream_exists` view (see the generated SDK bindings),
+ * so this probes `get_stream_info` instead.
  */
 export const streamExists = async (streamId: string): Promise<boolean> => {
   // Try to get stream info instead - if it returns data, stream exists
@@ -296,6 +324,82 @@ export const streamExists = async (streamId: string): Promise<boolean> => {
   }
 };
 
+// ============ INDEXED LOOKUP ============
+
+// Stream indexes per role and address, synced incrementally from indexed events.
+// Snapshots are kept in localStorage so a reload only fetches newer events; the
+// simulator starts empty on every load, so its indexes are not kept.
+
+export const STREAM_PAGE_SIZE = DEFAULT_STREAM_PAGE_SIZE;
+
+const streamIndexes = new Map<string, StreamIndex>();
+
+const indexStorageKey = (role: StreamRole, address: string) =>
+  `wap_stream_index:${NETWORK}:${normalizeAddress(CONTRACT_ADDRESS)}:${role}:${normalizeAddress(address)}`;
+
+const persistIndexes = () => typeof window !== "undefined" && BACKEND !== "simulator";
+
+const readIndexSnapshot = (key: string): StreamIndexSnapshot | undefined => {
+  if (!persistIndexes()) return undefined;
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const getStreamIndex = (role: StreamRole, address: string): StreamIndex => {
+  const key = indexStorageKey(role, address);
+  let index = streamIndexes.get(key);
+  if (!index) {
+    index = new StreamIndex(aptos, PROTOCOL_MODULES, role, address, { snapshot: readIndexSnapshot(key) });
+    streamIndexes.set(key, index);
+  }
+  return index;
+};
+
+/**
+ * Get the newest `limit` streams of an employee or employer from the stream index,
+ * syncing it first. Only the events since the last sync are fetched.
+ * Returns null if the indexer is unavailable, so callers can fall back to the StreamStore
+ */
+export const getIndexedStreams = async (
+  role: StreamRole,
+  address: string,
+  registryAddr: string,
+  limit: number = STREAM_PAGE_SIZE
+): Promise<IndexedStreamPage | null> => {
+  const index = getStreamIndex(role, address);
+  try {
+    await index.sync();
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error syncing stream index:", parseAptosError(error).message);
+    }
+    return null;
+  }
+
+  if (persistIndexes()) {
+    try {
+      localStorage.setItem(indexStorageKey(role, address), JSON.stringify(index.toSnapshot()));
+    } catch {
+      // Storage full or disabled: the next load syncs from the start
+    }
+  }
+
+  const page = index.page({ limit });
+  try {
+    const streams = await fetchIndexedStreams(aptos, PROTOCOL_MODULES, registryAddr, index, page.streamIds);
+    return { streams, total: page.total, hasMore: page.hasMore };
+  } catch (error) {
+    if (shouldLogError(error)) {
+      console.error("Error fetching indexed streams:", parseAptosError(error).message);
+    }
+    return null;
+  }
+};
+
 // ============ TRANSACTION PAYLOADS ============
 
 /**
@@ -309,10 +413,41 @@ export const createStreamPayload = (
   jobDescription: string = ""
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.WAGE_STREAMING}::create_stream`,
-      functionArguments: [registryAddr, employee, totalAmount.toString(), durationSeconds, jobDescription],
+    data: wageStreaming.createStreamPayload(
+      PROTOCOL_MODULES,
+      registryAddr,
+      employee,
+      totalAmount,
+      durationSeconds,
+      jobDescription
+    ),
+    options: {
+      maxGasAmount: DEFAULT_MAX_GAS,
     },
+  };
+};
+
+/**
+ * Create a new wage stream paid in a fungible asset (e.g. a stablecoin)
+ */
+export const createStreamWithAssetPayload = (
+  registryAddr: string,
+  employee: string,
+  asset: string,
+  totalAmount: bigint,
+  durationSeconds: number,
+  jobDescription: string = ""
+): InputTransactionData => {
+  return {
+    data: wageStreaming.createStreamWithAssetPayload(
+      PROTOCOL_MODULES,
+      registryAddr,
+      employee,
+      asset,
+      totalAmount,
+      durationSeconds,
+      jobDescription
+    ),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -327,10 +462,7 @@ export const pauseStreamPayload = (
   streamId: number
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.WAGE_STREAMING}::pause_stream`,
-      functionArguments: [registryAddr, streamId],
-    },
+    data: wageStreaming.pauseStreamPayload(PROTOCOL_MODULES, registryAddr, streamId),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -345,10 +477,7 @@ export const resumeStreamPayload = (
   streamId: number
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.WAGE_STREAMING}::resume_stream`,
-      functionArguments: [registryAddr, streamId],
-    },
+    data: wageStreaming.resumeStreamPayload(PROTOCOL_MODULES, registryAddr, streamId),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -363,10 +492,7 @@ export const terminateStreamPayload = (
   streamId: number
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.WAGE_STREAMING}::terminate_stream`,
-      functionArguments: [registryAddr, streamId],
-    },
+    data: wageStreaming.terminateStreamPayload(PROTOCOL_MODULES, registryAddr, streamId),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -381,10 +507,7 @@ export const withdrawWagesPayload = (
   streamId: number
 ): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.WAGE_STREAMING}::withdraw_wages`,
-      functionArguments: [registryAddr, streamId],
-    },
+    data: wageStreaming.withdrawWagesPayload(PROTOCOL_MODULES, registryAddr, streamId),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
@@ -396,29 +519,7 @@ export const withdrawWagesPayload = (
  */
 export const withdrawAllPayload = (registryAddr: string): InputTransactionData => {
   return {
-    data: {
-      function: `${MODULES.WAGE_STREAMING}::withdraw_all`,
-      functionArguments: [registryAddr],
-    },
-    options: {
-      maxGasAmount: DEFAULT_MAX_GAS,
-    },
-  };
-};
-
-/**
- * Set dispute status on a stream
- */
-export const setDisputeStatusPayload = (
-  registryAddr: string,
-  streamId: number,
-  disputeStatus: boolean
-): InputTransactionData => {
-  return {
-    data: {
-      function: `${MODULES.WAGE_STREAMING}::set_dispute_status`,
-      functionArguments: [registryAddr, streamId, disputeStatus],
-    },
+    data: wageStreaming.withdrawAllPayload(PROTOCOL_MODULES, registryAddr),
     options: {
       maxGasAmount: DEFAULT_MAX_GAS,
     },
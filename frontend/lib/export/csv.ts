@@ -0,0 +1,18 @@
+import { ExportTable } from "./table";
+
+// RFC 4180 CSV: the header row, the rows and the totals rows, nothing else, so the
+// file imports cleanly. The title and details belong in the file name.
+
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+
+const csvLine = (cells: string[]): string => cells.map(escapeCsvCell).join(",");
+
+export const toCsv = (table: ExportTable): string => {
+  const lines = [
+    csvLine(table.columns.map((column) => column.header)),
+    ...table.rows.map(csvLine),
+    ...(table.totals ?? []).map(csvLine),
+  ];
+  return lines.join("\r\n") + "\r\n";
+};
@@ -0,0 +1,26 @@
+import { ExportFormat, ExportTable, EXPORT_FORMATS } from "./table";
+import { toCsv } from "./csv";
+import { toXlsx } from "./xlsx";
+import { tableToPdf } from "./pdf";
+
+/**
+ * Save generated content as a file
+ */
+export const downloadFile = (fileName: string, content: string | Uint8Array, mimeType: string): void => {
+  const blob = new Blob([content as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Save a table as `<baseName>.csv`, `.xlsx` or `.pdf`
+ */
+export const downloadTable = (table: ExportTable, format: ExportFormat, baseName: string): void => {
+  const { mimeType } = EXPORT_FORMATS.find((entry) => entry.format === format)!;
+  const content = format === "csv" ? toCsv(table) : format === "xlsx" ? toXlsx([table]) : tableToPdf(table);
+  downloadFile(`${baseName}.${format}`, content, mimeType);
+};
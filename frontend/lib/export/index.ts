@@ -0,0 +1,7 @@
+// Export tables and documents as CSV, XLSX and PDF files, without third-party libraries
+export * from "./table";
+export * from "./csv";
+export * from "./xlsx";
+export * from "./pdf";
+export * from "./zip";
+export * from "./download";
@@ -0,0 +1,273 @@
+import { ExportTable } from "./table";
+
+// Minimal PDF writer for text documents: pages of Helvetica text, rules and
+// shaded boxes, measured with the standard font metrics so columns can be
+// right-aligned. Text outside printable ASCII is transliterated ("₹" → "Rs.").
+
+export type PdfAlign = "left" | "right" | "center";
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: PdfAlign;
+  /** Gray level from 0 (black) to 1 (white) */
+  gray?: number;
+}
+
+// Advance widths of ASCII 32-126 in 1/1000 em (Adobe core font metrics)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+const TRANSLITERATIONS: Record<string, string> = {
+  "₹": "Rs.",
+  "–": "-",
+  "—": "-",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "…": "...",
+  "·": "-",
+  "≈": "~",
+  " ": " ",
+};
+
+const toPdfText = (value: string): string =>
+  Array.from(value)
+    .map((char) => TRANSLITERATIONS[char] ?? (char >= " " && char <= "~" ? char : "?"))
+    .join("");
+
+const escapePdfString = (value: string): string => value.replace(/[\\()]/g, (char) => `\\${char}`);
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private readonly pages: string[][] = [];
+  private current = 0;
+
+  /** A4 pages, portrait unless `landscape` */
+  constructor(
+    private readonly title: string,
+    options: { landscape?: boolean } = {}
+  ) {
+    this.width = options.landscape ? 842 : 595;
+    this.height = options.landscape ? 595 : 842;
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /** Start a new page, which drawing then goes to */
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /** Add "Page n of m" to the foot of every page, once the content is laid out */
+  numberPages(): void {
+    const last = this.current;
+    this.pages.forEach((_, i) => {
+      this.current = i;
+      this.text(this.width - 36, this.height - 18, `Page ${i + 1} of ${this.pages.length}`, {
+        size: 8,
+        align: "right",
+        gray: 0.4,
+      });
+    });
+    this.current = last;
+  }
+
+  /** Width of text in points */
+  textWidth(value: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const units = Array.from(toPdfText(value)).reduce((total, char) => total + widths[char.charCodeAt(0) - 32], 0);
+    return (units * size) / 1000;
+  }
+
+  /** Shorten text with "..." to fit a width */
+  fitText(value: string, maxWidth: number, size: number, bold = false): string {
+    if (this.textWidth(value, size, bold) <= maxWidth) return value;
+    let fitted = toPdfText(value);
+    while (fitted.length > 0 && this.textWidth(`${fitted}...`, size, bold) > maxWidth) fitted = fitted.slice(0, -1);
+    return `${fitted}...`;
+  }
+
+  /** Draw text with its baseline `y` points from the top of the page */
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const width = this.textWidth(value, size, bold);
+    const left = options.align === "right" ? x - width : options.align === "center" ? x - width / 2 : x;
+    this.draw(
+      `BT ${formatNumber(options.gray ?? 0)} g /${bold ? "F2" : "F1"} ${size} Tf ` +
+        `${formatNumber(left)} ${formatNumber(this.height - y)} Td (${escapePdfString(toPdfText(value))}) Tj ET`
+    );
+  }
+
+  /** Draw a line between two points (y from the top) */
+  line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; gray?: number } = {}): void {
+    this.draw(
+      `${formatNumber(options.width ?? 0.5)} w ${formatNumber(options.gray ?? 0)} G ` +
+        `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  /** Fill a box whose top-left corner is at `x`, `y` (y from the top) */
+  box(x: number, y: number, width: number, height: number, gray: number): void {
+    this.draw(
+      `${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(this.height - y - height)} ` +
+        `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    // 1: catalog, 2: page tree, 3-4: fonts, 5: info, then a page and its content stream per page
+    const pageId = (i: number) => 6 + i * 2;
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${pageId(i)} 0 R`).join(" ")}] /Count ${pageCount} >>`
+    );
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+    objects.push(`<< /Title (${escapePdfString(toPdfText(this.title))}) /Producer (Wage Protocol) >>`);
+    this.pages.forEach((operations, i) => {
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId(i) + 1} 0 R >>`
+      );
+      const content = operations.join("\n");
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // Everything above is ASCII, so string offsets are byte offsets
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      offsets.push(output.length);
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return new TextEncoder().encode(output);
+  }
+
+  private draw(operation: string): void {
+    this.pages[this.current].push(operation);
+  }
+}
+
+// ============ TABLES ============
+
+const MARGIN = 36;
+const TITLE_SIZE = 14;
+const DETAIL_SIZE = 9;
+const CELL_SIZE = 8;
+const ROW_HEIGHT = 14;
+const CELL_PADDING = 4;
+
+/**
+ * A table as a landscape PDF, with the header row repeated on each page and page numbers
+ */
+export const tableToPdf = (table: ExportTable): Uint8Array => {
+  const pdf = new PdfDocument(table.title, { landscape: true });
+  const available = pdf.width - 2 * MARGIN;
+
+  // Size columns to their widest cell
+  const natural = table.columns.map(
+    (column, i) =>
+      Math.max(
+        pdf.textWidth(column.header, CELL_SIZE, true),
+        ...table.rows.map((row) => pdf.textWidth(row[i] ?? "", CELL_SIZE)),
+        ...(table.totals ?? []).map((row) => pdf.textWidth(row[i] ?? "", CELL_SIZE, true))
+      ) +
+      2 * CELL_PADDING
+  );
+  // Text columns give up width first, so amounts are never cut short
+  const total = (widths: number[]) => widths.reduce((sum, width) => sum + width, 0);
+  const numericWidth = total(natural.filter((_, i) => table.columns[i].numeric));
+  const textWidth = total(natural) - numericWidth;
+  const textScale = textWidth > 0 ? Math.min(1, Math.max(0, available - numericWidth) / textWidth) : 1;
+  let widths = natural.map((width, i) => (table.columns[i].numeric ? width : width * textScale));
+  const overflow = total(widths) / available;
+  if (overflow > 1) widths = widths.map((width) => width / overflow);
+  const lefts = widths.map((_, i) => MARGIN + total(widths.slice(0, i)));
+  const tableWidth = total(widths);
+
+  const drawRow = (y: number, cells: string[], bold: boolean) => {
+    cells.forEach((value, i) => {
+      if (i >= widths.length) return;
+      const text = pdf.fitText(value, widths[i] - 2 * CELL_PADDING, CELL_SIZE, bold);
+      const numeric = table.columns[i].numeric;
+      pdf.text(numeric ? lefts[i] + widths[i] - CELL_PADDING : lefts[i] + CELL_PADDING, y + ROW_HEIGHT - 4, text, {
+        size: CELL_SIZE,
+        bold,
+        align: numeric ? "right" : "left",
+      });
+    });
+  };
+
+  const drawHeader = (y: number): number => {
+    pdf.box(MARGIN, y, tableWidth, ROW_HEIGHT, 0.9);
+    drawRow(
+      y,
+      table.columns.map((column) => column.header),
+      true
+    );
+    return y + ROW_HEIGHT;
+  };
+
+  let y = MARGIN + TITLE_SIZE;
+  pdf.text(MARGIN, y, table.title, { size: TITLE_SIZE, bold: true });
+  y += 6;
+  for (const line of table.details ?? []) {
+    y += DETAIL_SIZE + 4;
+    pdf.text(MARGIN, y, line, { size: DETAIL_SIZE, gray: 0.3 });
+  }
+  y = drawHeader(y + 12);
+
+  const bottom = pdf.height - MARGIN - 20;
+  const rows = table.rows.map((cells) => ({ cells, bold: false }));
+  (table.totals ?? []).forEach((cells) => rows.push({ cells, bold: true }));
+  rows.forEach(({ cells, bold }) => {
+    if (y + ROW_HEIGHT > bottom) {
+      pdf.addPage();
+      y = drawHeader(MARGIN);
+    }
+    if (bold) pdf.line(MARGIN, y, MARGIN + tableWidth, y);
+    drawRow(y, cells, bold);
+    y += ROW_HEIGHT;
+    pdf.line(MARGIN, y, MARGIN + tableWidth, y, { width: 0.25, gray: 0.8 });
+  });
+
+  for (const line of table.notes ?? []) {
+    if (y + DETAIL_SIZE + 6 > bottom) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    y += DETAIL_SIZE + 6;
+    pdf.text(MARGIN, y, line, { size: DETAIL_SIZE, gray: 0.3 });
+  }
+
+  pdf.numberPages();
+  return pdf.toBytes();
+};
@@ -0,0 +1,32 @@
+// A titled table of preformatted cells, written out by the CSV, XLSX and PDF exporters.
+// Amounts go in already formatted as exact decimals ("1234.56789"), so every format
+// shows the same digits; numeric columns are right-aligned and stored as numbers in XLSX.
+
+export interface ExportColumn {
+  header: string;
+  numeric?: boolean;
+}
+
+export interface ExportTable {
+  title: string;
+  /** Lines shown under the title (employer, period, units...) */
+  details?: string[];
+  columns: ExportColumn[];
+  rows: string[][];
+  /** Summary rows (e.g. one per token) shown in bold after the rows */
+  totals?: string[][];
+  /** Lines shown after the table */
+  notes?: string[];
+}
+
+export type ExportFormat = "csv" | "xlsx" | "pdf";
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; mimeType: string }[] = [
+  { format: "csv", label: "CSV", mimeType: "text/csv;charset=utf-8" },
+  { format: "xlsx", label: "Excel (XLSX)", mimeType: XLSX_MIME_TYPE },
+  { format: "pdf", label: "PDF", mimeType: "application/pdf" },
+];
+
+export const isNumericCell = (value: string): boolean => /^-?\d+(\.\d+)?$/.test(value);
@@ -0,0 +1,172 @@
+import { ExportTable, isNumericCell } from "./table";
+import { createZip } from "./zip";
+
+// Minimal SpreadsheetML workbook: one worksheet per table with inline strings,
+// a bold style for the title, header and totals rows, and numeric columns stored
+// as numbers so they can be summed.
+
+// Also drops the control characters XML can't hold
+const escapeXml = (value: string): string =>
+  value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const columnName = (index: number): string => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Sheet names are at most 31 characters, without []:*?/\
+const sheetName = (title: string, index: number, used: Set<string>): string => {
+  const base =
+    title
+      .replace(/[\[\]:*?/\\]/g, " ")
+      .trim()
+      .slice(0, 31) || `Sheet${index + 1}`;
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 28)} ${n}`;
+  used.add(name.toLowerCase());
+  return name;
+};
+
+const BOLD_STYLE = 1;
+
+const cellXml = (value: string, ref: string, numeric: boolean, bold: boolean): string => {
+  const style = bold ? ` s="${BOLD_STYLE}"` : "";
+  if (value === "") return "";
+  if (numeric && isNumericCell(value)) return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const sheetXml = (table: ExportTable, dataOnly: boolean): string => {
+  const rows: string[] = [];
+  const addRow = (cells: string[], options: { bold?: boolean; numeric?: boolean } = {}) => {
+    const r = rows.length + 1;
+    const xml = cells
+      .map((value, i) =>
+        cellXml(value, `${columnName(i)}${r}`, !!options.numeric && !!table.columns[i]?.numeric, !!options.bold)
+      )
+      .join("");
+    rows.push(`<row r="${r}">${xml}</row>`);
+  };
+
+  if (!dataOnly) {
+    addRow([table.title], { bold: true });
+    (table.details ?? []).forEach((line) => addRow([line]));
+    addRow([]);
+  }
+  addRow(
+    table.columns.map((column) => column.header),
+    { bold: true }
+  );
+  table.rows.forEach((row) => addRow(row, { numeric: true }));
+  (table.totals ?? []).forEach((row) => addRow(row, { numeric: true, bold: true }));
+  if (table.notes?.length && !dataOnly) {
+    addRow([]);
+    table.notes.forEach((line) => addRow([line]));
+  }
+
+  const widths = table.columns
+    .map((column, i) => {
+      const longest = Math.max(column.header.length, ...table.rows.map((row) => (row[i] ?? "").length));
+      return `<col min="${i + 1}" max="${i + 1}" width="${Math.min(60, longest + 2)}" customWidth="1"/>`;
+    })
+    .join("");
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<cols>${widths}</cols><sheetData>${rows.join("")}</sheetData></worksheet>`
+  );
+};
+
+const STYLES_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+  `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+  `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>` +
+  `<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+  `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>` +
+  `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+  `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+  `<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+  `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>` +
+  `</styleSheet>`;
+
+export interface XlsxOptions {
+  /** Only the header row, rows and totals, e.g. for a portal's upload template */
+  dataOnly?: boolean;
+}
+
+/**
+ * An XLSX workbook with a worksheet for each table
+ */
+export const toXlsx = (tables: ExportTable[], options: XlsxOptions = {}): Uint8Array => {
+  const encoder = new TextEncoder();
+  const used = new Set<string>();
+  const names = tables.map((table, i) => sheetName(table.title, i, used));
+
+  const contentTypes =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Override PartName="/xl/workbook.xml" ` +
+    `ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+    `<Override PartName="/xl/styles.xml" ` +
+    `ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+    tables
+      .map(
+        (_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ` +
+          `ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join("") +
+    `</Types>`;
+
+  const rootRels =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" ` +
+    `Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" ` +
+    `Target="xl/workbook.xml"/></Relationships>`;
+
+  const workbook =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ` +
+    `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+    names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("") +
+    `</sheets></workbook>`;
+
+  const workbookRels =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    tables
+      .map(
+        (_, i) =>
+          `<Relationship Id="rId${i + 1}" ` +
+          `Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" ` +
+          `Target="worksheets/sheet${i + 1}.xml"/>`
+      )
+      .join("") +
+    `<Relationship Id="rId${tables.length + 1}" ` +
+    `Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    `</Relationships>`;
+
+  return createZip([
+    { path: "[Content_Types].xml", data: encoder.encode(contentTypes) },
+    { path: "_rels/.rels", data: encoder.encode(rootRels) },
+    { path: "xl/workbook.xml", data: encoder.encode(workbook) },
+    { path: "xl/_rels/workbook.xml.rels", data: encoder.encode(workbookRels) },
+    { path: "xl/styles.xml", data: encoder.encode(STYLES_XML) },
+    ...tables.map((table, i) => ({
+      path: `xl/worksheets/sheet${i + 1}.xml`,
+      data: encoder.encode(sheetXml(table, !!options.dataOnly)),
+    })),
+  ]);
+};
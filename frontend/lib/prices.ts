@@ -0,0 +1,108 @@
+import {
+  CachedPriceProvider,
+  FiatCurrency,
+  HttpPriceProvider,
+  HistoricalPriceProvider,
+  PriceQuote,
+  PriceTable,
+  StaticPriceProvider,
+  TokenMetadata,
+  isFiatCurrency,
+  quoteAt,
+} from "@wage-protocol/sdk/protocol";
+
+// Fiat (INR / USD) values shown next to token amounts. NEXT_PUBLIC_FIAT_PRICES sets fixed
+// rates, e.g. '{"APT": {"INR": 840, "USD": 10}}' (with NEXT_PUBLIC_FIAT_PRICES_AS_OF, an ISO
+// time, to flag them stale after a day); otherwise rates are fetched live from
+// NEXT_PUBLIC_PRICE_FEED_URL, a CoinGecko-compatible simple/price endpoint, and past
+// rates from NEXT_PUBLIC_PRICE_HISTORY_URL, its coins endpoint (CoinGecko by default).
+
+// How often displayed rates refresh
+export const PRICE_REFRESH_MS = 60_000;
+
+// Fixed rates older than this are flagged stale
+const STATIC_PRICE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const known = <T>(values: (T | null)[]): T[] => values.filter((value): value is T => value !== null);
+
+const staticPrices = (): PriceTable | null => {
+  const json = process.env.NEXT_PUBLIC_FIAT_PRICES;
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    console.error("Ignoring NEXT_PUBLIC_FIAT_PRICES, which is not valid JSON:", error);
+    return null;
+  }
+};
+
+const createPriceProvider = (): HistoricalPriceProvider => {
+  const prices = staticPrices();
+  const asOf = process.env.NEXT_PUBLIC_FIAT_PRICES_AS_OF;
+  const source = prices
+    ? new StaticPriceProvider(prices, asOf ? { asOf: Date.parse(asOf), maxAgeMs: STATIC_PRICE_MAX_AGE_MS } : {})
+    : new HttpPriceProvider({
+        url: process.env.NEXT_PUBLIC_PRICE_FEED_URL,
+        historyUrl: process.env.NEXT_PUBLIC_PRICE_HISTORY_URL,
+      });
+  return new CachedPriceProvider(source, { ttlMs: PRICE_REFRESH_MS });
+};
+
+export const priceProvider = createPriceProvider();
+
+// Currencies amounts are shown in, primary first (NEXT_PUBLIC_FIAT_CURRENCIES, default "INR,USD")
+export const FIAT_DISPLAY_CURRENCIES: FiatCurrency[] = (process.env.NEXT_PUBLIC_FIAT_CURRENCIES ?? "INR,USD")
+  .split(",")
+  .map((currency) => currency.trim().toUpperCase())
+  .filter(isFiatCurrency);
+
+/**
+ * Quotes of a token in every display currency; currencies without a price are left out
+ */
+export const getFiatQuotes = async (token: TokenMetadata): Promise<PriceQuote[]> => {
+  const results = await Promise.allSettled(
+    FIAT_DISPLAY_CURRENCIES.map((currency) => priceProvider.getQuote(token, currency))
+  );
+  return results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+};
+
+// ============ WITHDRAWAL RATES ============
+
+// Rates in effect when withdrawals were made, for tax reports: the price source's
+// history around each withdrawal's block time, so every device and every report
+// values a withdrawal the same way.
+
+// How far a rate may be from the withdrawal before it is flagged stale
+const WITHDRAWAL_RATE_MAX_GAP_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A token's rate in one currency at each of the given times (unix seconds),
+ * null where the source has none. One history request covers all the times.
+ */
+export const getHistoricalQuotes = async (
+  token: TokenMetadata,
+  currency: FiatCurrency,
+  timestamps: number[]
+): Promise<(PriceQuote | null)[]> => {
+  if (timestamps.length === 0) return [];
+  const from = Math.min(...timestamps) * 1000 - WITHDRAWAL_RATE_MAX_GAP_MS;
+  const to = Math.max(...timestamps) * 1000 + WITHDRAWAL_RATE_MAX_GAP_MS;
+  try {
+    const history = await priceProvider.getQuoteHistory(token, currency, from, to);
+    return timestamps.map((timestamp) => quoteAt(history, timestamp * 1000, WITHDRAWAL_RATE_MAX_GAP_MS));
+  } catch (error) {
+    console.error(`No ${currency} price history for ${token.symbol}:`, error);
+    return timestamps.map(() => null);
+  }
+};
+
+/**
+ * A token's rates in every display currency at each of the given times (unix
+ * seconds); currencies without a rate then are left out
+ */
+export const getWithdrawalQuotes = async (token: TokenMetadata, timestamps: number[]): Promise<PriceQuote[][]> => {
+  const byCurrency = await Promise.all(
+    FIAT_DISPLAY_CURRENCIES.map((currency) => getHistoricalQuotes(token, currency, timestamps))
+  );
+  return timestamps.map((_, i) => known(byCurrency.map((quotes) => quotes[i])));
+};
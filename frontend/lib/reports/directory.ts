@@ -0,0 +1,55 @@
+import { normalizeAddress } from "@wage-protocol/sdk/protocol";
+
+// Employees' statutory identities (name, PAN, EPFO UAN, ESIC IP number), which the
+// chain only holds as hashes, and the state and skill category their minimum
+// wage depends on. The employer keeps them in this browser, keyed by employee
+// address, to fill in statutory returns and check wages.
+
+export interface EmployeeRecord {
+  name: string;
+  pan: string;
+  uan: string;
+  ipNumber: string;
+  /** `STATE_CODES` entry where the employee works; the employer's registered state when unset */
+  stateCode?: number;
+  /** `SKILL_CATEGORIES` entry the employee is paid as; unskilled when unset */
+  skill?: number;
+}
+
+export const EMPTY_EMPLOYEE_RECORD: EmployeeRecord = { name: "", pan: "", uan: "", ipNumber: "" };
+
+const directoryKey = (employer: string) => `wap_employee_directory:${normalizeAddress(employer)}`;
+
+/**
+ * The employer's records, by normalized employee address
+ */
+export const getEmployeeDirectory = (employer: string): Record<string, EmployeeRecord> => {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(localStorage.getItem(directoryKey(employer)) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+export const findEmployeeRecord = (directory: Record<string, EmployeeRecord>, employee: string): EmployeeRecord => ({
+  ...EMPTY_EMPLOYEE_RECORD,
+  ...directory[normalizeAddress(employee)],
+});
+
+/**
+ * Save one employee's record, returning the updated directory
+ */
+export const saveEmployeeRecord = (
+  employer: string,
+  employee: string,
+  record: EmployeeRecord
+): Record<string, EmployeeRecord> => {
+  const directory = { ...getEmployeeDirectory(employer), [normalizeAddress(employee)]: record };
+  try {
+    localStorage.setItem(directoryKey(employer), JSON.stringify(directory));
+  } catch (error) {
+    console.error("Failed to save employee record:", error);
+  }
+  return directory;
+};
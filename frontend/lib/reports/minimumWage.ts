@@ -0,0 +1,125 @@
+import {
+  APT,
+  MinimumWageCheck,
+  PriceQuote,
+  SKILL_CATEGORIES,
+  SKILL_CATEGORY_NAMES,
+  accruedBetween,
+  checkMinimumWage,
+  TokenMetadata,
+  compliance,
+} from "@wage-protocol/sdk/protocol";
+import { StreamInfo } from "@/lib/aptos/wageStreaming";
+import { EmployeeRecord, findEmployeeRecord } from "./directory";
+
+// Employees' pay against the minimum wage for their state and skill category,
+// as recorded in the employee directory (the employer's registered state and the
+// unskilled rate when it has neither). Each stream paying wages in a period has
+// to meet the floor on its own, so an employee's status is their lowest-paying
+// stream's. Streams are priced in rupees at their token's current INR quote;
+// streams in a token without one can't be checked and are counted as such.
+
+export interface EmployeeMinimumWage {
+  /** The check of the employee's lowest-paying stream */
+  check: MinimumWageCheck;
+  streamId: string;
+  /** No skill category on record, so the unskilled rate applies */
+  assumedSkill: boolean;
+  /** Symbols of the employee's other streams' tokens that have no INR price, so went unchecked */
+  unpriced: string[];
+}
+
+export const MINIMUM_WAGE_NOTE =
+  "Minimum wage compares each stream's pay for 30 days, at the current INR price of the streamed token, with the " +
+  "monthly floor for the employee's state and skill category (unskilled when not recorded).";
+
+/**
+ * Note for tokens streamed in a period that have no INR price, e.g.
+ * "No INR price for USDC is available, so its streams' minimum wages are not checked."
+ */
+export const unpricedNote = (symbols: string[]): string =>
+  `No INR price for ${symbols.join(" or ")} is available, so ${symbols.length === 1 ? "its" : "their"} streams' ` +
+  "minimum wages are not checked.";
+
+/**
+ * The state and skill category an employee's minimum wage is looked up by
+ */
+export const wageClass = (record: EmployeeRecord, employerState: number | null) => ({
+  stateCode: record.stateCode ?? employerState ?? compliance.STATE_CODES.OTHER,
+  skill: record.skill ?? SKILL_CATEGORIES.UNSKILLED,
+});
+
+/**
+ * Rupees rounded to the rupee, e.g. "₹14,100"
+ */
+export const formatWage = (amount: bigint): string => `₹${compliance.toRupees(amount).toLocaleString("en-IN")}`;
+
+/**
+ * Check the streams that paid wages between two times, by employee. `inrQuotes`
+ * holds the INR quote of each token by asset type; an employee whose streams are
+ * all in tokens without one gets no entry.
+ */
+export const minimumWageChecks = (
+  streams: StreamInfo[],
+  streamTokens: Record<string, TokenMetadata>,
+  from: number,
+  until: number,
+  directory: Record<string, EmployeeRecord>,
+  employerState: number | null,
+  inrQuotes: Record<string, PriceQuote>
+): Record<string, EmployeeMinimumWage> => {
+  const checks: Record<string, EmployeeMinimumWage> = {};
+  const unpriced: Record<string, string[]> = {};
+  for (const stream of streams) {
+    if (accruedBetween(stream, from, until) === BigInt(0)) continue;
+    const token = streamTokens[stream.streamId] ?? APT;
+    const quote = inrQuotes[token.assetType];
+    if (!quote) {
+      const symbols = unpriced[stream.employee] ?? [];
+      if (!symbols.includes(token.symbol)) unpriced[stream.employee] = [...symbols, token.symbol];
+      continue;
+    }
+    const record = findEmployeeRecord(directory, stream.employee);
+    const { stateCode, skill } = wageClass(record, employerState);
+    const check = checkMinimumWage(stream.ratePerSecond, stateCode, skill, { token, quote, at: until });
+    const lowest = checks[stream.employee];
+    if (!lowest || check.monthly < lowest.check.monthly) {
+      checks[stream.employee] = {
+        check,
+        streamId: stream.streamId,
+        assumedSkill: record.skill === undefined,
+        unpriced: [],
+      };
+    }
+  }
+  for (const [employee, symbols] of Object.entries(unpriced)) {
+    if (checks[employee]) checks[employee].unpriced = symbols;
+  }
+  return checks;
+};
+
+/**
+ * The floor a check compared against, e.g. "₹14,100 a month (skilled, Maharashtra, 2025-10 rates)"
+ */
+export const describeFloor = (check: MinimumWageCheck): string => {
+  const { floor } = check;
+  const where = floor.stateCode === compliance.STATE_CODES.OTHER ? "central" : floor.state;
+  const skill = SKILL_CATEGORY_NAMES[floor.skill].toLowerCase();
+  return `${formatWage(floor.monthly)} a month (${skill}, ${where}, ${floor.version} rates)`;
+};
+
+/**
+ * One line of status for reports and exports
+ */
+export const minimumWageSummary = (entry: EmployeeMinimumWage): string => {
+  const { check } = entry;
+  const status =
+    check.status === "below"
+      ? `${formatWage(check.shortfall)} a month below ${describeFloor(check)}`
+      : `Meets ${describeFloor(check)}`;
+  const notes = [
+    ...(entry.assumedSkill ? ["skill not recorded"] : []),
+    ...(entry.unpriced.length > 0 ? [`${entry.unpriced.join(" and ")} streams not checked`] : []),
+  ];
+  return [status, ...notes].join("; ");
+};
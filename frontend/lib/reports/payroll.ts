@@ -0,0 +1,424 @@
+import {
+  APT,
+  PriceQuote,
+  TokenAmount,
+  TokenMetadata,
+  accruedAmountBy,
+  accruedBetween,
+  computeDeductions,
+  nowSeconds,
+  toFiat,
+  wageStreaming,
+  withdrawableAmount,
+} from "@wage-protocol/sdk/protocol";
+import { getDeductionContext } from "@/lib/aptos/compliance";
+import { getStreamWithdrawals } from "@/lib/aptos/events";
+import { StreamInfo } from "@/lib/aptos/wageStreaming";
+import { ExportTable } from "@/lib/export";
+import { getHistoricalQuotes } from "@/lib/prices";
+import { EmployeeMinimumWage, MINIMUM_WAGE_NOTE, minimumWageSummary, unpricedNote } from "./minimumWage";
+import { ReportPeriod, formatDay, monthsBetween } from "./period";
+
+// Per-employee payroll over a reporting period: wages earned (gross), statutory
+// deductions, net pay, withdrawals made and the balance left to withdraw at the
+// end of the period. Deductions follow the on-chain `calculate_deductions`,
+// computed offline from the registry state read once per employee and applied
+// to each calendar month's gross since its thresholds are monthly. Streams pay in
+// APT or a stablecoin, and amounts of different tokens are never added up: an
+// employee paid in two tokens gets a row for each, and each token its own totals.
+// Withdrawals are also valued in INR at the rate on the day each was made, from
+// the price source's history.
+
+// ============ TYPES ============
+
+export interface PayrollDeductions {
+  epf: bigint;
+  esi: bigint;
+  tds: bigint;
+  professionalTax: bigint;
+  total: bigint;
+}
+
+export interface PayrollRow {
+  employee: string;
+  /** Token of the row's streams and amounts */
+  token: TokenMetadata;
+  streamIds: string[];
+  /** Wages earned in the period */
+  gross: bigint;
+  /** null when the compliance registry couldn't be queried */
+  deductions: PayrollDeductions | null;
+  net: bigint | null;
+  /** Withdrawn in the period (termination payouts included); null without the indexer */
+  withdrawals: bigint | null;
+  /** The period's withdrawals in rupees at each one's INR rate; null when a rate is missing */
+  withdrawalsInr: number | null;
+  /** Earned but not withdrawn at the end of the period; null when unknown */
+  outstanding: bigint | null;
+}
+
+export interface PayrollReport {
+  employer: string;
+  period: ReportPeriod;
+  /** End of the covered span: the period's end, or the report time for a current period */
+  until: number;
+  generatedAt: number;
+  /** By token (APT first), then by gross */
+  rows: PayrollRow[];
+  /** One per token with rows, in the same order; a zero APT total when there are none */
+  totals: PayrollTotals[];
+  notes: string[];
+}
+
+export type PayrollTotals = Omit<PayrollRow, "employee" | "streamIds">;
+
+export interface Payout {
+  streamId: string;
+  amount: bigint;
+  timestamp: number;
+}
+
+const ZERO = BigInt(0);
+
+const NO_DEDUCTIONS: PayrollDeductions = { epf: ZERO, esi: ZERO, tds: ZERO, professionalTax: ZERO, total: ZERO };
+
+const sum = (values: bigint[]): bigint => values.reduce((total, value) => total + value, ZERO);
+
+const known = <T>(values: (T | null)[]): T[] => values.filter((value): value is T => value !== null);
+
+/** Sum of values that are all known, else null */
+const sumIfKnown = (values: (number | null)[]): number | null =>
+  values.some((value) => value === null) ? null : known(values).reduce((total, value) => total + value, 0);
+
+/**
+ * Totals of the rows in one token
+ */
+const totalsOf = (token: TokenMetadata, rows: PayrollRow[], withdrawalsKnown: boolean): PayrollTotals => {
+  const deductions = known(rows.map((row) => row.deductions));
+  return {
+    token,
+    gross: sum(rows.map((row) => row.gross)),
+    deductions: {
+      epf: sum(deductions.map((d) => d.epf)),
+      esi: sum(deductions.map((d) => d.esi)),
+      tds: sum(deductions.map((d) => d.tds)),
+      professionalTax: sum(deductions.map((d) => d.professionalTax)),
+      total: sum(deductions.map((d) => d.total)),
+    },
+    net: sum(known(rows.map((row) => row.net))),
+    withdrawals: withdrawalsKnown ? sum(known(rows.map((row) => row.withdrawals))) : null,
+    withdrawalsInr: withdrawalsKnown ? sumIfKnown(rows.map((row) => row.withdrawalsInr)) : null,
+    outstanding: rows.some((row) => row.outstanding !== null) ? sum(known(rows.map((row) => row.outstanding))) : null,
+  };
+};
+
+// ============ BUILDING ============
+
+/**
+ * Everything paid out of the streams: their withdrawals, plus for terminated
+ * streams the final payout `terminate_stream` makes without a withdrawal event
+ */
+export const streamPayouts = (streams: StreamInfo[], withdrawals: wageStreaming.WithdrawalEvent[]): Payout[] => {
+  const payouts: Payout[] = withdrawals.map((withdrawal) => ({
+    streamId: String(withdrawal.streamId),
+    amount: withdrawal.amount,
+    timestamp: withdrawal.timestamp,
+  }));
+  for (const stream of streams) {
+    if (stream.status !== wageStreaming.STREAM_STATUS_CODES.TERMINATED) continue;
+    const withdrawn = sum(
+      payouts.filter((payout) => payout.streamId === stream.streamId).map((payout) => payout.amount)
+    );
+    if (stream.totalWithdrawn > withdrawn) {
+      payouts.push({ streamId: stream.streamId, amount: stream.totalWithdrawn - withdrawn, timestamp: stream.endTime });
+    }
+  }
+  return payouts;
+};
+
+/**
+ * The INR rate when each payout between two times was made (null where the
+ * price history has none), with one history request per token
+ */
+const payoutInrRates = async (
+  payouts: Payout[],
+  streamTokens: Record<string, TokenMetadata>,
+  from: number,
+  until: number
+): Promise<Map<Payout, PriceQuote | null>> => {
+  const byToken = new Map<string, { token: TokenMetadata; payouts: Payout[] }>();
+  for (const payout of payouts) {
+    if (payout.timestamp < from || payout.timestamp >= until) continue;
+    const token = streamTokens[payout.streamId] ?? APT;
+    const group = byToken.get(token.assetType) ?? { token, payouts: [] };
+    byToken.set(token.assetType, { ...group, payouts: [...group.payouts, payout] });
+  }
+
+  const rates = new Map<Payout, PriceQuote | null>();
+  await Promise.all(
+    Array.from(byToken.values()).map(async ({ token, payouts: paid }) => {
+      const quotes = await getHistoricalQuotes(
+        token,
+        "INR",
+        paid.map((payout) => payout.timestamp)
+      );
+      paid.forEach((payout, i) => rates.set(payout, quotes[i]));
+    })
+  );
+  return rates;
+};
+
+/**
+ * Deductions on each calendar month's gross within the period, summed.
+ * null if the registry state couldn't be read.
+ */
+const deductionsFor = async (
+  registryAddr: string,
+  employerAddr: string,
+  employee: string,
+  streams: StreamInfo[],
+  period: ReportPeriod,
+  until: number
+): Promise<PayrollDeductions | null> => {
+  const monthlyGross = monthsBetween(period.start, until)
+    .map((month) => sum(streams.map((stream) => accruedBetween(stream, month.start, month.end))))
+    .filter((gross) => gross > ZERO);
+  const context = await getDeductionContext(registryAddr, employerAddr, employee);
+  if (!context) return null;
+
+  return monthlyGross.map((gross) => computeDeductions(context, gross)).reduce(
+    (totals, deduction) => ({
+      epf: totals.epf + deduction.epf,
+      esi: totals.esi + deduction.esi,
+      tds: totals.tds + deduction.tds,
+      professionalTax: totals.professionalTax + deduction.professionalTax,
+      total: totals.total + deduction.epf + deduction.esi + deduction.tds + deduction.professionalTax,
+    }),
+    NO_DEDUCTIONS
+  );
+};
+
+/**
+ * Build the payroll report of an employer's streams for a period, given the
+ * token each stream pays in (APT when missing)
+ */
+export const getPayrollReport = async (
+  registryAddr: string,
+  employerAddr: string,
+  streams: StreamInfo[],
+  streamTokens: Record<string, TokenMetadata>,
+  period: ReportPeriod,
+  now: number = nowSeconds()
+): Promise<PayrollReport> => {
+  const until = Math.min(period.end, now);
+  const withdrawals = await getStreamWithdrawals(streams.map((stream) => stream.streamId));
+  const payouts = withdrawals ? streamPayouts(streams, withdrawals) : null;
+  const rates = payouts ? await payoutInrRates(payouts, streamTokens, period.start, until) : null;
+
+  // Tokens in the order they are reported, APT first
+  const tokens: TokenMetadata[] = [APT];
+  const byEmployee = new Map<string, { employee: string; token: TokenMetadata; streams: StreamInfo[] }>();
+  for (const stream of streams) {
+    const token = streamTokens[stream.streamId] ?? APT;
+    if (!tokens.some((listed) => listed.assetType === token.assetType)) tokens.push(token);
+    const key = `${stream.employee} ${token.assetType}`;
+    const group = byEmployee.get(key) ?? { employee: stream.employee, token, streams: [] };
+    byEmployee.set(key, { ...group, streams: [...group.streams, stream] });
+  }
+
+  const rows = await Promise.all(
+    Array.from(byEmployee.values()).map(async ({ employee, token, streams: employeeStreams }): Promise<PayrollRow> => {
+      const ids = employeeStreams.map((stream) => stream.streamId);
+      const gross = sum(employeeStreams.map((stream) => accruedBetween(stream, period.start, until)));
+      const deductions =
+        gross > ZERO
+          ? await deductionsFor(registryAddr, employerAddr, employee, employeeStreams, period, until)
+          : NO_DEDUCTIONS;
+
+      let withdrawn: bigint | null = null;
+      let withdrawnInr: number | null = null;
+      let outstanding: bigint | null = null;
+      if (payouts) {
+        const paid = payouts.filter((payout) => ids.includes(payout.streamId));
+        const inPeriod = paid.filter((p) => p.timestamp >= period.start && p.timestamp < until);
+        withdrawn = sum(inPeriod.map((p) => p.amount));
+        withdrawnInr = sumIfKnown(
+          inPeriod.map((p) => {
+            const rate = rates?.get(p);
+            return rate ? toFiat(TokenAmount.of(p.amount, token), rate) : null;
+          })
+        );
+        const earnedBy = sum(employeeStreams.map((stream) => accruedAmountBy(stream, until)));
+        const paidBy = sum(paid.filter((p) => p.timestamp < until).map((p) => p.amount));
+        outstanding = earnedBy > paidBy ? earnedBy - paidBy : ZERO;
+      } else if (until === now) {
+        // Without the payout history, only the current balance is known
+        outstanding = sum(employeeStreams.map((stream) => withdrawableAmount(stream, now)));
+      }
+
+      return {
+        employee,
+        token,
+        streamIds: ids,
+        gross,
+        deductions,
+        net: deductions ? gross - deductions.total : null,
+        withdrawals: withdrawn,
+        withdrawalsInr: withdrawnInr,
+        outstanding,
+      };
+    })
+  );
+
+  const tokenIndex = (token: TokenMetadata) => tokens.findIndex((listed) => listed.assetType === token.assetType);
+  const reported = rows
+    .filter((row) => row.gross > ZERO || (row.withdrawals ?? ZERO) > ZERO || (row.outstanding ?? ZERO) > ZERO)
+    .sort((a, b) =>
+      a.token.assetType !== b.token.assetType
+        ? tokenIndex(a.token) - tokenIndex(b.token)
+        : a.gross === b.gross
+          ? 0
+          : a.gross > b.gross
+            ? -1
+            : 1
+    );
+
+  const paidTokens = tokens.filter((token) => reported.some((row) => row.token.assetType === token.assetType));
+  const totals = (paidTokens.length > 0 ? paidTokens : [APT]).map((token) =>
+    totalsOf(
+      token,
+      reported.filter((row) => row.token.assetType === token.assetType),
+      payouts !== null
+    )
+  );
+
+  const notes = ["Deductions apply the on-chain statutory rates to each calendar month's gross."];
+  if (paidTokens.length > 1) {
+    notes.push(
+      "Streams in different tokens are reported and totalled separately, with deductions on each token's gross."
+    );
+  }
+  const unpriced = reported.filter((row) => row.deductions === null).length;
+  if (unpriced > 0) {
+    notes.push(
+      `Deductions could not be calculated for ${unpriced} employee(s); their deductions and net are left out.`
+    );
+  }
+  if (!payouts) {
+    notes.push("Withdrawal history is unavailable (indexer unreachable), so withdrawals are not shown.");
+  } else {
+    notes.push("Withdrawals (INR) values each withdrawal at the INR rate when it was made.");
+    if (reported.some((row) => row.withdrawalsInr === null)) {
+      notes.push("INR rates are missing for some withdrawals, so those employees' Withdrawals (INR) is blank.");
+    }
+  }
+  if (until < period.end) {
+    notes.push(`The period is still running; amounts are as of ${new Date(until * 1000).toLocaleString()}.`);
+  }
+
+  return { employer: employerAddr, period, until, generatedAt: now, rows: reported, totals, notes };
+};
+
+// ============ EXPORT ============
+
+/**
+ * An amount as an exact decimal of its token for export, e.g. "1234.5678"; blank when unknown
+ */
+export const formatReportAmount = (amount: bigint | null, token: TokenMetadata = APT): string =>
+  amount === null ? "" : TokenAmount.of(amount, token).format({ useGrouping: false, minimumFractionDigits: 2 });
+
+/**
+ * Rupees for export, e.g. "8412.50"; blank when unknown
+ */
+const formatReportRupees = (value: number | null): string => (value === null ? "" : value.toFixed(2));
+
+const amountCells = (row: PayrollTotals): string[] => [
+  ...[
+    row.gross,
+    row.deductions?.epf ?? null,
+    row.deductions?.esi ?? null,
+    row.deductions?.tds ?? null,
+    row.deductions?.professionalTax ?? null,
+    row.deductions?.total ?? null,
+    row.net,
+    row.withdrawals,
+  ].map((amount) => formatReportAmount(amount, row.token)),
+  formatReportRupees(row.withdrawalsInr),
+  formatReportAmount(row.outstanding, row.token),
+];
+
+/**
+ * The unit line of an export, e.g. "Amounts in APT" or, with stablecoin streams,
+ * "Amounts in each row's token (APT, USDC)"
+ */
+const amountsIn = (report: PayrollReport): string => {
+  const symbols = report.totals.map((total) => total.token.symbol);
+  return symbols.length === 1 ? `Amounts in ${symbols[0]}` : `Amounts in each row's token (${symbols.join(", ")})`;
+};
+
+/**
+ * The report as a table for CSV, XLSX or PDF export, with each employee's
+ * minimum wage status when checked and a note of the tokens it couldn't be
+ * checked in for want of an INR price
+ */
+export const payrollReportTable = (
+  report: PayrollReport,
+  minimumWage?: Record<string, EmployeeMinimumWage>,
+  unpricedTokens: string[] = []
+): ExportTable => ({
+  title: `Payroll Report – ${report.period.label}`,
+  details: [
+    `Employer: ${report.employer}`,
+    `Period: ${formatDay(new Date(report.period.start * 1000))} – ${formatDay(new Date(report.period.end * 1000 - 1))}`,
+    `Generated: ${new Date(report.generatedAt * 1000).toLocaleString()}`,
+    amountsIn(report),
+  ],
+  columns: [
+    { header: "Employee" },
+    { header: "Streams" },
+    { header: "Token" },
+    { header: "Gross", numeric: true },
+    { header: "EPF", numeric: true },
+    { header: "ESI", numeric: true },
+    { header: "TDS", numeric: true },
+    { header: "Professional Tax", numeric: true },
+    { header: "Total Deductions", numeric: true },
+    { header: "Net", numeric: true },
+    { header: "Withdrawals", numeric: true },
+    { header: "Withdrawals (INR)", numeric: true },
+    { header: "Outstanding", numeric: true },
+    ...(minimumWage ? [{ header: "Minimum Wage" }] : []),
+  ],
+  rows: report.rows.map((row) => [
+    row.employee,
+    row.streamIds.join(" "),
+    row.token.symbol,
+    ...amountCells(row),
+    ...(minimumWage ? [minimumWage[row.employee] ? minimumWageSummary(minimumWage[row.employee]) : ""] : []),
+  ]),
+  totals: report.totals.map((total) => [
+    "Total",
+    String(
+      report.rows
+        .filter((row) => row.token.assetType === total.token.assetType)
+        .reduce((count, row) => count + row.streamIds.length, 0)
+    ),
+    total.token.symbol,
+    ...amountCells(total),
+    ...(minimumWage ? [""] : []),
+  ]),
+  notes: [
+    ...report.notes,
+    ...(minimumWage ? [MINIMUM_WAGE_NOTE] : []),
+    ...(unpricedTokens.length > 0 ? [unpricedNote(unpricedTokens)] : []),
+  ],
+});
+
+/**
+ * File name (without extension) for an exported report, e.g. "payroll-report-fy-2026-27"
+ */
+export const payrollReportFileName = (report: PayrollReport): string =>
+  `payroll-report-${report.period.label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")}`;
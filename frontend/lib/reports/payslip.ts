@@ -0,0 +1,261 @@
+import { APT, TokenMetadata, accruedBetween, amountForDuration, nowSeconds } from "@wage-protocol/sdk/protocol";
+import {
+  StatutoryRates,
+  StreamComplianceInfo,
+  calculateDeductions,
+  getStatutoryRates,
+  getStreamCompliance,
+} from "@/lib/aptos/compliance";
+import { getStreamWithdrawals } from "@/lib/aptos/events";
+import { StreamInfo } from "@/lib/aptos/wageStreaming";
+import { PdfDocument, createZip } from "@/lib/export";
+import { PayrollDeductions, Payout, formatReportAmount, streamPayouts } from "./payroll";
+import { ReportPeriod, formatDay, monthsBetween } from "./period";
+
+// Monthly payslips, one per stream and calendar month: the wages the stream paid
+// in the month, the statutory deductions `calculate_deductions` makes on them,
+// the employer's own EPF/ESI contributions, withdrawals and the stream's
+// compliance record. Amounts are in the stream's token.
+
+// ============ TYPES ============
+
+export interface EmployerContributions {
+  epf: bigint;
+  esi: bigint;
+}
+
+export interface Payslip {
+  streamId: string;
+  employer: string;
+  employee: string;
+  /** Token of the stream and the payslip's amounts */
+  token: TokenMetadata;
+  month: ReportPeriod;
+  /** End of the covered span: the month's end, or the issue time during the month */
+  until: number;
+  issuedAt: number;
+  dailyRate: bigint;
+  gross: bigint;
+  /** null when the compliance registry couldn't be queried */
+  deductions: PayrollDeductions | null;
+  netPayable: bigint | null;
+  /** On top of the wage, not deducted from it; null without the statutory rates */
+  employerContributions: EmployerContributions | null;
+  /** Withdrawn in the month (termination payouts included); null without the indexer */
+  withdrawals: bigint | null;
+  /** The stream's verification by the compliance registry, null if it has none */
+  compliance: StreamComplianceInfo | null;
+}
+
+const ZERO = BigInt(0);
+
+// ============ BUILDING ============
+
+/**
+ * The employer's EPF and ESI shares: the same wage base as the employee's shares,
+ * at the employer rates
+ */
+const employerContributionsFor = (deductions: PayrollDeductions, rates: StatutoryRates): EmployerContributions => ({
+  epf: rates.epfEmployeeRate > ZERO ? (deductions.epf * rates.epfEmployerRate) / rates.epfEmployeeRate : ZERO,
+  esi: rates.esiEmployeeRate > ZERO ? (deductions.esi * rates.esiEmployerRate) / rates.esiEmployeeRate : ZERO,
+});
+
+const buildPayslip = async (
+  registryAddr: string,
+  stream: StreamInfo,
+  token: TokenMetadata,
+  month: ReportPeriod,
+  payouts: Payout[] | null,
+  rates: StatutoryRates | null,
+  now: number
+): Promise<Payslip> => {
+  const until = Math.min(month.end, now);
+  const gross = accruedBetween(stream, month.start, until);
+  const [deduction, compliance] = await Promise.all([
+    gross > ZERO ? calculateDeductions(registryAddr, stream.employer, stream.employee, gross) : null,
+    getStreamCompliance(registryAddr, Number(stream.streamId)),
+  ]);
+
+  let deductions: PayrollDeductions | null = null;
+  if (deduction) {
+    const { epf, esi, tds, professionalTax } = deduction;
+    deductions = { epf, esi, tds, professionalTax, total: epf + esi + tds + professionalTax };
+  } else if (gross === ZERO) {
+    deductions = { epf: ZERO, esi: ZERO, tds: ZERO, professionalTax: ZERO, total: ZERO };
+  }
+
+  return {
+    streamId: stream.streamId,
+    employer: stream.employer,
+    employee: stream.employee,
+    token,
+    month,
+    until,
+    issuedAt: now,
+    dailyRate: amountForDuration(stream.ratePerSecond, 86400),
+    gross,
+    deductions,
+    netPayable: deductions ? gross - deductions.total : null,
+    employerContributions: deductions && rates ? employerContributionsFor(deductions, rates) : null,
+    withdrawals: payouts
+      ? payouts
+          .filter((payout) => payout.streamId === stream.streamId)
+          .filter((payout) => payout.timestamp >= month.start && payout.timestamp < until)
+          .reduce((total, payout) => total + payout.amount, ZERO)
+      : null,
+    compliance,
+  };
+};
+
+/**
+ * Payslips of the given streams for every month of a period in which they paid
+ * wages; `streamTokens` holds each stream's token by stream ID
+ */
+export const getPayslips = async (
+  registryAddr: string,
+  streams: StreamInfo[],
+  streamTokens: Record<string, TokenMetadata>,
+  period: ReportPeriod,
+  now: number = nowSeconds()
+): Promise<Payslip[]> => {
+  const until = Math.min(period.end, now);
+  const months = monthsBetween(period.start, until);
+  const owed = streams.flatMap((stream) =>
+    months.filter((month) => accruedBetween(stream, month.start, month.end) > ZERO).map((month) => ({ stream, month }))
+  );
+  if (owed.length === 0) return [];
+
+  const [withdrawals, rates] = await Promise.all([
+    getStreamWithdrawals(streams.map((stream) => stream.streamId)),
+    getStatutoryRates(registryAddr),
+  ]);
+  const payouts = withdrawals ? streamPayouts(streams, withdrawals) : null;
+  return Promise.all(
+    owed.map(({ stream, month }) =>
+      buildPayslip(registryAddr, stream, streamTokens[stream.streamId] ?? APT, month, payouts, rates, now)
+    )
+  );
+};
+
+/**
+ * A stream's payslip for one month (`monthPeriod(year, month)`), in the stream's token
+ */
+export const getPayslip = async (
+  registryAddr: string,
+  stream: StreamInfo,
+  token: TokenMetadata,
+  month: ReportPeriod,
+  now: number = nowSeconds()
+): Promise<Payslip> => {
+  const [withdrawals, rates] = await Promise.all([
+    getStreamWithdrawals([stream.streamId]),
+    getStatutoryRates(registryAddr),
+  ]);
+  const payouts = withdrawals ? streamPayouts([stream], withdrawals) : null;
+  return buildPayslip(registryAddr, stream, token, month, payouts, rates, now);
+};
+
+/**
+ * Months a stream has paid wages in so far, newest first
+ */
+export const payslipMonths = (stream: StreamInfo, now: number = nowSeconds()): ReportPeriod[] =>
+  monthsBetween(stream.startTime, Math.min(Math.max(stream.endTime, stream.startTime + 1), now))
+    .filter((month) => accruedBetween(stream, month.start, month.end) > ZERO)
+    .reverse();
+
+// ============ DOCUMENTS ============
+
+const MARGIN = 56;
+const VALUE_X = 595 - MARGIN;
+
+const drawPayslip = (pdf: PdfDocument, payslip: Payslip): void => {
+  let y = MARGIN + 18;
+  const heading = (text: string) => {
+    y += 28;
+    pdf.text(MARGIN, y, text, { size: 11, bold: true });
+    y += 6;
+    pdf.line(MARGIN, y, VALUE_X, y, { width: 0.5, gray: 0.6 });
+  };
+  const row = (label: string, value: string, bold = false) => {
+    y += 17;
+    pdf.text(MARGIN, y, label, { size: 10, bold });
+    pdf.text(VALUE_X, y, value, { size: 10, bold, align: "right" });
+  };
+  const amount = (value: bigint | null) =>
+    value === null ? "Unavailable" : `${formatReportAmount(value, payslip.token)} ${payslip.token.symbol}`;
+
+  pdf.text(MARGIN, y, "Payslip", { size: 20, bold: true });
+  pdf.text(VALUE_X, y, payslip.month.label, { size: 14, bold: true, align: "right" });
+
+  heading("Details");
+  row("Employer", payslip.employer);
+  row("Employee", payslip.employee);
+  row("Wage stream", `#${payslip.streamId}`);
+  row(
+    "Pay period",
+    `${formatDay(new Date(payslip.month.start * 1000))} – ${formatDay(new Date(payslip.until * 1000 - 1))}`
+  );
+  row("Daily rate", amount(payslip.dailyRate));
+
+  heading("Earnings");
+  row("Gross wages streamed", amount(payslip.gross), true);
+
+  heading("Deductions");
+  row("EPF (employee share)", amount(payslip.deductions?.epf ?? null));
+  row("ESI (employee share)", amount(payslip.deductions?.esi ?? null));
+  row("TDS", amount(payslip.deductions?.tds ?? null));
+  row("Professional tax", amount(payslip.deductions?.professionalTax ?? null));
+  row("Total deductions", amount(payslip.deductions?.total ?? null), true);
+
+  heading("Net Payable");
+  row("Net payable", amount(payslip.netPayable), true);
+  row("Withdrawn this month", amount(payslip.withdrawals));
+
+  heading("Employer Contributions (not deducted from pay)");
+  row("EPF (employer share)", amount(payslip.employerContributions?.epf ?? null));
+  row("ESI (employer share)", amount(payslip.employerContributions?.esi ?? null));
+
+  heading("Compliance");
+  row(
+    "Stream compliance record",
+    payslip.compliance ? (payslip.compliance.isCompliant ? "Verified" : "Verified, below minimum wage") : "Not recorded"
+  );
+
+  y += 40;
+  const notes = [
+    `Issued ${new Date(payslip.issuedAt * 1000).toLocaleString()} from on-chain wage stream data.`,
+    "Deductions use the statutory rates of the protocol's compliance registry on this month's gross.",
+  ];
+  if (payslip.until < payslip.month.end) notes.push("The month is still running; amounts are to the issue date.");
+  for (const note of notes) {
+    pdf.text(MARGIN, y, note, { size: 8, gray: 0.4 });
+    y += 12;
+  }
+};
+
+/**
+ * Payslips as one PDF, a page each
+ */
+export const payslipPdf = (payslips: Payslip[]): Uint8Array => {
+  const title = payslips.length === 1 ? `Payslip ${payslips[0].month.label}` : "Payslips";
+  const pdf = new PdfDocument(title);
+  payslips.forEach((payslip, i) => {
+    if (i > 0) pdf.addPage();
+    drawPayslip(pdf, payslip);
+  });
+  return pdf.toBytes();
+};
+
+/**
+ * File name (without extension), e.g. "payslip-stream-12-2026-10"
+ */
+export const payslipFileName = (payslip: Payslip): string => {
+  const start = new Date(payslip.month.start * 1000);
+  return `payslip-stream-${payslip.streamId}-${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, "0")}`;
+};
+
+/**
+ * A ZIP archive with a PDF per payslip, to hand each employee their own
+ */
+export const payslipArchive = (payslips: Payslip[]): Uint8Array =>
+  createZip(payslips.map((payslip) => ({ path: `${payslipFileName(payslip)}.pdf`, data: payslipPdf([payslip]) })));
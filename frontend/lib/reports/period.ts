@@ -0,0 +1,168 @@
+// Reporting periods in the browser's local time. Calendar periods contain a given
+// day; `offset` steps back (-1) or forward from there. Periods run from `start`
+// up to, not including, `end` (unix seconds).
+
+export type PeriodKind = "week" | "month" | "quarter" | "year" | "fiscalYear" | "custom";
+
+export interface ReportPeriod {
+  kind: PeriodKind;
+  label: string;
+  start: number;
+  end: number;
+}
+
+export const PERIOD_KINDS: { kind: PeriodKind; label: string }[] = [
+  { kind: "week", label: "Week" },
+  { kind: "month", label: "Month" },
+  { kind: "quarter", label: "Quarter" },
+  { kind: "year", label: "Year" },
+  { kind: "fiscalYear", label: "Fiscal Year (Apr–Mar)" },
+  { kind: "custom", label: "Custom Range" },
+];
+
+// The Indian financial year starts on 1 April
+const FISCAL_YEAR_START_MONTH = 3;
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const toSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+export const formatDay = (date: Date): string =>
+  `${date.getDate()} ${MONTH_NAMES[date.getMonth()]} ${date.getFullYear()}`;
+
+export const formatMonth = (year: number, month: number): string => `${MONTH_NAMES[month]} ${year}`;
+
+/**
+ * "28/09/2026", as statutory forms write dates
+ */
+export const formatNumericDate = (date: Date): string =>
+  `${String(date.getDate()).padStart(2, "0")}/${String(date.getMonth() + 1).padStart(2, "0")}/${date.getFullYear()}`;
+
+/**
+ * Fiscal year containing a date, named by the calendar year it starts in (FY 2026-27 is 2026)
+ */
+export const fiscalYearOf = (date: Date): number =>
+  date.getMonth() >= FISCAL_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+
+/**
+ * "FY 2026-27"
+ */
+export const fiscalYearLabel = (fiscalYear: number): string =>
+  `FY ${fiscalYear}-${String((fiscalYear + 1) % 100).padStart(2, "0")}`;
+
+export const fiscalYearPeriod = (fiscalYear: number): ReportPeriod => ({
+  kind: "fiscalYear",
+  label: fiscalYearLabel(fiscalYear),
+  start: toSeconds(new Date(fiscalYear, FISCAL_YEAR_START_MONTH, 1)),
+  end: toSeconds(new Date(fiscalYear + 1, FISCAL_YEAR_START_MONTH, 1)),
+});
+
+/**
+ * A quarter of a fiscal year (1-4), as TDS returns are filed: Q1 is April to June
+ */
+export const fiscalQuarterPeriod = (fiscalYear: number, quarter: number): ReportPeriod => {
+  const first = new Date(fiscalYear, FISCAL_YEAR_START_MONTH + (quarter - 1) * 3, 1);
+  const months = `${MONTH_NAMES[first.getMonth()]}–${MONTH_NAMES[(first.getMonth() + 2) % 12]}`;
+  return {
+    kind: "quarter",
+    label: `Q${quarter} ${fiscalYearLabel(fiscalYear)} (${months})`,
+    start: toSeconds(first),
+    end: toSeconds(new Date(first.getFullYear(), first.getMonth() + 3, 1)),
+  };
+};
+
+export const monthPeriod = (year: number, month: number): ReportPeriod => {
+  const first = new Date(year, month, 1);
+  return {
+    kind: "month",
+    label: formatMonth(first.getFullYear(), first.getMonth()),
+    start: toSeconds(first),
+    end: toSeconds(new Date(year, month + 1, 1)),
+  };
+};
+
+/**
+ * The calendar period of a kind containing `date`, or `offset` periods before or after it
+ */
+export const calendarPeriod = (kind: Exclude<PeriodKind, "custom">, date: Date, offset = 0): ReportPeriod => {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  switch (kind) {
+    case "week": {
+      // Weeks start on Monday
+      const monday = new Date(year, month, date.getDate() - ((date.getDay() + 6) % 7) + offset * 7);
+      const next = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 7);
+      const sunday = new Date(next.getFullYear(), next.getMonth(), next.getDate() - 1);
+      return {
+        kind,
+        label: `${formatDay(monday)} – ${formatDay(sunday)}`,
+        start: toSeconds(monday),
+        end: toSeconds(next),
+      };
+    }
+    case "month":
+      return monthPeriod(year, month + offset);
+    case "quarter": {
+      const first = new Date(year, Math.floor(month / 3) * 3 + offset * 3, 1);
+      const quarter = Math.floor(first.getMonth() / 3);
+      return {
+        kind,
+        label: `Q${quarter + 1} ${first.getFullYear()} (${MONTH_NAMES[quarter * 3]}–${MONTH_NAMES[quarter * 3 + 2]})`,
+        start: toSeconds(first),
+        end: toSeconds(new Date(first.getFullYear(), first.getMonth() + 3, 1)),
+      };
+    }
+    case "year":
+      return {
+        kind,
+        label: String(year + offset),
+        start: toSeconds(new Date(year + offset, 0, 1)),
+        end: toSeconds(new Date(year + offset + 1, 0, 1)),
+      };
+    case "fiscalYear":
+      return fiscalYearPeriod(fiscalYearOf(date) + offset);
+  }
+};
+
+/**
+ * A custom period covering whole days, from the start of `from` to the end of `to`
+ */
+export const customPeriod = (from: Date, to: Date): ReportPeriod => {
+  const [first, last] = from <= to ? [from, to] : [to, from];
+  const start = new Date(first.getFullYear(), first.getMonth(), first.getDate());
+  const end = new Date(last.getFullYear(), last.getMonth(), last.getDate() + 1);
+  return {
+    kind: "custom",
+    label: `${formatDay(start)} – ${formatDay(last)}`,
+    start: toSeconds(start),
+    end: toSeconds(end),
+  };
+};
+
+/**
+ * Split a span into calendar-month pieces, e.g. for monthly statutory thresholds
+ */
+export const monthsBetween = (start: number, end: number): ReportPeriod[] => {
+  const months: ReportPeriod[] = [];
+  const first = new Date(start * 1000);
+  for (let month = monthPeriod(first.getFullYear(), first.getMonth()); month.start < end;) {
+    months.push({ ...month, start: Math.max(month.start, start), end: Math.min(month.end, end) });
+    const next = new Date(month.end * 1000);
+    month = monthPeriod(next.getFullYear(), next.getMonth());
+  }
+  return months;
+};
+
+/**
+ * Local day of an `<input type="date">` value ("2026-04-01"), or null if empty or invalid
+ */
+export const parseDateInput = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+/**
+ * `<input type="date">` value of a local day
+ */
+export const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
@@ -0,0 +1,323 @@
+import {
+  APT,
+  TokenMetadata,
+  accruedBetween,
+  compliance,
+  isSameAssetType,
+  nowSeconds,
+  wageStreaming,
+} from "@wage-protocol/sdk/protocol";
+import {
+  DeductionInfo,
+  StatutoryRates,
+  calculateDeductions,
+  getStatutoryRates,
+  getStreamCompliance,
+} from "@/lib/aptos/compliance";
+import { StreamInfo } from "@/lib/aptos/wageStreaming";
+import { ExportTable } from "@/lib/export";
+import { EmployeeRecord, findEmployeeRecord } from "./directory";
+import { ReportPeriod, formatNumericDate } from "./period";
+
+// A month's statutory returns: the EPFO ECR file (UAN-wise wages and PF
+// contributions) and the ESIC monthly contribution upload, built from each
+// stream's wages in the month and the deductions `calculate_deductions` makes on
+// them. UANs and IP numbers are only hashed on chain, so they come from the
+// employer's directory; employees without them are listed in a validation report.
+// The registry reads wages as rupees to 8 decimals, the scale APT streams are
+// paid in; stablecoin streams are in another currency, so they are left out of
+// the returns and listed in the validation report instead.
+
+// ============ TYPES ============
+
+export interface MonthlyWages {
+  employee: string;
+  streamIds: string[];
+  gross: bigint;
+  /** null when the compliance registry couldn't be queried */
+  deductions: DeductionInfo | null;
+  /** Days of the month with wages (the longest-running stream's) */
+  daysPaid: number;
+  /** When the last stream ended, if every stream ended in the month */
+  lastWorkingDay: number | null;
+  /** Streams the compliance registry has no record of */
+  unrecordedStreamIds: string[];
+  /** Streams recorded as paying below the minimum wage */
+  belowMinimumStreamIds: string[];
+}
+
+/**
+ * A stream paying wages in a token the compliance registry doesn't read as rupees
+ */
+export interface ExcludedStream {
+  streamId: string;
+  employee: string;
+  token: TokenMetadata;
+}
+
+export interface MonthlyWageData {
+  employer: string;
+  month: ReportPeriod;
+  until: number;
+  daysInMonth: number;
+  rates: StatutoryRates;
+  employees: MonthlyWages[];
+  /** Streams with wages in the month that are left out of the returns */
+  excludedStreams: ExcludedStream[];
+}
+
+export type ReturnsIssueSeverity = "error" | "warning";
+
+export interface ReturnsIssue {
+  employee: string;
+  /** Errors leave the employee out of a return; warnings don't */
+  severity: ReturnsIssueSeverity;
+  message: string;
+}
+
+export interface StatutoryReturns {
+  ecr: compliance.EcrMember[];
+  esic: compliance.EsicContribution[];
+  issues: ReturnsIssue[];
+}
+
+const ZERO = BigInt(0);
+const DAY = 86400;
+
+// ============ BUILDING ============
+
+/**
+ * Whether the compliance registry reads a token's amounts as rupees: only APT's,
+ * whose 8 decimals match the registry's
+ */
+export const paysInRupees = (token: TokenMetadata): boolean => isSameAssetType(token.assetType, APT.assetType);
+
+/**
+ * The streams with wages between two times, split into those paid in rupees
+ * (by employee) and the rest
+ */
+export const rupeeWageStreams = (
+  streams: StreamInfo[],
+  streamTokens: Record<string, TokenMetadata>,
+  from: number,
+  until: number
+): { byEmployee: Map<string, StreamInfo[]>; excluded: ExcludedStream[] } => {
+  const byEmployee = new Map<string, StreamInfo[]>();
+  const excluded: ExcludedStream[] = [];
+  for (const stream of streams.filter((s) => accruedBetween(s, from, until) > ZERO)) {
+    const token = streamTokens[stream.streamId] ?? APT;
+    if (paysInRupees(token)) {
+      byEmployee.set(stream.employee, [...(byEmployee.get(stream.employee) ?? []), stream]);
+    } else {
+      excluded.push({ streamId: stream.streamId, employee: stream.employee, token });
+    }
+  }
+  return { byEmployee, excluded };
+};
+
+/**
+ * Note listing excluded streams, e.g.
+ * "Streams #3, #7 pay in USDC, which the compliance registry doesn't read as rupees, so they are left out."
+ */
+export const excludedStreamsNote = (excluded: ExcludedStream[]): string => {
+  const ids = excluded.map((stream) => `#${stream.streamId}`).join(", ");
+  const symbols = Array.from(new Set(excluded.map((stream) => stream.token.symbol))).join(" or ");
+  return excluded.length === 1
+    ? `Stream ${ids} pays in ${symbols}, which the compliance registry doesn't read as rupees, so it is left out.`
+    : `Streams ${ids} pay in ${symbols}, which the compliance registry doesn't read as rupees, so they are left out.`;
+};
+
+const sum = (amounts: bigint[]): bigint => amounts.reduce((total, amount) => total + amount, ZERO);
+
+const daysWithWages = (stream: StreamInfo, earned: bigint): number =>
+  stream.ratePerSecond > ZERO
+    ? Math.round(Number((earned * wageStreaming.STREAM_PRECISION) / stream.ratePerSecond) / DAY)
+    : 0;
+
+const isClosed = (stream: StreamInfo): boolean =>
+  stream.status === wageStreaming.STREAM_STATUS_CODES.COMPLETED ||
+  stream.status === wageStreaming.STREAM_STATUS_CODES.TERMINATED;
+
+const monthlyWagesFor = async (
+  registryAddr: string,
+  employerAddr: string,
+  employee: string,
+  streams: StreamInfo[],
+  month: ReportPeriod,
+  until: number,
+  daysInMonth: number
+): Promise<MonthlyWages> => {
+  const earned = streams.map((stream) => accruedBetween(stream, month.start, until));
+  const gross = sum(earned);
+  const [deductions, records] = await Promise.all([
+    calculateDeductions(registryAddr, employerAddr, employee, gross),
+    Promise.all(streams.map((stream) => getStreamCompliance(registryAddr, Number(stream.streamId)))),
+  ]);
+
+  const lastEnd = Math.max(...streams.map((stream) => stream.endTime));
+  const leftInMonth = streams.every(isClosed) && lastEnd >= month.start && lastEnd < month.end;
+  return {
+    employee,
+    streamIds: streams.map((stream) => stream.streamId),
+    gross,
+    deductions,
+    daysPaid: Math.min(daysInMonth, Math.max(...streams.map((stream, i) => daysWithWages(stream, earned[i])))),
+    lastWorkingDay: leftInMonth ? lastEnd : null,
+    unrecordedStreamIds: streams.filter((_, i) => !records[i]).map((stream) => stream.streamId),
+    belowMinimumStreamIds: streams.filter((_, i) => records[i]?.isCompliant === false).map((stream) => stream.streamId),
+  };
+};
+
+/**
+ * Each employee's wages and deductions for a month (`monthPeriod(year, month)`),
+ * over the employer's streams that paid wages in it in rupees; `streamTokens`
+ * holds each stream's token by stream ID
+ */
+export const getMonthlyWages = async (
+  registryAddr: string,
+  employerAddr: string,
+  streams: StreamInfo[],
+  streamTokens: Record<string, TokenMetadata>,
+  month: ReportPeriod,
+  now: number = nowSeconds()
+): Promise<MonthlyWageData> => {
+  const rates = await getStatutoryRates(registryAddr);
+  if (!rates) throw new Error("Couldn't read the statutory rates from the compliance registry");
+
+  const until = Math.min(month.end, now);
+  const daysInMonth = Math.round((month.end - month.start) / DAY);
+  const { byEmployee, excluded } = rupeeWageStreams(streams, streamTokens, month.start, until);
+
+  const employees = await Promise.all(
+    Array.from(byEmployee.entries()).map(([employee, employeeStreams]) =>
+      monthlyWagesFor(registryAddr, employerAddr, employee, employeeStreams, month, until, daysInMonth)
+    )
+  );
+  return { employer: employerAddr, month, until, daysInMonth, rates, employees, excludedStreams: excluded };
+};
+
+/**
+ * The ECR members, ESIC rows and validation issues of a month, with names, UANs
+ * and IP numbers from the employer's directory. Employees are in a return when
+ * the registry deducts its contribution from them.
+ */
+export const buildStatutoryReturns = (
+  data: MonthlyWageData,
+  directory: Record<string, EmployeeRecord>
+): StatutoryReturns => {
+  const returns: StatutoryReturns = { ecr: [], esic: [], issues: [] };
+  const issue = (employee: string, severity: ReturnsIssueSeverity, message: string) =>
+    returns.issues.push({ employee, severity, message });
+
+  data.excludedStreams.forEach((stream) =>
+    issue(
+      stream.employee,
+      "warning",
+      `Stream #${stream.streamId} pays in ${stream.token.symbol}; left out of both returns`
+    )
+  );
+
+  for (const wages of data.employees) {
+    const { employee, deductions } = wages;
+    const record = findEmployeeRecord(directory, employee);
+    const name = record.name.trim();
+    const uan = record.uan.trim();
+    const ipNumber = record.ipNumber.trim();
+
+    wages.unrecordedStreamIds.forEach((id) => issue(employee, "warning", `Stream #${id} has no compliance record`));
+    wages.belowMinimumStreamIds.forEach((id) =>
+      issue(employee, "warning", `Stream #${id} pays below the minimum wage`)
+    );
+    if (!deductions) {
+      issue(employee, "error", "Deductions could not be calculated; left out of both returns");
+      continue;
+    }
+
+    if (deductions.epf > ZERO) {
+      const problem = !uan
+        ? "Missing UAN"
+        : !compliance.isValidUan(uan)
+          ? `UAN "${uan}" is not 12 digits`
+          : !name
+            ? "Missing name"
+            : null;
+      if (problem) {
+        issue(employee, "error", `${problem}; left out of the ECR`);
+      } else {
+        const member = { uan, name, ncpDays: data.daysInMonth - wages.daysPaid };
+        returns.ecr.push(compliance.ecrMember(member, wages.gross, deductions.epf, data.rates));
+      }
+    }
+
+    if (deductions.esi > ZERO) {
+      const problem = !ipNumber
+        ? "Missing ESIC IP number"
+        : !compliance.isValidIpNumber(ipNumber)
+          ? `IP number "${ipNumber}" is not 10 digits`
+          : !name
+            ? "Missing name"
+            : null;
+      if (problem) {
+        issue(employee, "error", `${problem}; left out of the ESIC upload`);
+      } else {
+        returns.esic.push({
+          ipNumber,
+          name,
+          daysPaid: wages.daysPaid,
+          wages: compliance.toRupees(wages.gross),
+          reasonCode: wages.lastWorkingDay !== null ? 2 : 0,
+          lastWorkingDay: wages.lastWorkingDay !== null ? formatNumericDate(new Date(wages.lastWorkingDay * 1000)) : "",
+        });
+      }
+    }
+  }
+  return returns;
+};
+
+// ============ EXPORT ============
+
+/**
+ * File name (without extension), e.g. "ecr-2026-10"
+ */
+export const returnsFileName = (kind: "ecr" | "esic" | "returns-validation", month: ReportPeriod): string => {
+  const start = new Date(month.start * 1000);
+  return `${kind}-${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, "0")}`;
+};
+
+/**
+ * The ESIC upload as a table in the template's column order
+ */
+export const esicUploadTable = (data: MonthlyWageData, returns: StatutoryReturns): ExportTable => ({
+  title: `ESIC ${data.month.label}`,
+  columns: compliance.ESIC_UPLOAD_COLUMNS.map((header, i) => ({ header, numeric: i >= 2 && i <= 4 })),
+  rows: returns.esic.map(compliance.esicUploadRow),
+});
+
+/**
+ * The validation report: every issue found, by employee
+ */
+export const returnsValidationTable = (
+  data: MonthlyWageData,
+  returns: StatutoryReturns,
+  directory: Record<string, EmployeeRecord>
+): ExportTable => ({
+  title: `Statutory Returns Validation – ${data.month.label}`,
+  details: [
+    `Employer: ${data.employer}`,
+    `ECR members: ${returns.ecr.length} · ESIC contributors: ${returns.esic.length}`,
+    `Generated: ${new Date().toLocaleString()}`,
+  ],
+  columns: [{ header: "Employee" }, { header: "Name" }, { header: "Severity" }, { header: "Issue" }],
+  rows: returns.issues.map((issue) => [
+    issue.employee,
+    findEmployeeRecord(directory, issue.employee).name,
+    issue.severity === "error" ? "Error" : "Warning",
+    issue.message,
+  ]),
+  notes:
+    returns.issues.length === 0
+      ? ["No issues found."]
+      : data.excludedStreams.length > 0
+        ? [excludedStreamsNote(data.excludedStreams)]
+        : undefined,
+});
@@ -0,0 +1,526 @@
+import {
+  SalaryTax,
+  TokenMetadata,
+  accruedAmountBy,
+  accruedBetween,
+  compliance,
+  nowSeconds,
+  salaryTax,
+} from "@wage-protocol/sdk/protocol";
+import {
+  EmployeeComplianceProfile,
+  StreamComplianceInfo,
+  getEmployeeCompliance,
+  getStreamCompliance,
+} from "@/lib/aptos/compliance";
+import { StreamInfo } from "@/lib/aptos/wageStreaming";
+import { ExportTable, PdfDocument, createZip } from "@/lib/export";
+import { EmployeeRecord, findEmployeeRecord } from "./directory";
+import { ExcludedStream, excludedStreamsNote, rupeeWageStreams } from "./returns";
+import {
+  ReportPeriod,
+  fiscalQuarterPeriod,
+  fiscalYearLabel,
+  fiscalYearPeriod,
+  formatDay,
+  formatNumericDate,
+  monthsBetween,
+} from "./period";
+
+// TDS statements for an Indian fiscal year: the quarterly Form 24Q data
+// (Annexure I deductee rows, plus Annexure II salary details in Q4) and each
+// employee's Form 16 Part B. TDS, EPF and professional tax come from the streams'
+// on-chain compliance records, spread over the wages each record covers as the
+// stream earns them; the year's tax is computed under the employee's `TAX_REGIME`.
+// As in the statutory returns, only streams paid in the token the registry reads
+// as rupees count; stablecoin streams are left out and listed.
+
+// ============ TYPES ============
+
+export interface TdsMonth {
+  month: ReportPeriod;
+  gross: bigint;
+  tds: bigint;
+  epf: bigint;
+  professionalTax: bigint;
+}
+
+export interface EmployeeTds {
+  employee: string;
+  streamIds: string[];
+  /** null when the employee isn't registered with the compliance registry */
+  profile: EmployeeComplianceProfile | null;
+  /** The profile's regime, or the new regime (the default) without one */
+  regime: number;
+  /** Months with wages, oldest first */
+  months: TdsMonth[];
+  gross: bigint;
+  tds: bigint;
+  epf: bigint;
+  professionalTax: bigint;
+  /** Employed from/until within the year */
+  from: number;
+  to: number;
+  /** Streams without a compliance record, whose wages carry no recorded TDS */
+  unrecordedStreamIds: string[];
+}
+
+export interface TdsStatement {
+  employer: string;
+  fiscalYear: number;
+  period: ReportPeriod;
+  /** End of the covered span: the year's end, or the generation time during the year */
+  until: number;
+  generatedAt: number;
+  employees: EmployeeTds[];
+  /** Streams with wages in the year that are left out of the statement */
+  excludedStreams: ExcludedStream[];
+}
+
+const ZERO = BigInt(0);
+
+/** Form 24Q section code for salary paid by a non-government employer */
+const SALARY_SECTION_CODE = "92B";
+
+/** Written in place of a missing PAN in TDS returns */
+const PAN_NOT_AVAILABLE = "PANNOTAVBL";
+
+// ============ BUILDING ============
+
+const sum = (amounts: bigint[]): bigint => amounts.reduce((total, amount) => total + amount, ZERO);
+
+/**
+ * The part of a recorded deduction earned by `time`: a record's deductions are
+ * on the wages it was computed on, so they accrue with those wages
+ */
+const recordedBy = (stream: StreamInfo, deducted: bigint, wages: bigint, time: number): bigint => {
+  if (wages === ZERO) return ZERO;
+  const share = (accruedAmountBy(stream, time) * deducted) / wages;
+  return share < deducted ? share : deducted;
+};
+
+const streamMonth = (stream: StreamInfo, record: StreamComplianceInfo | null, month: ReportPeriod): TdsMonth => {
+  const gross = accruedBetween(stream, month.start, month.end);
+  if (!record) return { month, gross, tds: ZERO, epf: ZERO, professionalTax: ZERO };
+
+  const wages = compliance.streamComplianceWages(record);
+  const inMonth = (deducted: bigint) =>
+    recordedBy(stream, deducted, wages, month.end) - recordedBy(stream, deducted, wages, month.start);
+  return {
+    month,
+    gross,
+    tds: inMonth(record.tdsDeducted),
+    epf: inMonth(record.epfDeducted),
+    professionalTax: inMonth(record.ptDeducted),
+  };
+};
+
+const employeeTds = async (
+  registryAddr: string,
+  employee: string,
+  streams: StreamInfo[],
+  months: ReportPeriod[]
+): Promise<EmployeeTds> => {
+  const [profile, records] = await Promise.all([
+    getEmployeeCompliance(employee),
+    Promise.all(streams.map((stream) => getStreamCompliance(registryAddr, Number(stream.streamId)))),
+  ]);
+
+  const monthly = months
+    .map((month) => {
+      const parts = streams.map((stream, i) => streamMonth(stream, records[i], month));
+      return {
+        month,
+        gross: sum(parts.map((part) => part.gross)),
+        tds: sum(parts.map((part) => part.tds)),
+        epf: sum(parts.map((part) => part.epf)),
+        professionalTax: sum(parts.map((part) => part.professionalTax)),
+      };
+    })
+    .filter((month) => month.gross > ZERO);
+
+  return {
+    employee,
+    streamIds: streams.map((stream) => stream.streamId),
+    profile,
+    regime: profile?.taxRegime ?? compliance.TAX_REGIME.NEW,
+    months: monthly,
+    gross: sum(monthly.map((month) => month.gross)),
+    tds: sum(monthly.map((month) => month.tds)),
+    epf: sum(monthly.map((month) => month.epf)),
+    professionalTax: sum(monthly.map((month) => month.professionalTax)),
+    from: Math.max(months[0].start, Math.min(...streams.map((stream) => stream.startTime))),
+    to: Math.min(months[months.length - 1].end, Math.max(...streams.map((stream) => stream.endTime))),
+    unrecordedStreamIds: streams.filter((_, i) => !records[i]).map((stream) => stream.streamId),
+  };
+};
+
+/**
+ * TDS of an employer's streams paid in rupees over a fiscal year (by its starting
+ * year), per employee and month; `streamTokens` holds each stream's token by stream ID
+ */
+export const getTdsStatement = async (
+  registryAddr: string,
+  employerAddr: string,
+  streams: StreamInfo[],
+  streamTokens: Record<string, TokenMetadata>,
+  fiscalYear: number,
+  now: number = nowSeconds()
+): Promise<TdsStatement> => {
+  const period = fiscalYearPeriod(fiscalYear);
+  const until = Math.min(period.end, now);
+  const months = monthsBetween(period.start, until);
+
+  const { byEmployee, excluded } = rupeeWageStreams(streams, streamTokens, period.start, until);
+
+  const employees = await Promise.all(
+    Array.from(byEmployee.entries()).map(([employee, employeeStreams]) =>
+      employeeTds(registryAddr, employee, employeeStreams, months)
+    )
+  );
+  return { employer: employerAddr, fiscalYear, period, until, generatedAt: now, employees, excludedStreams: excluded };
+};
+
+/**
+ * An employee's tax for the year on the salary in the statement, under their regime
+ */
+export const employeeSalaryTax = (statement: TdsStatement, employee: EmployeeTds): SalaryTax =>
+  salaryTax({
+    fiscalYear: statement.fiscalYear,
+    regime: employee.regime,
+    grossSalary: employee.gross,
+    professionalTax: employee.professionalTax,
+    employeeEpf: employee.epf,
+  });
+
+// ============ FORM 24Q ============
+
+/**
+ * An amount in rupees to two decimals, e.g. "1234.50"
+ */
+export const formatRupees = (amount: bigint): string => {
+  const paise = ((amount < ZERO ? -amount : amount) + BigInt(500_000)) / BigInt(1_000_000);
+  const sign = amount < ZERO && paise > ZERO ? "-" : "";
+  return `${sign}${paise / BigInt(100)}.${String(paise % BigInt(100)).padStart(2, "0")}`;
+};
+
+const regimeLabel = (regime: number): string => (regime === compliance.TAX_REGIME.OLD ? "Old" : "New");
+
+// Opting out of the new regime (section 115BAC(1A)) means the old regime
+const optsOut = (regime: number): string => (regime === compliance.TAX_REGIME.OLD ? "Yes" : "No");
+
+const panOf = (record: EmployeeRecord): string => {
+  const pan = record.pan.trim().toUpperCase();
+  return compliance.isValidPan(pan) ? pan : PAN_NOT_AVAILABLE;
+};
+
+/**
+ * Notes on what the statement is missing: PANs, registrations, compliance records
+ * and streams left out
+ */
+export const tdsStatementIssues = (
+  statement: TdsStatement,
+  directory: Record<string, EmployeeRecord>
+): { employee: string; message: string }[] => [
+  ...statement.employees.flatMap((employee) => {
+    const record = findEmployeeRecord(directory, employee.employee);
+    const issues: string[] = [];
+    if (!record.pan.trim()) issues.push(`No PAN; reported as ${PAN_NOT_AVAILABLE}`);
+    else if (!compliance.isValidPan(record.pan.trim().toUpperCase())) {
+      issues.push(`PAN "${record.pan}" is not valid; reported as ${PAN_NOT_AVAILABLE}`);
+    }
+    if (!record.name.trim()) issues.push("No name");
+    if (!employee.profile) issues.push("Not registered for compliance; the new regime is assumed");
+    employee.unrecordedStreamIds.forEach((id) =>
+      issues.push(`Stream #${id} has no compliance record, so no TDS is recorded on its wages`)
+    );
+    return issues.map((message) => ({ employee: employee.employee, message }));
+  }),
+  ...statement.excludedStreams.map((stream) => ({
+    employee: stream.employee,
+    message: `Stream #${stream.streamId} pays in ${stream.token.symbol}; left out of Form 24Q and Form 16`,
+  })),
+];
+
+/**
+ * Form 24Q Annexure I for a quarter (1-4): a deductee row per employee and month
+ */
+export const form24QTable = (
+  statement: TdsStatement,
+  quarter: number,
+  directory: Record<string, EmployeeRecord>
+): ExportTable => {
+  const period = fiscalQuarterPeriod(statement.fiscalYear, quarter);
+  const rows = statement.employees.flatMap((employee) => {
+    const record = findEmployeeRecord(directory, employee.employee);
+    return employee.months
+      .filter((month) => month.month.start >= period.start && month.month.start < period.end)
+      .map((month) => {
+        const paidOn = formatNumericDate(new Date((Math.min(month.month.end, statement.until) - 1) * 1000));
+        return [
+          employee.employee,
+          panOf(record),
+          record.name.trim(),
+          SALARY_SECTION_CODE,
+          paidOn,
+          formatRupees(month.gross),
+          formatRupees(month.tds),
+          formatRupees(month.tds),
+          paidOn,
+          optsOut(employee.regime),
+        ];
+      });
+  });
+
+  const inQuarter = statement.employees.flatMap((employee) =>
+    employee.months.filter((month) => month.month.start >= period.start && month.month.start < period.end)
+  );
+  return {
+    title: `Form 24Q Annexure I – ${period.label}`,
+    details: [
+      `Employer (deductor): ${statement.employer}`,
+      `Deductees: ${new Set(rows.map((row) => row[0])).size}`,
+      `Generated: ${new Date(statement.generatedAt * 1000).toLocaleString()}`,
+    ],
+    columns: [
+      { header: "Sr. No." },
+      { header: "Employee" },
+      { header: "PAN" },
+      { header: "Name" },
+      { header: "Section Code" },
+      { header: "Date of Payment/Credit" },
+      { header: "Amount Paid/Credited", numeric: true },
+      { header: "TDS", numeric: true },
+      { header: "Total Tax Deposited", numeric: true },
+      { header: "Date of Deduction" },
+      { header: "Opting out of 115BAC(1A)" },
+    ],
+    rows: rows.map((row, i) => [String(i + 1), ...row]),
+    totals: [
+      [
+        "Total",
+        "",
+        "",
+        "",
+        "",
+        "",
+        formatRupees(sum(inQuarter.map((month) => month.gross))),
+        formatRupees(sum(inQuarter.map((month) => month.tds))),
+        formatRupees(sum(inQuarter.map((month) => month.tds))),
+        "",
+        "",
+      ],
+    ],
+    notes: [
+      "Amounts are in rupees, as the compliance registry reads wages. TDS is from the streams' compliance records.",
+      "Challan details (BSR code, serial number, date of deposit) are not on chain; add them from the challans paid.",
+      ...(statement.excludedStreams.length > 0 ? [excludedStreamsNote(statement.excludedStreams)] : []),
+    ],
+  };
+};
+
+/**
+ * Form 24Q Annexure II (filed with Q4): each employee's salary and tax for the year
+ */
+export const form24QSalaryTable = (
+  statement: TdsStatement,
+  directory: Record<string, EmployeeRecord>
+): ExportTable => ({
+  title: `Form 24Q Annexure II – ${fiscalYearLabel(statement.fiscalYear)}`,
+  details: [
+    `Employer (deductor): ${statement.employer}`,
+    `Generated: ${new Date(statement.generatedAt * 1000).toLocaleString()}`,
+  ],
+  columns: [
+    { header: "Sr. No." },
+    { header: "Employee" },
+    { header: "PAN" },
+    { header: "Name" },
+    { header: "Tax Regime" },
+    { header: "Opting out of 115BAC(1A)" },
+    { header: "Employed From" },
+    { header: "Employed To" },
+    { header: "Gross Salary", numeric: true },
+    { header: "Standard Deduction", numeric: true },
+    { header: "Professional Tax", numeric: true },
+    { header: "Income from Salary", numeric: true },
+    { header: "Section 80C", numeric: true },
+    { header: "Taxable Income", numeric: true },
+    { header: "Tax on Income", numeric: true },
+    { header: "Rebate 87A", numeric: true },
+    { header: "Cess", numeric: true },
+    { header: "Tax Payable", numeric: true },
+    { header: "TDS Deducted", numeric: true },
+    { header: "Shortfall (+) / Excess (-)", numeric: true },
+  ],
+  rows: statement.employees.map((employee, i) => {
+    const record = findEmployeeRecord(directory, employee.employee);
+    const tax = employeeSalaryTax(statement, employee);
+    return [
+      String(i + 1),
+      employee.employee,
+      panOf(record),
+      record.name.trim(),
+      regimeLabel(employee.regime),
+      optsOut(employee.regime),
+      formatNumericDate(new Date(employee.from * 1000)),
+      formatNumericDate(new Date((employee.to - 1) * 1000)),
+      formatRupees(tax.grossSalary),
+      formatRupees(tax.standardDeduction),
+      formatRupees(tax.professionalTax),
+      formatRupees(tax.incomeFromSalary),
+      formatRupees(tax.section80C),
+      formatRupees(tax.taxableIncome),
+      formatRupees(tax.taxOnIncome),
+      formatRupees(tax.rebate),
+      formatRupees(tax.cess),
+      formatRupees(tax.totalTax),
+      formatRupees(employee.tds),
+      formatRupees(tax.totalTax - employee.tds),
+    ];
+  }),
+  notes: [
+    "Section 80C is the employee's EPF contribution; other declared deductions and surcharge are not included.",
+    ...(statement.excludedStreams.length > 0 ? [excludedStreamsNote(statement.excludedStreams)] : []),
+  ],
+});
+
+/**
+ * The quarter's 24Q data as tables: Annexure I, and Annexure II in Q4
+ */
+export const form24QTables = (
+  statement: TdsStatement,
+  quarter: number,
+  directory: Record<string, EmployeeRecord>
+): ExportTable[] =>
+  quarter === 4
+    ? [form24QTable(statement, quarter, directory), form24QSalaryTable(statement, directory)]
+    : [form24QTable(statement, quarter, directory)];
+
+/**
+ * File name (without extension), e.g. "form-24q-2026-27-q1"
+ */
+export const form24QFileName = (statement: TdsStatement, quarter: number): string =>
+  `form-24q-${fiscalYearLabel(statement.fiscalYear).slice(3)}-q${quarter}`;
+
+// ============ FORM 16 PART B ============
+
+const MARGIN = 56;
+const VALUE_X = 595 - MARGIN;
+
+const drawForm16 = (pdf: PdfDocument, statement: TdsStatement, employee: EmployeeTds, record: EmployeeRecord): void => {
+  const tax = employeeSalaryTax(statement, employee);
+  let y = MARGIN + 10;
+  const heading = (text: string) => {
+    y += 24;
+    pdf.text(MARGIN, y, text, { size: 10, bold: true });
+    y += 5;
+    pdf.line(MARGIN, y, VALUE_X, y, { width: 0.5, gray: 0.6 });
+  };
+  const row = (label: string, value: string, bold = false) => {
+    y += 15;
+    pdf.text(MARGIN, y, label, { size: 9, bold });
+    pdf.text(VALUE_X, y, value, { size: 9, bold, align: "right" });
+  };
+  const rupees = (amount: bigint) => `Rs. ${formatRupees(amount)}`;
+
+  pdf.text(MARGIN, y, "Form No. 16 – Part B", { size: 18, bold: true });
+  pdf.text(VALUE_X, y, fiscalYearLabel(statement.fiscalYear), { size: 12, bold: true, align: "right" });
+  y += 14;
+  pdf.text(MARGIN, y, "Details of salary paid and tax deducted (annexure to Part A)", { size: 9, gray: 0.4 });
+
+  heading("Details");
+  row("Employer (deductor)", statement.employer);
+  row("Employee", employee.employee);
+  row("Name", record.name.trim() || "Not provided");
+  row("PAN", panOf(record));
+  row("Assessment year", `AY ${fiscalYearLabel(statement.fiscalYear + 1).slice(3)}`);
+  row(
+    "Period with the employer",
+    `${formatDay(new Date(employee.from * 1000))} – ${formatDay(new Date((employee.to - 1) * 1000))}`
+  );
+  row("Tax regime", `${regimeLabel(employee.regime)} (opting out of 115BAC(1A): ${optsOut(employee.regime)})`);
+
+  heading("Salary");
+  row("1. Gross salary, section 17(1)", rupees(tax.grossSalary), true);
+  row("2. Standard deduction, section 16(ia)", rupees(tax.standardDeduction));
+  row("3. Professional tax, section 16(iii)", rupees(tax.professionalTax));
+  row('4. Income chargeable under the head "Salaries" (1 - 2 - 3)', rupees(tax.incomeFromSalary), true);
+
+  heading("Deductions under Chapter VI-A");
+  row("5. Section 80C (employee's provident fund)", rupees(tax.section80C));
+  row("6. Total taxable income (4 - 5, rounded)", rupees(tax.taxableIncome), true);
+
+  heading("Tax");
+  row("7. Tax on total income", rupees(tax.taxOnIncome));
+  row("8. Rebate under section 87A", rupees(tax.rebate));
+  row("9. Health and education cess", rupees(tax.cess));
+  row("10. Tax payable (7 - 8 + 9, rounded)", rupees(tax.totalTax), true);
+  row("11. Tax deducted at source", rupees(employee.tds));
+  const balance = tax.totalTax - employee.tds;
+  row(
+    balance >= ZERO ? "12. Tax payable by the employee (10 - 11)" : "12. Tax refundable (11 - 10)",
+    rupees(balance >= ZERO ? balance : -balance),
+    true
+  );
+
+  heading("Tax Deducted by Quarter");
+  for (let quarter = 1; quarter <= 4; quarter++) {
+    const period = fiscalQuarterPeriod(statement.fiscalYear, quarter);
+    const months = employee.months.filter(
+      (month) => month.month.start >= period.start && month.month.start < period.end
+    );
+    row(
+      period.label,
+      `paid ${rupees(sum(months.map((month) => month.gross)))} · TDS ${rupees(sum(months.map((month) => month.tds)))}`
+    );
+  }
+
+  y += 28;
+  const notes = [
+    `Generated ${new Date(statement.generatedAt * 1000).toLocaleString()} from on-chain records.`,
+    "Only the EPF contribution is counted under Chapter VI-A; surcharge is not included.",
+  ];
+  if (!employee.profile) notes.push("The employee is not registered for compliance; the new regime is assumed.");
+  const excluded = statement.excludedStreams.filter((stream) => stream.employee === employee.employee);
+  if (excluded.length > 0) notes.push(excludedStreamsNote(excluded));
+  if (statement.until < statement.period.end)
+    notes.push("The year is still running; amounts are to the date generated.");
+  for (const note of notes) {
+    pdf.text(MARGIN, y, note, { size: 7, gray: 0.4 });
+    y += 10;
+  }
+};
+
+/**
+ * Form 16 Part B of the given employees as one PDF, a page each
+ */
+export const form16Pdf = (
+  statement: TdsStatement,
+  employees: EmployeeTds[],
+  directory: Record<string, EmployeeRecord>
+): Uint8Array => {
+  const pdf = new PdfDocument(`Form 16 Part B ${fiscalYearLabel(statement.fiscalYear)}`);
+  employees.forEach((employee, i) => {
+    if (i > 0) pdf.addPage();
+    drawForm16(pdf, statement, employee, findEmployeeRecord(directory, employee.employee));
+  });
+  return pdf.toBytes();
+};
+
+/**
+ * File name (without extension), e.g. "form-16-part-b-2026-27-0x1a2b3c4d"
+ */
+export const form16FileName = (statement: TdsStatement, employee: EmployeeTds): string =>
+  `form-16-part-b-${fiscalYearLabel(statement.fiscalYear).slice(3)}-${employee.employee.slice(0, 10)}`;
+
+/**
+ * A ZIP archive with each employee's Form 16 Part B
+ */
+export const form16Archive = (statement: TdsStatement, directory: Record<string, EmployeeRecord>): Uint8Array =>
+  createZip(
+    statement.employees.map((employee) => ({
+      path: `${form16FileName(statement, employee)}.pdf`,
+      data: form16Pdf(statement, [employee], directory),
+    }))
+  );
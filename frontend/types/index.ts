@@ -1,3 +1,5 @@
+import { APT, TokenAmount, TokenMetadata, accruedAmount, amountForDuration, streamProgress, unaccruedAmount, withdrawableAmount } from "@wage-protocol/sdk/protocol";
+
 // ============ CORE TYPES ============
 
 // Stream Status
@@ -36,6 +38,8 @@ export interface StreamInfo {
   startTime: number;
   endTime: number;
   status: number;
+  pauseTime: number;
+  totalPauseDuration: number;
   description?: string; // Job description
 }
 
@@ -181,28 +185,39 @@ export interface ErrorState {
 
 // ============ UTILITY FUNCTIONS ============
 
-export const formatAmount = (octas: bigint | number, decimals: number = 2): string => {
-  const apt = Number(octas) / 100_000_000;
-  return apt.toLocaleString("en-US", {
-    minimumFractionDigits: decimals,
-    maximumFractionDigits: decimals,
-  });
+// Format an APT amount in octas with exactly `decimals` fraction digits, e.g. "1,250.50"
+export const formatAmount = (octas: bigint | number, decimals: number = 2): string =>
+  TokenAmount.of(octas, APT).format({ minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+// Format an amount of any token with its symbol, e.g. "1,250.50 USDC"
+export const formatTokenAmount = (amount: bigint | number, token: TokenMetadata, decimals: number = 2): string =>
+  TokenAmount.of(amount, token).format({ minimumFractionDigits: decimals, maximumFractionDigits: decimals, withSymbol: true });
+
+// Total of an amount over streams paying in different tokens, one total per token
+// (APT first), e.g. what was deposited across APT and stablecoin streams
+export const totalsByToken = <T extends { streamId: string }>(
+  streams: T[],
+  streamTokens: Record<string, TokenMetadata>,
+  amount: (stream: T) => bigint
+): TokenAmount[] => {
+  const totals = new Map<string, TokenAmount>([[APT.assetType, TokenAmount.zero(APT)]]);
+  for (const stream of streams) {
+    const token = streamTokens[stream.streamId] ?? APT;
+    const total = totals.get(token.assetType) ?? TokenAmount.zero(token);
+    totals.set(token.assetType, total.plus(TokenAmount.of(amount(stream), token)));
+  }
+  return [...totals.values()].filter((total, i) => i === 0 || !total.isZero());
 };
 
+// Per-token totals on one line, e.g. "12.50 APT + 300.00 USDC"
+export const formatTokenTotals = (totals: TokenAmount[], decimals: number = 2): string =>
+  totals.map(total => formatTokenAmount(total.raw, total.token, decimals)).join(" + ");
+
 // Convert rate-per-second based calculation to actual APT amount
 // The contract stores rate_per_second = (amount * PRECISION) / duration
 // So to get actual amount: (rate * duration) / PRECISION
 export const getActualAmount = (ratePerSecond: bigint, durationSeconds: bigint): bigint => {
-  return (ratePerSecond * durationSeconds) / STREAM_PRECISION;
-};
-
-export const formatUSD = (octas: bigint | number, aptPrice: number = 10): string => {
-  const apt = Number(octas) / 100_000_000;
-  const usd = apt * aptPrice;
-  return usd.toLocaleString("en-US", {
-    style: "currency",
-    currency: "USD",
-  });
+  return amountForDuration(ratePerSecond, durationSeconds);
 };
 
 export const formatAddress = (address: string): string => {
@@ -240,21 +255,15 @@ export const formatDateTime = (timestamp: number): string => {
   });
 };
 
-export const getStreamProgress = (stream: StreamInfo): number => {
-  const now = Math.floor(Date.now() / 1000);
-  const duration = stream.endTime - stream.startTime;
-  const elapsed = Math.min(now - stream.startTime, duration);
-  return duration > 0 ? (elapsed / duration) * 100 : 0;
-};
+// Accrual mirrors the contract's calculate_withdrawable_internal, pauses included
+export const getStreamProgress = (stream: StreamInfo, now?: number): number => streamProgress(stream, now);
 
-export const calculateWithdrawable = (stream: StreamInfo): bigint => {
-  const now = Math.floor(Date.now() / 1000);
-  const effectiveEnd = Math.min(now, stream.endTime);
-  const duration = Math.max(0, effectiveEnd - stream.startTime);
-  // Apply PRECISION: earned = (ratePerSecond * duration) / PRECISION
-  const earned = getActualAmount(stream.ratePerSecond, BigInt(duration));
-  return earned > stream.totalWithdrawn ? earned - stream.totalWithdrawn : BigInt(0);
-};
+export const calculateEarned = (stream: StreamInfo, now?: number): bigint => accruedAmount(stream, now);
+
+export const calculateWithdrawable = (stream: StreamInfo, now?: number): bigint => withdrawableAmount(stream, now);
+
+// Deposited but not yet earned; 0 once the stream is completed or terminated
+export const calculateRemaining = (stream: StreamInfo, now?: number): bigint => unaccruedAmount(stream, now);
 
 // Helper functions that also need PRECISION applied
 export const getRatePerHour = (ratePerSecond: bigint): bigint => {